@@ -0,0 +1,139 @@
+// app/auth/api_key_guard.ts
+import type { HttpContext } from '@adonisjs/core/http'
+import { RuntimeException } from '@adonisjs/core/exceptions'
+import { errors, symbols } from '@adonisjs/auth'
+import { AccessToken, type AccessTokensGuard } from '@adonisjs/auth/access_tokens'
+import type { AccessTokensUserProviderContract } from '@adonisjs/auth/types/access_tokens'
+import type { AuthClientResponse, GuardContract } from '@adonisjs/auth/types'
+import type CompanyApiKey from '#models/company_api_key'
+import apiKeyService, { API_KEY_TOKEN_PREFIX } from '#services/api_key_service'
+
+type UserProvider = AccessTokensUserProviderContract<unknown>
+
+// Types repris tels quels du guard `api` : `auth.user` et `auth.authenticate()` gardent un type unique
+// (sinon union de deux types équivalents, et `user.load(...)` ne compile plus dans les contrôleurs)
+type ApiKeyUser<Provider extends UserProvider> = ReturnType<
+  AccessTokensGuard<Provider>['getUserOrFail']
+>
+
+/**
+ * Guard `api_key` : authentifie le backend d'un marchand via une clé API d'entreprise
+ * (header `X-Api-Key`, ou `Authorization: Bearer mk_...`).
+ * L'utilisateur authentifié est le propriétaire de l'entreprise ; la clé utilisée est exposée
+ * via `apiKey` pour le contrôle des scopes et du rate limit (middleware `apiKey`), et sous forme
+ * de `currentAccessToken` (abilities = scopes) pour rester interchangeable avec le guard `api`.
+ */
+export class ApiKeyGuard<Provider extends UserProvider>
+  implements GuardContract<ApiKeyUser<Provider>>
+{
+  declare [symbols.GUARD_KNOWN_EVENTS]: {}
+
+  driverName = 'api_key' as const
+
+  authenticationAttempted = false
+  isAuthenticated = false
+  user?: AccessTokensGuard<Provider>['user']
+  apiKey?: CompanyApiKey
+
+  #ctx: HttpContext
+  #userProvider: Provider
+
+  constructor(ctx: HttpContext, userProvider: Provider) {
+    this.#ctx = ctx
+    this.#userProvider = userProvider
+  }
+
+  async authenticate(): Promise<ApiKeyUser<Provider>> {
+    if (this.authenticationAttempted) {
+      return this.getUserOrFail()
+    }
+    this.authenticationAttempted = true
+
+    const token = this.readToken()
+    if (!token) {
+      throw new errors.E_UNAUTHORIZED_ACCESS('Clé API manquante.', {
+        guardDriverName: this.driverName,
+      })
+    }
+
+    const apiKey = await apiKeyService.findUsableByToken(token)
+    if (!apiKey || !apiKey.company.is_valid_company) {
+      throw new errors.E_UNAUTHORIZED_ACCESS('Clé API invalide ou révoquée.', {
+        guardDriverName: this.driverName,
+      })
+    }
+
+    // Les requêtes de la clé agissent au nom du propriétaire de l'entreprise
+    const owner = await this.#userProvider.findById(apiKey.company.user_id)
+    if (!owner) {
+      throw new errors.E_UNAUTHORIZED_ACCESS('Clé API invalide ou révoquée.', {
+        guardDriverName: this.driverName,
+      })
+    }
+
+    await apiKeyService.markUsed(apiKey, this.#ctx.request.ip())
+
+    const user: ApiKeyUser<Provider> = Object.assign(owner.getOriginal() as object, {
+      currentAccessToken: this.toAccessToken(apiKey),
+    })
+    this.apiKey = apiKey
+    this.user = user
+    this.isAuthenticated = true
+    return user
+  }
+
+  async check(): Promise<boolean> {
+    try {
+      await this.authenticate()
+      return true
+    } catch (error) {
+      if (error instanceof errors.E_UNAUTHORIZED_ACCESS) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  getUserOrFail(): ApiKeyUser<Provider> {
+    if (!this.user) {
+      throw new errors.E_UNAUTHORIZED_ACCESS('Non authentifié.', {
+        guardDriverName: this.driverName,
+      })
+    }
+    return this.user
+  }
+
+  async authenticateAsClient(): Promise<AuthClientResponse> {
+    throw new RuntimeException(
+      "Le guard api_key ne permet pas l'authentification en tant que client."
+    )
+  }
+
+  private toAccessToken(apiKey: CompanyApiKey): AccessToken {
+    return new AccessToken({
+      identifier: apiKey.id,
+      tokenableId: apiKey.company.user_id,
+      type: 'api_key',
+      hash: apiKey.token_hash,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      abilities: apiKey.scopes,
+      createdAt: apiKey.created_at.toJSDate(),
+      updatedAt: apiKey.updated_at.toJSDate(),
+      lastUsedAt: apiKey.last_used_at?.toJSDate() ?? null,
+      expiresAt: apiKey.expires_at?.toJSDate() ?? null,
+    })
+  }
+
+  private readToken(): string | null {
+    const headerKey = this.#ctx.request.header('x-api-key')
+    if (headerKey) return headerKey.trim()
+
+    const authorization = this.#ctx.request.header('authorization')
+    const [type, value] = authorization?.split(' ') ?? []
+    if (type?.toLowerCase() === 'bearer' && value?.startsWith(API_KEY_TOKEN_PREFIX)) {
+      return value.trim()
+    }
+    return null
+  }
+}
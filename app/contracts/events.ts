@@ -2,17 +2,29 @@
 import { NotificationType } from '#models/notification'
 import { OrderStatus } from '#models/order'
 import OrderStatusLog from '#models/order_status_log'
+import type { LegManeuver } from '#models/order_route_leg'
+import type { OrderTransactionStatus, OrderTransactionType } from '#models/order_transaction'
 
 // Données pour une mise à jour de statut
 export type OrderStatusUpdatePayload = {
   order_id: string
   company_id: string // L'ID de l'entreprise à notifier
+  driver_id: string | null // Livreur assigné au moment du changement
   new_status: OrderStatus
   timestamp: string // ISO Timestamp
   // Inclure potentiellement le log entier pour plus de détails?
   log_entry?: OrderStatusLog // Optionnel
 }
 
+// Données pour un waypoint terminé (émis après commit de la mise à jour)
+export type WaypointCompletedPayload = {
+  order_id: string
+  company_id: string
+  waypoint_sequence: number
+  waypoint_type: string
+  timestamp: string // ISO Timestamp
+}
+
 // Données pour une mise à jour de localisation
 export type DriverLocationUpdatePayload = {
   order_id: string // Pour savoir à quelle commande ce driver est lié
@@ -24,6 +36,55 @@ export type DriverLocationUpdatePayload = {
   eta_seconds?: number | null
 }
 
+// Données pour un ETA recalculé (prochain waypoint en attente)
+export type EtaUpdatedPayload = {
+  order_id: string
+  company_id: string
+  driver_id: string
+  waypoint_sequence: number
+  eta_seconds: number
+  estimated_arrival_at: string // ISO Timestamp
+  method: 'route_projection' | 'valhalla' | 'extrapolated'
+  timestamp: string // ISO Timestamp
+}
+
+// Données pour un leg recalculé automatiquement (livreur hors itinéraire)
+export type RouteUpdatedPayload = {
+  order_id: string
+  company_id: string
+  driver_id: string
+  leg_sequence: number
+  reason: 'off_route'
+  geometry: { type: 'LineString'; coordinates: number[][] }
+  duration_seconds: number
+  distance_meters: number
+  maneuvers: LegManeuver[]
+  timestamp: string // ISO Timestamp
+}
+
+// Données pour une offre de mission faite à un livreur (émis après commit de l'offre)
+export type MissionOfferedPayload = {
+  order_id: string
+  driver_id: string
+  batch_id: string | null
+  broadcast: boolean
+  attempt: number
+  remuneration: number
+  expires_at: string // ISO Timestamp
+}
+
+// Changement de statut d'une transaction de paiement (émis après commit, une fois par transition)
+export type PaymentTransactionUpdatedPayload = {
+  order_transaction_id: string
+  type: OrderTransactionType
+  driver_id: string | null
+  company_id: string | null
+  previous_status: OrderTransactionStatus
+  new_status: OrderTransactionStatus
+  source: string // initiation | status_check | webhook:<provider>
+  timestamp: string // ISO Timestamp
+}
+
 // export type NotificationType = 'NEW_MISSION_OFFER' | 'MISSION_ASSIGNED' | 'PAYMENT_RECEIVED' | 'MISSION_CANCELLED_ADMIN' | 'SUPPORT_MESSAGE' | 'SCHEDULE_REMINDER' | 'MISSION_UPDATE'
 
 export interface CustomNotificationData {
@@ -57,5 +118,10 @@ declare module '@adonisjs/core/types' {
     // Nom de l'événement : type du payload
     'order:status_updated': OrderStatusUpdatePayload
     'order:driver_location_updated': DriverLocationUpdatePayload
+    'order:waypoint_completed': WaypointCompletedPayload
+    'order:eta_updated': EtaUpdatedPayload
+    'order:route_updated': RouteUpdatedPayload
+    'driver:mission_offered': MissionOfferedPayload
+    'payment:transaction_updated': PaymentTransactionUpdatedPayload
   }
 }
@@ -0,0 +1,81 @@
+// contracts/socket_events.ts
+import { OrderStatus } from '#models/order'
+import type {
+  DriverLocationUpdatePayload,
+  EtaUpdatedPayload,
+  MissionOfferedPayload,
+  RouteUpdatedPayload,
+} from './events.js'
+
+// Changement de statut d'une commande, sans le log complet (métadonnées internes d'assignation)
+export type SocketOrderStatusPayload = {
+  order_id: string
+  new_status: OrderStatus
+  timestamp: string // ISO Timestamp
+  waypoint_sequence?: number
+}
+
+// Statut vu par les admins : entreprise et livreur concernés en plus
+export type AdminOrderStatusPayload = SocketOrderStatusPayload & {
+  company_id: string
+  driver_id: string | null
+}
+
+// Offre reçue par le livreur (la commande complète est récupérée via GET /missions/current)
+export type SocketMissionOfferPayload = Omit<MissionOfferedPayload, 'driver_id'>
+
+// Position du livreur renvoyée sur sa propre room (positions enregistrées par lot)
+export type DriverSelfLocationPayload = {
+  lat: number
+  lon: number
+  timestamp: number // Secondes epoch
+}
+
+export type WaypointArrivedPayload = {
+  order_id: string
+  waypoint_sequence: number
+  arrival_source: 'geofence'
+  arrived_at: string | null // ISO Timestamp
+}
+
+/*
+|--------------------------------------------------------------------------
+| Événements serveur -> client, par namespace
+|--------------------------------------------------------------------------
+*/
+
+// Namespace /drivers : room `driver_<driverId>`
+export interface DriverServerEvents {
+  mission_offered: (payload: SocketMissionOfferPayload) => void
+  order_status_updated: (payload: SocketOrderStatusPayload) => void
+  location_update: (payload: DriverSelfLocationPayload) => void
+  waypoint_arrived: (payload: WaypointArrivedPayload) => void
+  route_updated: (payload: RouteUpdatedPayload) => void
+}
+
+// Namespace /companies : room `company_<companyId>`, uniquement les commandes de l'entreprise
+export interface CompanyServerEvents {
+  order_status_updated: (payload: SocketOrderStatusPayload) => void
+  driver_location_updated: (payload: DriverLocationUpdatePayload) => void
+  eta_updated: (payload: EtaUpdatedPayload) => void
+  route_updated: (payload: Omit<RouteUpdatedPayload, 'maneuvers'>) => void
+}
+
+// Namespace /admins : room `admins`, toute la plateforme
+export interface AdminServerEvents {
+  order_status_updated: (payload: AdminOrderStatusPayload) => void
+  driver_location_updated: (payload: DriverLocationUpdatePayload) => void
+  mission_offered: (payload: MissionOfferedPayload) => void
+}
+
+// Aucun événement client -> serveur : les positions passent par l'API HTTP
+export type ClientEvents = Record<string, never>
+
+// Données attachées au socket après authentification du handshake
+export interface SocketData {
+  user_id: string
+  driver_id?: string
+  company_id?: string
+}
+
+export type SocketNamespace = 'drivers' | 'companies' | 'admins'
@@ -1,13 +1,11 @@
 // app/controllers/sse/order_tracking_controller.ts
 import { HttpContext } from '@adonisjs/core/http'
 import { inject } from '@adonisjs/core'
-import emitter from '@adonisjs/core/services/emitter'
 import logger from '@adonisjs/core/services/logger'
 import Order from '#models/order'
 import { OrderStatus } from '#models/order'
 import { cuid } from '@adonisjs/core/helpers'
-import { DriverLocationUpdatePayload, OrderStatusUpdatePayload } from '../../contracts/events.js'
-// --- Assurer l'import des types de Payload ---
+import trackingFanoutService, { type TrackingEvent } from '#services/tracking_fanout_service'
 
 // --- Configuration (depuis env ou fichier config) ---
 // Timeout en ms pour fermer les connexions inactives (ex: 15 minutes)
@@ -27,11 +25,22 @@ const connectionTimeouts = new Map<string, NodeJS.Timeout>()
  */
 const connectionPings = new Map<string, NodeJS.Timeout>()
 
+// Nom de l'événement SSE envoyé au client pour chaque événement de suivi
+const SSE_EVENT_NAMES: Record<TrackingEvent['event'], string> = {
+  'order:status_updated': 'status_update',
+  'order:driver_location_updated': 'location_update',
+  'order:eta_updated': 'eta_updated',
+  'order:route_updated': 'route_updated',
+  'order:waypoint_completed': 'waypoint_completed',
+}
+
 @inject()
 export default class OrderTrackingController {
   /**
    * Gère la connexion SSE pour le suivi d'une commande.
    * Optimisations : sélection de champs, timeout, ping.
+   * Les événements arrivent de toutes les instances (Redis pub/sub) et portent un `id:` ;
+   * à la reconnexion, l'en-tête Last-Event-ID permet de rejouer les événements manqués.
    * GET /track-stream/:id
    */
   async stream({ request, response, params, auth }: HttpContext) {
@@ -41,21 +50,24 @@ export default class OrderTrackingController {
     logger.info(`SSE connection attempt for Order ${orderId} [ConnId: ${connectionId}]`)
 
     // --- Vérification d'Autorisation/Existence ---
+    // Suivi réservé à l'entreprise propriétaire (token utilisateur ou clé API) ;
+    // les destinataires passent par les liens de suivi publics (/public/tracking/:token)
+    const user = auth.getUserOrFail()
+    await user.load('company')
+    if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
+
     try {
-      // Requête optimisée juste pour vérifier l'existence et potentiellement le propriétaire
-      // Adapté ici pour vérifier si la commande existe simplement
+      // Requête optimisée juste pour vérifier l'existence et le propriétaire
       const orderCheck = await Order.query()
         .select('id') // Ne sélectionne que l'ID
         .where('id', orderId)
-        // -- Si le suivi est PRIVÉ, ajouter la clause 'andWhere' : --
-        // .andWhere('company_id', user.company?.id) // Vérification propriétaire
+        .andWhere('company_id', user.company.id) // Vérification propriétaire
         .first()
 
       if (!orderCheck) {
         logger.warn(`SSE: Order ${orderId} not found [ConnId: ${connectionId}]`)
         return response.notFound({ message: 'Commande non trouvée.' })
       }
-      // --- Ajouter logique autorisation si nécessaire ---
     } catch (authError) {
       logger.error(
         { err: authError, orderId },
@@ -65,6 +77,21 @@ export default class OrderTrackingController {
     }
     // ----------------------------------------------
 
+    // --- Limite de connexions par commande (toutes instances confondues) ---
+    try {
+      if (!(await trackingFanoutService.acquireConnection(orderId, connectionId))) {
+        logger.warn(`SSE: Connection limit reached for order ${orderId} [ConnId: ${connectionId}]`)
+        return response.tooManyRequests({
+          message: 'Trop de connexions de suivi ouvertes pour cette commande.',
+        })
+      }
+    } catch (limitError) {
+      logger.error({ err: limitError, orderId }, 'SSE: Error checking connection limit.')
+      return response.internalServerError({ message: 'Erreur vérification commande.' })
+    }
+    const lastEventId = request.header('Last-Event-ID') ?? null
+    // -----------------------------------------------------------------------
+
     // --- Configurer Headers SSE ---
     response.response.setHeader('Content-Type', 'text/event-stream')
     response.response.setHeader('Cache-Control', 'no-cache')
@@ -78,10 +105,11 @@ export default class OrderTrackingController {
     /** --- Helper pour envoyer un événement SSE ---
      * Gère la conversion JSON et l'écriture formatée.
      */
-    const sendEvent = (eventName: string, data: any) => {
+    const sendEvent = (eventName: string, data: any, eventId?: string) => {
       if (response.response.writableEnded) return // Ne pas écrire si la connexion est fermée
       try {
         const jsonData = JSON.stringify(data)
+        if (eventId) response.response.write(`id: ${eventId}\n`) // Base de la reprise (Last-Event-ID)
         response.response.write(`event: ${eventName}\n`)
         response.response.write(`data: ${jsonData}\n\n`)
       } catch (e) {
@@ -129,6 +157,9 @@ export default class OrderTrackingController {
         }
         response.response.write(': ping\n\n') // Envoie un commentaire SSE standard
         resetInactivityTimeout() // L'envoi du ping compte comme une activité
+        trackingFanoutService.refreshConnection(orderId, connectionId).catch((error) => {
+          logger.warn({ err: error, orderId }, 'SSE: Failed to refresh connection slot')
+        })
       }, SSE_PING_INTERVAL_MS)
       connectionPings.set(connectionId, pingInterval)
     }
@@ -203,38 +234,13 @@ export default class OrderTrackingController {
         }
       }
     }
-    await sendInitialState() // Appelle la fonction pour la première tentative
-    // -----------------------------------------------------------
-
-    // --- Définition des Listeners Emitter ---
-    const onStatusUpdate = (payload: OrderStatusUpdatePayload) => {
-      if (payload.order_id === orderId) {
-        logger.debug(
-          `SSE: Pushing status update for ${orderId}: ${payload.new_status} [ConnId: ${connectionId}]`
-        )
-        sendEvent('status_update', payload)
-        resetInactivityTimeout() // L'envoi d'un événement compte comme activité
-      }
-    }
-    const onLocationUpdate = (payload: DriverLocationUpdatePayload) => {
-      if (payload.order_id === orderId) {
-        // Ne pas logger toutes les locations si trop fréquent ? Configurable ?
-        logger.trace(`SSE: Pushing location update for ${orderId} [ConnId: ${connectionId}]`)
-        sendEvent('location_update', payload)
-        resetInactivityTimeout() // L'envoi d'un événement compte comme activité
-      }
-    }
-    // --------------------------------------
-
-    // --- Abonnement & Ping ---
-    emitter.on('order:status_updated', onStatusUpdate)
-    emitter.on('order:driver_location_updated', onLocationUpdate)
-    logger.info(`SSE listeners attached for order ${orderId} [ConnId: ${connectionId}]`)
-    startPing() // Démarre l'envoi régulier de pings keep-alive
-    // -------------------------
 
     // --- Gérer la Déconnexion Explicite du Company ---
+    // Enregistré avant l'abonnement : le client peut fermer pendant le rejeu
+    let detach: (() => void) | null = null
+    let closed = false
     request.request.on('close', () => {
+      closed = true
       logger.info(`SSE connection closed BY CLIENT for order ${orderId} [ConnId: ${connectionId}]`)
       // Arrêter les timers
       if (connectionTimeouts.has(connectionId)) {
@@ -245,10 +251,41 @@ export default class OrderTrackingController {
         clearInterval(connectionPings.get(connectionId)!)
         connectionPings.delete(connectionId)
       }
-      // Se désabonner proprement des événements Emitter
-      emitter.off('order:status_updated', onStatusUpdate)
-      emitter.off('order:driver_location_updated', onLocationUpdate)
+      // Se désabonner des événements de suivi et libérer la place de connexion
+      detach?.()
+      trackingFanoutService.releaseConnection(orderId, connectionId).catch((error) => {
+        logger.warn({ err: error, orderId }, 'SSE: Failed to release connection slot')
+      })
       // response.end() est implicite quand 'close' est émis par Node.js Http Request
     })
+    // -------------------------
+
+    // --- Abonnement (toutes instances) & Ping ---
+    const onTrackingEvent = (event: TrackingEvent) => {
+      if (event.event === 'order:driver_location_updated' || event.event === 'order:eta_updated') {
+        // Ne pas logger toutes les locations si trop fréquent
+        logger.trace(`SSE: Pushing ${event.event} for ${orderId} [ConnId: ${connectionId}]`)
+      } else {
+        logger.debug(`SSE: Pushing ${event.event} for ${orderId} [ConnId: ${connectionId}]`)
+      }
+      sendEvent(SSE_EVENT_NAMES[event.event], event.payload, event.id)
+      resetInactivityTimeout() // L'envoi d'un événement compte comme activité
+    }
+    const attachment = await trackingFanoutService.attach(orderId, lastEventId, onTrackingEvent)
+    detach = attachment.detach
+    if (closed) {
+      detach()
+      return
+    }
+    logger.info(
+      `SSE listeners attached for order ${orderId} [ConnId: ${connectionId}] (resumed: ${attachment.resumed})`
+    )
+
+    // Reprise incomplète (ou première connexion) : le client repart de l'état complet
+    if (!attachment.resumed) {
+      await sendInitialState()
+    }
+    startPing() // Démarre l'envoi régulier de pings keep-alive
+    // -----------------------------------------------------------
   }
 } // Fin du Contrôleur
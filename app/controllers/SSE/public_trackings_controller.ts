@@ -0,0 +1,218 @@
+// app/controllers/SSE/public_trackings_controller.ts
+import { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import logger from '@adonisjs/core/services/logger'
+import { cuid } from '@adonisjs/core/helpers'
+import trackingLinkService from '#services/tracking_link_service'
+import trackingFanoutService, { type TrackingEvent } from '#services/tracking_fanout_service'
+
+// Mêmes réglages que le suivi entreprise (order_trackings_controller)
+const SSE_INACTIVITY_TIMEOUT_MS = 15 * 60 * 1000
+const SSE_PING_INTERVAL_MS = 30 * 1000
+
+const connectionTimeouts = new Map<string, NodeJS.Timeout>()
+const connectionPings = new Map<string, NodeJS.Timeout>()
+
+/**
+ * Suivi public d'une livraison par le destinataire, via le token signé de son lien de suivi.
+ * Aucune authentification : seules les données de la vue publique (TrackingLinkService) sont exposées,
+ * et la position du livreur n'est diffusée que lorsqu'il se dirige vers le waypoint du destinataire.
+ */
+@inject()
+export default class PublicTrackingController {
+  /**
+   * [PUBLIC] État de la livraison pour le destinataire du lien.
+   * GET /public/tracking/:token
+   */
+  async show({ params, response }: HttpContext) {
+    const target = trackingLinkService.resolve(params.token)
+    if (!target) {
+      return response.notFound({ message: 'Lien de suivi invalide ou expiré.' })
+    }
+
+    try {
+      const order = await trackingLinkService.loadOrder(target)
+      if (!order) {
+        return response.notFound({ message: 'Lien de suivi invalide ou expiré.' })
+      }
+      return response.ok(await trackingLinkService.buildPublicView(order, target.waypointSequence))
+    } catch (error) {
+      logger.error({ err: error, orderId: target.orderId }, 'Erreur récupération suivi public')
+      return response.internalServerError({ message: 'Erreur lors de la récupération du suivi.' })
+    }
+  }
+
+  /**
+   * [PUBLIC] Flux SSE du suivi destinataire : `tracking_update` (vue publique complète à chaque
+   * changement de statut ou de waypoint), puis `location_update`, `eta_updated` et `route_updated`
+   * uniquement quand le livreur se dirige vers le destinataire. Chaque (re)connexion repart de la vue
+   * complète : pas de reprise via Last-Event-ID.
+   * GET /public/tracking/:token/stream
+   */
+  async stream({ request, response, params }: HttpContext) {
+    const token: string = params.token
+    const target = trackingLinkService.resolve(token)
+    if (!target) {
+      return response.notFound({ message: 'Lien de suivi invalide ou expiré.' })
+    }
+    const { orderId, waypointSequence } = target
+    const connectionId = request.id() || cuid()
+
+    try {
+      const order = await trackingLinkService.loadOrder(target)
+      if (!order) {
+        return response.notFound({ message: 'Lien de suivi invalide ou expiré.' })
+      }
+    } catch (error) {
+      logger.error({ err: error, orderId }, 'Error checking order for public SSE stream.')
+      return response.internalServerError({ message: 'Erreur vérification commande.' })
+    }
+
+    // Limite commune avec le suivi entreprise (toutes instances confondues)
+    try {
+      if (!(await trackingFanoutService.acquireConnection(orderId, connectionId))) {
+        return response.tooManyRequests({
+          message: 'Trop de connexions de suivi ouvertes pour cette commande.',
+        })
+      }
+    } catch (error) {
+      logger.error({ err: error, orderId }, 'Public SSE: Error checking connection limit.')
+      return response.internalServerError({ message: 'Erreur vérification commande.' })
+    }
+
+    response.response.setHeader('Content-Type', 'text/event-stream')
+    response.response.setHeader('Cache-Control', 'no-cache')
+    response.response.setHeader('Connection', 'keep-alive')
+    response.response.flushHeaders()
+
+    const sendEvent = (eventName: string, data: any) => {
+      if (response.response.writableEnded) return
+      try {
+        response.response.write(`event: ${eventName}\n`)
+        response.response.write(`data: ${JSON.stringify(data)}\n\n`)
+      } catch (e) {
+        logger.error(
+          { err: e },
+          `Public SSE: Failed to stringify data for event ${eventName} [ConnId: ${connectionId}]`
+        )
+      }
+    }
+
+    const clearTimers = () => {
+      if (connectionTimeouts.has(connectionId)) {
+        clearTimeout(connectionTimeouts.get(connectionId)!)
+        connectionTimeouts.delete(connectionId)
+      }
+      if (connectionPings.has(connectionId)) {
+        clearInterval(connectionPings.get(connectionId)!)
+        connectionPings.delete(connectionId)
+      }
+    }
+
+    const resetInactivityTimeout = () => {
+      if (connectionTimeouts.has(connectionId)) {
+        clearTimeout(connectionTimeouts.get(connectionId)!)
+      }
+      const timer = setTimeout(() => {
+        logger.warn(`Public SSE: Inactivity timeout for order ${orderId} [ConnId: ${connectionId}]`)
+        clearTimers()
+        response.response.end()
+      }, SSE_INACTIVITY_TIMEOUT_MS)
+      connectionTimeouts.set(connectionId, timer)
+    }
+
+    // Le livreur se dirige-t-il vers ce destinataire ? Mis à jour à chaque rafraîchissement de la vue
+    let headingToRecipient = false
+
+    const sendView = async () => {
+      // Le lien a pu expirer pendant la connexion
+      if (!trackingLinkService.resolve(token)) {
+        sendEvent('link_expired', { message: 'Lien de suivi expiré.' })
+        clearTimers()
+        response.response.end()
+        return
+      }
+      try {
+        const order = await trackingLinkService.loadOrder(target)
+        if (!order) return
+        const view = await trackingLinkService.buildPublicView(order, waypointSequence)
+        headingToRecipient = view.heading_to_recipient
+        sendEvent('tracking_update', view)
+        resetInactivityTimeout()
+      } catch (error) {
+        logger.error({ err: error, orderId }, 'Error sending public tracking view')
+      }
+    }
+
+    const onTrackingEvent = (event: TrackingEvent) => {
+      switch (event.event) {
+        case 'order:status_updated':
+        case 'order:waypoint_completed':
+          void sendView()
+          return
+        case 'order:driver_location_updated':
+          if (!headingToRecipient) return
+          sendEvent('location_update', {
+            location: event.payload.location,
+            timestamp: event.payload.timestamp,
+          })
+          break
+        case 'order:eta_updated':
+          if (event.payload.waypoint_sequence !== waypointSequence) return
+          sendEvent('eta_updated', {
+            eta_seconds: event.payload.eta_seconds,
+            estimated_arrival_at: event.payload.estimated_arrival_at,
+            timestamp: event.payload.timestamp,
+          })
+          break
+        case 'order:route_updated':
+          // Seul le leg menant au destinataire est diffusé
+          if (!headingToRecipient || event.payload.leg_sequence !== waypointSequence - 1) return
+          sendEvent('route_updated', {
+            geometry: event.payload.geometry,
+            duration_seconds: event.payload.duration_seconds,
+            distance_meters: event.payload.distance_meters,
+            timestamp: event.payload.timestamp,
+          })
+          break
+      }
+      resetInactivityTimeout()
+    }
+
+    let detach: (() => void) | null = null
+    let closed = false
+    request.request.on('close', () => {
+      closed = true
+      logger.info(`Public SSE connection closed for order ${orderId} [ConnId: ${connectionId}]`)
+      clearTimers()
+      detach?.()
+      trackingFanoutService.releaseConnection(orderId, connectionId).catch((error) => {
+        logger.warn({ err: error, orderId }, 'Public SSE: Failed to release connection slot')
+      })
+    })
+
+    sendEvent('connection_ack', { connectionId, message: 'Connecté au suivi en temps réel.' })
+    resetInactivityTimeout()
+    const attachment = await trackingFanoutService.attach(orderId, null, onTrackingEvent)
+    detach = attachment.detach
+    if (closed) {
+      detach()
+      return
+    }
+    await sendView()
+
+    const pingInterval = setInterval(() => {
+      if (response.response.writableEnded) {
+        clearInterval(pingInterval)
+        connectionPings.delete(connectionId)
+        return
+      }
+      response.response.write(': ping\n\n')
+      resetInactivityTimeout()
+      trackingFanoutService.refreshConnection(orderId, connectionId).catch((error) => {
+        logger.warn({ err: error, orderId }, 'Public SSE: Failed to refresh connection slot')
+      })
+    }, SSE_PING_INTERVAL_MS)
+    connectionPings.set(connectionId, pingInterval)
+  }
+}
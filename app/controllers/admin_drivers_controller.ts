@@ -8,6 +8,9 @@ import Order from '#models/order'
 import DriversStatus, { DriverStatus } from '#models/drivers_status'
 import logger from '@adonisjs/core/services/logger'
 import { DateTime } from 'luxon'
+import locationHistoryService from '#services/location_history_service'
+import driverWalletService from '#services/driver_wallet_service'
+import { OrderTransactionType } from '#models/order_transaction'
 
 // Validateurs
 const assignDriverToClientValidator = vine.compile(
@@ -32,6 +35,25 @@ const listDriversQueryValidator = vine.compile(
   })
 )
 
+const locationHistoryQueryValidator = vine.compile(
+  vine.object({
+    from: vine.string().trim(), // ISO 8601
+    to: vine.string().trim().optional(), // ISO 8601, maintenant par défaut
+    format: vine.enum(['geojson', 'polyline'] as const).optional(),
+    tolerance_meters: vine.number().min(0).max(100).optional(),
+    include_points: vine.boolean().optional(),
+  })
+)
+
+const walletAdjustmentValidator = vine.compile(
+  vine.object({
+    type: vine.enum([OrderTransactionType.DRIVER_BONUS, OrderTransactionType.DRIVER_PENALTY] as const),
+    amount: vine.number().withoutDecimals().positive(),
+    reason: vine.string().trim().minLength(3),
+    order_id: vine.string().trim().optional(),
+  })
+)
+
 @inject()
 export default class AdminDriversController {
   /**
@@ -447,4 +469,160 @@ export default class AdminDriversController {
       })
     }
   }
+
+  /**
+   * [ADMIN/CLIENT] Historique des positions d'un livreur sur une période : tracé simplifié
+   * (GeoJSON ou polyline), arrêts détectés et distance parcourue
+   * GET /admin/drivers/:id/locations?from=&to=&format=&tolerance_meters=&include_points=
+   */
+  async getDriverLocations({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const companyId = user.company.id
+
+    let payload
+    try {
+      payload = await request.validateUsing(locationHistoryQueryValidator, {
+        data: request.qs(),
+      })
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    const from = DateTime.fromISO(payload.from)
+    const to = payload.to ? DateTime.fromISO(payload.to) : DateTime.now()
+    if (!from.isValid || !to.isValid || from >= to) {
+      return response.badRequest({ message: 'Période invalide (from doit précéder to, format ISO 8601).' })
+    }
+    if (to.diff(from, 'hours').hours > locationHistoryService.maxRangeHours) {
+      return response.badRequest({
+        message: `La période ne peut pas dépasser ${locationHistoryService.maxRangeHours} heures.`,
+      })
+    }
+
+    try {
+      const driver = await Driver.query()
+        .select(['id'])
+        .where('id', params.id)
+        .where('company_id', companyId) // Sécurité: vérifier que le driver appartient au client
+        .first()
+
+      if (!driver) {
+        return response.notFound({ message: 'Livreur non trouvé ou n\'appartient pas à votre entreprise.' })
+      }
+
+      const trail = await locationHistoryService.getTrail(driver.id, from, to, {
+        format: payload.format,
+        toleranceMeters: payload.tolerance_meters,
+        includePoints: payload.include_points,
+      })
+      return response.ok(trail)
+    } catch (error) {
+      logger.error({ err: error, driverId: params.id, companyId }, 'Erreur historique positions livreur')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération de l\'historique des positions.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Solde du portefeuille d'un livreur de l'entreprise
+   * GET /admin/drivers/:id/wallet
+   */
+  async getDriverWallet({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const companyId = user.company.id
+
+    try {
+      const driver = await Driver.query()
+        .select(['id'])
+        .where('id', params.id)
+        .where('company_id', companyId) // Sécurité: vérifier que le driver appartient au client
+        .first()
+
+      if (!driver) {
+        return response.notFound({ message: 'Livreur non trouvé ou n\'appartient pas à votre entreprise.' })
+      }
+
+      return response.ok(await driverWalletService.getBalance(driver.id))
+    } catch (error) {
+      logger.error({ err: error, driverId: params.id, companyId }, 'Erreur lecture portefeuille livreur')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération du portefeuille.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Bonus ou pénalité sur le portefeuille d'un livreur de l'entreprise
+   * POST /admin/drivers/:id/wallet/adjustments
+   */
+  async createDriverWalletAdjustment({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const companyId = user.company.id
+
+    let payload
+    try {
+      payload = await request.validateUsing(walletAdjustmentValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const driver = await Driver.query()
+        .where('id', params.id)
+        .where('company_id', companyId) // Sécurité: vérifier que le driver appartient au client
+        .first()
+
+      if (!driver) {
+        return response.notFound({ message: 'Livreur non trouvé ou n\'appartient pas à votre entreprise.' })
+      }
+
+      if (payload.order_id) {
+        const order = await Order.query()
+          .select(['id'])
+          .where('id', payload.order_id)
+          .where('company_id', companyId)
+          .where('driver_id', driver.id)
+          .first()
+        if (!order) {
+          return response.notFound({ message: 'Commande non trouvée pour ce livreur.' })
+        }
+      }
+
+      const transaction = await driverWalletService.recordAdjustment(driver, {
+        type: payload.type,
+        amount: payload.amount,
+        reason: payload.reason,
+        orderId: payload.order_id,
+        createdBy: user.id,
+      })
+      return response.created(transaction)
+    } catch (error) {
+      logger.error({ err: error, driverId: params.id, companyId }, 'Erreur ajustement portefeuille livreur')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de l\'ajustement du portefeuille.',
+      })
+    }
+  }
 }
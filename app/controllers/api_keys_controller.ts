@@ -0,0 +1,243 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import logger from '@adonisjs/core/services/logger'
+import CompanyApiKey, { API_KEY_SCOPES } from '#models/company_api_key'
+import apiKeyService from '#services/api_key_service'
+
+const MAX_GRACE_PERIOD_MINUTES = 7 * 24 * 60
+
+const createApiKeyValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(2).maxLength(100),
+    scopes: vine.array(vine.enum(API_KEY_SCOPES)).minLength(1),
+    rate_limit_per_minute: vine.number().withoutDecimals().range([1, 10_000]).nullable().optional(),
+  })
+)
+
+const updateApiKeyValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(2).maxLength(100).optional(),
+    scopes: vine.array(vine.enum(API_KEY_SCOPES)).minLength(1).optional(),
+    rate_limit_per_minute: vine.number().withoutDecimals().range([1, 10_000]).nullable().optional(),
+  })
+)
+
+const rotateApiKeyValidator = vine.compile(
+  vine.object({
+    // Durée pendant laquelle l'ancienne clé reste valable (0 : révoquée immédiatement)
+    grace_period_minutes: vine
+      .number()
+      .withoutDecimals()
+      .range([0, MAX_GRACE_PERIOD_MINUTES])
+      .optional(),
+  })
+)
+
+@inject()
+export default class ApiKeysController {
+  /**
+   * [CLIENT] Liste les clés API de l'entreprise (sans leur valeur)
+   * GET /api-keys
+   */
+  async index({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    try {
+      const apiKeys = await CompanyApiKey.query()
+        .where('company_id', user.company.id)
+        .orderBy('created_at', 'desc')
+
+      return response.ok({
+        available_scopes: API_KEY_SCOPES,
+        default_rate_limit_per_minute: apiKeyService.defaultRateLimitPerMinute,
+        data: apiKeys.map((apiKey) => this.present(apiKey)),
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur listage clés API')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des clés API.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Crée une clé API. La valeur n'est renvoyée qu'une seule fois.
+   * POST /api-keys
+   */
+  async store({ request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(createApiKeyValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    try {
+      const result = await apiKeyService.create(user.company.id, user.id, payload)
+      if ('error' in result) {
+        return response.conflict({ message: result.error })
+      }
+
+      logger.info({ apiKeyId: result.apiKey.id, companyId: user.company.id }, 'Clé API créée')
+      return response.created({
+        ...this.present(result.apiKey),
+        key: result.token, // Affichée une seule fois
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur création clé API')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la création de la clé API.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Modifie le nom, les scopes ou la limite d'une clé
+   * PATCH /api-keys/:id
+   */
+  async update({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const apiKey = await this.findCompanyKey(params.id, user.company.id)
+    if (!apiKey || apiKey.revoked_at) {
+      return response.notFound({ message: 'Clé API non trouvée.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(updateApiKeyValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    try {
+      if (payload.name !== undefined) apiKey.name = payload.name
+      if (payload.scopes !== undefined) apiKey.scopes = [...new Set(payload.scopes)]
+      if (payload.rate_limit_per_minute !== undefined) {
+        apiKey.rate_limit_per_minute = payload.rate_limit_per_minute
+      }
+      await apiKey.save()
+      return response.ok(this.present(apiKey))
+    } catch (error) {
+      logger.error({ err: error, apiKeyId: apiKey.id }, 'Erreur modification clé API')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la modification de la clé API.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Remplace une clé par une nouvelle valeur, avec période de grâce optionnelle
+   * POST /api-keys/:id/rotate
+   */
+  async rotate({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const apiKey = await this.findCompanyKey(params.id, user.company.id)
+    if (!apiKey || !apiKey.isUsable) {
+      return response.notFound({ message: 'Clé API non trouvée ou déjà révoquée.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(rotateApiKeyValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    try {
+      const result = await apiKeyService.rotate(apiKey, user.id, payload.grace_period_minutes ?? 0)
+      logger.info(
+        { apiKeyId: apiKey.id, newApiKeyId: result.apiKey.id, companyId: user.company.id },
+        'Clé API renouvelée'
+      )
+      return response.created({
+        ...this.present(result.apiKey),
+        key: result.token, // Affichée une seule fois
+        previous_key: this.present(apiKey),
+      })
+    } catch (error) {
+      logger.error({ err: error, apiKeyId: apiKey.id }, 'Erreur rotation clé API')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du renouvellement de la clé API.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Révoque une clé (effet immédiat)
+   * DELETE /api-keys/:id
+   */
+  async destroy({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const apiKey = await this.findCompanyKey(params.id, user.company.id)
+    if (!apiKey) {
+      return response.notFound({ message: 'Clé API non trouvée.' })
+    }
+
+    try {
+      await apiKeyService.revoke(apiKey)
+      logger.info({ apiKeyId: apiKey.id, companyId: user.company.id }, 'Clé API révoquée')
+      return response.ok({ message: 'Clé API révoquée.', api_key: this.present(apiKey) })
+    } catch (error) {
+      logger.error({ err: error, apiKeyId: apiKey.id }, 'Erreur révocation clé API')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la révocation de la clé API.',
+      })
+    }
+  }
+
+  private present(apiKey: CompanyApiKey) {
+    return {
+      ...apiKey.serialize(),
+      is_active: apiKey.isUsable,
+    }
+  }
+
+  private findCompanyKey(apiKeyId: string, companyId: string) {
+    return CompanyApiKey.query().where('id', apiKeyId).where('company_id', companyId).first()
+  }
+}
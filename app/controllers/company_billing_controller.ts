@@ -0,0 +1,344 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import User from '#models/user'
+import { CompanyPaymentMode, CompanyPaymentTiming } from '#models/company'
+import CompanyInvoice from '#models/company_invoice'
+import { PaymentMethod } from '#models/order_transaction'
+import clientPaymentService from '#services/client_payment_service'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
+
+// Compte mobile money payeur, facultatif : celui de l'entreprise par défaut
+const payerFields = {
+  provider: vine.enum(PaymentMethod).optional().requiredIfExists('number'),
+  number: vine.string().trim().optional().requiredIfExists('provider'),
+}
+
+const paymentSettingsValidator = vine.compile(
+  vine.object({
+    payment_mode: vine.enum(CompanyPaymentMode).nullable(),
+    payment_timing: vine.enum(CompanyPaymentTiming).optional(),
+    payment_mobile_money: vine
+      .object({
+        provider: vine.enum(PaymentMethod),
+        number: vine.string().trim(),
+      })
+      .nullable()
+      .optional(),
+  })
+)
+
+const topUpValidator = vine.compile(
+  vine.object({
+    amount: vine.number().withoutDecimals().positive(),
+    ...payerFields,
+  })
+)
+
+const payerValidator = vine.compile(vine.object(payerFields))
+
+const listInvoicesQueryValidator = vine.compile(
+  vine.object({
+    page: vine.number().min(1).optional(),
+    perPage: vine.number().min(1).max(100).optional(),
+  })
+)
+
+@inject()
+export default class CompanyBillingController {
+  /**
+   * [ADMIN/CLIENT] Situation de paiement : mode, solde prépayé, encours, limite de crédit, factures ouvertes
+   * GET /admin/billing
+   */
+  async summary({ response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    try {
+      return response.ok(await clientPaymentService.getBillingSummary(user.company))
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur lecture facturation')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération de la facturation.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Mode de paiement des commandes (prépayé, mobile money, postpayé) et moment de
+   * l'encaissement. Le postpayé et l'encaissement en fin de mission exigent une limite de crédit.
+   * PUT /admin/billing/settings
+   */
+  async update_settings({ request, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(paymentSettingsValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    const company = user.company
+    const timing = payload.payment_timing ?? company.payment_timing
+    const mobileMoney =
+      payload.payment_mobile_money !== undefined
+        ? payload.payment_mobile_money
+        : company.payment_mobile_money
+    const deferred =
+      payload.payment_mode === CompanyPaymentMode.POSTPAID ||
+      (payload.payment_mode !== null && timing === CompanyPaymentTiming.ON_COMPLETION)
+    if (deferred && company.credit_limit === null) {
+      return response.unprocessableEntity({
+        message:
+          'Le postpayé et le paiement en fin de mission nécessitent une limite de crédit accordée par la plateforme.',
+      })
+    }
+    if (payload.payment_mode === CompanyPaymentMode.MOBILE_MONEY && !mobileMoney) {
+      return response.unprocessableEntity({
+        message: 'Un compte mobile money payeur est requis pour ce mode de paiement.',
+      })
+    }
+
+    try {
+      company.payment_mode = payload.payment_mode
+      company.payment_timing = timing
+      company.payment_mobile_money = mobileMoney
+      await company.save()
+
+      logger.info(
+        { companyId: company.id, paymentMode: company.payment_mode, paymentTiming: timing },
+        'Mode de paiement client mis à jour'
+      )
+      return response.ok(await clientPaymentService.getBillingSummary(company))
+    } catch (error) {
+      logger.error({ err: error, companyId: company.id }, 'Erreur mise à jour mode de paiement')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la mise à jour du mode de paiement.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Rechargement du solde prépayé par mobile money (crédité à la confirmation)
+   * POST /admin/billing/top-ups
+   */
+  async top_up({ request, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(topUpValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const result = await clientPaymentService.requestTopUp(
+        user.company,
+        payload.amount,
+        payload.provider && payload.number
+          ? { provider: payload.provider, number: payload.number }
+          : undefined
+      )
+      if ('error' in result) {
+        return response.unprocessableEntity({ message: result.error })
+      }
+      return response.accepted(result)
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur rechargement solde')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du rechargement du solde.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Factures mensuelles, de la plus récente à la plus ancienne
+   * GET /admin/billing/invoices
+   */
+  async list_invoices({ request, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(listInvoicesQueryValidator, { data: request.qs() })
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    const invoices = await CompanyInvoice.query()
+      .where('company_id', user.company.id)
+      .orderBy('period_start', 'desc')
+      .paginate(payload.page ?? 1, payload.perPage ?? 20)
+    return response.ok(invoices.toJSON())
+  }
+
+  /**
+   * [ADMIN/CLIENT] Détail d'une facture et de ses commandes
+   * GET /admin/billing/invoices/:id
+   */
+  async show_invoice({ params, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const invoice = await CompanyInvoice.query()
+      .where('id', params.id)
+      .where('company_id', user.company.id)
+      .preload('orders', (query) =>
+        query
+          .select([
+            'id',
+            'invoice_id',
+            'client_fee',
+            'amount_due',
+            'currency',
+            'cancellation_reason_code',
+            'created_at',
+          ])
+          .orderBy('created_at', 'asc')
+      )
+      .first()
+    if (!invoice) {
+      return response.notFound({ message: 'Facture non trouvée.' })
+    }
+    return response.ok(invoice)
+  }
+
+  /**
+   * [ADMIN/CLIENT] Règlement d'une facture par mobile money (soldée à la confirmation)
+   * POST /admin/billing/invoices/:id/pay
+   */
+  async pay_invoice({ params, request, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(payerValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const result = await clientPaymentService.payInvoice(
+        user.company,
+        params.id,
+        payload.provider && payload.number
+          ? { provider: payload.provider, number: payload.number }
+          : undefined
+      )
+      if ('error' in result) {
+        return response.unprocessableEntity({ message: result.error })
+      }
+      return response.accepted(result)
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id, invoiceId: params.id },
+        'Erreur règlement facture'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors du règlement de la facture.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Nouvelle tentative de paiement d'une commande impayée (solde rechargé, collecte échouée)
+   * POST /admin/orders/:id/payment
+   */
+  async retry_order_payment({ params, request, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(payerValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const result = await clientPaymentService.retryOrderPayment(
+        user.company,
+        params.id,
+        payload.provider && payload.number
+          ? { provider: payload.provider, number: payload.number }
+          : undefined
+      )
+      if ('error' in result) {
+        return response.unprocessableEntity({ message: result.error })
+      }
+      return response.ok({
+        order_id: result.order.id,
+        payment_status: result.order.payment_status,
+        amount_due: result.order.amount_due,
+        amount_paid: result.order.amount_paid,
+        payment_url: result.payment_url,
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id, orderId: params.id },
+        'Erreur reprise paiement commande'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors du paiement de la commande.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Rapprochement des paiements à la livraison d'une journée (date YYYY-MM-DD) :
+   * attendu, encaissé, écarts, livraisons sans encaissement et part reversée par les livreurs
+   * GET /admin/billing/cod-reports/:date
+   */
+  async cod_report({ params, response, auth }: HttpContext) {
+    const user = await this.currentUser(auth)
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const day = DateTime.fromISO(params.date)
+    if (!day.isValid) {
+      return response.badRequest({ message: 'Date invalide (format YYYY-MM-DD).' })
+    }
+
+    try {
+      return response.ok(await cashOnDeliveryService.getDailyReport(user.company.id, day))
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id, date: params.date },
+        'Erreur rapport paiements à la livraison'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la génération du rapport.',
+      })
+    }
+  }
+
+  private async currentUser(auth: HttpContext['auth']): Promise<User> {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+    return user
+  }
+}
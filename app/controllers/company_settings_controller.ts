@@ -0,0 +1,90 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import logger from '@adonisjs/core/services/logger'
+import driverScoringService, { DEFAULT_ASSIGNMENT_WEIGHTS } from '#services/driver_scoring_service'
+
+const assignmentWeightsValidator = vine.compile(
+  vine.object({
+    eta: vine.number().min(0).optional(),
+    rating: vine.number().min(0).optional(),
+    acceptance_rate: vine.number().min(0).optional(),
+    vehicle_fit: vine.number().min(0).optional(),
+    workload: vine.number().min(0).optional(),
+  })
+)
+
+@inject()
+export default class CompanySettingsController {
+  /**
+   * [ADMIN/CLIENT] Récupère les poids du scoring d'assignation de l'entreprise
+   * GET /admin/settings/assignment-weights
+   */
+  async get_assignment_weights({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    return response.ok({
+      configured: user.company.assignment_weights ?? null,
+      effective: driverScoringService.resolveWeights(user.company.assignment_weights),
+      defaults: DEFAULT_ASSIGNMENT_WEIGHTS,
+    })
+  }
+
+  /**
+   * [ADMIN/CLIENT] Met à jour les poids du scoring d'assignation.
+   * Les critères omis reprennent leur valeur par défaut.
+   * PUT /admin/settings/assignment-weights
+   */
+  async update_assignment_weights({ request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(assignmentWeightsValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const total = Object.values(payload).reduce((sum: number, w) => sum + (w ?? 0), 0)
+    if (Object.keys(payload).length > 0 && total <= 0) {
+      return response.badRequest({ message: 'La somme des poids doit être strictement positive.' })
+    }
+
+    try {
+      const company = user.company
+      company.assignment_weights = Object.keys(payload).length > 0 ? payload : null
+      await company.save()
+
+      logger.info({ companyId: company.id, weights: payload }, "Poids d'assignation mis à jour")
+
+      return response.ok({
+        message: "Poids d'assignation mis à jour avec succès.",
+        configured: company.assignment_weights,
+        effective: driverScoringService.resolveWeights(company.assignment_weights),
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id },
+        'Erreur mise à jour poids assignation'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la mise à jour des poids.',
+      })
+    }
+  }
+}
@@ -1,4 +1,282 @@
-// import type { HttpContext } from '@adonisjs/core/http'
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import Driver from '#models/driver'
+import { PaymentMethod } from '#models/order_transaction'
+import driverWalletService from '#services/driver_wallet_service'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
 
+const statementQueryValidator = vine.compile(
+  vine.object({
+    from: vine.string().trim().optional(), // ISO 8601
+    to: vine.string().trim().optional(), // ISO 8601
+    page: vine.number().min(1).optional(),
+    perPage: vine.number().min(1).max(100).optional(),
+  })
+)
+
+const listWithdrawalsQueryValidator = vine.compile(
+  vine.object({
+    page: vine.number().min(1).optional(),
+    perPage: vine.number().min(1).max(100).optional(),
+  })
+)
+
+const withdrawalValidator = vine.compile(
+  vine.object({
+    amount: vine.number().withoutDecimals().positive(),
+    provider: vine.enum(PaymentMethod),
+    number: vine.string().trim(), // Numéro d'un compte mobile_money actif du livreur
+  })
+)
+
+const remittanceValidator = vine.compile(
+  vine.object({
+    amount: vine.number().withoutDecimals().positive(),
+    provider: vine.enum(PaymentMethod),
+    number: vine.string().trim(), // Numéro d'un compte mobile_money actif du livreur (payeur)
+  })
+)
+
+@inject()
 export default class DriverPaymentsController {
-}
\ No newline at end of file
+  /**
+   * [DRIVER] Solde du portefeuille et plafonds de retrait du jour
+   * GET /driver/wallet
+   */
+  async balance({ response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    try {
+      return response.ok(await driverWalletService.getBalance(driver.id))
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur lecture solde portefeuille')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération du solde.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Relevé du portefeuille (gains, bonus, pénalités, retraits), du plus récent au plus ancien
+   * GET /driver/wallet/statement
+   */
+  async statement({ request, response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(statementQueryValidator, { data: request.qs() })
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    const from = payload.from ? DateTime.fromISO(payload.from) : undefined
+    const to = payload.to ? DateTime.fromISO(payload.to) : undefined
+    if ((from && !from.isValid) || (to && !to.isValid)) {
+      return response.badRequest({ message: 'Période invalide (format ISO 8601).' })
+    }
+
+    try {
+      const statement = await driverWalletService.getStatement(driver.id, {
+        page: payload.page ?? 1,
+        perPage: payload.perPage ?? 20,
+        from,
+        to,
+      })
+      return response.ok(statement)
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur lecture relevé portefeuille')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération du relevé.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Historique des retraits
+   * GET /driver/wallet/withdrawals
+   */
+  async list_withdrawals({ request, response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(listWithdrawalsQueryValidator, { data: request.qs() })
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const withdrawals = await driverWalletService.listWithdrawals(
+        driver.id,
+        payload.page ?? 1,
+        payload.perPage ?? 20
+      )
+      return response.ok(withdrawals.toJSON())
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur lecture retraits')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération des retraits.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Demande de retrait vers un compte mobile money (montant minimum et plafonds journaliers)
+   * POST /driver/wallet/withdrawals
+   */
+  async request_withdrawal({ request, response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(withdrawalValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const result = await driverWalletService.requestWithdrawal(driver, payload)
+      if ('error' in result) {
+        return response.unprocessableEntity({ message: result.error })
+      }
+      return response.accepted(result.withdrawal)
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur demande de retrait')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la demande de retrait.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Statut d'un retrait (vérifié auprès de la passerelle s'il est en attente)
+   * GET /driver/wallet/withdrawals/:id
+   */
+  async show_withdrawal({ params, response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    try {
+      const withdrawal = await driverWalletService.getWithdrawal(driver.id, params.id)
+      if (!withdrawal) {
+        return response.notFound({ message: 'Retrait non trouvé.' })
+      }
+      return response.ok(withdrawal)
+    } catch (error) {
+      logger.error(
+        { err: error, driverId: driver.id, withdrawalId: params.id },
+        'Erreur lecture retrait'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération du retrait.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Espèces encaissées à la livraison restant à reverser et encaissements non couverts
+   * GET /driver/cash
+   */
+  async cash_summary({ response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    try {
+      return response.ok(await cashOnDeliveryService.getDriverSummary(driver.id))
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur lecture espèces à reverser')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération des espèces à reverser.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Historique des reversements d'espèces (mobile money et dépôts)
+   * GET /driver/cash/remittances
+   */
+  async list_remittances({ request, response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(listWithdrawalsQueryValidator, { data: request.qs() })
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const remittances = await cashOnDeliveryService.listRemittances(
+        driver.id,
+        payload.page ?? 1,
+        payload.perPage ?? 20
+      )
+      return response.ok(remittances.toJSON())
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur lecture reversements')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération des reversements.',
+      })
+    }
+  }
+
+  /**
+   * [DRIVER] Reversement des espèces encaissées depuis un compte mobile money (soldé à la confirmation)
+   * POST /driver/cash/remittances
+   */
+  async request_remittance({ request, response, auth }: HttpContext) {
+    const driver = await this.currentDriver(auth)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(remittanceValidator)
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const result = await cashOnDeliveryService.requestRemittance(driver, payload)
+      if ('error' in result) {
+        return response.unprocessableEntity({ message: result.error })
+      }
+      return response.accepted(result)
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur demande de reversement')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du reversement des espèces.',
+      })
+    }
+  }
+
+  private async currentDriver(auth: HttpContext['auth']) {
+    await auth.check()
+    const user = await auth.authenticate()
+    return Driver.findBy('user_id', user.id)
+  }
+}
@@ -7,16 +7,8 @@ import logger from '@adonisjs/core/services/logger'
 import { DateTime } from 'luxon'
 import { cuid } from '@adonisjs/core/helpers'
 import vine from '@vinejs/vine'
-import Order, { OrderStatus } from '#models/order'
-import emitter from '@adonisjs/core/services/emitter'
-import geo_helper from '#services/geo_helper'
+import etaService from '#services/eta_service'
 import redis from '@adonisjs/redis/services/main'
-const trackableStatuses: OrderStatus[] = [
-  OrderStatus.ACCEPTED,
-  OrderStatus.AT_PICKUP,
-  OrderStatus.EN_ROUTE_TO_DELIVERY,
-  OrderStatus.AT_DELIVERY_LOCATION,
-]
 // Durée maximale (en secondes) pour qu'une localisation soit considérée "récente" et utilisée
 // Peut être mise dans config/env
 const MAX_LOCATION_AGE_SECONDS = 300
@@ -214,53 +206,9 @@ export default class DriverStatusController {
         .first()
 
       if (lastStatusRecord?.status === DriverStatus.IN_WORK) {
-        // Trouver les commandes pertinentes de ce driver (requête optimisée)
-        const activeOrders = await Order.query()
-          .select('id', 'company_id', 'pickup_address_id', 'delivery_address_id') // Sélectionne juste ce dont on a besoin
-          .where('driver_id', driverId)
-          // jointure pour vérifier le dernier statut Order directement en BDD
-          .whereHas('status_logs', (logQuery) => {
-            logQuery
-              .whereIn('status', trackableStatuses)
-              .orderBy('changed_at', 'desc')
-              .limit(1)
-              // S'assurer que le dernier statut est bien dans la liste
-              .whereIn('status', trackableStatuses) // Double check ou structure join plus complexe
-          })
-          .preload('client', (c) => c.select('user_id')) // Besoin user_id du client
-          .preload('delivery_address', (d) => d.select('id', 'coordinates')) // Ajout de 'id' pour être sûr, bien que coordinates suffise pour votre usage
-          .preload('pickup_address', (p) => p.select('id', 'coordinates'))   // Idem
-
-        if (activeOrders.length > 0) {
-          logger.trace(
-            `Driver ${driverId} is IN_WORK on ${activeOrders.length} trackable order(s). Emitting location...`
-          )
-          for (const order of activeOrders) {
-            // logger.info(`Emitting location for order ${JSON.stringify(order)}`)
-            if (order.delivery_address.coordinates) {
-              const coords = order.delivery_address.coordinates.coordinates as [number, number]
-              const travelTime = await geo_helper.getDirectRouteInfo(
-                [longitude, latitude],
-                coords,
-                'auto'
-              )
-              // logger.info(`Travel time for order ${order.id}: ${JSON.stringify(travelTime)} seconds`)
-              if (order.company?.user_id) {
-                emitter.emit('order:driver_location_updated', {
-                  order_id: order.id,
-                  company_id: order.company_id,
-                  driver_id: driverId,
-                  location: { latitude, longitude },
-                  timestamp: DateTime.now().toISO(),
-                  // TODO: Calculer ETA ici si possible et l'inclure
-                  eta_seconds: travelTime?.durationSeconds ?? null,
-                })
-              }
-            } else {
-              logger.warn(`Order ${order.id} has no delivery address coordinates`)
-            }
-          }
-        }
+        // Position diffusée sur chaque commande suivie, avec l'ETA recalculé (émis aussi en `order:eta_updated`)
+        const trackedOrders = await etaService.publishDriverPosition(driverId, latitude, longitude)
+        logger.trace(`Driver ${driverId} is IN_WORK on ${trackedOrders.length} trackable order(s).`)
       }
     } catch (error) {
       logger.error({ err: error, driverId }, 'Error in background task emitLocationUpdateIfInWork')
@@ -5,6 +5,8 @@ import vine from '@vinejs/vine'
 import db from '@adonisjs/lucid/services/db'
 import Driver from '#models/driver'
 import Ws from '#services/ws_service'
+import etaService from '#services/eta_service'
+import geofenceArrivalService from '#services/geofence_arrival_service'
 import redis from '@adonisjs/redis/services/main'
 import DriverVehicle, { VehicleStatus } from '#models/driver_vehicle'
 import { createFiles } from '#services/media/CreateFiles'
@@ -96,17 +98,18 @@ export default class DriversController {
       return response.internalServerError({ error: 'Échec de la sauvegarde des données.' })
     }
 
-    if (Ws.io) {
-        const dataToSend = {
-          lat: latestLocation.latitude,
-          lon: latestLocation.longitude,
-          timestamp: Math.floor(latestLocation.timestamp_ms / 1000)
-        }
-        
-        // Envoyer l'événement uniquement au livreur concerné via sa "room" privée
-        Ws.io.to(`driver_${driver.id}`).emit('location_update', dataToSend)
-        console.log(`🚀 Événement 'location_update' émis pour le livreur ${driver.id}`)
-      }
+    // Envoyer l'événement uniquement au livreur concerné via sa "room" privée (namespace /drivers)
+    await Ws.toDriver(driver.id, 'location_update', {
+      lat: latestLocation.latitude,
+      lon: latestLocation.longitude,
+      timestamp: Math.floor(latestLocation.timestamp_ms / 1000),
+    })
+
+    // 6. Suivi client : position et ETA recalculé sur les commandes en cours du livreur
+    await etaService.publishDriverPosition(driver.id, latestLocation.latitude, latestLocation.longitude)
+
+    // Arrivée automatique au prochain waypoint si les positions restent dans sa géofence
+    await geofenceArrivalService.detectArrivals(driver.id, user.id)
 
     // 7. Répondre avec 204 No Content, comme attendu par votre code front-end.
     return response.noContent()
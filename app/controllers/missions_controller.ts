@@ -17,6 +17,21 @@ import vine from '@vinejs/vine'
 import redis_helper from '#services/redis_helper'
 import Company from '#models/company'
 import { NotificationType } from '#models/notification'
+import redis from '@adonisjs/redis/services/main'
+import emitter from '@adonisjs/core/services/emitter'
+import OrderBatch, { OrderBatchStatus } from '#models/order_batch'
+import orderBatchingService from '#services/order_batching_service'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
+
+// Durée max du verrou d'acceptation (le temps de la transaction)
+const ACCEPT_LOCK_TTL_SECONDS = 15
+// Libère le verrou seulement s'il appartient encore au livreur : lecture et suppression atomiques
+const RELEASE_ACCEPT_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`
 
 @inject()
 export default class MissionController {
@@ -40,6 +55,7 @@ export default class MissionController {
           driverQuery.preload('user', (userQuery) => userQuery.select(['id', 'full_name', 'photo']))
         ) // Charger le driver et user associé (sélection de champs)
         .preload('status_logs', (logQuery) => logQuery.orderBy('changed_at', 'desc')) // Historique des statuts
+        .preload('batch') // Tournée groupée éventuelle (résumé fusionné des waypoints)
         .first()
 
       if (!order) {
@@ -78,12 +94,22 @@ export default class MissionController {
 
     logger.info(`Driver ${driverId} attempt to accept Order ${orderId}`)
 
+    // Verrou Redis : en mode broadcast plusieurs livreurs peuvent accepter au même instant,
+    // un seul doit pouvoir entrer dans la transaction d'assignation.
+    const acceptLockKey = `order:accept_lock:${orderId}`
+    const lockAcquired = await redis.set(acceptLockKey, driverId, 'EX', ACCEPT_LOCK_TTL_SECONDS, 'NX')
+    if (!lockAcquired) {
+      logger.info(`Driver ${driverId} lost the accept race for Order ${orderId} (lock held).`)
+      return response.conflict({ message: 'Cette commande est en cours d\'attribution à un autre livreur.' })
+    }
+
     const trx = await db.transaction()
     try {
       // 1. Trouver commande ET précharger/vérifier l'offre + dernier log
       // On a besoin de l'objet Order pour vérifier l'offre AVANT de continuer
       const order = await Order.query({ client: trx })
         .where('id', orderId)
+        .forUpdate() // Sérialise avec le worker d'assignation qui modifie aussi l'offre
         .preload('pickup_address') // Pour fallback location si besoin
         .preload('route_legs')
         .preload('status_logs', (q) => q.orderBy('changed_at', 'desc').limit(1))
@@ -108,8 +134,12 @@ export default class MissionController {
         })
       }
 
-      // B. L'offre doit être pour CE driver
-      if (order.offered_driver_id !== driverId) {
+      // B. L'offre doit être pour CE driver (offre unique ou faisant partie d'une offre broadcast)
+      const broadcastOffer = order.broadcast_offer
+      const isBroadcastOffer =
+        !!broadcastOffer?.driver_ids.includes(driverId) &&
+        !broadcastOffer.refused_driver_ids.includes(driverId)
+      if (order.offered_driver_id !== driverId && !isBroadcastOffer) {
         await trx.rollback()
         logger.warn(
           `Driver ${driverId} tried to accept Order ${orderId} not offered to them (Offered to: ${order.offered_driver_id}).`
@@ -120,6 +150,11 @@ export default class MissionController {
 
       // C. L'offre ne doit pas avoir expiré
       if (!order.offer_expires_at || DateTime.now() > order.offer_expires_at) {
+        if (isBroadcastOffer) {
+          // Le scan d'expiration du worker clôt l'offre broadcast pour tous les livreurs
+          await trx.rollback()
+          return response.badRequest({ message: 'Le délai pour accepter cette offre a expiré.' })
+        }
         // Offre expirée -> Nettoyer l'offre et refuser
         order.offered_driver_id = null
         order.offer_expires_at = null
@@ -146,32 +181,58 @@ export default class MissionController {
       // --- L'offre est VALIDE, on procède à l'assignation ---
 
       // 2. Assigner Driver à Order et Nettoyer les champs d'offre
-      order.driver_id = driverId
-      order.offered_driver_id = null
-      order.offer_expires_at = null
-      await order.save() // Via trx
+      // En mode broadcast, les autres livreurs sollicités (sans refus) perdent l'offre
+      const losingDriverIds = isBroadcastOffer
+        ? broadcastOffer!.driver_ids.filter(
+            (id) => id !== driverId && !broadcastOffer!.refused_driver_ids.includes(id)
+          )
+        : []
+      // Tournée groupée : toutes les commandes du batch proposées à ce livreur sont acceptées ensemble
+      const offeredOrders = order.batch_id
+        ? await orderBatchingService.lockOfferedBatchOrders(order.batch_id, driverId, trx)
+        : [order]
+      const acceptedOrders = offeredOrders.map((o) => (o.id === order.id ? order : o))
+      if (!acceptedOrders.some((o) => o.id === order.id)) {
+        acceptedOrders.unshift(order)
+      }
+      for (const acceptedOrder of acceptedOrders) {
+        acceptedOrder.driver_id = driverId
+        acceptedOrder.offered_driver_id = null
+        acceptedOrder.offer_expires_at = null
+        acceptedOrder.broadcast_offer = null
+        await acceptedOrder.useTransaction(trx).save()
+      }
 
-      // 3. Créer log ACCEPTED
+      // 3. Créer log ACCEPTED (un par commande)
       // (Code inchangé pour récupérer la localisation et créer le log)
       const driverLocQuery = await Driver.query({ client: trx })
         .select('current_location')
         .where('id', driverId)
         .first()
       const driverCurrentLocation = driverLocQuery?.current_location
-      const logLocation = driverCurrentLocation ??
-        order.pickup_address?.coordinates ?? { type: 'Point', coordinates: [0, 0] }
-      await OrderStatusLog.create(
-        {
-          id: cuid(),
-          order_id: orderId,
-          status: OrderStatus.ACCEPTED,
-          changed_at: DateTime.now(),
-          changed_by_user_id: driverId,
-          current_location: logLocation,
-          metadata: null,
-        },
-        { client: trx }
-      )
+      for (const acceptedOrder of acceptedOrders) {
+        const logLocation = driverCurrentLocation ??
+          acceptedOrder.pickup_address?.coordinates ?? { type: 'Point', coordinates: [0, 0] }
+        await OrderStatusLog.create(
+          {
+            id: cuid(),
+            order_id: acceptedOrder.id,
+            status: OrderStatus.ACCEPTED,
+            changed_at: DateTime.now(),
+            changed_by_user_id: driverId,
+            current_location: logLocation,
+            metadata: acceptedOrder.batch_id
+              ? { waypoint_sequence: -1, reason: 'batch_accepted', batch_id: acceptedOrder.batch_id }
+              : null,
+          },
+          { client: trx }
+        )
+      }
+      if (order.batch_id) {
+        await OrderBatch.query({ client: trx })
+          .where('id', order.batch_id)
+          .update({ status: OrderBatchStatus.ACCEPTED })
+      }
 
       // 4. MAJ Statut Driver -> IN_WORK
       // (Code inchangé pour trouver dernier statut driver et créer le nouveau statut IN_WORK)
@@ -186,12 +247,12 @@ export default class MissionController {
           driver_id: driverId,
           status: DriverStatus.IN_WORK,
           changed_at: DateTime.now(),
-          assignments_in_progress_count: currentAssignments + 1,
+          assignments_in_progress_count: currentAssignments + acceptedOrders.length,
           metadata: null,
         },
         { client: trx }
       )
-      logger.info(`Driver ${driverId} status set to IN_WORK accepting Order ${orderId}`)
+      logger.info(`Driver ${driverId} status set to IN_WORK accepting Order ${orderId}${order.batch_id ? ` (batch ${order.batch_id}, ${acceptedOrders.length} orders)` : ''}`)
 
       // 5. TODO: Notifier le système (worker Redis?) de l'acceptation pour qu'il arrête toute autre offre potentielle ?
       // C'est moins critique si on assigne driver_id immédiatement, mais utile pour "nettoyer" des process workers.
@@ -217,32 +278,17 @@ export default class MissionController {
       }
 
       // 7. Commit Transaction (inclut MàJ Order, création Log, création Statut Driver)
-      if (!order.offer_expires_at || DateTime.now() > (order.offer_expires_at as DateTime)) {
-        const expiredDriverIdForEvent = order.offered_driver_id; // Capturer avant de nullifier
-        order.offered_driver_id = null;
-        order.offer_expires_at = null;
-        await order.save();
-        await trx.commit();
-        logger.info(`Offer for Order ${orderId} to Driver ${driverId} expired at acceptance attempt.`);
-
-        if (expiredDriverIdForEvent) { // S'il y avait bien un offered_driver_id
-          try {
-            await redis_helper.publishMissionOfferExpired(orderId, expiredDriverIdForEvent);
-            logger.info(`Event OFFER_EXPIRED published for Order ${orderId}, Driver ${expiredDriverIdForEvent}.`);
-          } catch (eventError) {
-            logger.error({ err: eventError, orderId, driverId: expiredDriverIdForEvent }, "Failed to publish OFFER_EXPIRED event.");
-          }
-        }
-        return response.badRequest({ message: 'Le délai pour accepter cette offre a expiré.' });
-      }
+      await trx.commit()
 
       // APRÈS LE COMMIT, publier l'événement pour informer AssignmentWorker et autres systèmes
       try {
-        await redis_helper.publishMissionOfferAccepted(
-          orderId,
-          driverId // Le chauffeur qui a accepté
-        );
-        logger.info(`Event OFFER_ACCEPTED_BY_DRIVER published for Order ${orderId}, Driver ${driverId}.`);
+        for (const acceptedOrder of acceptedOrders) {
+          await redis_helper.publishMissionOfferAccepted(
+            acceptedOrder.id,
+            driverId // Le chauffeur qui a accepté
+          );
+          logger.info(`Event OFFER_ACCEPTED_BY_DRIVER published for Order ${acceptedOrder.id}, Driver ${driverId}.`);
+        }
       } catch (eventError) {
         logger.error({ err: eventError, orderId, driverId }, "Failed to publish OFFER_ACCEPTED_BY_DRIVER event after mission acceptance.");
         // L'acceptation a réussi et est en DB, mais l'événement n'a pas été publié.
@@ -251,13 +297,25 @@ export default class MissionController {
         // devrait éventuellement le corriger, mais c'est une situation à surveiller.
       }
 
+      // Retrait de l'offre broadcast pour les perdants (le worker les repasse en ACTIVE)
+      for (const losingDriverId of losingDriverIds) {
+        try {
+          await redis_helper.publishMissionOfferRetracted(orderId, losingDriverId, driverId)
+        } catch (eventError) {
+          logger.error({ err: eventError, orderId, driverId: losingDriverId }, 'Failed to publish OFFER_RETRACTED event.')
+        }
+      }
+
       // 8. Réponse OK au driver (avec Order mis à jour et relations chargées)
       await order.load('pickup_address') // Recharger ici si besoin
       await order.load('delivery_address')
       await order.load('packages')
+      if (order.batch_id) {
+        await order.load('batch', (q) => q.preload('orders').preload('route_legs'))
+      }
 
       return response.ok({
-        message: 'Mission acceptée !',
+        message: order.batch_id ? 'Tournée acceptée !' : 'Mission acceptée !',
         order: order.serialize({
           // Sélection/Omission champs si besoin
         }),
@@ -284,6 +342,13 @@ export default class MissionController {
       return response.internalServerError({
         message: "Erreur serveur lors de l'acceptation de la mission.",
       })
+    } finally {
+      // Libérer le verrou seulement s'il nous appartient encore (il peut avoir expiré et été repris)
+      try {
+        await redis.eval(RELEASE_ACCEPT_LOCK_SCRIPT, 1, acceptLockKey, driverId)
+      } catch (lockError) {
+        logger.warn({ err: lockError, orderId }, 'Failed to release accept lock.')
+      }
     }
   }
 
@@ -332,8 +397,11 @@ export default class MissionController {
         return response.ok({ message: "Cette commande n'est plus en attente." }) // Pas une erreur
       }
 
-      // B. L'offre doit être pour CE driver
-      if (order.offered_driver_id !== driverId) {
+      // B. L'offre doit être pour CE driver (offre unique ou broadcast)
+      const isBroadcastOffer =
+        !!order.broadcast_offer?.driver_ids.includes(driverId) &&
+        !order.broadcast_offer.refused_driver_ids.includes(driverId)
+      if (order.offered_driver_id !== driverId && !isBroadcastOffer) {
         logger.info(
           `Driver ${driverId} tried to refuse Order ${orderId} not offered to them (Offered: ${order.offered_driver_id}). Ignoring.`
         )
@@ -354,22 +422,33 @@ export default class MissionController {
 
       // 3. Nettoyer l'offre sur l'Order
       // On le fait ici, car le refus est confirmé. Utilisation d'une transaction courte juste pour cette MaJ.
-      const trx = await db.transaction()
-      try {
-        order.useTransaction(trx) // Applique la transaction à l'objet chargé
-        order.offered_driver_id = null
-        order.offer_expires_at = null
-        await order.save()
-        await trx.commit() // Commit juste le nettoyage de l'offre
-        logger.info(`Driver ${driverId} refused Order ${orderId}. Offer fields cleared.`)
-      } catch (clearError) {
-        await trx.rollback() // Rollback si erreur lors du nettoyage
-        logger.error(
-          { err: clearError, orderId, driverId },
-          'Failed to clear offer fields after refusal.'
-        )
-        // On continue quand même pour la réponse au driver, mais le système est dans un état potentiellement incohérent.
-        // L'expiration gérera normalement ce cas.
+      // En mode broadcast, l'offre reste ouverte pour les autres livreurs : le worker met à jour la liste des refus.
+      if (!isBroadcastOffer) {
+        const trx = await db.transaction()
+        try {
+          if (order.batch_id) {
+            // Tournée groupée : le refus porte sur toutes les commandes proposées à ce livreur
+            await Order.query({ client: trx })
+              .where('batch_id', order.batch_id)
+              .where('offered_driver_id', driverId)
+              .update({ offered_driver_id: null, offer_expires_at: null })
+          } else {
+            order.useTransaction(trx) // Applique la transaction à l'objet chargé
+            order.offered_driver_id = null
+            order.offer_expires_at = null
+            await order.save()
+          }
+          await trx.commit() // Commit juste le nettoyage de l'offre
+          logger.info(`Driver ${driverId} refused Order ${orderId}. Offer fields cleared.`)
+        } catch (clearError) {
+          await trx.rollback() // Rollback si erreur lors du nettoyage
+          logger.error(
+            { err: clearError, orderId, driverId },
+            'Failed to clear offer fields after refusal.'
+          )
+          // On continue quand même pour la réponse au driver, mais le système est dans un état potentiellement incohérent.
+          // L'expiration gérera normalement ce cas.
+        }
       }
 
       // 4. --- Notifier le système (Worker/Batch) qu'une réassignation est nécessaire ---
@@ -811,6 +890,8 @@ export default class MissionController {
         // ou gérer l'upload dans une autre requête/service.
         // Pour l'instant, on suppose que photo_urls sont des URL finales si fournies.
         photo_urls: vine.array(vine.string().url()).optional(),
+        // Paiement à la livraison : montant effectivement encaissé, requis pour compléter le waypoint
+        cod_collected_amount: vine.number().withoutDecimals().min(0).optional(),
       })
     )
     await auth.check()
@@ -906,6 +987,7 @@ export default class MissionController {
 
       if (new_status === waypointStatus.ARRIVED) {
         targetWaypoint.start_at = actionTimestamp // Heure d'arrivée au waypoint
+        targetWaypoint.arrival_source = 'manual' // Distinct d'une arrivée détectée par géofence
       } else if (new_status === waypointStatus.COMPLETED) {
         // Vérification du code de confirmation
         if (!targetWaypoint.confirmation_code) {
@@ -918,6 +1000,13 @@ export default class MissionController {
           logger.warn({ orderId, waypointSequence, providedCode: confirmation_code, expectedCode: targetWaypoint.confirmation_code }, `Code de confirmation invalide pour waypoint.`)
           return response.badRequest({ message: 'Code de confirmation invalide.' })
         }
+        // Paiement à la livraison : le livreur confirme le montant encaissé (écart à expliquer en note)
+        const codError = cashOnDeliveryService.validateCompletion(targetWaypoint, payload.cod_collected_amount, notes)
+        if (codError) {
+          await trx.rollback()
+          return response.badRequest({ message: codError })
+        }
+        if (targetWaypoint.cod_amount) targetWaypoint.cod_collected_amount = payload.cod_collected_amount
         targetWaypoint.end_at = actionTimestamp // Heure de complétion du waypoint
       }
 
@@ -1022,6 +1111,19 @@ export default class MissionController {
       // Sauvegarder la commande avec waypoints_summary et potentiellement delivery_date mis à jour
       await order.useTransaction(trx).save()
 
+      // Paiement à la livraison : montant encaissé dû par le livreur, ou livraison sans encaissement
+      if (targetWaypoint.cod_amount && finalizedWaypointStatuses.includes(new_status)) {
+        await cashOnDeliveryService.recordOutcome(trx, {
+          order,
+          driverId,
+          waypointSequence,
+          waypoint: targetWaypoint,
+          collectedAmount: new_status === waypointStatus.COMPLETED ? payload.cod_collected_amount! : null,
+          note: notes ?? targetWaypoint.message_issue ?? null,
+          at: actionTimestamp,
+        })
+      }
+
       // Créer un OrderStatusLog si le statut global a changé
       let mainNotificationTitle = '';
       let mainNotificationBody = '';
@@ -1037,6 +1139,7 @@ export default class MissionController {
             current_location: driverCurrentGeoLocation,
             metadata: {
               waypoint_sequence: waypointSequence, waypoint_status: new_status, waypoint_type: targetWaypoint.type,
+              ...(new_status === waypointStatus.ARRIVED && { arrival_source: 'manual' as const }),
               ...(new_status === waypointStatus.FAILED && targetWaypoint.message_issue && { waypoint_message_issue: targetWaypoint.message_issue }),
               ...(new_status === waypointStatus.SKIPPED && targetWaypoint.message_issue && { waypoint_message_issue: targetWaypoint.message_issue }),
             },
@@ -1090,17 +1193,39 @@ export default class MissionController {
             assignments_in_progress_count: newAssignmentCount,
           }, { client: trx })
           logger.info(`Driver ${driverId} status updated to ${nextDriverStatus} after order ${orderId} finalization.`);
-
-          // TODO: Si SUCCESS, déclencher paiement (via event RedisHelper)
-          // if (newGlobalOrderStatus === OrderStatus.SUCCESS) {
-          //   await redis_helper.publishMissionCompleted(order.id, driverId, order.remuneration);
-          // }
         }
       }
 
+      // Tournée groupée : reporter l'avancement dans le résumé fusionné et clore le batch si tout est terminé
+      if (order.batch_id) {
+        await orderBatchingService.syncOrderProgress(order, trx)
+      }
 
       await trx.commit()
 
+      if (new_status === waypointStatus.COMPLETED) {
+        try {
+          await emitter.emit('order:waypoint_completed', {
+            order_id: order.id,
+            company_id: order.company_id,
+            waypoint_sequence: waypointSequence,
+            waypoint_type: targetWaypoint.type,
+            timestamp: DateTime.now().toISO()!,
+          })
+        } catch (emitError) {
+          logger.error({ err: emitError, orderId }, 'Failed to emit order:waypoint_completed event')
+        }
+      }
+
+      // Si SUCCESS, déclencher la facturation de CETTE commande (aussi pour chaque commande d'une tournée)
+      if (newGlobalOrderStatus === OrderStatus.SUCCESS && newGlobalOrderStatus !== currentOrderStatusGlobal) {
+        try {
+          await redis_helper.publishMissionCompleted(order.id, driverId, order.remuneration)
+        } catch (eventError) {
+          logger.error({ err: eventError, orderId }, 'Failed to publish MISSION_COMPLETED event after waypoint update.')
+        }
+      }
+
       // Envoyer la notification au client après le commit
       if (mainNotificationTitle && order.company?.fcm_token) {
         try {
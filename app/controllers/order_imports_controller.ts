@@ -0,0 +1,180 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import app from '@adonisjs/core/services/app'
+import logger from '@adonisjs/core/services/logger'
+import { cuid } from '@adonisjs/core/helpers'
+import OrderImport, { OrderImportStatus, type OrderImportFormat } from '#models/order_import'
+import orderImportService from '#services/order_import_service'
+
+const MAX_FILE_SIZE = '5mb'
+const ERRORS_PREVIEW_LIMIT = 50
+
+@inject()
+export default class OrderImportsController {
+  /**
+   * [CLIENT/API] Envoie un fichier CSV/XLSX de commandes à importer (traité en arrière-plan)
+   * POST /orders/imports (multipart, champ "file")
+   */
+  async store({ request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const file = request.file('file', { size: MAX_FILE_SIZE, extnames: ['csv', 'xlsx'] })
+    if (!file) {
+      return response.badRequest({ message: 'Fichier requis (CSV ou XLSX).' })
+    }
+    if (!file.isValid) {
+      return response.badRequest({ message: 'Fichier invalide.', errors: file.errors })
+    }
+
+    try {
+      // Stockage privé (hors FILE_STORAGE_PATH, servi publiquement), supprimé après traitement
+      const directory = app.makePath('storage', 'order_imports')
+      const fileName = `${cuid()}.${file.extname}`
+      await file.move(directory, { name: fileName })
+
+      const orderImport = await OrderImport.create({
+        company_id: user.company.id,
+        created_by_user_id: user.id,
+        file_name: file.clientName,
+        file_format: file.extname as OrderImportFormat,
+        file_path: file.filePath ?? `${directory}/${fileName}`,
+        status: OrderImportStatus.PENDING,
+      })
+
+      logger.info(
+        { importId: orderImport.id, companyId: user.company.id },
+        'Import de commandes enregistré'
+      )
+      return response.accepted({
+        message: 'Import enregistré, traitement en cours.',
+        import_id: orderImport.id,
+        status: orderImport.status,
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur enregistrement import')
+      return response.internalServerError({
+        message: "Erreur serveur lors de l'enregistrement de l'import.",
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Liste les imports de l'entreprise
+   * GET /orders/imports
+   */
+  async index({ request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const page = request.input('page', 1)
+    const perPage = Math.min(request.input('perPage', 20), 100)
+
+    try {
+      const imports = await OrderImport.query()
+        .where('company_id', user.company.id)
+        .orderBy('created_at', 'desc')
+        .paginate(page, perPage)
+
+      return response.ok({
+        meta: imports.getMeta(),
+        data: imports.all().map((orderImport) => this.summary(orderImport)),
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur listage imports')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des imports.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Statut d'un import : avancement, commandes créées et premières erreurs
+   * GET /orders/imports/:id
+   */
+  async show({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const orderImport = await this.findCompanyImport(params.id, user.company.id)
+    if (!orderImport) {
+      return response.notFound({ message: 'Import non trouvé.' })
+    }
+
+    return response.ok({
+      ...this.summary(orderImport),
+      created_orders: orderImport.created_orders,
+      errors: orderImport.row_errors.slice(0, ERRORS_PREVIEW_LIMIT),
+      errors_count: orderImport.row_errors.length,
+    })
+  }
+
+  /**
+   * [CLIENT/API] Rapport d'erreurs par ligne, au format CSV
+   * GET /orders/imports/:id/errors.csv
+   */
+  async error_report({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const orderImport = await this.findCompanyImport(params.id, user.company.id)
+    if (!orderImport) {
+      return response.notFound({ message: 'Import non trouvé.' })
+    }
+
+    if (
+      orderImport.status !== OrderImportStatus.COMPLETED &&
+      orderImport.status !== OrderImportStatus.FAILED
+    ) {
+      return response.conflict({ message: "L'import est encore en cours de traitement." })
+    }
+
+    response.header('Content-Type', 'text/csv; charset=utf-8')
+    response.header(
+      'Content-Disposition',
+      `attachment; filename="import-${orderImport.id}-erreurs.csv"`
+    )
+    return response.send(orderImportService.buildErrorReport(orderImport))
+  }
+
+  private summary(orderImport: OrderImport) {
+    return {
+      id: orderImport.id,
+      file_name: orderImport.file_name,
+      file_format: orderImport.file_format,
+      status: orderImport.status,
+      total_rows: orderImport.total_rows,
+      total_orders: orderImport.total_orders,
+      created_orders_count: orderImport.created_orders_count,
+      failed_orders_count: orderImport.failed_orders_count,
+      error_message: orderImport.error_message,
+      started_at: orderImport.started_at,
+      finished_at: orderImport.finished_at,
+      created_at: orderImport.created_at,
+    }
+  }
+
+  private findCompanyImport(importId: string, companyId: string) {
+    return OrderImport.query().where('id', importId).where('company_id', companyId).first()
+  }
+}
@@ -3,8 +3,6 @@ import type { HttpContext } from '@adonisjs/core/http'
 import { inject } from '@adonisjs/core'
 import db from '@adonisjs/lucid/services/db'
 import Order from '#models/order'
-import Address from '#models/address'
-import Package from '#models/package'
 import Driver from '#models/driver'
 import { VehicleStatus } from '#models/driver_vehicle'
 import DriversStatus, { DriverStatus } from '#models/drivers_status'
@@ -12,9 +10,7 @@ import {
   OrderStatus,
   CancellationReasonCode,
   FailureReasonCode,
-  OrderPriority,
 } from '#models/order' // Enums Order
-import { PackageMentionWarning } from '#models/package' // Enum Package
 
 import logger from '@adonisjs/core/services/logger'
 import { cuid } from '@adonisjs/core/helpers'
@@ -22,19 +18,24 @@ import { DateTime } from 'luxon'
 const OFFER_DURATION_SECONDS = env.get('DRIVER_OFFER_DURATION_SECONDS')
 // --- Import des Helpers/Wrappers (chemins à adapter) ---
 import { SimplePackageInfo } from '#services/pricing_helper' // Fonction calculateFees
-import RedisHelper, { RawInitialAssignmentDetails } from '#services/redis_helper' // Fonction publishMissionOffer
+import RedisHelper from '#services/redis_helper' // Fonction publishMissionOffer
 // --- Fin Imports Helpers ---
 
 // --- Import des Validateurs ---
 import vine from '@vinejs/vine'
+import { createOrderWithWaypointsValidator } from '#validators/order'
 import OrderStatusLog from '#models/order_status_log'
 import env from '#start/env'
 import Company from '#models/company'
 import redis_helper from '#services/redis_helper'
 import { NotificationType } from '#models/notification'
-import geo_helper from '#services/geo_helper'
+import geo_helper, { RouteWaypointInput } from '#services/geo_helper'
 import pricing_helper from '#services/pricing_helper'
-import OrderRouteLeg from '#models/order_route_leg'
+import orderQuoteService, { OrderQuoteClaims } from '#services/order_quote_service'
+import orderSchedulingService from '#services/order_scheduling_service'
+import orderCreationService from '#services/order_creation_service'
+import trackingLinkService from '#services/tracking_link_service'
+import locationHistoryService from '#services/location_history_service'
 // --- Fin Imports Validateurs ---
 
 const cancelOrderValidator = vine.compile(
@@ -74,78 +75,14 @@ const listOrdersQueryValidator = vine.compile(
   })
 )
 
-const packageDimensionsValidator = vine.object({
-  weight_g: vine.number().positive(),
-  depth_cm: vine.number().positive().optional(),
-  width_cm: vine.number().positive().optional(),
-  height_cm: vine.number().positive().optional(),
-})
-
-const packageInfoValidator = vine.object({
-  name: vine.string().trim().minLength(1),
-  description: vine.string().trim().optional(),
-  dimensions: packageDimensionsValidator.optional(),
-  mention_warning: vine.enum(PackageMentionWarning).optional(),
-  quantity: vine.number().min(1).positive(),
-  // image_urls: vine.array(vine.string().url()).optional(), // Si tu gères les images
-})
-
-// Waypoint individuel
-const waypointValidator = vine.object({
-  address_text: vine.string().trim().minLength(5).maxLength(255),
-  type: vine.enum(['pickup', 'delivery'] as const), // Important le 'as const' pour typer correctement
-  // Les informations sur le colis ne sont requises que si type === 'pickup'
-  // On ne peut pas faire de requiredWhen direct ici, la validation se fera en partie dans le contrôleur
-  package_infos: vine.array(packageInfoValidator).optional(), // Rendre optionnel ici
-  contact_name: vine.string().trim().optional(),
-  contact_phone: vine.string().trim().optional(), // Ajouter validation de format si besoin
-  note: vine.string().trim().optional(), // Note spécifique au waypoint
-})
-
-interface ValidatedWaypoint {
-  address_text: string;
-  type: 'pickup' | 'delivery';
-  package_infos?: ValidatedPackageInfo;
-  contact_name?: string;
-  contact_phone?: string;
-  note?: string;
-}
-
-interface ValidatedPackageInfo {
-  name: string;
-  description?: string;
-  dimensions: {
-    weight_g: number;
-    depth_cm?: number;
-    width_cm?: number;
-    height_cm?: number;
-  };
-  mention_warning?: PackageMentionWarning;
-  quantity: number;
-}
-
-export const createOrderWithWaypointsValidator = vine.compile(
+const routeReplayQueryValidator = vine.compile(
   vine.object({
-    waypoints: vine
-      .array(waypointValidator)
-      .minLength(2) // Au moins un pickup et une livraison
-      .bail(false), // Continue la validation même si un waypoint est invalide pour voir toutes les erreurs
-    priority: vine.enum(['low', 'medium', 'high'] as const).optional(), // Utilise OrderPriority enum
-    global_order_note: vine.string().trim().optional(),
-    // Tu pourrais ajouter ici d'autres champs globaux pour la commande
-    // ex: requested_delivery_time_slot, etc.
+    format: vine.enum(['geojson', 'polyline'] as const).optional(),
+    tolerance_meters: vine.number().min(0).max(100).optional(),
+    include_points: vine.boolean().optional(),
   })
 )
 
-interface ProcessedWaypoint {
-  id: string; // CUID généré pour ce waypoint traité (utile pour le résumé)
-  original_payload: ValidatedWaypoint;
-  address_model: Address;
-  coordinates: [number, number]; // lon, lat
-  type_for_valhalla: 'break' | 'through';
-  package_infos_for_db?: Omit<Package, 'id' | 'order_id' | 'created_at' | 'updated_at' | 'is_return'>[]; // Pour créer les Package modèles
-}
-
 @inject()
 export default class OrderController {
   // Injection possible des helpers si ce sont des classes/services enregistrés
@@ -165,15 +102,14 @@ export default class OrderController {
    * POST /orders
    */
   async create_order({ request, response, auth }: HttpContext) {
-    const user = await auth.authenticate()
+    // Authentifié par le middleware (token utilisateur ou clé API)
+    const user = auth.getUserOrFail()
     await user.load('company')
     if (!user.company) {
       return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
     }
     const companyId = user.company.id
 
-    const OFFER_DURATION_SECONDS = env.get('DRIVER_OFFER_DURATION_SECONDS')
-
     let payload
     try {
       payload = await request.validateUsing(createOrderWithWaypointsValidator)
@@ -184,244 +120,34 @@ export default class OrderController {
     }
 
     // Validation Manuelle Supplémentaire
-    const pickupWaypoints = payload.waypoints.filter(wp => wp.type === 'pickup');
-    const deliveryWaypoints = payload.waypoints.filter(wp => wp.type === 'delivery');
-
-    if (pickupWaypoints.length === 0) {
-      return response.badRequest({ message: 'Au moins un point de collecte est requis.' });
-    }
-    if (deliveryWaypoints.length === 0) {
-      return response.badRequest({ message: 'Au moins un point de livraison est requis.' });
+    const compositionError = orderCreationService.validatePayload(payload)
+    if (compositionError) {
+      return response.badRequest({ message: compositionError });
     }
-    for (const wp of pickupWaypoints) {
-      if (!wp.package_infos || wp.package_infos.length === 0) {
-        return response.badRequest({
-          message: `Les informations sur le colis sont requises pour le point de collecte : "${wp.address_text}".`
-        });
+
+    // Devis fourni : il doit être valide, non expiré, émis pour cette entreprise et pour ce même contenu
+    let quote: OrderQuoteClaims | null = null
+    if (payload.quote_token) {
+      quote = orderQuoteService.verify(payload.quote_token)
+      if (!quote || quote.company_id !== companyId) {
+        return response.badRequest({ message: 'Devis invalide ou expiré.' });
+      }
+      if (quote.fingerprint !== orderQuoteService.fingerprint(payload)) {
+        return response.badRequest({ message: 'Le devis ne correspond pas au contenu de cette commande.' });
       }
     }
 
-
-    const trx = await db.transaction()
-    let newOrder: Order | null = null
-
     try {
-      // 1. Géocoder toutes les adresses des waypoints et les préparer
-      const processedWaypoints: ProcessedWaypoint[] = []
-      const allPackageInfosForDb: Omit<Package, | 'order_id' | 'created_at' | 'updated_at' | 'is_return'>[] = []
-
-      for (const waypointPayload of payload.waypoints) {
-        const geocoded = await geo_helper.geocodeAddress(waypointPayload.address_text)
-        if (!geocoded) {
-          await trx.rollback()
-          logger.warn(`Géocodage échoué pour l'adresse: ${waypointPayload.address_text}`)
-          return response.badRequest({ message: `L'adresse "${waypointPayload.address_text}" n'a pas pu être trouvée ou validée.` })
-        }
-
-        // Créer ou trouver l'Address model
-        // Pour la simplicité, on crée toujours. En prod, tu voudrais vérifier si elle existe.
-        const addressModel = await Address.create(
-          {
-            id: cuid(),
-            street_address: waypointPayload.address_text,
-            city: geocoded.city || 'N/A',
-            postal_code: geocoded.postcode || 'N/A',
-            country: geocoded.country_code || 'N/A',
-            coordinates: { type: 'Point', coordinates: geocoded.coordinates },
-            // address_details: JSON.stringify(geocoded.rawDetails) // Si tu veux stocker plus
-          },
-          { client: trx }
-        )
-
-        const processedWp: any = {
-          id: cuid(), // ID unique pour ce waypoint traité
-          original_payload: waypointPayload,
-          address_model: addressModel,
-          coordinates: geocoded.coordinates as [number, number],
-          type_for_valhalla: 'break', // Tous les waypoints sont des arrêts
-          package_infos_for_db: []
-        };
-
-        if (waypointPayload.type === 'pickup' && waypointPayload.package_infos && waypointPayload.package_infos.length > 0) {
-          processedWp.package_infos_for_db = waypointPayload.package_infos.map(pkgInfo => {
-            // pkgInfo est de type ValidatedPackageInfoItem
-            return {
-              id: cuid(),
-              name: pkgInfo.name,
-              description: pkgInfo.description,
-              dimensions: pkgInfo.dimensions,
-              mention_warning: pkgInfo.mention_warning,
-              quantity: pkgInfo.quantity,
-              image_urls: [], // pkgInfo.image_urls || [],
-            };
-          });
-          allPackageInfosForDb.push(...processedWp.package_infos_for_db);
-        }
-        processedWaypoints.push(processedWp);
-      }
-
-
-      // 2. Créer l'Order de base
-      // Le premier waypoint de type 'pickup' est considéré comme le pickup_address_id global.
-      // Le dernier waypoint de type 'delivery' est le delivery_address_id global.
-      const firstPickupProcessed = processedWaypoints.find(wp => wp.original_payload.type === 'pickup');
-      const lastDeliveryProcessed = [...processedWaypoints].reverse().find(wp => wp.original_payload.type === 'delivery');
-
-      if (!firstPickupProcessed || !lastDeliveryProcessed) {
-        // Ne devrait pas arriver à cause des validations précédentes
-        throw new Error("Logique de premier pickup / dernière livraison erronée.");
-      }
-
-      newOrder = new Order()
-      newOrder.useTransaction(trx)
-      const priority = (payload.priority || OrderPriority.MEDIUM) as OrderPriority
-      newOrder.fill({
-        id: cuid(),
-        company_id: companyId,
-        pickup_address_id: firstPickupProcessed.address_model.id,
-        delivery_address_id: lastDeliveryProcessed.address_model.id,
-        priority: priority,
-        note_order: payload.global_order_note,
-        client_fee: 500,
-        remuneration: 500,
-        delivery_date: DateTime.now().plus({ seconds: OFFER_DURATION_SECONDS }),
-      })
-
-      await newOrder.save()
-
-      // 3. Préparer les waypoints pour GeoHelper.calculateOptimizedRoute
-      // Ici, l'ordre des `processedWaypoints` est l'ordre fourni par le client.
-      // Si tu as besoin d'optimiser cet ordre (TSP), c'est ici qu'il faudrait le faire.
-      // Pour l'instant, on prend l'ordre tel quel.
-      const waypointsForValhallaRoute = processedWaypoints.map((pwp, _index) => ({
-        coordinates: pwp.coordinates,
-        type: pwp.type_for_valhalla,
-        address_id: pwp.address_model.id,
-        address_text: pwp.original_payload.address_text,
-        waypoint_type_for_summary: pwp.original_payload.type,
-        package_name_for_summary: pwp.original_payload.type === 'pickup' && pwp.package_infos_for_db && pwp.package_infos_for_db.length > 0
-          ? pwp.package_infos_for_db[0].name + (pwp.package_infos_for_db.length > 1 ? ` (+${pwp.package_infos_for_db.length - 1})` : '')
-          : undefined,
-      }));
-
-
-      // 4. Calculer l'itinéraire et les legs
-      const routeDetails = await geo_helper.calculateOptimizedRoute(waypointsForValhallaRoute)
-      if (!routeDetails) {
-        await trx.rollback()
-        logger.error(`Impossible de calculer l'itinéraire pour la nouvelle commande ${newOrder.id}`)
-        return response.internalServerError({ message: "Erreur lors du calcul de l'itinéraire." })
-      }
-
-
-      // 5. Mettre à jour l'Order avec les infos de route et calculer les frais
-      newOrder.calculation_engine = routeDetails.calculation_engine
-      newOrder.delivery_date_estimation = DateTime.now().plus({ seconds: routeDetails.global_summary.total_duration_seconds })
-      newOrder.waypoints_summary = routeDetails.waypoints_summary_for_order || null; // Construit par GeoHelper
-
-      const packageInfoForPricing = allPackageInfosForDb.map(pkg => ({
-        name: pkg.name,
-        dimensions: pkg.dimensions, // Assure-toi que dimensions est bien du type attendu
-        quantity: pkg.quantity,
-      }));
-
-      const fees = await pricing_helper.calculateFees(
-        routeDetails.global_summary.total_distance_meters,
-        routeDetails.global_summary.total_duration_seconds,
-        packageInfoForPricing as SimplePackageInfo[]
-      );
-      newOrder.client_fee = Math.round(fees.clientFee);
-      newOrder.remuneration = Math.round(fees.driverRemuneration);
-      await newOrder.save()
-
-
-      // 6. Créer les OrderRouteLegs
-      for (let i = 0; i < routeDetails.legs.length; i++) {
-        const legDataFromHelper = routeDetails.legs[i];
-        // Le leg `i` va de `waypointsForValhallaRoute[i]` à `waypointsForValhallaRoute[i+1]`
-        const startWpForThisLeg = waypointsForValhallaRoute[i];
-        const endWpForThisLeg = waypointsForValhallaRoute[i + 1];
-
-        if (!startWpForThisLeg || !endWpForThisLeg) {
-          logger.error(`Manque d'info waypoint pour le leg ${i} lors de la création OrderRouteLeg.`);
-          // Gérer cette erreur critique, peut-être en annulant la transaction
-          await trx.rollback();
-          return response.internalServerError({ message: `Erreur interne lors de la construction de l'itinéraire (leg ${i}).` });
-        }
-
-        const orderRouteLeg = new OrderRouteLeg()
-        orderRouteLeg.useTransaction(trx)
-        orderRouteLeg.fill({
-          order_id: newOrder.id,
-          leg_sequence: i,
-          geometry: legDataFromHelper.geometry,
-          duration_seconds: legDataFromHelper.duration_seconds,
-          distance_meters: legDataFromHelper.distance_meters,
-          maneuvers: legDataFromHelper.maneuvers,
-          raw_valhalla_leg_data: legDataFromHelper.raw_valhalla_leg_data,
-          start_address_id: startWpForThisLeg.address_id, // Peut être null si le premier leg part du driver
-          end_address_id: endWpForThisLeg.address_id,
-          start_coordinates: { type: 'Point', coordinates: startWpForThisLeg.coordinates },
-          end_coordinates: { type: 'Point', coordinates: endWpForThisLeg.coordinates },
-        })
-        await orderRouteLeg.save()
-      }
-
-
-      if (allPackageInfosForDb.length > 0) {
-        const packagesToCreate = allPackageInfosForDb.map(pkgInfo => ({
-          ...pkgInfo,
-          order_id: newOrder!.id,
-        }));
-        await Package.createMany(packagesToCreate, { client: trx });
-      } else if (payload.waypoints.some(wp => wp.type === 'pickup')) {
-        // Sécurité: si on a des pickups mais aucun package n'a été préparé (devrait être attrapé par la validation manuelle)
-        await trx.rollback();
-        logger.error(`Logique d'erreur: des pickups étaient présents mais aucun package n'a été préparé pour la commande ${newOrder?.id}`);
-        return response.internalServerError({ message: "Erreur lors de la préparation des informations des colis." });
-      }
-
-
-      // 8. Créer le Log PENDING initial
-      const firstPickupCoordinates = firstPickupProcessed.address_model.coordinates;
-      await OrderStatusLog.create({
-        id: cuid(),
-        order_id: newOrder.id,
-        status: OrderStatus.PENDING,
-        changed_at: newOrder.created_at,
-        changed_by_user_id: user.id,
-        current_location: firstPickupCoordinates, // Optionnel, mais peut être utile
-      },
-        { client: trx }
-      )
-
-
-      await trx.commit()
-
-      try {
-        const orderForEvent = newOrder! // newOrder est non null ici
-        const firstPickupProcessed = processedWaypoints.find(wp => wp.original_payload.type === 'pickup'); // Déjà calculé
-        const totalWeightG = allPackageInfosForDb.reduce( // Déjà calculé
-          (sum, pkg) => sum + (pkg.dimensions?.weight_g || 0) * (pkg.quantity || 1), 0
-        );
-
-        const assignmentDetails: RawInitialAssignmentDetails = {
-          // S'assurer que firstPickupWaypointData et ses coordonnées existent
-          pickupCoordinates: firstPickupProcessed?.coordinates,
-          totalWeightG: totalWeightG, // Assurez-vous que totalWeightG est bien calculé et disponible ici
-          initialRemuneration: orderForEvent.remuneration
-        };
-        await redis_helper.publishNewOrderReadyForAssignment(
-          orderForEvent.id,
-          assignmentDetails
-        );
-        logger.info(`Event NEW_ORDER_READY_FOR_ASSIGNMENT published for Order ${orderForEvent.id}`);
-      } catch (eventError) {
-        logger.error({ err: eventError, orderId: newOrder!.id }, "Failed to publish NEW_ORDER_READY_FOR_ASSIGNMENT event.");
-        // La commande est créée, AssignmentWorker la prendra via son scan, mais avec un délai.
+      // Géocodage, itinéraire, programmation, tarification, enregistrement et publication pour l'assignation
+      const result = await orderCreationService.create(payload, { companyId, changedByUserId: user.id, quote })
+      if ('error' in result) {
+        if (result.status === 'bad_request') return response.badRequest({ message: result.error })
+        if (result.status === 'conflict') return response.conflict({ message: result.error })
+        return response.internalServerError({ message: result.error })
       }
+      const newOrder = result.order
 
-      // 10. Réponse au client
+      // Réponse au client
       await newOrder.load(loader => {
         loader.load('pickup_address') // Adresse globale
           .load('delivery_address') // Adresse globale
@@ -429,10 +155,19 @@ export default class OrderController {
           .load('route_legs', q => q.orderBy('leg_sequence', 'asc'))
       })
 
-      const message = "Commande créée. Recherche d'un livreur en cours..."
+      const message = orderSchedulingService.isAwaitingRelease(newOrder)
+        ? `Commande programmée. La recherche d'un livreur débutera à ${newOrder.scheduled_release_at!.toISO()}.`
+        : "Commande créée. Recherche d'un livreur en cours..."
 
       return response.created({
         message: message,
+        // Gain de la réorganisation des arrêts par rapport à l'ordre envoyé par le client
+        route_optimization: {
+          applied: result.route_optimization.applied,
+          original: result.route_optimization.original,
+          optimized: result.route_optimization.optimized,
+          savings: result.route_optimization.savings,
+        },
         order: newOrder.serialize({
           fields: { omit: ['confirmation_delivery_code', 'confirmation_pickup_code'] },
           relations: {
@@ -448,14 +183,116 @@ export default class OrderController {
       })
 
     } catch (error) {
-      if (trx.isCompleted === false && trx.isTransaction === false) { // Vérifier si la transaction est toujours active
-        await trx.rollback()
-      }
       logger.error({ err: error, companyId }, 'Erreur globale création commande avec waypoints')
       return response.internalServerError({ message: error.message || 'Erreur serveur lors de la création de la commande.' })
     }
   }
 
+  /**
+   * [CLIENT/API] Devis avant création : géocodage, itinéraire et tarification, sans rien enregistrer.
+   * Le `quote_token` retourné, passé à create_order avant expiration, garantit le prix affiché.
+   * POST /orders/quote
+   */
+  async quote({ request, response, auth }: HttpContext) {
+    const user = await auth.authenticate()
+    await user.load('company')
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+    const companyId = user.company.id
+
+    let payload
+    try {
+      payload = await request.validateUsing(createOrderWithWaypointsValidator)
+    } catch (validationError) {
+      return response.badRequest({ message: 'Données de commande invalides.', errors: validationError.messages })
+    }
+
+    const compositionError = orderCreationService.validatePayload(payload)
+    if (compositionError) {
+      return response.badRequest({ message: compositionError });
+    }
+
+    try {
+      const waypointsForRoute: RouteWaypointInput[] = []
+      const packagesForPricing: SimplePackageInfo[] = []
+      let firstPickupCoordinates: [number, number] | undefined
+
+      for (const waypointPayload of payload.waypoints) {
+        const geocoded = await geo_helper.geocodeAddress(waypointPayload.address_text)
+        if (!geocoded) {
+          return response.badRequest({ message: `L'adresse "${waypointPayload.address_text}" n'a pas pu être trouvée ou validée.` })
+        }
+        waypointsForRoute.push({
+          coordinates: geocoded.coordinates as [number, number],
+          type: 'break',
+          address_text: waypointPayload.address_text,
+          waypoint_type_for_summary: waypointPayload.type,
+          time_window: waypointPayload.time_window,
+        })
+        if (waypointPayload.type === 'pickup') {
+          firstPickupCoordinates ??= geocoded.coordinates as [number, number]
+          for (const pkgInfo of waypointPayload.package_infos ?? []) {
+            packagesForPricing.push({
+              dimensions: pkgInfo.dimensions ?? {},
+              quantity: pkgInfo.quantity,
+              mention_warning: pkgInfo.mention_warning,
+            })
+          }
+        }
+      }
+
+      // Même règle qu'à la création : pas de réordonnancement dès qu'un créneau horaire est demandé
+      const routeDetails = await geo_helper.calculateOptimizedRoute(waypointsForRoute, {
+        optimize: !waypointsForRoute.some((waypoint) => waypoint.time_window),
+      })
+      if (!routeDetails) {
+        return response.internalServerError({ message: "Erreur lors du calcul de l'itinéraire." })
+      }
+
+      const scheduleResult = orderSchedulingService.computeSchedule(
+        routeDetails.optimization.visit_order.map((index) => waypointsForRoute[index].time_window),
+        routeDetails.legs.map((leg) => leg.duration_seconds),
+        payload.delivery_date_request ? DateTime.fromISO(payload.delivery_date_request) : null
+      )
+      if ('error' in scheduleResult) {
+        return response.badRequest({ message: scheduleResult.error })
+      }
+      const schedule = scheduleResult.schedule
+
+      const fees = await pricing_helper.calculateFees(
+        routeDetails.global_summary.total_distance_meters,
+        routeDetails.global_summary.total_duration_seconds,
+        packagesForPricing,
+        { companyId, pickupCoordinates: firstPickupCoordinates }
+      )
+      const { token, claims } = orderQuoteService.issue(companyId, orderQuoteService.fingerprint(payload), fees)
+
+      logger.info({ companyId, quoteId: claims.quote_id, clientFee: claims.client_fee }, 'Devis de commande émis')
+
+      return response.ok({
+        quote_token: token,
+        quote_id: claims.quote_id,
+        expires_at: claims.expires_at,
+        client_fee: claims.client_fee,
+        fee_breakdown: claims.fee_breakdown,
+        eta: {
+          total_duration_seconds: routeDetails.global_summary.total_duration_seconds,
+          total_distance_meters: routeDetails.global_summary.total_distance_meters,
+          scheduled_pickup_at: schedule?.pickup_at.toISO() ?? null,
+          estimated_delivery_at: (schedule?.completion_at ?? DateTime.now().plus({ seconds: routeDetails.global_summary.total_duration_seconds })).toISO(),
+        },
+        route_optimization: {
+          applied: routeDetails.optimization.applied,
+          savings: routeDetails.optimization.savings,
+        },
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId }, 'Erreur calcul devis de commande')
+      return response.internalServerError({ message: 'Erreur serveur lors du calcul du devis.' })
+    }
+  }
+
   // ... La méthode rerouteOrderLeg reste similaire à la version précédente ...
   // Assure-toi d'importer et d'utiliser rerouteLegValidator
   async reroute_order_leg({ request, response, params, auth }: HttpContext) {
@@ -554,8 +391,8 @@ export default class OrderController {
    * GET /orders/:id
    */
   async show({ params, response, auth }: HttpContext) {
-    await auth.check()
-    const user = await auth.authenticate()
+    // Authentifié par le middleware (token utilisateur ou clé API)
+    const user = auth.getUserOrFail()
     await user.load('company')
     if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
 
@@ -598,8 +435,8 @@ export default class OrderController {
    * GET /orders
    */
   async index({ request, response, auth }: HttpContext) {
-    await auth.check()
-    const user = await auth.authenticate()
+    // Authentifié par le middleware (token utilisateur ou clé API)
+    const user = auth.getUserOrFail()
     await user.load('company')
     if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
 
@@ -630,15 +467,15 @@ export default class OrderController {
    * POST /orders/:id/cancel
    */
   async cancel({ params, request, response, auth }: HttpContext) {
-    await auth.check()
-    const user = await auth.authenticate()
+    // Authentifié par le middleware (token utilisateur ou clé API)
+    const user = auth.getUserOrFail()
     await user.load('company')
     if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
 
     const orderId = params.id
 
     // Valider la raison de l'annulation
-    const { metadata } = await request.validateUsing(cancelOrderValidator)
+    const { reason_code, metadata } = await request.validateUsing(cancelOrderValidator)
 
     const trx = await db.transaction()
     try {
@@ -690,6 +527,9 @@ export default class OrderController {
         },
         { client: trx }
       )
+      // Motif retenu pour le remboursement : une annulation par le client reste une demande client
+      order.cancellation_reason_code =
+        reason_code === CancellationReasonCode.OTHER ? reason_code : CancellationReasonCode.CLIENT_REQUEST
       await order.save() // Toujours utiliser la transaction (via find)
 
       // --- SI UN DRIVER ÉTAIT ASSIGNÉ ---
@@ -1009,18 +849,13 @@ export default class OrderController {
   /**
    * [CLIENT/API/PUBLIC?] Récupère les informations de suivi d'une commande.
    * Renvoie le dernier statut connu et la localisation du livreur si en cours.
-   * GET /orders/:id/track  (ou /track/:orderId)
+   * GET /orders/:id/track
    */
   async track({ params, response, auth }: HttpContext) {
-    // --- Gestion de l'Authentification/Autorisation ---
-    // Doit-on être le client propriétaire pour tracker ? Ou est-ce public ?
-    // Option 1: Public (n'importe qui avec l'ID peut suivre) - Pas d'auth ici.
-    // Option 2: Company propriétaire seulement - Décommenter les lignes auth ci-dessous.
-    // await auth.check();
-    // const user = await auth.authenticate();
-    // await user.load('company');
-    // if (!user.company) return response.forbidden({ message: 'Company non trouvé.' });
-    // ----------------------------------------------------
+    // Company propriétaire seulement (token utilisateur ou clé API, authentifié par le middleware)
+    const user = auth.getUserOrFail()
+    await user.load('company')
+    if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
 
     const orderId = params.id
     logger.debug(`Tracking request for Order ${orderId}`)
@@ -1029,6 +864,7 @@ export default class OrderController {
       // 1. Récupérer la commande et son dernier statut logué
       const order = await Order.query()
         .where('id', orderId)
+        .andWhere('company_id', user.company.id)
         // Précharge le dernier log de statut (le plus récent)
         .preload('status_logs', (q) => q.orderBy('changed_at', 'desc').limit(1))
         //@ts-ignore
@@ -1129,6 +965,84 @@ export default class OrderController {
     }
   } // Fin track
 
+  /**
+   * [CLIENT/API] Trajet réel du livreur pendant la commande (tracé simplifié, arrêts) comparé
+   * à la distance prévue des legs, pour les litiges et le contrôle de la rémunération.
+   * GET /orders/:id/route-replay?format=&tolerance_meters=&include_points=
+   */
+  async route_replay({ params, request, response, auth }: HttpContext) {
+    const user = auth.getUserOrFail()
+    await user.load('company')
+    if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
+
+    let payload
+    try {
+      payload = await request.validateUsing(routeReplayQueryValidator, { data: request.qs() })
+    } catch (error) {
+      return response.badRequest({ message: 'Données invalides.', errors: error.messages })
+    }
+
+    try {
+      const order = await Order.query()
+        .select(['id', 'company_id', 'driver_id', 'batch_id'])
+        .where('id', params.id)
+        .andWhere('company_id', user.company.id)
+        .first()
+      if (!order) {
+        return response.notFound({ message: 'Commande non trouvée.' })
+      }
+
+      const replay = await locationHistoryService.getOrderReplay(order, {
+        format: payload.format,
+        toleranceMeters: payload.tolerance_meters,
+        includePoints: payload.include_points,
+      })
+      if (!replay) {
+        return response.badRequest({
+          message: "La commande n'a pas encore été acceptée par un livreur.",
+        })
+      }
+      return response.ok(replay)
+    } catch (error) {
+      logger.error({ err: error, orderId: params.id }, 'Erreur récupération trajet de la commande')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération du trajet.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Liens de suivi publics de la commande, un par waypoint de livraison,
+   * à transmettre aux destinataires (token signé et expirant, sans authentification).
+   * GET /orders/:id/tracking-links
+   */
+  async tracking_links({ params, response, auth }: HttpContext) {
+    const user = auth.getUserOrFail()
+    await user.load('company')
+    if (!user.company) return response.forbidden({ message: 'Company non trouvé.' })
+
+    try {
+      const order = await Order.query()
+        .select(['id', 'company_id', 'waypoints_summary'])
+        .where('id', params.id)
+        .andWhere('company_id', user.company.id)
+        .first()
+      if (!order) {
+        return response.notFound({ message: 'Commande non trouvée.' })
+      }
+
+      return response.ok({
+        order_id: order.id,
+        links: trackingLinkService.linksForOrder(order),
+      })
+    } catch (error) {
+      logger.error({ err: error, orderId: params.id }, 'Erreur génération des liens de suivi')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la génération des liens de suivi.',
+      })
+    }
+  }
+
   /**
    * [ADMIN] Assigne manuellement un driver à une commande PENDING.
    * Met à jour Order, OrderStatusLog, et DriversStatus.
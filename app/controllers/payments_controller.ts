@@ -1,4 +1,47 @@
-// import type { HttpContext } from '@adonisjs/core/http'
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import logger from '@adonisjs/core/services/logger'
+import { PaymentMethod } from '#models/order_transaction'
+import paymentService from '#services/payment_service'
 
+@inject()
 export default class PaymentsController {
-}
\ No newline at end of file
+  /**
+   * [PASSERELLE] Notification de statut d'un paiement (signature vérifiée sur le corps brut)
+   * POST /payments/webhooks/:provider
+   */
+  async webhook({ params, request, response }: HttpContext) {
+    const provider = Object.values(PaymentMethod).find((method) => method === params.provider)
+    if (!provider) {
+      return response.notFound({ message: 'Passerelle inconnue.' })
+    }
+
+    try {
+      const result = await paymentService.handleWebhook(
+        provider,
+        request.raw() ?? '',
+        request.headers(),
+        request.body()
+      )
+      switch (result.outcome) {
+        case 'unsupported':
+          return response.notFound({
+            message: 'Webhooks non pris en charge pour cette passerelle.',
+          })
+        case 'invalid_signature':
+          return response.unauthorized({ message: 'Signature invalide.' })
+        case 'invalid_payload':
+          return response.badRequest({ message: 'Données invalides.' })
+        default:
+          // 2xx : la passerelle cesse de renvoyer l'événement (doublons compris)
+          return response.ok({ received: true, outcome: result.outcome })
+      }
+    } catch (error) {
+      // 5xx : la passerelle renverra l'événement
+      logger.error({ err: error, provider }, 'Erreur traitement webhook passerelle')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du traitement du webhook.',
+      })
+    }
+  }
+}
@@ -0,0 +1,391 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import db from '@adonisjs/lucid/services/db'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import PricingPlan from '#models/pricing_plan'
+import PricingPlanVersion from '#models/pricing_plan_version'
+import Order from '#models/order'
+import Company from '#models/company'
+import Subscription from '#models/subscription'
+import pricingHelper, { DEFAULT_PRICING_RULES } from '#services/pricing_helper'
+
+const amount = () => vine.number().min(0).optional()
+
+// Règles partielles : les champs omis reprennent le tarif par défaut au moment de la création de la version
+const pricingRulesSchema = vine.object({
+  base_fee: amount(),
+  per_km_fee: amount(),
+  per_minute_fee: amount(),
+  weight_tiers: vine
+    .array(vine.object({ from_g: vine.number().min(0), per_kg_fee: vine.number().min(0) }))
+    .optional(),
+  volume_tiers: vine
+    .array(vine.object({ from_m3: vine.number().min(0), fee: vine.number().min(0) }))
+    .optional(),
+  mention_surcharges: vine
+    .object({ fragile: amount(), keep_cold: amount(), keep_warm: amount() })
+    .optional(),
+  driver_base_share: vine.number().min(0).max(1).optional(),
+  driver_percentage: vine.number().min(0).max(1).optional(),
+  platform_margin_factor: vine.number().min(1).optional(),
+  min_client_fee: amount(),
+  min_driver_remuneration: amount(),
+})
+
+const isoDateTime = () => vine.string().trim().optional() // Date ISO 8601, validée via DateTime.fromISO
+
+// Portée du plan : company_id, subscription_id, ou aucun des deux pour le plan par défaut de la plateforme
+const createPlanValidator = vine.compile(
+  vine.object({
+    company_id: vine.string().trim().optional(),
+    subscription_id: vine.string().trim().optional(),
+    name: vine.string().trim().minLength(2).maxLength(100),
+    description: vine.string().trim().maxLength(255).optional(),
+    is_active: vine.boolean().optional(),
+    rules: pricingRulesSchema,
+    effective_from: isoDateTime(),
+    effective_to: isoDateTime(),
+  })
+)
+
+const updatePlanValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(2).maxLength(100).optional(),
+    description: vine.string().trim().maxLength(255).nullable().optional(),
+    is_active: vine.boolean().optional(),
+  })
+)
+
+const listPlansValidator = vine.compile(
+  vine.object({
+    company_id: vine.string().trim().optional(),
+    subscription_id: vine.string().trim().optional(),
+    scope: vine.enum(['company', 'subscription', 'default'] as const).optional(),
+  })
+)
+
+const createVersionValidator = vine.compile(
+  vine.object({
+    rules: pricingRulesSchema,
+    effective_from: isoDateTime(),
+    effective_to: isoDateTime(),
+  })
+)
+
+@inject()
+export default class PricingPlansController {
+  /**
+   * [PLATEFORME] Liste les plans tarifaires, filtrables par entreprise, abonnement ou portée
+   * GET /platform/pricing-plans
+   */
+  async index({ request, response }: HttpContext) {
+    let filters
+    try {
+      filters = await request.validateUsing(listPlansValidator, { data: request.qs() })
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    try {
+      const query = PricingPlan.query().preload('versions').orderBy('created_at', 'desc')
+      if (filters.company_id) query.where('company_id', filters.company_id)
+      if (filters.subscription_id) query.where('subscription_id', filters.subscription_id)
+      if (filters.scope === 'company') query.whereNotNull('company_id')
+      if (filters.scope === 'subscription') {
+        query.whereNull('company_id').whereNotNull('subscription_id')
+      }
+      if (filters.scope === 'default') query.whereNull('company_id').whereNull('subscription_id')
+
+      return response.ok(await query)
+    } catch (error) {
+      logger.error({ err: error }, 'Erreur listage plans tarifaires')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des plans tarifaires.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Règles tarifaires actuellement appliquées aux nouvelles commandes de l'entreprise
+   * GET /admin/pricing-plans/effective
+   */
+  async effective({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    try {
+      const { rules, plan, version } = await pricingHelper.resolvePricing(user.company.id)
+      return response.ok({
+        pricing_plan: plan,
+        pricing_plan_version: version,
+        rules,
+        defaults: DEFAULT_PRICING_RULES,
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id },
+        'Erreur résolution plan tarifaire effectif'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération du plan tarifaire.',
+      })
+    }
+  }
+
+  /**
+   * [PLATEFORME] Détails d'un plan tarifaire et de ses versions
+   * GET /platform/pricing-plans/:id
+   */
+  async show({ params, response }: HttpContext) {
+    const plan = await PricingPlan.query().where('id', params.id).preload('versions').first()
+    if (!plan) {
+      return response.notFound({ message: 'Plan tarifaire non trouvé.' })
+    }
+
+    return response.ok(plan)
+  }
+
+  /**
+   * [PLATEFORME] Crée un plan tarifaire avec sa première version, pour une entreprise,
+   * un abonnement ou par défaut pour toute la plateforme
+   * POST /platform/pricing-plans
+   */
+  async store({ request, response }: HttpContext) {
+    let payload
+    try {
+      payload = await request.validateUsing(createPlanValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    if (payload.company_id && payload.subscription_id) {
+      return response.badRequest({
+        message: 'Un plan cible soit une entreprise, soit un abonnement, pas les deux.',
+      })
+    }
+    if (payload.company_id && !(await Company.find(payload.company_id))) {
+      return response.notFound({ message: 'Entreprise non trouvée.' })
+    }
+    if (payload.subscription_id && !(await Subscription.find(payload.subscription_id))) {
+      return response.notFound({ message: 'Abonnement non trouvé.' })
+    }
+
+    const period = this.parseEffectivePeriod(payload.effective_from, payload.effective_to)
+    if ('error' in period) {
+      return response.badRequest({ message: period.error })
+    }
+
+    const companyId = payload.company_id ?? null
+    const subscriptionId = payload.subscription_id ?? null
+    const trx = await db.transaction()
+    try {
+      const plan = await PricingPlan.create(
+        {
+          name: payload.name,
+          description: payload.description ?? null,
+          company_id: companyId,
+          subscription_id: subscriptionId,
+          is_active: payload.is_active ?? true,
+        },
+        { client: trx }
+      )
+      await PricingPlanVersion.create(
+        {
+          pricing_plan_id: plan.id,
+          version: 1,
+          rules: pricingHelper.withDefaults(payload.rules),
+          effective_from: period.from,
+          effective_to: period.to,
+        },
+        { client: trx }
+      )
+      await trx.commit()
+
+      await plan.load('versions')
+      logger.info({ companyId, subscriptionId, planId: plan.id }, 'Plan tarifaire créé')
+
+      return response.created({
+        message: 'Plan tarifaire créé avec succès.',
+        pricing_plan: plan,
+      })
+    } catch (error) {
+      await trx.rollback()
+      logger.error({ err: error, companyId, subscriptionId }, 'Erreur création plan tarifaire')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la création du plan tarifaire.',
+      })
+    }
+  }
+
+  /**
+   * [PLATEFORME] Met à jour le nom, la description ou l'activation d'un plan.
+   * Les règles ne sont jamais modifiées en place : voir create_version.
+   * PATCH /platform/pricing-plans/:id
+   */
+  async update({ params, request, response }: HttpContext) {
+    let payload
+    try {
+      payload = await request.validateUsing(updatePlanValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const plan = await PricingPlan.find(params.id)
+    if (!plan) {
+      return response.notFound({ message: 'Plan tarifaire non trouvé.' })
+    }
+
+    try {
+      plan.merge(payload)
+      await plan.save()
+      await plan.load('versions')
+
+      return response.ok({
+        message: 'Plan tarifaire mis à jour avec succès.',
+        pricing_plan: plan,
+      })
+    } catch (error) {
+      logger.error({ err: error, planId: plan.id }, 'Erreur mise à jour plan tarifaire')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la mise à jour du plan tarifaire.',
+      })
+    }
+  }
+
+  /**
+   * [PLATEFORME] Ajoute une nouvelle version de règles à un plan
+   * POST /platform/pricing-plans/:id/versions
+   */
+  async create_version({ params, request, response }: HttpContext) {
+    let payload
+    try {
+      payload = await request.validateUsing(createVersionValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const period = this.parseEffectivePeriod(payload.effective_from, payload.effective_to)
+    if ('error' in period) {
+      return response.badRequest({ message: period.error })
+    }
+
+    const trx = await db.transaction()
+    try {
+      // Verrou sur le plan pour sérialiser la numérotation des versions
+      const plan = await PricingPlan.query({ client: trx })
+        .where('id', params.id)
+        .forUpdate()
+        .first()
+      if (!plan) {
+        await trx.rollback()
+        return response.notFound({ message: 'Plan tarifaire non trouvé.' })
+      }
+
+      const latest = await PricingPlanVersion.query({ client: trx })
+        .where('pricing_plan_id', plan.id)
+        .max('version as max_version')
+        .first()
+      const nextVersion = Number(latest?.$extras.max_version ?? 0) + 1
+
+      const version = await PricingPlanVersion.create(
+        {
+          pricing_plan_id: plan.id,
+          version: nextVersion,
+          rules: pricingHelper.withDefaults(payload.rules),
+          effective_from: period.from,
+          effective_to: period.to,
+        },
+        { client: trx }
+      )
+      await trx.commit()
+
+      logger.info(
+        { planId: plan.id, version: nextVersion },
+        'Nouvelle version de plan tarifaire créée'
+      )
+      return response.created({
+        message: `Version ${nextVersion} du plan tarifaire créée avec succès.`,
+        pricing_plan_version: version,
+      })
+    } catch (error) {
+      await trx.rollback()
+      logger.error({ err: error, planId: params.id }, 'Erreur création version plan tarifaire')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la création de la version du plan tarifaire.',
+      })
+    }
+  }
+
+  /**
+   * [PLATEFORME] Supprime un plan.
+   * Un plan déjà utilisé par des commandes est seulement désactivé pour garder la traçabilité des prix.
+   * DELETE /platform/pricing-plans/:id
+   */
+  async destroy({ params, response }: HttpContext) {
+    const plan = await PricingPlan.find(params.id)
+    if (!plan) {
+      return response.notFound({ message: 'Plan tarifaire non trouvé.' })
+    }
+
+    try {
+      const usedByOrders = await Order.query()
+        .whereIn(
+          'pricing_plan_version_id',
+          PricingPlanVersion.query().where('pricing_plan_id', plan.id).select('id')
+        )
+        .first()
+
+      if (usedByOrders) {
+        plan.is_active = false
+        await plan.save()
+        return response.ok({
+          message: 'Plan tarifaire utilisé par des commandes existantes : il a été désactivé.',
+          pricing_plan: plan,
+        })
+      }
+
+      await plan.delete()
+      return response.ok({ message: 'Plan tarifaire supprimé avec succès.' })
+    } catch (error) {
+      logger.error({ err: error, planId: plan.id }, 'Erreur suppression plan tarifaire')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la suppression du plan tarifaire.',
+      })
+    }
+  }
+
+  private parseEffectivePeriod(
+    effectiveFrom?: string,
+    effectiveTo?: string
+  ): { from: DateTime; to: DateTime | null } | { error: string } {
+    const from = effectiveFrom ? DateTime.fromISO(effectiveFrom) : DateTime.now()
+    const to = effectiveTo ? DateTime.fromISO(effectiveTo) : null
+
+    if (!from.isValid || (to && !to.isValid)) {
+      return { error: 'Les dates de validité doivent être au format ISO 8601.' }
+    }
+    if (to && to <= from) {
+      return { error: 'La date de fin de validité doit être postérieure à la date de début.' }
+    }
+    return { from, to }
+  }
+}
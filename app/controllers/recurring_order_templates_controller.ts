@@ -0,0 +1,611 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import db from '@adonisjs/lucid/services/db'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import RecurringOrderTemplate from '#models/recurring_order_template'
+import Order from '#models/order'
+import { waypointValidator } from '#validators/order'
+import orderCreationService from '#services/order_creation_service'
+import recurringOrderService, {
+  type RecurrenceRule,
+  type RecurringOrderPayload,
+} from '#services/recurring_order_service'
+
+const DEFAULT_PICKUP_WINDOW_MINUTES = 30
+const UPCOMING_OCCURRENCES_PREVIEW = 5
+
+const dateRule = () => vine.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const recurrenceSchema = vine.object({
+  frequency: vine.enum(['daily', 'weekly', 'monthly'] as const),
+  interval: vine.number().withoutDecimals().range([1, 52]).optional(),
+  by_weekday: vine.array(vine.number().withoutDecimals().range([1, 7])).optional(),
+  by_month_day: vine.array(vine.number().withoutDecimals().range([1, 31])).optional(),
+  time: vine.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // Heure locale de collecte (HH:mm)
+  pickup_window_minutes: vine.number().withoutDecimals().range([5, 720]).optional(),
+})
+
+const createTemplateValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(2).maxLength(100),
+    // Mêmes waypoints que POST /orders, sans time_window : le créneau découle de la récurrence
+    waypoints: vine.array(waypointValidator).minLength(2),
+    priority: vine.enum(['low', 'medium', 'high'] as const).optional(),
+    global_order_note: vine.string().trim().optional(),
+    recurrence: recurrenceSchema,
+    timezone: vine.string().trim().optional(), // Fuseau IANA, UTC par défaut
+    starts_on: dateRule().optional(), // Aujourd'hui par défaut
+    ends_on: dateRule().optional(),
+  })
+)
+
+const updateTemplateValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(2).maxLength(100).optional(),
+    waypoints: vine.array(waypointValidator).minLength(2).optional(),
+    priority: vine.enum(['low', 'medium', 'high'] as const).optional(),
+    global_order_note: vine.string().trim().nullable().optional(),
+    recurrence: recurrenceSchema.optional(),
+    timezone: vine.string().trim().optional(),
+    starts_on: dateRule().optional(),
+    ends_on: dateRule().nullable().optional(),
+  })
+)
+
+const skipDateValidator = vine.compile(
+  vine.object({
+    date: dateRule(), // Date locale de l'occurrence à ne pas générer
+  })
+)
+
+@inject()
+export default class RecurringOrderTemplatesController {
+  /**
+   * [CLIENT/API] Liste les modèles de commandes récurrentes de l'entreprise
+   * GET /recurring-order-templates
+   */
+  async index({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    try {
+      const templates = await RecurringOrderTemplate.query()
+        .where('company_id', user.company.id)
+        .where('is_active', true)
+        .withCount('orders', (query) => query.as('generated_orders_count'))
+        .orderBy('created_at', 'desc')
+
+      return response.ok(
+        templates.map((template) => ({
+          ...template.serialize(),
+          generated_orders_count: Number(template.$extras.generated_orders_count ?? 0),
+        }))
+      )
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id },
+        'Erreur listage modèles de commandes récurrentes'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des commandes récurrentes.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Détails d'un modèle : prochaines occurrences et bilan des commandes générées
+   * GET /recurring-order-templates/:id
+   */
+  async show({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const template = await this.findCompanyTemplate(params.id, user.company.id)
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+
+    try {
+      // Bilan par statut courant des commandes générées
+      const statsResult = await db.rawQuery(
+        `SELECT (SELECT l.status FROM order_status_logs l WHERE l.order_id = o.id ORDER BY l.changed_at DESC LIMIT 1) AS status,
+                COUNT(*)::int AS total,
+                COALESCE(SUM(o.client_fee), 0)::int AS client_fee
+           FROM orders o
+          WHERE o.recurring_order_template_id = ?
+          GROUP BY 1`,
+        [template.id]
+      )
+      const byStatus: Array<{ status: string | null; total: number; client_fee: number }> =
+        statsResult.rows.map(
+          (row: { status: string | null; total: number; client_fee: number }) => ({
+            status: row.status,
+            total: Number(row.total),
+            client_fee: Number(row.client_fee),
+          })
+        )
+
+      return response.ok({
+        ...template.serialize(),
+        upcoming_occurrences: template.is_paused
+          ? []
+          : recurringOrderService
+              .upcomingOccurrences(template, UPCOMING_OCCURRENCES_PREVIEW)
+              .map((occurrence) => occurrence.toISO()),
+        generated_orders: {
+          total: byStatus.reduce((sum, row) => sum + row.total, 0),
+          total_client_fee: byStatus.reduce((sum, row) => sum + row.client_fee, 0),
+          by_status: byStatus,
+        },
+      })
+    } catch (error) {
+      logger.error({ err: error, templateId: template.id }, 'Erreur détails commande récurrente')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération de la commande récurrente.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Commandes générées par un modèle (reporting)
+   * GET /recurring-order-templates/:id/orders
+   */
+  async orders({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const template = await RecurringOrderTemplate.query()
+      .where('id', params.id)
+      .where('company_id', user.company.id) // Un modèle supprimé reste consultable pour le reporting
+      .first()
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+
+    const page = request.input('page', 1)
+    const perPage = Math.min(request.input('perPage', 15), 100)
+
+    try {
+      const ordersPaginated = await Order.query()
+        .where('recurring_order_template_id', template.id)
+        .select('orders.*')
+        .select(
+          db.raw(
+            `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) AS current_status`
+          )
+        )
+        .preload('pickup_address', (q) => q.select(['city', 'street_address']))
+        .preload('delivery_address', (q) => q.select(['city', 'street_address']))
+        .orderBy('created_at', 'desc')
+        .paginate(page, perPage)
+
+      return response.ok({
+        meta: ordersPaginated.getMeta(),
+        data: ordersPaginated.all().map((order) => ({
+          ...order.serialize({
+            fields: { omit: ['confirmation_delivery_code', 'confirmation_pickup_code'] },
+          }),
+          current_status: order.$extras.current_status,
+        })),
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, templateId: template.id },
+        'Erreur listage commandes générées par un modèle récurrent'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des commandes générées.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Crée un modèle de commande récurrente
+   * POST /recurring-order-templates
+   */
+  async store({ request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(createTemplateValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const timezone = payload.timezone ?? 'UTC'
+    const template = new RecurringOrderTemplate()
+    template.fill({
+      company_id: user.company.id,
+      created_by_user_id: user.id,
+      name: payload.name,
+      order_payload: {
+        waypoints: payload.waypoints,
+        priority: payload.priority,
+        global_order_note: payload.global_order_note,
+      },
+      recurrence: this.normalizeRecurrence(payload.recurrence),
+      timezone,
+      starts_on: payload.starts_on
+        ? DateTime.fromISO(payload.starts_on)
+        : DateTime.now().setZone(timezone).startOf('day'),
+      ends_on: payload.ends_on ? DateTime.fromISO(payload.ends_on) : null,
+      skipped_dates: [],
+      is_paused: false,
+      is_active: true,
+    })
+
+    const validationError = this.validateTemplate(template)
+    if (validationError) {
+      return response.badRequest({ message: validationError })
+    }
+
+    try {
+      recurringOrderService.refreshNextOccurrence(template)
+      await template.save()
+      logger.info(
+        { companyId: user.company.id, templateId: template.id },
+        'Modèle de commande récurrente créé'
+      )
+
+      return response.created({
+        message: 'Commande récurrente créée avec succès.',
+        recurring_order_template: template,
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, companyId: user.company.id },
+        'Erreur création modèle de commande récurrente'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la création de la commande récurrente.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Met à jour un modèle. Les commandes déjà générées ne sont pas modifiées.
+   * PATCH /recurring-order-templates/:id
+   */
+  async update({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(updateTemplateValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const template = await this.findCompanyTemplate(params.id, user.company.id)
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+
+    if (payload.name !== undefined) template.name = payload.name
+    if (payload.timezone !== undefined) template.timezone = payload.timezone
+    if (payload.recurrence !== undefined) {
+      template.recurrence = this.normalizeRecurrence(payload.recurrence)
+    }
+    if (payload.starts_on !== undefined) template.starts_on = DateTime.fromISO(payload.starts_on)
+    if (payload.ends_on !== undefined) {
+      template.ends_on = payload.ends_on ? DateTime.fromISO(payload.ends_on) : null
+    }
+    if (
+      payload.waypoints !== undefined ||
+      payload.priority !== undefined ||
+      payload.global_order_note !== undefined
+    ) {
+      const current = template.order_payload
+      template.order_payload = {
+        waypoints: payload.waypoints ?? current.waypoints,
+        priority: payload.priority ?? current.priority,
+        global_order_note:
+          payload.global_order_note === undefined
+            ? current.global_order_note
+            : (payload.global_order_note ?? undefined),
+      }
+    }
+
+    const validationError = this.validateTemplate(template)
+    if (validationError) {
+      return response.badRequest({ message: validationError })
+    }
+
+    try {
+      recurringOrderService.refreshNextOccurrence(template)
+      await template.save()
+
+      return response.ok({
+        message: 'Commande récurrente mise à jour avec succès.',
+        recurring_order_template: template,
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, templateId: template.id },
+        'Erreur mise à jour commande récurrente'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la mise à jour de la commande récurrente.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT/API] Suspend la génération des commandes
+   * POST /recurring-order-templates/:id/pause
+   */
+  async pause({ params, response, auth }: HttpContext) {
+    return this.setPaused(params.id, true, response, auth)
+  }
+
+  /**
+   * [CLIENT/API] Reprend la génération à partir de la prochaine occurrence à venir
+   * (les occurrences passées pendant la suspension ne sont pas rattrapées)
+   * POST /recurring-order-templates/:id/resume
+   */
+  async resume({ params, response, auth }: HttpContext) {
+    return this.setPaused(params.id, false, response, auth)
+  }
+
+  /**
+   * [CLIENT/API] Saute une occurrence (aucune commande générée à cette date locale)
+   * POST /recurring-order-templates/:id/skips
+   */
+  async add_skip({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(skipDateValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const template = await this.findCompanyTemplate(params.id, user.company.id)
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+
+    const today = DateTime.now().setZone(template.timezone).toISODate()!
+    if (payload.date < today) {
+      return response.badRequest({ message: 'Impossible de sauter une date passée.' })
+    }
+
+    return this.saveSkippedDates(
+      template,
+      [...new Set([...template.skipped_dates, payload.date])].sort(),
+      response
+    )
+  }
+
+  /**
+   * [CLIENT/API] Rétablit une occurrence sautée
+   * DELETE /recurring-order-templates/:id/skips/:date
+   */
+  async remove_skip({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const template = await this.findCompanyTemplate(params.id, user.company.id)
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+    if (!template.skipped_dates.includes(params.date)) {
+      return response.notFound({ message: "Cette date n'est pas sautée." })
+    }
+
+    return this.saveSkippedDates(
+      template,
+      template.skipped_dates.filter((date) => date !== params.date),
+      response
+    )
+  }
+
+  /**
+   * [CLIENT/API] Supprime un modèle.
+   * Un modèle ayant déjà généré des commandes est seulement désactivé pour garder le reporting.
+   * DELETE /recurring-order-templates/:id
+   */
+  async destroy({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const template = await this.findCompanyTemplate(params.id, user.company.id)
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+
+    try {
+      const hasOrders = await Order.query()
+        .where('recurring_order_template_id', template.id)
+        .first()
+
+      if (hasOrders) {
+        template.is_active = false
+        template.next_occurrence_at = null
+        await template.save()
+        return response.ok({
+          message: 'Commande récurrente supprimée. Ses commandes générées restent consultables.',
+        })
+      }
+
+      await template.delete()
+      return response.ok({ message: 'Commande récurrente supprimée avec succès.' })
+    } catch (error) {
+      logger.error(
+        { err: error, templateId: template.id },
+        'Erreur suppression commande récurrente'
+      )
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la suppression de la commande récurrente.',
+      })
+    }
+  }
+
+  private async setPaused(
+    templateId: string,
+    paused: boolean,
+    response: HttpContext['response'],
+    auth: HttpContext['auth']
+  ) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const template = await this.findCompanyTemplate(templateId, user.company.id)
+    if (!template) {
+      return response.notFound({ message: 'Modèle de commande récurrente non trouvé.' })
+    }
+
+    try {
+      template.is_paused = paused
+      if (!paused) {
+        recurringOrderService.refreshNextOccurrence(template)
+      }
+      await template.save()
+
+      return response.ok({
+        message: paused ? 'Commande récurrente suspendue.' : 'Commande récurrente reprise.',
+        recurring_order_template: template,
+      })
+    } catch (error) {
+      logger.error({ err: error, templateId }, 'Erreur suspension/reprise commande récurrente')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la mise à jour de la commande récurrente.',
+      })
+    }
+  }
+
+  private async saveSkippedDates(
+    template: RecurringOrderTemplate,
+    skippedDates: string[],
+    response: HttpContext['response']
+  ) {
+    try {
+      template.skipped_dates = skippedDates
+      recurringOrderService.refreshNextOccurrence(template)
+      await template.save()
+
+      return response.ok({
+        message: 'Dates sautées mises à jour.',
+        recurring_order_template: template,
+      })
+    } catch (error) {
+      logger.error({ err: error, templateId: template.id }, 'Erreur mise à jour dates sautées')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la mise à jour de la commande récurrente.',
+      })
+    }
+  }
+
+  private findCompanyTemplate(templateId: string, companyId: string) {
+    return RecurringOrderTemplate.query()
+      .where('id', templateId)
+      .where('company_id', companyId)
+      .where('is_active', true)
+      .first()
+  }
+
+  private normalizeRecurrence(recurrence: {
+    frequency: RecurrenceRule['frequency']
+    interval?: number
+    by_weekday?: number[]
+    by_month_day?: number[]
+    time: string
+    pickup_window_minutes?: number
+  }): RecurrenceRule {
+    return {
+      frequency: recurrence.frequency,
+      interval: recurrence.interval ?? 1,
+      by_weekday: recurrence.by_weekday?.length
+        ? [...new Set(recurrence.by_weekday)].sort((a, b) => a - b)
+        : undefined,
+      by_month_day: recurrence.by_month_day?.length
+        ? [...new Set(recurrence.by_month_day)].sort((a, b) => a - b)
+        : undefined,
+      time: recurrence.time,
+      pickup_window_minutes: recurrence.pickup_window_minutes ?? DEFAULT_PICKUP_WINDOW_MINUTES,
+    }
+  }
+
+  /**
+   * Règles non exprimables dans les validateurs. Retourne le message d'erreur, ou null.
+   */
+  private validateTemplate(template: RecurringOrderTemplate): string | null {
+    const orderPayload: RecurringOrderPayload = template.order_payload
+    if (orderPayload.waypoints.some((waypoint) => waypoint.time_window)) {
+      return 'Les créneaux sont calculés à chaque occurrence : time_window ne peut pas être renseigné.'
+    }
+    if (!template.starts_on.isValid || (template.ends_on && !template.ends_on.isValid)) {
+      return 'Les dates de début et de fin doivent être au format YYYY-MM-DD.'
+    }
+    return (
+      orderCreationService.validatePayload(orderPayload) ??
+      recurringOrderService.validateRecurrence(
+        template.recurrence,
+        template.timezone,
+        template.starts_on,
+        template.ends_on
+      )
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import logger from '@adonisjs/core/services/logger'
+import Driver from '#models/driver'
+import surgePricingService from '#services/surge_pricing_service'
+
+@inject()
+export default class SurgeMapController {
+  /**
+   * [DRIVER] Zones actuellement majorées, pour orienter les livreurs vers la demande
+   * GET /driver/surge-map
+   */
+  async show({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    const driver = await Driver.findBy('user_id', user.id)
+    if (!driver) {
+      return response.forbidden({ message: 'Utilisateur non associé à un profil livreur.' })
+    }
+
+    try {
+      return response.ok(await this.majoredZonesView())
+    } catch (error) {
+      logger.error({ err: error, driverId: driver.id }, 'Erreur lecture carte de majoration')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération de la carte de majoration.',
+      })
+    }
+  }
+
+  /**
+   * [ADMIN/CLIENT] Zones actuellement majorées, multiplicateurs seulement (même vue que les livreurs)
+   * GET /admin/surge-map
+   */
+  async company_show({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    try {
+      return response.ok(await this.majoredZonesView())
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur lecture carte de majoration')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération de la carte de majoration.',
+      })
+    }
+  }
+
+  /**
+   * [PLATEFORME] Carte complète des majorations avec l'offre et la demande de chaque zone
+   * GET /platform/surge-map
+   */
+  async platform_show({ response }: HttpContext) {
+    try {
+      const surgeMap = await surgePricingService.getSurgeMap()
+      return response.ok({
+        enabled: surgePricingService.enabled,
+        max_multiplier: surgePricingService.maxMultiplier,
+        computed_at: surgeMap?.computed_at ?? null,
+        zone_size_deg: surgeMap?.zone_size_deg ?? surgePricingService.zoneSizeDeg,
+        zones: surgeMap?.zones ?? [],
+      })
+    } catch (error) {
+      logger.error({ err: error }, 'Erreur lecture carte de majoration')
+      return response.internalServerError({
+        message: 'Erreur serveur lors de la récupération de la carte de majoration.',
+      })
+    }
+  }
+
+  /**
+   * Zones majorées sans les compteurs d'offre et de demande, réservés à la plateforme
+   */
+  private async majoredZonesView() {
+    const surgeMap = surgePricingService.enabled ? await surgePricingService.getSurgeMap() : null
+    return {
+      computed_at: surgeMap?.computed_at ?? null,
+      zone_size_deg: surgeMap?.zone_size_deg ?? surgePricingService.zoneSizeDeg,
+      zones: (surgeMap?.zones ?? [])
+        .filter((zone) => zone.multiplier > 1)
+        .map((zone) => ({
+          zone: zone.zone,
+          center: zone.center,
+          bbox: zone.bbox,
+          multiplier: zone.multiplier,
+        })),
+    }
+  }
+}
@@ -0,0 +1,381 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { inject } from '@adonisjs/core'
+import vine from '@vinejs/vine'
+import logger from '@adonisjs/core/services/logger'
+import WebhookEndpoint, { WEBHOOK_EVENTS } from '#models/webhook_endpoint'
+import WebhookDelivery, { WebhookDeliveryStatus } from '#models/webhook_delivery'
+import webhookService, { WEBHOOK_SIGNATURE_HEADER } from '#services/webhook_service'
+
+const MAX_ENDPOINTS_PER_COMPANY = 10
+
+const createWebhookEndpointValidator = vine.compile(
+  vine.object({
+    url: vine.string().trim().maxLength(2048).url({ require_tld: false }),
+    description: vine.string().trim().maxLength(255).nullable().optional(),
+    events: vine.array(vine.enum(WEBHOOK_EVENTS)).minLength(1),
+  })
+)
+
+const updateWebhookEndpointValidator = vine.compile(
+  vine.object({
+    url: vine.string().trim().maxLength(2048).url({ require_tld: false }).optional(),
+    description: vine.string().trim().maxLength(255).nullable().optional(),
+    events: vine.array(vine.enum(WEBHOOK_EVENTS)).minLength(1).optional(),
+    is_active: vine.boolean().optional(),
+  })
+)
+
+const listDeliveriesValidator = vine.compile(
+  vine.object({
+    page: vine.number().withoutDecimals().min(1).optional(),
+    perPage: vine.number().withoutDecimals().range([1, 100]).optional(),
+    status: vine.enum(WebhookDeliveryStatus).optional(),
+    event: vine.string().trim().optional(),
+    order_id: vine.string().trim().optional(),
+  })
+)
+
+@inject()
+export default class WebhookEndpointsController {
+  /**
+   * [CLIENT] Liste les endpoints webhook de l'entreprise
+   * GET /webhooks
+   */
+  async index({ response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    try {
+      const endpoints = await WebhookEndpoint.query()
+        .where('company_id', user.company.id)
+        .orderBy('created_at', 'desc')
+
+      return response.ok({
+        available_events: WEBHOOK_EVENTS,
+        signature_header: WEBHOOK_SIGNATURE_HEADER,
+        data: endpoints.map((endpoint) => endpoint.serialize()),
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur listage endpoints webhook')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des webhooks.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Enregistre un endpoint. Le secret de signature n'est renvoyé qu'une seule fois.
+   * POST /webhooks
+   */
+  async store({ request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(createWebhookEndpointValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    const urlError = await webhookService.validateUrl(payload.url)
+    if (urlError) {
+      return response.badRequest({ message: urlError })
+    }
+
+    try {
+      const existing = await WebhookEndpoint.query()
+        .where('company_id', user.company.id)
+        .count('* as total')
+      if (Number(existing[0].$extras.total) >= MAX_ENDPOINTS_PER_COMPANY) {
+        return response.conflict({
+          message: `Nombre maximal d'endpoints webhook atteint (${MAX_ENDPOINTS_PER_COMPANY}).`,
+        })
+      }
+
+      const endpoint = await WebhookEndpoint.create({
+        company_id: user.company.id,
+        url: payload.url,
+        description: payload.description ?? null,
+        secret: webhookService.generateSecret(),
+        events: [...new Set(payload.events)],
+        is_active: true,
+        consecutive_failures: 0,
+      })
+
+      logger.info({ endpointId: endpoint.id, companyId: user.company.id }, 'Endpoint webhook créé')
+      return response.created({
+        ...endpoint.serialize(),
+        secret: endpoint.secret, // Affiché une seule fois
+      })
+    } catch (error) {
+      logger.error({ err: error, companyId: user.company.id }, 'Erreur création endpoint webhook')
+      return response.internalServerError({
+        message: "Erreur serveur lors de la création de l'endpoint webhook.",
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Modifie l'URL, les événements ou l'activation d'un endpoint
+   * PATCH /webhooks/:id
+   */
+  async update({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const endpoint = await this.findCompanyEndpoint(params.id, user.company.id)
+    if (!endpoint) {
+      return response.notFound({ message: 'Endpoint webhook non trouvé.' })
+    }
+
+    let payload
+    try {
+      payload = await request.validateUsing(updateWebhookEndpointValidator)
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    if (payload.url !== undefined) {
+      const urlError = await webhookService.validateUrl(payload.url)
+      if (urlError) {
+        return response.badRequest({ message: urlError })
+      }
+    }
+
+    try {
+      if (payload.url !== undefined) endpoint.url = payload.url
+      if (payload.description !== undefined) endpoint.description = payload.description
+      if (payload.events !== undefined) endpoint.events = [...new Set(payload.events)]
+      if (payload.is_active !== undefined) {
+        endpoint.is_active = payload.is_active
+        // Réactivation manuelle : le compteur d'échecs repart de zéro
+        if (payload.is_active) endpoint.consecutive_failures = 0
+      }
+      await endpoint.save()
+      return response.ok(endpoint.serialize())
+    } catch (error) {
+      logger.error({ err: error, endpointId: endpoint.id }, 'Erreur modification endpoint webhook')
+      return response.internalServerError({
+        message: "Erreur serveur lors de la modification de l'endpoint webhook.",
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Génère un nouveau secret de signature (l'ancien cesse immédiatement d'être utilisé)
+   * POST /webhooks/:id/rotate-secret
+   */
+  async rotate_secret({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const endpoint = await this.findCompanyEndpoint(params.id, user.company.id)
+    if (!endpoint) {
+      return response.notFound({ message: 'Endpoint webhook non trouvé.' })
+    }
+
+    try {
+      endpoint.secret = webhookService.generateSecret()
+      await endpoint.save()
+      logger.info(
+        { endpointId: endpoint.id, companyId: user.company.id },
+        'Secret webhook renouvelé'
+      )
+      return response.ok({
+        ...endpoint.serialize(),
+        secret: endpoint.secret, // Affiché une seule fois
+      })
+    } catch (error) {
+      logger.error({ err: error, endpointId: endpoint.id }, 'Erreur rotation secret webhook')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du renouvellement du secret.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Supprime un endpoint et son journal de livraisons
+   * DELETE /webhooks/:id
+   */
+  async destroy({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const endpoint = await this.findCompanyEndpoint(params.id, user.company.id)
+    if (!endpoint) {
+      return response.notFound({ message: 'Endpoint webhook non trouvé.' })
+    }
+
+    try {
+      await endpoint.delete()
+      logger.info(
+        { endpointId: endpoint.id, companyId: user.company.id },
+        'Endpoint webhook supprimé'
+      )
+      return response.ok({ message: 'Endpoint webhook supprimé.' })
+    } catch (error) {
+      logger.error({ err: error, endpointId: endpoint.id }, 'Erreur suppression endpoint webhook')
+      return response.internalServerError({
+        message: "Erreur serveur lors de la suppression de l'endpoint webhook.",
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Journal des livraisons d'un endpoint (paginé, filtrable par statut / événement / commande)
+   * GET /webhooks/:id/deliveries
+   */
+  async deliveries({ params, request, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const endpoint = await this.findCompanyEndpoint(params.id, user.company.id)
+    if (!endpoint) {
+      return response.notFound({ message: 'Endpoint webhook non trouvé.' })
+    }
+
+    let filters
+    try {
+      filters = await listDeliveriesValidator.validate(request.qs())
+    } catch (validationError) {
+      return response.badRequest({
+        message: 'Données invalides.',
+        errors: validationError.messages,
+      })
+    }
+
+    try {
+      const query = WebhookDelivery.query()
+        .where('webhook_endpoint_id', endpoint.id)
+        .orderBy('created_at', 'desc')
+      if (filters.status) query.where('status', filters.status)
+      if (filters.event) query.where('event', filters.event)
+      if (filters.order_id) query.where('order_id', filters.order_id)
+
+      const deliveries = await query.paginate(filters.page ?? 1, filters.perPage ?? 20)
+      return response.ok(deliveries.serialize())
+    } catch (error) {
+      logger.error({ err: error, endpointId: endpoint.id }, 'Erreur listage livraisons webhook')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du listage des livraisons.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Renvoie une livraison (nouvelle livraison, envoyée par le worker)
+   * POST /webhooks/deliveries/:id/replay
+   */
+  async replay({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const delivery = await WebhookDelivery.query()
+      .where('id', params.id)
+      .where('company_id', user.company.id)
+      .preload('endpoint')
+      .first()
+    if (!delivery) {
+      return response.notFound({ message: 'Livraison webhook non trouvée.' })
+    }
+    if (!delivery.endpoint.is_active) {
+      return response.conflict({ message: "L'endpoint webhook est désactivé." })
+    }
+
+    try {
+      const replayed = await webhookService.replay(delivery)
+      logger.info({ deliveryId: delivery.id, replayId: replayed.id }, 'Livraison webhook rejouée')
+      return response.accepted(replayed.serialize())
+    } catch (error) {
+      logger.error({ err: error, deliveryId: delivery.id }, 'Erreur replay livraison webhook')
+      return response.internalServerError({
+        message: 'Erreur serveur lors du renvoi de la livraison.',
+      })
+    }
+  }
+
+  /**
+   * [CLIENT] Envoie immédiatement un événement `webhook.test` et renvoie le résultat
+   * (statut HTTP seulement : le corps de la réponse distante n'est pas renvoyé)
+   * POST /webhooks/:id/test
+   */
+  async test({ params, response, auth }: HttpContext) {
+    await auth.check()
+    const user = await auth.authenticate()
+    await user.load('company')
+
+    if (!user.company) {
+      return response.forbidden({ message: 'Utilisateur non associé à un compte entreprise.' })
+    }
+
+    const endpoint = await this.findCompanyEndpoint(params.id, user.company.id)
+    if (!endpoint) {
+      return response.notFound({ message: 'Endpoint webhook non trouvé.' })
+    }
+
+    try {
+      const delivery = await webhookService.sendTest(endpoint)
+      return response.ok({
+        success: delivery.status === WebhookDeliveryStatus.SUCCEEDED,
+        delivery: {
+          id: delivery.id,
+          status: delivery.status,
+          response_status: delivery.response_status,
+          duration_ms: delivery.duration_ms,
+          error_message: delivery.error_message,
+        },
+      })
+    } catch (error) {
+      logger.error({ err: error, endpointId: endpoint.id }, 'Erreur envoi événement test webhook')
+      return response.internalServerError({
+        message: "Erreur serveur lors de l'envoi de l'événement de test.",
+      })
+    }
+  }
+
+  private findCompanyEndpoint(endpointId: string, companyId: string) {
+    return WebhookEndpoint.query().where('id', endpointId).where('company_id', companyId).first()
+  }
+}
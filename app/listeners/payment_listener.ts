@@ -0,0 +1,66 @@
+// app/listeners/payment_listener.ts
+import logger from '@adonisjs/core/services/logger'
+import type { EventsList } from '@adonisjs/core/types'
+import { OrderTransactionType } from '#models/order_transaction'
+import driverWalletService from '#services/driver_wallet_service'
+import clientPaymentService from '#services/client_payment_service'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
+
+/**
+ * Répercute les changements de statut des transactions de paiement (passerelle, webhook,
+ * rapprochement) sur le grand livre et sur le paiement des commandes. Un échec est rattrapé par le
+ * rapport de rapprochement.
+ */
+export default class PaymentListener {
+  async onTransactionUpdated(payload: EventsList['payment:transaction_updated']) {
+    if (payload.type === OrderTransactionType.DRIVER_WITHDRAWAL) {
+      try {
+        await driverWalletService.syncWithdrawal(payload.order_transaction_id)
+      } catch (error) {
+        logger.error(
+          { err: error, orderTransactionId: payload.order_transaction_id },
+          'Erreur écriture grand livre (retrait)'
+        )
+      }
+      return
+    }
+
+    if (payload.type === OrderTransactionType.DRIVER_CASH_REMITTANCE) {
+      try {
+        await cashOnDeliveryService.syncRemittance(payload.order_transaction_id)
+      } catch (error) {
+        logger.error(
+          { err: error, orderTransactionId: payload.order_transaction_id },
+          'Erreur écriture grand livre (reversement espèces)'
+        )
+      }
+      return
+    }
+
+    if (
+      payload.type === OrderTransactionType.CLIENT_PAYMENT ||
+      payload.type === OrderTransactionType.CLIENT_REIMBURSEMENT
+    ) {
+      try {
+        await clientPaymentService.handleTransactionUpdate(payload.order_transaction_id)
+      } catch (error) {
+        logger.error(
+          { err: error, orderTransactionId: payload.order_transaction_id },
+          'Erreur traitement paiement client'
+        )
+      }
+    }
+  }
+
+  // Encaissement en fin de mission et remboursement des commandes annulées
+  async onOrderStatusUpdated(payload: EventsList['order:status_updated']) {
+    try {
+      await clientPaymentService.onOrderStatusUpdated(payload.order_id, payload.new_status)
+    } catch (error) {
+      logger.error(
+        { err: error, orderId: payload.order_id, status: payload.new_status },
+        'Erreur paiement client sur changement de statut'
+      )
+    }
+  }
+}
@@ -0,0 +1,64 @@
+// app/listeners/socket_listener.ts
+import type {
+  DriverLocationUpdatePayload,
+  EtaUpdatedPayload,
+  MissionOfferedPayload,
+  OrderStatusUpdatePayload,
+  RouteUpdatedPayload,
+} from '../contracts/events.js'
+import type { SocketOrderStatusPayload } from '../contracts/socket_events.js'
+import Ws from '#services/ws_service'
+
+/**
+ * Relaie les événements de commande vers les namespaces Socket.IO, en ne transmettant à chaque room
+ * que ce que son rôle peut voir (un livreur ses commandes, une entreprise les siennes).
+ */
+export default class SocketListener {
+  async onOrderStatusUpdated(payload: OrderStatusUpdatePayload) {
+    const status: SocketOrderStatusPayload = {
+      order_id: payload.order_id,
+      new_status: payload.new_status,
+      timestamp: payload.timestamp,
+      waypoint_sequence: payload.log_entry?.metadata?.waypoint_sequence,
+    }
+    await Ws.toCompany(payload.company_id, 'order_status_updated', status)
+    if (payload.driver_id) {
+      await Ws.toDriver(payload.driver_id, 'order_status_updated', status)
+    }
+    await Ws.toAdmins('order_status_updated', {
+      ...status,
+      company_id: payload.company_id,
+      driver_id: payload.driver_id,
+    })
+  }
+
+  async onDriverLocationUpdated(payload: DriverLocationUpdatePayload) {
+    await Ws.toCompany(payload.company_id, 'driver_location_updated', payload)
+    await Ws.toAdmins('driver_location_updated', payload)
+  }
+
+  async onEtaUpdated(payload: EtaUpdatedPayload) {
+    await Ws.toCompany(payload.company_id, 'eta_updated', payload)
+  }
+
+  async onRouteUpdated(payload: RouteUpdatedPayload) {
+    // Le livreur reçoit le tracé complet (manœuvres comprises) directement du service d'itinéraire
+    await Ws.toCompany(payload.company_id, 'route_updated', {
+      order_id: payload.order_id,
+      company_id: payload.company_id,
+      driver_id: payload.driver_id,
+      leg_sequence: payload.leg_sequence,
+      reason: payload.reason,
+      geometry: payload.geometry,
+      duration_seconds: payload.duration_seconds,
+      distance_meters: payload.distance_meters,
+      timestamp: payload.timestamp,
+    })
+  }
+
+  async onMissionOffered(payload: MissionOfferedPayload) {
+    const { driver_id: driverId, ...offer } = payload
+    await Ws.toDriver(driverId, 'mission_offered', offer)
+    await Ws.toAdmins('mission_offered', payload)
+  }
+}
@@ -0,0 +1,41 @@
+// app/listeners/tracking_fanout_listener.ts
+import logger from '@adonisjs/core/services/logger'
+import type { EventsList } from '@adonisjs/core/types'
+import trackingFanoutService, { type TrackingEventName } from '#services/tracking_fanout_service'
+
+/**
+ * Relaie les événements de suivi émis localement (API ou workers) vers Redis, pour les connexions SSE
+ * de toutes les instances.
+ */
+export default class TrackingFanoutListener {
+  async onStatusUpdated(payload: EventsList['order:status_updated']) {
+    await this.publish('order:status_updated', payload)
+  }
+
+  async onDriverLocationUpdated(payload: EventsList['order:driver_location_updated']) {
+    await this.publish('order:driver_location_updated', payload)
+  }
+
+  async onEtaUpdated(payload: EventsList['order:eta_updated']) {
+    await this.publish('order:eta_updated', payload)
+  }
+
+  async onRouteUpdated(payload: EventsList['order:route_updated']) {
+    await this.publish('order:route_updated', payload)
+  }
+
+  async onWaypointCompleted(payload: EventsList['order:waypoint_completed']) {
+    await this.publish('order:waypoint_completed', payload)
+  }
+
+  private async publish<E extends TrackingEventName>(event: E, payload: EventsList[E]) {
+    try {
+      await trackingFanoutService.publish(event, payload)
+    } catch (error) {
+      logger.error(
+        { err: error, orderId: payload.order_id, event },
+        'Erreur publication événement de suivi'
+      )
+    }
+  }
+}
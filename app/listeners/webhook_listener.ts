@@ -0,0 +1,54 @@
+// app/listeners/webhook_listener.ts
+import logger from '@adonisjs/core/services/logger'
+import type { OrderStatusUpdatePayload, WaypointCompletedPayload } from '../contracts/events.js'
+import webhookService from '#services/webhook_service'
+
+/**
+ * Transforme les événements internes de commande en livraisons webhook (envoyées par le Webhook Worker).
+ */
+export default class WebhookListener {
+  async onOrderStatusUpdated(payload: OrderStatusUpdatePayload) {
+    const event = webhookService.eventForStatus(payload.new_status)
+    if (!event) return
+
+    try {
+      await webhookService.enqueueOrderEvent(
+        payload.order_id,
+        event,
+        {
+          status: payload.new_status,
+          changed_at: payload.timestamp,
+          reason: payload.log_entry?.metadata?.reason ?? null,
+        },
+        payload.log_entry?.id ?? payload.timestamp,
+        payload.company_id
+      )
+    } catch (error) {
+      logger.error(
+        { err: error, orderId: payload.order_id, event },
+        'Erreur enregistrement webhook (statut commande)'
+      )
+    }
+  }
+
+  async onWaypointCompleted(payload: WaypointCompletedPayload) {
+    try {
+      await webhookService.enqueueOrderEvent(
+        payload.order_id,
+        'order.waypoint_completed',
+        {
+          waypoint_sequence: payload.waypoint_sequence,
+          waypoint_type: payload.waypoint_type,
+          completed_at: payload.timestamp,
+        },
+        payload.waypoint_sequence,
+        payload.company_id
+      )
+    } catch (error) {
+      logger.error(
+        { err: error, orderId: payload.order_id, sequence: payload.waypoint_sequence },
+        'Erreur enregistrement webhook (waypoint terminé)'
+      )
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import type { ApiKeyScope } from '#models/company_api_key'
+import apiKeyService from '#services/api_key_service'
+
+/**
+ * Contrôle des requêtes authentifiées par clé API (guard `api_key`) : scope requis par la route
+ * et rate limit propre à chaque clé. Sans effet pour les requêtes authentifiées par token utilisateur.
+ */
+export default class ApiKeyMiddleware {
+  async handle(ctx: HttpContext, next: NextFn, options: { scope: ApiKeyScope }) {
+    if (ctx.auth.authenticatedViaGuard !== 'api_key') {
+      return next()
+    }
+
+    const apiKey = ctx.auth.use('api_key').apiKey
+    if (!apiKey) {
+      return ctx.response.unauthorized({ message: 'Clé API invalide ou révoquée.' })
+    }
+
+    if (!apiKey.hasScope(options.scope)) {
+      return ctx.response.forbidden({
+        message: `Cette clé API n'a pas le scope requis (${options.scope}).`,
+      })
+    }
+
+    const rateLimit = await apiKeyService.consumeRateLimit(apiKey)
+    ctx.response.header('X-RateLimit-Limit', rateLimit.limit)
+    ctx.response.header('X-RateLimit-Remaining', rateLimit.remaining)
+    ctx.response.header('X-RateLimit-Reset', rateLimit.reset_seconds)
+    if (!rateLimit.allowed) {
+      ctx.response.header('Retry-After', rateLimit.reset_seconds)
+      return ctx.response.tooManyRequests({
+        message: 'Limite de requêtes atteinte pour cette clé API. Réessayez plus tard.',
+      })
+    }
+
+    return next()
+  }
+}
@@ -0,0 +1,19 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+
+/**
+ * Réserve la route aux administrateurs de la plateforme authentifiés par token utilisateur.
+ * À placer après le middleware `auth` ; les clés API d'entreprise n'y ont jamais accès.
+ */
+export default class PlatformAdminMiddleware {
+  async handle(ctx: HttpContext, next: NextFn) {
+    const user = ctx.auth.authenticatedViaGuard === 'api' ? ctx.auth.use('api').user : undefined
+    if (!user?.is_platform_admin) {
+      return ctx.response.forbidden({
+        message: 'Accès réservé aux administrateurs de la plateforme.',
+      })
+    }
+
+    return next()
+  }
+}
@@ -0,0 +1,82 @@
+// app/models/cod_collection.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import Driver from '#models/driver'
+import Order from '#models/order'
+import BaseModel from './base_model.js'
+
+export enum CodCollectionStatus {
+  COLLECTED = 'collected', // Montant confirmé par le livreur (éventuellement différent du montant attendu)
+  NOT_COLLECTED = 'not_collected', // Livraison échouée ou ignorée : rien encaissé
+}
+
+/**
+ * Paiement à la livraison d'un waypoint. Le montant encaissé est dû par le livreur (compte
+ * driver_cash) ; `remitted_at` est renseigné quand reversements et compensations le couvrent.
+ */
+export default class CodCollection extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare order_id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare driver_id: string
+
+  @column()
+  declare waypoint_sequence: number
+
+  @column()
+  declare recipient_name: string | null
+
+  @column()
+  declare expected_amount: number
+
+  @column()
+  declare collected_amount: number
+
+  @column()
+  declare currency: string
+
+  @column()
+  declare status: CodCollectionStatus
+
+  @column()
+  declare note: string | null
+
+  @column.dateTime()
+  declare collected_at: DateTime
+
+  @column.dateTime()
+  declare remitted_at: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Order)
+  declare order: BelongsTo<typeof Order>
+
+  @belongsTo(() => Company)
+  declare company: BelongsTo<typeof Company>
+
+  @belongsTo(() => Driver)
+  declare driver: BelongsTo<typeof Driver>
+
+  @beforeCreate()
+  public static assignCuid(collection: CodCollection) {
+    if (!collection.id) {
+      collection.id = cuid()
+    }
+  }
+}
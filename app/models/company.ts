@@ -9,6 +9,19 @@ import User from './user.js'
 import Driver from './driver.js'
 import { cuid } from '@adonisjs/core/helpers'
 import BaseModel from './base_model.js'
+import type { AssignmentWeights } from '#services/driver_scoring_service'
+import type { PaymentMethod } from './order_transaction.js'
+
+export enum CompanyPaymentMode {
+  PREPAID = 'prepaid', // Débit du solde prépayé
+  MOBILE_MONEY = 'mobile_money', // Collecte mobile money à chaque commande
+  POSTPAID = 'postpaid', // Facture mensuelle
+}
+
+export enum CompanyPaymentTiming {
+  ON_CREATION = 'on_creation',
+  ON_COMPLETION = 'on_completion', // Encaissement à la fin de la mission (prépayé, mobile money)
+}
 
 export default class Company extends BaseModel {
   @column({ isPrimary: true })
@@ -35,6 +48,29 @@ export default class Company extends BaseModel {
   @column()
   declare is_valid_company: boolean
 
+  // Poids personnalisés du scoring d'assignation (null = poids par défaut)
+  @column({
+    prepare: (value) => (value ? JSON.stringify(value) : null),
+  })
+  declare assignment_weights: Partial<AssignmentWeights> | null
+
+  // Paiement client : null = non activé (commandes non facturées)
+  @column()
+  declare payment_mode: CompanyPaymentMode | null
+
+  @column()
+  declare payment_timing: CompanyPaymentTiming
+
+  // Encours impayé autorisé ; null = une commande impayée n'est pas assignée
+  @column()
+  declare credit_limit: number | null
+
+  // Compte débité en mode mobile money
+  @column({
+    prepare: (value) => (value ? JSON.stringify(value) : null),
+  })
+  declare payment_mobile_money: { provider: PaymentMethod; number: string } | null
+
   @column.dateTime({ autoCreate: true })
   declare created_at: DateTime
 
@@ -0,0 +1,92 @@
+// app/models/company_api_key.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import User from '#models/user'
+import BaseModel from './base_model.js'
+
+export const API_KEY_SCOPES = [
+  'orders:read', // GET /orders, GET /orders/:id
+  'orders:write', // POST /orders, POST /orders/:id/cancel
+  'tracking:read', // GET /orders/:id/track
+] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+/**
+ * Clé API d'une entreprise, utilisée par le backend du marchand (guard `api_key`).
+ * Seul le hash SHA-256 est stocké : la clé en clair n'est renvoyée qu'à la création ou à la rotation.
+ */
+export default class CompanyApiKey extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare created_by_user_id: string | null
+
+  @column()
+  declare name: string
+
+  @column()
+  declare prefix: string
+
+  @column({ serializeAs: null })
+  declare token_hash: string
+
+  @column({
+    prepare: (value: ApiKeyScope[] | null) => JSON.stringify(value ?? []),
+  })
+  declare scopes: ApiKeyScope[]
+
+  @column()
+  declare rate_limit_per_minute: number | null
+
+  @column()
+  declare rotated_from_id: string | null
+
+  @column.dateTime()
+  declare last_used_at: DateTime | null
+
+  @column()
+  declare last_used_ip: string | null
+
+  @column.dateTime()
+  declare expires_at: DateTime | null
+
+  @column.dateTime()
+  declare revoked_at: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company, { foreignKey: 'company_id' })
+  declare company: BelongsTo<typeof Company>
+
+  @belongsTo(() => User, { foreignKey: 'created_by_user_id' })
+  declare created_by: BelongsTo<typeof User>
+
+  get isUsable(): boolean {
+    if (this.revoked_at) return false
+    return !this.expires_at || this.expires_at > DateTime.now()
+  }
+
+  hasScope(scope: ApiKeyScope): boolean {
+    return this.scopes.includes(scope)
+  }
+
+  @beforeCreate()
+  public static assignCuid(apiKey: CompanyApiKey) {
+    if (!apiKey.id) {
+      apiKey.id = cuid()
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// app/models/company_invoice.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import Order from '#models/order'
+import BaseModel from './base_model.js'
+
+export enum CompanyInvoiceStatus {
+  ISSUED = 'issued',
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+/**
+ * Facture mensuelle d'une entreprise en postpayé : commandes terminées du mois non encore payées.
+ */
+export default class CompanyInvoice extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare company_id: string
+
+  @column.date()
+  declare period_start: DateTime
+
+  @column.date()
+  declare period_end: DateTime // Exclu
+
+  @column()
+  declare amount: number
+
+  @column()
+  declare order_count: number
+
+  @column()
+  declare currency: string
+
+  @column()
+  declare status: CompanyInvoiceStatus
+
+  @column.dateTime()
+  declare issued_at: DateTime
+
+  @column.dateTime()
+  declare due_at: DateTime
+
+  @column.dateTime()
+  declare paid_at: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company)
+  declare company: BelongsTo<typeof Company>
+
+  @hasMany(() => Order, { foreignKey: 'invoice_id' })
+  declare orders: HasMany<typeof Order>
+
+  @beforeCreate()
+  public static assignCuid(invoice: CompanyInvoice) {
+    if (!invoice.id) {
+      invoice.id = cuid()
+    }
+  }
+}
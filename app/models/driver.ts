@@ -23,9 +23,10 @@ interface DeliveryStat {
 }
 
 
-interface MobileMoney {
-  number: PaymentMethod
-  provider: string
+// Compte mobile money de versement : opérateur (passerelle) et numéro de téléphone
+export interface MobileMoney {
+  provider: PaymentMethod
+  number: string
   status: 'active' | 'inactive'
 }
 
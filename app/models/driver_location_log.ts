@@ -7,6 +7,7 @@ import Driver from '#models/driver'
 import GeoService from '#services/geo_service' // Vous utilisez déjà ce service
 import type { GeoJsonPoint } from '#services/geo_service' // Type défini dans votre projet
 import BaseModel from './base_model.js'
+import db from '@adonisjs/lucid/services/db'
 
 export default class DriverLocationLog extends BaseModel {
   public static table = 'driver_location_logs'
@@ -25,9 +26,12 @@ export default class DriverLocationLog extends BaseModel {
   declare driver_id: string
 
   @column({
-    // Ces fonctions prepare/consume sont basées sur vos modèles existants
-    consume: GeoService.wktToGeoJsonPoint,
-    prepare: GeoService.pointToWkt,
+    consume: (value: string | null) => GeoService.ewkbHexToGeoJsonPoint(value),
+    prepare: (value: GeoJsonPoint | null) => {
+      const wkt = GeoService.geoJsonPointToWkt(value)
+      // SRID explicite : la colonne est en geometry(Point, 4326)
+      return wkt ? db.raw('ST_GeomFromText(?, 4326)', [wkt]) : null
+    },
   })
   declare location: GeoJsonPoint | null
 
@@ -54,4 +58,4 @@ export default class DriverLocationLog extends BaseModel {
 
   @belongsTo(() => Driver)
   declare driver: BelongsTo<typeof Driver>
-}
\ No newline at end of file
+}
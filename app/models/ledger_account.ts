@@ -0,0 +1,63 @@
+// app/models/ledger_account.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Driver from '#models/driver'
+import LedgerEntry from '#models/ledger_entry'
+import BaseModel from './base_model.js'
+
+export enum LedgerAccountType {
+  DRIVER_WALLET = 'driver_wallet', // Solde dû au livreur
+  DRIVER_CASH = 'driver_cash', // Espèces encaissées à la livraison, dues par le livreur (solde négatif)
+  COMPANY_BALANCE = 'company_balance', // Solde prépayé d'une entreprise
+  PLATFORM = 'platform', // Contreparties : charges, produits, fonds en transit
+}
+
+/**
+ * Compte du grand livre. Le solde est la somme signée des écritures du compte ; il est tenu à jour
+ * dans la même transaction que chaque écriture (ligne verrouillée).
+ */
+export default class LedgerAccount extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare code: string
+
+  @column()
+  declare type: LedgerAccountType
+
+  @column()
+  declare driver_id: string | null
+
+  @column()
+  declare company_id: string | null
+
+  @column()
+  declare currency: string
+
+  // bigint renvoyé en chaîne par pg
+  @column({ consume: (value) => Number(value) })
+  declare balance: number
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Driver, { foreignKey: 'driver_id' })
+  declare driver: BelongsTo<typeof Driver>
+
+  @hasMany(() => LedgerEntry, { foreignKey: 'ledger_account_id' })
+  declare entries: HasMany<typeof LedgerEntry>
+
+  @beforeCreate()
+  public static assignCuid(account: LedgerAccount) {
+    if (!account.id) {
+      account.id = cuid()
+    }
+  }
+}
@@ -0,0 +1,45 @@
+// app/models/ledger_entry.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import LedgerAccount from '#models/ledger_account'
+import LedgerTransaction from '#models/ledger_transaction'
+import BaseModel from './base_model.js'
+
+/**
+ * Écriture d'un compte : montant signé (positif = crédit) et solde du compte après l'écriture.
+ */
+export default class LedgerEntry extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare ledger_transaction_id: string
+
+  @column()
+  declare ledger_account_id: string
+
+  @column({ consume: (value) => Number(value) })
+  declare amount: number
+
+  @column({ consume: (value) => Number(value) })
+  declare balance_after: number
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => LedgerAccount, { foreignKey: 'ledger_account_id' })
+  declare account: BelongsTo<typeof LedgerAccount>
+
+  @belongsTo(() => LedgerTransaction, { foreignKey: 'ledger_transaction_id' })
+  declare transaction: BelongsTo<typeof LedgerTransaction>
+
+  @beforeCreate()
+  public static assignCuid(entry: LedgerEntry) {
+    if (!entry.id) {
+      entry.id = cuid()
+    }
+  }
+}
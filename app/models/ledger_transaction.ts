@@ -0,0 +1,79 @@
+// app/models/ledger_transaction.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Driver from '#models/driver'
+import OrderTransaction from '#models/order_transaction'
+import LedgerEntry from '#models/ledger_entry'
+import BaseModel from './base_model.js'
+
+export enum LedgerTransactionType {
+  DRIVER_EARNING = 'driver_earning', // Rémunération d'une mission terminée
+  DRIVER_BONUS = 'driver_bonus',
+  DRIVER_PENALTY = 'driver_penalty',
+  WITHDRAWAL_REQUESTED = 'withdrawal_requested', // Portefeuille -> fonds en transit
+  WITHDRAWAL_SETTLED = 'withdrawal_settled', // Fonds en transit -> versés par la passerelle
+  WITHDRAWAL_REVERSED = 'withdrawal_reversed', // Fonds en transit -> portefeuille (échec du versement)
+  CLIENT_TOPUP = 'client_topup', // Rechargement du solde prépayé d'une entreprise
+  CLIENT_CHARGE = 'client_charge', // Commande débitée du solde prépayé
+  CLIENT_REFUND = 'client_refund', // Commande annulée recréditée sur le solde prépayé
+  COD_COLLECTED = 'cod_collected', // Espèces encaissées à la livraison, dues par le livreur
+  COD_REMITTED = 'cod_remitted', // Espèces reversées par le livreur (mobile money ou dépôt)
+  COD_SETTLED = 'cod_settled', // Espèces dues compensées sur le portefeuille du livreur
+}
+
+/**
+ * Opération du grand livre : ses écritures s'équilibrent (somme nulle). `idempotency_key` garantit
+ * qu'un même fait (mission, retrait, ajustement) n'est comptabilisé qu'une fois.
+ */
+export default class LedgerTransaction extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare type: LedgerTransactionType
+
+  @column({ serializeAs: null })
+  declare idempotency_key: string
+
+  @column()
+  declare driver_id: string | null
+
+  @column()
+  declare company_id: string | null
+
+  @column()
+  declare order_id: string | null
+
+  @column()
+  declare order_transaction_id: string | null
+
+  @column()
+  declare description: string | null
+
+  @column({
+    prepare: (value: Record<string, unknown> | null) => JSON.stringify(value ?? {}),
+  })
+  declare metadata: Record<string, unknown>
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Driver, { foreignKey: 'driver_id' })
+  declare driver: BelongsTo<typeof Driver>
+
+  @belongsTo(() => OrderTransaction, { foreignKey: 'order_transaction_id' })
+  declare order_transaction: BelongsTo<typeof OrderTransaction>
+
+  @hasMany(() => LedgerEntry, { foreignKey: 'ledger_transaction_id' })
+  declare entries: HasMany<typeof LedgerEntry>
+
+  @beforeCreate()
+  public static assignCuid(transaction: LedgerTransaction) {
+    if (!transaction.id) {
+      transaction.id = cuid()
+    }
+  }
+}
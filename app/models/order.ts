@@ -3,12 +3,16 @@ import { DateTime } from 'luxon'
 import { column, belongsTo, hasMany } from '@adonisjs/lucid/orm' // BaseModel si tu l'utilises
 import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
 import Driver from '#models/driver'
-import Company from '#models/company'
+import Company, { type CompanyPaymentMode } from '#models/company'
 import Address from '#models/address'
 import Package from '#models/package'
 import OrderStatusLog from '#models/order_status_log'
 import OrderTransaction from '#models/order_transaction'
 import OrderRouteLeg from '#models/order_route_leg' // NOUVEAU : Importer le nouveau modèle
+import OrderBatch from '#models/order_batch'
+import PricingPlanVersion from '#models/pricing_plan_version'
+import RecurringOrderTemplate from '#models/recurring_order_template'
+import type { FeeBreakdown } from '#services/pricing_helper'
 import BaseModel from './base_model.js'
 // Tes enums existants (OrderStatus, CancellationReasonCode, etc.) restent ici
 export enum OrderStatus {
@@ -33,6 +37,17 @@ export enum CancellationReasonCode {
   OTHER = 'other',
 }
 
+export enum OrderPaymentStatus {
+  UNPAID = 'unpaid', // À encaisser (solde insuffisant, collecte échouée)
+  PENDING = 'pending', // Collecte mobile money en attente de validation
+  PAID = 'paid',
+  DEFERRED = 'deferred', // Encaissée à la fin de la mission ou facturée en fin de mois
+  INVOICED = 'invoiced', // Sur une facture mensuelle non réglée
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded', // Frais d'annulation retenus
+  WAIVED = 'waived', // Rien à encaisser
+}
+
 export enum FailureReasonCode {
   RECIPIENT_ABSENT = 'recipient_absent',
   ADDRESS_INCORRECT = 'address_incorrect',
@@ -77,6 +92,27 @@ export interface WaypointSummaryItem {
   end_at: DateTime | null; //Fin de la 
   is_mandatory?: boolean; // True par défaut
   message_issue?: string; // Ou un enum FailureReasonCode spécifique au waypoint
+  order_id?: string; // Tournée groupée : commande à laquelle appartient le waypoint
+  order_sequence?: number; // Tournée groupée : séquence du waypoint dans la commande d'origine
+  time_window?: WaypointTimeWindow; // Créneau de passage demandé par le client
+  arrival_source?: WaypointArrivalSource; // Origine du passage à ARRIVED
+  cod_amount?: number; // Paiement à la livraison : montant à encaisser auprès du destinataire
+  cod_collected_amount?: number; // Montant confirmé par le livreur à la complétion
+}
+
+// Arrivée signalée par le livreur ou détectée par géofence
+export type WaypointArrivalSource = 'manual' | 'geofence';
+
+// Créneau horaire d'un waypoint (dates ISO 8601)
+export interface WaypointTimeWindow {
+  start: string;
+  end: string;
+}
+
+// Offre diffusée simultanément à plusieurs livreurs (mode broadcast, le premier qui accepte gagne)
+export interface BroadcastOffer {
+  driver_ids: string[]; // Livreurs ayant reçu l'offre
+  refused_driver_ids: string[]; // Livreurs ayant déjà refusé
 }
 
 
@@ -124,6 +160,21 @@ export default class Order extends BaseModel { // Ou import { BaseModel } from '
   @column()
   declare client_fee: number
 
+  @column()
+  declare pricing_plan_version_id: string | null // Version de plan tarifaire appliquée (null = tarif par défaut)
+
+  // Détail ligne par ligne de client_fee, figé à la création de la commande
+  @column({
+    prepare: (value: FeeBreakdown | null) => value ? JSON.stringify(value) : null,
+  })
+  declare fee_breakdown: FeeBreakdown | null
+
+  @column()
+  declare surge_multiplier: number // Majoration offre/demande appliquée à la création (1 = aucune)
+
+  @column()
+  declare recurring_order_template_id: string | null // Modèle récurrent ayant généré la commande
+
   // @column({ prepare: (value) => JSON.stringify(value ?? []) }) // Assurer que c'est un tableau
   // declare proof_of_pickup_media: string[]
 
@@ -139,9 +190,46 @@ export default class Order extends BaseModel { // Ou import { BaseModel } from '
   @column.dateTime()
   declare delivery_date: DateTime // Date de livraison
 
+  // --- Livraison programmée (null pour une commande immédiate) ---
+  @column.dateTime()
+  declare scheduled_pickup_at: DateTime | null // Heure visée au premier arrêt
+
+  @column.dateTime()
+  declare pickup_window_end_at: DateTime | null // Fin du créneau du premier arrêt
+
+  @column.dateTime()
+  declare scheduled_release_at: DateTime | null // Remise en assignation prévue (délai d'approche déduit)
+
+  @column.dateTime()
+  declare released_for_assignment_at: DateTime | null // Remise effective en assignation
+
   @column()
   declare cancellation_reason_code: CancellationReasonCode | null
 
+  @column()
+  declare payment_status: OrderPaymentStatus
+
+  @column()
+  declare payment_mode: CompanyPaymentMode | null // Mode de l'entreprise au moment de l'encaissement
+
+  @column()
+  declare amount_due: number | null // Montant facturé au client (client_fee, puis frais d'annulation)
+
+  @column()
+  declare amount_paid: number
+
+  @column()
+  declare amount_refunded: number
+
+  @column()
+  declare cancellation_fee: number | null // Frais retenus sur l'annulation, fixés une seule fois
+
+  @column()
+  declare invoice_id: string | null
+
+  @column.dateTime()
+  declare paid_at: DateTime | null
+
   @column()
   declare failure_reason_code: FailureReasonCode | null
 
@@ -151,6 +239,12 @@ export default class Order extends BaseModel { // Ou import { BaseModel } from '
   @column.dateTime()
   declare offer_expires_at: DateTime | null
 
+  // Renseigné uniquement en mode broadcast (offered_driver_id reste null dans ce cas)
+  @column({
+    prepare: (value: BroadcastOffer | null) => value ? JSON.stringify(value) : null,
+  })
+  declare broadcast_offer: BroadcastOffer | null
+
   @column.dateTime({ autoCreate: true })
   declare created_at: DateTime
 
@@ -172,9 +266,18 @@ export default class Order extends BaseModel { // Ou import { BaseModel } from '
   @belongsTo(() => Driver, { foreignKey: 'driver_id' })
   declare driver: BelongsTo<typeof Driver>
 
+  @belongsTo(() => OrderBatch, { foreignKey: 'batch_id' })
+  declare batch: BelongsTo<typeof OrderBatch>
+
   @belongsTo(() => Company, { foreignKey: 'company_id' })
   declare company: BelongsTo<typeof Company>
 
+  @belongsTo(() => PricingPlanVersion, { foreignKey: 'pricing_plan_version_id' })
+  declare pricing_plan_version: BelongsTo<typeof PricingPlanVersion>
+
+  @belongsTo(() => RecurringOrderTemplate, { foreignKey: 'recurring_order_template_id' })
+  declare recurring_order_template: BelongsTo<typeof RecurringOrderTemplate>
+
   @belongsTo(() => Address, { foreignKey: 'pickup_address_id' }) // Adresse de départ globale
   declare pickup_address: BelongsTo<typeof Address>
 
@@ -0,0 +1,76 @@
+// app/models/order_batch.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Order, { CalculationEngine, type WaypointSummaryItem } from '#models/order'
+import OrderRouteLeg from '#models/order_route_leg'
+import Company from '#models/company'
+import BaseModel from './base_model.js'
+
+export enum OrderBatchStatus {
+  PENDING = 'pending', // En attente d'acceptation par un livreur
+  ACCEPTED = 'accepted', // Tournée acceptée, en cours d'exécution
+  COMPLETED = 'completed', // Toutes les commandes sont dans un état final
+  CANCELLED = 'cancelled', // Tournée dissoute (les commandes repartent en assignation individuelle)
+}
+
+/**
+ * Tournée groupée : plusieurs commandes PENDING proches (espace et temps)
+ * proposées ensemble à un seul livreur comme une mission unique.
+ * Chaque commande garde ses propres logs de statut et sa facturation.
+ */
+export default class OrderBatch extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare status: OrderBatchStatus
+
+  // Résumé fusionné : chaque item porte `order_id` et `order_sequence` (séquence dans la commande d'origine)
+  @column({
+    prepare: (value: WaypointSummaryItem[] | null) => (value ? JSON.stringify(value) : null),
+  })
+  declare waypoints_summary: WaypointSummaryItem[] | null
+
+  @column()
+  declare total_distance_meters: number | null
+
+  @column()
+  declare total_duration_seconds: number | null
+
+  @column()
+  declare calculation_engine: CalculationEngine | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company, { foreignKey: 'company_id' })
+  declare company: BelongsTo<typeof Company>
+
+  @hasMany(() => Order, {
+    foreignKey: 'batch_id',
+    onQuery: (query) => query.orderBy('order_number_in_batch', 'asc'),
+  })
+  declare orders: HasMany<typeof Order>
+
+  @hasMany(() => OrderRouteLeg, {
+    foreignKey: 'batch_id',
+    onQuery: (query) => query.orderBy('leg_sequence', 'asc'),
+  })
+  declare route_legs: HasMany<typeof OrderRouteLeg>
+
+  @beforeCreate()
+  public static assignCuid(batch: OrderBatch) {
+    if (!batch.id) {
+      batch.id = cuid()
+    }
+  }
+}
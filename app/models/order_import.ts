@@ -0,0 +1,108 @@
+// app/models/order_import.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import User from '#models/user'
+import BaseModel from './base_model.js'
+
+export enum OrderImportStatus {
+  PENDING = 'pending', // En attente du worker
+  VALIDATING = 'validating', // Lecture, regroupement, validation et géocodage des lignes
+  IMPORTING = 'importing', // Création des commandes valides par lots
+  COMPLETED = 'completed', // Terminé (des lignes peuvent être en erreur, voir row_errors)
+  FAILED = 'failed', // Erreur bloquante, aucune commande créée après l'erreur (voir error_message)
+}
+
+export type OrderImportFormat = 'csv' | 'xlsx'
+
+export interface OrderImportRowError {
+  row: number // Numéro de ligne dans le fichier (en-tête = ligne 1)
+  order_ref: string | null
+  field: string | null // Colonne concernée, null pour une erreur portant sur toute la commande
+  message: string
+}
+
+export interface OrderImportCreatedOrder {
+  order_ref: string
+  order_id: string
+  rows: number[]
+}
+
+/**
+ * Import en masse de commandes depuis un fichier CSV/XLSX, traité par l'Order Import Worker.
+ */
+export default class OrderImport extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare created_by_user_id: string | null
+
+  @column()
+  declare file_name: string
+
+  @column()
+  declare file_format: OrderImportFormat
+
+  @column({ serializeAs: null })
+  declare file_path: string | null
+
+  @column()
+  declare status: OrderImportStatus
+
+  @column()
+  declare total_rows: number
+
+  @column()
+  declare total_orders: number
+
+  @column()
+  declare created_orders_count: number
+
+  @column()
+  declare failed_orders_count: number
+
+  @column({
+    prepare: (value: OrderImportCreatedOrder[] | null) => JSON.stringify(value ?? []),
+  })
+  declare created_orders: OrderImportCreatedOrder[]
+
+  @column({
+    prepare: (value: OrderImportRowError[] | null) => JSON.stringify(value ?? []),
+  })
+  declare row_errors: OrderImportRowError[]
+
+  @column()
+  declare error_message: string | null
+
+  @column.dateTime()
+  declare started_at: DateTime | null
+
+  @column.dateTime()
+  declare finished_at: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company, { foreignKey: 'company_id' })
+  declare company: BelongsTo<typeof Company>
+
+  @belongsTo(() => User, { foreignKey: 'created_by_user_id' })
+  declare created_by: BelongsTo<typeof User>
+
+  @beforeCreate()
+  public static assignCuid(orderImport: OrderImport) {
+    if (!orderImport.id) {
+      orderImport.id = cuid()
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { DateTime } from 'luxon'
 import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm' // BaseModel si tu l'utilises
 import type { BelongsTo } from '@adonisjs/lucid/types/relations'
 import Order from '#models/order'
+import OrderBatch from '#models/order_batch'
 import Address from '#models/address' // Si tu stockes des ID d'adresses pour start/end waypoints
 import db from '@adonisjs/lucid/services/db' // IMPORTANT pour db.raw
 import GeoService from '#services/geo_service' // Assure-toi que le chemin est correct
@@ -16,7 +17,10 @@ export default class OrderRouteLeg extends BaseModel { // Ou import { BaseModel
   declare id: string
 
   @column()
-  declare order_id: string
+  declare order_id: string | null // null pour les legs d'une tournée groupée
+
+  @column()
+  declare batch_id: string | null // Renseigné uniquement pour les legs d'une tournée groupée
 
   @column()
   declare leg_sequence: number // Ordre du leg dans la mission (0, 1, 2...)
@@ -61,6 +65,9 @@ export default class OrderRouteLeg extends BaseModel { // Ou import { BaseModel
   @column()
   declare distance_meters: number | null
 
+  @column()
+  declare planned_distance_meters: number | null // Distance à la création, inchangée par les recalculs de leg
+
   @column({
     prepare: (value: LegManeuver[] | null) => value ? JSON.stringify(value) : null,
     // consume: (value: string | null): LegManeuver[] | null => value ? JSON.parse(value) : null,
@@ -85,6 +92,9 @@ export default class OrderRouteLeg extends BaseModel { // Ou import { BaseModel
   @belongsTo(() => Order, { foreignKey: 'order_id' })
   declare order: BelongsTo<typeof Order>
 
+  @belongsTo(() => OrderBatch, { foreignKey: 'batch_id' })
+  declare batch: BelongsTo<typeof OrderBatch>
+
   @belongsTo(() => Address, { foreignKey: 'start_address_id' })
   declare start_address: BelongsTo<typeof Address>
 
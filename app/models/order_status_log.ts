@@ -1,19 +1,27 @@
 // app/Models/OrderStatusLog.ts
 import { DateTime } from 'luxon'
-import { column, belongsTo } from '@adonisjs/lucid/orm'
-import Order, { OrderStatus } from './order.js'
+import { column, belongsTo, afterCreate } from '@adonisjs/lucid/orm'
+import Order, { OrderStatus, type WaypointArrivalSource } from './order.js'
 import type { BelongsTo } from '@adonisjs/lucid/types/relations'
 import GeoService, { GeoJsonPoint } from '#services/geo_service'
 import User from './user.js'
 import BaseModel from './base_model.js'
 import db from '@adonisjs/lucid/services/db'
+import emitter from '@adonisjs/core/services/emitter'
+import logger from '@adonisjs/core/services/logger'
+import type { DriverScoreBreakdown } from '#services/driver_scoring_service'
 export interface StatusMetadata {
   reason?: string
   details?: string
   waypoint_sequence: number
   waypoint_status?: string
   waypoint_type?: string
-
+  assignment_score?: DriverScoreBreakdown // Détail du scoring quand le log correspond à une offre
+  broadcast_scores?: DriverScoreBreakdown[] // Scores de tous les livreurs sollicités en mode broadcast
+  batch_id?: string // Tournée groupée à laquelle appartient la commande au moment du log
+  arrival_source?: WaypointArrivalSource // Arrivée au waypoint signalée à la main ou détectée par géofence
+  geofence?: { radius_meters: number; distance_meters: number; dwell_seconds: number } // Preuve de la détection
+  arrived_at?: string | null // Heure d'arrivée détectée (ISO), antérieure à changed_at pour une arrivée par géofence
 }
 export default class OrderStatusLog extends BaseModel {
   @column({ isPrimary: true })
@@ -57,4 +65,33 @@ export default class OrderStatusLog extends BaseModel {
   @belongsTo(() => User, { foreignKey: 'changed_by_user_id' })
   declare changed_by_user: BelongsTo<typeof User>
 
+  // Chaque nouveau statut est diffusé via l'emitter (SSE, webhooks), après commit si le log est créé en transaction
+  @afterCreate()
+  public static emitStatusUpdated(log: OrderStatusLog) {
+    const emit = async () => {
+      try {
+        const order = await Order.query()
+          .select(['id', 'company_id', 'driver_id'])
+          .where('id', log.order_id)
+          .first()
+        if (!order) return
+        await emitter.emit('order:status_updated', {
+          order_id: log.order_id,
+          company_id: order.company_id,
+          driver_id: order.driver_id,
+          new_status: log.status,
+          timestamp: (log.changed_at ?? DateTime.now()).toISO()!,
+          log_entry: log,
+        })
+      } catch (error) {
+        logger.error({ err: error, orderId: log.order_id }, 'Failed to emit order:status_updated event')
+      }
+    }
+
+    if (log.$trx) {
+      log.$trx.after('commit', () => void emit())
+    } else {
+      void emit()
+    }
+  }
 }
@@ -11,7 +11,7 @@ export default class OrderTransaction extends BaseModel {
   declare id: string
 
   @column()
-  declare driver_id: string
+  declare driver_id: string | null // null pour les paiements et remboursements clients
 
   @column()
   declare order_id: string | null
@@ -20,17 +20,17 @@ export default class OrderTransaction extends BaseModel {
   declare currency: string
 
   @column()
-  declare company_id: string
+  declare company_id: string | null
 
   @column()
   declare type: OrderTransactionType
 
   @column()
-  declare transaction_reference: string
+  declare transaction_reference: string | null
 
   //visa , mastercard, paypal, etc
   @column()
-  declare payment_method: PaymentMethod
+  declare payment_method: PaymentMethod | null
 
   @column()
   declare amount: number
@@ -41,13 +41,13 @@ export default class OrderTransaction extends BaseModel {
   @column({
     prepare: (value) => JSON.stringify(value),
   })
-  declare history_status: { status: OrderTransactionStatus, timestamp: string }[]
+  declare history_status: { status: OrderTransactionStatus, timestamp: string, source?: string }[]
 
   @column()
   declare metadata: Record<string, any>
 
   @column.dateTime()
-  declare payment_date: DateTime
+  declare payment_date: DateTime | null
 
   @column.dateTime({ autoCreate: true })
   declare created_at: DateTime
@@ -92,5 +92,6 @@ export enum OrderTransactionType {
   DRIVER_WITHDRAWAL = 'driver_withdrawal',
   DRIVER_BONUS = 'driver_bonus',
   CLIENT_REIMBURSEMENT = 'client_reimbursement',
-  CLIENT_PAYMENT = 'client_payment'
+  CLIENT_PAYMENT = 'client_payment',
+  DRIVER_CASH_REMITTANCE = 'driver_cash_remittance' // Reversement des espèces encaissées à la livraison
 }
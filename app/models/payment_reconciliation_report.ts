@@ -0,0 +1,68 @@
+// app/models/payment_reconciliation_report.ts
+import { DateTime } from 'luxon'
+import { column, beforeCreate } from '@adonisjs/lucid/orm'
+import { cuid } from '@adonisjs/core/helpers'
+import BaseModel from './base_model.js'
+
+export type ReconciliationMismatchType =
+  | 'status_mismatch' // Statut différent chez la passerelle
+  | 'amount_mismatch' // Montant différent chez la passerelle
+  | 'missing_at_provider' // Référence inconnue de la passerelle
+  | 'unknown_at_platform' // Transaction de la passerelle sans correspondance chez nous
+  | 'missing_reference' // Versement sans référence passerelle (appel jamais abouti)
+  | 'ledger_mismatch' // Écritures du grand livre incohérentes avec le statut
+
+export interface ReconciliationMismatch {
+  type: ReconciliationMismatchType
+  provider: string | null
+  order_transaction_id: string | null
+  transaction_reference: string | null
+  expected: unknown // Notre valeur
+  actual: unknown // Valeur constatée (passerelle ou grand livre)
+  detail?: string
+}
+
+export interface ReconciliationProviderSummary {
+  transactions: number
+  amount: number
+  verified: number // Vérifiées auprès de la passerelle
+  unverifiable: number // Passerelle sans relevé ni vérification de statut
+  mismatches: number
+}
+
+/**
+ * Rapport de rapprochement quotidien des transactions de paiement.
+ */
+export default class PaymentReconciliationReport extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column.date()
+  declare report_date: DateTime
+
+  @column()
+  declare transactions_checked: number
+
+  @column()
+  declare mismatch_count: number
+
+  @column({
+    prepare: (value: Record<string, ReconciliationProviderSummary>) => JSON.stringify(value),
+  })
+  declare providers: Record<string, ReconciliationProviderSummary>
+
+  @column({
+    prepare: (value: ReconciliationMismatch[]) => JSON.stringify(value),
+  })
+  declare mismatches: ReconciliationMismatch[]
+
+  @column.dateTime({ autoCreate: true })
+  declare generated_at: DateTime
+
+  @beforeCreate()
+  public static assignCuid(report: PaymentReconciliationReport) {
+    if (!report.id) {
+      report.id = cuid()
+    }
+  }
+}
@@ -0,0 +1,66 @@
+// app/models/payment_webhook_event.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import OrderTransaction, { type PaymentMethod } from '#models/order_transaction'
+import BaseModel from './base_model.js'
+
+export enum PaymentWebhookEventStatus {
+  RECEIVED = 'received', // Enregistré, en cours de traitement
+  PROCESSED = 'processed', // Statut de la transaction mis à jour
+  IGNORED = 'ignored', // Transaction inconnue ou déjà dans un statut final
+  FAILED = 'failed', // Erreur de traitement (la passerelle renverra l'événement)
+}
+
+/**
+ * Webhook reçu d'une passerelle de paiement. L'unicité (provider, event_id) garantit qu'un
+ * événement renvoyé par la passerelle n'est traité qu'une fois.
+ */
+export default class PaymentWebhookEvent extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare provider: PaymentMethod
+
+  @column()
+  declare event_id: string
+
+  @column()
+  declare order_transaction_id: string | null
+
+  @column()
+  declare gateway_transaction_id: string | null
+
+  @column()
+  declare gateway_status: string | null
+
+  @column({
+    prepare: (value: Record<string, unknown>) => JSON.stringify(value),
+  })
+  declare payload: Record<string, unknown>
+
+  @column()
+  declare status: PaymentWebhookEventStatus
+
+  @column()
+  declare error_message: string | null
+
+  @column.dateTime({ autoCreate: true })
+  declare received_at: DateTime
+
+  @column.dateTime()
+  declare processed_at: DateTime | null
+
+  // --- RELATIONS ---
+  @belongsTo(() => OrderTransaction, { foreignKey: 'order_transaction_id' })
+  declare order_transaction: BelongsTo<typeof OrderTransaction>
+
+  @beforeCreate()
+  public static assignCuid(event: PaymentWebhookEvent) {
+    if (!event.id) {
+      event.id = cuid()
+    }
+  }
+}
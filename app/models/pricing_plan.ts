@@ -0,0 +1,60 @@
+// app/models/pricing_plan.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import Subscription from '#models/subscription'
+import PricingPlanVersion from '#models/pricing_plan_version'
+import BaseModel from './base_model.js'
+
+/**
+ * Plan tarifaire : regroupe des versions de règles datées.
+ * Portée : une entreprise (company_id), un abonnement (subscription_id),
+ * ou aucun des deux pour le plan par défaut de la plateforme.
+ */
+export default class PricingPlan extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare name: string
+
+  @column()
+  declare description: string | null
+
+  @column()
+  declare company_id: string | null
+
+  @column()
+  declare subscription_id: string | null
+
+  @column()
+  declare is_active: boolean
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company, { foreignKey: 'company_id' })
+  declare company: BelongsTo<typeof Company>
+
+  @belongsTo(() => Subscription, { foreignKey: 'subscription_id' })
+  declare subscription: BelongsTo<typeof Subscription>
+
+  @hasMany(() => PricingPlanVersion, {
+    foreignKey: 'pricing_plan_id',
+    onQuery: (query) => query.orderBy('version', 'desc'),
+  })
+  declare versions: HasMany<typeof PricingPlanVersion>
+
+  @beforeCreate()
+  public static assignCuid(plan: PricingPlan) {
+    if (!plan.id) {
+      plan.id = cuid()
+    }
+  }
+}
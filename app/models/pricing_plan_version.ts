@@ -0,0 +1,51 @@
+// app/models/pricing_plan_version.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import PricingPlan from '#models/pricing_plan'
+import BaseModel from './base_model.js'
+import type { PricingRules } from '#services/pricing_helper'
+
+/**
+ * Version figée des règles d'un plan tarifaire, applicable sur [effective_from, effective_to).
+ * Une version n'est jamais modifiée après création : les commandes la référencent.
+ */
+export default class PricingPlanVersion extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare pricing_plan_id: string
+
+  @column()
+  declare version: number
+
+  @column({
+    prepare: (value: PricingRules) => JSON.stringify(value),
+  })
+  declare rules: PricingRules
+
+  @column.dateTime()
+  declare effective_from: DateTime
+
+  @column.dateTime()
+  declare effective_to: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => PricingPlan, { foreignKey: 'pricing_plan_id' })
+  declare plan: BelongsTo<typeof PricingPlan>
+
+  @beforeCreate()
+  public static assignCuid(version: PricingPlanVersion) {
+    if (!version.id) {
+      version.id = cuid()
+    }
+  }
+}
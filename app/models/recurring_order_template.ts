@@ -0,0 +1,96 @@
+// app/models/recurring_order_template.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import User from '#models/user'
+import Order from '#models/order'
+import type { RecurrenceRule, RecurringOrderPayload } from '#services/recurring_order_service'
+import BaseModel from './base_model.js'
+
+/**
+ * Modèle de commande récurrente : le Recurring Orders Worker en génère une commande
+ * à chaque occurrence de la règle de récurrence, via le pipeline de création habituel.
+ */
+export default class RecurringOrderTemplate extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare created_by_user_id: string | null
+
+  @column()
+  declare name: string
+
+  @column({
+    prepare: (value: RecurringOrderPayload) => JSON.stringify(value),
+  })
+  declare order_payload: RecurringOrderPayload
+
+  @column({
+    prepare: (value: RecurrenceRule) => JSON.stringify(value),
+  })
+  declare recurrence: RecurrenceRule
+
+  @column()
+  declare timezone: string // Fuseau IANA dans lequel la récurrence est interprétée
+
+  @column.date()
+  declare starts_on: DateTime
+
+  @column.date()
+  declare ends_on: DateTime | null
+
+  @column({
+    prepare: (value: string[] | null) => JSON.stringify(value ?? []),
+  })
+  declare skipped_dates: string[] // Dates locales YYYY-MM-DD sans génération
+
+  @column()
+  declare is_paused: boolean
+
+  @column()
+  declare is_active: boolean
+
+  @column.dateTime()
+  declare next_occurrence_at: DateTime | null // Null : récurrence terminée
+
+  @column.dateTime()
+  declare last_occurrence_at: DateTime | null // Dernière occurrence réservée par le worker
+
+  @column.dateTime()
+  declare last_generated_at: DateTime | null
+
+  @column()
+  declare last_error: string | null
+
+  @column.dateTime()
+  declare last_error_at: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company, { foreignKey: 'company_id' })
+  declare company: BelongsTo<typeof Company>
+
+  @belongsTo(() => User, { foreignKey: 'created_by_user_id' })
+  declare created_by: BelongsTo<typeof User>
+
+  @hasMany(() => Order, { foreignKey: 'recurring_order_template_id' })
+  declare orders: HasMany<typeof Order>
+
+  @beforeCreate()
+  public static assignCuid(template: RecurringOrderTemplate) {
+    if (!template.id) {
+      template.id = cuid()
+    }
+  }
+}
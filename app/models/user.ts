@@ -54,6 +54,10 @@ export default class User extends compose(BaseModel, AuthFinder) {
   @column({ serializeAs: null })
   declare password: string
 
+  // Administrateur de la plateforme, accordé uniquement via la commande users:platform-admin
+  @column()
+  declare is_platform_admin: boolean
+
   @column.dateTime({ autoCreate: true })
   declare created_at: DateTime
 
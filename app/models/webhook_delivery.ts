@@ -0,0 +1,109 @@
+// app/models/webhook_delivery.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import WebhookEndpoint, { type WebhookEvent } from '#models/webhook_endpoint'
+import BaseModel from './base_model.js'
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending', // En attente d'envoi ou de nouvelle tentative (next_attempt_at)
+  SUCCEEDED = 'succeeded', // Réponse 2xx reçue
+  FAILED = 'failed', // Tentatives épuisées
+}
+
+// Corps JSON envoyé à l'endpoint
+export interface WebhookPayload {
+  id: string // Identifiant de la livraison (identique à chaque tentative)
+  event: WebhookEvent
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookAttempt {
+  attempt: number
+  at: string
+  response_status: number | null
+  duration_ms: number
+  error: string | null
+}
+
+/**
+ * Journal des livraisons webhook : une ligne par événement et par endpoint, mise à jour à chaque tentative.
+ */
+export default class WebhookDelivery extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare webhook_endpoint_id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare event: WebhookEvent
+
+  @column()
+  declare order_id: string | null
+
+  @column({ serializeAs: null })
+  declare idempotency_key: string
+
+  @column({
+    prepare: (value: WebhookPayload) => JSON.stringify(value),
+  })
+  declare payload: WebhookPayload
+
+  @column()
+  declare status: WebhookDeliveryStatus
+
+  @column()
+  declare attempts: number
+
+  @column.dateTime()
+  declare next_attempt_at: DateTime | null
+
+  @column.dateTime()
+  declare last_attempt_at: DateTime | null
+
+  @column.dateTime()
+  declare delivered_at: DateTime | null
+
+  @column()
+  declare response_status: number | null
+
+  @column()
+  declare response_body: string | null
+
+  @column()
+  declare error_message: string | null
+
+  @column()
+  declare duration_ms: number | null
+
+  @column({
+    prepare: (value: WebhookAttempt[] | null) => JSON.stringify(value ?? []),
+  })
+  declare attempt_history: WebhookAttempt[]
+
+  @column()
+  declare replay_of_id: string | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => WebhookEndpoint, { foreignKey: 'webhook_endpoint_id' })
+  declare endpoint: BelongsTo<typeof WebhookEndpoint>
+
+  @beforeCreate()
+  public static assignCuid(delivery: WebhookDelivery) {
+    if (!delivery.id) {
+      delivery.id = cuid()
+    }
+  }
+}
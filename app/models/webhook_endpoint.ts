@@ -0,0 +1,77 @@
+// app/models/webhook_endpoint.ts
+import { DateTime } from 'luxon'
+import { column, belongsTo, hasMany, beforeCreate } from '@adonisjs/lucid/orm'
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+import { cuid } from '@adonisjs/core/helpers'
+import Company from '#models/company'
+import WebhookDelivery from '#models/webhook_delivery'
+import BaseModel from './base_model.js'
+
+export const WEBHOOK_EVENTS = [
+  'order.created',
+  'order.accepted',
+  'order.at_pickup',
+  'order.waypoint_completed',
+  'order.success',
+  'order.failed',
+  'order.cancelled',
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number] | 'webhook.test'
+
+/**
+ * Endpoint HTTP d'une entreprise, notifié des événements de ses commandes (Webhook Worker).
+ */
+export default class WebhookEndpoint extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare company_id: string
+
+  @column()
+  declare url: string
+
+  @column()
+  declare description: string | null
+
+  @column({ serializeAs: null })
+  declare secret: string
+
+  @column({
+    prepare: (value: WebhookEvent[] | null) => JSON.stringify(value ?? []),
+  })
+  declare events: WebhookEvent[]
+
+  @column()
+  declare is_active: boolean
+
+  @column()
+  declare consecutive_failures: number
+
+  @column.dateTime()
+  declare last_success_at: DateTime | null
+
+  @column.dateTime()
+  declare last_failure_at: DateTime | null
+
+  @column.dateTime({ autoCreate: true })
+  declare created_at: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updated_at: DateTime
+
+  // --- RELATIONS ---
+  @belongsTo(() => Company, { foreignKey: 'company_id' })
+  declare company: BelongsTo<typeof Company>
+
+  @hasMany(() => WebhookDelivery, { foreignKey: 'webhook_endpoint_id' })
+  declare deliveries: HasMany<typeof WebhookDelivery>
+
+  @beforeCreate()
+  public static assignCuid(endpoint: WebhookEndpoint) {
+    if (!endpoint.id) {
+      endpoint.id = cuid()
+    }
+  }
+}
@@ -0,0 +1,195 @@
+// app/services/api_key_service.ts
+import { createHash } from 'node:crypto'
+import { DateTime } from 'luxon'
+import string from '@adonisjs/core/helpers/string'
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import CompanyApiKey, { type ApiKeyScope } from '#models/company_api_key'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 120
+const DEFAULT_MAX_ACTIVE_PER_COMPANY = 10
+
+export const API_KEY_TOKEN_PREFIX = 'mk_'
+const DISPLAY_PREFIX_LENGTH = 11 // 'mk_' + 8 caractères
+const RATE_LIMIT_KEY_PREFIX = 'api_key_rate:'
+const LAST_USED_THROTTLE_SECONDS = 60 // Évite une écriture en base à chaque requête
+
+export interface ApiKeyRateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  reset_seconds: number
+}
+
+export interface ApiKeyAttributes {
+  name: string
+  scopes: ApiKeyScope[]
+  rate_limit_per_minute?: number | null
+}
+
+class ApiKeyService {
+  get defaultRateLimitPerMinute(): number {
+    return env.get('API_KEY_DEFAULT_RATE_LIMIT_PER_MINUTE', DEFAULT_RATE_LIMIT_PER_MINUTE)
+  }
+
+  /**
+   * Crée une clé pour l'entreprise. La clé en clair n'est renvoyée qu'ici.
+   */
+  async create(
+    companyId: string,
+    createdByUserId: string | null,
+    attributes: ApiKeyAttributes
+  ): Promise<{ apiKey: CompanyApiKey; token: string } | { error: string }> {
+    const maxActive = env.get('API_KEY_MAX_ACTIVE_PER_COMPANY', DEFAULT_MAX_ACTIVE_PER_COMPANY)
+    const activeCount = await this.activeKeysQuery(companyId).count('* as total').first()
+    if (Number(activeCount?.$extras.total ?? 0) >= maxActive) {
+      return { error: `Nombre maximum de clés API actives atteint (${maxActive}).` }
+    }
+
+    const token = this.generateToken()
+    const apiKey = await CompanyApiKey.create({
+      company_id: companyId,
+      created_by_user_id: createdByUserId,
+      name: attributes.name,
+      scopes: [...new Set(attributes.scopes)],
+      rate_limit_per_minute: attributes.rate_limit_per_minute ?? null,
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      token_hash: this.hashToken(token),
+    })
+    return { apiKey, token }
+  }
+
+  /**
+   * Retrouve une clé utilisable (ni révoquée, ni expirée) à partir de sa valeur en clair,
+   * avec l'entreprise préchargée.
+   */
+  async findUsableByToken(token: string): Promise<CompanyApiKey | null> {
+    if (!token.startsWith(API_KEY_TOKEN_PREFIX)) return null
+
+    const apiKey = await CompanyApiKey.query()
+      .where('token_hash', this.hashToken(token))
+      .preload('company')
+      .first()
+    if (!apiKey || !apiKey.isUsable) return null
+    return apiKey
+  }
+
+  async markUsed(apiKey: CompanyApiKey, ip: string): Promise<void> {
+    const lastUsedAt = apiKey.last_used_at
+    if (
+      lastUsedAt &&
+      lastUsedAt.plus({ seconds: LAST_USED_THROTTLE_SECONDS }) > DateTime.now() &&
+      apiKey.last_used_ip === ip
+    ) {
+      return
+    }
+    try {
+      apiKey.last_used_at = DateTime.now()
+      apiKey.last_used_ip = ip
+      await apiKey.save()
+    } catch (error) {
+      logger.warn(
+        { err: error, apiKeyId: apiKey.id },
+        'Mise à jour last_used_at de la clé API impossible'
+      )
+    }
+  }
+
+  /**
+   * Limite par clé, en fenêtre fixe d'une minute (compteur Redis).
+   * En cas d'indisponibilité de Redis, la requête est laissée passer.
+   */
+  async consumeRateLimit(apiKey: CompanyApiKey): Promise<ApiKeyRateLimitResult> {
+    const limit = apiKey.rate_limit_per_minute ?? this.defaultRateLimitPerMinute
+    const nowSeconds = Math.floor(Date.now() / 1000)
+    const window = Math.floor(nowSeconds / 60)
+    const resetSeconds = (window + 1) * 60 - nowSeconds
+
+    try {
+      const key = `${RATE_LIMIT_KEY_PREFIX}${apiKey.id}:${window}`
+      const count = await redis.incr(key)
+      if (count === 1) {
+        await redis.expire(key, 60)
+      }
+      return {
+        allowed: count <= limit,
+        limit,
+        remaining: Math.max(0, limit - count),
+        reset_seconds: resetSeconds,
+      }
+    } catch (error) {
+      logger.warn({ err: error, apiKeyId: apiKey.id }, 'Rate limit clé API indisponible (Redis)')
+      return { allowed: true, limit, remaining: limit, reset_seconds: resetSeconds }
+    }
+  }
+
+  /**
+   * Remplace une clé par une nouvelle (mêmes nom, scopes et limite).
+   * L'ancienne reste valable pendant la période de grâce, puis expire.
+   */
+  async rotate(
+    apiKey: CompanyApiKey,
+    createdByUserId: string | null,
+    gracePeriodMinutes: number
+  ): Promise<{ apiKey: CompanyApiKey; token: string }> {
+    const token = this.generateToken()
+    const trx = await db.transaction()
+    try {
+      const newKey = await CompanyApiKey.create(
+        {
+          company_id: apiKey.company_id,
+          created_by_user_id: createdByUserId,
+          name: apiKey.name,
+          scopes: apiKey.scopes,
+          rate_limit_per_minute: apiKey.rate_limit_per_minute,
+          prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+          token_hash: this.hashToken(token),
+          rotated_from_id: apiKey.id,
+        },
+        { client: trx }
+      )
+
+      apiKey.useTransaction(trx)
+      if (gracePeriodMinutes > 0) {
+        apiKey.expires_at = DateTime.now().plus({ minutes: gracePeriodMinutes })
+      } else {
+        apiKey.revoked_at = DateTime.now()
+      }
+      await apiKey.save()
+
+      await trx.commit()
+      return { apiKey: newKey, token }
+    } catch (error) {
+      await trx.rollback()
+      throw error
+    }
+  }
+
+  async revoke(apiKey: CompanyApiKey): Promise<void> {
+    if (apiKey.revoked_at) return
+    apiKey.revoked_at = DateTime.now()
+    await apiKey.save()
+  }
+
+  activeKeysQuery(companyId: string) {
+    return CompanyApiKey.query()
+      .where('company_id', companyId)
+      .whereNull('revoked_at')
+      .where((query) =>
+        query.whereNull('expires_at').orWhere('expires_at', '>', DateTime.now().toSQL()!)
+      )
+  }
+
+  private generateToken(): string {
+    return `${API_KEY_TOKEN_PREFIX}${string.generateRandom(40)}`
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+}
+
+export default new ApiKeyService()
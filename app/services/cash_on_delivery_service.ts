@@ -0,0 +1,393 @@
+// app/services/cash_on_delivery_service.ts
+import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import type Order from '#models/order'
+import type { WaypointSummaryItem } from '#models/order'
+import type Driver from '#models/driver'
+import CodCollection, { CodCollectionStatus } from '#models/cod_collection'
+import LedgerAccount from '#models/ledger_account'
+import { LedgerTransactionType } from '#models/ledger_transaction'
+import OrderTransaction, {
+  OrderTransactionStatus,
+  OrderTransactionType,
+  type PaymentMethod,
+} from '#models/order_transaction'
+import paymentService from '#services/payment_service'
+import driverWalletService, { PLATFORM_ACCOUNTS } from '#services/driver_wallet_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_MAX_AMOUNT = 500_000 // Montant maximum à encaisser sur un waypoint
+const DEFAULT_MIN_REMITTANCE_AMOUNT = 500
+
+export interface CodOutcome {
+  order: Order
+  driverId: string
+  waypointSequence: number
+  waypoint: WaypointSummaryItem
+  collectedAmount: number | null // null : waypoint échoué ou ignoré, rien encaissé
+  note?: string | null
+  at: DateTime
+}
+
+export interface RemittanceRequest {
+  amount: number
+  provider: PaymentMethod
+  number: string
+}
+
+/**
+ * Paiement à la livraison : le livreur confirme le montant encaissé à la complétion du waypoint,
+ * montant qu'il doit ensuite à la plateforme (compte driver_cash du grand livre). La dette est
+ * soldée par reversement (mobile money, ou dépôt d'espèces saisi par l'exploitation) ou compensée
+ * sur ses gains. Les entreprises suivent leurs encaissements jour par jour.
+ */
+class CashOnDeliveryService {
+  get maxAmount(): number {
+    return env.get('COD_MAX_AMOUNT', DEFAULT_MAX_AMOUNT)
+  }
+
+  get minRemittanceAmount(): number {
+    return env.get('COD_MIN_REMITTANCE_AMOUNT', DEFAULT_MIN_REMITTANCE_AMOUNT)
+  }
+
+  /**
+   * Contrôle de la complétion d'un waypoint avec paiement à la livraison : le montant encaissé doit
+   * être confirmé, et un écart avec le montant attendu expliqué. Retourne le message d'erreur, ou null.
+   */
+  validateCompletion(
+    waypoint: WaypointSummaryItem,
+    collectedAmount: number | undefined,
+    note: string | undefined
+  ): string | null {
+    if (!waypoint.cod_amount) return null
+    if (collectedAmount === undefined) {
+      return `Paiement à la livraison : confirmez le montant encaissé (attendu ${waypoint.cod_amount}).`
+    }
+    if (collectedAmount !== waypoint.cod_amount && !note) {
+      return `Le montant encaissé (${collectedAmount}) diffère du montant attendu (${waypoint.cod_amount}) : une note explicative est requise.`
+    }
+    return null
+  }
+
+  /**
+   * Enregistre l'issue d'un waypoint avec paiement à la livraison, dans la transaction du changement
+   * de statut : encaissement dû par le livreur (puis compensé sur son portefeuille s'il est
+   * créditeur), ou non-encaissement si la livraison a échoué.
+   */
+  async recordOutcome(trx: TransactionClientContract, outcome: CodOutcome): Promise<CodCollection> {
+    const { order, driverId, waypoint } = outcome
+    const collectedAmount = outcome.collectedAmount ?? 0
+
+    // Même ordre de verrouillage que les gains (espèces dues d'abord)
+    await driverWalletService.lockAccount(trx, driverWalletService.cashDueCode(driverId))
+    const collection = await CodCollection.create(
+      {
+        order_id: order.id,
+        company_id: order.company_id,
+        driver_id: driverId,
+        waypoint_sequence: outcome.waypointSequence,
+        recipient_name: waypoint.name ?? null,
+        expected_amount: waypoint.cod_amount ?? 0,
+        collected_amount: collectedAmount,
+        currency: driverWalletService.currency,
+        status:
+          outcome.collectedAmount === null
+            ? CodCollectionStatus.NOT_COLLECTED
+            : CodCollectionStatus.COLLECTED,
+        note: outcome.note ?? null,
+        collected_at: outcome.at,
+      },
+      { client: trx }
+    )
+    if (collectedAmount <= 0) return collection
+
+    await driverWalletService.post(trx, {
+      type: LedgerTransactionType.COD_COLLECTED,
+      idempotencyKey: `cod_collection:${collection.id}`,
+      driverId,
+      companyId: order.company_id,
+      orderId: order.id,
+      description: `Paiement à la livraison, commande ${order.id}`,
+      metadata: { waypoint_sequence: outcome.waypointSequence },
+      lines: [
+        { accountCode: driverWalletService.cashDueCode(driverId), amount: -collectedAmount },
+        { accountCode: PLATFORM_ACCOUNTS.COD_PAYABLE, amount: collectedAmount },
+      ],
+    })
+    await driverWalletService.settleCashDue(trx, driverId, `cod_collection:${collection.id}`)
+    return collection
+  }
+
+  /**
+   * Espèces dues par le livreur, reversements en cours et encaissements non encore couverts.
+   */
+  async getDriverSummary(driverId: string) {
+    const account = await LedgerAccount.findBy('code', driverWalletService.cashDueCode(driverId))
+    const pending = await this.pendingRemittances(driverId)
+    const open = await CodCollection.query()
+      .where('driver_id', driverId)
+      .whereNull('remitted_at')
+      .where('collected_amount', '>', 0)
+      .orderBy('collected_at', 'asc')
+
+    return {
+      currency: account?.currency ?? driverWalletService.currency,
+      cash_due: Math.max(0, -(account?.balance ?? 0)),
+      pending_remittances: pending,
+      min_remittance_amount: this.minRemittanceAmount,
+      open_collections: open.map((collection) => ({
+        id: collection.id,
+        order_id: collection.order_id,
+        waypoint_sequence: collection.waypoint_sequence,
+        recipient_name: collection.recipient_name,
+        collected_amount: collection.collected_amount,
+        collected_at: collection.collected_at.toISO(),
+      })),
+    }
+  }
+
+  /**
+   * Reversement par mobile money depuis un compte actif du livreur : la dette est soldée à la
+   * confirmation de la passerelle (voir syncRemittance).
+   */
+  async requestRemittance(
+    driver: Driver,
+    request: RemittanceRequest
+  ): Promise<{ remittance: OrderTransaction; payment_url?: string } | { error: string }> {
+    const account = (driver.mobile_money ?? []).find(
+      (pm) =>
+        pm.provider === request.provider && pm.number === request.number && pm.status === 'active'
+    )
+    if (!account) {
+      return { error: 'Compte mobile money inconnu ou inactif.' }
+    }
+
+    const trx = await db.transaction()
+    let remittance: OrderTransaction
+    try {
+      // Le verrou du compte sérialise les demandes concurrentes d'un même livreur
+      const cash = await driverWalletService.lockAccount(
+        trx,
+        driverWalletService.cashDueCode(driver.id)
+      )
+      const remaining = Math.max(0, -cash.balance) - (await this.pendingRemittances(driver.id, trx))
+      if (request.amount > remaining) {
+        await trx.rollback()
+        return { error: `Montant supérieur aux espèces restant à reverser (${remaining}).` }
+      }
+      if (request.amount < Math.min(this.minRemittanceAmount, remaining)) {
+        await trx.rollback()
+        return { error: `Le montant minimum de reversement est de ${this.minRemittanceAmount}.` }
+      }
+
+      remittance = await OrderTransaction.create(
+        {
+          driver_id: driver.id,
+          order_id: null,
+          company_id: driver.company_id ?? null,
+          currency: cash.currency,
+          type: OrderTransactionType.DRIVER_CASH_REMITTANCE,
+          payment_method: request.provider,
+          amount: request.amount,
+          status: OrderTransactionStatus.PENDING,
+          history_status: [
+            { status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() },
+          ],
+          metadata: { payer_number: request.number },
+        },
+        { client: trx }
+      )
+      await trx.commit()
+    } catch (error) {
+      if (!trx.isCompleted) await trx.rollback()
+      throw error
+    }
+
+    const { paymentUrl } = await paymentService.initiateClientCollection(remittance.id)
+    await remittance.refresh()
+    return { remittance, payment_url: paymentUrl }
+  }
+
+  /**
+   * Dépôt d'espèces constaté par l'exploitation (agence, point relais) : la dette est soldée
+   * immédiatement.
+   */
+  async recordCashDeposit(
+    driver: Driver,
+    amount: number,
+    reference: string,
+    createdBy: string
+  ): Promise<OrderTransaction> {
+    return db.transaction(async (trx) => {
+      const remittance = await OrderTransaction.create(
+        {
+          driver_id: driver.id,
+          order_id: null,
+          company_id: driver.company_id ?? null,
+          currency: driverWalletService.currency,
+          type: OrderTransactionType.DRIVER_CASH_REMITTANCE,
+          payment_method: null,
+          transaction_reference: reference,
+          amount,
+          status: OrderTransactionStatus.SUCCESS,
+          payment_date: DateTime.now(),
+          history_status: [
+            {
+              status: OrderTransactionStatus.SUCCESS,
+              timestamp: DateTime.now().toISO(),
+              source: 'manual',
+            },
+          ],
+          metadata: { created_by: createdBy },
+        },
+        { client: trx }
+      )
+      await this.postRemittance(trx, remittance)
+      return remittance
+    })
+  }
+
+  /**
+   * Répercute un reversement confirmé sur le grand livre (espèces dues -> reversées). Sans effet
+   * tant qu'il est en attente ou s'il a échoué ; idempotent. Appelée sur payment:transaction_updated.
+   */
+  async syncRemittance(remittanceId: string): Promise<void> {
+    await db.transaction(async (trx) => {
+      const remittance = await OrderTransaction.query({ client: trx })
+        .where('id', remittanceId)
+        .where('type', OrderTransactionType.DRIVER_CASH_REMITTANCE)
+        .forUpdate()
+        .first()
+      if (!remittance || remittance.status !== OrderTransactionStatus.SUCCESS) return
+      await this.postRemittance(trx, remittance)
+    })
+  }
+
+  async listRemittances(driverId: string, page: number, perPage: number) {
+    return OrderTransaction.query()
+      .where('driver_id', driverId)
+      .where('type', OrderTransactionType.DRIVER_CASH_REMITTANCE)
+      .orderBy('created_at', 'desc')
+      .paginate(page, perPage)
+  }
+
+  /**
+   * Rapport de rapprochement d'une journée pour une entreprise : montants attendus, encaissés,
+   * écarts, livraisons sans encaissement et part déjà reversée par les livreurs.
+   */
+  async getDailyReport(companyId: string, day: DateTime) {
+    const start = day.startOf('day')
+    const collections = await CodCollection.query()
+      .where('company_id', companyId)
+      .where('collected_at', '>=', start.toSQL()!)
+      .where('collected_at', '<', start.plus({ days: 1 }).toSQL()!)
+      .preload('driver', (driverQuery) =>
+        driverQuery
+          .select(['id', 'user_id'])
+          .preload('user', (userQuery) => userQuery.select(['id', 'full_name']))
+      )
+      .orderBy('collected_at', 'asc')
+
+    const totals = {
+      expected_amount: 0,
+      collected_amount: 0,
+      discrepancy_amount: 0, // Encaissé - attendu, livraisons effectuées uniquement
+      not_collected_amount: 0, // Attendu sur les livraisons échouées ou ignorées
+      remitted_amount: 0,
+      outstanding_amount: 0, // Encaissé, encore dû par les livreurs
+    }
+    const byDriver = new Map<
+      string,
+      {
+        driver_id: string
+        name: string | null
+        collected_amount: number
+        outstanding_amount: number
+      }
+    >()
+
+    for (const collection of collections) {
+      totals.expected_amount += collection.expected_amount
+      totals.collected_amount += collection.collected_amount
+      if (collection.status === CodCollectionStatus.COLLECTED) {
+        totals.discrepancy_amount += collection.collected_amount - collection.expected_amount
+      } else {
+        totals.not_collected_amount += collection.expected_amount
+      }
+      const outstanding = collection.remitted_at ? 0 : collection.collected_amount
+      totals.remitted_amount += collection.collected_amount - outstanding
+      totals.outstanding_amount += outstanding
+
+      const driverTotals = byDriver.get(collection.driver_id) ?? {
+        driver_id: collection.driver_id,
+        name: collection.driver?.user?.full_name ?? null,
+        collected_amount: 0,
+        outstanding_amount: 0,
+      }
+      driverTotals.collected_amount += collection.collected_amount
+      driverTotals.outstanding_amount += outstanding
+      byDriver.set(collection.driver_id, driverTotals)
+    }
+
+    return {
+      date: start.toISODate(),
+      currency: collections[0]?.currency ?? driverWalletService.currency,
+      delivery_count: collections.length,
+      totals,
+      drivers: [...byDriver.values()],
+      collections: collections.map((collection) => ({
+        id: collection.id,
+        order_id: collection.order_id,
+        waypoint_sequence: collection.waypoint_sequence,
+        recipient_name: collection.recipient_name,
+        driver_id: collection.driver_id,
+        status: collection.status,
+        expected_amount: collection.expected_amount,
+        collected_amount: collection.collected_amount,
+        discrepancy_amount:
+          collection.status === CodCollectionStatus.COLLECTED
+            ? collection.collected_amount - collection.expected_amount
+            : 0,
+        note: collection.note,
+        collected_at: collection.collected_at.toISO(),
+        remitted_at: collection.remitted_at?.toISO() ?? null,
+      })),
+    }
+  }
+
+  private async postRemittance(trx: TransactionClientContract, remittance: OrderTransaction) {
+    const cashCode = driverWalletService.cashDueCode(remittance.driver_id!)
+    await driverWalletService.post(trx, {
+      type: LedgerTransactionType.COD_REMITTED,
+      idempotencyKey: `cod_remittance:${remittance.id}`,
+      driverId: remittance.driver_id,
+      orderTransactionId: remittance.id,
+      description: remittance.payment_method
+        ? `Reversement ${remittance.payment_method}`
+        : "Dépôt d'espèces",
+      metadata: { transaction_reference: remittance.transaction_reference },
+      lines: [
+        { accountCode: PLATFORM_ACCOUNTS.COD_REMITTANCES, amount: -remittance.amount },
+        { accountCode: cashCode, amount: remittance.amount },
+      ],
+    })
+    await driverWalletService.coverCollections(trx, remittance.driver_id!)
+  }
+
+  private async pendingRemittances(
+    driverId: string,
+    client?: TransactionClientContract
+  ): Promise<number> {
+    const row = await OrderTransaction.query({ client })
+      .where('driver_id', driverId)
+      .where('type', OrderTransactionType.DRIVER_CASH_REMITTANCE)
+      .where('status', OrderTransactionStatus.PENDING)
+      .sum('amount as total')
+      .first()
+    return Number(row?.$extras.total ?? 0)
+  }
+}
+
+export default new CashOnDeliveryService()
@@ -0,0 +1,875 @@
+// app/services/client_payment_service.ts
+import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, { CancellationReasonCode, OrderPaymentStatus, OrderStatus } from '#models/order'
+import Company, { CompanyPaymentMode, CompanyPaymentTiming } from '#models/company'
+import CompanyInvoice, { CompanyInvoiceStatus } from '#models/company_invoice'
+import LedgerAccount from '#models/ledger_account'
+import { LedgerTransactionType } from '#models/ledger_transaction'
+import OrderTransaction, {
+  OrderTransactionStatus,
+  OrderTransactionType,
+  type PaymentMethod,
+} from '#models/order_transaction'
+import paymentService from '#services/payment_service'
+import driverWalletService, { PLATFORM_ACCOUNTS } from '#services/driver_wallet_service'
+import orderSchedulingService from '#services/order_scheduling_service'
+import redis_helper from '#services/redis_helper'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_CANCELLATION_FEE_PERCENT = 20 // Part retenue sur une annulation client après assignation
+const DEFAULT_MIN_TOPUP_AMOUNT = 1000
+const DEFAULT_INVOICE_DUE_DAYS = 15
+
+// Montant encore dû par l'entreprise (encours comparé à la limite de crédit)
+const OUTSTANDING_PAYMENT_STATUSES = [
+  OrderPaymentStatus.UNPAID,
+  OrderPaymentStatus.PENDING,
+  OrderPaymentStatus.DEFERRED,
+  OrderPaymentStatus.INVOICED,
+]
+// Rien n'est dû : la commande est assignable sans condition de crédit
+const SETTLED_PAYMENT_STATUSES = [OrderPaymentStatus.PAID, OrderPaymentStatus.WAIVED]
+// Mission terminée : encaissement « à la fin de la mission » et facturation mensuelle
+const COMPLETED_ORDER_STATUSES = [
+  OrderStatus.SUCCESS,
+  OrderStatus.FAILED,
+  OrderStatus.PARTIALLY_COMPLETED,
+]
+const INVOICEABLE_ORDER_STATUSES = [...COMPLETED_ORDER_STATUSES, OrderStatus.CANCELLED]
+
+// Annulations dont la plateforme ou le livreur est à l'origine : remboursement intégral
+const FULL_REFUND_REASONS = [
+  CancellationReasonCode.NO_DRIVER_AVAILABLE,
+  CancellationReasonCode.DRIVER_CANCELLED,
+  CancellationReasonCode.ADMIN_DECISION,
+]
+
+// Objet d'une collecte CLIENT_PAYMENT (metadata.purpose)
+export type ClientPaymentPurpose = 'order' | 'topup' | 'invoice'
+
+export interface MobileMoneyAccount {
+  provider: PaymentMethod
+  number: string
+}
+
+/**
+ * Paiement des commandes par les entreprises clientes : débit du solde prépayé (grand livre),
+ * collecte mobile money à chaque commande, ou facture mensuelle (postpayé). Une commande impayée
+ * n'est remise en assignation que si l'encours de l'entreprise reste sous sa limite de crédit.
+ * Les annulations sont remboursées selon le motif (CancellationReasonCode).
+ */
+class ClientPaymentService {
+  get cancellationFeePercent(): number {
+    return env.get('CLIENT_CANCELLATION_FEE_PERCENT', DEFAULT_CANCELLATION_FEE_PERCENT)
+  }
+
+  get minTopUpAmount(): number {
+    return env.get('CLIENT_MIN_TOPUP_AMOUNT', DEFAULT_MIN_TOPUP_AMOUNT)
+  }
+
+  get invoiceDueDays(): number {
+    return env.get('CLIENT_INVOICE_DUE_DAYS', DEFAULT_INVOICE_DUE_DAYS)
+  }
+
+  /**
+   * Encaissement à la création, avant la remise en assignation. Sans effet si la commande a déjà été
+   * traitée. Renvoie le statut de paiement obtenu ; une collecte mobile money est lancée après commit
+   * et la commande est remise en assignation à la confirmation (voir handleTransactionUpdate).
+   */
+  async collectForOrder(orderId: string): Promise<OrderPaymentStatus> {
+    let collectionId: string | null = null
+    const status = await db.transaction(async (trx) => {
+      const order = await Order.query({ client: trx })
+        .where('id', orderId)
+        .forUpdate()
+        .firstOrFail()
+      if (order.payment_mode || order.payment_status !== OrderPaymentStatus.UNPAID) {
+        return order.payment_status
+      }
+      const company = await Company.findOrFail(order.company_id, { client: trx })
+      if (!company.payment_mode) {
+        // Paiement client non activé pour l'entreprise
+        order.payment_status = OrderPaymentStatus.WAIVED
+        order.amount_due = 0
+        await order.useTransaction(trx).save()
+        return order.payment_status
+      }
+
+      order.payment_mode = company.payment_mode
+      order.amount_due = order.client_fee
+      if (
+        company.payment_mode === CompanyPaymentMode.POSTPAID ||
+        company.payment_timing === CompanyPaymentTiming.ON_COMPLETION
+      ) {
+        order.payment_status =
+          order.amount_due > 0 ? OrderPaymentStatus.DEFERRED : OrderPaymentStatus.PAID
+        await order.useTransaction(trx).save()
+        return order.payment_status
+      }
+      collectionId = await this.settleOrder(trx, order, company)
+      return order.payment_status
+    })
+
+    if (collectionId) this.startCollection(collectionId)
+    return status
+  }
+
+  /**
+   * Une commande est assignable si elle est payée (ou sans montant dû), ou si l'entreprise dispose
+   * d'une limite de crédit couvrant son encours, cette commande comprise.
+   */
+  async canAssign(order: Order): Promise<boolean> {
+    if (SETTLED_PAYMENT_STATUSES.includes(order.payment_status)) return true
+
+    const company = await Company.find(order.company_id)
+    if (!company || company.credit_limit === null) return false
+    return (await this.outstandingAmount(company.id)) <= company.credit_limit
+  }
+
+  /**
+   * Fin de mission ou annulation (order:status_updated) : encaissement différé ou remboursement.
+   */
+  async onOrderStatusUpdated(orderId: string, status: OrderStatus): Promise<void> {
+    if (status === OrderStatus.CANCELLED) {
+      await this.refundCancelledOrder(orderId)
+      return
+    }
+    if (!COMPLETED_ORDER_STATUSES.includes(status)) return
+
+    let collectionId: string | null = null
+    await db.transaction(async (trx) => {
+      const order = await Order.query({ client: trx }).where('id', orderId).forUpdate().first()
+      if (
+        !order ||
+        order.payment_status !== OrderPaymentStatus.DEFERRED ||
+        order.payment_mode === CompanyPaymentMode.POSTPAID
+      ) {
+        return
+      }
+      const company = await Company.findOrFail(order.company_id, { client: trx })
+      collectionId = await this.settleOrder(trx, order, company)
+    })
+    if (collectionId) this.startCollection(collectionId)
+  }
+
+  /**
+   * Remboursement d'une commande annulée selon le motif : aucun en cas de fraude, intégral si
+   * l'annulation ne vient pas du client ou intervient avant l'assignation, sinon frais d'annulation
+   * retenus. Idempotent ; une collecte encore en attente est traitée à sa confirmation. Les frais
+   * sont fixés à la première application : la confirmation de leur collecte ne les recalcule pas.
+   */
+  async refundCancelledOrder(orderId: string): Promise<void> {
+    const { refundId, collectionId } = await db.transaction((trx) =>
+      this.applyCancellationPolicy(trx, orderId)
+    )
+
+    if (refundId) {
+      paymentService.initiateClientRefund(refundId).catch((error) => {
+        logger.error(
+          { err: error, orderTransactionId: refundId },
+          'Erreur lors du remboursement client. Le remboursement reste en attente.'
+        )
+      })
+    }
+    if (collectionId) this.startCollection(collectionId)
+  }
+
+  /**
+   * Politique d'annulation appliquée à la commande verrouillée. Renvoie le remboursement mobile money
+   * et la collecte des frais à lancer après commit.
+   */
+  async applyCancellationPolicy(
+    trx: TransactionClientContract,
+    orderId: string
+  ): Promise<{ refundId: string | null; collectionId: string | null }> {
+    const actions: { refundId: string | null; collectionId: string | null } = {
+      refundId: null,
+      collectionId: null,
+    }
+    const order = await Order.query({ client: trx }).where('id', orderId).forUpdate().first()
+    if (!order || !order.payment_mode) return actions
+    const fee = order.cancellation_fee ?? this.cancellationFee(order)
+    order.cancellation_fee = fee
+
+    switch (order.payment_status) {
+      case OrderPaymentStatus.PAID: {
+        const refundAmount = Math.max(0, order.amount_paid - order.amount_refunded - fee)
+        order.amount_due = fee
+        if (refundAmount === 0) break
+        if (order.payment_mode === CompanyPaymentMode.PREPAID) {
+          await driverWalletService.post(trx, {
+            type: LedgerTransactionType.CLIENT_REFUND,
+            idempotencyKey: `order:${order.id}:refund`,
+            companyId: order.company_id,
+            orderId: order.id,
+            description: `Annulation commande ${order.id}`,
+            metadata: { reason_code: order.cancellation_reason_code, fee },
+            lines: [
+              { accountCode: PLATFORM_ACCOUNTS.CLIENT_REVENUE, amount: -refundAmount },
+              {
+                accountCode: driverWalletService.companyBalanceCode(order.company_id),
+                amount: refundAmount,
+              },
+            ],
+          })
+        } else {
+          actions.refundId = await this.createRefund(trx, order, refundAmount)
+          if (!actions.refundId) return actions
+        }
+        order.amount_refunded += refundAmount
+        order.payment_status =
+          fee > 0 ? OrderPaymentStatus.PARTIALLY_REFUNDED : OrderPaymentStatus.REFUNDED
+        break
+      }
+      case OrderPaymentStatus.DEFERRED: {
+        order.amount_due = fee
+        if (fee === 0) {
+          order.payment_status = OrderPaymentStatus.WAIVED
+        } else if (order.payment_mode !== CompanyPaymentMode.POSTPAID) {
+          // Encaissement « à la fin de la mission » : seuls les frais d'annulation sont dus
+          const company = await Company.findOrFail(order.company_id, { client: trx })
+          actions.collectionId = await this.settleOrder(trx, order, company)
+          return actions
+        }
+        break
+      }
+      case OrderPaymentStatus.UNPAID:
+        order.amount_due = fee
+        if (fee === 0) order.payment_status = OrderPaymentStatus.WAIVED
+        break
+      default:
+        // PENDING : traité à la confirmation de la collecte ; déjà remboursée ou facturée : rien à faire
+        return actions
+    }
+    await order.useTransaction(trx).save()
+    return actions
+  }
+
+  /**
+   * Statut final d'une transaction client (payment:transaction_updated) : commande payée, solde
+   * rechargé ou facture réglée, puis remise en assignation des commandes qui attendaient le paiement.
+   */
+  async handleTransactionUpdate(orderTransactionId: string): Promise<void> {
+    const transaction = await OrderTransaction.find(orderTransactionId)
+    if (!transaction || transaction.status === OrderTransactionStatus.PENDING) return
+    const succeeded = transaction.status === OrderTransactionStatus.SUCCESS
+
+    if (transaction.type === OrderTransactionType.CLIENT_REIMBURSEMENT) {
+      if (!succeeded) {
+        logger.error(
+          { orderTransactionId, orderId: transaction.order_id },
+          'Remboursement client échoué : à reprendre manuellement.'
+        )
+      }
+      return
+    }
+    if (transaction.type !== OrderTransactionType.CLIENT_PAYMENT || !transaction.company_id) return
+
+    const purpose: ClientPaymentPurpose = transaction.metadata?.purpose ?? 'order'
+    switch (purpose) {
+      case 'order': {
+        if (!transaction.order_id) return
+        await this.applyOrderCollection(transaction, succeeded)
+        const order = await Order.query()
+          .where('id', transaction.order_id)
+          .preload('status_logs', (query) => query.orderBy('changed_at', 'desc').limit(1))
+          .first()
+        if (!order) return
+        if (order.status_logs[0]?.status === OrderStatus.CANCELLED) {
+          // Annulée pendant la collecte : remboursement selon la politique d'annulation
+          await this.refundCancelledOrder(order.id)
+          return
+        }
+        await this.releaseIfAssignable(order)
+        return
+      }
+      case 'topup':
+        if (!succeeded) return
+        await this.creditBalance(transaction)
+        await this.settleUnpaidOrders(transaction.company_id)
+        await this.releaseHeldOrders(transaction.company_id)
+        return
+      case 'invoice':
+        if (!succeeded || !transaction.metadata?.invoice_id) return
+        await this.markInvoicePaid(transaction.metadata.invoice_id, `payment:${transaction.id}`)
+        return
+    }
+  }
+
+  /**
+   * Rechargement du solde prépayé par mobile money. Le solde est crédité à la confirmation.
+   */
+  async requestTopUp(
+    company: Company,
+    amount: number,
+    account?: MobileMoneyAccount
+  ): Promise<{ transaction: OrderTransaction; payment_url?: string } | { error: string }> {
+    if (amount < this.minTopUpAmount) {
+      return { error: `Le montant minimum de rechargement est de ${this.minTopUpAmount}.` }
+    }
+    const payer = account ?? company.payment_mobile_money
+    if (!payer) {
+      return { error: 'Aucun compte mobile money renseigné pour le rechargement.' }
+    }
+    const transaction = await OrderTransaction.create({
+      driver_id: null,
+      order_id: null,
+      company_id: company.id,
+      currency: driverWalletService.currency,
+      type: OrderTransactionType.CLIENT_PAYMENT,
+      payment_method: payer.provider,
+      amount,
+      status: OrderTransactionStatus.PENDING,
+      history_status: [
+        { status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() },
+      ],
+      metadata: { purpose: 'topup', payer_number: payer.number },
+    })
+    const { paymentUrl } = await paymentService.initiateClientCollection(transaction.id)
+    await transaction.refresh()
+    return { transaction, payment_url: paymentUrl }
+  }
+
+  /**
+   * Rechargement constaté hors passerelle (virement), saisi par l'exploitation.
+   */
+  async recordManualTopUp(
+    company: Company,
+    amount: number,
+    reference: string,
+    createdBy: string
+  ): Promise<OrderTransaction> {
+    const transaction = await db.transaction(async (trx) => {
+      const created = await OrderTransaction.create(
+        {
+          driver_id: null,
+          order_id: null,
+          company_id: company.id,
+          currency: driverWalletService.currency,
+          type: OrderTransactionType.CLIENT_PAYMENT,
+          payment_method: null,
+          transaction_reference: reference,
+          amount,
+          status: OrderTransactionStatus.SUCCESS,
+          payment_date: DateTime.now(),
+          history_status: [
+            {
+              status: OrderTransactionStatus.SUCCESS,
+              timestamp: DateTime.now().toISO(),
+              source: 'manual',
+            },
+          ],
+          metadata: { purpose: 'topup', created_by: createdBy },
+        },
+        { client: trx }
+      )
+      await this.creditBalance(created, trx)
+      return created
+    })
+    await this.settleUnpaidOrders(company.id)
+    await this.releaseHeldOrders(company.id)
+    return transaction
+  }
+
+  /**
+   * Nouvelle tentative d'encaissement d'une commande impayée (solde rechargé, collecte échouée),
+   * éventuellement sur un autre compte mobile money.
+   */
+  async retryOrderPayment(
+    company: Company,
+    orderId: string,
+    account?: MobileMoneyAccount
+  ): Promise<{ order: Order; payment_url?: string } | { error: string }> {
+    let collectionId: string | null = null
+    const result = await db.transaction(async (trx) => {
+      const order = await Order.query({ client: trx })
+        .where('id', orderId)
+        .where('company_id', company.id)
+        .forUpdate()
+        .first()
+      if (!order) return { error: 'Commande non trouvée.' }
+      if (order.payment_status !== OrderPaymentStatus.UNPAID || !order.payment_mode) {
+        return { error: `Aucun paiement à reprendre (statut ${order.payment_status}).` }
+      }
+      if (order.payment_mode === CompanyPaymentMode.POSTPAID) {
+        return { error: 'Les commandes postpayées sont réglées par facture.' }
+      }
+      collectionId = await this.settleOrder(trx, order, company, account)
+      return { order }
+    })
+    if ('error' in result) return result
+
+    let paymentUrl: string | undefined
+    if (collectionId) {
+      ;({ paymentUrl } = await paymentService.initiateClientCollection(collectionId))
+    } else {
+      await this.releaseIfAssignable(result.order)
+    }
+    await result.order.refresh()
+    return { order: result.order, payment_url: paymentUrl }
+  }
+
+  /**
+   * Facture mensuelle des commandes postpayées terminées avant la fin de la période (mois civil).
+   * Une entreprise déjà facturée pour la période est ignorée. Renvoie le nombre de factures émises.
+   */
+  async issueInvoices(periodStart: DateTime): Promise<number> {
+    const start = periodStart.startOf('month')
+    const end = start.plus({ months: 1 })
+    const rows = await this.invoiceableOrdersQuery(end).distinct('company_id')
+
+    let issued = 0
+    for (const { company_id: companyId } of rows) {
+      try {
+        if (await this.issueInvoice(companyId, start, end)) issued++
+      } catch (error) {
+        logger.error(
+          { err: error, companyId, period: start.toISODate() },
+          'Erreur émission facture'
+        )
+      }
+    }
+    return issued
+  }
+
+  /**
+   * Règlement d'une facture par mobile money ; la facture est soldée à la confirmation.
+   */
+  async payInvoice(
+    company: Company,
+    invoiceId: string,
+    account?: MobileMoneyAccount
+  ): Promise<{ transaction: OrderTransaction; payment_url?: string } | { error: string }> {
+    const invoice = await CompanyInvoice.query()
+      .where('id', invoiceId)
+      .where('company_id', company.id)
+      .first()
+    if (!invoice) return { error: 'Facture non trouvée.' }
+    if (invoice.status !== CompanyInvoiceStatus.ISSUED) {
+      return { error: `Facture non payable (statut ${invoice.status}).` }
+    }
+    const payer = account ?? company.payment_mobile_money
+    if (!payer) return { error: 'Aucun compte mobile money renseigné pour le règlement.' }
+
+    const pending = await OrderTransaction.query()
+      .where('company_id', company.id)
+      .where('type', OrderTransactionType.CLIENT_PAYMENT)
+      .where('status', OrderTransactionStatus.PENDING)
+      .whereRaw(`metadata->>'invoice_id' = ?`, [invoice.id])
+      .first()
+    if (pending) return { error: 'Un règlement de cette facture est déjà en cours.' }
+
+    const transaction = await OrderTransaction.create({
+      driver_id: null,
+      order_id: null,
+      company_id: company.id,
+      currency: invoice.currency,
+      type: OrderTransactionType.CLIENT_PAYMENT,
+      payment_method: payer.provider,
+      amount: invoice.amount,
+      status: OrderTransactionStatus.PENDING,
+      history_status: [
+        { status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() },
+      ],
+      metadata: { purpose: 'invoice', invoice_id: invoice.id, payer_number: payer.number },
+    })
+    const { paymentUrl } = await paymentService.initiateClientCollection(transaction.id)
+    await transaction.refresh()
+    return { transaction, payment_url: paymentUrl }
+  }
+
+  /**
+   * Facture soldée (collecte confirmée ou règlement constaté par l'exploitation) : ses commandes
+   * passent payées et l'encours libéré permet de remettre en assignation les commandes en attente.
+   */
+  async markInvoicePaid(invoiceId: string, source: string): Promise<CompanyInvoice | null> {
+    const invoice = await db.transaction(async (trx) => {
+      const locked = await CompanyInvoice.query({ client: trx })
+        .where('id', invoiceId)
+        .forUpdate()
+        .first()
+      if (!locked || locked.status !== CompanyInvoiceStatus.ISSUED) return locked
+
+      locked.status = CompanyInvoiceStatus.PAID
+      locked.paid_at = DateTime.now()
+      await locked.useTransaction(trx).save()
+      await Order.query({ client: trx })
+        .where('invoice_id', locked.id)
+        .where('payment_status', OrderPaymentStatus.INVOICED)
+        .update({
+          payment_status: OrderPaymentStatus.PAID,
+          amount_paid: db.raw('amount_due'),
+          paid_at: DateTime.now().toSQL(),
+        })
+      logger.info({ invoiceId, source }, 'Facture soldée.')
+      return locked
+    })
+    if (invoice?.status === CompanyInvoiceStatus.PAID) {
+      await this.releaseHeldOrders(invoice.company_id)
+    }
+    return invoice
+  }
+
+  /**
+   * Situation de paiement d'une entreprise : mode, solde prépayé, encours et factures ouvertes.
+   */
+  async getBillingSummary(company: Company) {
+    const account = await LedgerAccount.findBy(
+      'code',
+      driverWalletService.companyBalanceCode(company.id)
+    )
+    const outstanding = await this.outstandingAmount(company.id)
+    const unpaid = await Order.query()
+      .where('company_id', company.id)
+      .where('payment_status', OrderPaymentStatus.UNPAID)
+      .count('* as total')
+      .first()
+    const openInvoices = await CompanyInvoice.query()
+      .where('company_id', company.id)
+      .where('status', CompanyInvoiceStatus.ISSUED)
+      .orderBy('period_start', 'asc')
+
+    return {
+      payment_mode: company.payment_mode,
+      payment_timing: company.payment_timing,
+      payment_mobile_money: company.payment_mobile_money,
+      currency: account?.currency ?? driverWalletService.currency,
+      balance: account?.balance ?? 0,
+      credit_limit: company.credit_limit,
+      outstanding,
+      available_credit:
+        company.credit_limit === null ? null : Math.max(0, company.credit_limit - outstanding),
+      unpaid_orders: Number(unpaid?.$extras.total ?? 0),
+      open_invoices: openInvoices.map((invoice) => invoice.serialize()),
+    }
+  }
+
+  /**
+   * Encours : montants dus sur les commandes non réglées (y compris collectes en attente et factures).
+   */
+  async outstandingAmount(companyId: string, client?: TransactionClientContract): Promise<number> {
+    const row = await (client ?? db)
+      .from('orders')
+      .where('company_id', companyId)
+      .whereIn('payment_status', OUTSTANDING_PAYMENT_STATUSES)
+      .select(db.raw('COALESCE(SUM(COALESCE(amount_due, client_fee) - amount_paid), 0) as total'))
+      .first()
+    return Number(row?.total ?? 0)
+  }
+
+  /**
+   * Frais retenus sur une commande annulée, selon le motif et l'assignation éventuelle d'un livreur.
+   * Calculés sur le prix de la commande, jamais sur un montant dû déjà réduit aux frais.
+   */
+  cancellationFee(order: Order): number {
+    const amount = order.client_fee
+    const reason = order.cancellation_reason_code
+    if (reason === CancellationReasonCode.FRAUD) return amount
+    if (reason && FULL_REFUND_REASONS.includes(reason)) return 0
+    // Demande du client ou autre motif : gratuite tant qu'aucun livreur n'est assigné
+    if (!order.driver_id) return 0
+    return Math.round((amount * this.cancellationFeePercent) / 100)
+  }
+
+  /**
+   * Encaisse le montant dû d'une commande verrouillée : débit du solde prépayé (commande impayée si
+   * le solde est insuffisant) ou collecte mobile money (transaction PENDING à lancer après commit,
+   * dont l'ID est renvoyé).
+   */
+  private async settleOrder(
+    trx: TransactionClientContract,
+    order: Order,
+    company: Company,
+    account?: MobileMoneyAccount
+  ): Promise<string | null> {
+    const amount = (order.amount_due ?? order.client_fee) - order.amount_paid
+    if (amount <= 0) {
+      order.payment_status = OrderPaymentStatus.PAID
+      await order.useTransaction(trx).save()
+      return null
+    }
+
+    if (order.payment_mode === CompanyPaymentMode.PREPAID) {
+      const balanceCode = driverWalletService.companyBalanceCode(company.id)
+      const balance = await driverWalletService.lockAccount(trx, balanceCode)
+      if (balance.balance < amount) {
+        order.payment_status = OrderPaymentStatus.UNPAID
+      } else {
+        await driverWalletService.post(trx, {
+          type: LedgerTransactionType.CLIENT_CHARGE,
+          idempotencyKey: `order:${order.id}:charge:${order.amount_paid}`,
+          companyId: company.id,
+          orderId: order.id,
+          description: `Commande ${order.id}`,
+          lines: [
+            { accountCode: balanceCode, amount: -amount },
+            { accountCode: PLATFORM_ACCOUNTS.CLIENT_REVENUE, amount },
+          ],
+        })
+        order.amount_paid += amount
+        order.payment_status = OrderPaymentStatus.PAID
+        order.paid_at = DateTime.now()
+      }
+      await order.useTransaction(trx).save()
+      return null
+    }
+
+    const payer = account ?? company.payment_mobile_money
+    if (!payer) {
+      logger.warn({ orderId: order.id, companyId: company.id }, 'Aucun compte mobile money payeur.')
+      order.payment_status = OrderPaymentStatus.UNPAID
+      await order.useTransaction(trx).save()
+      return null
+    }
+    const collection = await OrderTransaction.create(
+      {
+        driver_id: null,
+        order_id: order.id,
+        company_id: company.id,
+        currency: order.currency,
+        type: OrderTransactionType.CLIENT_PAYMENT,
+        payment_method: payer.provider,
+        amount,
+        status: OrderTransactionStatus.PENDING,
+        history_status: [
+          { status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() },
+        ],
+        metadata: { purpose: 'order', payer_number: payer.number },
+      },
+      { client: trx }
+    )
+    order.payment_status = OrderPaymentStatus.PENDING
+    await order.useTransaction(trx).save()
+    return collection.id
+  }
+
+  // Collecte hors transaction : la réponse au client n'attend pas la passerelle
+  private startCollection(orderTransactionId: string) {
+    paymentService.initiateClientCollection(orderTransactionId).catch((error) => {
+      logger.error(
+        { err: error, orderTransactionId },
+        'Erreur lors de la collecte client. La transaction reste en attente.'
+      )
+    })
+  }
+
+  // Remboursement mobile money vers le compte qui a payé la commande
+  private async createRefund(
+    trx: TransactionClientContract,
+    order: Order,
+    amount: number
+  ): Promise<string | null> {
+    const payment = await OrderTransaction.query({ client: trx })
+      .where('order_id', order.id)
+      .where('type', OrderTransactionType.CLIENT_PAYMENT)
+      .where('status', OrderTransactionStatus.SUCCESS)
+      .orderBy('created_at', 'desc')
+      .first()
+    if (!payment?.payment_method || !payment.metadata?.payer_number) {
+      logger.error({ orderId: order.id }, 'Paiement client introuvable : remboursement impossible.')
+      return null
+    }
+    const refund = await OrderTransaction.create(
+      {
+        driver_id: null,
+        order_id: order.id,
+        company_id: order.company_id,
+        currency: payment.currency,
+        type: OrderTransactionType.CLIENT_REIMBURSEMENT,
+        payment_method: payment.payment_method,
+        amount,
+        status: OrderTransactionStatus.PENDING,
+        history_status: [
+          { status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() },
+        ],
+        metadata: {
+          recipient_number: payment.metadata.payer_number,
+          payment_transaction_id: payment.id,
+          reason_code: order.cancellation_reason_code,
+        },
+      },
+      { client: trx }
+    )
+    return refund.id
+  }
+
+  private async applyOrderCollection(transaction: OrderTransaction, succeeded: boolean) {
+    await db.transaction(async (trx) => {
+      const order = await Order.query({ client: trx })
+        .where('id', transaction.order_id!)
+        .forUpdate()
+        .first()
+      if (!order || order.payment_status !== OrderPaymentStatus.PENDING) return
+      if (succeeded) {
+        order.amount_paid += transaction.amount
+        order.payment_status = OrderPaymentStatus.PAID
+        order.paid_at = DateTime.now()
+      } else {
+        order.payment_status = OrderPaymentStatus.UNPAID
+      }
+      await order.useTransaction(trx).save()
+    })
+  }
+
+  private async creditBalance(transaction: OrderTransaction, trx?: TransactionClientContract) {
+    const post = (client: TransactionClientContract) =>
+      driverWalletService.post(client, {
+        type: LedgerTransactionType.CLIENT_TOPUP,
+        idempotencyKey: `order_transaction:${transaction.id}`,
+        companyId: transaction.company_id,
+        orderTransactionId: transaction.id,
+        description: 'Rechargement du solde prépayé',
+        lines: [
+          { accountCode: PLATFORM_ACCOUNTS.CLIENT_DEPOSITS, amount: -transaction.amount },
+          {
+            accountCode: driverWalletService.companyBalanceCode(transaction.company_id!),
+            amount: transaction.amount,
+          },
+        ],
+      })
+    if (trx) {
+      await post(trx)
+    } else {
+      await db.transaction(post)
+    }
+  }
+
+  // Après un rechargement : débit des commandes prépayées restées impayées, les plus anciennes d'abord
+  private async settleUnpaidOrders(companyId: string) {
+    const orders = await Order.query()
+      .where('company_id', companyId)
+      .where('payment_status', OrderPaymentStatus.UNPAID)
+      .where('payment_mode', CompanyPaymentMode.PREPAID)
+      .orderBy('created_at', 'asc')
+    for (const unpaid of orders) {
+      const paid = await db.transaction(async (trx) => {
+        const order = await Order.query({ client: trx })
+          .where('id', unpaid.id)
+          .forUpdate()
+          .firstOrFail()
+        if (order.payment_status !== OrderPaymentStatus.UNPAID) return true
+        const company = await Company.findOrFail(companyId, { client: trx })
+        await this.settleOrder(trx, order, company)
+        // Statut modifié par settleOrder
+        return (order.payment_status as OrderPaymentStatus) === OrderPaymentStatus.PAID
+      })
+      if (!paid) break // Solde épuisé
+    }
+  }
+
+  /**
+   * Remet en assignation les commandes retenues faute de paiement, devenues assignables après un
+   * paiement ou une baisse de l'encours.
+   */
+  private async releaseHeldOrders(companyId: string) {
+    const orders = await Order.query()
+      .where('company_id', companyId)
+      .whereIn('payment_status', [
+        OrderPaymentStatus.PAID,
+        OrderPaymentStatus.UNPAID,
+        OrderPaymentStatus.DEFERRED,
+      ])
+      .whereNull('driver_id')
+      .where('assignment_attempt_count', 0)
+      .orderBy('created_at', 'asc')
+    for (const order of orders) {
+      await this.releaseIfAssignable(order)
+    }
+  }
+
+  // Commande retenue : en attente, jamais proposée à un livreur
+  private async releaseIfAssignable(order: Order) {
+    if (order.driver_id || order.offered_driver_id || order.broadcast_offer) return
+    if (order.assignment_attempt_count > 0) return
+    if (orderSchedulingService.isAwaitingRelease(order)) return // L'Order Scheduler s'en charge
+    const latest = await order.related('status_logs').query().orderBy('changed_at', 'desc').first()
+    if (latest?.status !== OrderStatus.PENDING) return
+    if (!(await this.canAssign(order))) {
+      logger.info(
+        { orderId: order.id, paymentStatus: order.payment_status },
+        'Commande en attente de paiement.'
+      )
+      return
+    }
+
+    await order.load('pickup_address')
+    await order.load('packages')
+    const messageId = await redis_helper.publishNewOrderReadyForAssignment(order.id, {
+      pickupCoordinates: order.pickup_address?.coordinates?.coordinates as [number, number],
+      totalWeightG: order.packages.reduce(
+        (sum, pkg) => sum + (pkg.dimensions?.weight_g || 0) * (pkg.quantity || 1),
+        0
+      ),
+      initialRemuneration: order.remuneration,
+    })
+    if (messageId) {
+      logger.info({ orderId: order.id }, 'Commande payée remise en assignation.')
+    } else {
+      logger.error(
+        { orderId: order.id },
+        'Failed to publish NEW_ORDER_READY_FOR_ASSIGNMENT after payment.'
+      )
+    }
+  }
+
+  private invoiceableOrdersQuery(periodEnd: DateTime) {
+    return Order.query()
+      .where('payment_mode', CompanyPaymentMode.POSTPAID)
+      .where('payment_status', OrderPaymentStatus.DEFERRED)
+      .whereNull('invoice_id')
+      .where('amount_due', '>', 0)
+      .where('created_at', '<', periodEnd.toSQL()!)
+      .whereRaw(
+        `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) IN (${INVOICEABLE_ORDER_STATUSES.map(() => '?').join(', ')})`,
+        INVOICEABLE_ORDER_STATUSES
+      )
+  }
+
+  private async issueInvoice(companyId: string, start: DateTime, end: DateTime): Promise<boolean> {
+    return db.transaction(async (trx) => {
+      const existing = await CompanyInvoice.query({ client: trx })
+        .where('company_id', companyId)
+        .where('period_start', start.toISODate()!)
+        .first()
+      if (existing) return false
+
+      const orders = await this.invoiceableOrdersQuery(end)
+        .useTransaction(trx)
+        .where('company_id', companyId)
+        .forUpdate()
+      if (orders.length === 0) return false
+
+      const invoice = await CompanyInvoice.create(
+        {
+          company_id: companyId,
+          period_start: start,
+          period_end: end,
+          amount: orders.reduce((sum, order) => sum + (order.amount_due ?? 0), 0),
+          order_count: orders.length,
+          currency: orders[0].currency,
+          status: CompanyInvoiceStatus.ISSUED,
+          issued_at: DateTime.now(),
+          due_at: DateTime.now().plus({ days: this.invoiceDueDays }),
+        },
+        { client: trx }
+      )
+      await Order.query({ client: trx })
+        .whereIn(
+          'id',
+          orders.map((order) => order.id)
+        )
+        .update({ invoice_id: invoice.id, payment_status: OrderPaymentStatus.INVOICED })
+      logger.info(
+        { companyId, invoiceId: invoice.id, amount: invoice.amount, orders: orders.length },
+        'Facture mensuelle émise.'
+      )
+      return true
+    })
+  }
+}
+
+export default new ClientPaymentService()
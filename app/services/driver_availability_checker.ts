@@ -4,7 +4,6 @@ import DriverAvailabilityRule from '#models/driver_availability_rule'
 import logger from '@adonisjs/core/services/logger'
 
 class DriverAvailabilityChecker {
-
   async isAvailableBySchedule(driverId: string, dateTimeToCheck: DateTime): Promise<boolean> {
     if (!driverId || !dateTimeToCheck || !dateTimeToCheck.isValid) {
       logger.warn('isAvailableBySchedule invalid arguments.')
@@ -23,7 +22,6 @@ class DriverAvailabilityChecker {
     )
 
     try {
-
       const applicableRules = await DriverAvailabilityRule.query()
         .where('driver_id', driverId)
         .where('day_of_week', checkDayOfWeekIso)
@@ -56,5 +54,17 @@ class DriverAvailabilityChecker {
       return false // Non dispo par défaut si erreur
     }
   }
+
+  /**
+   * Vérifie que les règles du livreur couvrent un créneau (livraison programmée) :
+   * le début et le dernier instant du créneau doivent tous deux être couverts.
+   */
+  async isAvailableForWindow(driverId: string, start: DateTime, end: DateTime): Promise<boolean> {
+    if (!(await this.isAvailableBySchedule(driverId, start))) {
+      return false
+    }
+    const lastInstant = end > start ? end.minus({ seconds: 1 }) : start
+    return this.isAvailableBySchedule(driverId, lastInstant)
+  }
 }
 export default new DriverAvailabilityChecker()
@@ -0,0 +1,322 @@
+// app/services/driver_scoring_service.ts
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import Driver from '#models/driver'
+import DriversStatus from '#models/drivers_status'
+import Package from '#models/package'
+import geo_helper, { haversineMeters } from '#services/geo_helper'
+
+/**
+ * Poids des différents critères de sélection d'un livreur.
+ * Chaque poids est relatif : ils sont normalisés avant le calcul du score final.
+ */
+export interface AssignmentWeights {
+  eta: number
+  rating: number
+  acceptance_rate: number
+  vehicle_fit: number
+  workload: number
+}
+
+export type ScoringFactorKey = keyof AssignmentWeights
+
+/**
+ * Détail du score d'un candidat, stocké dans OrderStatusLog.metadata
+ * pour que les dispatchers puissent comprendre pourquoi un livreur a été choisi.
+ */
+export interface DriverScoreBreakdown {
+  driver_id: string
+  total: number // Score final entre 0 et 1
+  factors: Record<ScoringFactorKey, number> // Score normalisé (0..1) de chaque critère
+  weights: AssignmentWeights // Poids effectivement appliqués (normalisés)
+  eta_seconds: number | null
+  eta_source: 'valhalla' | 'straight_line' | null
+  candidates_count: number
+}
+
+export interface ScoredDriverCandidate {
+  driver: Driver
+  score: number
+  breakdown: DriverScoreBreakdown
+}
+
+/**
+ * Contexte partagé entre tous les critères pour un candidat donné.
+ */
+export interface ScoringContext {
+  driver: Driver
+  pickupCoordinates: [number, number] // lon, lat
+  load: PackageLoad
+  etaSeconds: number | null
+  assignmentsInProgress: number
+}
+
+interface PackageLoad {
+  totalWeightG: number
+  totalVolumeCm3: number
+}
+
+/**
+ * Un critère de scoring : retourne une valeur entre 0 (mauvais) et 1 (excellent).
+ * Ajouter un critère = ajouter une entrée dans `factors` + un poids dans AssignmentWeights.
+ */
+export interface ScoringFactor {
+  key: ScoringFactorKey
+  compute(ctx: ScoringContext): number
+}
+
+// --- Configuration par défaut ---
+export const DEFAULT_ASSIGNMENT_WEIGHTS: AssignmentWeights = {
+  eta: 0.4,
+  rating: 0.2,
+  acceptance_rate: 0.15,
+  vehicle_fit: 0.15,
+  workload: 0.1,
+}
+const MAX_ETA_SECONDS = 30 * 60 // Au-delà de 30 min, le critère ETA vaut 0
+const ETA_CANDIDATES_LIMIT = 10 // Nombre max d'appels Valhalla par recherche
+const FALLBACK_SPEED_MPS = 25 / 3.6 // ~25 km/h en ville si Valhalla ne répond pas
+const ACCEPTANCE_WINDOW_DAYS = 30
+const DEFAULT_ACCEPTANCE_RATE = 0.5 // Livreur sans historique : neutre
+const MAX_RATING = 5
+// Capacité approximative d'une moto (coffre / sac de livraison)
+const MOTORBIKE_MAX_WEIGHT_G = 20_000
+const MOTORBIKE_MAX_VOLUME_CM3 = 80_000
+const DEFAULT_PACKAGE_WEIGHT_G = 10
+
+class DriverScoringService {
+  private factors: ScoringFactor[] = [
+    {
+      key: 'eta',
+      compute: (ctx) =>
+        ctx.etaSeconds === null
+          ? 0
+          : 1 - Math.min(ctx.etaSeconds, MAX_ETA_SECONDS) / MAX_ETA_SECONDS,
+    },
+    {
+      key: 'rating',
+      compute: (ctx) =>
+        Math.max(0, Math.min(Number(ctx.driver.average_rating) || 0, MAX_RATING)) / MAX_RATING,
+    },
+    {
+      key: 'acceptance_rate',
+      compute: (ctx) => this.computeAcceptanceRate(ctx.driver),
+    },
+    {
+      key: 'vehicle_fit',
+      compute: (ctx) => this.computeVehicleFit(ctx.driver, ctx.load),
+    },
+    {
+      key: 'workload',
+      compute: (ctx) => 1 / (1 + Math.max(0, ctx.assignmentsInProgress)),
+    },
+  ]
+
+  /**
+   * Fusionne les poids configurés par l'entreprise avec les poids par défaut
+   * et les normalise pour que leur somme fasse 1.
+   */
+  resolveWeights(companyWeights?: Partial<AssignmentWeights> | null): AssignmentWeights {
+    const merged: AssignmentWeights = { ...DEFAULT_ASSIGNMENT_WEIGHTS }
+    if (companyWeights) {
+      for (const key of Object.keys(DEFAULT_ASSIGNMENT_WEIGHTS) as ScoringFactorKey[]) {
+        const value = companyWeights[key]
+        if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+          merged[key] = value
+        }
+      }
+    }
+    const sum = Object.values(merged).reduce((acc, w) => acc + w, 0)
+    if (sum <= 0) {
+      return { ...DEFAULT_ASSIGNMENT_WEIGHTS }
+    }
+    for (const key of Object.keys(merged) as ScoringFactorKey[]) {
+      merged[key] = Number((merged[key] / sum).toFixed(4))
+    }
+    return merged
+  }
+
+  /**
+   * Classe les candidats du meilleur au moins bon.
+   * Les livreurs sans véhicule actif ou dont aucun véhicule ne peut transporter les colis sont écartés.
+   * Les drivers doivent avoir leurs `vehicles` préchargés.
+   */
+  async rankCandidates(
+    drivers: Driver[],
+    pickupCoordinates: [number, number],
+    packages: Package[],
+    companyWeights?: Partial<AssignmentWeights> | null
+  ): Promise<ScoredDriverCandidate[]> {
+    const weights = this.resolveWeights(companyWeights)
+    const load = this.computeLoad(packages)
+
+    const eligible = drivers.filter(
+      (driver) =>
+        driver.vehicles.length > 0 &&
+        driver.current_location?.coordinates &&
+        this.computeVehicleFit(driver, load) > 0
+    )
+    if (eligible.length === 0) return []
+
+    // Pré-sélection à vol d'oiseau pour limiter les appels Valhalla
+    const byDistance = eligible
+      .map((driver) => ({
+        driver,
+        distanceMeters: haversineMeters(
+          driver.current_location!.coordinates as [number, number],
+          pickupCoordinates
+        ),
+      }))
+      .sort((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, ETA_CANDIDATES_LIMIT)
+
+    const workloads = await this.loadAssignmentsInProgress(byDistance.map((c) => c.driver.id))
+
+    const scored = await Promise.all(
+      byDistance.map(async ({ driver, distanceMeters }) => {
+        const { etaSeconds, source } = await this.computeEta(
+          driver,
+          pickupCoordinates,
+          distanceMeters
+        )
+        const ctx: ScoringContext = {
+          driver,
+          pickupCoordinates,
+          load,
+          etaSeconds,
+          assignmentsInProgress: workloads.get(driver.id) ?? 0,
+        }
+
+        const factorScores = {} as Record<ScoringFactorKey, number>
+        let total = 0
+        for (const factor of this.factors) {
+          const value = Number(Math.max(0, Math.min(1, factor.compute(ctx))).toFixed(4))
+          factorScores[factor.key] = value
+          total += value * weights[factor.key]
+        }
+        total = Number(total.toFixed(4))
+
+        return {
+          driver,
+          score: total,
+          breakdown: {
+            driver_id: driver.id,
+            total,
+            factors: factorScores,
+            weights,
+            eta_seconds: etaSeconds,
+            eta_source: source,
+            candidates_count: byDistance.length,
+          },
+        }
+      })
+    )
+
+    scored.sort((a, b) => b.score - a.score)
+    logger.debug(
+      { ranking: scored.map((s) => ({ driverId: s.driver.id, score: s.score })) },
+      'Driver candidates ranked'
+    )
+    return scored
+  }
+
+  private async computeEta(
+    driver: Driver,
+    pickupCoordinates: [number, number],
+    straightLineMeters: number
+  ): Promise<{ etaSeconds: number | null; source: DriverScoreBreakdown['eta_source'] }> {
+    const costing = driver.vehicles.every((v) => v.type === 'motorbike') ? 'motorcycle' : 'auto'
+    const routeInfo = await geo_helper.getDirectRouteInfo(
+      driver.current_location!.coordinates as [number, number],
+      pickupCoordinates,
+      costing
+    )
+    if (routeInfo) {
+      return { etaSeconds: routeInfo.durationSeconds, source: 'valhalla' }
+    }
+    // Fallback : estimation à vol d'oiseau
+    return {
+      etaSeconds: Math.round(straightLineMeters / FALLBACK_SPEED_MPS),
+      source: 'straight_line',
+    }
+  }
+
+  /**
+   * Taux d'acceptation récent à partir de `delivery_stats`.
+   * Les statuts 'accept' et 'success' comptent comme des acceptations, 'refuse' comme un refus.
+   */
+  private computeAcceptanceRate(driver: Driver): number {
+    const stats = driver.delivery_stats
+    if (!stats || typeof stats !== 'object') return DEFAULT_ACCEPTANCE_RATE
+
+    const since = DateTime.now().minus({ days: ACCEPTANCE_WINDOW_DAYS })
+    let accepted = 0
+    let refused = 0
+    for (const stat of Object.values(stats)) {
+      if (!stat?.timestamp) continue
+      const at = DateTime.fromISO(stat.timestamp)
+      if (!at.isValid || at < since) continue
+      if (stat.status === 'accept' || stat.status === 'success') accepted++
+      else if (stat.status === 'refuse') refused++
+    }
+    const total = accepted + refused
+    return total === 0 ? DEFAULT_ACCEPTANCE_RATE : accepted / total
+  }
+
+  /**
+   * Adéquation véhicule / colis :
+   * - 0 : aucun véhicule ne peut transporter la charge (candidat écarté)
+   * - 1 : le véhicule le plus adapté est utilisé (moto pour petits colis, voiture pour gros)
+   * - 0.7 : voiture pour une charge qui tiendrait sur une moto (surdimensionné)
+   */
+  private computeVehicleFit(driver: Driver, load: PackageLoad): number {
+    const fitsMotorbike =
+      load.totalWeightG <= MOTORBIKE_MAX_WEIGHT_G && load.totalVolumeCm3 <= MOTORBIKE_MAX_VOLUME_CM3
+    let best = 0
+    for (const vehicle of driver.vehicles) {
+      if (vehicle.type === 'motorbike') {
+        best = Math.max(best, fitsMotorbike ? 1 : 0)
+      } else {
+        best = Math.max(best, fitsMotorbike ? 0.7 : 1)
+      }
+    }
+    return best
+  }
+
+  private computeLoad(packages: Package[]): PackageLoad {
+    let totalWeightG = 0
+    let totalVolumeCm3 = 0
+    for (const pkg of packages) {
+      const quantity = pkg.quantity || 1
+      totalWeightG += (pkg.dimensions?.weight_g || DEFAULT_PACKAGE_WEIGHT_G) * quantity
+      if (pkg.dimensions?.depth_cm && pkg.dimensions?.width_cm && pkg.dimensions?.height_cm) {
+        totalVolumeCm3 +=
+          pkg.dimensions.depth_cm * pkg.dimensions.width_cm * pkg.dimensions.height_cm * quantity
+      }
+    }
+    return { totalWeightG, totalVolumeCm3 }
+  }
+
+  /**
+   * Récupère le dernier `assignments_in_progress_count` connu de chaque livreur.
+   */
+  private async loadAssignmentsInProgress(driverIds: string[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>()
+    if (driverIds.length === 0) return result
+
+    // DISTINCT ON : uniquement la dernière entrée d'historique par livreur
+    const statuses = await DriversStatus.query()
+      .distinctOn('driver_id')
+      .select('driver_id', 'assignments_in_progress_count', 'changed_at')
+      .whereIn('driver_id', driverIds)
+      .orderBy('driver_id')
+      .orderBy('changed_at', 'desc')
+
+    for (const status of statuses) {
+      result.set(status.driver_id, status.assignments_in_progress_count || 0)
+    }
+    return result
+  }
+}
+
+export default new DriverScoringService()
@@ -0,0 +1,614 @@
+// app/services/driver_wallet_service.ts
+import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import logger from '@adonisjs/core/services/logger'
+import { cuid } from '@adonisjs/core/helpers'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import type Driver from '#models/driver'
+import LedgerAccount, { LedgerAccountType } from '#models/ledger_account'
+import LedgerTransaction, { LedgerTransactionType } from '#models/ledger_transaction'
+import LedgerEntry from '#models/ledger_entry'
+import CodCollection from '#models/cod_collection'
+import OrderTransaction, {
+  OrderTransactionStatus,
+  OrderTransactionType,
+  type PaymentMethod,
+} from '#models/order_transaction'
+import paymentService from '#services/payment_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_CURRENCY = 'CFA'
+const DEFAULT_MIN_WITHDRAWAL_AMOUNT = 1000
+const DEFAULT_DAILY_WITHDRAWAL_LIMIT = 200_000 // Montant cumulé par livreur et par jour
+const DEFAULT_DAILY_WITHDRAWAL_COUNT = 3 // Nombre de retraits par livreur et par jour
+
+const DRIVER_WALLET_PREFIX = 'driver_wallet:'
+const DRIVER_CASH_PREFIX = 'driver_cash:'
+const COMPANY_BALANCE_PREFIX = 'company_balance:'
+
+// Comptes plateforme, contreparties des portefeuilles livreurs
+export const PLATFORM_ACCOUNTS = {
+  DRIVER_EARNINGS: 'platform:driver_earnings', // Charge : rémunération des missions
+  DRIVER_BONUSES: 'platform:driver_bonuses', // Charge : bonus
+  DRIVER_PENALTIES: 'platform:driver_penalties', // Produit : pénalités
+  PAYOUTS_IN_TRANSIT: 'platform:payouts_in_transit', // Retraits demandés, non confirmés par la passerelle
+  GATEWAY_PAYOUTS: 'platform:gateway_payouts', // Retraits versés par les passerelles
+  CLIENT_DEPOSITS: 'platform:client_deposits', // Rechargements des soldes prépayés encaissés
+  CLIENT_REVENUE: 'platform:client_revenue', // Produit : commandes débitées des soldes prépayés
+  COD_PAYABLE: 'platform:cod_payable', // Espèces encaissées à la livraison pour le compte des entreprises
+  COD_REMITTANCES: 'platform:cod_remittances', // Espèces reversées par les livreurs
+} as const
+
+export interface LedgerLine {
+  accountCode: string
+  amount: number // Positif : crédit du compte, négatif : débit
+}
+
+export interface PostOptions {
+  type: LedgerTransactionType
+  idempotencyKey: string
+  lines: LedgerLine[]
+  driverId?: string | null
+  companyId?: string | null
+  orderId?: string | null
+  orderTransactionId?: string | null
+  description?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface WithdrawalRequest {
+  amount: number
+  provider: PaymentMethod
+  number: string
+}
+
+const WITHDRAWAL_COUNTED_STATUSES = [OrderTransactionStatus.PENDING, OrderTransactionStatus.SUCCESS]
+
+/**
+ * Portefeuille livreur en partie double : chaque opération (gain de mission, bonus, pénalité, retrait)
+ * passe des écritures équilibrées entre le portefeuille et un compte plateforme. Le retrait débite le
+ * portefeuille à la demande (fonds en transit), puis est soldé ou contre-passé selon le résultat de la
+ * passerelle. Les espèces encaissées à la livraison sont dues sur un compte distinct (driver_cash),
+ * compensé sur le portefeuille dès qu'il est créditeur.
+ */
+class DriverWalletService {
+  get currency(): string {
+    return env.get('WALLET_CURRENCY', DEFAULT_CURRENCY)
+  }
+
+  get minWithdrawalAmount(): number {
+    return env.get('WALLET_MIN_WITHDRAWAL_AMOUNT', DEFAULT_MIN_WITHDRAWAL_AMOUNT)
+  }
+
+  get dailyWithdrawalLimit(): number {
+    return env.get('WALLET_DAILY_WITHDRAWAL_LIMIT', DEFAULT_DAILY_WITHDRAWAL_LIMIT)
+  }
+
+  get dailyWithdrawalCount(): number {
+    return env.get('WALLET_DAILY_WITHDRAWAL_COUNT', DEFAULT_DAILY_WITHDRAWAL_COUNT)
+  }
+
+  walletCode(driverId: string): string {
+    return `${DRIVER_WALLET_PREFIX}${driverId}`
+  }
+
+  companyBalanceCode(companyId: string): string {
+    return `${COMPANY_BALANCE_PREFIX}${companyId}`
+  }
+
+  cashDueCode(driverId: string): string {
+    return `${DRIVER_CASH_PREFIX}${driverId}`
+  }
+
+  /**
+   * Opération déjà passée avec cette clé d'idempotence.
+   */
+  async findPosted(
+    trx: TransactionClientContract,
+    idempotencyKey: string
+  ): Promise<LedgerTransaction | null> {
+    return LedgerTransaction.query({ client: trx }).where('idempotency_key', idempotencyKey).first()
+  }
+
+  /**
+   * Passe une opération équilibrée. Rejouer la même clé d'idempotence renvoie l'opération existante
+   * sans nouvelle écriture.
+   */
+  async post(trx: TransactionClientContract, options: PostOptions): Promise<LedgerTransaction> {
+    const total = options.lines.reduce((sum, line) => sum + line.amount, 0)
+    if (total !== 0 || options.lines.some((line) => !Number.isInteger(line.amount))) {
+      throw new Error(`Écritures déséquilibrées pour ${options.idempotencyKey} (total ${total}).`)
+    }
+
+    const existing = await this.findPosted(trx, options.idempotencyKey)
+    if (existing) return existing
+
+    // Verrouillage dans un ordre stable pour éviter les interblocages entre opérations concurrentes
+    const accounts = new Map<string, LedgerAccount>()
+    for (const code of [...new Set(options.lines.map((line) => line.accountCode))].sort()) {
+      accounts.set(code, await this.lockAccount(trx, code))
+    }
+
+    const transaction = await LedgerTransaction.create(
+      {
+        type: options.type,
+        idempotency_key: options.idempotencyKey,
+        driver_id: options.driverId ?? null,
+        company_id: options.companyId ?? null,
+        order_id: options.orderId ?? null,
+        order_transaction_id: options.orderTransactionId ?? null,
+        description: options.description ?? null,
+        metadata: options.metadata ?? {},
+      },
+      { client: trx }
+    )
+
+    for (const line of options.lines) {
+      if (line.amount === 0) continue
+      const account = accounts.get(line.accountCode)!
+      account.balance += line.amount
+      await account.useTransaction(trx).save()
+      await LedgerEntry.create(
+        {
+          ledger_transaction_id: transaction.id,
+          ledger_account_id: account.id,
+          amount: line.amount,
+          balance_after: account.balance,
+        },
+        { client: trx }
+      )
+    }
+    return transaction
+  }
+
+  /**
+   * Crédite le portefeuille de la rémunération d'une mission (OrderTransaction DRIVER_PAYMENT),
+   * puis compense les espèces encaissées encore dues.
+   */
+  async recordEarning(trx: TransactionClientContract, orderTransaction: OrderTransaction) {
+    // Compte des espèces dues verrouillé en premier, comme à l'encaissement (pas d'interblocage)
+    await this.lockAccount(trx, this.cashDueCode(orderTransaction.driver_id!))
+    const transaction = await this.post(trx, {
+      type: LedgerTransactionType.DRIVER_EARNING,
+      idempotencyKey: `order_transaction:${orderTransaction.id}`,
+      driverId: orderTransaction.driver_id,
+      orderId: orderTransaction.order_id,
+      orderTransactionId: orderTransaction.id,
+      description: `Mission ${orderTransaction.order_id}`,
+      lines: [
+        { accountCode: PLATFORM_ACCOUNTS.DRIVER_EARNINGS, amount: -orderTransaction.amount },
+        {
+          accountCode: this.walletCode(orderTransaction.driver_id!),
+          amount: orderTransaction.amount,
+        },
+      ],
+    })
+    await this.settleCashDue(
+      trx,
+      orderTransaction.driver_id!,
+      `order_transaction:${orderTransaction.id}`
+    )
+    return transaction
+  }
+
+  /**
+   * Bonus ou pénalité : OrderTransaction (DRIVER_BONUS / DRIVER_PENALTY) et écritures associées.
+   * Une pénalité peut rendre le solde négatif ; les retraits sont alors bloqués jusqu'à compensation.
+   */
+  async recordAdjustment(
+    driver: Driver,
+    adjustment: {
+      type: OrderTransactionType.DRIVER_BONUS | OrderTransactionType.DRIVER_PENALTY
+      amount: number
+      reason: string
+      orderId?: string | null
+      createdBy: string
+    }
+  ): Promise<OrderTransaction> {
+    const isBonus = adjustment.type === OrderTransactionType.DRIVER_BONUS
+    return db.transaction(async (trx) => {
+      const orderTransaction = await OrderTransaction.create(
+        {
+          driver_id: driver.id,
+          order_id: adjustment.orderId ?? null,
+          company_id: driver.company_id ?? null,
+          currency: this.currency,
+          type: adjustment.type,
+          payment_method: null,
+          amount: adjustment.amount,
+          status: OrderTransactionStatus.SUCCESS,
+          payment_date: DateTime.now(),
+          history_status: [
+            { status: OrderTransactionStatus.SUCCESS, timestamp: DateTime.now().toISO() },
+          ],
+          metadata: { reason: adjustment.reason, created_by: adjustment.createdBy },
+        },
+        { client: trx }
+      )
+
+      if (isBonus) {
+        await this.lockAccount(trx, this.cashDueCode(driver.id))
+      }
+      const platformAccount = isBonus
+        ? PLATFORM_ACCOUNTS.DRIVER_BONUSES
+        : PLATFORM_ACCOUNTS.DRIVER_PENALTIES
+      const walletAmount = isBonus ? adjustment.amount : -adjustment.amount
+      await this.post(trx, {
+        type: isBonus ? LedgerTransactionType.DRIVER_BONUS : LedgerTransactionType.DRIVER_PENALTY,
+        idempotencyKey: `order_transaction:${orderTransaction.id}`,
+        driverId: driver.id,
+        orderId: orderTransaction.order_id,
+        orderTransactionId: orderTransaction.id,
+        description: adjustment.reason,
+        lines: [
+          { accountCode: platformAccount, amount: -walletAmount },
+          { accountCode: this.walletCode(driver.id), amount: walletAmount },
+        ],
+      })
+      if (isBonus) {
+        await this.settleCashDue(trx, driver.id, `order_transaction:${orderTransaction.id}`)
+      }
+      return orderTransaction
+    })
+  }
+
+  /**
+   * Solde du portefeuille et état des plafonds de retrait du jour.
+   */
+  async getBalance(driverId: string) {
+    const account = await LedgerAccount.findBy('code', this.walletCode(driverId))
+    const cashAccount = await LedgerAccount.findBy('code', this.cashDueCode(driverId))
+    const usage = await this.withdrawalUsageToday(driverId)
+    const pending = await OrderTransaction.query()
+      .where('driver_id', driverId)
+      .where('type', OrderTransactionType.DRIVER_WITHDRAWAL)
+      .where('status', OrderTransactionStatus.PENDING)
+      .sum('amount as total')
+      .first()
+    const balance = account?.balance ?? 0
+
+    return {
+      currency: account?.currency ?? this.currency,
+      balance, // Retraits en cours déjà déduits
+      pending_withdrawals: Number(pending?.$extras.total ?? 0),
+      cash_due: Math.max(0, -(cashAccount?.balance ?? 0)), // Espèces encaissées à reverser
+      withdrawal_limits: {
+        min_amount: this.minWithdrawalAmount,
+        daily_amount: this.dailyWithdrawalLimit,
+        daily_count: this.dailyWithdrawalCount,
+        withdrawn_today: usage.amount,
+        withdrawals_today: usage.count,
+        available_today:
+          usage.count >= this.dailyWithdrawalCount
+            ? 0
+            : Math.max(0, Math.min(balance, this.dailyWithdrawalLimit - usage.amount)),
+      },
+    }
+  }
+
+  /**
+   * Relevé du portefeuille : écritures du compte, de la plus récente à la plus ancienne.
+   */
+  async getStatement(
+    driverId: string,
+    options: { page: number; perPage: number; from?: DateTime; to?: DateTime }
+  ) {
+    const query = LedgerEntry.query()
+      .whereHas('account', (accountQuery) => {
+        accountQuery.where('code', this.walletCode(driverId))
+      })
+      .preload('transaction')
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+    if (options.from) query.where('created_at', '>=', options.from.toSQL()!)
+    if (options.to) query.where('created_at', '<', options.to.toSQL()!)
+
+    const entries = await query.paginate(options.page, options.perPage)
+    return {
+      meta: entries.getMeta(),
+      data: entries.all().map((entry) => ({
+        id: entry.id,
+        type: entry.transaction.type,
+        amount: entry.amount,
+        balance_after: entry.balance_after,
+        description: entry.transaction.description,
+        order_id: entry.transaction.order_id,
+        order_transaction_id: entry.transaction.order_transaction_id,
+        created_at: entry.created_at.toISO(),
+      })),
+    }
+  }
+
+  /**
+   * Demande de retrait vers un compte mobile money actif du livreur. Le portefeuille est débité
+   * immédiatement ; le versement est lancé après commit.
+   */
+  async requestWithdrawal(
+    driver: Driver,
+    request: WithdrawalRequest
+  ): Promise<{ withdrawal: OrderTransaction } | { error: string }> {
+    if (request.amount < this.minWithdrawalAmount) {
+      return { error: `Le montant minimum de retrait est de ${this.minWithdrawalAmount}.` }
+    }
+    const account = (driver.mobile_money ?? []).find(
+      (pm) =>
+        pm.provider === request.provider && pm.number === request.number && pm.status === 'active'
+    )
+    if (!account) {
+      return { error: 'Compte mobile money inconnu ou inactif.' }
+    }
+
+    const trx = await db.transaction()
+    let withdrawal: OrderTransaction
+    try {
+      // Espèces dues compensées d'abord : seul le solde restant peut être retiré
+      await this.settleCashDue(trx, driver.id, `withdrawal_request:${cuid()}`)
+      // Le verrou du portefeuille sérialise les demandes concurrentes d'un même livreur
+      const wallet = await this.lockAccount(trx, this.walletCode(driver.id))
+      const usage = await this.withdrawalUsageToday(driver.id, trx)
+      const limitError = this.withdrawalLimitError(request.amount, wallet.balance, usage)
+      if (limitError) {
+        await trx.rollback()
+        return { error: limitError }
+      }
+
+      withdrawal = await OrderTransaction.create(
+        {
+          driver_id: driver.id,
+          order_id: null,
+          company_id: driver.company_id ?? null,
+          currency: wallet.currency,
+          type: OrderTransactionType.DRIVER_WITHDRAWAL,
+          payment_method: request.provider,
+          amount: request.amount,
+          status: OrderTransactionStatus.PENDING,
+          history_status: [
+            { status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() },
+          ],
+          metadata: { recipient_number: request.number },
+        },
+        { client: trx }
+      )
+      await this.post(trx, {
+        type: LedgerTransactionType.WITHDRAWAL_REQUESTED,
+        idempotencyKey: `withdrawal:${withdrawal.id}:requested`,
+        driverId: driver.id,
+        orderTransactionId: withdrawal.id,
+        description: `Retrait ${request.provider} ${request.number}`,
+        lines: [
+          { accountCode: wallet.code, amount: -request.amount },
+          { accountCode: PLATFORM_ACCOUNTS.PAYOUTS_IN_TRANSIT, amount: request.amount },
+        ],
+      })
+      await trx.commit()
+    } catch (error) {
+      if (!trx.isCompleted) await trx.rollback()
+      throw error
+    }
+
+    // Versement hors transaction : la réponse au livreur n'attend pas la passerelle
+    this.executeWithdrawal(withdrawal.id).catch((error) => {
+      logger.error(
+        { err: error, withdrawalId: withdrawal.id },
+        'Erreur lors du versement du retrait. Le retrait reste en attente.'
+      )
+    })
+    return { withdrawal }
+  }
+
+  /**
+   * Contrôle d'un retrait : solde disponible, puis nombre et montant cumulés du jour.
+   * Retourne le message d'erreur, ou null si le retrait est possible.
+   */
+  withdrawalLimitError(
+    amount: number,
+    balance: number,
+    usage: { amount: number; count: number }
+  ): string | null {
+    if (balance < amount) return 'Solde insuffisant.'
+    if (usage.count >= this.dailyWithdrawalCount) {
+      return `Nombre maximum de retraits par jour atteint (${this.dailyWithdrawalCount}).`
+    }
+    if (usage.amount + amount > this.dailyWithdrawalLimit) {
+      return `Plafond journalier de retrait dépassé (reste ${Math.max(0, this.dailyWithdrawalLimit - usage.amount)}).`
+    }
+    return null
+  }
+
+  /**
+   * Retrait avec son statut, rafraîchi auprès de la passerelle s'il est encore en attente.
+   */
+  async getWithdrawal(driverId: string, withdrawalId: string): Promise<OrderTransaction | null> {
+    const withdrawal = await OrderTransaction.query()
+      .where('id', withdrawalId)
+      .where('driver_id', driverId)
+      .where('type', OrderTransactionType.DRIVER_WITHDRAWAL)
+      .first()
+    if (!withdrawal || withdrawal.status !== OrderTransactionStatus.PENDING) return withdrawal
+
+    // Le grand livre suit via l'événement payment:transaction_updated
+    if (withdrawal.transaction_reference) {
+      await paymentService.checkAndUpdatePendingTransaction(withdrawal.id)
+      await withdrawal.refresh()
+    }
+    return withdrawal
+  }
+
+  async listWithdrawals(driverId: string, page: number, perPage: number) {
+    return OrderTransaction.query()
+      .where('driver_id', driverId)
+      .where('type', OrderTransactionType.DRIVER_WITHDRAWAL)
+      .orderBy('created_at', 'desc')
+      .paginate(page, perPage)
+  }
+
+  /**
+   * Répercute le statut du retrait sur le grand livre : versé (fonds en transit -> passerelle) ou
+   * échoué (fonds en transit -> portefeuille). Sans effet tant que le retrait est en attente ;
+   * idempotent. Appelée sur payment:transaction_updated.
+   */
+  async syncWithdrawal(withdrawalId: string): Promise<void> {
+    await db.transaction(async (trx) => {
+      const withdrawal = await OrderTransaction.query({ client: trx })
+        .where('id', withdrawalId)
+        .where('type', OrderTransactionType.DRIVER_WITHDRAWAL)
+        .forUpdate()
+        .first()
+      if (!withdrawal || withdrawal.status === OrderTransactionStatus.PENDING) return
+
+      const succeeded = withdrawal.status === OrderTransactionStatus.SUCCESS
+      await this.post(trx, {
+        type: succeeded
+          ? LedgerTransactionType.WITHDRAWAL_SETTLED
+          : LedgerTransactionType.WITHDRAWAL_REVERSED,
+        idempotencyKey: `withdrawal:${withdrawal.id}:${succeeded ? 'settled' : 'reversed'}`,
+        driverId: withdrawal.driver_id,
+        orderTransactionId: withdrawal.id,
+        description: succeeded ? 'Retrait versé' : 'Retrait échoué, montant recrédité',
+        metadata: { transaction_reference: withdrawal.transaction_reference },
+        lines: [
+          { accountCode: PLATFORM_ACCOUNTS.PAYOUTS_IN_TRANSIT, amount: -withdrawal.amount },
+          {
+            accountCode: succeeded
+              ? PLATFORM_ACCOUNTS.GATEWAY_PAYOUTS
+              : this.walletCode(withdrawal.driver_id!),
+            amount: withdrawal.amount,
+          },
+        ],
+      })
+    })
+  }
+
+  /**
+   * Compense les espèces dues par le livreur sur son portefeuille, dans la limite du solde positif.
+   * `reference` identifie le fait déclencheur (gain, bonus, encaissement) : une seule compensation
+   * par référence.
+   */
+  async settleCashDue(
+    trx: TransactionClientContract,
+    driverId: string,
+    reference: string
+  ): Promise<LedgerTransaction | null> {
+    const cash = await this.lockAccount(trx, this.cashDueCode(driverId))
+    const wallet = await this.lockAccount(trx, this.walletCode(driverId))
+    const amount = Math.min(wallet.balance, -cash.balance)
+    if (amount <= 0) return null
+
+    const transaction = await this.post(trx, {
+      type: LedgerTransactionType.COD_SETTLED,
+      idempotencyKey: `cod_settlement:${reference}`,
+      driverId,
+      description: 'Espèces encaissées compensées sur le portefeuille',
+      metadata: { reference },
+      lines: [
+        { accountCode: wallet.code, amount: -amount },
+        { accountCode: cash.code, amount },
+      ],
+    })
+    await this.coverCollections(trx, driverId)
+    return transaction
+  }
+
+  /**
+   * Marque reversés les encaissements couverts par les reversements et compensations : les plus
+   * récents, à hauteur des espèces encore dues, restent ouverts.
+   */
+  async coverCollections(trx: TransactionClientContract, driverId: string): Promise<void> {
+    const cash = await this.lockAccount(trx, this.cashDueCode(driverId))
+    const open = await CodCollection.query({ client: trx })
+      .where('driver_id', driverId)
+      .whereNull('remitted_at')
+      .where('collected_amount', '>', 0)
+      .orderBy('collected_at', 'desc')
+    const covered = this.coveredCollectionIds(open, Math.max(0, -cash.balance))
+    if (covered.length === 0) return
+    await CodCollection.query({ client: trx })
+      .whereIn('id', covered)
+      .update({ remitted_at: DateTime.now().toSQL(), updated_at: DateTime.now().toSQL() })
+  }
+
+  /**
+   * Ids des encaissements `open` (triés du plus récent au plus ancien) au-delà des `cashDue`
+   * encore dus.
+   */
+  coveredCollectionIds(open: CodCollection[], cashDue: number): string[] {
+    let stillDue = cashDue
+    const covered: string[] = []
+    for (const collection of open) {
+      if (stillDue > 0) {
+        stillDue -= collection.collected_amount
+        continue
+      }
+      covered.push(collection.id)
+    }
+    return covered
+  }
+
+  private async executeWithdrawal(withdrawalId: string): Promise<void> {
+    const withdrawal = await OrderTransaction.findOrFail(withdrawalId)
+    await paymentService.initiateDriverPayout(
+      withdrawal.id,
+      {
+        provider: withdrawal.payment_method!,
+        number: String(withdrawal.metadata?.recipient_number ?? ''),
+      },
+      withdrawal.amount
+    )
+  }
+
+  private async withdrawalUsageToday(
+    driverId: string,
+    client?: TransactionClientContract
+  ): Promise<{ amount: number; count: number }> {
+    const row = await OrderTransaction.query({ client })
+      .where('driver_id', driverId)
+      .where('type', OrderTransactionType.DRIVER_WITHDRAWAL)
+      .whereIn('status', WITHDRAWAL_COUNTED_STATUSES)
+      .where('created_at', '>=', DateTime.now().startOf('day').toSQL()!)
+      .sum('amount as total')
+      .count('* as total_count')
+      .first()
+    return {
+      amount: Number(row?.$extras.total ?? 0),
+      count: Number(row?.$extras.total_count ?? 0),
+    }
+  }
+
+  /**
+   * Crée le compte à la première utilisation puis le verrouille (SELECT ... FOR UPDATE).
+   * Utilisée aussi pour sérialiser les débits du solde prépayé d'une entreprise.
+   */
+  async lockAccount(trx: TransactionClientContract, code: string): Promise<LedgerAccount> {
+    const driverId = code.startsWith(DRIVER_WALLET_PREFIX)
+      ? code.slice(DRIVER_WALLET_PREFIX.length)
+      : code.startsWith(DRIVER_CASH_PREFIX)
+        ? code.slice(DRIVER_CASH_PREFIX.length)
+        : null
+    const companyId = code.startsWith(COMPANY_BALANCE_PREFIX)
+      ? code.slice(COMPANY_BALANCE_PREFIX.length)
+      : null
+    await trx
+      .knexQuery()
+      .table('ledger_accounts')
+      .insert({
+        id: cuid(),
+        code,
+        type: code.startsWith(DRIVER_CASH_PREFIX)
+          ? LedgerAccountType.DRIVER_CASH
+          : driverId
+            ? LedgerAccountType.DRIVER_WALLET
+            : companyId
+              ? LedgerAccountType.COMPANY_BALANCE
+              : LedgerAccountType.PLATFORM,
+        driver_id: driverId,
+        company_id: companyId,
+        currency: this.currency,
+      })
+      .onConflict('code')
+      .ignore()
+    return LedgerAccount.query({ client: trx }).where('code', code).forUpdate().firstOrFail()
+  }
+}
+
+export default new DriverWalletService()
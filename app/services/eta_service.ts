@@ -0,0 +1,305 @@
+// app/services/eta_service.ts
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import emitter from '@adonisjs/core/services/emitter'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, { OrderStatus, waypointStatus } from '#models/order'
+import { NotificationType } from '#models/notification'
+import geo_helper from '#services/geo_helper'
+import redis_helper from '#services/redis_helper'
+import routeDeviationService from '#services/route_deviation_service'
+import type { EtaUpdatedPayload } from '../contracts/events.js'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_PROJECTION_MAX_DISTANCE_METERS = 250 // Au-delà, le livreur est considéré hors du tracé du leg
+const DEFAULT_VALHALLA_MIN_INTERVAL_SECONDS = 60 // Un appel Valhalla au plus par commande sur cet intervalle
+const DEFAULT_NOTIFY_THRESHOLD_SECONDS = 600 // Décalage de l'heure d'arrivée déclenchant une notification
+
+const ETA_KEY_PREFIX = 'eta:order:'
+const ETA_NOTIFIED_KEY_PREFIX = 'eta:notified:'
+const ETA_VALHALLA_LOCK_PREFIX = 'eta:valhalla:'
+const ETA_TTL_SECONDS = 3600
+
+// Statuts pendant lesquels la position du livreur est suivie par le client
+export const TRACKABLE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.ACCEPTED,
+  OrderStatus.AT_PICKUP,
+  OrderStatus.EN_ROUTE_TO_DELIVERY,
+  OrderStatus.AT_DELIVERY_LOCATION,
+]
+
+const DONE_WAYPOINT_STATUSES = [
+  waypointStatus.COMPLETED,
+  waypointStatus.SKIPPED,
+  waypointStatus.FAILED,
+]
+
+export interface OrderEta {
+  waypoint_sequence: number
+  eta_seconds: number
+  estimated_arrival_at: string // ISO
+  method: EtaUpdatedPayload['method']
+}
+
+export interface DriverOrderEta {
+  order: Order
+  eta: OrderEta | null
+}
+
+// ETA mémorisé dans Redis (base de l'extrapolation quand Valhalla est limité)
+interface StoredEta extends OrderEta {
+  computed_at: string // ISO
+}
+
+/**
+ * ETA en direct vers le prochain waypoint en attente, recalculé à chaque position reçue du livreur.
+ * La position est projetée sur la géométrie du leg actif (OrderRouteLeg), recalculé au préalable si le livreur
+ * en est sorti durablement ; sinon, ou si aucun leg ne mène au waypoint, un appel Valhalla direct est fait
+ * (limité par commande).
+ */
+class EtaService {
+  get projectionMaxDistanceMeters(): number {
+    return env.get('ETA_PROJECTION_MAX_DISTANCE_METERS', DEFAULT_PROJECTION_MAX_DISTANCE_METERS)
+  }
+
+  get valhallaMinIntervalSeconds(): number {
+    return env.get('ETA_VALHALLA_MIN_INTERVAL_SECONDS', DEFAULT_VALHALLA_MIN_INTERVAL_SECONDS)
+  }
+
+  get notifyThresholdSeconds(): number {
+    return env.get('ETA_NOTIFY_THRESHOLD_SECONDS', DEFAULT_NOTIFY_THRESHOLD_SECONDS)
+  }
+
+  /**
+   * Recalcule l'ETA des commandes suivies du livreur, émet `order:eta_updated` pour chacune
+   * et notifie l'entreprise si l'heure d'arrivée estimée a fortement changé.
+   * Ne lève pas d'erreur : le suivi n'est jamais bloquant pour l'enregistrement de la position.
+   */
+  async refreshForDriver(
+    driverId: string,
+    position: [number, number] // lon, lat
+  ): Promise<DriverOrderEta[]> {
+    let orders: Order[]
+    try {
+      orders = await Order.query()
+        .select(['id', 'company_id', 'driver_id', 'waypoints_summary'])
+        .where('driver_id', driverId)
+        .whereRaw(
+          `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) IN (${TRACKABLE_ORDER_STATUSES.map(() => '?').join(', ')})`,
+          TRACKABLE_ORDER_STATUSES
+        )
+        .preload('company', (query) => query.select(['id', 'fcm_token']))
+    } catch (error) {
+      logger.error({ err: error, driverId }, 'Erreur recherche des commandes suivies pour ETA')
+      return []
+    }
+
+    const results: DriverOrderEta[] = []
+    for (const order of orders) {
+      let eta: OrderEta | null = null
+      try {
+        eta = await this.computeOrderEta(order, driverId, position)
+        if (eta) {
+          await emitter.emit('order:eta_updated', {
+            order_id: order.id,
+            company_id: order.company_id,
+            driver_id: driverId,
+            ...eta,
+            timestamp: DateTime.now().toISO()!,
+          })
+          await this.notifyIfShifted(order, eta)
+        }
+      } catch (error) {
+        logger.error({ err: error, orderId: order.id, driverId }, 'Erreur recalcul ETA')
+      }
+      results.push({ order, eta })
+    }
+    return results
+  }
+
+  /**
+   * Diffuse la position du livreur (`order:driver_location_updated`) pour chacune de ses commandes suivies,
+   * avec l'ETA recalculé.
+   */
+  async publishDriverPosition(driverId: string, latitude: number, longitude: number) {
+    const trackedOrders = await this.refreshForDriver(driverId, [longitude, latitude])
+    for (const { order, eta } of trackedOrders) {
+      emitter.emit('order:driver_location_updated', {
+        order_id: order.id,
+        company_id: order.company_id,
+        driver_id: driverId,
+        location: { latitude, longitude },
+        timestamp: DateTime.now().toISO()!,
+        eta_seconds: eta?.eta_seconds ?? null,
+      })
+    }
+    return trackedOrders
+  }
+
+  /**
+   * ETA vers le prochain waypoint en attente de la commande, ou null si aucun n'est calculable.
+   */
+  async computeOrderEta(
+    order: Order,
+    driverId: string,
+    position: [number, number]
+  ): Promise<OrderEta | null> {
+    const waypoints = order.waypoints_summary ?? []
+    const nextIndex = waypoints.findIndex(
+      (wp) => !wp.status || !DONE_WAYPOINT_STATUSES.includes(wp.status)
+    )
+    if (nextIndex === -1) return null
+    const target = waypoints[nextIndex]
+
+    // Le leg i relie le waypoint i au waypoint i+1 : le leg actif mène au prochain waypoint
+    if (nextIndex > 0) {
+      // Écart d'itinéraire prolongé : le leg est recalculé avant la projection
+      try {
+        await routeDeviationService.checkPosition(order, driverId, nextIndex - 1, position)
+      } catch (error) {
+        logger.error(
+          { err: error, orderId: order.id, driverId },
+          "Erreur détection d'écart d'itinéraire"
+        )
+      }
+      const projected = await this.projectOnLeg(order.id, nextIndex - 1, position)
+      if (projected !== null) {
+        return this.store(order.id, nextIndex, projected, 'route_projection')
+      }
+    }
+
+    const previous = await this.getStored(order.id)
+    if (await this.acquireValhallaSlot(order.id)) {
+      const route = await geo_helper.getDirectRouteInfo(position, target.coordinates, 'auto')
+      if (route) {
+        return this.store(order.id, nextIndex, route.durationSeconds, 'valhalla')
+      }
+    }
+
+    // Valhalla limité ou indisponible : le dernier ETA connu pour ce waypoint est décompté
+    if (previous && previous.waypoint_sequence === nextIndex) {
+      const elapsed = DateTime.now().diff(DateTime.fromISO(previous.computed_at), 'seconds').seconds
+      return this.store(
+        order.id,
+        nextIndex,
+        Math.max(0, previous.eta_seconds - elapsed),
+        'extrapolated'
+      )
+    }
+    return null
+  }
+
+  async getStored(orderId: string): Promise<StoredEta | null> {
+    const raw = await redis.get(`${ETA_KEY_PREFIX}${orderId}`)
+    return raw ? (JSON.parse(raw) as StoredEta) : null
+  }
+
+  /**
+   * Durée restante sur le leg au prorata de la portion non parcourue, ou null si le livreur
+   * est trop loin du tracé (ou si le leg n'a pas de géométrie).
+   */
+  private async projectOnLeg(
+    orderId: string,
+    legSequence: number,
+    position: [number, number]
+  ): Promise<number | null> {
+    const result = await db.rawQuery(
+      `SELECT l.duration_seconds,
+              ST_LineLocatePoint(l.geometry, p.pt) AS fraction,
+              ST_Distance(l.geometry::geography, p.pt::geography) AS distance_meters
+         FROM order_route_legs l,
+              (SELECT ST_SetSRID(ST_MakePoint(?, ?), 4326) AS pt) p
+        WHERE l.order_id = ?
+          AND l.leg_sequence = ?
+          AND l.geometry IS NOT NULL
+          AND l.duration_seconds IS NOT NULL
+        LIMIT 1`,
+      [position[0], position[1], orderId, legSequence]
+    )
+    const row = result.rows[0]
+    if (!row || Number(row.distance_meters) > this.projectionMaxDistanceMeters) return null
+    return Number(row.duration_seconds) * (1 - Number(row.fraction))
+  }
+
+  private async acquireValhallaSlot(orderId: string): Promise<boolean> {
+    const result = await redis.set(
+      `${ETA_VALHALLA_LOCK_PREFIX}${orderId}`,
+      '1',
+      'EX',
+      this.valhallaMinIntervalSeconds,
+      'NX'
+    )
+    return result === 'OK'
+  }
+
+  private async store(
+    orderId: string,
+    waypointSequence: number,
+    etaSeconds: number,
+    method: OrderEta['method']
+  ): Promise<OrderEta> {
+    const now = DateTime.now()
+    const eta: OrderEta = {
+      waypoint_sequence: waypointSequence,
+      eta_seconds: Math.round(etaSeconds),
+      estimated_arrival_at: now.plus({ seconds: Math.round(etaSeconds) }).toISO()!,
+      method,
+    }
+    const stored: StoredEta = { ...eta, computed_at: now.toISO()! }
+    await redis.set(`${ETA_KEY_PREFIX}${orderId}`, JSON.stringify(stored), 'EX', ETA_TTL_SECONDS)
+    return eta
+  }
+
+  /**
+   * Compare l'heure d'arrivée estimée à celle de la dernière notification (ou du premier calcul)
+   * pour le même waypoint, et notifie l'entreprise au-delà du seuil.
+   */
+  private async notifyIfShifted(order: Order, eta: OrderEta) {
+    const key = `${ETA_NOTIFIED_KEY_PREFIX}${order.id}`
+    const raw = await redis.get(key)
+    const baseline = raw
+      ? (JSON.parse(raw) as { waypoint_sequence: number; estimated_arrival_at: string })
+      : null
+    const reference = {
+      waypoint_sequence: eta.waypoint_sequence,
+      estimated_arrival_at: eta.estimated_arrival_at,
+    }
+
+    // Nouveau waypoint visé : la référence est réinitialisée sans notification
+    if (!baseline || baseline.waypoint_sequence !== eta.waypoint_sequence) {
+      await redis.set(key, JSON.stringify(reference), 'EX', ETA_TTL_SECONDS)
+      return
+    }
+
+    const shiftSeconds = DateTime.fromISO(eta.estimated_arrival_at).diff(
+      DateTime.fromISO(baseline.estimated_arrival_at),
+      'seconds'
+    ).seconds
+    if (Math.abs(shiftSeconds) < this.notifyThresholdSeconds) return
+
+    await redis.set(key, JSON.stringify(reference), 'EX', ETA_TTL_SECONDS)
+    if (!order.company?.fcm_token) return
+
+    const minutes = Math.round(Math.abs(shiftSeconds) / 60)
+    const arrival = DateTime.fromISO(eta.estimated_arrival_at).toFormat('HH:mm')
+    await redis_helper.enqueuePushNotification({
+      fcmToken: order.company.fcm_token,
+      title: shiftSeconds > 0 ? 'Retard estimé' : 'Arrivée avancée',
+      body:
+        shiftSeconds > 0
+          ? `Le livreur a environ ${minutes} min de retard, arrivée estimée vers ${arrival}.`
+          : `Le livreur a environ ${minutes} min d'avance, arrivée estimée vers ${arrival}.`,
+      data: {
+        type: NotificationType.MISSION_UPDATE,
+        order_id: order.id,
+        waypoint_sequence: eta.waypoint_sequence,
+        eta_seconds: eta.eta_seconds,
+        estimated_arrival_at: eta.estimated_arrival_at,
+      },
+    })
+  }
+}
+
+export default new EtaService()
@@ -2,14 +2,34 @@
 import env from '#start/env'
 import logger from '@adonisjs/core/services/logger'
 import axios, { AxiosError } from 'axios'
+import { createHash } from 'node:crypto'
+import redis from '@adonisjs/redis/services/main'
 import polyline from '@mapbox/polyline' // Pour décoder les polylines
-import { CalculationEngine, waypointStatus, type WaypointSummaryItem } from '#models/order' // Importer CalculationEngine
+import { CalculationEngine, waypointStatus, type WaypointSummaryItem, type WaypointTimeWindow } from '#models/order' // Importer CalculationEngine
 import type { LegManeuver } from '#models/order_route_leg' // Importer l'interface
 import { GeoJsonLineString } from './geo_service.js'
+import waypointSequenceOptimizer, {
+  type CostMatrix,
+  type PrecedenceConstraint,
+  type SequenceCost,
+} from '#services/waypoint_sequence_optimizer'
 
 const GEOCODING_TIMEOUT = 30000  // ms
+const GEOCODING_CACHE_KEY_PREFIX = 'geocode:'
+const DEFAULT_GEOCODING_CACHE_TTL_SECONDS = 7 * 24 * 3600 // Seuls les géocodages réussis sont mis en cache
 const ROUTING_TIMEOUT = 20000 // ms, augmenté car peut être plus long pour multi-points
 const MATRIX_TIMEOUT = 7000   // ms
+const MAX_OPTIMIZED_WAYPOINTS = 25 // Au-delà, on garde l'ordre fourni (coût de la matrice et de l'heuristique)
+const FALLBACK_SPEED_MPS = 25 / 3.6 // ~25 km/h en ville si la matrice Valhalla n'est pas disponible
+const FALLBACK_DETOUR_FACTOR = 1.3 // Distance routière estimée à partir du vol d'oiseau
+const UNREACHABLE_COST = 1e9 // Coût d'une paire non routable dans la matrice
+
+export interface GeocodedAddress {
+  coordinates: [number, number] // lon, lat
+  city?: string
+  postcode?: string
+  country_code?: string
+}
 
 // Interface pour un waypoint d'entrée pour Valhalla
 interface ValhallaLocation {
@@ -76,8 +96,50 @@ export interface OptimizedRouteDetails {
   }>
   calculation_engine: CalculationEngine
   waypoints_summary_for_order?: WaypointSummaryItem[] // Pour aider à construire Order.waypoints_summary
+  optimization: RouteOptimizationReport
+}
+
+// Waypoint d'entrée de calculateOptimizedRoute
+export interface RouteWaypointInput {
+  coordinates: [number, number] // lon, lat
+  type: 'break' | 'through' // 'break' pour un arrêt réel (pickup/delivery)
+  // Optionnel : infos pour construire le waypoints_summary de l'Order
+  address_id?: string
+  address_text?: string
+  waypoint_type_for_summary?: 'pickup' | 'delivery' // Pour distinguer de Valhalla 'type'
+  package_name_for_summary?: string
+  confirmation_code?: string
+  // Contrainte pickup avant livraison : une livraison suit tous les pickups du même groupe
+  // qui la précèdent dans la liste fournie (groupe = commande d'origine pour une tournée groupée)
+  precedence_group?: string
+  time_window?: WaypointTimeWindow // Créneau de passage demandé, recopié dans le waypoints_summary
+  cod_amount?: number // Paiement à la livraison, recopié dans le waypoints_summary
+}
+
+// Résultat de la réorganisation des arrêts (les coûts sont estimés via la matrice)
+export interface RouteOptimizationReport {
+  applied: boolean // false si l'ordre fourni a été conservé
+  method: 'local_tsp' | 'none'
+  matrix_source: 'valhalla' | 'straight_line' | null
+  visit_order: number[] // Indices des waypoints fournis, dans l'ordre de visite
+  original: SequenceCost // Coût de l'ordre fourni par le client
+  optimized: SequenceCost // Coût de l'ordre retenu
+  savings: SequenceCost // original - optimized
 }
 
+/**
+ * Distance à vol d'oiseau (formule de haversine) entre deux points [lon, lat], en mètres.
+ */
+export function haversineMeters(from: [number, number], to: [number, number]): number {
+  const R = 6_371_000
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(to[1] - from[1])
+  const dLon = toRad(to[0] - from[0])
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from[1])) * Math.cos(toRad(to[1])) * Math.sin(dLon / 2) ** 2
+  return 2 * R * Math.asin(Math.sqrt(a))
+}
 
 class GeoHelper {
   private nominatimUrl = env.get('NOMINATIM_URL')
@@ -91,31 +153,31 @@ class GeoHelper {
     // Idem pour Nominatim et OSRM si utilisés
   }
 
-  // --- Géocodage (inchangé par rapport à ta version, mais le garder ici) ---
-  async geocodeAddress(addressString: string): Promise<{
-    coordinates: [number, number]; // lon, lat
-    city?: string;
-    postcode?: string;
-    country_code?: string;
-    // rawDetails?: any;
-  } | null> {
+  // --- Géocodage (résultats mis en cache dans Redis : les imports en masse répètent souvent les mêmes adresses) ---
+  async geocodeAddress(addressString: string): Promise<GeocodedAddress | null> {
     if (!this.nominatimUrl) {
       logger.error('NOMINATIM_URL non défini dans .env pour geocodeAddress')
       return null
     }
+    const cacheKey = `${GEOCODING_CACHE_KEY_PREFIX}${createHash('sha1').update(addressString.trim().toLowerCase()).digest('hex')}`
+    const cached = await this.readGeocodingCache(cacheKey)
+    if (cached) return cached
+
     const url = `${this.nominatimUrl}/search?format=json&q=${encodeURIComponent(addressString)}&limit=1&addressdetails=1`
     try {
       const response = await axios.get(url, { timeout: GEOCODING_TIMEOUT })
       if (response.status === 200 && response.data && response.data.length > 0) {
         const result = response.data[0]
         if (result.lon && result.lat) {
-          return {
+          const geocoded: GeocodedAddress = {
             coordinates: [parseFloat(result.lon), parseFloat(result.lat)],
             city: result.address?.city || result.address?.town || result.address?.village,
             postcode: result.address?.postcode,
             country_code: result.address?.country_code?.toUpperCase(),
             // rawDetails: result,
           }
+          await this.writeGeocodingCache(cacheKey, geocoded)
+          return geocoded
         }
       }
       logger.warn({ addressString, responseData: response.data }, 'Geocoding failed or no results')
@@ -126,6 +188,26 @@ class GeoHelper {
     }
   }
 
+  // Le cache ne doit jamais empêcher le géocodage : une erreur Redis équivaut à une absence de cache
+  private async readGeocodingCache(cacheKey: string): Promise<GeocodedAddress | null> {
+    try {
+      const raw = await redis.get(cacheKey)
+      return raw ? (JSON.parse(raw) as GeocodedAddress) : null
+    } catch (error) {
+      logger.warn({ err: error, cacheKey }, 'Lecture du cache de géocodage impossible')
+      return null
+    }
+  }
+
+  private async writeGeocodingCache(cacheKey: string, geocoded: GeocodedAddress) {
+    try {
+      const ttl = env.get('GEOCODING_CACHE_TTL_SECONDS', DEFAULT_GEOCODING_CACHE_TTL_SECONDS)
+      await redis.set(cacheKey, JSON.stringify(geocoded), 'EX', ttl)
+    } catch (error) {
+      logger.warn({ err: error, cacheKey }, 'Écriture du cache de géocodage impossible')
+    }
+  }
+
   /**
      * Calcule le temps de trajet et optionnellement la distance
      * d'un point de départ à un point d'arrivée, via Valhalla /route.
@@ -182,25 +264,22 @@ class GeoHelper {
   /**
    * Calcule un itinéraire optimisé multi-points via Valhalla.
    * Prend une liste de waypoints (points de passage).
-   * Le premier waypoint DOIT être la position actuelle du livreur.
+   * Le premier waypoint DOIT être la position actuelle du livreur (il reste en tête).
+   * Les autres arrêts sont réordonnés (TSP local sur la matrice /sources_to_targets)
+   * en gardant chaque pickup avant ses livraisons, sauf si `optimize` vaut false.
    */
   async calculateOptimizedRoute(
-    waypoints: Array<{
-      coordinates: [number, number] // lon, lat
-      type: 'break' | 'through' // 'break' pour un arrêt réel (pickup/delivery)
-      // Optionnel : infos pour construire le waypoints_summary de l'Order
-      address_id?: string
-      address_text?: string
-      waypoint_type_for_summary?: 'pickup' | 'delivery' // Pour distinguer de Valhalla 'type'
-      package_name_for_summary?: string
-      confirmation_code?: string
-    }>
+    inputWaypoints: RouteWaypointInput[],
+    options: { optimize?: boolean } = {}
   ): Promise<OptimizedRouteDetails | null> {
-    if (!this.valhallaUrl || waypoints.length < 2) {
+    if (!this.valhallaUrl || inputWaypoints.length < 2) {
       logger.error('Valhalla URL non défini ou nombre de waypoints insuffisant (<2).')
       return null
     }
 
+    const optimization = await this.optimizeWaypointOrder(inputWaypoints, options.optimize ?? true)
+    const waypoints = optimization.visit_order.map((index) => inputWaypoints[index])
+
     const valhallaLocations: ValhallaLocation[] = waypoints.map(wp => ({
       lon: wp.coordinates[0],
       lat: wp.coordinates[1],
@@ -311,6 +390,8 @@ class GeoHelper {
               end_at: null,
               photo_urls: [],
               name: destinationWaypointInfo.package_name_for_summary,
+              time_window: destinationWaypointInfo.time_window,
+              cod_amount: destinationWaypointInfo.cod_amount,
             });
           }
         }
@@ -329,6 +410,7 @@ class GeoHelper {
           })),
           calculation_engine: CalculationEngine.VALHALLA,
           waypoints_summary_for_order: waypointsSummaryForOrder,
+          optimization,
         };
       } else {
         logger.warn({ status: response.status, data: response.data }, `Valhalla Route API (optimized) returned unexpected data.`)
@@ -340,6 +422,127 @@ class GeoHelper {
     }
   }
 
+  /**
+   * Réordonne les arrêts (le premier reste fixe) en respectant les contraintes pickup -> livraison.
+   * En cas d'échec de la matrice ou de trop nombreux arrêts, l'ordre fourni est conservé.
+   */
+  private async optimizeWaypointOrder(
+    waypoints: RouteWaypointInput[],
+    enabled: boolean
+  ): Promise<RouteOptimizationReport> {
+    const identity = waypoints.map((_, index) => index)
+    const zero: SequenceCost = { duration_seconds: 0, distance_meters: 0 }
+    const unchanged: RouteOptimizationReport = {
+      applied: false,
+      method: 'none',
+      matrix_source: null,
+      visit_order: identity,
+      original: zero,
+      optimized: zero,
+      savings: zero,
+    }
+    // Avec 2 points (départ fixe + 1 arrêt), il n'y a rien à réordonner
+    if (!enabled || waypoints.length < 3 || waypoints.length > MAX_OPTIMIZED_WAYPOINTS) {
+      return unchanged
+    }
+
+    const coordinates = waypoints.map((wp) => wp.coordinates)
+    let matrix = await this.getCostMatrix(coordinates)
+    let matrixSource: RouteOptimizationReport['matrix_source'] = 'valhalla'
+    if (!matrix) {
+      matrix = this.straightLineMatrix(coordinates)
+      matrixSource = 'straight_line'
+    }
+
+    const result = waypointSequenceOptimizer.optimize(matrix, this.buildPrecedenceConstraints(waypoints))
+    const report: RouteOptimizationReport = {
+      applied: result.improved,
+      method: 'local_tsp',
+      matrix_source: matrixSource,
+      visit_order: result.visit_order,
+      original: result.original,
+      optimized: result.optimized,
+      savings: {
+        duration_seconds: result.original.duration_seconds - result.optimized.duration_seconds,
+        distance_meters: result.original.distance_meters - result.optimized.distance_meters,
+      },
+    }
+    logger.info(
+      { visitOrder: report.visit_order, savings: report.savings, matrixSource },
+      'Ordre des waypoints optimisé'
+    )
+    return report
+  }
+
+  /**
+   * Une livraison doit suivre chaque pickup du même groupe placé avant elle dans la liste fournie.
+   * Le premier waypoint étant fixe, il n'a pas besoin de contrainte.
+   */
+  private buildPrecedenceConstraints(waypoints: RouteWaypointInput[]): PrecedenceConstraint[] {
+    const constraints: PrecedenceConstraint[] = []
+    waypoints.forEach((delivery, after) => {
+      if (delivery.waypoint_type_for_summary !== 'delivery') return
+      for (let before = 1; before < after; before++) {
+        const pickup = waypoints[before]
+        if (pickup.waypoint_type_for_summary === 'pickup' && pickup.precedence_group === delivery.precedence_group) {
+          constraints.push({ before, after })
+        }
+      }
+    })
+    return constraints
+  }
+
+  /**
+   * Matrice durée/distance entre tous les points via Valhalla /sources_to_targets.
+   */
+  async getCostMatrix(
+    coordinates: [number, number][], // lon, lat
+    costingModel: string = 'auto'
+  ): Promise<CostMatrix | null> {
+    if (!this.valhallaUrl) return null
+
+    const locations = coordinates.map((c) => ({ lon: c[0], lat: c[1] }))
+    const requestBody = {
+      sources: locations,
+      targets: locations,
+      costing: costingModel,
+      directions_options: { units: 'kilometers' },
+    }
+    const url = `${this.valhallaUrl}/sources_to_targets`
+
+    try {
+      const response = await axios.post<{
+        sources_to_targets: Array<Array<{ time: number | null; distance: number | null }>>
+      }>(url, requestBody, { timeout: MATRIX_TIMEOUT })
+
+      const rows = response.data?.sources_to_targets
+      if (response.status !== 200 || !rows || rows.length !== coordinates.length) {
+        logger.warn({ status: response.status, data: response.data }, 'Valhalla Matrix API returned unexpected data.')
+        return null
+      }
+      // Une paire non routable reçoit un coût prohibitif plutôt que de faire échouer l'optimisation
+      return {
+        durations: rows.map((row) => row.map((cell) => cell.time ?? UNREACHABLE_COST)),
+        distances: rows.map((row) =>
+          row.map((cell) => (cell.distance === null ? UNREACHABLE_COST : cell.distance * 1000))
+        ),
+      }
+    } catch (error) {
+      this.logApiError('Valhalla Matrix', url, error)
+      return null
+    }
+  }
+
+  private straightLineMatrix(coordinates: [number, number][]): CostMatrix {
+    const distances = coordinates.map((from) =>
+      coordinates.map((to) => haversineMeters(from, to) * FALLBACK_DETOUR_FACTOR)
+    )
+    return {
+      distances,
+      durations: distances.map((row) => row.map((meters) => meters / FALLBACK_SPEED_MPS)),
+    }
+  }
+
   /**
    * Calcule un itinéraire simple (A vers B) pour le reroutage d'un leg.
    */
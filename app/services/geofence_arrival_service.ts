@@ -0,0 +1,295 @@
+// app/services/geofence_arrival_service.ts
+import db from '@adonisjs/lucid/services/db'
+import logger from '@adonisjs/core/services/logger'
+import { cuid } from '@adonisjs/core/helpers'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, { OrderStatus, waypointStatus, type WaypointSummaryItem } from '#models/order'
+import OrderStatusLog from '#models/order_status_log'
+import { NotificationType } from '#models/notification'
+import orderBatchingService from '#services/order_batching_service'
+import redis_helper from '#services/redis_helper'
+import Ws from '#services/ws_service'
+import { TRACKABLE_ORDER_STATUSES } from '#services/eta_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_RADIUS_METERS = 50
+const DEFAULT_MAX_ACCURACY_METERS = 50 // Marge ajoutée au rayon au plus ; les points moins précis sont ignorés
+const DEFAULT_DWELL_SECONDS = 30 // Temps passé dans le rayon avant de valider l'arrivée
+const DEFAULT_MAX_SPEED_MPS = 2 // ~7 km/h : au-delà, le livreur ne fait que passer
+
+const FINALIZED_WAYPOINT_STATUSES = [
+  waypointStatus.COMPLETED,
+  waypointStatus.SKIPPED,
+  waypointStatus.FAILED,
+]
+
+interface LocationRow {
+  timestamp: Date
+  lon: number
+  lat: number
+  accuracy: number | null
+  speed: number | null
+  distance_meters: number
+}
+
+export interface GeofenceEvidence {
+  radius_meters: number
+  distance_meters: number // Distance du dernier point retenu
+  dwell_seconds: number
+}
+
+interface GeofenceDetection {
+  arrivedAt: DateTime // Premier point de la série passée dans le rayon
+  position: [number, number] // Dernière position retenue (lon, lat)
+  evidence: GeofenceEvidence
+}
+
+/**
+ * Arrivée automatique aux waypoints : un waypoint passe à ARRIVED quand les derniers points
+ * DriverLocationLog du livreur restent dans le rayon (élargi de la précision GPS) pendant la durée
+ * minimale, à faible vitesse. L'arrivée est journalisée avec `arrival_source: 'geofence'`.
+ */
+class GeofenceArrivalService {
+  get radiusMeters(): number {
+    return env.get('GEOFENCE_RADIUS_METERS', DEFAULT_RADIUS_METERS)
+  }
+
+  get maxAccuracyMeters(): number {
+    return env.get('GEOFENCE_MAX_ACCURACY_METERS', DEFAULT_MAX_ACCURACY_METERS)
+  }
+
+  get dwellSeconds(): number {
+    return env.get('GEOFENCE_DWELL_SECONDS', DEFAULT_DWELL_SECONDS)
+  }
+
+  get maxSpeedMps(): number {
+    return env.get('GEOFENCE_MAX_SPEED_MPS', DEFAULT_MAX_SPEED_MPS)
+  }
+
+  /**
+   * Vérifie le prochain waypoint de chaque commande suivie du livreur et enregistre les arrivées détectées.
+   * Ne lève pas d'erreur : appelé après l'enregistrement des positions.
+   */
+  async detectArrivals(driverId: string, driverUserId: string): Promise<void> {
+    let orders: Order[]
+    try {
+      orders = await Order.query()
+        .select(['id', 'waypoints_summary'])
+        .where('driver_id', driverId)
+        .whereRaw(
+          `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) IN (${TRACKABLE_ORDER_STATUSES.map(() => '?').join(', ')})`,
+          TRACKABLE_ORDER_STATUSES
+        )
+    } catch (error) {
+      logger.error(
+        { err: error, driverId },
+        'Erreur recherche des commandes pour détection géofence'
+      )
+      return
+    }
+
+    for (const order of orders) {
+      const sequence = this.nextWaypointSequence(order.waypoints_summary ?? [])
+      if (sequence === null) continue
+      const waypoint = order.waypoints_summary![sequence]
+      if (waypoint.status && waypoint.status !== waypointStatus.PENDING) continue // Déjà ARRIVED / en cours
+
+      try {
+        const detection = await this.checkDwell(driverId, waypoint.coordinates)
+        if (detection) {
+          await this.markArrived(order.id, sequence, driverId, driverUserId, detection)
+        }
+      } catch (error) {
+        logger.error(
+          { err: error, orderId: order.id, driverId, sequence },
+          'Erreur détection arrivée géofence'
+        )
+      }
+    }
+  }
+
+  /**
+   * Parcourt les positions récentes (de la plus récente à la plus ancienne) tant qu'elles restent
+   * dans le rayon à faible vitesse. L'arrivée est retenue si cette série couvre la durée minimale.
+   */
+  private async checkDwell(
+    driverId: string,
+    target: [number, number] // lon, lat
+  ): Promise<GeofenceDetection | null> {
+    const dwellSeconds = this.dwellSeconds
+    const result = await db.rawQuery(
+      `SELECT timestamp, accuracy, speed, ST_X(location) AS lon, ST_Y(location) AS lat,
+              ST_Distance(location::geography, ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography) AS distance_meters
+         FROM driver_location_logs
+        WHERE driver_id = ?
+          AND timestamp >= ?
+        ORDER BY timestamp DESC
+        LIMIT 200`,
+      [
+        target[0],
+        target[1],
+        driverId,
+        DateTime.now()
+          .minus({ seconds: dwellSeconds * 3 })
+          .toSQL(),
+      ]
+    )
+    const rows = result.rows as LocationRow[]
+
+    let latest: LocationRow | null = null
+    let earliest: LocationRow | null = null
+    for (const row of rows) {
+      const accuracy = row.accuracy === null ? 0 : Number(row.accuracy)
+      if (accuracy > this.maxAccuracyMeters) continue // Point trop imprécis : ni dedans ni dehors
+
+      const inside = Number(row.distance_meters) <= this.radiusMeters + accuracy
+      const slow = row.speed === null || Number(row.speed) <= this.maxSpeedMps
+      if (!inside || !slow) break
+
+      latest = latest ?? row
+      earliest = row
+    }
+    if (!latest || !earliest) return null
+
+    const arrivedAt = DateTime.fromJSDate(new Date(earliest.timestamp))
+    const dwelled = DateTime.fromJSDate(new Date(latest.timestamp)).diff(
+      arrivedAt,
+      'seconds'
+    ).seconds
+    if (dwelled < dwellSeconds) return null
+
+    return {
+      arrivedAt,
+      position: [Number(latest.lon), Number(latest.lat)],
+      evidence: {
+        radius_meters: this.radiusMeters,
+        distance_meters: Math.round(Number(latest.distance_meters)),
+        dwell_seconds: Math.round(dwelled),
+      },
+    }
+  }
+
+  /**
+   * Passe le waypoint à ARRIVED et la commande à AT_PICKUP / AT_DELIVERY_LOCATION, comme l'action
+   * manuelle du livreur, après revérification sous verrou (une action manuelle a pu passer entre-temps).
+   */
+  private async markArrived(
+    orderId: string,
+    sequence: number,
+    driverId: string,
+    driverUserId: string,
+    detection: GeofenceDetection
+  ): Promise<void> {
+    const trx = await db.transaction()
+    let order: Order
+    let newStatus: OrderStatus
+    try {
+      const locked = await Order.query({ client: trx })
+        .where('id', orderId)
+        .forUpdate()
+        .preload('status_logs', (q) => q.orderBy('changed_at', 'desc').limit(1))
+        .preload('company')
+        .first()
+
+      const currentStatus = locked?.status_logs[0]?.status
+      const waypoints: WaypointSummaryItem[] = JSON.parse(
+        JSON.stringify(locked?.waypoints_summary ?? [])
+      )
+      const target = waypoints[sequence]
+      if (
+        !locked ||
+        locked.driver_id !== driverId ||
+        !currentStatus ||
+        !TRACKABLE_ORDER_STATUSES.includes(currentStatus) ||
+        this.nextWaypointSequence(waypoints) !== sequence ||
+        (target.status && target.status !== waypointStatus.PENDING)
+      ) {
+        await trx.rollback()
+        return
+      }
+      order = locked
+
+      target.status = waypointStatus.ARRIVED
+      target.start_at = detection.arrivedAt
+      target.arrival_source = 'geofence'
+      order.waypoints_summary = waypoints
+      await order.useTransaction(trx).save()
+
+      newStatus =
+        target.type === 'pickup' ? OrderStatus.AT_PICKUP : OrderStatus.AT_DELIVERY_LOCATION
+      if (newStatus !== currentStatus) {
+        await OrderStatusLog.create(
+          {
+            id: cuid(),
+            order_id: order.id,
+            status: newStatus,
+            // Heure d'enregistrement : le log doit rester le plus récent face aux changements manuels.
+            // L'heure d'arrivée détectée est conservée dans start_at du waypoint et dans les métadonnées.
+            changed_at: DateTime.now(),
+            changed_by_user_id: driverUserId,
+            current_location: { type: 'Point', coordinates: detection.position },
+            metadata: {
+              waypoint_sequence: sequence,
+              arrived_at: detection.arrivedAt.toISO(),
+              waypoint_status: waypointStatus.ARRIVED,
+              waypoint_type: target.type,
+              arrival_source: 'geofence',
+              geofence: detection.evidence,
+            },
+          },
+          { client: trx }
+        )
+      }
+
+      if (order.batch_id) {
+        await orderBatchingService.syncOrderProgress(order, trx)
+      }
+      await trx.commit()
+    } catch (error) {
+      if (!trx.isCompleted) await trx.rollback()
+      throw error
+    }
+
+    logger.info(
+      { orderId, driverId, sequence, newStatus, ...detection.evidence },
+      'Arrivée au waypoint détectée par géofence'
+    )
+
+    // Le livreur voit le waypoint passer à ARRIVED sans action de sa part
+    await Ws.toDriver(driverId, 'waypoint_arrived', {
+      order_id: orderId,
+      waypoint_sequence: sequence,
+      arrival_source: 'geofence',
+      arrived_at: detection.arrivedAt.toISO(),
+    })
+
+    if (order.company?.fcm_token) {
+      const atPickup = newStatus === OrderStatus.AT_PICKUP
+      try {
+        await redis_helper.enqueuePushNotification({
+          fcmToken: order.company.fcm_token,
+          title: atPickup ? 'Livreur à la collecte' : 'Livreur à destination',
+          body: atPickup
+            ? `Votre livreur est arrivé au point de collecte pour la commande #${orderId.substring(0, 6)}.`
+            : `Votre livreur est arrivé au point de livraison pour la commande #${orderId.substring(0, 6)}.`,
+          data: { order_id: orderId, status: newStatus, type: NotificationType.MISSION_UPDATE },
+        })
+      } catch (notifError) {
+        logger.error(
+          { err: notifError, orderId },
+          'Failed to send geofence arrival notification to client'
+        )
+      }
+    }
+  }
+
+  private nextWaypointSequence(waypoints: WaypointSummaryItem[]): number | null {
+    const index = waypoints.findIndex(
+      (wp) => !(wp.status && FINALIZED_WAYPOINT_STATUSES.includes(wp.status))
+    )
+    return index === -1 ? null : index
+  }
+}
+
+export default new GeofenceArrivalService()
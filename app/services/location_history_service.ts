@@ -0,0 +1,301 @@
+// app/services/location_history_service.ts
+import db from '@adonisjs/lucid/services/db'
+import polyline from '@mapbox/polyline'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, { OrderStatus } from '#models/order'
+import OrderRouteLeg from '#models/order_route_leg'
+import OrderStatusLog from '#models/order_status_log'
+import { haversineMeters } from '#services/geo_helper'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_MAX_RANGE_HOURS = 24 // Fenêtre maximale d'une requête d'historique
+const DEFAULT_STOP_RADIUS_METERS = 30 // Rayon dans lequel le livreur est considéré immobile
+const DEFAULT_STOP_MIN_DURATION_SECONDS = 120 // Durée minimale d'un arrêt
+const DEFAULT_SIMPLIFY_TOLERANCE_METERS = 5
+
+const MAX_ACCURACY_METERS = 100 // Points moins précis ignorés (dérive GPS)
+const MAX_POINTS = 50_000
+const POLYLINE_PRECISION = 6 // Même précision que les tracés Valhalla
+const METERS_PER_DEGREE = 111_320 // Conversion approximative pour ST_Simplify en SRID 4326
+
+const FINAL_ORDER_STATUSES = [OrderStatus.SUCCESS, OrderStatus.FAILED, OrderStatus.CANCELLED]
+
+export type TrailFormat = 'geojson' | 'polyline'
+
+export interface TrailOptions {
+  format?: TrailFormat
+  toleranceMeters?: number
+  includePoints?: boolean
+}
+
+interface LocationPoint {
+  timestamp: Date
+  lon: number
+  lat: number
+  speed: number | null
+  heading: number | null
+  accuracy: number | null
+  battery_level: number | null
+}
+
+export interface LocationStop {
+  latitude: number
+  longitude: number
+  started_at: string // ISO
+  ended_at: string // ISO
+  duration_seconds: number
+  point_count: number
+}
+
+export interface DriverTrail {
+  driver_id: string
+  from: string // ISO
+  to: string // ISO
+  point_count: number
+  first_point_at: string | null
+  last_point_at: string | null
+  actual_distance_meters: number
+  trail:
+    | { format: 'geojson'; geometry: { type: 'LineString'; coordinates: number[][] } }
+    | { format: 'polyline'; polyline: string; precision: number }
+    | null
+  stops: LocationStop[]
+  points?: {
+    timestamp: string
+    latitude: number
+    longitude: number
+    speed: number | null
+    heading: number | null
+    accuracy: number | null
+    battery_level: number | null
+  }[]
+}
+
+/**
+ * Lecture des positions DriverLocationLog : tracé simplifié (ST_Simplify) en GeoJSON ou polyline,
+ * arrêts détectés, et comparaison de la distance parcourue avec la distance prévue des OrderRouteLeg
+ * (litiges, contrôle de la rémunération).
+ */
+class LocationHistoryService {
+  get maxRangeHours(): number {
+    return env.get('LOCATION_HISTORY_MAX_RANGE_HOURS', DEFAULT_MAX_RANGE_HOURS)
+  }
+
+  get stopRadiusMeters(): number {
+    return env.get('LOCATION_STOP_RADIUS_METERS', DEFAULT_STOP_RADIUS_METERS)
+  }
+
+  get stopMinDurationSeconds(): number {
+    return env.get('LOCATION_STOP_MIN_DURATION_SECONDS', DEFAULT_STOP_MIN_DURATION_SECONDS)
+  }
+
+  /**
+   * Tracé d'un livreur sur une fenêtre de temps (bornée par l'appelant à LOCATION_HISTORY_MAX_RANGE_HOURS).
+   */
+  async getTrail(
+    driverId: string,
+    from: DateTime,
+    to: DateTime,
+    options: TrailOptions = {}
+  ): Promise<DriverTrail> {
+    const bindings = [driverId, from.toSQL(), to.toSQL(), MAX_ACCURACY_METERS]
+    const filter = `driver_id = ?
+          AND timestamp BETWEEN ? AND ?
+          AND location IS NOT NULL
+          AND (accuracy IS NULL OR accuracy <= ?)`
+
+    const pointsResult = await db.rawQuery(
+      `SELECT timestamp, ST_X(location) AS lon, ST_Y(location) AS lat, speed, heading, accuracy, battery_level
+         FROM driver_location_logs
+        WHERE ${filter}
+        ORDER BY timestamp ASC
+        LIMIT ${MAX_POINTS}`,
+      bindings
+    )
+    const points = (pointsResult.rows as LocationPoint[]).map((row) => ({
+      ...row,
+      lon: Number(row.lon),
+      lat: Number(row.lat),
+    }))
+
+    let trail: DriverTrail['trail'] = null
+    let actualDistanceMeters = 0
+    if (points.length >= 2) {
+      const toleranceDegrees =
+        (options.toleranceMeters ?? DEFAULT_SIMPLIFY_TOLERANCE_METERS) / METERS_PER_DEGREE
+      const lineResult = await db.rawQuery(
+        `SELECT ST_AsGeoJSON(ST_Simplify(t.line, ?)) AS geojson,
+                ST_Length(t.line::geography) AS distance_meters
+           FROM (SELECT ST_MakeLine(location ORDER BY timestamp) AS line
+                   FROM driver_location_logs
+                  WHERE ${filter}) t`,
+        [toleranceDegrees, ...bindings]
+      )
+      const row = lineResult.rows[0]
+      actualDistanceMeters = Math.round(Number(row?.distance_meters ?? 0))
+      if (row?.geojson) {
+        const geometry = JSON.parse(row.geojson) as { type: 'LineString'; coordinates: number[][] }
+        trail =
+          options.format === 'polyline'
+            ? {
+                format: 'polyline',
+                polyline: polyline.encode(
+                  geometry.coordinates.map(([lon, lat]) => [lat, lon]),
+                  POLYLINE_PRECISION
+                ),
+                precision: POLYLINE_PRECISION,
+              }
+            : { format: 'geojson', geometry }
+      }
+    }
+
+    const result: DriverTrail = {
+      driver_id: driverId,
+      from: from.toISO()!,
+      to: to.toISO()!,
+      point_count: points.length,
+      first_point_at: points.length
+        ? DateTime.fromJSDate(new Date(points[0].timestamp)).toISO()
+        : null,
+      last_point_at: points.length
+        ? DateTime.fromJSDate(new Date(points[points.length - 1].timestamp)).toISO()
+        : null,
+      actual_distance_meters: actualDistanceMeters,
+      trail,
+      stops: this.detectStops(points),
+    }
+    if (options.includePoints) {
+      result.points = points.map((point) => ({
+        timestamp: DateTime.fromJSDate(new Date(point.timestamp)).toISO()!,
+        latitude: point.lat,
+        longitude: point.lon,
+        speed: point.speed === null ? null : Number(point.speed),
+        heading: point.heading === null ? null : Number(point.heading),
+        accuracy: point.accuracy === null ? null : Number(point.accuracy),
+        battery_level: point.battery_level === null ? null : Number(point.battery_level),
+      }))
+    }
+    return result
+  }
+
+  /**
+   * Tracé du livreur pendant une commande (de l'arrivée au premier pickup au statut final, ou jusqu'à
+   * maintenant) comparé à la distance prévue des legs. Le trajet d'approche n'est couvert par aucun leg :
+   * tant que le premier pickup n'est pas atteint, le tracé part de l'acceptation et n'est pas comparé.
+   * Renvoie null si la commande n'a jamais été acceptée.
+   */
+  async getOrderReplay(order: Order, options: TrailOptions = {}) {
+    if (!order.driver_id) return null
+
+    const logs = await order
+      .related('status_logs')
+      .query()
+      .select(['status', 'changed_at'])
+      .orderBy('changed_at', 'asc')
+    const accepted = logs.find((log) => log.status === OrderStatus.ACCEPTED)
+    if (!accepted) return null
+    const finished = [...logs].reverse().find((log) => FINAL_ORDER_STATUSES.includes(log.status))
+    const firstPickupAt = await this.findFirstPickupArrival(order)
+    const from = firstPickupAt ?? accepted.changed_at
+    // Commande restée ouverte anormalement longtemps : la fenêtre reste bornée
+    const to = DateTime.min(
+      finished?.changed_at ?? DateTime.now(),
+      from.plus({ hours: this.maxRangeHours })
+    )
+
+    const trail = await this.getTrail(order.driver_id, from, to, options)
+
+    // Tournée groupée : les legs (et le trajet réel) couvrent toute la tournée.
+    // Distance prévue à la création, et non celle des legs recalculés après un écart d'itinéraire.
+    const legsQuery = OrderRouteLeg.query().select(['planned_distance_meters'])
+    if (order.batch_id) legsQuery.where('batch_id', order.batch_id)
+    else legsQuery.where('order_id', order.id)
+    const legs = await legsQuery
+    const plannedDistanceMeters =
+      !firstPickupAt || legs.every((leg) => leg.planned_distance_meters === null)
+        ? null
+        : Math.round(legs.reduce((sum, leg) => sum + (leg.planned_distance_meters ?? 0), 0))
+
+    return {
+      order_id: order.id,
+      batch_id: order.batch_id,
+      in_progress: !finished,
+      ...trail,
+      comparison: {
+        scope: order.batch_id ? 'batch' : 'order',
+        trail_start: firstPickupAt ? 'first_pickup' : 'accepted',
+        planned_distance_meters: plannedDistanceMeters,
+        actual_distance_meters: trail.actual_distance_meters,
+        difference_meters:
+          plannedDistanceMeters === null
+            ? null
+            : trail.actual_distance_meters - plannedDistanceMeters,
+        ratio: plannedDistanceMeters
+          ? Math.round((trail.actual_distance_meters / plannedDistanceMeters) * 100) / 100
+          : null,
+      },
+    }
+  }
+
+  /**
+   * Heure d'arrivée au premier pickup de la commande (ou de la tournée groupée), null s'il n'est pas atteint.
+   * Pour une arrivée détectée par géofence, l'heure détectée précède celle du log.
+   */
+  private async findFirstPickupArrival(order: Order): Promise<DateTime | null> {
+    const query = OrderStatusLog.query()
+      .select(['changed_at', 'metadata'])
+      .where('status', OrderStatus.AT_PICKUP)
+    if (order.batch_id) {
+      query.whereIn('order_id', Order.query().where('batch_id', order.batch_id).select('id'))
+    } else {
+      query.where('order_id', order.id)
+    }
+    const logs = await query
+    const arrivals = logs.map((log) =>
+      log.metadata?.arrived_at ? DateTime.fromISO(log.metadata.arrived_at) : log.changed_at
+    )
+    return DateTime.min(...arrivals) ?? null
+  }
+
+  /**
+   * Regroupe les points consécutifs restés dans le rayon d'arrêt autour du premier point du groupe ;
+   * le groupe est un arrêt s'il couvre la durée minimale.
+   */
+  private detectStops(points: LocationPoint[]): LocationStop[] {
+    const stops: LocationStop[] = []
+    let i = 0
+    while (i < points.length) {
+      const anchor = points[i]
+      let j = i
+      while (
+        j + 1 < points.length &&
+        haversineMeters([anchor.lon, anchor.lat], [points[j + 1].lon, points[j + 1].lat]) <=
+          this.stopRadiusMeters
+      ) {
+        j++
+      }
+
+      const startedAt = DateTime.fromJSDate(new Date(anchor.timestamp))
+      const endedAt = DateTime.fromJSDate(new Date(points[j].timestamp))
+      const duration = endedAt.diff(startedAt, 'seconds').seconds
+      if (j > i && duration >= this.stopMinDurationSeconds) {
+        const group = points.slice(i, j + 1)
+        stops.push({
+          latitude: group.reduce((sum, p) => sum + p.lat, 0) / group.length,
+          longitude: group.reduce((sum, p) => sum + p.lon, 0) / group.length,
+          started_at: startedAt.toISO()!,
+          ended_at: endedAt.toISO()!,
+          duration_seconds: Math.round(duration),
+          point_count: group.length,
+        })
+        i = j + 1
+      } else {
+        i++
+      }
+    }
+    return stops
+  }
+}
+
+export default new LocationHistoryService()
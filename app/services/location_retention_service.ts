@@ -0,0 +1,351 @@
+// app/services/location_retention_service.ts
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import app from '@adonisjs/core/services/app'
+import { createWriteStream } from 'node:fs'
+import { access, mkdir, rename, unlink } from 'node:fs/promises'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { createGzip } from 'node:zlib'
+import { join } from 'node:path'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_DOWNSAMPLE_AFTER_DAYS = 7 // Au-delà, une position par minute (plus arrêts et virages)
+const DEFAULT_RETENTION_DAYS = 90 // Au-delà, les positions sont archivées puis supprimées
+const DEFAULT_PARTITION_MONTHS_AHEAD = 2
+const DEFAULT_STOP_SPEED_MPS = 0.5 // En dessous, le livreur est considéré à l'arrêt
+const DEFAULT_TURN_DEGREES = 30 // Changement de cap conservé comme virage
+
+const TABLE = 'driver_location_logs'
+const DEFAULT_PARTITION = `${TABLE}_default`
+const PARTITION_NAME_PATTERN = /^driver_location_logs_p(\d{4})(\d{2})$/
+const DOWNSAMPLE_CURSOR_KEY = 'location_retention:downsampled_until'
+const MAX_DAYS_PER_RUN = 31 // Rattrapage progressif après une longue interruption
+const ARCHIVE_PAGE_SIZE = 5000
+
+export interface RetentionReport {
+  partitions_created: string[]
+  downsampled_days: number
+  downsampled_points_deleted: number
+  archived_files: string[]
+  archived_points: number
+  partitions_dropped: string[]
+}
+
+interface ArchiveRow {
+  id: string
+  driver_id: string
+  lon: number
+  lat: number
+  accuracy: number | null
+  speed: number | null
+  heading: number | null
+  battery_level: number | null
+  is_moving: boolean | null
+  timestamp: Date
+  created_at: Date | null
+}
+
+/**
+ * Rétention des positions livreurs (table partitionnée par mois) :
+ * - création des partitions à venir ;
+ * - sous-échantillonnage des positions plus anciennes que LOCATION_DOWNSAMPLE_AFTER_DAYS
+ *   (première position de chaque minute, début/fin d'arrêt et virages conservés) ;
+ * - archivage en NDJSON gzip (un fichier par jour) puis suppression au-delà de LOCATION_RETENTION_DAYS.
+ */
+class LocationRetentionService {
+  get downsampleAfterDays(): number {
+    return env.get('LOCATION_DOWNSAMPLE_AFTER_DAYS', DEFAULT_DOWNSAMPLE_AFTER_DAYS)
+  }
+
+  get retentionDays(): number {
+    return env.get('LOCATION_RETENTION_DAYS', DEFAULT_RETENTION_DAYS)
+  }
+
+  get partitionMonthsAhead(): number {
+    return env.get('LOCATION_PARTITION_MONTHS_AHEAD', DEFAULT_PARTITION_MONTHS_AHEAD)
+  }
+
+  get stopSpeedMps(): number {
+    return env.get('LOCATION_DOWNSAMPLE_STOP_SPEED_MPS', DEFAULT_STOP_SPEED_MPS)
+  }
+
+  get turnDegrees(): number {
+    return env.get('LOCATION_DOWNSAMPLE_TURN_DEGREES', DEFAULT_TURN_DEGREES)
+  }
+
+  get archiveDir(): string {
+    return env.get('LOCATION_ARCHIVE_DIR') ?? app.makePath('storage', 'location_archives')
+  }
+
+  async run(): Promise<RetentionReport> {
+    if (this.retentionDays <= this.downsampleAfterDays) {
+      throw new Error(
+        'LOCATION_RETENTION_DAYS doit être supérieur à LOCATION_DOWNSAMPLE_AFTER_DAYS.'
+      )
+    }
+    const partitionsCreated = await this.ensurePartitions()
+    const downsampled = await this.downsample()
+    const archived = await this.archive()
+    return {
+      partitions_created: partitionsCreated,
+      downsampled_days: downsampled.days,
+      downsampled_points_deleted: downsampled.deleted,
+      archived_files: archived.files,
+      archived_points: archived.points,
+      partitions_dropped: archived.dropped,
+    }
+  }
+
+  /**
+   * Crée les partitions du mois courant et des mois suivants. Les positions déjà tombées dans la
+   * partition par défaut pour ce mois y sont déplacées (sinon PostgreSQL refuse la création).
+   */
+  async ensurePartitions(): Promise<string[]> {
+    const partitions = await this.listPartitions()
+    const existing = new Set(partitions.map((partition) => partition.name))
+    const created: string[] = []
+    const currentMonth = DateTime.utc().startOf('month')
+
+    for (let i = 0; i <= this.partitionMonthsAhead; i++) {
+      const month = currentMonth.plus({ months: i })
+      const name = `${TABLE}_p${month.toFormat('yyyyLL')}`
+      if (existing.has(name)) continue
+
+      const from = month.toISO()!
+      const to = month.plus({ months: 1 }).toISO()!
+      await db.transaction(async (trx) => {
+        await trx.rawQuery(
+          `CREATE TEMP TABLE location_partition_staging (LIKE ${TABLE}) ON COMMIT DROP`
+        )
+        await trx.rawQuery(
+          `WITH moved AS (
+             DELETE FROM ${DEFAULT_PARTITION} WHERE timestamp >= ? AND timestamp < ? RETURNING *
+           )
+           INSERT INTO location_partition_staging SELECT * FROM moved`,
+          [from, to]
+        )
+        await trx.rawQuery(
+          `CREATE TABLE ${name} PARTITION OF ${TABLE} FOR VALUES FROM ('${from}') TO ('${to}')`
+        )
+        await trx.rawQuery(`INSERT INTO ${TABLE} SELECT * FROM location_partition_staging`)
+      })
+      created.push(name)
+    }
+    return created
+  }
+
+  /**
+   * Sous-échantillonne jour par jour, du dernier jour traité jusqu'à LOCATION_DOWNSAMPLE_AFTER_DAYS.
+   * L'opération est idempotente : rejouer un jour déjà traité ne supprime rien de plus.
+   */
+  async downsample(): Promise<{ days: number; deleted: number }> {
+    const until = DateTime.utc().startOf('day').minus({ days: this.downsampleAfterDays })
+    const horizon = DateTime.utc().startOf('day').minus({ days: this.retentionDays })
+    const cursor = await redis.get(DOWNSAMPLE_CURSOR_KEY)
+    let day = cursor ? DateTime.fromISO(cursor, { zone: 'utc' }) : horizon
+    if (day < horizon) day = horizon
+
+    let days = 0
+    let deleted = 0
+    while (day < until && days < MAX_DAYS_PER_RUN) {
+      const next = day.plus({ days: 1 })
+      deleted += await this.downsampleWindow(day, next)
+      await redis.set(DOWNSAMPLE_CURSOR_KEY, next.toISO()!)
+      day = next
+      days++
+    }
+    return { days, deleted }
+  }
+
+  /**
+   * Archive puis supprime les positions antérieures à l'horizon de rétention. Les partitions
+   * entièrement expirées sont supprimées (DROP) après archivage plutôt que vidées ligne à ligne.
+   */
+  async archive(): Promise<{ files: string[]; points: number; dropped: string[] }> {
+    const horizon = DateTime.utc().startOf('day').minus({ days: this.retentionDays })
+    const files: string[] = []
+    const dropped: string[] = []
+    let points = 0
+
+    for (const partition of await this.listPartitions()) {
+      if (!partition.to || partition.to > horizon) continue
+      const result = await this.archiveTable(partition.name, partition.from!, partition.to)
+      files.push(...result.files)
+      points += result.points
+      await db.rawQuery(`DROP TABLE ${partition.name}`)
+      dropped.push(partition.name)
+    }
+
+    // Reste : partition du mois de l'horizon et partition par défaut
+    const { rows } = await db.rawQuery(
+      `SELECT min(timestamp) AS oldest FROM ${TABLE} WHERE timestamp < ?`,
+      [horizon.toISO()]
+    )
+    if (rows[0]?.oldest) {
+      const oldest = DateTime.fromJSDate(new Date(rows[0].oldest)).toUTC().startOf('day')
+      const result = await this.archiveTable(TABLE, oldest, horizon, true)
+      files.push(...result.files)
+      points += result.points
+    }
+    return { files, points, dropped }
+  }
+
+  private async downsampleWindow(from: DateTime, to: DateTime): Promise<number> {
+    const stationary = `(coalesce(is_moving, true) = false OR coalesce(speed, 'Infinity') <= ?)`
+    const result = await db.rawQuery(
+      `WITH points AS (
+         SELECT id, timestamp, heading,
+                row_number() OVER (PARTITION BY driver_id, date_trunc('minute', timestamp) ORDER BY timestamp) AS minute_rank,
+                lag(heading) OVER w AS prev_heading,
+                ${stationary} AS stationary,
+                lag(${stationary}) OVER w AS prev_stationary,
+                lead(${stationary}) OVER w AS next_stationary
+           FROM ${TABLE}
+          WHERE timestamp >= ? AND timestamp < ?
+         WINDOW w AS (PARTITION BY driver_id ORDER BY timestamp)
+       )
+       DELETE FROM ${TABLE} d
+        USING points p
+        WHERE d.id = p.id
+          AND d.timestamp = p.timestamp
+          AND d.timestamp >= ? AND d.timestamp < ?
+          AND p.minute_rank > 1
+          -- Début et fin d'arrêt conservés
+          AND p.stationary IS NOT DISTINCT FROM p.prev_stationary
+          AND p.stationary IS NOT DISTINCT FROM p.next_stationary
+          -- Virages conservés (en mouvement uniquement : le cap n'a pas de sens à l'arrêt)
+          AND NOT (
+            p.stationary = false
+            AND p.heading IS NOT NULL
+            AND p.prev_heading IS NOT NULL
+            AND LEAST(abs(p.heading - p.prev_heading), 360 - abs(p.heading - p.prev_heading)) >= ?
+          )`,
+      [
+        this.stopSpeedMps,
+        this.stopSpeedMps,
+        this.stopSpeedMps,
+        from.toISO(),
+        to.toISO(),
+        from.toISO(),
+        to.toISO(),
+        this.turnDegrees,
+      ]
+    )
+    const deleted = result.rowCount ?? 0
+    if (deleted > 0) {
+      logger.info({ day: from.toISODate(), deleted }, 'Positions livreurs sous-échantillonnées')
+    }
+    return deleted
+  }
+
+  /**
+   * Écrit les positions de [from, to) dans un fichier par jour ; `deleteAfter` supprime les lignes
+   * de chaque jour une fois son fichier écrit.
+   */
+  private async archiveTable(
+    table: string,
+    from: DateTime,
+    to: DateTime,
+    deleteAfter = false
+  ): Promise<{ files: string[]; points: number }> {
+    const files: string[] = []
+    let points = 0
+    for (let day = from.startOf('day'); day < to; day = day.plus({ days: 1 })) {
+      const next = DateTime.min(day.plus({ days: 1 }), to)
+      const archived = await this.archiveDay(table, day, next)
+      if (!archived) continue
+      files.push(archived.file)
+      points += archived.points
+      if (deleteAfter) {
+        await db.rawQuery(`DELETE FROM ${table} WHERE timestamp >= ? AND timestamp < ?`, [
+          day.toISO(),
+          next.toISO(),
+        ])
+      }
+    }
+    return { files, points }
+  }
+
+  private async archiveDay(
+    table: string,
+    from: DateTime,
+    to: DateTime
+  ): Promise<{ file: string; points: number } | null> {
+    const directory = join(this.archiveDir, from.toFormat('yyyy'), from.toFormat('LL'))
+    await mkdir(directory, { recursive: true })
+    let file = join(directory, `${TABLE}_${from.toISODate()}.ndjson.gz`)
+    // Positions arrivées en retard pour un jour déjà archivé : fichier complémentaire
+    if (await this.exists(file)) {
+      file = join(directory, `${TABLE}_${from.toISODate()}_${Date.now()}.ndjson.gz`)
+    }
+    const tmpFile = `${file}.tmp`
+
+    let points = 0
+    const pages = async function* (this: LocationRetentionService) {
+      let after: { timestamp: Date; id: string } | null = null
+      while (true) {
+        const { rows } = await db.rawQuery(
+          `SELECT id, driver_id, ST_X(location) AS lon, ST_Y(location) AS lat, accuracy, speed, heading,
+                  battery_level, is_moving, timestamp, created_at
+             FROM ${table}
+            WHERE timestamp >= ? AND timestamp < ?
+              ${after ? 'AND (timestamp, id) > (?, ?)' : ''}
+            ORDER BY timestamp, id
+            LIMIT ${ARCHIVE_PAGE_SIZE}`,
+          after ? [from.toISO(), to.toISO(), after.timestamp, after.id] : [from.toISO(), to.toISO()]
+        )
+        const page = rows as ArchiveRow[]
+        for (const row of page) {
+          yield `${JSON.stringify(row)}\n`
+        }
+        points += page.length
+        if (page.length < ARCHIVE_PAGE_SIZE) return
+        const last = page[page.length - 1]
+        after = { timestamp: last.timestamp, id: last.id }
+      }
+    }
+
+    await pipeline(Readable.from(pages.call(this)), createGzip(), createWriteStream(tmpFile))
+    if (points === 0) {
+      await unlink(tmpFile)
+      return null
+    }
+    await rename(tmpFile, file)
+    logger.info({ file, points }, 'Positions livreurs archivées')
+    return { file, points }
+  }
+
+  private async listPartitions(): Promise<
+    { name: string; from: DateTime | null; to: DateTime | null }[]
+  > {
+    const { rows } = await db.rawQuery(
+      `SELECT c.relname AS name
+         FROM pg_inherits i
+         JOIN pg_class c ON c.oid = i.inhrelid
+        WHERE i.inhparent = ?::regclass
+        ORDER BY c.relname`,
+      [TABLE]
+    )
+    return (rows as { name: string }[]).map(({ name }) => {
+      const match = PARTITION_NAME_PATTERN.exec(name)
+      if (!match) return { name, from: null, to: null } // Partition par défaut
+      const from = DateTime.utc(Number(match[1]), Number(match[2]), 1)
+      return { name, from, to: from.plus({ months: 1 }) }
+    })
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await access(path)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
+
+export default new LocationRetentionService()
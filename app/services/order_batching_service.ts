@@ -0,0 +1,408 @@
+// app/services/order_batching_service.ts
+import logger from '@adonisjs/core/services/logger'
+import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, { OrderPriority, OrderStatus, type WaypointSummaryItem } from '#models/order'
+import OrderBatch, { OrderBatchStatus } from '#models/order_batch'
+import OrderRouteLeg from '#models/order_route_leg'
+import OrderStatusLog from '#models/order_status_log'
+import { PackageMentionWarning } from '#models/package'
+import geo_helper, { haversineMeters, type RouteWaypointInput } from '#services/geo_helper'
+
+// --- Configuration ---
+const BATCHING_ENABLED = env.get('BATCHING_ENABLED', false)
+const PICKUP_RADIUS_METERS = env.get('BATCHING_PICKUP_RADIUS_METERS', 1500)
+const TIME_WINDOW_SECONDS = env.get('BATCHING_TIME_WINDOW_SECONDS', 300)
+const MAX_ORDERS_PER_BATCH = env.get('BATCHING_MAX_ORDERS', 4)
+const MAX_BATCH_WEIGHT_G = 30_000 // Au-delà, la tournée ne tient plus dans un seul véhicule léger
+const DEFAULT_PACKAGE_WEIGHT_G = 10
+const SCAN_LIMIT = 200
+// Priorités jamais regroupées (une commande urgente part seule, en broadcast)
+const NON_BATCHABLE_PRIORITIES: OrderPriority[] = [OrderPriority.HIGH]
+// Mentions incompatibles dans un même véhicule
+const INCOMPATIBLE_MENTIONS: [PackageMentionWarning, PackageMentionWarning][] = [
+  [PackageMentionWarning.KEEP_COLD, PackageMentionWarning.KEEP_WARM],
+]
+const TERMINAL_STATUSES: OrderStatus[] = [
+  OrderStatus.SUCCESS,
+  OrderStatus.FAILED,
+  OrderStatus.CANCELLED,
+  OrderStatus.PARTIALLY_COMPLETED,
+]
+
+class OrderBatchingService {
+  get enabled(): boolean {
+    return BATCHING_ENABLED
+  }
+
+  get timeWindowSeconds(): number {
+    return TIME_WINDOW_SECONDS
+  }
+
+  /**
+   * Une commande peut être regroupée si elle n'a jamais été proposée,
+   * n'est ni assignée ni déjà dans une tournée, et n'est pas urgente.
+   */
+  isEligible(order: Order): boolean {
+    return (
+      !order.batch_id &&
+      !order.driver_id &&
+      !order.offered_driver_id &&
+      !order.broadcast_offer &&
+      !(order.assignment_attempt_count > 0) &&
+      !order.scheduled_pickup_at && // Les créneaux d'une livraison programmée ne sont pas garantis en tournée
+      !NON_BATCHABLE_PRIORITIES.includes(order.priority)
+    )
+  }
+
+  /**
+   * Commandes PENDING candidates au regroupement, de la plus ancienne à la plus récente.
+   */
+  async findBatchableOrders(): Promise<Order[]> {
+    const orders = await Order.query()
+      .whereNull('batch_id')
+      .whereNull('driver_id')
+      .whereNull('offered_driver_id')
+      .whereNull('broadcast_offer')
+      .whereNull('scheduled_pickup_at')
+      .where((q) => q.whereNull('assignment_attempt_count').orWhere('assignment_attempt_count', 0))
+      .whereNotIn('priority', NON_BATCHABLE_PRIORITIES)
+      // Dernier statut connu = PENDING
+      .whereRaw(
+        `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) = ?`,
+        [OrderStatus.PENDING]
+      )
+      .preload('pickup_address')
+      .preload('packages')
+      .orderBy('created_at', 'asc')
+      .limit(SCAN_LIMIT)
+
+    return orders.filter((order) => order.pickup_address?.coordinates && order.waypoints_summary)
+  }
+
+  /**
+   * Regroupe les commandes (triées par date de création) autour de la plus ancienne :
+   * même entreprise, pickups proches, créées dans la même fenêtre de temps, chargement compatible.
+   * Les commandes sans partenaire ressortent en groupes d'un seul élément.
+   */
+  groupOrders(orders: Order[]): Order[][] {
+    const remaining = [...orders]
+    const groups: Order[][] = []
+
+    while (remaining.length > 0) {
+      const seed = remaining.shift()!
+      const group = [seed]
+      const seedPickup = seed.pickup_address.coordinates.coordinates as [number, number]
+
+      for (const candidate of remaining) {
+        if (group.length >= MAX_ORDERS_PER_BATCH) break
+        if (candidate.created_at.diff(seed.created_at, 'seconds').seconds > TIME_WINDOW_SECONDS)
+          break
+        if (candidate.company_id !== seed.company_id) continue
+
+        const candidatePickup = candidate.pickup_address.coordinates.coordinates as [number, number]
+        if (haversineMeters(seedPickup, candidatePickup) > PICKUP_RADIUS_METERS) continue
+        if (!this.isLoadCompatible([...group, candidate])) continue
+
+        group.push(candidate)
+      }
+
+      for (const member of group.slice(1)) {
+        remaining.splice(remaining.indexOf(member), 1)
+      }
+      groups.push(group)
+    }
+    return groups
+  }
+
+  /**
+   * Un groupe est prêt à être figé en tournée quand il est plein
+   * ou que sa commande la plus ancienne a atteint la fin de la fenêtre d'attente.
+   */
+  isGroupReady(group: Order[], now: DateTime = DateTime.now()): boolean {
+    if (group.length >= MAX_ORDERS_PER_BATCH) return true
+    return now.diff(group[0].created_at, 'seconds').seconds >= TIME_WINDOW_SECONDS
+  }
+
+  /**
+   * Crée la tournée : un seul calcul d'itinéraire pour toutes les commandes,
+   * un `waypoints_summary` fusionné et les OrderRouteLeg rattachés au batch.
+   * L'ordre des arrêts est optimisé par GeoHelper, chaque pickup restant avant les livraisons de sa commande.
+   * @returns Le batch créé (orders préchargées), ou null si le groupe n'est plus valide.
+   */
+  async createBatch(orders: Order[]): Promise<OrderBatch | null> {
+    if (orders.length < 2) return null
+    const sorted = [...orders].sort((a, b) => a.created_at.toMillis() - b.created_at.toMillis())
+
+    // 1. Waypoints fusionnés, chaque item gardant la référence à sa commande (et son code de confirmation)
+    const mergedItems: WaypointSummaryItem[] = []
+    for (const type of ['pickup', 'delivery'] as const) {
+      for (const order of sorted) {
+        for (const [orderSequence, item] of (order.waypoints_summary ?? []).entries()) {
+          if (item.type !== type) continue
+          mergedItems.push({ ...item, order_id: order.id, order_sequence: orderSequence })
+        }
+      }
+    }
+
+    // 2. Arrêts de l'itinéraire : adresses de départ de chaque commande, puis les waypoints fusionnés.
+    // `precedence_group` = commande d'origine, pour que l'optimisation garde ses pickups avant ses livraisons.
+    const stops: Array<RouteWaypointInput & { address_id: string; summary_index: number | null }> =
+      []
+    const seenPickupAddresses = new Set<string>()
+    for (const order of sorted) {
+      if (seenPickupAddresses.has(order.pickup_address_id)) continue
+      seenPickupAddresses.add(order.pickup_address_id)
+      stops.push({
+        coordinates: order.pickup_address.coordinates.coordinates as [number, number],
+        type: 'break',
+        address_id: order.pickup_address_id,
+        waypoint_type_for_summary: 'pickup',
+        precedence_group: order.id,
+        summary_index: null,
+      })
+    }
+    for (const [index, item] of mergedItems.entries()) {
+      stops.push({
+        coordinates: item.coordinates,
+        type: 'break',
+        address_id: item.address_id,
+        address_text: item.address_text,
+        waypoint_type_for_summary: item.type,
+        package_name_for_summary: item.name,
+        precedence_group: item.order_id,
+        summary_index: index,
+      })
+    }
+
+    const routeDetails = await geo_helper.calculateOptimizedRoute(stops)
+    if (!routeDetails) {
+      logger.error(
+        { orderIds: sorted.map((o) => o.id) },
+        "Impossible de calculer l'itinéraire de la tournée groupée."
+      )
+      return null
+    }
+
+    // Résumé et legs suivent l'ordre de visite retenu
+    const orderedStops = routeDetails.optimization.visit_order.map((index) => stops[index])
+    const mergedSummary = orderedStops
+      .filter((stop) => stop.summary_index !== null)
+      .map((stop, sequence) => ({ ...mergedItems[stop.summary_index!], sequence }))
+
+    // 3. Persistance atomique : on revérifie l'éligibilité sous verrou
+    const trx = await db.transaction()
+    try {
+      const locked = await Order.query({ client: trx })
+        .whereIn(
+          'id',
+          sorted.map((o) => o.id)
+        )
+        .forUpdate()
+      const latestStatuses = await this.loadLatestStatuses(
+        locked.map((o) => o.id),
+        trx
+      )
+      const stillEligible = locked.filter(
+        (o) => this.isEligible(o) && latestStatuses.get(o.id) === OrderStatus.PENDING
+      )
+      if (stillEligible.length !== sorted.length) {
+        await trx.rollback()
+        logger.info(
+          { orderIds: sorted.map((o) => o.id) },
+          'Groupe de commandes modifié entre-temps. Tournée abandonnée.'
+        )
+        return null
+      }
+
+      const batch = await OrderBatch.create(
+        {
+          company_id: sorted[0].company_id,
+          status: OrderBatchStatus.PENDING,
+          waypoints_summary: mergedSummary,
+          total_distance_meters: routeDetails.global_summary.total_distance_meters,
+          total_duration_seconds: routeDetails.global_summary.total_duration_seconds,
+          calculation_engine: routeDetails.calculation_engine,
+        },
+        { client: trx }
+      )
+
+      for (const [index, order] of sorted.entries()) {
+        await Order.query({ client: trx })
+          .where('id', order.id)
+          .update({ batch_id: batch.id, order_number_in_batch: index + 1 })
+      }
+
+      for (let i = 0; i < routeDetails.legs.length; i++) {
+        const leg = routeDetails.legs[i]
+        const startStop = orderedStops[i]
+        const endStop = orderedStops[i + 1]
+        if (!startStop || !endStop) {
+          throw new Error(`Manque d'info waypoint pour le leg ${i} de la tournée ${batch.id}.`)
+        }
+        await OrderRouteLeg.create(
+          {
+            order_id: null,
+            batch_id: batch.id,
+            leg_sequence: i,
+            geometry: leg.geometry,
+            duration_seconds: leg.duration_seconds,
+            distance_meters: leg.distance_meters,
+            planned_distance_meters: leg.distance_meters,
+            maneuvers: leg.maneuvers,
+            raw_valhalla_leg_data: leg.raw_valhalla_leg_data,
+            start_address_id: startStop.address_id,
+            end_address_id: endStop.address_id,
+            start_coordinates: { type: 'Point', coordinates: startStop.coordinates },
+            end_coordinates: { type: 'Point', coordinates: endStop.coordinates },
+          },
+          { client: trx }
+        )
+      }
+
+      await trx.commit()
+      await batch.load('orders')
+      logger.info(
+        {
+          batchId: batch.id,
+          orderIds: sorted.map((o) => o.id),
+          distance: batch.total_distance_meters,
+          savings: routeDetails.optimization.savings,
+        },
+        'Tournée groupée créée'
+      )
+      return batch
+    } catch (error) {
+      if (!trx.isCompleted) await trx.rollback()
+      logger.error(
+        { err: error, orderIds: sorted.map((o) => o.id) },
+        'Erreur lors de la création de la tournée groupée.'
+      )
+      return null
+    }
+  }
+
+  /**
+   * Commandes d'une tournée encore en attente d'assignation (PENDING, sans livreur), dans l'ordre de la tournée.
+   */
+  async loadPendingBatchOrders(batchId: string, trx?: TransactionClientContract): Promise<Order[]> {
+    const orders = await Order.query({ client: trx })
+      .where('batch_id', batchId)
+      .whereNull('driver_id')
+      .preload('pickup_address')
+      .preload('packages')
+      .orderBy('order_number_in_batch', 'asc')
+    const latestStatuses = await this.loadLatestStatuses(
+      orders.map((o) => o.id),
+      trx
+    )
+    return orders.filter((o) => latestStatuses.get(o.id) === OrderStatus.PENDING)
+  }
+
+  /**
+   * Verrouille les commandes d'une tournée actuellement proposées à un livreur (acceptation atomique).
+   */
+  async lockOfferedBatchOrders(
+    batchId: string,
+    driverId: string,
+    trx: TransactionClientContract
+  ): Promise<Order[]> {
+    const orders = await Order.query({ client: trx })
+      .where('batch_id', batchId)
+      .where('offered_driver_id', driverId)
+      .whereNull('driver_id')
+      .forUpdate()
+      .preload('pickup_address')
+      .orderBy('order_number_in_batch', 'asc')
+    const latestStatuses = await this.loadLatestStatuses(
+      orders.map((o) => o.id),
+      trx
+    )
+    return orders.filter((o) => latestStatuses.get(o.id) === OrderStatus.PENDING)
+  }
+
+  /**
+   * Reporte l'avancement d'une commande (statuts de ses waypoints) dans le résumé fusionné de sa tournée,
+   * et clôt la tournée quand toutes ses commandes sont dans un état final.
+   */
+  async syncOrderProgress(order: Order, trx: TransactionClientContract): Promise<void> {
+    if (!order.batch_id) return
+    const batch = await OrderBatch.query({ client: trx })
+      .where('id', order.batch_id)
+      .forUpdate()
+      .first()
+    if (!batch) return
+
+    if (batch.waypoints_summary && order.waypoints_summary) {
+      batch.waypoints_summary = batch.waypoints_summary.map((item) => {
+        if (item.order_id !== order.id || item.order_sequence === undefined) return item
+        const source = order.waypoints_summary![item.order_sequence]
+        return source
+          ? {
+              ...source,
+              sequence: item.sequence,
+              order_id: item.order_id,
+              order_sequence: item.order_sequence,
+            }
+          : item
+      })
+    }
+
+    const batchOrders = await Order.query({ client: trx }).select('id').where('batch_id', batch.id)
+    const batchOrderIds = batchOrders.map((o) => o.id)
+    const latestStatuses = await this.loadLatestStatuses(batchOrderIds, trx)
+    const allTerminal = batchOrderIds.every((id) => {
+      const status = latestStatuses.get(id)
+      return status !== undefined && TERMINAL_STATUSES.includes(status)
+    })
+    if (allTerminal) {
+      batch.status = OrderBatchStatus.COMPLETED
+      logger.info(
+        { batchId: batch.id },
+        'Toutes les commandes de la tournée sont terminées. Tournée clôturée.'
+      )
+    }
+    await batch.useTransaction(trx).save()
+  }
+
+  /**
+   * Dernier statut connu de chaque commande.
+   */
+  async loadLatestStatuses(
+    orderIds: string[],
+    trx?: TransactionClientContract
+  ): Promise<Map<string, OrderStatus>> {
+    const result = new Map<string, OrderStatus>()
+    if (orderIds.length === 0) return result
+
+    // DISTINCT ON : uniquement le log le plus récent par commande
+    const logs = await OrderStatusLog.query({ client: trx })
+      .distinctOn('order_id')
+      .select('order_id', 'status', 'changed_at')
+      .whereIn('order_id', orderIds)
+      .orderBy('order_id')
+      .orderBy('changed_at', 'desc')
+
+    for (const log of logs) {
+      result.set(log.order_id, log.status)
+    }
+    return result
+  }
+
+  private isLoadCompatible(orders: Order[]): boolean {
+    let totalWeightG = 0
+    const mentions = new Set<PackageMentionWarning>()
+    for (const order of orders) {
+      for (const pkg of order.packages ?? []) {
+        totalWeightG += (pkg.dimensions?.weight_g || DEFAULT_PACKAGE_WEIGHT_G) * (pkg.quantity || 1)
+        if (pkg.mention_warning) mentions.add(pkg.mention_warning)
+      }
+    }
+    if (totalWeightG > MAX_BATCH_WEIGHT_G) return false
+    return !INCOMPATIBLE_MENTIONS.some(([a, b]) => mentions.has(a) && mentions.has(b))
+  }
+}
+
+export default new OrderBatchingService()
@@ -0,0 +1,478 @@
+// app/services/order_creation_service.ts
+import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import logger from '@adonisjs/core/services/logger'
+import { cuid } from '@adonisjs/core/helpers'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, {
+  OrderPaymentStatus,
+  OrderPriority,
+  OrderStatus,
+  type WaypointTimeWindow,
+} from '#models/order'
+import Address from '#models/address'
+import Package, { type PackageMentionWarning } from '#models/package'
+import OrderRouteLeg from '#models/order_route_leg'
+import OrderStatusLog from '#models/order_status_log'
+import geo_helper, { type RouteOptimizationReport } from '#services/geo_helper'
+import pricing_helper, { type SimplePackageInfo } from '#services/pricing_helper'
+import redis_helper, { type RawInitialAssignmentDetails } from '#services/redis_helper'
+import orderQuoteService, { type OrderQuoteClaims } from '#services/order_quote_service'
+import orderSchedulingService from '#services/order_scheduling_service'
+import clientPaymentService from '#services/client_payment_service'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
+
+export interface OrderPackageInput {
+  name: string
+  description?: string
+  dimensions?: {
+    weight_g: number
+    depth_cm?: number
+    width_cm?: number
+    height_cm?: number
+  }
+  mention_warning?: PackageMentionWarning
+  quantity: number
+}
+
+export interface OrderWaypointInput {
+  address_text: string
+  type: 'pickup' | 'delivery'
+  package_infos?: OrderPackageInput[]
+  contact_name?: string
+  contact_phone?: string
+  note?: string
+  time_window?: WaypointTimeWindow
+  cod_amount?: number
+}
+
+/**
+ * Contenu d'une commande tel que validé par POST /orders (ou reconstruit depuis un modèle récurrent).
+ */
+export interface OrderCreationPayload {
+  waypoints: OrderWaypointInput[]
+  priority?: 'low' | 'medium' | 'high'
+  global_order_note?: string
+  delivery_date_request?: string
+}
+
+export interface OrderCreationOptions {
+  companyId: string
+  changedByUserId: string | null // Auteur du log PENDING initial
+  quote?: OrderQuoteClaims | null // Devis vérifié : plafonne le prix
+  recurringOrderTemplateId?: string | null
+  // Transaction englobante (import en masse) : la commande est créée dans un savepoint et n'est
+  // publiée pour l'assignation qu'à l'appel de releaseForAssignment, après le commit englobant
+  client?: TransactionClientContract
+}
+
+export type OrderCreationResult =
+  | {
+      order: Order
+      route_optimization: RouteOptimizationReport
+      assignment_details: RawInitialAssignmentDetails
+    }
+  | { error: string; status: 'bad_request' | 'conflict' | 'server_error' }
+
+interface PackageForDb {
+  id: string
+  name: string
+  description?: string
+  dimensions?: OrderPackageInput['dimensions']
+  mention_warning?: PackageMentionWarning
+  quantity: number
+  image_urls: string[]
+}
+
+interface ProcessedWaypoint {
+  original_payload: OrderWaypointInput
+  address_model: Address
+  coordinates: [number, number] // lon, lat
+  package_infos_for_db: PackageForDb[]
+}
+
+/**
+ * Pipeline de création d'une commande : géocodage, itinéraire, programmation, tarification,
+ * enregistrement puis publication pour l'assignation. Partagé par POST /orders et les workers.
+ */
+class OrderCreationService {
+  /**
+   * Règles non exprimables dans le validateur : au moins un pickup et une livraison, des colis
+   * sur chaque pickup, et des créneaux cohérents. Retourne le message d'erreur, ou null.
+   */
+  validatePayload(payload: OrderCreationPayload): string | null {
+    const pickupWaypoints = payload.waypoints.filter((wp) => wp.type === 'pickup')
+    const deliveryWaypoints = payload.waypoints.filter((wp) => wp.type === 'delivery')
+
+    if (pickupWaypoints.length === 0) {
+      return 'Au moins un point de collecte est requis.'
+    }
+    if (deliveryWaypoints.length === 0) {
+      return 'Au moins un point de livraison est requis.'
+    }
+    for (const wp of pickupWaypoints) {
+      if (!wp.package_infos || wp.package_infos.length === 0) {
+        return `Les informations sur le colis sont requises pour le point de collecte : "${wp.address_text}".`
+      }
+      if (wp.cod_amount) {
+        return `Le paiement à la livraison ne concerne que les livraisons : "${wp.address_text}".`
+      }
+    }
+    for (const wp of deliveryWaypoints) {
+      if (wp.cod_amount && wp.cod_amount > cashOnDeliveryService.maxAmount) {
+        return `Le montant à encaisser dépasse le maximum autorisé (${cashOnDeliveryService.maxAmount}) : "${wp.address_text}".`
+      }
+    }
+    return orderSchedulingService.validateRequest(
+      payload.waypoints.map((wp) => wp.time_window),
+      payload.delivery_date_request
+    )
+  }
+
+  /**
+   * Crée la commande. Le payload doit avoir passé `validatePayload`.
+   */
+  async create(
+    payload: OrderCreationPayload,
+    options: OrderCreationOptions
+  ): Promise<OrderCreationResult> {
+    const { companyId, quote } = options
+    const trx = options.client ? await options.client.transaction() : await db.transaction()
+
+    try {
+      // 1. Géocoder toutes les adresses des waypoints et les préparer
+      const processedWaypoints: ProcessedWaypoint[] = []
+      const allPackageInfosForDb: PackageForDb[] = []
+
+      for (const waypointPayload of payload.waypoints) {
+        const geocoded = await geo_helper.geocodeAddress(waypointPayload.address_text)
+        if (!geocoded) {
+          await trx.rollback()
+          logger.warn(`Géocodage échoué pour l'adresse: ${waypointPayload.address_text}`)
+          return {
+            status: 'bad_request',
+            error: `L'adresse "${waypointPayload.address_text}" n'a pas pu être trouvée ou validée.`,
+          }
+        }
+
+        const addressModel = await Address.create(
+          {
+            id: cuid(),
+            street_address: waypointPayload.address_text,
+            city: geocoded.city || 'N/A',
+            postal_code: geocoded.postcode || 'N/A',
+            country: geocoded.country_code || 'N/A',
+            coordinates: { type: 'Point', coordinates: geocoded.coordinates },
+          },
+          { client: trx }
+        )
+
+        const packageInfosForDb =
+          waypointPayload.type === 'pickup'
+            ? (waypointPayload.package_infos ?? []).map(
+                (pkgInfo): PackageForDb => ({
+                  id: cuid(),
+                  name: pkgInfo.name,
+                  description: pkgInfo.description,
+                  dimensions: pkgInfo.dimensions,
+                  mention_warning: pkgInfo.mention_warning,
+                  quantity: pkgInfo.quantity,
+                  image_urls: [],
+                })
+              )
+            : []
+        allPackageInfosForDb.push(...packageInfosForDb)
+
+        processedWaypoints.push({
+          original_payload: waypointPayload,
+          address_model: addressModel,
+          coordinates: geocoded.coordinates as [number, number],
+          package_infos_for_db: packageInfosForDb,
+        })
+      }
+
+      // 2. Créer l'Order de base
+      // Le premier waypoint de type 'pickup' est considéré comme le pickup_address_id global.
+      // Le dernier waypoint de type 'delivery' est le delivery_address_id global.
+      const firstPickupProcessed = processedWaypoints.find(
+        (wp) => wp.original_payload.type === 'pickup'
+      )
+      const lastDeliveryProcessed = [...processedWaypoints]
+        .reverse()
+        .find((wp) => wp.original_payload.type === 'delivery')
+
+      if (!firstPickupProcessed || !lastDeliveryProcessed) {
+        // Ne devrait pas arriver à cause de validatePayload
+        throw new Error('Logique de premier pickup / dernière livraison erronée.')
+      }
+
+      const newOrder = new Order()
+      newOrder.useTransaction(trx)
+      newOrder.fill({
+        id: cuid(),
+        company_id: companyId,
+        pickup_address_id: firstPickupProcessed.address_model.id,
+        delivery_address_id: lastDeliveryProcessed.address_model.id,
+        priority: (payload.priority || OrderPriority.MEDIUM) as OrderPriority,
+        note_order: payload.global_order_note,
+        client_fee: 500,
+        remuneration: 500,
+        delivery_date: DateTime.now().plus({
+          seconds: env.get('DRIVER_OFFER_DURATION_SECONDS'),
+        }),
+        recurring_order_template_id: options.recurringOrderTemplateId ?? null,
+      })
+      await newOrder.save()
+
+      // 3. Préparer les waypoints pour GeoHelper.calculateOptimizedRoute (ordre fourni par le client).
+      // GeoHelper réordonne les arrêts (le premier reste le départ), chaque livraison restant après les pickups qui la précèdent,
+      // sauf si un créneau horaire est demandé.
+      const waypointsForValhallaRoute = processedWaypoints.map((pwp) => ({
+        coordinates: pwp.coordinates,
+        type: 'break' as const, // Tous les waypoints sont des arrêts
+        address_id: pwp.address_model.id,
+        address_text: pwp.original_payload.address_text,
+        waypoint_type_for_summary: pwp.original_payload.type,
+        package_name_for_summary:
+          pwp.original_payload.type === 'pickup' && pwp.package_infos_for_db.length > 0
+            ? pwp.package_infos_for_db[0].name +
+              (pwp.package_infos_for_db.length > 1
+                ? ` (+${pwp.package_infos_for_db.length - 1})`
+                : '')
+            : undefined,
+        time_window: pwp.original_payload.time_window,
+        cod_amount: pwp.original_payload.cod_amount,
+      }))
+
+      // 4. Calculer l'itinéraire et les legs.
+      // L'optimiseur ignore les créneaux : avec au moins un créneau, l'ordre du client est conservé.
+      const routeDetails = await geo_helper.calculateOptimizedRoute(waypointsForValhallaRoute, {
+        optimize: !waypointsForValhallaRoute.some((waypoint) => waypoint.time_window),
+      })
+      if (!routeDetails) {
+        await trx.rollback()
+        logger.error(`Impossible de calculer l'itinéraire pour la nouvelle commande ${newOrder.id}`)
+        return { status: 'server_error', error: "Erreur lors du calcul de l'itinéraire." }
+      }
+
+      // Livraison programmée : heure visée au premier arrêt et remise en assignation selon les créneaux (ordre de visite)
+      const scheduleResult = orderSchedulingService.computeSchedule(
+        routeDetails.optimization.visit_order.map(
+          (index) => waypointsForValhallaRoute[index].time_window
+        ),
+        routeDetails.legs.map((leg) => leg.duration_seconds),
+        payload.delivery_date_request ? DateTime.fromISO(payload.delivery_date_request) : null
+      )
+      if ('error' in scheduleResult) {
+        await trx.rollback()
+        return { status: 'bad_request', error: scheduleResult.error }
+      }
+      const schedule = scheduleResult.schedule
+
+      // 5. Mettre à jour l'Order avec les infos de route et calculer les frais
+      newOrder.calculation_engine = routeDetails.calculation_engine
+      newOrder.delivery_date_estimation =
+        schedule?.completion_at ??
+        DateTime.now().plus({ seconds: routeDetails.global_summary.total_duration_seconds })
+      newOrder.delivery_date_request = payload.delivery_date_request
+        ? DateTime.fromISO(payload.delivery_date_request)
+        : null
+      if (schedule) {
+        newOrder.scheduled_pickup_at = schedule.pickup_at
+        newOrder.pickup_window_end_at = schedule.pickup_window_end_at
+        newOrder.scheduled_release_at = schedule.release_at
+        // Heure de remise déjà atteinte : la commande part directement en assignation
+        newOrder.released_for_assignment_at =
+          schedule.release_at <= DateTime.now() ? DateTime.now() : null
+      }
+      newOrder.waypoints_summary = routeDetails.waypoints_summary_for_order || null
+
+      const packageInfoForPricing = allPackageInfosForDb.map((pkg) => ({
+        name: pkg.name,
+        dimensions: pkg.dimensions,
+        quantity: pkg.quantity,
+        mention_warning: pkg.mention_warning,
+      }))
+
+      let fees = await pricing_helper.calculateFees(
+        routeDetails.global_summary.total_distance_meters,
+        routeDetails.global_summary.total_duration_seconds,
+        packageInfoForPricing as SimplePackageInfo[],
+        { companyId, pickupCoordinates: firstPickupProcessed.coordinates }
+      )
+      if (quote) {
+        // Prix garanti : le client ne paie jamais plus que le montant du devis
+        if (fees.clientFee > quote.client_fee) {
+          logger.info(
+            {
+              orderId: newOrder.id,
+              quoteId: quote.quote_id,
+              recalculated: fees.clientFee,
+              quoted: quote.client_fee,
+            },
+            'Prix recalculé supérieur au devis, prix du devis appliqué'
+          )
+          fees = {
+            clientFee: quote.client_fee,
+            driverRemuneration: quote.driver_remuneration,
+            breakdown: quote.fee_breakdown,
+          }
+        }
+        fees.breakdown = { ...fees.breakdown, quote_id: quote.quote_id }
+      }
+      newOrder.client_fee = Math.round(fees.clientFee)
+      newOrder.remuneration = Math.round(fees.driverRemuneration)
+      newOrder.pricing_plan_version_id = fees.breakdown.pricing_plan_version_id
+      newOrder.fee_breakdown = fees.breakdown
+      newOrder.surge_multiplier = fees.breakdown.surge_multiplier ?? 1
+      await newOrder.save()
+
+      // 6. Créer les OrderRouteLegs
+      // Les legs suivent l'ordre de visite optimisé, pas l'ordre fourni par le client
+      const orderedWaypoints = routeDetails.optimization.visit_order.map(
+        (index) => waypointsForValhallaRoute[index]
+      )
+      for (let i = 0; i < routeDetails.legs.length; i++) {
+        const legDataFromHelper = routeDetails.legs[i]
+        // Le leg `i` va de `orderedWaypoints[i]` à `orderedWaypoints[i+1]`
+        const startWpForThisLeg = orderedWaypoints[i]
+        const endWpForThisLeg = orderedWaypoints[i + 1]
+
+        if (!startWpForThisLeg || !endWpForThisLeg) {
+          logger.error(`Manque d'info waypoint pour le leg ${i} lors de la création OrderRouteLeg.`)
+          await trx.rollback()
+          return {
+            status: 'server_error',
+            error: `Erreur interne lors de la construction de l'itinéraire (leg ${i}).`,
+          }
+        }
+
+        const orderRouteLeg = new OrderRouteLeg()
+        orderRouteLeg.useTransaction(trx)
+        orderRouteLeg.fill({
+          order_id: newOrder.id,
+          leg_sequence: i,
+          geometry: legDataFromHelper.geometry,
+          duration_seconds: legDataFromHelper.duration_seconds,
+          distance_meters: legDataFromHelper.distance_meters,
+          planned_distance_meters: legDataFromHelper.distance_meters,
+          maneuvers: legDataFromHelper.maneuvers,
+          raw_valhalla_leg_data: legDataFromHelper.raw_valhalla_leg_data,
+          start_address_id: startWpForThisLeg.address_id,
+          end_address_id: endWpForThisLeg.address_id,
+          start_coordinates: { type: 'Point', coordinates: startWpForThisLeg.coordinates },
+          end_coordinates: { type: 'Point', coordinates: endWpForThisLeg.coordinates },
+        })
+        await orderRouteLeg.save()
+      }
+
+      if (allPackageInfosForDb.length > 0) {
+        await Package.createMany(
+          allPackageInfosForDb.map((pkgInfo) => ({ ...pkgInfo, order_id: newOrder.id })),
+          { client: trx }
+        )
+      } else {
+        // Sécurité : des pickups sans colis préparés (devrait être attrapé par validatePayload)
+        await trx.rollback()
+        logger.error(
+          `Logique d'erreur: des pickups étaient présents mais aucun package n'a été préparé pour la commande ${newOrder.id}`
+        )
+        return {
+          status: 'server_error',
+          error: 'Erreur lors de la préparation des informations des colis.',
+        }
+      }
+
+      // 7. Créer le Log PENDING initial
+      await OrderStatusLog.create(
+        {
+          id: cuid(),
+          order_id: newOrder.id,
+          status: OrderStatus.PENDING,
+          changed_at: newOrder.created_at,
+          changed_by_user_id: options.changedByUserId ?? undefined,
+          current_location: firstPickupProcessed.address_model.coordinates,
+        },
+        { client: trx }
+      )
+
+      // Le devis n'est consommé qu'une fois la commande entièrement préparée
+      if (quote && !(await orderQuoteService.claim(quote))) {
+        await trx.rollback()
+        return { status: 'conflict', error: 'Ce devis a déjà été utilisé pour une autre commande.' }
+      }
+
+      try {
+        await trx.commit()
+      } catch (commitError) {
+        if (quote) await orderQuoteService.release(quote.quote_id)
+        throw commitError
+      }
+
+      // 8. Publication pour l'assignation
+      const assignmentDetails: RawInitialAssignmentDetails = {
+        pickupCoordinates: firstPickupProcessed.coordinates,
+        totalWeightG: allPackageInfosForDb.reduce(
+          (sum, pkg) => sum + (pkg.dimensions?.weight_g || 0) * (pkg.quantity || 1),
+          0
+        ),
+        initialRemuneration: newOrder.remuneration,
+      }
+      if (!options.client) {
+        await this.releaseForAssignment(newOrder, assignmentDetails)
+      }
+
+      return {
+        order: newOrder,
+        route_optimization: routeDetails.optimization,
+        assignment_details: assignmentDetails,
+      }
+    } catch (error) {
+      if (!trx.isCompleted) {
+        await trx.rollback()
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Encaisse la commande puis publie NEW_ORDER_READY_FOR_ASSIGNMENT, sauf pour une livraison programmée
+   * (l'Order Scheduler s'en charge) ou une commande en attente de paiement (remise à la confirmation).
+   */
+  async releaseForAssignment(order: Order, assignmentDetails: RawInitialAssignmentDetails) {
+    try {
+      order.payment_status = await clientPaymentService.collectForOrder(order.id)
+    } catch (paymentError) {
+      // Commande impayée : retenue jusqu'à une nouvelle tentative de paiement
+      logger.error({ err: paymentError, orderId: order.id }, 'Client payment collection failed.')
+      return
+    }
+    if (order.payment_status === OrderPaymentStatus.PENDING) {
+      logger.info(`Order ${order.id} awaiting client payment confirmation before assignment`)
+      return
+    }
+    if (!(await clientPaymentService.canAssign(order))) {
+      logger.info(`Order ${order.id} unpaid (${order.payment_status}): held until payment`)
+      return
+    }
+    if (orderSchedulingService.isAwaitingRelease(order)) {
+      logger.info(
+        `Order ${order.id} scheduled: release for assignment at ${order.scheduled_release_at!.toISO()}`
+      )
+      return
+    }
+    try {
+      await redis_helper.publishNewOrderReadyForAssignment(order.id, assignmentDetails)
+      logger.info(`Event NEW_ORDER_READY_FOR_ASSIGNMENT published for Order ${order.id}`)
+    } catch (eventError) {
+      // La commande est créée, AssignmentWorker la prendra via son scan, mais avec un délai.
+      logger.error(
+        { err: eventError, orderId: order.id },
+        'Failed to publish NEW_ORDER_READY_FOR_ASSIGNMENT event.'
+      )
+    }
+  }
+}
+
+export default new OrderCreationService()
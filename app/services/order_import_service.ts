@@ -0,0 +1,590 @@
+// app/services/order_import_service.ts
+import { readFile, unlink } from 'node:fs/promises'
+import ExcelJS from 'exceljs'
+import { DateTime } from 'luxon'
+import db from '@adonisjs/lucid/services/db'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import OrderImport, {
+  OrderImportStatus,
+  type OrderImportFormat,
+  type OrderImportRowError,
+} from '#models/order_import'
+import { createOrderWithWaypointsValidator } from '#validators/order'
+import geo_helper from '#services/geo_helper'
+import orderCreationService, { type OrderCreationPayload } from '#services/order_creation_service'
+import type { RawInitialAssignmentDetails } from '#services/redis_helper'
+import type Order from '#models/order'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_MAX_ROWS = 2000
+const DEFAULT_CHUNK_SIZE = 25 // Commandes créées par transaction
+
+/**
+ * Colonnes reconnues (une ligne par waypoint, ou par colis supplémentaire d'un même pickup).
+ * Les lignes partageant un même order_ref forment une commande.
+ */
+export const ORDER_IMPORT_COLUMNS = [
+  'order_ref',
+  'type', // pickup | delivery
+  'address_text',
+  'contact_name',
+  'contact_phone',
+  'note',
+  'time_window_start',
+  'time_window_end',
+  'cod_amount', // Paiement à la livraison (livraisons uniquement)
+  'package_name',
+  'package_description',
+  'weight_g',
+  'depth_cm',
+  'width_cm',
+  'height_cm',
+  'quantity',
+  'mention_warning',
+  'priority', // Champs de commande : lus sur la première ligne qui les renseigne
+  'global_order_note',
+  'delivery_date_request',
+] as const
+
+type ImportColumn = (typeof ORDER_IMPORT_COLUMNS)[number]
+
+interface ImportRow {
+  row: number
+  values: Partial<Record<ImportColumn, string>>
+}
+
+interface DraftWaypoint {
+  row: number
+  package_rows: number[]
+  data: Record<string, unknown>
+  package_infos: Record<string, unknown>[]
+}
+
+interface DraftOrder {
+  order_ref: string
+  rows: number[]
+  waypoints: DraftWaypoint[]
+  fields: Partial<Record<'priority' | 'global_order_note' | 'delivery_date_request', string>>
+}
+
+interface ValidatedDraft {
+  draft: DraftOrder
+  payload: OrderCreationPayload
+}
+
+// Champ de validateur (relatif au waypoint ou au colis) -> colonne du fichier
+const WAYPOINT_FIELD_COLUMNS: Record<string, ImportColumn> = {
+  'address_text': 'address_text',
+  'type': 'type',
+  'contact_name': 'contact_name',
+  'contact_phone': 'contact_phone',
+  'note': 'note',
+  'time_window.start': 'time_window_start',
+  'time_window.end': 'time_window_end',
+  'cod_amount': 'cod_amount',
+}
+const PACKAGE_FIELD_COLUMNS: Record<string, ImportColumn> = {
+  'name': 'package_name',
+  'description': 'package_description',
+  'dimensions.weight_g': 'weight_g',
+  'dimensions.depth_cm': 'depth_cm',
+  'dimensions.width_cm': 'width_cm',
+  'dimensions.height_cm': 'height_cm',
+  'quantity': 'quantity',
+  'mention_warning': 'mention_warning',
+}
+
+/**
+ * Import en masse de commandes (CSV/XLSX) : lecture du fichier, regroupement des lignes en commandes,
+ * validation ligne par ligne avec les validateurs de POST /orders, géocodage (mis en cache),
+ * puis création par lots transactionnels via le pipeline de création habituel.
+ */
+class OrderImportService {
+  get maxRows(): number {
+    return env.get('ORDER_IMPORT_MAX_ROWS', DEFAULT_MAX_ROWS)
+  }
+
+  /**
+   * Réserve le plus ancien import en attente (plusieurs workers peuvent tourner en parallèle).
+   */
+  async claimNext(): Promise<OrderImport | null> {
+    const trx = await db.transaction()
+    try {
+      const orderImport = await OrderImport.query({ client: trx })
+        .where('status', OrderImportStatus.PENDING)
+        .orderBy('created_at', 'asc')
+        .forUpdate()
+        .skipLocked()
+        .first()
+      if (!orderImport) {
+        await trx.rollback()
+        return null
+      }
+      orderImport.status = OrderImportStatus.VALIDATING
+      orderImport.started_at = DateTime.now()
+      await orderImport.save()
+      await trx.commit()
+      return orderImport
+    } catch (error) {
+      await trx.rollback()
+      throw error
+    }
+  }
+
+  /**
+   * Imports interrompus par un arrêt du worker : ceux en validation sont remis en attente
+   * (aucune commande créée), ceux en création sont clos en échec (les commandes déjà créées restent listées).
+   */
+  async recoverInterrupted(): Promise<void> {
+    await OrderImport.query()
+      .where('status', OrderImportStatus.VALIDATING)
+      .update({ status: OrderImportStatus.PENDING, started_at: null })
+    await OrderImport.query().where('status', OrderImportStatus.IMPORTING).update({
+      status: OrderImportStatus.FAILED,
+      error_message:
+        'Import interrompu pendant la création des commandes. Vérifiez les commandes créées avant de renvoyer le reste du fichier.',
+      finished_at: DateTime.now().toSQL(),
+    })
+  }
+
+  async process(orderImport: OrderImport): Promise<void> {
+    try {
+      const parsed = await this.readRows(orderImport)
+      if ('error' in parsed) {
+        await this.fail(orderImport, parsed.error)
+        return
+      }
+
+      const rowErrors: OrderImportRowError[] = []
+      const drafts = this.groupRows(parsed.rows, rowErrors)
+      const validDrafts = await this.validateDrafts(drafts, rowErrors)
+
+      orderImport.total_rows = parsed.rows.length
+      orderImport.total_orders = drafts.length
+      orderImport.failed_orders_count = drafts.length - validDrafts.length
+      orderImport.row_errors = rowErrors
+      orderImport.status = OrderImportStatus.IMPORTING
+      await orderImport.save()
+
+      const chunkSize = env.get('ORDER_IMPORT_CHUNK_SIZE', DEFAULT_CHUNK_SIZE)
+      for (let i = 0; i < validDrafts.length; i += chunkSize) {
+        await this.createChunk(orderImport, validDrafts.slice(i, i + chunkSize))
+      }
+
+      orderImport.status = OrderImportStatus.COMPLETED
+      orderImport.finished_at = DateTime.now()
+      await orderImport.save()
+      logger.info(
+        {
+          importId: orderImport.id,
+          created: orderImport.created_orders_count,
+          failed: orderImport.failed_orders_count,
+        },
+        'Import de commandes terminé'
+      )
+    } catch (error) {
+      logger.error({ err: error, importId: orderImport.id }, "Erreur pendant l'import de commandes")
+      await this.fail(orderImport, "Erreur serveur pendant l'import.")
+    } finally {
+      await this.deleteFile(orderImport)
+    }
+  }
+
+  /**
+   * Rapport d'erreurs téléchargeable (CSV, une ligne par erreur).
+   */
+  buildErrorReport(orderImport: OrderImport): string {
+    const escape = (value: string | number | null) => {
+      const text = value === null ? '' : String(value)
+      return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+    const lines = [['row', 'order_ref', 'field', 'message'].join(',')]
+    if (orderImport.error_message) {
+      lines.push(
+        [escape(null), escape(null), escape(null), escape(orderImport.error_message)].join(',')
+      )
+    }
+    for (const error of orderImport.row_errors) {
+      lines.push(
+        [
+          escape(error.row),
+          escape(error.order_ref),
+          escape(error.field),
+          escape(error.message),
+        ].join(',')
+      )
+    }
+    // BOM : accents lisibles à l'ouverture dans Excel
+    return '\uFEFF' + lines.join('\r\n') + '\r\n'
+  }
+
+  private async readRows(
+    orderImport: OrderImport
+  ): Promise<{ rows: ImportRow[] } | { error: string }> {
+    if (!orderImport.file_path) {
+      return { error: 'Fichier introuvable.' }
+    }
+
+    let worksheet: ExcelJS.Worksheet | undefined
+    try {
+      worksheet = await this.loadWorksheet(orderImport.file_path, orderImport.file_format)
+    } catch (error) {
+      logger.warn({ err: error, importId: orderImport.id }, "Fichier d'import illisible")
+      return { error: 'Fichier illisible : vérifiez le format (CSV ou XLSX).' }
+    }
+    if (!worksheet || worksheet.rowCount < 2) {
+      return { error: 'Le fichier ne contient aucune ligne de données.' }
+    }
+
+    // En-tête : noms de colonnes normalisés, colonnes inconnues ignorées
+    const columnsByIndex = new Map<number, ImportColumn>()
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+      const name = this.cellText(cell.value)
+        .replace(/^\uFEFF/, '')
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_')
+      if ((ORDER_IMPORT_COLUMNS as readonly string[]).includes(name)) {
+        columnsByIndex.set(colNumber, name as ImportColumn)
+      }
+    })
+    const missing = (['order_ref', 'type', 'address_text'] as const).filter(
+      (column) => ![...columnsByIndex.values()].includes(column)
+    )
+    if (missing.length > 0) {
+      return { error: `Colonnes obligatoires manquantes : ${missing.join(', ')}.` }
+    }
+
+    const rows: ImportRow[] = []
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rowNumber === 1) return
+      const values: ImportRow['values'] = {}
+      for (const [colNumber, column] of columnsByIndex) {
+        const text = this.cellText(row.getCell(colNumber).value)
+        if (text) values[column] = text
+      }
+      if (Object.keys(values).length > 0) rows.push({ row: rowNumber, values })
+    })
+
+    if (rows.length === 0) {
+      return { error: 'Le fichier ne contient aucune ligne de données.' }
+    }
+    if (rows.length > this.maxRows) {
+      return {
+        error: `Trop de lignes (${rows.length}). Maximum autorisé par import : ${this.maxRows}.`,
+      }
+    }
+    return { rows }
+  }
+
+  private async loadWorksheet(
+    filePath: string,
+    format: OrderImportFormat
+  ): Promise<ExcelJS.Worksheet | undefined> {
+    const workbook = new ExcelJS.Workbook()
+    if (format === 'xlsx') {
+      await workbook.xlsx.readFile(filePath)
+      return workbook.worksheets[0]
+    }
+    // CSV exporté par Excel en français : séparateur ';'
+    const content = await readFile(filePath, 'utf8')
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? ''
+    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+    return workbook.csv.readFile(filePath, {
+      map: (value: string) => value, // Pas de conversion : garde les zéros initiaux (téléphones)
+      parserOptions: { delimiter },
+    })
+  }
+
+  private cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return ''
+    if (value instanceof Date) return DateTime.fromJSDate(value, { zone: 'utc' }).toISO() ?? ''
+    if (typeof value === 'object') {
+      if ('richText' in value)
+        return value.richText
+          .map((part) => part.text)
+          .join('')
+          .trim()
+      if ('text' in value) return String(value.text).trim()
+      if ('result' in value) return this.cellText(value.result as ExcelJS.CellValue)
+      return ''
+    }
+    return String(value).trim()
+  }
+
+  /**
+   * Regroupe les lignes par order_ref. Une ligne pickup à la même adresse que le waypoint précédent
+   * ajoute un colis à ce pickup ; toute autre ligne ajoute un waypoint.
+   */
+  private groupRows(rows: ImportRow[], rowErrors: OrderImportRowError[]): DraftOrder[] {
+    const drafts = new Map<string, DraftOrder>()
+
+    for (const { row, values } of rows) {
+      const orderRef = values.order_ref
+      if (!orderRef) {
+        rowErrors.push({
+          row,
+          order_ref: null,
+          field: 'order_ref',
+          message: 'order_ref est requis.',
+        })
+        continue
+      }
+      let draft = drafts.get(orderRef)
+      if (!draft) {
+        draft = { order_ref: orderRef, rows: [], waypoints: [], fields: {} }
+        drafts.set(orderRef, draft)
+      }
+      draft.rows.push(row)
+      for (const field of ['priority', 'global_order_note', 'delivery_date_request'] as const) {
+        draft.fields[field] ??= values[field]
+      }
+
+      const type = values.type?.toLowerCase()
+      const packageInfo = this.packageFromRow(values)
+      const previous = draft.waypoints[draft.waypoints.length - 1]
+      if (
+        previous &&
+        packageInfo &&
+        type === 'pickup' &&
+        previous.data.type === 'pickup' &&
+        previous.data.address_text === values.address_text
+      ) {
+        previous.package_infos.push(packageInfo)
+        previous.package_rows.push(row)
+        continue
+      }
+
+      draft.waypoints.push({
+        row,
+        package_rows: packageInfo ? [row] : [],
+        package_infos: packageInfo ? [packageInfo] : [],
+        data: {
+          address_text: values.address_text,
+          type,
+          contact_name: values.contact_name,
+          contact_phone: values.contact_phone,
+          note: values.note,
+          time_window:
+            values.time_window_start || values.time_window_end
+              ? { start: values.time_window_start, end: values.time_window_end }
+              : undefined,
+          cod_amount: values.cod_amount,
+        },
+      })
+    }
+    return [...drafts.values()]
+  }
+
+  private packageFromRow(values: ImportRow['values']): Record<string, unknown> | null {
+    const hasPackage = Object.values(PACKAGE_FIELD_COLUMNS).some((column) => values[column])
+    if (!hasPackage) return null
+    return {
+      name: values.package_name,
+      description: values.package_description,
+      dimensions: values.weight_g
+        ? {
+            weight_g: values.weight_g,
+            depth_cm: values.depth_cm,
+            width_cm: values.width_cm,
+            height_cm: values.height_cm,
+          }
+        : undefined,
+      quantity: values.quantity ?? '1',
+      mention_warning: values.mention_warning?.toLowerCase(),
+    }
+  }
+
+  /**
+   * Valide chaque commande (validateur de POST /orders, règles de composition, géocodage)
+   * et rattache chaque erreur à la ligne du fichier qui l'a produite.
+   */
+  private async validateDrafts(
+    drafts: DraftOrder[],
+    rowErrors: OrderImportRowError[]
+  ): Promise<ValidatedDraft[]> {
+    const valid: ValidatedDraft[] = []
+
+    for (const draft of drafts) {
+      const [error, payload] = await createOrderWithWaypointsValidator.tryValidate({
+        ...draft.fields,
+        waypoints: draft.waypoints.map((waypoint) => ({
+          ...waypoint.data,
+          package_infos: waypoint.package_infos.length > 0 ? waypoint.package_infos : undefined,
+        })),
+      })
+      if (error) {
+        for (const message of error.messages as Array<{ field: string; message: string }>) {
+          rowErrors.push({ ...this.locateField(draft, message.field), message: message.message })
+        }
+        continue
+      }
+
+      const compositionError = orderCreationService.validatePayload(payload)
+      if (compositionError) {
+        rowErrors.push({
+          row: draft.rows[0],
+          order_ref: draft.order_ref,
+          field: null,
+          message: compositionError,
+        })
+        continue
+      }
+      valid.push({ draft, payload })
+    }
+
+    // Géocodage des adresses distinctes : une adresse introuvable invalide les commandes qui l'utilisent
+    const unresolved = new Set<string>()
+    const addresses = new Set(
+      valid.flatMap(({ payload }) => payload.waypoints.map((wp) => wp.address_text))
+    )
+    for (const address of addresses) {
+      if (!(await geo_helper.geocodeAddress(address))) unresolved.add(address)
+    }
+    if (unresolved.size === 0) return valid
+
+    return valid.filter(({ draft, payload }) => {
+      const failedIndexes = payload.waypoints
+        .map((wp, index) => (unresolved.has(wp.address_text) ? index : -1))
+        .filter((index) => index >= 0)
+      for (const index of failedIndexes) {
+        rowErrors.push({
+          row: draft.waypoints[index].row,
+          order_ref: draft.order_ref,
+          field: 'address_text',
+          message: `L'adresse "${payload.waypoints[index].address_text}" n'a pas pu être trouvée ou validée.`,
+        })
+      }
+      return failedIndexes.length === 0
+    })
+  }
+
+  /**
+   * Retrouve la ligne et la colonne d'un champ en erreur (ex: waypoints.2.package_infos.1.quantity).
+   */
+  private locateField(
+    draft: DraftOrder,
+    field: string
+  ): Pick<OrderImportRowError, 'row' | 'order_ref' | 'field'> {
+    const located = { row: draft.rows[0], order_ref: draft.order_ref, field: null as string | null }
+    const match = field.match(/^waypoints\.(\d+)(?:\.(.+))?$/)
+    if (!match) {
+      located.field = ORDER_IMPORT_COLUMNS.includes(field as ImportColumn) ? field : null
+      return located
+    }
+
+    const waypoint = draft.waypoints[Number(match[1])]
+    if (!waypoint || !match[2]) return located
+    located.row = waypoint.row
+
+    const packageMatch = match[2].match(/^package_infos\.(\d+)\.(.+)$/)
+    if (packageMatch) {
+      located.row = waypoint.package_rows[Number(packageMatch[1])] ?? waypoint.row
+      located.field = PACKAGE_FIELD_COLUMNS[packageMatch[2]] ?? null
+    } else {
+      located.field = WAYPOINT_FIELD_COLUMNS[match[2]] ?? null
+    }
+    return located
+  }
+
+  /**
+   * Crée un lot de commandes dans une transaction (une commande en échec n'annule que son savepoint),
+   * puis publie les commandes créées pour l'assignation une fois le lot validé.
+   */
+  private async createChunk(orderImport: OrderImport, chunk: ValidatedDraft[]) {
+    const created: Array<{
+      draft: DraftOrder
+      order: Order
+      details: RawInitialAssignmentDetails
+    }> = []
+    const chunkErrors: OrderImportRowError[] = []
+    const trx = await db.transaction()
+
+    for (const { draft, payload } of chunk) {
+      try {
+        const result = await orderCreationService.create(payload, {
+          companyId: orderImport.company_id,
+          changedByUserId: orderImport.created_by_user_id,
+          client: trx,
+        })
+        if ('error' in result) {
+          chunkErrors.push({
+            row: draft.rows[0],
+            order_ref: draft.order_ref,
+            field: null,
+            message: result.error,
+          })
+          continue
+        }
+        created.push({ draft, order: result.order, details: result.assignment_details })
+      } catch (error) {
+        logger.error(
+          { err: error, importId: orderImport.id, orderRef: draft.order_ref },
+          'Erreur création commande importée'
+        )
+        chunkErrors.push({
+          row: draft.rows[0],
+          order_ref: draft.order_ref,
+          field: null,
+          message: 'Erreur serveur lors de la création de la commande.',
+        })
+      }
+    }
+
+    try {
+      await trx.commit()
+    } catch (error) {
+      logger.error({ err: error, importId: orderImport.id }, "Échec du commit d'un lot d'import")
+      for (const { draft } of created) {
+        chunkErrors.push({
+          row: draft.rows[0],
+          order_ref: draft.order_ref,
+          field: null,
+          message: 'Erreur serveur lors de la création de la commande.',
+        })
+      }
+      created.length = 0
+    }
+
+    for (const { order, details } of created) {
+      await orderCreationService.releaseForAssignment(order, details)
+    }
+
+    orderImport.created_orders = [
+      ...orderImport.created_orders,
+      ...created.map(({ draft, order }) => ({
+        order_ref: draft.order_ref,
+        order_id: order.id,
+        rows: draft.rows,
+      })),
+    ]
+    orderImport.row_errors = [...orderImport.row_errors, ...chunkErrors]
+    orderImport.created_orders_count += created.length
+    orderImport.failed_orders_count += chunk.length - created.length
+    await orderImport.save()
+  }
+
+  private async fail(orderImport: OrderImport, message: string) {
+    orderImport.status = OrderImportStatus.FAILED
+    orderImport.error_message = message
+    orderImport.finished_at = DateTime.now()
+    await orderImport.save()
+  }
+
+  private async deleteFile(orderImport: OrderImport) {
+    if (!orderImport.file_path) return
+    try {
+      await unlink(orderImport.file_path)
+    } catch (error) {
+      logger.warn(
+        { err: error, importId: orderImport.id },
+        "Suppression du fichier d'import impossible"
+      )
+    }
+    orderImport.file_path = null
+    await orderImport.save()
+  }
+}
+
+export default new OrderImportService()
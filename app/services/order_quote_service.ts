@@ -0,0 +1,118 @@
+// app/services/order_quote_service.ts
+import { createHash } from 'node:crypto'
+import { DateTime } from 'luxon'
+import encryption from '@adonisjs/core/services/encryption'
+import redis from '@adonisjs/redis/services/main'
+import { cuid } from '@adonisjs/core/helpers'
+import env from '#start/env'
+import type { FeeBreakdown } from '#services/pricing_helper'
+
+const DEFAULT_QUOTE_TTL_SECONDS = 900
+const QUOTE_TOKEN_PURPOSE = 'order_quote'
+// Un devis ne peut garantir le prix que d'une seule commande
+const USED_QUOTE_KEY_PREFIX = 'order_quote:used:'
+
+/**
+ * Sous-ensemble du payload de création de commande qui détermine le prix.
+ */
+export interface QuotableOrderPayload {
+  waypoints: Array<{
+    address_text: string
+    type: 'pickup' | 'delivery'
+    package_infos?: Array<{
+      name: string
+      dimensions?: { weight_g?: number; depth_cm?: number; width_cm?: number; height_cm?: number }
+      mention_warning?: string
+      quantity: number
+    }>
+  }>
+  priority?: string
+}
+
+/**
+ * Contenu signé du jeton de devis. Signé (non chiffré) : le client peut le lire mais pas le modifier.
+ */
+export interface OrderQuoteClaims {
+  quote_id: string
+  company_id: string
+  fingerprint: string // Empreinte du payload : le jeton n'est valable que pour la même commande
+  client_fee: number
+  driver_remuneration: number
+  fee_breakdown: FeeBreakdown
+  expires_at: string // ISO
+}
+
+class OrderQuoteService {
+  get ttlSeconds(): number {
+    return env.get('ORDER_QUOTE_TTL_SECONDS', DEFAULT_QUOTE_TTL_SECONDS)
+  }
+
+  fingerprint(payload: QuotableOrderPayload): string {
+    // Structure normalisée explicitement pour ne pas dépendre de l'ordre des clés envoyées par le client
+    const normalized = {
+      priority: payload.priority ?? null,
+      waypoints: payload.waypoints.map((wp) => ({
+        address_text: wp.address_text.trim().toLowerCase(),
+        type: wp.type,
+        packages: (wp.package_infos ?? []).map((pkg) => ({
+          weight_g: pkg.dimensions?.weight_g ?? null,
+          depth_cm: pkg.dimensions?.depth_cm ?? null,
+          width_cm: pkg.dimensions?.width_cm ?? null,
+          height_cm: pkg.dimensions?.height_cm ?? null,
+          mention_warning: pkg.mention_warning ?? null,
+          quantity: pkg.quantity,
+        })),
+      })),
+    }
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex')
+  }
+
+  issue(
+    companyId: string,
+    fingerprint: string,
+    fees: { clientFee: number; driverRemuneration: number; breakdown: FeeBreakdown }
+  ): { token: string; claims: OrderQuoteClaims } {
+    const claims: OrderQuoteClaims = {
+      quote_id: cuid(),
+      company_id: companyId,
+      fingerprint,
+      client_fee: fees.clientFee,
+      driver_remuneration: fees.driverRemuneration,
+      fee_breakdown: fees.breakdown,
+      expires_at: DateTime.now().plus({ seconds: this.ttlSeconds }).toISO()!,
+    }
+    const token = encryption.verifier.sign(claims, `${this.ttlSeconds}s`, QUOTE_TOKEN_PURPOSE)
+    return { token, claims }
+  }
+
+  /**
+   * Retourne le contenu du jeton, ou null si la signature est invalide ou le devis expiré.
+   */
+  verify(token: string): OrderQuoteClaims | null {
+    return encryption.verifier.unsign<OrderQuoteClaims>(token, QUOTE_TOKEN_PURPOSE)
+  }
+
+  /**
+   * Marque le devis comme utilisé. Retourne false s'il a déjà servi à une autre commande.
+   */
+  async claim(claims: OrderQuoteClaims): Promise<boolean> {
+    const remainingSeconds = Math.max(
+      1,
+      Math.ceil(DateTime.fromISO(claims.expires_at).diffNow('seconds').seconds)
+    )
+    const result = await redis.set(
+      `${USED_QUOTE_KEY_PREFIX}${claims.quote_id}`,
+      '1',
+      'EX',
+      remainingSeconds,
+      'NX'
+    )
+    return result === 'OK'
+  }
+
+  async release(quoteId: string): Promise<void> {
+    await redis.del(`${USED_QUOTE_KEY_PREFIX}${quoteId}`)
+  }
+}
+
+export default new OrderQuoteService()
@@ -0,0 +1,306 @@
+// app/services/order_scheduling_service.ts
+import { DateTime } from 'luxon'
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import Order, { OrderStatus, waypointStatus, type WaypointTimeWindow } from '#models/order'
+import Company from '#models/company'
+import { NotificationType } from '#models/notification'
+import redis_helper from '#services/redis_helper'
+import orderBatchingService from '#services/order_batching_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_DRIVER_APPROACH_SECONDS = 1200 // Trajet estimé d'un livreur jusqu'au premier arrêt
+const DEFAULT_ASSIGNMENT_LEAD_SECONDS = 900 // Marge pour trouver un livreur avant son départ
+const DEFAULT_STOP_SERVICE_SECONDS = 300 // Temps passé à chaque arrêt intermédiaire
+
+const SCAN_LIMIT = 200
+// Les commandes programmées plus anciennes ne sont plus surveillées
+const MISSED_WINDOW_LOOKBACK_DAYS = 2
+// Une alerte par créneau manqué
+const MISSED_WINDOW_KEY_PREFIX = 'scheduling:missed:'
+const MISSED_WINDOW_KEY_TTL_SECONDS = 7 * 24 * 3600
+
+// Statuts pour lesquels le livreur n'a pas encore atteint le premier arrêt
+const BEFORE_FIRST_STOP_STATUSES: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.ACCEPTED,
+  OrderStatus.EN_ROUTE_TO_PICKUP,
+]
+const TERMINAL_STATUSES: OrderStatus[] = [
+  OrderStatus.SUCCESS,
+  OrderStatus.FAILED,
+  OrderStatus.CANCELLED,
+  OrderStatus.PARTIALLY_COMPLETED,
+]
+
+export interface OrderSchedule {
+  pickup_at: DateTime // Heure visée au premier arrêt
+  pickup_window_end_at: DateTime | null
+  release_at: DateTime // Remise en assignation
+  completion_at: DateTime // Fin de mission estimée
+}
+
+/**
+ * Livraisons programmées : calcul de l'heure de remise en assignation à partir des créneaux
+ * des waypoints et des temps de trajet, remise par le scheduler, et détection des créneaux manqués.
+ */
+class OrderSchedulingService {
+  get driverApproachSeconds(): number {
+    return env.get('SCHEDULING_DRIVER_APPROACH_SECONDS', DEFAULT_DRIVER_APPROACH_SECONDS)
+  }
+
+  get assignmentLeadSeconds(): number {
+    return env.get('SCHEDULING_ASSIGNMENT_LEAD_SECONDS', DEFAULT_ASSIGNMENT_LEAD_SECONDS)
+  }
+
+  /**
+   * Vérifie le format des créneaux et de la date de livraison souhaitée. Retourne le message d'erreur, ou null.
+   */
+  validateRequest(
+    windows: Array<WaypointTimeWindow | undefined>,
+    deliveryDateRequest?: string
+  ): string | null {
+    const now = DateTime.now()
+    for (const window of windows) {
+      if (!window) continue
+      const start = DateTime.fromISO(window.start)
+      const end = DateTime.fromISO(window.end)
+      if (!start.isValid || !end.isValid) {
+        return 'Les créneaux horaires doivent être au format ISO 8601.'
+      }
+      if (end <= start) {
+        return 'La fin de chaque créneau doit être postérieure à son début.'
+      }
+      if (end <= now) {
+        return 'Un créneau horaire demandé est déjà passé.'
+      }
+    }
+    if (deliveryDateRequest) {
+      const requested = DateTime.fromISO(deliveryDateRequest)
+      if (!requested.isValid) {
+        return 'La date de livraison souhaitée doit être au format ISO 8601.'
+      }
+      if (requested <= now) {
+        return 'La date de livraison souhaitée doit être dans le futur.'
+      }
+    }
+    return null
+  }
+
+  /**
+   * Calcule la programmation d'une commande à partir des créneaux de ses arrêts (dans l'ordre de visite)
+   * et des durées des legs. Retourne `schedule: null` pour une commande immédiate.
+   */
+  computeSchedule(
+    windows: Array<WaypointTimeWindow | undefined>,
+    legDurationsSeconds: number[],
+    deliveryDateRequest: DateTime | null,
+    now: DateTime = DateTime.now()
+  ): { schedule: OrderSchedule | null } | { error: string } {
+    const serviceSeconds = env.get('SCHEDULING_STOP_SERVICE_SECONDS', DEFAULT_STOP_SERVICE_SECONDS)
+
+    // offsets[k] : temps estimé entre le départ du premier arrêt et l'arrivée à l'arrêt k
+    const offsets = [0]
+    for (let k = 1; k < windows.length; k++) {
+      offsets[k] = offsets[k - 1] + (legDurationsSeconds[k - 1] ?? 0) + serviceSeconds
+    }
+    const totalSeconds = offsets[offsets.length - 1]
+
+    // Départ au plus tôt (n'arriver avant aucun créneau) et au plus tard (n'arriver après aucun créneau)
+    let earliest: DateTime | null = null
+    let latest: DateTime | null = null
+    for (const [k, window] of windows.entries()) {
+      if (!window) continue
+      const start = DateTime.fromISO(window.start).minus({ seconds: offsets[k] })
+      const end = DateTime.fromISO(window.end).minus({ seconds: offsets[k] })
+      earliest = earliest ? DateTime.max(earliest, start) : start
+      latest = latest ? DateTime.min(latest, end) : end
+    }
+    if (deliveryDateRequest) {
+      const start = deliveryDateRequest.minus({ seconds: totalSeconds })
+      earliest = earliest ? DateTime.max(earliest, start) : start
+    }
+
+    if (!earliest) return { schedule: null }
+    const earliestStart: DateTime = earliest
+    const latestStart: DateTime | null = latest
+
+    if (latestStart && earliestStart > latestStart) {
+      return {
+        error: 'Les créneaux horaires demandés sont incompatibles avec le temps de trajet estimé.',
+      }
+    }
+
+    // Un livreur ne peut pas être au premier arrêt avant son temps d'approche
+    const soonestPickup = now.plus({ seconds: this.driverApproachSeconds })
+    if (latestStart && latestStart < soonestPickup) {
+      return { error: 'Les créneaux horaires demandés ne peuvent plus être respectés.' }
+    }
+    const pickupAt = earliestStart > soonestPickup ? earliestStart : soonestPickup
+
+    return {
+      schedule: {
+        pickup_at: pickupAt,
+        pickup_window_end_at: windows[0] ? DateTime.fromISO(windows[0].end) : null,
+        release_at: pickupAt.minus({
+          seconds: this.driverApproachSeconds + this.assignmentLeadSeconds,
+        }),
+        completion_at: pickupAt.plus({ seconds: totalSeconds }),
+      },
+    }
+  }
+
+  /**
+   * Commande programmée pas encore remise en assignation.
+   */
+  isAwaitingRelease(order: Order, now: DateTime = DateTime.now()): boolean {
+    return (
+      !!order.scheduled_release_at &&
+      !order.released_for_assignment_at &&
+      order.scheduled_release_at > now
+    )
+  }
+
+  /**
+   * Commandes PENDING dont l'heure de remise en assignation est atteinte.
+   */
+  async findDueOrders(now: DateTime = DateTime.now()): Promise<Order[]> {
+    return Order.query()
+      .whereNotNull('scheduled_release_at')
+      .whereNull('released_for_assignment_at')
+      .where('scheduled_release_at', '<=', now.toSQL()!)
+      .whereRaw(
+        `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) = ?`,
+        [OrderStatus.PENDING]
+      )
+      .preload('pickup_address')
+      .preload('packages')
+      .orderBy('scheduled_release_at', 'asc')
+      .limit(SCAN_LIMIT)
+  }
+
+  /**
+   * Marque la commande comme remise en assignation. Retourne false si elle l'a déjà été entre-temps.
+   */
+  async markReleased(orderId: string): Promise<boolean> {
+    const trx = await db.transaction()
+    try {
+      const order = await Order.query({ client: trx }).where('id', orderId).forUpdate().first()
+      if (!order || order.released_for_assignment_at) {
+        await trx.rollback()
+        return false
+      }
+      order.released_for_assignment_at = DateTime.now()
+      await order.save()
+      await trx.commit()
+      return true
+    } catch (error) {
+      await trx.rollback()
+      throw error
+    }
+  }
+
+  async revertRelease(orderId: string): Promise<void> {
+    await Order.query().where('id', orderId).update({ released_for_assignment_at: null })
+  }
+
+  /**
+   * Détecte les créneaux dépassés sans passage du livreur et alerte l'entreprise (une fois par créneau).
+   * Retourne le nombre d'alertes émises.
+   */
+  async alertMissedWindows(now: DateTime = DateTime.now()): Promise<number> {
+    const orders = await Order.query()
+      .whereNotNull('scheduled_pickup_at')
+      .where('scheduled_pickup_at', '>=', now.minus({ days: MISSED_WINDOW_LOOKBACK_DAYS }).toSQL()!)
+      .where('scheduled_pickup_at', '<=', now.toSQL()!)
+      // Filtre sur le dernier statut avant la limite : les commandes terminées ne doivent pas l'épuiser
+      .whereRaw(
+        `(SELECT l.status FROM order_status_logs l WHERE l.order_id = orders.id ORDER BY l.changed_at DESC LIMIT 1) NOT IN (${TERMINAL_STATUSES.map(() => '?').join(', ')})`,
+        [...TERMINAL_STATUSES]
+      )
+      .orderBy('scheduled_pickup_at', 'asc')
+      .limit(SCAN_LIMIT)
+    if (orders.length === 0) return 0
+
+    const latestStatuses = await orderBatchingService.loadLatestStatuses(orders.map((o) => o.id))
+    let alerts = 0
+
+    for (const order of orders) {
+      const status = latestStatuses.get(order.id)
+      if (!status || TERMINAL_STATUSES.includes(status)) continue
+
+      if (
+        order.pickup_window_end_at &&
+        order.pickup_window_end_at < now &&
+        BEFORE_FIRST_STOP_STATUSES.includes(status)
+      ) {
+        if (await this.claimAlert(order.id, 'start')) {
+          await this.alertCompany(order, 'premier arrêt', order.pickup_window_end_at.toISO()!, null)
+          alerts++
+        }
+      }
+
+      for (const item of order.waypoints_summary ?? []) {
+        if (!item.time_window || DateTime.fromISO(item.time_window.end) >= now) continue
+        if (item.status && item.status !== waypointStatus.PENDING) continue
+        if (await this.claimAlert(order.id, `wp:${item.sequence}`)) {
+          const label = item.type === 'pickup' ? 'de collecte' : 'de livraison'
+          await this.alertCompany(
+            order,
+            `${label} (arrêt ${item.sequence})`,
+            item.time_window.end,
+            item.sequence
+          )
+          alerts++
+        }
+      }
+    }
+    return alerts
+  }
+
+  private async claimAlert(orderId: string, windowKey: string): Promise<boolean> {
+    const result = await redis.set(
+      `${MISSED_WINDOW_KEY_PREFIX}${orderId}:${windowKey}`,
+      '1',
+      'EX',
+      MISSED_WINDOW_KEY_TTL_SECONDS,
+      'NX'
+    )
+    return result === 'OK'
+  }
+
+  private async alertCompany(
+    order: Order,
+    windowLabel: string,
+    windowEnd: string,
+    waypointSequence: number | null
+  ) {
+    logger.warn(
+      { orderId: order.id, companyId: order.company_id, windowEnd, waypointSequence },
+      `Créneau ${windowLabel} manqué pour la commande ${order.id}.`
+    )
+    try {
+      const company = await Company.find(order.company_id)
+      if (company?.fcm_token) {
+        await redis_helper.enqueuePushNotification({
+          fcmToken: company.fcm_token,
+          title: 'Créneau manqué',
+          body: `Le créneau ${windowLabel} de la commande #${order.id.substring(0, 6)} est dépassé.`,
+          data: {
+            order_id: order.id,
+            waypoint_sequence: waypointSequence,
+            window_end: windowEnd,
+            alert: 'time_window_missed',
+            type: NotificationType.MISSION_UPDATE,
+          },
+        })
+      }
+    } catch (error) {
+      logger.error({ err: error, orderId: order.id }, 'Failed to send missed window alert.')
+    }
+  }
+}
+
+export default new OrderSchedulingService()
@@ -0,0 +1,376 @@
+// app/services/payment_reconciliation_service.ts
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import OrderTransaction, {
+  OrderTransactionStatus,
+  OrderTransactionType,
+  PaymentMethod,
+} from '#models/order_transaction'
+import LedgerTransaction, { LedgerTransactionType } from '#models/ledger_transaction'
+import PaymentReconciliationReport, {
+  type ReconciliationMismatch,
+  type ReconciliationProviderSummary,
+} from '#models/payment_reconciliation_report'
+import paymentService, {
+  type GatewayStatus,
+  type GatewayTransactionRecord,
+} from '#services/payment_service'
+import driverWalletService from '#services/driver_wallet_service'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_PENDING_THRESHOLD_MINUTES = 15 // Âge minimal d'une transaction PENDING avant vérification
+const DEFAULT_BATCH_SIZE = 50 // Transactions vérifiées par passage
+
+// Opérations du grand livre attendues pour chaque transaction livreur réussie
+const LEDGER_TYPES_BY_TRANSACTION: Partial<Record<OrderTransactionType, LedgerTransactionType>> = {
+  [OrderTransactionType.DRIVER_PAYMENT]: LedgerTransactionType.DRIVER_EARNING,
+  [OrderTransactionType.DRIVER_BONUS]: LedgerTransactionType.DRIVER_BONUS,
+  [OrderTransactionType.DRIVER_PENALTY]: LedgerTransactionType.DRIVER_PENALTY,
+  [OrderTransactionType.DRIVER_CASH_REMITTANCE]: LedgerTransactionType.COD_REMITTED,
+}
+
+/**
+ * Rapprochement des paiements : vérification des transactions restées PENDING (webhook manqué) et
+ * rapport quotidien des écarts entre nos transactions, le grand livre et les passerelles.
+ */
+class PaymentReconciliationService {
+  get pendingThresholdMinutes(): number {
+    return env.get('PAYMENT_RECONCILIATION_PENDING_MINUTES', DEFAULT_PENDING_THRESHOLD_MINUTES)
+  }
+
+  get batchSize(): number {
+    return env.get('PAYMENT_RECONCILIATION_BATCH_SIZE', DEFAULT_BATCH_SIZE)
+  }
+
+  /**
+   * Vérifie auprès des passerelles les transactions PENDING plus anciennes que le seuil.
+   */
+  async reconcilePending(): Promise<{ checked: number; resolved: number }> {
+    // Seules les passerelles qui exposent une vérification de statut, sinon les mêmes transactions
+    // reviendraient à chaque passage
+    const methods = Object.values(PaymentMethod).filter(
+      (method) => paymentService.getAdapter(method)?.checkPaymentStatus
+    )
+    if (methods.length === 0) return { checked: 0, resolved: 0 }
+
+    const transactions = await paymentService.findStalePendingTransactions(
+      this.pendingThresholdMinutes,
+      this.batchSize,
+      methods
+    )
+    let resolved = 0
+    for (const transaction of transactions) {
+      await paymentService.checkAndUpdatePendingTransaction(transaction.id)
+      await transaction.refresh()
+      if (transaction.status !== OrderTransactionStatus.PENDING) resolved++
+    }
+    return { checked: transactions.length, resolved }
+  }
+
+  /**
+   * Rapport d'un jour (transactions créées ce jour-là) : statuts et montants comparés à la passerelle
+   * (relevé si disponible, sinon vérification unitaire), écritures du grand livre comparées au statut.
+   * Les retraits finalisés sans écriture de clôture sont corrigés au passage.
+   */
+  async generateDailyReport(day: DateTime): Promise<PaymentReconciliationReport> {
+    const from = day.startOf('day')
+    const to = from.plus({ days: 1 })
+    const transactions = await OrderTransaction.query()
+      .where('created_at', '>=', from.toSQL()!)
+      .where('created_at', '<', to.toSQL()!)
+      .orderBy('created_at', 'asc')
+
+    const mismatches: ReconciliationMismatch[] = []
+    const providers: Record<string, ReconciliationProviderSummary> = {}
+
+    const byProvider = new Map<PaymentMethod, OrderTransaction[]>()
+    for (const transaction of transactions) {
+      if (!transaction.payment_method) continue
+      const list = byProvider.get(transaction.payment_method) ?? []
+      list.push(transaction)
+      byProvider.set(transaction.payment_method, list)
+    }
+
+    for (const [provider, list] of byProvider) {
+      const summary: ReconciliationProviderSummary = {
+        transactions: list.length,
+        amount: list.reduce((sum, transaction) => sum + transaction.amount, 0),
+        verified: 0,
+        unverifiable: 0,
+        mismatches: 0,
+      }
+      const before = mismatches.length
+      await this.compareWithProvider(provider, list, from, to, summary, mismatches)
+      summary.mismatches = mismatches.length - before
+      providers[provider] = summary
+    }
+
+    await this.compareWithLedger(transactions, mismatches)
+
+    const report = await PaymentReconciliationReport.updateOrCreate(
+      { report_date: from },
+      {
+        transactions_checked: transactions.length,
+        mismatch_count: mismatches.length,
+        providers,
+        mismatches,
+        generated_at: DateTime.now(),
+      }
+    )
+    if (mismatches.length > 0) {
+      logger.warn(
+        { reportDate: from.toISODate(), mismatches: mismatches.length },
+        'Rapprochement paiements : écarts détectés'
+      )
+    }
+    return report
+  }
+
+  private async compareWithProvider(
+    provider: PaymentMethod,
+    transactions: OrderTransaction[],
+    from: DateTime,
+    to: DateTime,
+    summary: ReconciliationProviderSummary,
+    mismatches: ReconciliationMismatch[]
+  ) {
+    const adapter = paymentService.getAdapter(provider)
+    const staleBefore = DateTime.now().minus({ minutes: this.pendingThresholdMinutes })
+
+    for (const transaction of transactions) {
+      if (
+        !transaction.transaction_reference &&
+        (transaction.status === OrderTransactionStatus.SUCCESS ||
+          (transaction.status === OrderTransactionStatus.PENDING &&
+            transaction.created_at < staleBefore))
+      ) {
+        mismatches.push(
+          this.mismatch(
+            'missing_reference',
+            transaction,
+            transaction.status,
+            null,
+            'Aucune référence passerelle.'
+          )
+        )
+      }
+    }
+    const referenced = transactions.filter((transaction) => transaction.transaction_reference)
+
+    if (adapter?.listTransactions) {
+      // Relevé de la passerelle : écarts dans les deux sens
+      const records = await adapter.listTransactions(from, to)
+      const byReference = new Map<string, GatewayTransactionRecord>(
+        records.map((record) => [record.gatewayTransactionId, record])
+      )
+      // Issue incertaine à l'initiation : la transaction porte notre propre ID comme référence
+      const byTransactionId = new Map<string, GatewayTransactionRecord>(
+        records
+          .filter((record) => record.transactionId)
+          .map((record) => [record.transactionId!, record])
+      )
+      const known = new Set<string>()
+      for (const transaction of referenced) {
+        known.add(transaction.transaction_reference!)
+        const record =
+          byReference.get(transaction.transaction_reference!) ?? byTransactionId.get(transaction.id)
+        if (record) known.add(record.gatewayTransactionId)
+        summary.verified++
+        if (!record) {
+          mismatches.push(
+            this.mismatch('missing_at_provider', transaction, transaction.status, null)
+          )
+          continue
+        }
+        this.compareRecord(transaction, record.status, record.amount, mismatches)
+      }
+      for (const record of records) {
+        if (known.has(record.gatewayTransactionId)) continue
+        // Opération du jour chez la passerelle, mais transaction créée un autre jour chez nous ?
+        const exists = await OrderTransaction.query()
+          .where('transaction_reference', record.gatewayTransactionId)
+          .first()
+        if (exists) continue
+        mismatches.push({
+          type: 'unknown_at_platform',
+          provider,
+          order_transaction_id: record.transactionId ?? null,
+          transaction_reference: record.gatewayTransactionId,
+          expected: null,
+          actual: { status: record.status, amount: record.amount },
+        })
+      }
+      return
+    }
+
+    if (adapter?.checkPaymentStatus) {
+      for (const transaction of referenced) {
+        try {
+          const result = await adapter.checkPaymentStatus(
+            transaction.transaction_reference!,
+            paymentService.gatewayOperationFor(transaction.type)
+          )
+          if (result.status === 'UNKNOWN') {
+            // Passerelle injoignable ou réponse illisible : rien à conclure
+            summary.unverifiable++
+            continue
+          }
+          summary.verified++
+          this.compareRecord(transaction, result.status, result.amount, mismatches)
+        } catch (error) {
+          summary.unverifiable++
+          logger.warn(
+            { err: error, orderTransactionId: transaction.id, provider },
+            'Rapprochement : vérification passerelle impossible'
+          )
+        }
+      }
+      return
+    }
+
+    summary.unverifiable += referenced.length
+  }
+
+  private compareRecord(
+    transaction: OrderTransaction,
+    gatewayStatus: GatewayStatus,
+    gatewayAmount: number | undefined,
+    mismatches: ReconciliationMismatch[]
+  ) {
+    const status = paymentService.mapGatewayStatus({
+      status: gatewayStatus,
+      gatewayTransactionId: transaction.transaction_reference ?? undefined,
+    })
+    if (status !== transaction.status) {
+      mismatches.push(this.mismatch('status_mismatch', transaction, transaction.status, status))
+    }
+    if (gatewayAmount !== undefined && Math.round(gatewayAmount) !== transaction.amount) {
+      mismatches.push(
+        this.mismatch('amount_mismatch', transaction, transaction.amount, Math.round(gatewayAmount))
+      )
+    }
+  }
+
+  private async compareWithLedger(
+    transactions: OrderTransaction[],
+    mismatches: ReconciliationMismatch[]
+  ) {
+    const driverTransactions = transactions.filter(
+      (transaction) =>
+        transaction.type === OrderTransactionType.DRIVER_WITHDRAWAL ||
+        (LEDGER_TYPES_BY_TRANSACTION[transaction.type] &&
+          transaction.status === OrderTransactionStatus.SUCCESS &&
+          // Anciens paiements par mission versés directement, sans portefeuille
+          (!transaction.payment_method ||
+            transaction.type === OrderTransactionType.DRIVER_CASH_REMITTANCE))
+    )
+    if (driverTransactions.length === 0) return
+
+    const ledgerTransactions = await LedgerTransaction.query()
+      .whereIn(
+        'order_transaction_id',
+        driverTransactions.map((transaction) => transaction.id)
+      )
+      .preload('entries')
+    const ledgerByTransaction = new Map<string, LedgerTransaction[]>()
+    for (const ledgerTransaction of ledgerTransactions) {
+      const list = ledgerByTransaction.get(ledgerTransaction.order_transaction_id!) ?? []
+      list.push(ledgerTransaction)
+      ledgerByTransaction.set(ledgerTransaction.order_transaction_id!, list)
+    }
+
+    for (const transaction of driverTransactions) {
+      const ledger = ledgerByTransaction.get(transaction.id) ?? []
+      const expectedTypes =
+        transaction.type === OrderTransactionType.DRIVER_WITHDRAWAL
+          ? this.expectedWithdrawalTypes(transaction.status)
+          : [LEDGER_TYPES_BY_TRANSACTION[transaction.type]!]
+      const actualTypes = ledger.map((ledgerTransaction) => ledgerTransaction.type)
+
+      const missing = expectedTypes.filter((type) => !actualTypes.includes(type))
+      const unexpected = actualTypes.filter((type) => !expectedTypes.includes(type))
+      if (missing.length > 0 || unexpected.length > 0) {
+        let detail: string | undefined
+        const closing = missing.find(
+          (type) =>
+            type === LedgerTransactionType.WITHDRAWAL_SETTLED ||
+            type === LedgerTransactionType.WITHDRAWAL_REVERSED
+        )
+        if (closing && unexpected.length === 0 && missing.length === 1) {
+          // Événement payment:transaction_updated perdu : écriture de clôture rejouée
+          await driverWalletService.syncWithdrawal(transaction.id)
+          detail = 'Écriture de clôture du retrait rejouée.'
+        } else if (
+          transaction.type === OrderTransactionType.DRIVER_CASH_REMITTANCE &&
+          actualTypes.length === 0
+        ) {
+          // Événement payment:transaction_updated perdu : reversement rejoué
+          await cashOnDeliveryService.syncRemittance(transaction.id)
+          detail = 'Écriture du reversement rejouée.'
+        }
+        mismatches.push(
+          this.mismatch('ledger_mismatch', transaction, expectedTypes, actualTypes, detail)
+        )
+        continue
+      }
+
+      // Chaque opération porte le montant de la transaction (crédit total des comptes créditeurs)
+      const wrongAmount = ledger.find(
+        (ledgerTransaction) =>
+          ledgerTransaction.entries
+            .filter((entry) => entry.amount > 0)
+            .reduce((sum, entry) => sum + entry.amount, 0) !== transaction.amount
+      )
+      if (wrongAmount) {
+        mismatches.push(
+          this.mismatch(
+            'ledger_mismatch',
+            transaction,
+            transaction.amount,
+            wrongAmount.type,
+            'Montant des écritures différent.'
+          )
+        )
+      }
+    }
+  }
+
+  private expectedWithdrawalTypes(status: OrderTransactionStatus): LedgerTransactionType[] {
+    switch (status) {
+      case OrderTransactionStatus.SUCCESS:
+        return [
+          LedgerTransactionType.WITHDRAWAL_REQUESTED,
+          LedgerTransactionType.WITHDRAWAL_SETTLED,
+        ]
+      case OrderTransactionStatus.FAILED:
+        return [
+          LedgerTransactionType.WITHDRAWAL_REQUESTED,
+          LedgerTransactionType.WITHDRAWAL_REVERSED,
+        ]
+      default:
+        return [LedgerTransactionType.WITHDRAWAL_REQUESTED]
+    }
+  }
+
+  private mismatch(
+    type: ReconciliationMismatch['type'],
+    transaction: OrderTransaction,
+    expected: unknown,
+    actual: unknown,
+    detail?: string
+  ): ReconciliationMismatch {
+    return {
+      type,
+      provider: transaction.payment_method,
+      order_transaction_id: transaction.id,
+      transaction_reference: transaction.transaction_reference,
+      expected,
+      actual,
+      ...(detail ? { detail } : {}),
+    }
+  }
+}
+
+export default new PaymentReconciliationService()
@@ -1,318 +1,1572 @@
 // app/services/payment_service.ts
 import logger from '@adonisjs/core/services/logger'
+import emitter from '@adonisjs/core/services/emitter'
 import db from '@adonisjs/lucid/services/db' // Pour les transactions si nécessaire pour les mises à jour
+import { cuid } from '@adonisjs/core/helpers'
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
 import OrderTransaction, {
-    OrderTransactionStatus,
-    PaymentMethod,
-    OrderTransactionType, // Pour vérification
+  OrderTransactionStatus,
+  PaymentMethod,
+  OrderTransactionType, // Pour vérification
 } from '#models/order_transaction'
+import PaymentWebhookEvent, { PaymentWebhookEventStatus } from '#models/payment_webhook_event'
 import Driver from '#models/driver' // Pourrait être utile pour des infos supplémentaires
+import env from '#start/env'
 import { DateTime } from 'luxon'
 
 // --- Interfaces pour les adaptateurs de passerelle (Exemple) ---
-interface PaymentGatewayAdapter {
-    initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult>
-    checkPaymentStatus?(transactionReference: string): Promise<GatewayPaymentStatusResult> // Optionnel
+export interface PaymentGatewayAdapter {
+  initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult>
+  // Collecte auprès d'un payeur (paiement client) ; optionnel
+  requestPayment?(payload: GatewayCollectionPayload): Promise<GatewayPaymentResult>
+  checkPaymentStatus?(
+    transactionReference: string,
+    operation?: GatewayOperation
+  ): Promise<GatewayPaymentStatusResult> // Optionnel
+  // Webhooks entrants : signature calculée sur le corps brut, puis normalisation de l'événement
+  verifyWebhookSignature?(rawBody: string, headers: WebhookHeaders): boolean
+  parseWebhook?(body: Record<string, any>, headers: WebhookHeaders): GatewayWebhookEvent | null
+  // Relevé des opérations de la passerelle sur une période (rapprochement quotidien)
+  listTransactions?(from: DateTime, to: DateTime): Promise<GatewayTransactionRecord[]>
 }
 
-interface GatewayPaymentPayload {
-    amount: number
-    currency: string
-    recipientMobileNumber: string // Formaté pour la passerelle
-    recipientProvider: PaymentMethod // 'mtn', 'orange', etc.
-    orderId?: string // Pour référence chez la passerelle
-    transactionId: string // Notre ID de transaction interne pour le rapprochement
-    description?: string
-    // ... autres champs spécifiques à la passerelle
+export interface GatewayPaymentPayload {
+  amount: number
+  currency: string
+  recipientMobileNumber: string // Formaté pour la passerelle
+  recipientProvider: PaymentMethod // 'mtn', 'orange', etc.
+  orderId?: string // Pour référence chez la passerelle
+  transactionId: string // Notre ID de transaction interne pour le rapprochement
+  description?: string
+  // ... autres champs spécifiques à la passerelle
 }
 
-interface GatewayPaymentResult {
-    success: boolean
-    gatewayTransactionId?: string // ID de transaction de la passerelle
-    status: 'PENDING' | 'SUCCESSFUL' | 'FAILED' | 'UNKNOWN' // Statut retourné par la passerelle
-    message?: string
-    errorCode?: string
-    rawResponse?: any // Réponse brute pour débogage
+export interface GatewayCollectionPayload {
+  amount: number
+  currency: string
+  payerMobileNumber: string // Numéro débité, formaté pour la passerelle
+  orderId?: string
+  transactionId: string // Notre ID de transaction interne pour le rapprochement
+  description?: string
 }
 
-interface GatewayPaymentStatusResult extends GatewayPaymentResult { } // Similaire pour la vérification de statut
+// Versement vers un abonné ou collecte auprès d'un abonné (endpoints distincts chez les passerelles)
+export type GatewayOperation = 'payout' | 'collection'
 
-// --- Adaptateurs de Passerelle (Simulés) ---
-// Dans une vraie application, vous auriez des classes/modules séparés pour chaque passerelle.
+// Transactions encaissées par collecte (le payeur valide sur son téléphone) : paiements clients et
+// reversements des espèces encaissées par les livreurs
+const COLLECTION_TRANSACTION_TYPES = [
+  OrderTransactionType.CLIENT_PAYMENT,
+  OrderTransactionType.DRIVER_CASH_REMITTANCE,
+]
+
+export type GatewayStatus = 'PENDING' | 'SUCCESSFUL' | 'FAILED' | 'UNKNOWN'
+
+export interface GatewayPaymentResult {
+  success: boolean
+  gatewayTransactionId?: string // ID de transaction de la passerelle
+  status: GatewayStatus // Statut retourné par la passerelle
+  message?: string
+  errorCode?: string
+  amount?: number // Montant constaté par la passerelle (vérification de statut)
+  paymentUrl?: string // Collecte : lien de paiement à ouvrir par le payeur, si la passerelle en fournit un
+  rawResponse?: any // Réponse brute pour débogage
+}
+
+export interface GatewayPaymentStatusResult extends GatewayPaymentResult {} // Similaire pour la vérification de statut
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>
+
+// Événement webhook normalisé, quel que soit le format de la passerelle
+export interface GatewayWebhookEvent {
+  eventId: string // Identifiant unique de l'événement (dédoublonnage)
+  gatewayTransactionId?: string
+  transactionId?: string // Notre ID si la passerelle le renvoie (référence externe)
+  status: GatewayStatus
+  amount?: number
+}
+
+export interface GatewayTransactionRecord {
+  gatewayTransactionId: string
+  transactionId?: string
+  amount: number
+  status: GatewayStatus
+}
+
+export type WebhookHandlingResult =
+  | { outcome: 'unsupported' | 'invalid_signature' | 'invalid_payload' }
+  | { outcome: 'processed' | 'ignored' | 'duplicate'; eventId: string }
+
+/**
+ * Compare une signature HMAC-SHA256 (hex) du corps brut en temps constant.
+ * Secret absent : toute signature est refusée.
+ */
+export function verifyHmacSignature(
+  secret: string | undefined,
+  payload: string,
+  signature: string | undefined
+): boolean {
+  if (!secret || !signature) return false
+  const expected = createHmac('sha256', secret).update(payload).digest('hex')
+  const received = signature.replace(/^sha256=/, '')
+  return (
+    expected.length === received.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(received))
+  )
+}
+
+function headerValue(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()]
+  return Array.isArray(value) ? value[0] : value
+}
+
+// --- Appels HTTP aux passerelles ---
+// Chaque passerelle est appelée sur l'URL configurée (PAYMENT_GATEWAY_URL_<PROVIDER>), qui peut pointer
+// vers le serveur de simulation local (node ace payments:mock-gateway).
+const DEFAULT_GATEWAY_TIMEOUT_MS = 15000
+
+interface GatewayHttpResponse {
+  status: number
+  data: any
+}
+
+// Versement ou collecte, normalisé avant mise au format de la passerelle
+interface GatewayOperationRequest {
+  operation: GatewayOperation
+  amount: number
+  currency: string
+  msisdn: string // Bénéficiaire (versement) ou payeur (collecte)
+  transactionId: string
+  description?: string
+}
+
+async function gatewayRequest(
+  url: string,
+  options: { method: 'GET' | 'POST'; headers?: Record<string, string>; body?: unknown }
+): Promise<GatewayHttpResponse> {
+  const response = await fetch(url, {
+    method: options.method,
+    headers: {
+      Accept: 'application/json',
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers,
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: AbortSignal.timeout(env.get('PAYMENT_GATEWAY_TIMEOUT_MS', DEFAULT_GATEWAY_TIMEOUT_MS)),
+  })
+  const text = await response.text()
+  let data: any = null
+  try {
+    data = text ? JSON.parse(text) : null
+  } catch {
+    data = { raw: text.substring(0, 500) }
+  }
+  return { status: response.status, data }
+}
+
+function isHttpSuccess(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+// URL de notification transmise à la passerelle (absente : la passerelle utilise celle de son back-office)
+function webhookCallbackUrl(provider: PaymentMethod): string | undefined {
+  const baseUrl = env.get('PAYMENT_WEBHOOK_BASE_URL')
+  return baseUrl ? `${baseUrl.replace(/\/+$/, '')}/payments/webhooks/${provider}` : undefined
+}
+
+function toOperationRequest(
+  operation: GatewayOperation,
+  payload: GatewayPaymentPayload | GatewayCollectionPayload
+): GatewayOperationRequest {
+  return {
+    operation,
+    amount: payload.amount,
+    currency: payload.currency,
+    msisdn:
+      'payerMobileNumber' in payload ? payload.payerMobileNumber : payload.recipientMobileNumber,
+    transactionId: payload.transactionId,
+    description: payload.description,
+  }
+}
+
+/**
+ * Échec d'initiation. Un refus 4xx est ferme (rien n'a été exécuté). Une erreur 5xx, un conflit ou un délai
+ * dépassé laisse l'issue incertaine : on renvoie notre référence pour que le rapprochement la vérifie
+ * (jamais de nouvelle tentative à l'aveugle, donc jamais de double versement).
+ */
+function failedInitiation(
+  provider: PaymentMethod,
+  reference: string,
+  outcome: { response?: GatewayHttpResponse; error?: unknown }
+): GatewayPaymentResult {
+  const { response, error } = outcome
+  if (response && response.status >= 400 && response.status < 500 && response.status !== 409) {
+    return {
+      success: false,
+      status: 'FAILED',
+      message: `${provider} rejected the payment (HTTP ${response.status})`,
+      errorCode: String(response.data?.code ?? response.data?.error ?? `HTTP_${response.status}`),
+      rawResponse: response.data,
+    }
+  }
+  const timedOut = error instanceof Error && error.name === 'TimeoutError'
+  return {
+    success: false,
+    status: 'UNKNOWN',
+    gatewayTransactionId: reference,
+    message: response
+      ? `${provider} returned HTTP ${response.status}, outcome unknown`
+      : `${provider} unreachable: ${error instanceof Error ? error.message : String(error)}`,
+    errorCode: timedOut ? 'GATEWAY_TIMEOUT' : 'GATEWAY_UNAVAILABLE',
+    rawResponse: response?.data,
+  }
+}
+
+// Échec de vérification : une opération inconnue de la passerelle n'a jamais été exécutée
+function failedStatusCheck(
+  provider: PaymentMethod,
+  reference: string,
+  outcome: { response?: GatewayHttpResponse; error?: unknown }
+): GatewayPaymentStatusResult {
+  if (outcome.response?.status === 404) {
+    return {
+      success: false,
+      gatewayTransactionId: reference,
+      status: 'FAILED',
+      message: `${provider} has no operation ${reference}`,
+      errorCode: 'NOT_FOUND',
+    }
+  }
+  return {
+    success: false,
+    gatewayTransactionId: reference,
+    status: 'UNKNOWN',
+    message: outcome.response
+      ? `${provider} status check returned HTTP ${outcome.response.status}`
+      : `${provider} unreachable: ${outcome.error instanceof Error ? outcome.error.message : String(outcome.error)}`,
+    errorCode:
+      outcome.error instanceof Error && outcome.error.name === 'TimeoutError'
+        ? 'GATEWAY_TIMEOUT'
+        : 'GATEWAY_UNAVAILABLE',
+    rawResponse: outcome.response?.data,
+  }
+}
+
+function amountOf(value: unknown): number | undefined {
+  return value !== undefined && value !== null ? Number(value) : undefined
+}
+
+// Collecte simulée (sans URL de passerelle) : le payeur valide immédiatement
+function simulatedCollection(
+  provider: string,
+  payload: GatewayCollectionPayload
+): GatewayPaymentResult {
+  logger.info({ provider, ...payload }, `Simulating ${provider} collection...`)
+  return {
+    success: true,
+    gatewayTransactionId: `${provider.toLowerCase()}_col_${Date.now()}`,
+    status: 'SUCCESSFUL',
+    message: `${provider} collection successful (simulation)`,
+  }
+}
+
+// --- Adaptateurs de Passerelle ---
+// Sans PAYMENT_GATEWAY_URL_<PROVIDER>, MTN, Orange et Wave restent simulés en mémoire (développement).
 class MtnGatewayAdapter implements PaymentGatewayAdapter {
-    async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
-        logger.info({ provider: 'MTN', ...payload }, 'Simulating MTN payment initiation...')
-        // TODO: Intégrer le SDK/API MTN ici
-        // Simuler une réponse
-        await new Promise(resolve => setTimeout(resolve, 1500)); // Simuler latence réseau
-        const isSuccess = Math.random() > 0.2; // 80% de succès
-        if (isSuccess) {
-            return {
-                success: true,
-                gatewayTransactionId: `mtn_tx_${Date.now()}`,
-                status: 'SUCCESSFUL',
-                message: 'MTN Payment successful (simulation)',
-            }
-        } else {
-            return {
-                success: false,
-                status: 'FAILED',
-                message: 'MTN Payment failed (simulation)',
-                errorCode: 'MTN_ERR_SIM_001',
-            }
+  private readonly baseUrl = env.get('PAYMENT_GATEWAY_URL_MTN')
+  private readonly apiKey = env.get('PAYMENT_GATEWAY_API_KEY_MTN', '')
+
+  // MoMo Disbursement : POST /disbursement/v1_0/transfer (202, référence X-Reference-Id choisie par nous)
+  async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) return this.simulatePayment(payload)
+    return this.submit(toOperationRequest('payout', payload))
+  }
+
+  // MoMo Collection : POST /collection/v1_0/requesttopay, le payeur valide sur son téléphone
+  async requestPayment(payload: GatewayCollectionPayload): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) return simulatedCollection('MTN', payload)
+    return this.submit(toOperationRequest('collection', payload))
+  }
+
+  async checkPaymentStatus(
+    transactionReference: string,
+    operation: GatewayOperation = 'payout'
+  ): Promise<GatewayPaymentStatusResult> {
+    if (!this.baseUrl) {
+      logger.info({ provider: 'MTN', transactionReference }, 'Simulating MTN status check...')
+      return {
+        success: true,
+        gatewayTransactionId: transactionReference,
+        status: 'SUCCESSFUL',
+        message: 'MTN status (simulation)',
+      }
+    }
+    try {
+      const response = await gatewayRequest(
+        `${this.baseUrl}${this.path(operation)}/${encodeURIComponent(transactionReference)}`,
+        {
+          method: 'GET',
+          headers: { 'Ocp-Apim-Subscription-Key': this.apiKey },
         }
+      )
+      if (!isHttpSuccess(response.status)) {
+        return failedStatusCheck(PaymentMethod.MTN, transactionReference, { response })
+      }
+      const status = String(response.data?.status ?? '').toUpperCase()
+      return {
+        success: status === 'SUCCESSFUL',
+        gatewayTransactionId: transactionReference,
+        status: ['SUCCESSFUL', 'FAILED', 'PENDING'].includes(status)
+          ? (status as GatewayStatus)
+          : 'UNKNOWN',
+        message: response.data?.reason,
+        amount: amountOf(response.data?.amount),
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedStatusCheck(PaymentMethod.MTN, transactionReference, { error })
+    }
+  }
+
+  private path(operation: GatewayOperation): string {
+    return operation === 'collection'
+      ? '/collection/v1_0/requesttopay'
+      : '/disbursement/v1_0/transfer'
+  }
+
+  private async submit(request: GatewayOperationRequest): Promise<GatewayPaymentResult> {
+    const referenceId = randomUUID()
+    const callbackUrl = webhookCallbackUrl(PaymentMethod.MTN)
+    const party = { partyIdType: 'MSISDN', partyId: request.msisdn }
+    try {
+      const response = await gatewayRequest(`${this.baseUrl}${this.path(request.operation)}`, {
+        method: 'POST',
+        headers: {
+          'X-Reference-Id': referenceId,
+          'Ocp-Apim-Subscription-Key': this.apiKey,
+          ...(callbackUrl ? { 'X-Callback-Url': callbackUrl } : {}),
+        },
+        body: {
+          amount: String(request.amount),
+          currency: request.currency,
+          externalId: request.transactionId,
+          ...(request.operation === 'collection' ? { payer: party } : { payee: party }),
+          payerMessage: request.description,
+          payeeNote: request.description,
+        },
+      })
+      if (!isHttpSuccess(response.status)) {
+        return failedInitiation(PaymentMethod.MTN, referenceId, { response })
+      }
+      // 202 Accepted : le résultat arrive par callback ou par vérification de statut
+      return {
+        success: true,
+        gatewayTransactionId: referenceId,
+        status: 'PENDING',
+        message: 'MTN request accepted',
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedInitiation(PaymentMethod.MTN, referenceId, { error })
+    }
+  }
+
+  private async simulatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    logger.info({ provider: 'MTN', ...payload }, 'Simulating MTN payment initiation...')
+    await new Promise((resolve) => setTimeout(resolve, 1500)) // Simuler latence réseau
+    const isSuccess = Math.random() > 0.2 // 80% de succès
+    if (isSuccess) {
+      return {
+        success: true,
+        gatewayTransactionId: `mtn_tx_${Date.now()}`,
+        status: 'SUCCESSFUL',
+        message: 'MTN Payment successful (simulation)',
+      }
+    } else {
+      return {
+        success: false,
+        status: 'FAILED',
+        message: 'MTN Payment failed (simulation)',
+        errorCode: 'MTN_ERR_SIM_001',
+      }
     }
+  }
+
+  // Callback MoMo : en-tête X-Mtn-Signature = HMAC-SHA256 du corps
+  verifyWebhookSignature(rawBody: string, headers: WebhookHeaders): boolean {
+    return verifyHmacSignature(
+      env.get('PAYMENT_WEBHOOK_SECRET_MTN'),
+      rawBody,
+      headerValue(headers, 'x-mtn-signature')
+    )
+  }
+
+  // { financialTransactionId, externalId, amount, status: SUCCESSFUL | FAILED | PENDING }
+  parseWebhook(body: Record<string, any>): GatewayWebhookEvent | null {
+    if (!body.financialTransactionId || !body.status) return null
+    const status = String(body.status).toUpperCase()
+    return {
+      // MoMo n'envoie pas d'identifiant d'événement : une notification par statut et par opération
+      eventId: `${body.financialTransactionId}:${status}`,
+      gatewayTransactionId: String(body.financialTransactionId),
+      transactionId: body.externalId ? String(body.externalId) : undefined,
+      status: ['SUCCESSFUL', 'FAILED', 'PENDING'].includes(status)
+        ? (status as GatewayStatus)
+        : 'UNKNOWN',
+      amount: body.amount !== undefined ? Number(body.amount) : undefined,
+    }
+  }
+}
+
+const ORANGE_STATUSES: Record<string, GatewayStatus> = {
+  SUCCESS: 'SUCCESSFUL',
+  FAILED: 'FAILED',
+  PENDING: 'PENDING',
 }
 
 class OrangeGatewayAdapter implements PaymentGatewayAdapter {
-    async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
-        logger.info({ provider: 'Orange', ...payload }, 'Simulating Orange payment initiation...')
-        // TODO: Intégrer le SDK/API Orange ici
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return {
-            success: true, // Supposons qu'Orange réussit toujours pour la démo
-            gatewayTransactionId: `orange_tx_${Date.now()}`,
-            status: 'SUCCESSFUL',
-            message: 'Orange Payment successful (simulation)',
+  private readonly baseUrl = env.get('PAYMENT_GATEWAY_URL_ORANGE')
+  private readonly apiKey = env.get('PAYMENT_GATEWAY_API_KEY_ORANGE', '')
+
+  // Cash-in Orange Money : POST /cashin, notre ID en order_id (consultable ensuite par txnid ou order_id)
+  async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) return this.simulatePayment(payload)
+    return this.submit(toOperationRequest('payout', payload))
+  }
+
+  // Paiement marchand Orange Money : POST /payment
+  async requestPayment(payload: GatewayCollectionPayload): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) return simulatedCollection('Orange', payload)
+    return this.submit(toOperationRequest('collection', payload))
+  }
+
+  async checkPaymentStatus(
+    transactionReference: string,
+    operation: GatewayOperation = 'payout'
+  ): Promise<GatewayPaymentStatusResult> {
+    if (!this.baseUrl) {
+      logger.info({ provider: 'Orange', transactionReference }, 'Simulating Orange status check...')
+      return {
+        success: true,
+        gatewayTransactionId: transactionReference,
+        status: 'SUCCESSFUL',
+        message: 'Orange status (simulation)',
+      }
+    }
+    try {
+      const response = await gatewayRequest(
+        `${this.baseUrl}${this.path(operation)}/${encodeURIComponent(transactionReference)}`,
+        {
+          method: 'GET',
+          headers: { Authorization: `Bearer ${this.apiKey}` },
         }
+      )
+      if (!isHttpSuccess(response.status)) {
+        return failedStatusCheck(PaymentMethod.ORANGE, transactionReference, { response })
+      }
+      const status = ORANGE_STATUSES[String(response.data?.status ?? '').toUpperCase()] ?? 'UNKNOWN'
+      return {
+        success: status === 'SUCCESSFUL',
+        gatewayTransactionId: transactionReference,
+        status,
+        message: response.data?.message,
+        amount: amountOf(response.data?.amount),
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedStatusCheck(PaymentMethod.ORANGE, transactionReference, { error })
+    }
+  }
+
+  private path(operation: GatewayOperation): string {
+    return operation === 'collection' ? '/payment' : '/cashin'
+  }
+
+  private async submit(request: GatewayOperationRequest): Promise<GatewayPaymentResult> {
+    try {
+      const response = await gatewayRequest(`${this.baseUrl}${this.path(request.operation)}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: {
+          order_id: request.transactionId,
+          amount: request.amount,
+          currency: request.currency,
+          msisdn: request.msisdn,
+          description: request.description,
+          notif_url: webhookCallbackUrl(PaymentMethod.ORANGE),
+        },
+      })
+      if (!isHttpSuccess(response.status)) {
+        return failedInitiation(PaymentMethod.ORANGE, request.transactionId, { response })
+      }
+      const status = ORANGE_STATUSES[String(response.data?.status ?? '').toUpperCase()] ?? 'UNKNOWN'
+      return {
+        success: status !== 'FAILED',
+        gatewayTransactionId: response.data?.txnid
+          ? String(response.data.txnid)
+          : request.transactionId,
+        status,
+        message: response.data?.message,
+        paymentUrl: response.data?.payment_url,
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedInitiation(PaymentMethod.ORANGE, request.transactionId, { error })
+    }
+  }
+
+  private async simulatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    logger.info({ provider: 'Orange', ...payload }, 'Simulating Orange payment initiation...')
+    await new Promise((resolve) => setTimeout(resolve, 1000))
+    return {
+      success: true, // Supposons qu'Orange réussit toujours pour la démo
+      gatewayTransactionId: `orange_tx_${Date.now()}`,
+      status: 'SUCCESSFUL',
+      message: 'Orange Payment successful (simulation)',
+    }
+  }
+
+  // Notification Orange Money : en-tête X-Orange-Signature = HMAC-SHA256 du corps
+  verifyWebhookSignature(rawBody: string, headers: WebhookHeaders): boolean {
+    return verifyHmacSignature(
+      env.get('PAYMENT_WEBHOOK_SECRET_ORANGE'),
+      rawBody,
+      headerValue(headers, 'x-orange-signature')
+    )
+  }
+
+  // { notif_token, txnid, order_id, amount, status: SUCCESS | FAILED | PENDING }
+  parseWebhook(body: Record<string, any>): GatewayWebhookEvent | null {
+    if (!body.txnid || !body.status) return null
+    const status = String(body.status).toUpperCase()
+    return {
+      eventId: String(body.notif_token ?? `${body.txnid}:${status}`),
+      gatewayTransactionId: String(body.txnid),
+      transactionId: body.order_id ? String(body.order_id) : undefined,
+      status: ORANGE_STATUSES[status] ?? 'UNKNOWN',
+      amount: body.amount !== undefined ? Number(body.amount) : undefined,
     }
+  }
+}
+
+// Statuts des versements (status) et des sessions de paiement (payment_status)
+const WAVE_STATUSES: Record<string, GatewayStatus> = {
+  succeeded: 'SUCCESSFUL',
+  failed: 'FAILED',
+  reversed: 'FAILED',
+  cancelled: 'FAILED',
+  processing: 'PENDING',
 }
 
 class WaveGatewayAdapter implements PaymentGatewayAdapter {
-    async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
-        logger.info({ provider: 'Wave', ...payload }, 'Simulating Wave payment initiation...')
-        // TODO: Intégrer le SDK/API Wave ici
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return {
-            success: true, // Supposons qu'Orange réussit toujours pour la démo
-            gatewayTransactionId: `wave_tx_${Date.now()}`,
-            status: 'SUCCESSFUL',
-            message: 'Wave Payment successful (simulation)',
+  private readonly baseUrl = env.get('PAYMENT_GATEWAY_URL_WAVE')
+  private readonly apiKey = env.get('PAYMENT_GATEWAY_API_KEY_WAVE', '')
+
+  // Wave Payout : POST /v1/payout, rejouable sans risque grâce à l'en-tête idempotency-key
+  async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) return this.simulatePayment(payload)
+
+    try {
+      const response = await gatewayRequest(`${this.baseUrl}/v1/payout`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'idempotency-key': payload.transactionId,
+        },
+        body: {
+          currency: payload.currency,
+          receive_amount: String(payload.amount),
+          mobile: payload.recipientMobileNumber,
+          client_reference: payload.transactionId,
+          payment_reason: payload.description,
+        },
+      })
+      if (!isHttpSuccess(response.status)) {
+        return failedInitiation(PaymentMethod.WAVE, payload.transactionId, { response })
+      }
+      const status = WAVE_STATUSES[String(response.data?.status ?? '')] ?? 'UNKNOWN'
+      return {
+        success: status !== 'FAILED',
+        gatewayTransactionId: response.data?.id ? String(response.data.id) : payload.transactionId,
+        status,
+        message: response.data?.payout_error?.error_code ?? response.data?.status,
+        errorCode: response.data?.payout_error?.error_code,
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedInitiation(PaymentMethod.WAVE, payload.transactionId, { error })
+    }
+  }
+
+  // Wave Checkout : POST /v1/checkout/sessions, le payeur ouvre wave_launch_url pour valider
+  async requestPayment(payload: GatewayCollectionPayload): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) return simulatedCollection('Wave', payload)
+
+    try {
+      const response = await gatewayRequest(`${this.baseUrl}/v1/checkout/sessions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'idempotency-key': payload.transactionId,
+        },
+        body: {
+          amount: String(payload.amount),
+          currency: payload.currency,
+          client_reference: payload.transactionId,
+          restrict_payer_mobile: payload.payerMobileNumber,
+        },
+      })
+      if (!isHttpSuccess(response.status)) {
+        return failedInitiation(PaymentMethod.WAVE, payload.transactionId, { response })
+      }
+      const status = WAVE_STATUSES[String(response.data?.payment_status ?? '')] ?? 'UNKNOWN'
+      return {
+        success: status !== 'FAILED',
+        gatewayTransactionId: response.data?.id ? String(response.data.id) : payload.transactionId,
+        status,
+        message: response.data?.checkout_status,
+        paymentUrl: response.data?.wave_launch_url,
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedInitiation(PaymentMethod.WAVE, payload.transactionId, { error })
+    }
+  }
+
+  async checkPaymentStatus(
+    transactionReference: string,
+    operation: GatewayOperation = 'payout'
+  ): Promise<GatewayPaymentStatusResult> {
+    if (!this.baseUrl) {
+      logger.info({ provider: 'Wave', transactionReference }, 'Simulating Wave status check...')
+      return {
+        success: true,
+        gatewayTransactionId: transactionReference,
+        status: 'SUCCESSFUL',
+        message: 'Wave status (simulation)',
+      }
+    }
+    const path = operation === 'collection' ? '/v1/checkout/sessions' : '/v1/payout'
+    try {
+      const response = await gatewayRequest(
+        `${this.baseUrl}${path}/${encodeURIComponent(transactionReference)}`,
+        {
+          method: 'GET',
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+        }
+      )
+      if (!isHttpSuccess(response.status)) {
+        return failedStatusCheck(PaymentMethod.WAVE, transactionReference, { response })
+      }
+      const status =
+        WAVE_STATUSES[String(response.data?.status ?? response.data?.payment_status ?? '')] ??
+        'UNKNOWN'
+      return {
+        success: status === 'SUCCESSFUL',
+        gatewayTransactionId: transactionReference,
+        status,
+        message: response.data?.status ?? response.data?.checkout_status,
+        errorCode: response.data?.payout_error?.error_code,
+        amount: amountOf(response.data?.receive_amount ?? response.data?.amount),
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedStatusCheck(PaymentMethod.WAVE, transactionReference, { error })
+    }
+  }
+
+  private async simulatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    logger.info({ provider: 'Wave', ...payload }, 'Simulating Wave payment initiation...')
+    await new Promise((resolve) => setTimeout(resolve, 1000))
+    return {
+      success: true, // Supposons qu'Orange réussit toujours pour la démo
+      gatewayTransactionId: `wave_tx_${Date.now()}`,
+      status: 'SUCCESSFUL',
+      message: 'Wave Payment successful (simulation)',
+    }
+  }
+
+  // En-tête Wave-Signature : "t=<timestamp>,v1=<HMAC-SHA256 de timestamp + corps>"
+  verifyWebhookSignature(rawBody: string, headers: WebhookHeaders): boolean {
+    const parts = Object.fromEntries(
+      (headerValue(headers, 'wave-signature') ?? '')
+        .split(',')
+        .map((part) => part.split('=') as [string, string])
+    )
+    return verifyHmacSignature(
+      env.get('PAYMENT_WEBHOOK_SECRET_WAVE'),
+      `${parts.t ?? ''}${rawBody}`,
+      parts.v1
+    )
+  }
+
+  // { id, type: payout.* | checkout.session.*, data: { id, client_reference, amount, status | payment_status } }
+  parseWebhook(body: Record<string, any>): GatewayWebhookEvent | null {
+    if (!body.id || !body.data?.id) return null
+    return {
+      eventId: String(body.id),
+      gatewayTransactionId: String(body.data.id),
+      transactionId: body.data.client_reference ? String(body.data.client_reference) : undefined,
+      status: WAVE_STATUSES[String(body.data.status ?? body.data.payment_status)] ?? 'UNKNOWN',
+      amount: body.data.amount !== undefined ? Number(body.data.amount) : undefined,
+    }
+  }
+}
+
+const MOOV_STATUSES: Record<string, GatewayStatus> = {
+  SUCCESS: 'SUCCESSFUL',
+  FAILED: 'FAILED',
+  PENDING: 'PENDING',
+}
+const MOOV_LIST_PAGE_SIZE = 100
+
+/**
+ * Moov Money (Flooz) : transferts marchand vers abonné et collectes auprès d'un abonné.
+ * Pas de mode simulé : sans PAYMENT_GATEWAY_URL_MOOV, les opérations échouent avant tout appel.
+ */
+class MoovGatewayAdapter implements PaymentGatewayAdapter {
+  private readonly baseUrl = env.get('PAYMENT_GATEWAY_URL_MOOV')
+  private readonly apiKey = env.get('PAYMENT_GATEWAY_API_KEY_MOOV', '')
+
+  // POST /api/v1/transfers : notre ID sert de référence marchand et de clé d'idempotence
+  async initiatePayment(payload: GatewayPaymentPayload): Promise<GatewayPaymentResult> {
+    return this.submit(toOperationRequest('payout', payload))
+  }
+
+  // POST /api/v1/collections : demande de débit validée par l'abonné (code PIN)
+  async requestPayment(payload: GatewayCollectionPayload): Promise<GatewayPaymentResult> {
+    return this.submit(toOperationRequest('collection', payload))
+  }
+
+  // GET /api/v1/{transfers|collections}/:id : identifiant Moov ou notre référence
+  async checkPaymentStatus(
+    transactionReference: string,
+    operation: GatewayOperation = 'payout'
+  ): Promise<GatewayPaymentStatusResult> {
+    if (!this.baseUrl) {
+      return {
+        success: false,
+        gatewayTransactionId: transactionReference,
+        status: 'UNKNOWN',
+        message: 'Moov gateway is not configured',
+        errorCode: 'MOOV_NOT_CONFIGURED',
+      }
+    }
+    try {
+      const response = await gatewayRequest(
+        `${this.baseUrl}${this.path(operation)}/${encodeURIComponent(transactionReference)}`,
+        {
+          method: 'GET',
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+        }
+      )
+      if (!isHttpSuccess(response.status)) {
+        return failedStatusCheck(PaymentMethod.MOOV, transactionReference, { response })
+      }
+      const status = MOOV_STATUSES[String(response.data?.status ?? '').toUpperCase()] ?? 'UNKNOWN'
+      return {
+        success: status === 'SUCCESSFUL',
+        gatewayTransactionId: transactionReference,
+        status,
+        message: response.data?.message,
+        errorCode: response.data?.code,
+        amount: amountOf(response.data?.amount),
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedStatusCheck(PaymentMethod.MOOV, transactionReference, { error })
+    }
+  }
+
+  // Relevés paginés GET /api/v1/{transfers|collections}?from&to&page (rapprochement quotidien)
+  async listTransactions(from: DateTime, to: DateTime): Promise<GatewayTransactionRecord[]> {
+    if (!this.baseUrl) throw new Error('Moov gateway is not configured')
+
+    const records: GatewayTransactionRecord[] = []
+    for (const operation of ['payout', 'collection'] as GatewayOperation[]) {
+      for (let page = 1; ; page++) {
+        const query = new URLSearchParams({
+          from: from.toISO()!,
+          to: to.toISO()!,
+          page: String(page),
+          per_page: String(MOOV_LIST_PAGE_SIZE),
+        })
+        const response = await gatewayRequest(`${this.baseUrl}${this.path(operation)}?${query}`, {
+          method: 'GET',
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+        })
+        if (!isHttpSuccess(response.status)) {
+          throw new Error(`Moov ${operation} listing failed (HTTP ${response.status})`)
+        }
+        for (const item of response.data?.data ?? []) {
+          records.push({
+            gatewayTransactionId: String(item.transaction_id),
+            transactionId: item.reference ? String(item.reference) : undefined,
+            amount: Number(item.amount),
+            status: MOOV_STATUSES[String(item.status ?? '').toUpperCase()] ?? 'UNKNOWN',
+          })
         }
+        if (!response.data?.has_more) break
+      }
+    }
+    return records
+  }
+
+  private path(operation: GatewayOperation): string {
+    return operation === 'collection' ? '/api/v1/collections' : '/api/v1/transfers'
+  }
+
+  private async submit(request: GatewayOperationRequest): Promise<GatewayPaymentResult> {
+    if (!this.baseUrl) {
+      return {
+        success: false,
+        status: 'FAILED',
+        message: 'Moov gateway is not configured',
+        errorCode: 'MOOV_NOT_CONFIGURED',
+      }
     }
+    try {
+      const response = await gatewayRequest(`${this.baseUrl}${this.path(request.operation)}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Idempotency-Key': request.transactionId,
+        },
+        body: {
+          reference: request.transactionId,
+          msisdn: request.msisdn,
+          amount: request.amount,
+          currency: request.currency,
+          description: request.description,
+          callback_url: webhookCallbackUrl(PaymentMethod.MOOV),
+        },
+      })
+      if (!isHttpSuccess(response.status)) {
+        return failedInitiation(PaymentMethod.MOOV, request.transactionId, { response })
+      }
+      const status = MOOV_STATUSES[String(response.data?.status ?? '').toUpperCase()] ?? 'UNKNOWN'
+      return {
+        success: status !== 'FAILED',
+        gatewayTransactionId: response.data?.transaction_id
+          ? String(response.data.transaction_id)
+          : request.transactionId,
+        status,
+        message: response.data?.message,
+        errorCode: response.data?.code,
+        rawResponse: response.data,
+      }
+    } catch (error) {
+      return failedInitiation(PaymentMethod.MOOV, request.transactionId, { error })
+    }
+  }
+
+  // Notification Moov : en-tête X-Moov-Signature = HMAC-SHA256 du corps
+  verifyWebhookSignature(rawBody: string, headers: WebhookHeaders): boolean {
+    return verifyHmacSignature(
+      env.get('PAYMENT_WEBHOOK_SECRET_MOOV'),
+      rawBody,
+      headerValue(headers, 'x-moov-signature')
+    )
+  }
+
+  // { event_id, transaction_id, reference, amount, status: SUCCESS | FAILED | PENDING }
+  parseWebhook(body: Record<string, any>): GatewayWebhookEvent | null {
+    if (!body.transaction_id || !body.status) return null
+    const status = String(body.status).toUpperCase()
+    return {
+      eventId: String(body.event_id ?? `${body.transaction_id}:${status}`),
+      gatewayTransactionId: String(body.transaction_id),
+      transactionId: body.reference ? String(body.reference) : undefined,
+      status: MOOV_STATUSES[status] ?? 'UNKNOWN',
+      amount: amountOf(body.amount),
+    }
+  }
 }
-// Ajouter WaveGatewayAdapter, etc.
 
 class PaymentService {
-    private gatewayAdapters: Map<PaymentMethod, PaymentGatewayAdapter>
-
-    constructor() {
-        this.gatewayAdapters = new Map()
-        this.gatewayAdapters.set(PaymentMethod.MTN, new MtnGatewayAdapter())
-        this.gatewayAdapters.set(PaymentMethod.ORANGE, new OrangeGatewayAdapter())
-        this.gatewayAdapters.set(PaymentMethod.WAVE, new WaveGatewayAdapter());
-        // ... initialiser les autres adaptateurs
-    }
-
-    /**
-     * Initiates the payout process for a driver for a given OrderTransaction.
-     * This method is called by BillingWorker after creating an OrderTransaction with PENDING status.
-     * It will attempt the payment and update the OrderTransaction status accordingly.
-     *
-     * IMPORTANT: This simplified version makes a direct call to the gateway and updates.
-     * In a robust system, this might:
-     * 1. Enqueue a job for a separate "PaymentExecutionWorker".
-     * 2. Handle webhooks from the payment gateway to update status asynchronously.
-     * 3. Implement retry logic with backoff for temporary gateway failures.
-     */
-    public async initiateDriverPayout(
-        orderTransactionId: string,
-        // Les infos de paiement pourraient aussi être récupérées depuis la DB via orderTransactionId
-        // mais les passer peut éviter une lecture si BillingWorker les a déjà.
-        paymentMethodDetail: { provider: PaymentMethod, number: string },
-        amountToPay: number
-    ): Promise<void> {
-        const logContext = { orderTransactionId, service: 'PaymentService' }
-        logger.info(logContext, `Initiating driver payout process...`)
-
-        let orderTransaction: OrderTransaction | null = null
+  private gatewayAdapters: Map<PaymentMethod, PaymentGatewayAdapter>
+
+  constructor() {
+    this.gatewayAdapters = new Map()
+    this.gatewayAdapters.set(PaymentMethod.MTN, new MtnGatewayAdapter())
+    this.gatewayAdapters.set(PaymentMethod.ORANGE, new OrangeGatewayAdapter())
+    this.gatewayAdapters.set(PaymentMethod.WAVE, new WaveGatewayAdapter())
+    this.gatewayAdapters.set(PaymentMethod.MOOV, new MoovGatewayAdapter())
+  }
+
+  /**
+   * Initiates the payout process for a driver for a given OrderTransaction.
+   * This method is called by DriverWalletService after creating a DRIVER_WITHDRAWAL OrderTransaction with PENDING status.
+   * It will attempt the payment and update the OrderTransaction status accordingly.
+   *
+   * IMPORTANT: This simplified version makes a direct call to the gateway and updates.
+   * In a robust system, this might:
+   * 1. Enqueue a job for a separate "PaymentExecutionWorker".
+   * 2. Handle webhooks from the payment gateway to update status asynchronously.
+   * 3. Implement retry logic with backoff for temporary gateway failures.
+   */
+  public async initiateDriverPayout(
+    orderTransactionId: string,
+    // Les infos de paiement pourraient aussi être récupérées depuis la DB via orderTransactionId
+    // mais les passer peut éviter une lecture si BillingWorker les a déjà.
+    paymentMethodDetail: { provider: PaymentMethod; number: string },
+    amountToPay: number
+  ): Promise<void> {
+    const logContext = { orderTransactionId, service: 'PaymentService' }
+    logger.info(logContext, `Initiating driver payout process...`)
+
+    let orderTransaction: OrderTransaction | null = null
+    let gatewayCalled = false
+
+    try {
+      orderTransaction = await OrderTransaction.find(orderTransactionId)
+
+      if (!orderTransaction) {
+        logger.error({ ...logContext }, `OrderTransaction not found. Cannot proceed with payment.`)
+        return
+      }
+
+      if (orderTransaction.status !== OrderTransactionStatus.PENDING) {
+        logger.warn(
+          { ...logContext, currentStatus: orderTransaction.status },
+          `OrderTransaction is not in PENDING status. Skipping payment initiation.`
+        )
+        // Pourrait être un appel en double, ou déjà traité.
+        return
+      }
 
+      // Versements livreur : retraits du portefeuille (et anciens paiements par mission)
+      if (
+        ![OrderTransactionType.DRIVER_PAYMENT, OrderTransactionType.DRIVER_WITHDRAWAL].includes(
+          orderTransaction.type
+        )
+      ) {
+        logger.error(
+          { ...logContext, type: orderTransaction.type },
+          `OrderTransaction is not a driver payout. Aborting.`
+        )
+        // Mettre à jour en FAILED ? Ou juste ignorer ?
+        await this.applyStatus(orderTransaction.id, OrderTransactionStatus.FAILED, 'initiation', {
+          metadata: { reason: 'Incorrect transaction type for payout' },
+        })
+        return
+      }
+
+      // Récupérer le Driver pour le numéro de téléphone (si pas déjà dans OrderTransaction.payment_method ou metadata)
+      // Ici, on suppose que OrderTransaction.payment_method est le provider (MTN, Orange)
+      // et on a besoin du numéro du chauffeur pour ce provider.
+      // `activePaymentMethod.number` passé par BillingWorker contient déjà cela.
+      // Pour cet exemple, on va supposer que BillingWorker a bien passé le numéro.
+      // Si on veut le récupérer ici :
+      const driver = await Driver.find(orderTransaction.driver_id)
+      if (!driver || !driver.mobile_money) {
+        logger.error(
+          { ...logContext, driverId: orderTransaction.driver_id },
+          'Driver or mobile money info not found for transaction.'
+        )
+        await this.applyStatus(orderTransaction.id, OrderTransactionStatus.FAILED, 'initiation', {
+          metadata: { reason: 'Driver or mobile_money info missing' },
+        })
+        return
+      }
+
+      const paymentMethodInfo = driver.mobile_money.find(
+        (pm) =>
+          pm.provider === orderTransaction?.payment_method &&
+          pm.number === paymentMethodDetail.number &&
+          pm.status === 'active'
+      )
+      if (!paymentMethodInfo) {
+        logger.error(
+          { ...logContext, paymentMethod: orderTransaction?.payment_method },
+          'Specified payment method not found or inactive for driver.'
+        )
+        await this.applyStatus(orderTransaction.id, OrderTransactionStatus.FAILED, 'initiation', {
+          metadata: {
+            reason: `Payment method ${orderTransaction?.payment_method} not active/found`,
+          },
+        })
+        return
+      }
+      // Le champ `payment_method` dans OrderTransaction stocke déjà le numéro spécifique du compte mobile money (ex: 'mtn_NUMERO')
+      // Il faut en extraire le provider (mtn, orange) et le numéro.
+      // Pour simplifier, supposons que `orderTransaction.payment_method` est juste le provider pour l'instant (ex: PaymentMethod.MTN)
+      // et que `paymentMethodInfo.number` est le numéro de téléphone.
+
+      const adapter = this.gatewayAdapters.get(orderTransaction.payment_method as PaymentMethod) // Le cast est nécessaire si le type est string
+      if (!adapter) {
+        logger.error(
+          { ...logContext, paymentMethod: orderTransaction.payment_method },
+          `No payment gateway adapter found for method: ${orderTransaction.payment_method}`
+        )
+        await this.applyStatus(orderTransaction.id, OrderTransactionStatus.FAILED, 'initiation', {
+          metadata: { reason: 'Unsupported payment method' },
+        })
+        return
+      }
+
+      // Préparer le payload pour la passerelle
+      const gatewayPayload: GatewayPaymentPayload = {
+        amount: orderTransaction.amount,
+        currency: orderTransaction.currency,
+        // Le champ payment_method de OrderTransaction devrait contenir le numéro spécifique.
+        // Ex: '07xxxxxxxx' si c'est un numéro direct, ou un identifiant spécifique.
+        // Pour cet exemple, utilisons `paymentMethodInfo.number` qui est le numéro de téléphone mobile money.
+        recipientMobileNumber: paymentMethodInfo.number, // C'est le numéro de téléphone, pas l'enum PaymentMethod
+        recipientProvider: orderTransaction.payment_method as PaymentMethod,
+        orderId: orderTransaction.order_id || undefined,
+        transactionId: orderTransaction.id, // Notre ID interne pour rapprochement
+        description:
+          orderTransaction.type === OrderTransactionType.DRIVER_WITHDRAWAL
+            ? `Wallet withdrawal ${orderTransaction.id}`
+            : `Payment for order ${orderTransaction.order_id}`,
+      }
+
+      logger.info(
+        { ...logContext, payload: gatewayPayload },
+        `Attempting payment via gateway adapter.`
+      )
+      gatewayCalled = true
+      const gatewayResult = await adapter.initiatePayment(gatewayPayload)
+
+      // Mettre à jour OrderTransaction en fonction de la réponse de la passerelle
+      const nextStatus = this.mapGatewayStatus(gatewayResult)
+      if (nextStatus === OrderTransactionStatus.SUCCESS) {
+        logger.info(
+          { ...logContext, gatewayId: gatewayResult.gatewayTransactionId },
+          `Payment successful.`
+        )
+      } else if (nextStatus === OrderTransactionStatus.PENDING) {
+        // La passerelle a accepté la requête mais le paiement est en attente de confirmation
+        // Laisser le statut PENDING. Le webhook ou le worker de rapprochement mettra à jour plus tard.
+        logger.warn(
+          {
+            ...logContext,
+            gatewayId: gatewayResult.gatewayTransactionId,
+            gatewayStatus: gatewayResult.status,
+          },
+          `Payment is PENDING at gateway. Awaiting asynchronous confirmation.`
+        )
+      } else {
+        // Échec ou statut inconnu de la passerelle
+        logger.error(
+          {
+            ...logContext,
+            gatewayMessage: gatewayResult.message,
+            gatewayCode: gatewayResult.errorCode,
+          },
+          `Payment failed at gateway.`
+        )
+      }
+      await this.applyStatus(orderTransaction.id, nextStatus, 'initiation', {
+        transaction_reference: gatewayResult.gatewayTransactionId,
+        metadata: {
+          gateway_response_message: gatewayResult.message,
+          gateway_error_code: gatewayResult.errorCode,
+          gateway_raw_response_snippet: gatewayResult.rawResponse
+            ? JSON.stringify(gatewayResult.rawResponse).substring(0, 200)
+            : undefined,
+        },
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, ...logContext },
+        `CRITICAL error during payment initiation or update.`
+      )
+      if (orderTransaction && orderTransaction.status === OrderTransactionStatus.PENDING) {
         try {
-            orderTransaction = await OrderTransaction.find(orderTransactionId)
-
-            if (!orderTransaction) {
-                logger.error({ ...logContext }, `OrderTransaction not found. Cannot proceed with payment.`)
-                return
-            }
-
-            if (orderTransaction.status !== OrderTransactionStatus.PENDING) {
-                logger.warn(
-                    { ...logContext, currentStatus: orderTransaction.status },
-                    `OrderTransaction is not in PENDING status. Skipping payment initiation.`
-                )
-                // Pourrait être un appel en double, ou déjà traité.
-                return
-            }
-
-            if (orderTransaction.type !== OrderTransactionType.DRIVER_PAYMENT) {
-                logger.error(
-                    { ...logContext, type: orderTransaction.type },
-                    `OrderTransaction is not of type DRIVER_PAYMENT. Aborting.`
-                )
-                // Mettre à jour en FAILED ? Ou juste ignorer ?
-                orderTransaction.status = OrderTransactionStatus.FAILED
-                orderTransaction.history_status.push({ status: OrderTransactionStatus.FAILED, timestamp: DateTime.now().toISO() })
-                orderTransaction.metadata = { ...orderTransaction.metadata, reason: 'Incorrect transaction type for payout' }
-                await orderTransaction.save()
-                return
-            }
-
-            // Récupérer le Driver pour le numéro de téléphone (si pas déjà dans OrderTransaction.payment_method ou metadata)
-            // Ici, on suppose que OrderTransaction.payment_method est le provider (MTN, Orange)
-            // et on a besoin du numéro du chauffeur pour ce provider.
-            // `activePaymentMethod.number` passé par BillingWorker contient déjà cela.
-            // Pour cet exemple, on va supposer que BillingWorker a bien passé le numéro.
-            // Si on veut le récupérer ici :
-            const driver = await Driver.find(orderTransaction.driver_id)
-            if (!driver || !driver.mobile_money) {
-                logger.error({ ...logContext, driverId: orderTransaction.driver_id }, "Driver or mobile money info not found for transaction.")
-                orderTransaction.status = OrderTransactionStatus.FAILED
-                orderTransaction.history_status.push({ status: OrderTransactionStatus.FAILED, timestamp: DateTime.now().toISO() })
-                orderTransaction.metadata = { ...orderTransaction.metadata, reason: 'Driver or mobile_money info missing' }
-                await orderTransaction.save()
-                return
-            }
-
-            const paymentMethodInfo = driver.mobile_money.find(pm => pm.number === orderTransaction?.payment_method && pm.status === 'active')
-            if (!paymentMethodInfo) {
-                logger.error({ ...logContext, paymentMethod: orderTransaction?.payment_method }, "Specified payment method not found or inactive for driver.")
-                orderTransaction.status = OrderTransactionStatus.FAILED
-                orderTransaction.history_status.push({ status: OrderTransactionStatus.FAILED, timestamp: DateTime.now().toISO() })
-                orderTransaction.metadata = { ...orderTransaction?.metadata, reason: `Payment method ${orderTransaction?.payment_method} not active/found` }
-                await orderTransaction.save()
-                return
-            }
-            // Le champ `payment_method` dans OrderTransaction stocke déjà le numéro spécifique du compte mobile money (ex: 'mtn_NUMERO')
-            // Il faut en extraire le provider (mtn, orange) et le numéro.
-            // Pour simplifier, supposons que `orderTransaction.payment_method` est juste le provider pour l'instant (ex: PaymentMethod.MTN)
-            // et que `paymentMethodInfo.number` est le numéro de téléphone.
-
-            const adapter = this.gatewayAdapters.get(orderTransaction.payment_method as PaymentMethod) // Le cast est nécessaire si le type est string
-            if (!adapter) {
-                logger.error(
-                    { ...logContext, paymentMethod: orderTransaction.payment_method },
-                    `No payment gateway adapter found for method: ${orderTransaction.payment_method}`
-                )
-                orderTransaction.status = OrderTransactionStatus.FAILED
-                orderTransaction.history_status.push({ status: OrderTransactionStatus.FAILED, timestamp: DateTime.now().toISO() })
-                orderTransaction.metadata = { ...orderTransaction?.metadata, reason: 'Unsupported payment method' }
-                await orderTransaction.save()
-                return
-            }
-
-            // Préparer le payload pour la passerelle
-            const gatewayPayload: GatewayPaymentPayload = {
-                amount: orderTransaction.amount,
-                currency: orderTransaction.currency,
-                // Le champ payment_method de OrderTransaction devrait contenir le numéro spécifique.
-                // Ex: '07xxxxxxxx' si c'est un numéro direct, ou un identifiant spécifique.
-                // Pour cet exemple, utilisons `paymentMethodInfo.number` qui est le numéro de téléphone mobile money.
-                recipientMobileNumber: paymentMethodInfo.number, // C'est le numéro de téléphone, pas l'enum PaymentMethod
-                recipientProvider: orderTransaction.payment_method as PaymentMethod,
-                orderId: orderTransaction.order_id || undefined,
-                transactionId: orderTransaction.id, // Notre ID interne pour rapprochement
-                description: `Payment for order ${orderTransaction.order_id}`,
-            }
-
-            logger.info({ ...logContext, payload: gatewayPayload }, `Attempting payment via gateway adapter.`)
-            const gatewayResult = await adapter.initiatePayment(gatewayPayload)
-
-            // Mettre à jour OrderTransaction en fonction de la réponse de la passerelle
-            orderTransaction.transaction_reference = gatewayResult.gatewayTransactionId || orderTransaction.transaction_reference // Conserver l'ancien si pas de nouveau
-            orderTransaction.metadata = {
-                ...orderTransaction.metadata,
-                gateway_response_message: gatewayResult.message,
-                gateway_error_code: gatewayResult.errorCode,
-                gateway_raw_response_snippet: gatewayResult.rawResponse ? JSON.stringify(gatewayResult.rawResponse).substring(0, 200) : undefined,
-            }
-
-            if (gatewayResult.success && gatewayResult.status === 'SUCCESSFUL') {
-                orderTransaction.status = OrderTransactionStatus.SUCCESS
-                orderTransaction.payment_date = DateTime.now()
-                logger.info(
-                    { ...logContext, gatewayId: gatewayResult.gatewayTransactionId },
-                    `Payment successful.`
-                )
-            } else if (gatewayResult.status === 'PENDING') {
-                // La passerelle a accepté la requête mais le paiement est en attente de confirmation
-                // Laisser le statut PENDING. Un webhook ou un job de vérification mettra à jour plus tard.
-                orderTransaction.status = OrderTransactionStatus.PENDING // Reste PENDING
-                logger.warn(
-                    { ...logContext, gatewayId: gatewayResult.gatewayTransactionId, gatewayStatus: gatewayResult.status },
-                    `Payment is PENDING at gateway. Awaiting asynchronous confirmation.`
-                )
-            }
-
-            else { // Échec ou statut inconnu de la passerelle
-                orderTransaction.status = OrderTransactionStatus.FAILED
-                logger.error(
-                    { ...logContext, gatewayMessage: gatewayResult.message, gatewayCode: gatewayResult.errorCode },
-                    `Payment failed at gateway.`
-                )
-            }
-            orderTransaction.history_status.push({ status: orderTransaction.status, timestamp: DateTime.now().toISO() })
-            await orderTransaction.save()
-
-        } catch (error) {
-            logger.error({ err: error, ...logContext }, `CRITICAL error during payment initiation or update.`)
-            // Si une OrderTransaction a été chargée et que l'erreur survient APRES l'appel à la passerelle
-            // mais AVANT orderTransaction.save(), la transaction DB pourrait rester PENDING.
-            // Il faut une stratégie de reprise pour les transactions PENDING.
-            if (orderTransaction && orderTransaction.status === OrderTransactionStatus.PENDING) {
-                try {
-                    orderTransaction.status = OrderTransactionStatus.FAILED // Marquer comme FAILED en cas d'erreur interne
-                    orderTransaction.history_status.push({ status: OrderTransactionStatus.FAILED, timestamp: DateTime.now().toISO() })
-                    orderTransaction.metadata = { ...orderTransaction.metadata, reason: `Internal error during payment processing: ${error.message}` }
-                    await orderTransaction.save()
-                    logger.info({ ...logContext }, "OrderTransaction marked as FAILED due to internal error after gateway call.")
-                } catch (saveError) {
-                    logger.error({ err: saveError, ...logContext }, "Failed to even mark OrderTransaction as FAILED after internal error.")
-                }
-            }
+          if (gatewayCalled) {
+            // La passerelle a peut-être exécuté le versement : la transaction reste PENDING
+            // et sera tranchée par webhook ou par le worker de rapprochement (jamais de double versement).
+            await this.applyStatus(
+              orderTransaction.id,
+              OrderTransactionStatus.PENDING,
+              'initiation',
+              {
+                metadata: { internal_error: `Internal error after gateway call: ${error.message}` },
+              }
+            )
+            logger.warn(
+              { ...logContext },
+              'OrderTransaction left PENDING after internal error; awaiting reconciliation.'
+            )
+          } else {
+            await this.applyStatus(
+              orderTransaction.id,
+              OrderTransactionStatus.FAILED,
+              'initiation',
+              {
+                metadata: { reason: `Internal error during payment processing: ${error.message}` },
+              }
+            )
+            logger.info(
+              { ...logContext },
+              'OrderTransaction marked as FAILED due to internal error before gateway call.'
+            )
+          }
+        } catch (saveError) {
+          logger.error(
+            { err: saveError, ...logContext },
+            'Failed to record internal error on OrderTransaction.'
+          )
         }
+      }
+    }
+  }
+
+  /**
+   * Collecte d'un paiement client ou d'un reversement livreur (PENDING) sur le numéro metadata.payer_number.
+   * Le payeur valide sur son téléphone : l'issue arrive le plus souvent par webhook ou rapprochement.
+   * Renvoie le lien de paiement fourni par la passerelle, le cas échéant.
+   */
+  public async initiateClientCollection(
+    orderTransactionId: string
+  ): Promise<{ paymentUrl?: string }> {
+    const orderTransaction = await this.pendingClientTransaction(
+      orderTransactionId,
+      COLLECTION_TRANSACTION_TYPES
+    )
+    if (!orderTransaction) return {}
+
+    const adapter = this.gatewayAdapters.get(orderTransaction.payment_method as PaymentMethod)
+    const payerNumber = orderTransaction.metadata?.payer_number
+    if (!adapter?.requestPayment || !payerNumber) {
+      logger.error(
+        { orderTransactionId, paymentMethod: orderTransaction.payment_method },
+        'Collection not supported or payer number missing.'
+      )
+      await this.applyStatus(orderTransaction.id, OrderTransactionStatus.FAILED, 'initiation', {
+        metadata: { reason: 'Collection not supported or payer number missing' },
+      })
+      return {}
     }
 
-    /**
-     * (Optionnel) Méthode pour vérifier le statut d'une transaction PENDING auprès de la passerelle.
-     * Pourrait être appelée par un worker de vérification de statut.
-     */
-    public async checkAndUpdatePendingTransaction(orderTransactionId: string): Promise<void> {
-        const orderTransaction = await OrderTransaction.find(orderTransactionId);
-        if (!orderTransaction || orderTransaction.status !== OrderTransactionStatus.PENDING || !orderTransaction.transaction_reference) {
-            logger.trace({ orderTransactionId, status: orderTransaction?.status }, "Skipping status check: not pending or no gateway reference.");
-            return;
+    const payload: GatewayCollectionPayload = {
+      amount: orderTransaction.amount,
+      currency: orderTransaction.currency,
+      payerMobileNumber: payerNumber,
+      orderId: orderTransaction.order_id ?? undefined,
+      transactionId: orderTransaction.id,
+      description: orderTransaction.order_id
+        ? `Payment for order ${orderTransaction.order_id}`
+        : `Payment ${orderTransaction.id}`,
+    }
+    const gatewayResult = await this.callGateway(orderTransaction, () =>
+      adapter.requestPayment!(payload)
+    )
+    return { paymentUrl: gatewayResult?.paymentUrl }
+  }
+
+  /**
+   * Remboursement d'un client (CLIENT_REIMBURSEMENT PENDING) : versement vers metadata.recipient_number.
+   */
+  public async initiateClientRefund(orderTransactionId: string): Promise<void> {
+    const orderTransaction = await this.pendingClientTransaction(orderTransactionId, [
+      OrderTransactionType.CLIENT_REIMBURSEMENT,
+    ])
+    if (!orderTransaction) return
+
+    const adapter = this.gatewayAdapters.get(orderTransaction.payment_method as PaymentMethod)
+    const recipientNumber = orderTransaction.metadata?.recipient_number
+    if (!adapter || !recipientNumber) {
+      logger.error(
+        { orderTransactionId, paymentMethod: orderTransaction.payment_method },
+        'Unsupported payment method or recipient number missing for refund.'
+      )
+      await this.applyStatus(orderTransaction.id, OrderTransactionStatus.FAILED, 'initiation', {
+        metadata: { reason: 'Unsupported payment method or recipient number missing' },
+      })
+      return
+    }
+
+    const payload: GatewayPaymentPayload = {
+      amount: orderTransaction.amount,
+      currency: orderTransaction.currency,
+      recipientMobileNumber: recipientNumber,
+      recipientProvider: orderTransaction.payment_method as PaymentMethod,
+      orderId: orderTransaction.order_id ?? undefined,
+      transactionId: orderTransaction.id,
+      description: `Refund for order ${orderTransaction.order_id}`,
+    }
+    await this.callGateway(orderTransaction, () => adapter.initiatePayment(payload))
+  }
+
+  /**
+   * Vérifie le statut d'une transaction PENDING auprès de la passerelle.
+   * Appelée par le worker de rapprochement (payments:reconcile) et à la consultation d'un retrait.
+   */
+  public async checkAndUpdatePendingTransaction(orderTransactionId: string): Promise<void> {
+    const orderTransaction = await OrderTransaction.find(orderTransactionId)
+    if (
+      !orderTransaction ||
+      orderTransaction.status !== OrderTransactionStatus.PENDING ||
+      !orderTransaction.transaction_reference
+    ) {
+      logger.trace(
+        { orderTransactionId, status: orderTransaction?.status },
+        'Skipping status check: not pending or no gateway reference.'
+      )
+      return
+    }
+
+    const adapter = this.gatewayAdapters.get(orderTransaction.payment_method as PaymentMethod)
+    if (!adapter || !adapter.checkPaymentStatus) {
+      logger.warn(
+        { orderTransactionId, method: orderTransaction.payment_method },
+        'No adapter or status check method for payment.'
+      )
+      return
+    }
+
+    try {
+      logger.info(
+        { orderTransactionId, ref: orderTransaction.transaction_reference },
+        'Checking payment status with gateway.'
+      )
+      const statusResult = await adapter.checkPaymentStatus(
+        orderTransaction.transaction_reference,
+        this.gatewayOperationFor(orderTransaction.type)
+      )
+
+      const updated = await this.applyStatus(
+        orderTransaction.id,
+        this.mapGatewayStatus(statusResult),
+        'status_check',
+        {
+          metadata: {
+            last_status_check_at: DateTime.now().toISO(),
+            gateway_response_message: statusResult.message,
+            gateway_error_code: statusResult.errorCode,
+          },
         }
+      )
+      logger.info(
+        { orderTransactionId, newStatus: updated?.status },
+        'Payment status checked and updated.'
+      )
+    } catch (error) {
+      logger.error({ err: error, orderTransactionId }, 'Error checking payment status.')
+    }
+  }
+
+  /**
+   * Webhook entrant d'une passerelle : vérification de la signature, dédoublonnage par identifiant
+   * d'événement, puis mise à jour du statut de la transaction concernée.
+   */
+  public async handleWebhook(
+    provider: PaymentMethod,
+    rawBody: string,
+    headers: WebhookHeaders,
+    body: Record<string, any>
+  ): Promise<WebhookHandlingResult> {
+    const adapter = this.gatewayAdapters.get(provider)
+    if (!adapter || !adapter.verifyWebhookSignature || !adapter.parseWebhook) {
+      return { outcome: 'unsupported' }
+    }
+    if (!adapter.verifyWebhookSignature(rawBody, headers)) {
+      logger.warn({ provider }, 'Payment webhook rejected: invalid signature.')
+      return { outcome: 'invalid_signature' }
+    }
+    const event = adapter.parseWebhook(body, headers)
+    if (!event) {
+      return { outcome: 'invalid_payload' }
+    }
+
+    // Dédoublonnage : la passerelle renvoie l'événement tant qu'elle n'a pas reçu de 2xx
+    const webhookEvent = await this.recordWebhookEvent(provider, event, body)
+    if (
+      webhookEvent.status === PaymentWebhookEventStatus.PROCESSED ||
+      webhookEvent.status === PaymentWebhookEventStatus.IGNORED
+    ) {
+      logger.info(
+        { provider, eventId: event.eventId },
+        'Payment webhook already processed, skipping.'
+      )
+      return { outcome: 'duplicate', eventId: webhookEvent.id }
+    }
 
-        const adapter = this.gatewayAdapters.get(orderTransaction.payment_method as PaymentMethod);
-        if (!adapter || !adapter.checkPaymentStatus) {
-            logger.warn({ orderTransactionId, method: orderTransaction.payment_method }, "No adapter or status check method for payment.");
-            return;
+    try {
+      const transactionQuery = OrderTransaction.query().where('payment_method', provider)
+      if (event.transactionId) {
+        transactionQuery.where('id', event.transactionId)
+      } else if (event.gatewayTransactionId) {
+        transactionQuery.where('transaction_reference', event.gatewayTransactionId)
+      } else {
+        transactionQuery.whereRaw('false')
+      }
+      const orderTransaction = await transactionQuery.first()
+
+      if (!orderTransaction) {
+        await this.markWebhookEvent(
+          webhookEvent,
+          PaymentWebhookEventStatus.IGNORED,
+          null,
+          'Transaction inconnue.'
+        )
+        logger.warn(
+          { provider, eventId: event.eventId },
+          'Payment webhook for unknown transaction.'
+        )
+        return { outcome: 'ignored', eventId: webhookEvent.id }
+      }
+
+      const previousStatus = orderTransaction.status
+      const updated = await this.applyStatus(
+        orderTransaction.id,
+        this.mapGatewayStatus({
+          status: event.status,
+          gatewayTransactionId: event.gatewayTransactionId,
+        }),
+        `webhook:${provider}`,
+        {
+          transaction_reference: event.gatewayTransactionId,
+          metadata: { last_webhook_event_id: event.eventId },
         }
+      )
+      const changed = updated.status !== previousStatus
+      await this.markWebhookEvent(
+        webhookEvent,
+        changed ? PaymentWebhookEventStatus.PROCESSED : PaymentWebhookEventStatus.IGNORED,
+        orderTransaction.id,
+        changed ? null : `Statut inchangé (${updated.status}).`
+      )
+      return { outcome: changed ? 'processed' : 'ignored', eventId: webhookEvent.id }
+    } catch (error) {
+      await this.markWebhookEvent(
+        webhookEvent,
+        PaymentWebhookEventStatus.FAILED,
+        null,
+        error.message
+      )
+      throw error
+    }
+  }
 
-        try {
-            logger.info({ orderTransactionId, ref: orderTransaction.transaction_reference }, "Checking payment status with gateway.");
-            const statusResult = await adapter.checkPaymentStatus(orderTransaction.transaction_reference);
-
-            // Logique de mise à jour similaire à initiateDriverPayout après l'appel gatewayResult
-            if (statusResult.success && statusResult.status === 'SUCCESSFUL') {
-                orderTransaction.status = OrderTransactionStatus.SUCCESS;
-                orderTransaction.payment_date = DateTime.now();
-                // ... mettre à jour metadata ...
-            } else if (statusResult.status === 'FAILED') {
-                orderTransaction.status = OrderTransactionStatus.FAILED;
-                // ... mettre à jour metadata ...
-            } else {
-                // Reste PENDING ou autre statut géré par la passerelle
-            }
-            orderTransaction.history_status.push({ status: orderTransaction.status, timestamp: DateTime.now().toISO() });
-            await orderTransaction.save();
-            logger.info({ orderTransactionId, newStatus: orderTransaction.status }, "Payment status checked and updated.");
-
-        } catch (error) {
-            logger.error({ err: error, orderTransactionId }, "Error checking payment status.");
+  /**
+   * Transactions PENDING depuis plus de `olderThanMinutes`, à vérifier auprès de la passerelle.
+   */
+  public async findStalePendingTransactions(
+    olderThanMinutes: number,
+    limit: number,
+    methods: PaymentMethod[]
+  ): Promise<OrderTransaction[]> {
+    return OrderTransaction.query()
+      .where('status', OrderTransactionStatus.PENDING)
+      .whereNotNull('transaction_reference')
+      .whereIn('payment_method', methods)
+      .where('created_at', '<=', DateTime.now().minus({ minutes: olderThanMinutes }).toSQL()!)
+      .orderBy('updated_at', 'asc') // Les moins récemment vérifiées d'abord
+      .limit(limit)
+  }
+
+  // Paiements clients et reversements d'espèces des livreurs : collectes ; tout le reste : versements
+  public gatewayOperationFor(type: OrderTransactionType): GatewayOperation {
+    return COLLECTION_TRANSACTION_TYPES.includes(type) ? 'collection' : 'payout'
+  }
+
+  public getAdapter(method: PaymentMethod): PaymentGatewayAdapter | undefined {
+    return this.gatewayAdapters.get(method)
+  }
+
+  public mapGatewayStatus(
+    result: Pick<GatewayPaymentResult, 'status' | 'gatewayTransactionId'>
+  ): OrderTransactionStatus {
+    switch (result.status) {
+      case 'SUCCESSFUL':
+        return OrderTransactionStatus.SUCCESS
+      case 'PENDING':
+        return OrderTransactionStatus.PENDING
+      case 'FAILED':
+        return OrderTransactionStatus.FAILED
+      default:
+        // Statut inconnu : vérifiable plus tard seulement si la passerelle a donné une référence
+        return result.gatewayTransactionId
+          ? OrderTransactionStatus.PENDING
+          : OrderTransactionStatus.FAILED
+    }
+  }
+
+  /**
+   * Seul point de changement de statut d'une transaction : ligne verrouillée, passage unique de PENDING
+   * à un statut final (un statut final contradictoire est consigné dans metadata.status_conflicts),
+   * historique et événement `payment:transaction_updated` après commit.
+   */
+  private async applyStatus(
+    orderTransactionId: string,
+    nextStatus: OrderTransactionStatus,
+    source: string,
+    changes: { transaction_reference?: string; metadata?: Record<string, any> } = {}
+  ): Promise<OrderTransaction> {
+    let previousStatus: OrderTransactionStatus | null = null
+    const orderTransaction = await db.transaction(async (trx) => {
+      const locked = await OrderTransaction.query({ client: trx })
+        .where('id', orderTransactionId)
+        .forUpdate()
+        .firstOrFail()
+
+      if (changes.transaction_reference && !locked.transaction_reference) {
+        locked.transaction_reference = changes.transaction_reference
+      }
+      let metadata = { ...locked.metadata, ...changes.metadata }
+
+      if (nextStatus !== OrderTransactionStatus.PENDING) {
+        if (locked.status === OrderTransactionStatus.PENDING) {
+          previousStatus = locked.status
+          locked.status = nextStatus
+          if (nextStatus === OrderTransactionStatus.SUCCESS) locked.payment_date = DateTime.now()
+          locked.history_status = [
+            ...(locked.history_status ?? []),
+            { status: nextStatus, timestamp: DateTime.now().toISO()!, source },
+          ]
+        } else if (locked.status !== nextStatus) {
+          logger.warn(
+            {
+              orderTransactionId,
+              currentStatus: locked.status,
+              reportedStatus: nextStatus,
+              source,
+            },
+            'Conflicting final status reported for transaction. Kept current status.'
+          )
+          metadata = {
+            ...metadata,
+            status_conflicts: [
+              ...(locked.metadata?.status_conflicts ?? []),
+              { status: nextStatus, source, at: DateTime.now().toISO() },
+            ],
+          }
         }
+      }
+      locked.metadata = metadata
+      await locked.save()
+      return locked
+    })
+
+    if (previousStatus) {
+      try {
+        await emitter.emit('payment:transaction_updated', {
+          order_transaction_id: orderTransaction.id,
+          type: orderTransaction.type,
+          driver_id: orderTransaction.driver_id,
+          company_id: orderTransaction.company_id,
+          previous_status: previousStatus,
+          new_status: orderTransaction.status,
+          source,
+          timestamp: DateTime.now().toISO()!,
+        })
+      } catch (error) {
+        logger.error(
+          { err: error, orderTransactionId },
+          'Error emitting payment:transaction_updated.'
+        )
+      }
     }
+    return orderTransaction
+  }
+
+  private async pendingClientTransaction(
+    orderTransactionId: string,
+    types: OrderTransactionType[]
+  ): Promise<OrderTransaction | null> {
+    const orderTransaction = await OrderTransaction.find(orderTransactionId)
+    if (
+      !orderTransaction ||
+      !types.includes(orderTransaction.type) ||
+      orderTransaction.status !== OrderTransactionStatus.PENDING
+    ) {
+      logger.warn(
+        { orderTransactionId, types, status: orderTransaction?.status },
+        'Client transaction not found or not PENDING. Skipping gateway call.'
+      )
+      return null
+    }
+    return orderTransaction
+  }
+
+  /**
+   * Appel passerelle d'une transaction client, puis statut appliqué. Une erreur après l'appel laisse
+   * la transaction PENDING pour le rapprochement (même règle que les versements livreur).
+   */
+  private async callGateway(
+    orderTransaction: OrderTransaction,
+    call: () => Promise<GatewayPaymentResult>
+  ): Promise<GatewayPaymentResult | null> {
+    const logContext = {
+      orderTransactionId: orderTransaction.id,
+      type: orderTransaction.type,
+      service: 'PaymentService',
+    }
+    let gatewayResult: GatewayPaymentResult
+    try {
+      gatewayResult = await call()
+    } catch (error) {
+      logger.error(
+        { err: error, ...logContext },
+        'Gateway call failed. Transaction left PENDING for reconciliation.'
+      )
+      await this.applyStatus(orderTransaction.id, OrderTransactionStatus.PENDING, 'initiation', {
+        metadata: { internal_error: `Error during gateway call: ${error.message}` },
+      })
+      return null
+    }
+
+    const nextStatus = this.mapGatewayStatus(gatewayResult)
+    logger.info(
+      { ...logContext, gatewayId: gatewayResult.gatewayTransactionId, nextStatus },
+      'Client gateway operation submitted.'
+    )
+    await this.applyStatus(orderTransaction.id, nextStatus, 'initiation', {
+      transaction_reference: gatewayResult.gatewayTransactionId,
+      metadata: {
+        gateway_response_message: gatewayResult.message,
+        gateway_error_code: gatewayResult.errorCode,
+        payment_url: gatewayResult.paymentUrl,
+      },
+    })
+    return gatewayResult
+  }
+
+  /**
+   * Enregistre un événement webhook reçu, une seule ligne par passerelle et identifiant d'événement :
+   * un événement déjà reçu renvoie la ligne existante (et son statut de traitement).
+   */
+  public async recordWebhookEvent(
+    provider: PaymentMethod,
+    event: GatewayWebhookEvent,
+    body: Record<string, any>
+  ): Promise<PaymentWebhookEvent> {
+    await db
+      .knexQuery()
+      .table('payment_webhook_events')
+      .insert({
+        id: cuid(),
+        provider,
+        event_id: event.eventId,
+        gateway_transaction_id: event.gatewayTransactionId ?? null,
+        gateway_status: event.status,
+        payload: JSON.stringify(body),
+        status: PaymentWebhookEventStatus.RECEIVED,
+      })
+      .onConflict(['provider', 'event_id'])
+      .ignore()
+    return PaymentWebhookEvent.query()
+      .where('provider', provider)
+      .where('event_id', event.eventId)
+      .firstOrFail()
+  }
 
+  private async markWebhookEvent(
+    webhookEvent: PaymentWebhookEvent,
+    status: PaymentWebhookEventStatus,
+    orderTransactionId: string | null,
+    errorMessage: string | null
+  ) {
+    webhookEvent.status = status
+    webhookEvent.order_transaction_id = orderTransactionId ?? webhookEvent.order_transaction_id
+    webhookEvent.error_message = errorMessage
+    webhookEvent.processed_at = DateTime.now()
+    await webhookEvent.save()
+  }
 }
 
-export default new PaymentService()
\ No newline at end of file
+export default new PaymentService()
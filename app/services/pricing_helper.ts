@@ -1,4 +1,10 @@
 import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import Company from '#models/company'
+import PricingPlan from '#models/pricing_plan'
+import PricingPlanVersion from '#models/pricing_plan_version'
+import { PackageMentionWarning } from '#models/package'
+import surgePricingService from '#services/surge_pricing_service'
 
 // --- Interface pour les infos d'UN colis, à passer dans un tableau ---
 export interface SimplePackageInfo {
@@ -9,40 +15,193 @@ export interface SimplePackageInfo {
     height_cm?: number
   }
   quantity: number // Nombre de colis identiques
-  mention_warning?: string // Ex: "fragile" peut augmenter le prix
+  mention_warning?: PackageMentionWarning // Ex: "fragile" peut augmenter le prix
 }
 
-// --- Constantes de Prix en Franc CFA (XOF), adaptées au marché ivoirien ---
-const BASE_FEE = 500 // Frais de base pour une livraison
-const PER_KM_FEE = 150 // Frais par kilomètre parcouru
-const PER_MINUTE_FEE = 0.6 // Frais par minute de trajet
-const WEIGHT_SURCHARGE_THRESHOLD_G = 5000 // 5kg total pour surcharge
-const WEIGHT_SURCHARGE_PER_KG_OVER = 100 // 100 CFA par kg au-dessus du seuil
-const VOLUME_SURCHARGE_THRESHOLD_M3 = 0.2 // 0.2 m³ total pour surcharge
-const VOLUME_SURCHARGE_AMOUNT = 500 // Supplément pour gros volumes
-const FRAGILE_SURCHARGE = 300 // Supplément pour colis fragiles
-const DRIVER_PERCENTAGE = 0.95 // 95% des coûts variables pour le livreur
-const PLATFORM_MARGIN_FACTOR = 1.05 // Marge de 5% pour la plateforme
+// Tranche de poids progressive : chaque kg au-delà de `from_g` (jusqu'à la tranche suivante) est facturé `per_kg_fee`
+export interface WeightTier {
+  from_g: number
+  per_kg_fee: number
+}
+
+// Tranche de volume : supplément forfaitaire de la plus haute tranche dépassée
+export interface VolumeTier {
+  from_m3: number
+  fee: number
+}
+
+/**
+ * Règles tarifaires d'une version de plan. Tous les montants sont en Franc CFA (XOF).
+ */
+export interface PricingRules {
+  base_fee: number // Frais de base pour une livraison
+  per_km_fee: number // Frais par kilomètre parcouru
+  per_minute_fee: number // Frais par minute de trajet
+  weight_tiers: WeightTier[]
+  volume_tiers: VolumeTier[]
+  mention_surcharges: Partial<Record<PackageMentionWarning, number>> // Appliqué une fois par mention présente
+  driver_base_share: number // Part des frais de base reversée au livreur
+  driver_percentage: number // Part des coûts variables reversée au livreur
+  platform_margin_factor: number // Marge de la plateforme appliquée au coût calculé
+  min_client_fee: number
+  min_driver_remuneration: number
+}
+
+// --- Tarif par défaut (XOF), adapté au marché ivoirien, utilisé si aucun plan n'est applicable ---
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  base_fee: 500,
+  per_km_fee: 150,
+  per_minute_fee: 0.6,
+  weight_tiers: [{ from_g: 5000, per_kg_fee: 100 }], // 100 CFA par kg au-dessus de 5kg
+  volume_tiers: [{ from_m3: 0.2, fee: 500 }], // Supplément pour gros volumes
+  mention_surcharges: {
+    [PackageMentionWarning.FRAGILE]: 300,
+    [PackageMentionWarning.KEEP_COLD]: 0,
+    [PackageMentionWarning.KEEP_WARM]: 0,
+  },
+  driver_base_share: 0.5,
+  driver_percentage: 0.95, // 95% des coûts variables pour le livreur
+  platform_margin_factor: 1.05, // Marge de 5% pour la plateforme
+  min_client_fee: 500,
+  min_driver_remuneration: 300,
+}
+
+export type FeeLineItemCode =
+  | 'base_fee'
+  | 'distance'
+  | 'duration'
+  | 'weight'
+  | 'volume'
+  | `mention_${PackageMentionWarning}`
+  | 'surge'
+  | 'platform_margin'
+  | 'adjustment'
+
+export interface FeeLineItem {
+  code: FeeLineItemCode
+  label: string
+  quantity?: number // km, minutes, kg, m³ ou multiplicateur selon la ligne
+  amount: number // XOF, arrondi à l'unité
+}
+
+/**
+ * Détail du prix client stocké sur la commande. La somme des `items` est égale à `client_fee`.
+ */
+export interface FeeBreakdown {
+  pricing_plan_id: string | null
+  pricing_plan_version_id: string | null
+  pricing_plan_version: number | null
+  items: FeeLineItem[]
+  client_fee: number
+  driver_remuneration: number
+  surge_multiplier: number // Majoration offre/demande appliquée (1 = aucune)
+  surge_zone: string | null // Zone de la grille de majoration du point de collecte
+  quote_id?: string // Devis dont le prix a été garanti à la création de la commande
+}
+
+export interface ResolvedPricing {
+  rules: PricingRules
+  plan: PricingPlan | null
+  version: PricingPlanVersion | null
+}
+
+const MENTION_LABELS: Record<PackageMentionWarning, string> = {
+  [PackageMentionWarning.FRAGILE]: 'Supplément fragile',
+  [PackageMentionWarning.KEEP_COLD]: 'Supplément chaîne du froid',
+  [PackageMentionWarning.KEEP_WARM]: 'Supplément maintien au chaud',
+}
 
 class PricingHelper {
+  /**
+   * Détermine les règles applicables à une entreprise à une date donnée.
+   * Priorité : plan de l'entreprise > plan de son abonnement > plan par défaut de la plateforme > DEFAULT_PRICING_RULES.
+   */
+  async resolvePricing(
+    companyId?: string | null,
+    at: DateTime = DateTime.now()
+  ): Promise<ResolvedPricing> {
+    const company = companyId ? await Company.find(companyId) : null
+
+    const scopes: Array<(query: ReturnType<typeof PricingPlan.query>) => void> = []
+    if (company) {
+      scopes.push((query) => query.where('company_id', company.id))
+      if (company.subscription_id) {
+        scopes.push((query) =>
+          query.whereNull('company_id').where('subscription_id', company.subscription_id)
+        )
+      }
+    }
+    scopes.push((query) => query.whereNull('company_id').whereNull('subscription_id'))
+
+    for (const applyScope of scopes) {
+      const planQuery = PricingPlan.query().where('is_active', true)
+      applyScope(planQuery)
+      const plans = await planQuery.orderBy('updated_at', 'desc')
+
+      for (const plan of plans) {
+        const version = await this.findEffectiveVersion(plan.id, at)
+        if (version) {
+          return { rules: this.withDefaults(version.rules), plan, version }
+        }
+      }
+    }
+
+    return { rules: DEFAULT_PRICING_RULES, plan: null, version: null }
+  }
+
+  /**
+   * Version d'un plan en vigueur à la date donnée (la plus récemment entrée en vigueur).
+   */
+  async findEffectiveVersion(
+    planId: string,
+    at: DateTime = DateTime.now()
+  ): Promise<PricingPlanVersion | null> {
+    const atSql = at.toSQL()!
+    return PricingPlanVersion.query()
+      .where('pricing_plan_id', planId)
+      .where('effective_from', '<=', atSql)
+      .where((query) => {
+        query.whereNull('effective_to').orWhere('effective_to', '>', atSql)
+      })
+      .orderBy('effective_from', 'desc')
+      .orderBy('version', 'desc')
+      .first()
+  }
+
+  /**
+   * Complète des règles partielles avec le tarif par défaut (utilisé à la création d'une version).
+   */
+  withDefaults(rules: Partial<PricingRules>): PricingRules {
+    return {
+      ...DEFAULT_PRICING_RULES,
+      ...rules,
+      mention_surcharges: {
+        ...DEFAULT_PRICING_RULES.mention_surcharges,
+        ...rules.mention_surcharges,
+      },
+    }
+  }
+
   /**
    * Calcule les frais du client final (celui qui passe la commande) et la rémunération livreur estimés
-   * pour une commande pouvant contenir plusieurs colis.
+   * pour une commande pouvant contenir plusieurs colis, selon le plan tarifaire applicable.
    * Tous les montants sont en Franc CFA (XOF).
    */
   async calculateFees(
     distanceMeters: number,
     durationSeconds: number,
-    packages: SimplePackageInfo[]
-  ): Promise<{ clientFee: number; driverRemuneration: number }> {
+    packages: SimplePackageInfo[],
+    options: { companyId?: string | null; at?: DateTime; pickupCoordinates?: [number, number] } = {}
+  ): Promise<{ clientFee: number; driverRemuneration: number; breakdown: FeeBreakdown }> {
     try {
+      const { rules, plan, version } = await this.resolvePricing(options.companyId, options.at)
       const distanceKm = distanceMeters / 1000
       const durationMinutes = durationSeconds / 60
 
       // --- Agrégation des données des colis ---
       let totalWeightG = 0
       let totalVolumeM3 = 0
-      let hasFragile = false
+      const mentions = new Set<PackageMentionWarning>()
 
       for (const pkg of packages) {
         const quantity = pkg.quantity || 1
@@ -56,8 +215,8 @@ class PricingHelper {
           totalVolumeM3 += (volumeCm3 / 1_000_000) * quantity // Conversion cm3 en m3
         }
 
-        if (pkg.mention_warning === 'fragile') {
-          hasFragile = true
+        if (pkg.mention_warning) {
+          mentions.add(pkg.mention_warning)
         }
       }
       // Arrondir le volume pour la lisibilité
@@ -70,48 +229,124 @@ class PricingHelper {
           packageCount: packages.length,
           totalWeightG,
           totalVolumeM3,
-          hasFragile,
+          mentions: [...mentions],
+          pricingPlanVersionId: version?.id ?? null,
         },
         'Calcul des frais basé sur les données des colis'
       )
 
-      // 1. Calculer le coût de base
-      let calculatedCost = BASE_FEE + distanceKm * PER_KM_FEE + durationMinutes * PER_MINUTE_FEE
+      // 1. Coût de base
+      const rawItems: Array<Omit<FeeLineItem, 'amount'> & { raw: number }> = [
+        { code: 'base_fee', label: 'Frais de base', raw: rules.base_fee },
+        {
+          code: 'distance',
+          label: 'Distance',
+          quantity: Math.round(distanceKm * 100) / 100,
+          raw: distanceKm * rules.per_km_fee,
+        },
+        {
+          code: 'duration',
+          label: 'Durée',
+          quantity: Math.round(durationMinutes * 10) / 10,
+          raw: durationMinutes * rules.per_minute_fee,
+        },
+      ]
 
-      // 2. Ajouter suppléments basés sur les données agrégées
-      if (totalWeightG > WEIGHT_SURCHARGE_THRESHOLD_G) {
-        const overweightKg = (totalWeightG - WEIGHT_SURCHARGE_THRESHOLD_G) / 1000
-        const weightSurcharge = overweightKg * WEIGHT_SURCHARGE_PER_KG_OVER
-        calculatedCost += weightSurcharge
-        logger.debug(
-          `Surcharge poids pour ${overweightKg.toFixed(2)}kg au-dessus: ${weightSurcharge.toFixed(2)} CFA`
-        )
+      // 2. Suppléments basés sur les données agrégées
+      const weightSurcharge = this.weightSurcharge(totalWeightG, rules.weight_tiers)
+      if (weightSurcharge.amount > 0) {
+        rawItems.push({
+          code: 'weight',
+          label: 'Supplément poids',
+          quantity: Math.round(weightSurcharge.chargedKg * 100) / 100,
+          raw: weightSurcharge.amount,
+        })
       }
-      if (totalVolumeM3 > VOLUME_SURCHARGE_THRESHOLD_M3) {
-        calculatedCost += VOLUME_SURCHARGE_AMOUNT
-        logger.debug(`Surcharge volume: ${VOLUME_SURCHARGE_AMOUNT} CFA`)
+      const volumeSurcharge = this.volumeSurcharge(totalVolumeM3, rules.volume_tiers)
+      if (volumeSurcharge > 0) {
+        rawItems.push({
+          code: 'volume',
+          label: 'Supplément volume',
+          quantity: totalVolumeM3,
+          raw: volumeSurcharge,
+        })
       }
-      if (hasFragile) {
-        calculatedCost += FRAGILE_SURCHARGE
-        logger.debug(`Surcharge fragile: ${FRAGILE_SURCHARGE} CFA`)
+      for (const mention of mentions) {
+        const surcharge = rules.mention_surcharges[mention] ?? 0
+        if (surcharge > 0) {
+          rawItems.push({
+            code: `mention_${mention}`,
+            label: MENTION_LABELS[mention],
+            raw: surcharge,
+          })
+        }
       }
 
-      // 3. Calculer la rémunération du livreur
-      const variableCostPart = calculatedCost - BASE_FEE
-      let driverRemuneration = BASE_FEE * 0.5 + variableCostPart * DRIVER_PERCENTAGE
+      // 2b. Majoration dynamique de la zone de collecte (ratio commandes en attente / livreurs disponibles)
+      const surge = options.pickupCoordinates
+        ? await surgePricingService.getMultiplierAt(options.pickupCoordinates)
+        : { multiplier: 1, zone: null }
+      if (surge.multiplier > 1) {
+        const costBeforeSurge = rawItems.reduce((sum, item) => sum + item.raw, 0)
+        rawItems.push({
+          code: 'surge',
+          label: 'Majoration forte demande',
+          quantity: surge.multiplier,
+          raw: costBeforeSurge * (surge.multiplier - 1),
+        })
+      }
 
-      // 4. Calculer le prix pour le client final (celui qui passe la commande)
-      let clientFee = calculatedCost * PLATFORM_MARGIN_FACTOR
+      const calculatedCost = rawItems.reduce((sum, item) => sum + item.raw, 0)
+
+      // 3. Rémunération du livreur
+      const variableCostPart = calculatedCost - rules.base_fee
+      let driverRemuneration =
+        rules.base_fee * rules.driver_base_share + variableCostPart * rules.driver_percentage
+
+      // 4. Prix pour le client final (celui qui passe la commande)
+      let clientFee = calculatedCost * rules.platform_margin_factor
+      rawItems.push({
+        code: 'platform_margin',
+        label: 'Frais de service',
+        raw: clientFee - calculatedCost,
+      })
 
       // 5. Arrondir et vérifier minimums
-      clientFee = Math.max(500, Math.round(clientFee)) // Prix client final minimum 500 CFA, arrondi à l'unité
-      driverRemuneration = Math.max(300, Math.round(driverRemuneration)) // Rémunération min 300 CFA, arrondi à l'unité
+      clientFee = Math.max(rules.min_client_fee, Math.round(clientFee))
+      driverRemuneration = Math.max(rules.min_driver_remuneration, Math.round(driverRemuneration))
+
+      const items: FeeLineItem[] = rawItems.map(({ raw, ...item }) => ({
+        ...item,
+        amount: Math.round(raw),
+      }))
+      // Écart d'arrondi ou minimum de facturation : la somme des lignes doit égaler le prix client
+      const adjustment = clientFee - items.reduce((sum, item) => sum + item.amount, 0)
+      if (adjustment !== 0) {
+        items.push({
+          code: 'adjustment',
+          label: 'Ajustement (arrondi / minimum)',
+          amount: adjustment,
+        })
+      }
 
       logger.info(
-        `Frais calculés - Client final: ${clientFee} CFA, Livreur: ${driverRemuneration} CFA`
+        `Frais calculés - Client final: ${clientFee} CFA, Livreur: ${driverRemuneration} CFA (plan: ${plan?.id ?? 'défaut'})`
       )
 
-      return { clientFee, driverRemuneration }
+      return {
+        clientFee,
+        driverRemuneration,
+        breakdown: {
+          pricing_plan_id: plan?.id ?? null,
+          pricing_plan_version_id: version?.id ?? null,
+          pricing_plan_version: version?.version ?? null,
+          surge_multiplier: surge.multiplier,
+          surge_zone: surge.zone,
+          items,
+          client_fee: clientFee,
+          driver_remuneration: driverRemuneration,
+        },
+      }
     } catch (error) {
       logger.error(
         { err: error, distanceMeters, durationSeconds },
@@ -120,6 +355,29 @@ class PricingHelper {
       throw new Error('Erreur lors du calcul du prix de la course.')
     }
   }
+
+  private weightSurcharge(
+    totalWeightG: number,
+    tiers: WeightTier[]
+  ): { amount: number; chargedKg: number } {
+    const sorted = [...tiers].sort((a, b) => a.from_g - b.from_g)
+    let amount = 0
+    let chargedKg = 0
+    sorted.forEach((tier, index) => {
+      const upperG = sorted[index + 1]?.from_g ?? Number.POSITIVE_INFINITY
+      const tierKg = Math.max(0, Math.min(totalWeightG, upperG) - tier.from_g) / 1000
+      amount += tierKg * tier.per_kg_fee
+      chargedKg += tierKg
+    })
+    return { amount, chargedKg }
+  }
+
+  private volumeSurcharge(totalVolumeM3: number, tiers: VolumeTier[]): number {
+    const reached = tiers
+      .filter((tier) => totalVolumeM3 > tier.from_m3)
+      .sort((a, b) => b.from_m3 - a.from_m3)
+    return reached[0]?.fee ?? 0
+  }
 }
 
-export default new PricingHelper()
\ No newline at end of file
+export default new PricingHelper()
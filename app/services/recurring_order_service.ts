@@ -0,0 +1,269 @@
+// app/services/recurring_order_service.ts
+import { DateTime } from 'luxon'
+import db from '@adonisjs/lucid/services/db'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import type Order from '#models/order'
+import RecurringOrderTemplate from '#models/recurring_order_template'
+import orderCreationService, { type OrderCreationPayload } from '#services/order_creation_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+// Avance de génération : laisse à l'Order Scheduler le temps de remettre la commande en assignation
+const DEFAULT_GENERATION_LEAD_SECONDS = 7200
+
+const SCAN_LIMIT = 100
+// Au-delà, la règle est considérée sans occurrence (ex: 31 du mois avec un intervalle improbable)
+const MAX_SEARCH_DAYS = 3 * 366
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Règle de récurrence inspirée de RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYHOUR/BYMINUTE).
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number // Toutes les N périodes (1 = chaque jour / semaine / mois)
+  by_weekday?: number[] // Hebdomadaire : jours ISO (1 = lundi … 7 = dimanche), par défaut celui de starts_on
+  by_month_day?: number[] // Mensuel : jours du mois (1-31), par défaut celui de starts_on
+  time: string // Heure locale de collecte au premier arrêt (HH:mm)
+  pickup_window_minutes: number // Durée du créneau de collecte
+}
+
+/**
+ * Contenu d'une commande générée : celui de POST /orders, sans créneaux (calculés à chaque occurrence).
+ */
+export type RecurringOrderPayload = Omit<OrderCreationPayload, 'delivery_date_request'>
+
+/**
+ * Commandes récurrentes : calcul des occurrences d'un modèle et génération des commandes
+ * par le pipeline de création habituel (géocodage, itinéraire, tarification, assignation).
+ */
+class RecurringOrderService {
+  get generationLeadSeconds(): number {
+    return env.get('RECURRING_ORDERS_LEAD_SECONDS', DEFAULT_GENERATION_LEAD_SECONDS)
+  }
+
+  /**
+   * Vérifie la cohérence de la règle, du fuseau et de la période. Retourne le message d'erreur, ou null.
+   */
+  validateRecurrence(
+    rule: RecurrenceRule,
+    timezone: string,
+    startsOn: DateTime,
+    endsOn: DateTime | null
+  ): string | null {
+    if (!DateTime.now().setZone(timezone).isValid) {
+      return `Fuseau horaire inconnu : "${timezone}".`
+    }
+    if (rule.by_weekday?.length && rule.frequency !== 'weekly') {
+      return "by_weekday ne s'applique qu'à une récurrence hebdomadaire."
+    }
+    if (rule.by_month_day?.length && rule.frequency !== 'monthly') {
+      return "by_month_day ne s'applique qu'à une récurrence mensuelle."
+    }
+    if (endsOn && endsOn < startsOn) {
+      return 'La date de fin doit être postérieure à la date de début.'
+    }
+    return null
+  }
+
+  /**
+   * Première occurrence strictement postérieure à `after` (UTC), ou null si la récurrence est terminée.
+   * Les dates sautées sont ignorées.
+   */
+  nextOccurrence(template: RecurringOrderTemplate, after: DateTime): DateTime | null {
+    const zone = template.timezone
+    const rule = template.recurrence
+    const [hour, minute] = rule.time.split(':').map(Number)
+    const startsOn = DateTime.fromISO(template.starts_on.toISODate()!, { zone })
+    const endsOn = template.ends_on
+      ? DateTime.fromISO(template.ends_on.toISODate()!, { zone })
+      : null
+    const skipped = new Set(template.skipped_dates ?? [])
+
+    const afterDay = after.setZone(zone).startOf('day')
+    let day = afterDay > startsOn ? afterDay : startsOn
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++, day = day.plus({ days: 1 })) {
+      if (endsOn && day > endsOn) return null
+      if (!this.matchesRule(rule, startsOn, day) || skipped.has(day.toISODate()!)) continue
+
+      const occurrence = day.set({ hour, minute, second: 0, millisecond: 0 })
+      if (occurrence > after) return occurrence.toUTC()
+    }
+    return null
+  }
+
+  /**
+   * Recalcule next_occurrence_at après une modification du modèle (règle, dates sautées, reprise…),
+   * sans revenir sur une occurrence déjà réservée ni sur les occurrences passées.
+   */
+  refreshNextOccurrence(template: RecurringOrderTemplate, now: DateTime = DateTime.now()) {
+    template.next_occurrence_at = this.nextOccurrence(
+      template,
+      this.generationCursor(template, now)
+    )
+  }
+
+  /**
+   * Prochaines occurrences (aperçu), à partir de la prochaine à générer.
+   */
+  upcomingOccurrences(template: RecurringOrderTemplate, limit: number): DateTime[] {
+    const occurrences: DateTime[] = []
+    let cursor = this.generationCursor(template, DateTime.now())
+    while (occurrences.length < limit) {
+      const next = this.nextOccurrence(template, cursor)
+      if (!next) break
+      occurrences.push(next)
+      cursor = next
+    }
+    return occurrences
+  }
+
+  /**
+   * Modèles actifs, non suspendus, dont la prochaine occurrence entre dans l'avance de génération.
+   */
+  async findDueTemplates(now: DateTime = DateTime.now()): Promise<RecurringOrderTemplate[]> {
+    return RecurringOrderTemplate.query()
+      .where('is_active', true)
+      .where('is_paused', false)
+      .whereNotNull('next_occurrence_at')
+      .where('next_occurrence_at', '<=', now.plus({ seconds: this.generationLeadSeconds }).toSQL()!)
+      .orderBy('next_occurrence_at', 'asc')
+      .limit(SCAN_LIMIT)
+  }
+
+  /**
+   * Réserve l'occurrence due d'un modèle et avance next_occurrence_at. Retourne l'occurrence,
+   * ou null si elle a été prise entre-temps (ou le modèle suspendu).
+   * Une occurrence réservée n'est jamais rejouée : un échec de génération est seulement consigné.
+   */
+  async claimOccurrence(
+    templateId: string,
+    now: DateTime = DateTime.now()
+  ): Promise<{ template: RecurringOrderTemplate; occurrenceAt: DateTime } | null> {
+    const trx = await db.transaction()
+    try {
+      const template = await RecurringOrderTemplate.query({ client: trx })
+        .where('id', templateId)
+        .forUpdate()
+        .first()
+      const occurrenceAt = template?.next_occurrence_at
+      if (
+        !template ||
+        !occurrenceAt ||
+        !template.is_active ||
+        template.is_paused ||
+        occurrenceAt > now.plus({ seconds: this.generationLeadSeconds })
+      ) {
+        await trx.rollback()
+        return null
+      }
+      template.last_occurrence_at = occurrenceAt
+      template.next_occurrence_at = this.nextOccurrence(template, occurrenceAt)
+      await template.save()
+      await trx.commit()
+      return { template, occurrenceAt }
+    } catch (error) {
+      await trx.rollback()
+      throw error
+    }
+  }
+
+  /**
+   * Génère la commande d'une occurrence. Retourne la commande, ou null en cas d'échec (consigné sur le modèle).
+   */
+  async generateOrder(
+    template: RecurringOrderTemplate,
+    occurrenceAt: DateTime
+  ): Promise<Order | null> {
+    const payload = this.buildOrderPayload(template, occurrenceAt)
+    let failure = orderCreationService.validatePayload(payload)
+
+    if (!failure) {
+      try {
+        const result = await orderCreationService.create(payload, {
+          companyId: template.company_id,
+          changedByUserId: template.created_by_user_id,
+          recurringOrderTemplateId: template.id,
+        })
+        if (!('error' in result)) {
+          template.last_generated_at = DateTime.now()
+          template.last_error = null
+          template.last_error_at = null
+          await template.save()
+          logger.info(
+            {
+              templateId: template.id,
+              orderId: result.order.id,
+              occurrenceAt: occurrenceAt.toISO(),
+            },
+            'Commande récurrente générée'
+          )
+          return result.order
+        }
+        failure = result.error
+      } catch (error) {
+        logger.error(
+          { err: error, templateId: template.id },
+          'Erreur génération commande récurrente'
+        )
+        failure = 'Erreur serveur lors de la création de la commande.'
+      }
+    }
+
+    const localOccurrence = occurrenceAt.setZone(template.timezone).toFormat('yyyy-MM-dd HH:mm')
+    template.last_error = `Occurrence du ${localOccurrence} non générée : ${failure}`
+    template.last_error_at = DateTime.now()
+    await template.save()
+    logger.warn(
+      { templateId: template.id, occurrenceAt: occurrenceAt.toISO(), reason: failure },
+      'Commande récurrente non générée'
+    )
+    return null
+  }
+
+  /**
+   * Contenu de la commande d'une occurrence : le premier arrêt reçoit le créneau de collecte.
+   */
+  buildOrderPayload(
+    template: RecurringOrderTemplate,
+    occurrenceAt: DateTime
+  ): OrderCreationPayload {
+    const windowEnd = occurrenceAt.plus({ minutes: template.recurrence.pickup_window_minutes })
+    return {
+      ...template.order_payload,
+      waypoints: template.order_payload.waypoints.map((waypoint, index) =>
+        index === 0
+          ? { ...waypoint, time_window: { start: occurrenceAt.toISO()!, end: windowEnd.toISO()! } }
+          : { ...waypoint }
+      ),
+    }
+  }
+
+  private generationCursor(template: RecurringOrderTemplate, now: DateTime): DateTime {
+    const lastOccurrence = template.last_occurrence_at
+    return lastOccurrence && lastOccurrence > now ? lastOccurrence : now
+  }
+
+  private matchesRule(rule: RecurrenceRule, startsOn: DateTime, day: DateTime): boolean {
+    const interval = Math.max(1, rule.interval)
+    switch (rule.frequency) {
+      case 'daily':
+        return Math.round(day.diff(startsOn, 'days').days) % interval === 0
+      case 'weekly': {
+        const weekdays = rule.by_weekday?.length ? rule.by_weekday : [startsOn.weekday]
+        if (!weekdays.includes(day.weekday)) return false
+        const weeks = Math.round(day.startOf('week').diff(startsOn.startOf('week'), 'weeks').weeks)
+        return weeks % interval === 0
+      }
+      case 'monthly': {
+        const monthDays = rule.by_month_day?.length ? rule.by_month_day : [startsOn.day]
+        if (!monthDays.includes(day.day)) return false
+        const months = (day.year - startsOn.year) * 12 + (day.month - startsOn.month)
+        return months % interval === 0
+      }
+    }
+  }
+}
+
+export default new RecurringOrderService()
@@ -25,6 +25,7 @@ export enum MissionLifecycleEvent {
   OFFER_REFUSED_BY_DRIVER = 'mission_offer_refused_by_driver', // Un chauffeur a REFUSÉ une offre
   OFFER_EXPIRED_FOR_DRIVER = 'mission_offer_expired_for_driver', // L'offre a EXPIRÉ pour un chauffeur (peut être publié par un autre service ou par AssignmentWorker lui-même)
   MANUALLY_ASSIGNED = 'mission_manually_assigned', // Une mission a été assignée manuellement par un admin
+  OFFER_RETRACTED = 'mission_offer_retracted', // Offre broadcast retirée à un chauffeur car un autre l'a acceptée
 
   // Événements pour informer D'AUTRES systèmes (par exemple, facturation, suivi),
   // pourraient aller sur ASSIGNMENT_EVENTS_STREAM_KEY ou un autre stream dédié si nécessaire.
@@ -61,6 +62,8 @@ export interface RawInitialAssignmentDetails {
   pickupCoordinates?: [number, number];
   totalWeightG?: number;
   initialRemuneration?: number;
+  batch_id?: string; // Renseigné quand la commande est la tête d'une tournée groupée
+  batching_checked?: boolean; // Le batching worker n'a trouvé aucun regroupement : assigner directement
 }
 
 
@@ -89,6 +92,13 @@ export interface OfferAcceptedData extends MissionEventData {
   driverId: string // Le chauffeur qui accepte
 }
 
+// Interface spécifique pour un retrait d'offre broadcast
+export interface OfferRetractedData extends MissionEventData {
+  type: MissionLifecycleEvent.OFFER_RETRACTED
+  driverId: string // Le chauffeur qui perd l'offre
+  acceptedByDriverId: string // Le chauffeur qui a remporté la course
+}
+
 // Interface spécifique pour une complétion
 export interface MissionCompletedData extends MissionEventData {
   type: MissionLifecycleEvent.COMPLETED
@@ -283,6 +293,31 @@ class RedisHelper {
     return this.publishEventInternal(ASSIGNMENT_EVENTS_STREAM_KEY, eventData)
   }
 
+  /**
+   * Publishes an event indicating a broadcast offer has been retracted for a driver
+   * because another driver accepted it first.
+   * Consumed by AssignmentWorker to put the losing driver back to ACTIVE.
+   *
+   * @param orderId - The order ID.
+   * @param driverId - The driver ID who lost the offer.
+   * @param acceptedByDriverId - The driver ID who won the race.
+   * @returns The message ID or null if publishing fails.
+   */
+  async publishMissionOfferRetracted(
+    orderId: string,
+    driverId: string,
+    acceptedByDriverId: string
+  ): Promise<string | null> {
+    const eventData: OfferRetractedData = {
+      type: MissionLifecycleEvent.OFFER_RETRACTED,
+      orderId,
+      driverId,
+      acceptedByDriverId,
+      timestamp: Date.now(),
+    }
+    return this.publishEventInternal(ASSIGNMENT_EVENTS_STREAM_KEY, eventData)
+  }
+
   /**
    * Publishes a mission completion event.
    * Can be consumed by various services (billing, stats, AssignmentWorker to finalize).
@@ -0,0 +1,175 @@
+// app/services/route_deviation_service.ts
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import emitter from '@adonisjs/core/services/emitter'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import type Order from '#models/order'
+import OrderRouteLeg from '#models/order_route_leg'
+import geo_helper from '#services/geo_helper'
+import Ws from '#services/ws_service'
+import type { RouteUpdatedPayload } from '../contracts/events.js'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_TOLERANCE_METERS = 100 // Distance au tracé au-delà de laquelle le livreur est hors itinéraire
+const DEFAULT_MIN_DURATION_SECONDS = 30 // Durée hors itinéraire avant recalcul (évite les faux positifs GPS)
+const DEFAULT_REROUTE_COOLDOWN_SECONDS = 60 // Délai minimal entre deux recalculs d'une même commande
+
+const OFF_ROUTE_KEY_PREFIX = 'route:off_route:'
+const REROUTE_LOCK_PREFIX = 'route:reroute_lock:'
+const OFF_ROUTE_TTL_SECONDS = 3600
+
+// Début de l'écart en cours pour une commande (réinitialisé dès que le livreur revient sur le tracé)
+interface OffRouteState {
+  leg_sequence: number
+  since: string // ISO
+}
+
+/**
+ * Détection d'écart d'itinéraire : chaque position du livreur est comparée à la géométrie du leg actif
+ * (ST_Distance). Si le livreur reste hors du tracé au-delà de la tolérance pendant la durée minimale,
+ * le leg est recalculé depuis sa position (GeoHelper.rerouteLeg), enregistré, puis poussé au livreur
+ * (room WebSocket) et aux suivis SSE (`order:route_updated`).
+ */
+class RouteDeviationService {
+  get toleranceMeters(): number {
+    return env.get('ROUTE_DEVIATION_TOLERANCE_METERS', DEFAULT_TOLERANCE_METERS)
+  }
+
+  get minDurationSeconds(): number {
+    return env.get('ROUTE_DEVIATION_MIN_DURATION_SECONDS', DEFAULT_MIN_DURATION_SECONDS)
+  }
+
+  get rerouteCooldownSeconds(): number {
+    return env.get('ROUTE_REROUTE_COOLDOWN_SECONDS', DEFAULT_REROUTE_COOLDOWN_SECONDS)
+  }
+
+  /**
+   * Vérifie la position sur le leg menant au waypoint `legSequence + 1` et recalcule le leg si besoin.
+   * Renvoie le leg recalculé, ou null si aucun recalcul n'a eu lieu.
+   */
+  async checkPosition(
+    order: Order,
+    driverId: string,
+    legSequence: number,
+    position: [number, number] // lon, lat
+  ): Promise<OrderRouteLeg | null> {
+    const distance = await this.distanceToLeg(order.id, legSequence, position)
+    const key = `${OFF_ROUTE_KEY_PREFIX}${order.id}`
+
+    if (distance === null || distance <= this.toleranceMeters) {
+      // Sur le tracé (ou pas de géométrie à comparer) : l'écart éventuel est terminé
+      await redis.del(key)
+      return null
+    }
+
+    const state: OffRouteState = { leg_sequence: legSequence, since: DateTime.now().toISO()! }
+    const created = await redis.set(key, JSON.stringify(state), 'EX', OFF_ROUTE_TTL_SECONDS, 'NX')
+    if (created === 'OK') {
+      logger.debug({ orderId: order.id, legSequence, distance }, 'Livreur hors itinéraire')
+      return null
+    }
+
+    const raw = await redis.get(key)
+    const current = raw ? (JSON.parse(raw) as OffRouteState) : null
+    if (!current || current.leg_sequence !== legSequence) {
+      // Le leg actif a changé pendant l'écart : nouveau départ du chrono
+      await redis.set(key, JSON.stringify(state), 'EX', OFF_ROUTE_TTL_SECONDS)
+      return null
+    }
+
+    const offRouteSeconds = DateTime.now().diff(DateTime.fromISO(current.since), 'seconds').seconds
+    if (offRouteSeconds < this.minDurationSeconds) return null
+
+    const lock = await redis.set(
+      `${REROUTE_LOCK_PREFIX}${order.id}`,
+      '1',
+      'EX',
+      this.rerouteCooldownSeconds,
+      'NX'
+    )
+    if (lock !== 'OK') return null
+
+    const leg = await this.rerouteFromPosition(order, driverId, legSequence, position, distance)
+    if (leg) await redis.del(key)
+    return leg
+  }
+
+  /**
+   * Recalcule le leg depuis la position du livreur jusqu'à sa destination et diffuse le nouveau tracé.
+   */
+  private async rerouteFromPosition(
+    order: Order,
+    driverId: string,
+    legSequence: number,
+    position: [number, number],
+    distanceMeters: number
+  ): Promise<OrderRouteLeg | null> {
+    const leg = await OrderRouteLeg.query()
+      .where('order_id', order.id)
+      .where('leg_sequence', legSequence)
+      .first()
+    if (!leg || !leg.end_coordinates) return null
+
+    const rerouted = await geo_helper.rerouteLeg(position, leg.end_coordinates.coordinates)
+    if (!rerouted) {
+      logger.warn(
+        { orderId: order.id, legSequence },
+        'Recalcul automatique du leg impossible (Valhalla)'
+      )
+      return null
+    }
+
+    leg.merge({
+      start_address_id: null, // Le leg part désormais de la position du livreur
+      start_coordinates: { type: 'Point', coordinates: position },
+      geometry: rerouted.geometry,
+      duration_seconds: rerouted.duration_seconds,
+      distance_meters: rerouted.distance_meters,
+      maneuvers: rerouted.maneuvers,
+    })
+    await leg.save()
+
+    logger.info(
+      { orderId: order.id, driverId, legSequence, offRouteMeters: Math.round(distanceMeters) },
+      "Leg recalculé automatiquement après écart d'itinéraire"
+    )
+
+    const payload: RouteUpdatedPayload = {
+      order_id: order.id,
+      company_id: order.company_id,
+      driver_id: driverId,
+      leg_sequence: legSequence,
+      reason: 'off_route',
+      geometry: rerouted.geometry,
+      duration_seconds: rerouted.duration_seconds,
+      distance_meters: rerouted.distance_meters,
+      maneuvers: rerouted.maneuvers,
+      timestamp: DateTime.now().toISO()!,
+    }
+    await Ws.toDriver(driverId, 'route_updated', payload)
+    await emitter.emit('order:route_updated', payload)
+    return leg
+  }
+
+  private async distanceToLeg(
+    orderId: string,
+    legSequence: number,
+    position: [number, number]
+  ): Promise<number | null> {
+    const result = await db.rawQuery(
+      `SELECT ST_Distance(l.geometry::geography, ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography) AS distance_meters
+         FROM order_route_legs l
+        WHERE l.order_id = ?
+          AND l.leg_sequence = ?
+          AND l.geometry IS NOT NULL
+        LIMIT 1`,
+      [position[0], position[1], orderId, legSequence]
+    )
+    const row = result.rows[0]
+    return row ? Number(row.distance_meters) : null
+  }
+}
+
+export default new RouteDeviationService()
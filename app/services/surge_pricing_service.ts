@@ -0,0 +1,214 @@
+// app/services/surge_pricing_service.ts
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import { OrderStatus } from '#models/order'
+import { DriverStatus } from '#models/drivers_status'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_ZONE_SIZE_DEG = 0.02 // ~2,2 km à l'équateur
+const DEFAULT_RATIO_THRESHOLD = 1 // Pas de majoration tant qu'il y a au moins un livreur par commande en attente
+const DEFAULT_SENSITIVITY = 0.25 // +0.25 de multiplicateur par unité de ratio au-dessus du seuil
+const DEFAULT_MAX_MULTIPLIER = 2
+const DEFAULT_SMOOTHING_FACTOR = 0.3 // Poids de la nouvelle mesure (moyenne mobile exponentielle)
+
+const SURGE_MAP_KEY = 'surge:map'
+// Carte considérée comme périmée si le worker ne l'a pas rafraîchie : les prix reviennent au tarif normal
+const SURGE_MAP_TTL_SECONDS = 300
+
+export interface SurgeZone {
+  zone: string // Identifiant de cellule "latIndex:lonIndex"
+  center: [number, number] // lon, lat
+  bbox: [number, number, number, number] // minLon, minLat, maxLon, maxLat
+  pending_orders: number
+  active_drivers: number
+  raw_multiplier: number // Multiplicateur instantané (plafonné, non lissé)
+  multiplier: number // Multiplicateur appliqué (lissé)
+}
+
+export interface SurgeMap {
+  computed_at: string // ISO
+  zone_size_deg: number
+  zones: SurgeZone[]
+}
+
+/**
+ * Majoration dynamique par zone géographique (grille de cellules carrées en degrés),
+ * calculée à partir du ratio commandes PENDING / livreurs ACTIVE de chaque cellule.
+ * La carte est calculée par le Surge Worker et partagée via Redis.
+ */
+class SurgePricingService {
+  get enabled(): boolean {
+    return env.get('SURGE_ENABLED', false)
+  }
+
+  get zoneSizeDeg(): number {
+    return env.get('SURGE_ZONE_SIZE_DEG', DEFAULT_ZONE_SIZE_DEG)
+  }
+
+  get maxMultiplier(): number {
+    return env.get('SURGE_MAX_MULTIPLIER', DEFAULT_MAX_MULTIPLIER)
+  }
+
+  zoneKeyFor(coordinates: [number, number], zoneSizeDeg: number = this.zoneSizeDeg): string {
+    const [lon, lat] = coordinates
+    return `${Math.floor(lat / zoneSizeDeg)}:${Math.floor(lon / zoneSizeDeg)}`
+  }
+
+  /**
+   * Recalcule la carte des majorations et la publie dans Redis.
+   */
+  async computeAndStore(): Promise<SurgeMap> {
+    const zoneSizeDeg = this.zoneSizeDeg
+    const previous = await this.getSurgeMap()
+    // Une carte calculée avec une autre taille de cellule n'est pas comparable
+    const previousByZone = new Map(
+      previous && previous.zone_size_deg === zoneSizeDeg
+        ? previous.zones.map((zone) => [zone.zone, zone])
+        : []
+    )
+
+    const counts = await this.countSupplyAndDemand(zoneSizeDeg)
+    const zoneKeys = new Set([...counts.keys(), ...previousByZone.keys()])
+    const smoothing = env.get('SURGE_SMOOTHING_FACTOR', DEFAULT_SMOOTHING_FACTOR)
+
+    const zones: SurgeZone[] = []
+    for (const zoneKey of zoneKeys) {
+      const count = counts.get(zoneKey) ?? { pending_orders: 0, active_drivers: 0 }
+      const rawMultiplier = this.rawMultiplier(count.pending_orders, count.active_drivers)
+      const previousMultiplier = previousByZone.get(zoneKey)?.multiplier ?? 1
+      const multiplier = this.round(
+        previousMultiplier + smoothing * (rawMultiplier - previousMultiplier)
+      )
+
+      // Zone revenue au calme : inutile de la garder dans la carte
+      if (multiplier <= 1 && count.pending_orders === 0) continue
+
+      zones.push({
+        ...this.zoneGeometry(zoneKey, zoneSizeDeg),
+        zone: zoneKey,
+        pending_orders: count.pending_orders,
+        active_drivers: count.active_drivers,
+        raw_multiplier: rawMultiplier,
+        multiplier: Math.max(1, multiplier),
+      })
+    }
+
+    const surgeMap: SurgeMap = {
+      computed_at: DateTime.now().toISO()!,
+      zone_size_deg: zoneSizeDeg,
+      zones: zones.sort((a, b) => b.multiplier - a.multiplier),
+    }
+    await redis.set(SURGE_MAP_KEY, JSON.stringify(surgeMap), 'EX', SURGE_MAP_TTL_SECONDS)
+    return surgeMap
+  }
+
+  async getSurgeMap(): Promise<SurgeMap | null> {
+    const raw = await redis.get(SURGE_MAP_KEY)
+    if (!raw) return null
+    try {
+      return JSON.parse(raw) as SurgeMap
+    } catch (error) {
+      logger.warn({ err: error }, 'Carte de majoration illisible dans Redis, ignorée.')
+      return null
+    }
+  }
+
+  /**
+   * Multiplicateur applicable à un point de collecte (1 si aucune majoration ou carte indisponible).
+   */
+  async getMultiplierAt(
+    coordinates: [number, number]
+  ): Promise<{ multiplier: number; zone: string | null }> {
+    if (!this.enabled) return { multiplier: 1, zone: null }
+    try {
+      const surgeMap = await this.getSurgeMap()
+      if (!surgeMap) return { multiplier: 1, zone: null }
+
+      const zoneKey = this.zoneKeyFor(coordinates, surgeMap.zone_size_deg)
+      const zone = surgeMap.zones.find((z) => z.zone === zoneKey)
+      return {
+        multiplier: zone ? Math.min(Math.max(1, zone.multiplier), this.maxMultiplier) : 1,
+        zone: zoneKey,
+      }
+    } catch (error) {
+      // La majoration ne doit jamais bloquer la tarification
+      logger.warn({ err: error, coordinates }, 'Lecture de la majoration impossible, tarif normal.')
+      return { multiplier: 1, zone: null }
+    }
+  }
+
+  private rawMultiplier(pendingOrders: number, activeDrivers: number): number {
+    if (pendingOrders === 0) return 1
+    const threshold = env.get('SURGE_RATIO_THRESHOLD', DEFAULT_RATIO_THRESHOLD)
+    const sensitivity = env.get('SURGE_SENSITIVITY', DEFAULT_SENSITIVITY)
+    // Aucun livreur disponible : le ratio est calculé comme s'il y en avait un
+    const ratio = pendingOrders / Math.max(1, activeDrivers)
+    if (ratio <= threshold) return 1
+    return this.round(Math.min(this.maxMultiplier, 1 + (ratio - threshold) * sensitivity))
+  }
+
+  /**
+   * Compte, par cellule, les commandes en attente (point de collecte) et les livreurs ACTIVE (position courante).
+   */
+  private async countSupplyAndDemand(
+    zoneSizeDeg: number
+  ): Promise<Map<string, { pending_orders: number; active_drivers: number }>> {
+    const pendingRows = await db.rawQuery(
+      `SELECT FLOOR(ST_Y(a.coordinates) / ?)::bigint AS lat_index,
+              FLOOR(ST_X(a.coordinates) / ?)::bigint AS lon_index,
+              COUNT(*)::int AS total
+         FROM orders o
+         JOIN addresses a ON a.id = o.pickup_address_id
+        WHERE o.driver_id IS NULL
+          AND (o.scheduled_release_at IS NULL OR o.released_for_assignment_at IS NOT NULL)
+          AND (SELECT l.status FROM order_status_logs l WHERE l.order_id = o.id ORDER BY l.changed_at DESC LIMIT 1) = ?
+        GROUP BY 1, 2`,
+      [zoneSizeDeg, zoneSizeDeg, OrderStatus.PENDING]
+    )
+    const driverRows = await db.rawQuery(
+      `SELECT FLOOR(ST_Y(d.current_location) / ?)::bigint AS lat_index,
+              FLOOR(ST_X(d.current_location) / ?)::bigint AS lon_index,
+              COUNT(*)::int AS total
+         FROM drivers d
+        WHERE d.current_location IS NOT NULL
+          AND d.latest_status = ?
+        GROUP BY 1, 2`,
+      [zoneSizeDeg, zoneSizeDeg, DriverStatus.ACTIVE]
+    )
+
+    const counts = new Map<string, { pending_orders: number; active_drivers: number }>()
+    const entry = (row: { lat_index: string; lon_index: string }) => {
+      const key = `${row.lat_index}:${row.lon_index}`
+      if (!counts.has(key)) counts.set(key, { pending_orders: 0, active_drivers: 0 })
+      return counts.get(key)!
+    }
+    for (const row of pendingRows.rows) entry(row).pending_orders = Number(row.total)
+    for (const row of driverRows.rows) entry(row).active_drivers = Number(row.total)
+    return counts
+  }
+
+  private zoneGeometry(zoneKey: string, zoneSizeDeg: number): Pick<SurgeZone, 'center' | 'bbox'> {
+    const [latIndex, lonIndex] = zoneKey.split(':').map(Number)
+    const minLat = latIndex * zoneSizeDeg
+    const minLon = lonIndex * zoneSizeDeg
+    return {
+      center: [this.round(minLon + zoneSizeDeg / 2, 6), this.round(minLat + zoneSizeDeg / 2, 6)],
+      bbox: [
+        this.round(minLon, 6),
+        this.round(minLat, 6),
+        this.round(minLon + zoneSizeDeg, 6),
+        this.round(minLat + zoneSizeDeg, 6),
+      ],
+    }
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals
+    return Math.round(value * factor) / factor
+  }
+}
+
+export default new SurgePricingService()
@@ -0,0 +1,251 @@
+// app/services/tracking_fanout_service.ts
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import type { EventsList } from '@adonisjs/core/types'
+import env from '#start/env'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_MAX_CONNECTIONS_PER_ORDER = 10
+const DEFAULT_REPLAY_BUFFER_SIZE = 200 // Événements conservés par commande pour la reprise (Last-Event-ID)
+const DEFAULT_REPLAY_TTL_SECONDS = 900 // Durée de vie du buffer sans nouvel événement
+
+const FANOUT_CHANNEL = 'sse:tracking'
+const REPLAY_STREAM_PREFIX = 'sse:order:'
+const CONNECTIONS_KEY_PREFIX = 'sse:connections:'
+// Une connexion sans rafraîchissement depuis ce délai est considérée comme perdue (instance arrêtée)
+const CONNECTION_STALE_MS = 90 * 1000
+
+// Événements de suivi diffusés aux connexions SSE de toutes les instances
+export const TRACKING_EVENTS = [
+  'order:status_updated',
+  'order:driver_location_updated',
+  'order:eta_updated',
+  'order:route_updated',
+  'order:waypoint_completed',
+] as const
+
+export type TrackingEventName = (typeof TRACKING_EVENTS)[number]
+
+export type TrackingEvent = {
+  [E in TrackingEventName]: {
+    id: string // ID de l'entrée du buffer Redis, renvoyé au client comme `id:` SSE
+    event: E
+    payload: EventsList[E]
+  }
+}[TrackingEventName]
+
+export type TrackingEventHandler = (event: TrackingEvent) => void
+
+export interface TrackingAttachment {
+  resumed: boolean // Tous les événements manqués depuis Last-Event-ID ont été rejoués
+  detach: () => void
+}
+
+/**
+ * Diffusion des événements de suivi entre instances : chaque événement est ajouté au buffer Redis
+ * de la commande (stream court, base de la reprise via Last-Event-ID) puis publié sur un canal pub/sub
+ * auquel chaque instance s'abonne une seule fois et qu'elle redistribue à ses connexions SSE locales.
+ * Le nombre de connexions par commande est limité sur l'ensemble des instances.
+ */
+class TrackingFanoutService {
+  // Handlers locaux par commande (connexions SSE de cette instance)
+  private handlers = new Map<string, Set<TrackingEventHandler>>()
+  private subscription: Promise<void> | null = null // Abonnement pub/sub partagé par les connexions
+
+  get maxConnectionsPerOrder(): number {
+    return env.get('SSE_MAX_CONNECTIONS_PER_ORDER', DEFAULT_MAX_CONNECTIONS_PER_ORDER)
+  }
+
+  get replayBufferSize(): number {
+    return env.get('SSE_REPLAY_BUFFER_SIZE', DEFAULT_REPLAY_BUFFER_SIZE)
+  }
+
+  get replayTtlSeconds(): number {
+    return env.get('SSE_REPLAY_TTL_SECONDS', DEFAULT_REPLAY_TTL_SECONDS)
+  }
+
+  /**
+   * Ajoute l'événement au buffer de la commande et le publie à toutes les instances.
+   */
+  async publish<E extends TrackingEventName>(event: E, payload: EventsList[E]): Promise<void> {
+    const key = `${REPLAY_STREAM_PREFIX}${payload.order_id}`
+    const data = JSON.stringify(payload)
+    const id = await redis.xadd(
+      key,
+      'MAXLEN',
+      '~',
+      String(this.replayBufferSize),
+      '*',
+      'event',
+      event,
+      'data',
+      data
+    )
+    await redis.expire(key, this.replayTtlSeconds)
+    await redis.publish(FANOUT_CHANNEL, JSON.stringify({ id, event, payload }))
+  }
+
+  /**
+   * Branche une connexion SSE sur les événements d'une commande. Avec `lastEventId`, les événements
+   * manqués sont d'abord rejoués depuis le buffer ; les événements reçus pendant le rejeu sont
+   * mis en attente puis délivrés sans doublon.
+   */
+  async attach(
+    orderId: string,
+    lastEventId: string | null,
+    handler: TrackingEventHandler
+  ): Promise<TrackingAttachment> {
+    await this.ensureSubscribed()
+
+    let lastDeliveredId = lastEventId && isStreamId(lastEventId) ? lastEventId : null
+    let pending: TrackingEvent[] | null = []
+    const deliver = (event: TrackingEvent) => {
+      if (lastDeliveredId && compareStreamIds(event.id, lastDeliveredId) <= 0) return
+      lastDeliveredId = event.id
+      handler(event)
+    }
+    const localHandler: TrackingEventHandler = (event) => {
+      if (pending) pending.push(event)
+      else deliver(event)
+    }
+
+    const set = this.handlers.get(orderId) ?? new Set<TrackingEventHandler>()
+    set.add(localHandler)
+    this.handlers.set(orderId, set)
+    const detach = () => {
+      set.delete(localHandler)
+      if (set.size === 0 && this.handlers.get(orderId) === set) this.handlers.delete(orderId)
+    }
+
+    let resumed = false
+    try {
+      if (lastDeliveredId) {
+        const replay = await this.replaySince(orderId, lastDeliveredId)
+        replay.events.forEach(deliver)
+        resumed = replay.complete
+      }
+    } catch (error) {
+      logger.error({ err: error, orderId }, 'SSE: Erreur rejeu des événements depuis Last-Event-ID')
+    } finally {
+      const queued = pending
+      pending = null
+      queued.forEach(deliver)
+    }
+
+    return { resumed, detach }
+  }
+
+  /**
+   * Enregistre une connexion pour la commande si la limite n'est pas atteinte.
+   * Ajout puis comptage : deux instances concurrentes ne peuvent pas dépasser la limite.
+   */
+  async acquireConnection(orderId: string, connectionId: string): Promise<boolean> {
+    const key = `${CONNECTIONS_KEY_PREFIX}${orderId}`
+    const now = Date.now()
+    await redis.zremrangebyscore(key, '-inf', now - CONNECTION_STALE_MS)
+    await redis.zadd(key, now, connectionId)
+    await redis.expire(key, Math.ceil(CONNECTION_STALE_MS / 1000))
+
+    const count = await redis.zcard(key)
+    if (count > this.maxConnectionsPerOrder) {
+      await redis.zrem(key, connectionId)
+      return false
+    }
+    return true
+  }
+
+  // Appelé à chaque ping : la connexion reste comptée tant qu'elle est vivante
+  async refreshConnection(orderId: string, connectionId: string): Promise<void> {
+    const key = `${CONNECTIONS_KEY_PREFIX}${orderId}`
+    await redis.zadd(key, Date.now(), connectionId)
+    await redis.expire(key, Math.ceil(CONNECTION_STALE_MS / 1000))
+  }
+
+  async releaseConnection(orderId: string, connectionId: string): Promise<void> {
+    await redis.zrem(`${CONNECTIONS_KEY_PREFIX}${orderId}`, connectionId)
+  }
+
+  /**
+   * Événements du buffer postérieurs à `lastEventId`. `complete` est faux si le buffer a expiré
+   * ou ne remonte plus jusqu'à cet ID (des événements ont été perdus : le client doit repartir
+   * d'un état complet).
+   */
+  private async replaySince(
+    orderId: string,
+    lastEventId: string
+  ): Promise<{ events: TrackingEvent[]; complete: boolean }> {
+    const key = `${REPLAY_STREAM_PREFIX}${orderId}`
+    const oldest = await redis.xrange(key, '-', '+', 'COUNT', 1)
+    if (oldest.length === 0 || compareStreamIds(oldest[0][0], lastEventId) > 0) {
+      return { events: [], complete: false }
+    }
+
+    const entries = await redis.xrange(key, `(${lastEventId}`, '+')
+    const events: TrackingEvent[] = []
+    for (const [id, fields] of entries) {
+      const values: Record<string, string> = {}
+      for (let i = 0; i < fields.length; i += 2) values[fields[i]] = fields[i + 1]
+      try {
+        events.push({ id, event: values.event, payload: JSON.parse(values.data) } as TrackingEvent)
+      } catch {
+        logger.warn({ orderId, id }, 'SSE: Entrée illisible dans le buffer de rejeu')
+      }
+    }
+    return { events, complete: true }
+  }
+
+  /**
+   * Abonne l'instance au canal de diffusion (une seule fois). En cas d'échec, l'abonnement sera
+   * retenté à la prochaine connexion ; la connexion courante ne reçoit alors que le rejeu.
+   */
+  private ensureSubscribed(): Promise<void> {
+    this.subscription ??= new Promise<void>((resolve, reject) => {
+      redis.connection().subscribe(FANOUT_CHANNEL, (message: string) => this.dispatch(message), {
+        onSubscription: () => resolve(),
+        onError: reject,
+      })
+    })
+      .then(() => logger.info(`SSE: Instance abonnée au canal ${FANOUT_CHANNEL}`))
+      .catch((error) => {
+        this.subscription = null
+        logger.error({ err: error }, `SSE: Abonnement au canal ${FANOUT_CHANNEL} impossible`)
+      })
+    return this.subscription
+  }
+
+  private dispatch(message: string) {
+    let event: TrackingEvent
+    try {
+      event = JSON.parse(message)
+    } catch {
+      logger.warn('SSE: Message pub/sub de suivi illisible')
+      return
+    }
+    const handlers = this.handlers.get(event.payload.order_id)
+    if (!handlers) return
+    for (const handler of handlers) {
+      try {
+        handler(event)
+      } catch (error) {
+        logger.error(
+          { err: error, orderId: event.payload.order_id },
+          'SSE: Erreur diffusion locale'
+        )
+      }
+    }
+  }
+}
+
+function isStreamId(value: string): boolean {
+  return /^\d+-\d+$/.test(value)
+}
+
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split('-').map(BigInt)
+  const [bMs, bSeq] = b.split('-').map(BigInt)
+  if (aMs !== bMs) return aMs < bMs ? -1 : 1
+  if (aSeq !== bSeq) return aSeq < bSeq ? -1 : 1
+  return 0
+}
+
+export default new TrackingFanoutService()
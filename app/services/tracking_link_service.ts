@@ -0,0 +1,187 @@
+// app/services/tracking_link_service.ts
+import encryption from '@adonisjs/core/services/encryption'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order, { OrderStatus, waypointStatus, type WaypointSummaryItem } from '#models/order'
+import etaService, { TRACKABLE_ORDER_STATUSES } from '#services/eta_service'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_TTL_HOURS = 72
+
+const TOKEN_PURPOSE = 'order_tracking'
+const PUBLIC_TRACKING_PATH = '/public/tracking'
+
+const FINALIZED_WAYPOINT_STATUSES = [
+  waypointStatus.COMPLETED,
+  waypointStatus.SKIPPED,
+  waypointStatus.FAILED,
+]
+
+// Contenu signé du token (non chiffré : ne contient aucune donnée sensible)
+interface TrackingTokenPayload {
+  order_id: string
+  waypoint_sequence: number
+}
+
+export interface TrackingLink {
+  waypoint_sequence: number
+  recipient_name: string | null
+  token: string
+  url: string
+  expires_at: string // ISO
+}
+
+export interface TrackingTarget {
+  orderId: string
+  waypointSequence: number
+}
+
+/**
+ * Liens de suivi publics des destinataires : un token signé (APP_KEY) et expirant par waypoint de livraison.
+ * La vue publique n'expose que les informations utiles au destinataire : son propre waypoint,
+ * le prénom et la photo du livreur, et la position du livreur uniquement quand il se dirige vers lui.
+ */
+class TrackingLinkService {
+  get ttlHours(): number {
+    return env.get('TRACKING_LINK_TTL_HOURS', DEFAULT_TTL_HOURS)
+  }
+
+  /**
+   * Génère un lien par waypoint de livraison de la commande.
+   */
+  linksForOrder(order: Order): TrackingLink[] {
+    const expiresAt = DateTime.now().plus({ hours: this.ttlHours })
+    return (order.waypoints_summary ?? [])
+      .map((waypoint, index) => ({ waypoint, index }))
+      .filter(({ waypoint }) => waypoint.type === 'delivery')
+      .map(({ waypoint, index }) => {
+        const token = this.createToken(order.id, index)
+        return {
+          waypoint_sequence: index,
+          recipient_name: waypoint.name ?? null,
+          token,
+          url: this.publicUrl(token),
+          expires_at: expiresAt.toISO()!,
+        }
+      })
+  }
+
+  createToken(orderId: string, waypointSequence: number): string {
+    const payload: TrackingTokenPayload = { order_id: orderId, waypoint_sequence: waypointSequence }
+    return encryption.verifier.sign(payload, `${this.ttlHours}h`, TOKEN_PURPOSE)
+  }
+
+  /**
+   * Vérifie la signature et l'expiration du token. Renvoie null si le token est invalide ou expiré.
+   */
+  resolve(token: string): TrackingTarget | null {
+    const payload = encryption.verifier.unsign<TrackingTokenPayload>(token, TOKEN_PURPOSE)
+    if (
+      !payload ||
+      typeof payload.order_id !== 'string' ||
+      !Number.isInteger(payload.waypoint_sequence)
+    ) {
+      return null
+    }
+    return { orderId: payload.order_id, waypointSequence: payload.waypoint_sequence }
+  }
+
+  /**
+   * Charge la commande d'un lien. Null si elle n'existe plus ou si le waypoint n'est pas une livraison.
+   */
+  async loadOrder(target: TrackingTarget): Promise<Order | null> {
+    const order = await Order.query()
+      .select(['id', 'company_id', 'driver_id', 'waypoints_summary', 'delivery_date_estimation'])
+      .where('id', target.orderId)
+      .preload('status_logs', (q) =>
+        q.select(['order_id', 'status', 'changed_at']).orderBy('changed_at', 'desc').limit(1)
+      )
+      .preload('company', (q) => q.select(['id', 'company_name']))
+      .preload('driver', (q) =>
+        q
+          .select(['id', 'user_id', 'current_location'])
+          .preload('user', (u) => u.select(['id', 'full_name', 'photo']))
+      )
+      .first()
+
+    const waypoint = order?.waypoints_summary?.[target.waypointSequence]
+    if (!order || !waypoint || waypoint.type !== 'delivery') return null
+    return order
+  }
+
+  /**
+   * Le livreur se dirige-t-il vers le waypoint du destinataire (prochain waypoint non finalisé) ?
+   */
+  isHeadingTo(order: Order, status: OrderStatus, waypointSequence: number): boolean {
+    if (!order.driver_id || !TRACKABLE_ORDER_STATUSES.includes(status)) return false
+    const nextIndex = (order.waypoints_summary ?? []).findIndex(
+      (wp) => !(wp.status && FINALIZED_WAYPOINT_STATUSES.includes(wp.status))
+    )
+    return nextIndex === waypointSequence
+  }
+
+  /**
+   * Vue publique d'une commande pour le destinataire d'un waypoint.
+   */
+  async buildPublicView(order: Order, waypointSequence: number) {
+    const waypoints = order.waypoints_summary ?? []
+    const waypoint = waypoints[waypointSequence]
+    const lastLog = order.status_logs[0]
+    const status = lastLog?.status ?? OrderStatus.PENDING
+    const headingToRecipient = this.isHeadingTo(order, status, waypointSequence)
+
+    let driverLocation: { latitude: number; longitude: number } | null = null
+    let etaSeconds: number | null = null
+    if (headingToRecipient && order.driver?.current_location) {
+      driverLocation = {
+        longitude: order.driver.current_location.coordinates[0],
+        latitude: order.driver.current_location.coordinates[1],
+      }
+      const eta = await etaService.getStored(order.id)
+      if (eta && eta.waypoint_sequence === waypointSequence) etaSeconds = eta.eta_seconds
+    }
+
+    return {
+      reference: order.id.slice(0, 8).toUpperCase(),
+      sender: order.company?.company_name ?? null,
+      status,
+      last_status_at: lastLog?.changed_at?.toISO() ?? null,
+      estimated_delivery_at: order.delivery_date_estimation?.toISO() ?? null,
+      stops_before: this.stopsBefore(waypoints, waypointSequence),
+      waypoint: {
+        sequence: waypointSequence,
+        name: waypoint.name ?? null,
+        address_text: waypoint.address_text ?? null,
+        status: waypoint.status ?? waypointStatus.PENDING,
+        confirmation_code: waypoint.confirmation_code, // Code du destinataire, à donner au livreur
+        time_window: waypoint.time_window ?? null,
+        cod_amount: waypoint.cod_amount ?? null, // Montant à régler au livreur (paiement à la livraison)
+        arrived_at: waypoint.start_at ?? null,
+        completed_at: waypoint.end_at ?? null,
+      },
+      driver: order.driver?.user
+        ? {
+            first_name: order.driver.user.full_name?.split(' ')[0] ?? null,
+            photo: order.driver.user.photo?.[0] ?? null,
+          }
+        : null,
+      heading_to_recipient: headingToRecipient,
+      driver_location: driverLocation,
+      eta_seconds: etaSeconds,
+    }
+  }
+
+  publicUrl(token: string): string {
+    const base = env.get('TRACKING_PUBLIC_BASE_URL')
+    return base ? `${base.replace(/\/$/, '')}/${token}` : `${PUBLIC_TRACKING_PATH}/${token}`
+  }
+
+  // Arrêts non finalisés restant avant celui du destinataire
+  private stopsBefore(waypoints: WaypointSummaryItem[], waypointSequence: number): number {
+    return waypoints
+      .slice(0, waypointSequence)
+      .filter((wp) => !(wp.status && FINALIZED_WAYPOINT_STATUSES.includes(wp.status))).length
+  }
+}
+
+export default new TrackingLinkService()
@@ -0,0 +1,173 @@
+// app/services/waypoint_sequence_optimizer.ts
+
+/**
+ * Matrice de coûts entre waypoints : matrix[i][j] = coût pour aller de i à j.
+ */
+export interface CostMatrix {
+  durations: number[][] // secondes
+  distances: number[][] // mètres
+}
+
+/**
+ * Contrainte de précédence : le waypoint `before` doit être visité avant `after`
+ * (ex: un pickup avant les livraisons de ses colis).
+ */
+export interface PrecedenceConstraint {
+  before: number
+  after: number
+}
+
+export interface SequenceCost {
+  duration_seconds: number
+  distance_meters: number
+}
+
+export interface SequenceOptimizationResult {
+  visit_order: number[] // Indices des waypoints d'entrée dans l'ordre de visite (le premier reste en tête)
+  original: SequenceCost
+  optimized: SequenceCost
+  improved: boolean
+}
+
+const MAX_IMPROVEMENT_PASSES = 50
+
+/**
+ * Heuristique TSP locale (chemin ouvert, départ fixé sur le waypoint 0) :
+ * - construction par plus proche voisin réalisable,
+ * - amélioration par déplacement de waypoint (relocate) et inversion de segment (2-opt),
+ * en rejetant tout mouvement qui viole une contrainte de précédence.
+ * Le coût optimisé est la durée ; la distance sert à départager.
+ */
+class WaypointSequenceOptimizer {
+  optimize(matrix: CostMatrix, constraints: PrecedenceConstraint[]): SequenceOptimizationResult {
+    const count = matrix.durations.length
+    const originalOrder = Array.from({ length: count }, (_, i) => i)
+    const original = this.sequenceCost(originalOrder, matrix)
+
+    if (count <= 2) {
+      return { visit_order: originalOrder, original, optimized: original, improved: false }
+    }
+
+    let best = this.nearestNeighbour(matrix, constraints) ?? originalOrder
+    // L'ordre du client est une solution réalisable : on part de la meilleure des deux
+    if (
+      this.compare(this.sequenceCost(originalOrder, matrix), this.sequenceCost(best, matrix)) < 0
+    ) {
+      best = originalOrder
+    }
+
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      const improved =
+        this.relocatePass(best, matrix, constraints) ?? this.twoOptPass(best, matrix, constraints)
+      if (!improved) break
+      best = improved
+    }
+
+    const optimized = this.sequenceCost(best, matrix)
+    const improvedOverOriginal = this.compare(optimized, original) < 0
+    return {
+      visit_order: improvedOverOriginal ? best : originalOrder,
+      original,
+      optimized: improvedOverOriginal ? optimized : original,
+      improved: improvedOverOriginal,
+    }
+  }
+
+  sequenceCost(order: number[], matrix: CostMatrix): SequenceCost {
+    let duration = 0
+    let distance = 0
+    for (let i = 0; i < order.length - 1; i++) {
+      duration += matrix.durations[order[i]][order[i + 1]]
+      distance += matrix.distances[order[i]][order[i + 1]]
+    }
+    return { duration_seconds: Math.round(duration), distance_meters: Math.round(distance) }
+  }
+
+  private nearestNeighbour(
+    matrix: CostMatrix,
+    constraints: PrecedenceConstraint[]
+  ): number[] | null {
+    const count = matrix.durations.length
+    const visited = new Set<number>([0])
+    const order = [0]
+
+    while (order.length < count) {
+      const current = order[order.length - 1]
+      let next: number | null = null
+      for (let candidate = 1; candidate < count; candidate++) {
+        if (visited.has(candidate)) continue
+        const ready = constraints.every((c) => c.after !== candidate || visited.has(c.before))
+        if (!ready) continue
+        if (
+          next === null ||
+          matrix.durations[current][candidate] < matrix.durations[current][next]
+        ) {
+          next = candidate
+        }
+      }
+      if (next === null) return null // Contraintes cycliques : pas de solution constructive
+      visited.add(next)
+      order.push(next)
+    }
+    return order
+  }
+
+  /**
+   * Déplace un waypoint à une autre position. Retourne le premier ordre strictement meilleur trouvé.
+   */
+  private relocatePass(
+    order: number[],
+    matrix: CostMatrix,
+    constraints: PrecedenceConstraint[]
+  ): number[] | null {
+    const currentCost = this.sequenceCost(order, matrix)
+    for (let from = 1; from < order.length; from++) {
+      for (let to = 1; to < order.length; to++) {
+        if (to === from) continue
+        const candidate = [...order]
+        const [moved] = candidate.splice(from, 1)
+        candidate.splice(to, 0, moved)
+        if (!this.isFeasible(candidate, constraints)) continue
+        if (this.compare(this.sequenceCost(candidate, matrix), currentCost) < 0) return candidate
+      }
+    }
+    return null
+  }
+
+  /**
+   * Inverse un segment de la tournée. Retourne le premier ordre strictement meilleur trouvé.
+   */
+  private twoOptPass(
+    order: number[],
+    matrix: CostMatrix,
+    constraints: PrecedenceConstraint[]
+  ): number[] | null {
+    const currentCost = this.sequenceCost(order, matrix)
+    for (let i = 1; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, k + 1).reverse(),
+          ...order.slice(k + 1),
+        ]
+        if (!this.isFeasible(candidate, constraints)) continue
+        if (this.compare(this.sequenceCost(candidate, matrix), currentCost) < 0) return candidate
+      }
+    }
+    return null
+  }
+
+  private isFeasible(order: number[], constraints: PrecedenceConstraint[]): boolean {
+    if (order[0] !== 0) return false
+    const position = new Map<number, number>()
+    order.forEach((waypointIndex, pos) => position.set(waypointIndex, pos))
+    return constraints.every((c) => position.get(c.before)! < position.get(c.after)!)
+  }
+
+  private compare(a: SequenceCost, b: SequenceCost): number {
+    if (a.duration_seconds !== b.duration_seconds) return a.duration_seconds - b.duration_seconds
+    return a.distance_meters - b.distance_meters
+  }
+}
+
+export default new WaypointSequenceOptimizer()
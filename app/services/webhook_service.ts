@@ -0,0 +1,455 @@
+// app/services/webhook_service.ts
+import { createHmac } from 'node:crypto'
+import { lookup as dnsLookup } from 'node:dns/promises'
+import type { LookupAddress, LookupOptions } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, isIP } from 'node:net'
+import axios from 'axios'
+import { DateTime } from 'luxon'
+import string from '@adonisjs/core/helpers/string'
+import { cuid } from '@adonisjs/core/helpers'
+import app from '@adonisjs/core/services/app'
+import db from '@adonisjs/lucid/services/db'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import Order, { OrderStatus } from '#models/order'
+import WebhookEndpoint, { type WebhookEvent } from '#models/webhook_endpoint'
+import WebhookDelivery, {
+  WebhookDeliveryStatus,
+  type WebhookAttempt,
+  type WebhookPayload,
+} from '#models/webhook_delivery'
+
+// --- Paramètres par défaut (surchargeables via .env) ---
+const DEFAULT_MAX_ATTEMPTS = 8
+const DEFAULT_RETRY_BASE_SECONDS = 30 // 30s, 1min, 2min, 4min... plafonné
+const MAX_RETRY_DELAY_SECONDS = 6 * 3600
+const DEFAULT_TIMEOUT_MS = 10_000
+const CLAIM_LEASE_SECONDS = 120 // Une livraison réservée n'est pas reprise par un autre worker avant ce délai
+const RESPONSE_BODY_MAX_LENGTH = 2000
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+// Adresses interdites aux webhooks : loopback, réseaux privés, lien local (dont les métadonnées
+// cloud 169.254.169.254) et CGNAT. Les règles IPv4 couvrent aussi leurs formes IPv6 mappées
+// (::ffff:a9fe:a9fe).
+const BLOCKED_ADDRESSES = new BlockList()
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8)
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8)
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10)
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8)
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16)
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12)
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16)
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6')
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6')
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6')
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6')
+
+// Statut de commande -> événement webhook (les autres statuts ne sont pas exposés)
+const STATUS_EVENTS: Partial<Record<OrderStatus, WebhookEvent>> = {
+  [OrderStatus.PENDING]: 'order.created',
+  [OrderStatus.ACCEPTED]: 'order.accepted',
+  [OrderStatus.AT_PICKUP]: 'order.at_pickup',
+  [OrderStatus.SUCCESS]: 'order.success',
+  [OrderStatus.FAILED]: 'order.failed',
+  [OrderStatus.CANCELLED]: 'order.cancelled',
+}
+
+// Événements qui n'arrivent qu'une fois par commande : clé de dédoublonnage commune à toutes les sources
+const ONCE_PER_ORDER_EVENTS: WebhookEvent[] = [
+  'order.created',
+  'order.success',
+  'order.failed',
+  'order.cancelled',
+]
+
+export interface WebhookEventInput {
+  companyId: string
+  event: WebhookEvent
+  orderId: string | null
+  data: Record<string, unknown>
+  idempotencyKey: string
+}
+
+class WebhookService {
+  // Agents des livraisons : l'adresse contrôlée est celle à laquelle la connexion est ouverte
+  // (un nom qui change de résolution entre le contrôle et l'envoi ne passe pas)
+  private readonly httpAgent = new http.Agent({ lookup: this.publicLookup.bind(this) })
+  private readonly httpsAgent = new https.Agent({ lookup: this.publicLookup.bind(this) })
+
+  get maxAttempts(): number {
+    return env.get('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS)
+  }
+
+  generateSecret(): string {
+    return `whsec_${string.generateRandom(32)}`
+  }
+
+  /**
+   * Refuse les URL non HTTPS (hors développement) et les hôtes locaux ou privés, y compris les noms
+   * de domaine qui se résolvent vers une adresse privée.
+   */
+  async validateUrl(rawUrl: string): Promise<string | null> {
+    let url: URL
+    try {
+      url = new URL(rawUrl)
+    } catch {
+      return 'URL invalide.'
+    }
+    if (url.protocol !== 'https:' && (app.inProduction || url.protocol !== 'http:')) {
+      return "L'URL du webhook doit utiliser HTTPS."
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+    if (
+      hostname === 'localhost' ||
+      hostname.endsWith('.localhost') ||
+      hostname.endsWith('.local')
+    ) {
+      return "L'URL du webhook ne peut pas pointer vers une adresse locale."
+    }
+    if (isIP(hostname)) {
+      return this.isPrivateIp(hostname)
+        ? "L'URL du webhook ne peut pas pointer vers une adresse privée."
+        : null
+    }
+
+    let addresses: LookupAddress[]
+    try {
+      addresses = await this.resolveHost(hostname)
+    } catch {
+      return "Le nom d'hôte de l'URL du webhook est introuvable."
+    }
+    if (addresses.some(({ address }) => this.isPrivateIp(address))) {
+      return "L'URL du webhook ne peut pas pointer vers une adresse privée."
+    }
+    return null
+  }
+
+  /**
+   * Adresses IP d'un nom d'hôte (résolution système, comme pour la connexion).
+   */
+  async resolveHost(hostname: string): Promise<LookupAddress[]> {
+    return dnsLookup(hostname, { all: true })
+  }
+
+  eventForStatus(status: OrderStatus): WebhookEvent | null {
+    return STATUS_EVENTS[status] ?? null
+  }
+
+  /**
+   * Clé de dédoublonnage d'un événement de commande. `occurrenceId` distingue les événements
+   * pouvant se répéter (ex: nouvelle acceptation après réassignation, chaque waypoint).
+   */
+  orderEventKey(event: WebhookEvent, orderId: string, occurrenceId: string | number): string {
+    return ONCE_PER_ORDER_EVENTS.includes(event)
+      ? `${event}:${orderId}`
+      : `${event}:${orderId}:${occurrenceId}`
+  }
+
+  /**
+   * Enregistre un événement de commande pour chaque endpoint actif de l'entreprise qui y est abonné.
+   */
+  async enqueueOrderEvent(
+    orderId: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+    occurrenceId: string | number,
+    companyId?: string
+  ): Promise<number> {
+    let resolvedCompanyId = companyId
+    if (!resolvedCompanyId) {
+      const order = await Order.query().select(['id', 'company_id']).where('id', orderId).first()
+      if (!order) return 0
+      resolvedCompanyId = order.company_id
+    }
+
+    return this.enqueue({
+      companyId: resolvedCompanyId,
+      event,
+      orderId,
+      data: { order_id: orderId, ...data },
+      idempotencyKey: this.orderEventKey(event, orderId, occurrenceId),
+    })
+  }
+
+  async enqueue(input: WebhookEventInput): Promise<number> {
+    const endpoints = await WebhookEndpoint.query()
+      .where('company_id', input.companyId)
+      .where('is_active', true)
+    const subscribed = endpoints.filter((endpoint) => endpoint.events.includes(input.event))
+    if (subscribed.length === 0) return 0
+
+    const now = DateTime.now()
+    const rows = subscribed.map((endpoint) => {
+      const id = cuid()
+      const payload: WebhookPayload = {
+        id,
+        event: input.event,
+        created_at: now.toISO()!,
+        data: input.data,
+      }
+      return {
+        id,
+        webhook_endpoint_id: endpoint.id,
+        company_id: input.companyId,
+        event: input.event,
+        order_id: input.orderId,
+        idempotency_key: input.idempotencyKey,
+        payload: JSON.stringify(payload),
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        next_attempt_at: now.toSQL(),
+        attempt_history: JSON.stringify([]),
+        created_at: now.toSQL(),
+        updated_at: now.toSQL(),
+      }
+    })
+
+    // Même événement reçu par l'émetteur et par le stream : une seule livraison par endpoint
+    const inserted = await db
+      .knexQuery()
+      .table('webhook_deliveries')
+      .insert(rows)
+      .onConflict(['webhook_endpoint_id', 'idempotency_key'])
+      .ignore()
+      .returning('id')
+    return inserted.length
+  }
+
+  /**
+   * Réserve les livraisons dues. La réservation repousse next_attempt_at le temps de l'envoi,
+   * pour qu'un autre worker ne les reprenne pas en parallèle.
+   */
+  async claimDueDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const trx = await db.transaction()
+    try {
+      const deliveries = await WebhookDelivery.query({ client: trx })
+        .where('status', WebhookDeliveryStatus.PENDING)
+        .where('next_attempt_at', '<=', DateTime.now().toSQL()!)
+        .orderBy('next_attempt_at', 'asc')
+        .limit(limit)
+        .forUpdate()
+        .skipLocked()
+
+      if (deliveries.length > 0) {
+        await WebhookDelivery.query({ client: trx })
+          .whereIn(
+            'id',
+            deliveries.map((delivery) => delivery.id)
+          )
+          .update({
+            next_attempt_at: DateTime.now().plus({ seconds: CLAIM_LEASE_SECONDS }).toSQL(),
+          })
+      }
+      await trx.commit()
+      return deliveries
+    } catch (error) {
+      await trx.rollback()
+      throw error
+    }
+  }
+
+  /**
+   * Envoie une livraison (signée HMAC) et enregistre le résultat de la tentative.
+   * En cas d'échec, la prochaine tentative est planifiée avec un backoff exponentiel.
+   */
+  async attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const endpoint = await WebhookEndpoint.find(delivery.webhook_endpoint_id)
+    if (!endpoint || !endpoint.is_active) {
+      delivery.status = WebhookDeliveryStatus.FAILED
+      delivery.next_attempt_at = null
+      delivery.error_message = 'Endpoint supprimé ou désactivé.'
+      await delivery.save()
+      return delivery
+    }
+
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(Date.now() / 1000)
+    const startedAt = Date.now()
+    let responseStatus: number | null = null
+    let responseBody: string | null = null
+    let errorMessage: string | null = null
+
+    try {
+      // Endpoints enregistrés avant le contrôle des résolutions DNS, ou IP littérale (sans résolution)
+      const urlError = await this.validateUrl(endpoint.url)
+      if (urlError) throw new Error(urlError)
+
+      const response = await axios.post(endpoint.url, body, {
+        timeout: env.get('WEBHOOK_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+        maxRedirects: 0,
+        httpAgent: this.httpAgent,
+        httpsAgent: this.httpsAgent,
+        responseType: 'text',
+        transformResponse: (data) => data, // Corps brut, pas de parsing JSON
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          [WEBHOOK_SIGNATURE_HEADER]: this.sign(endpoint.secret, timestamp, body),
+        },
+      })
+      responseStatus = response.status
+      responseBody = typeof response.data === 'string' ? response.data : null
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Réponse HTTP ${response.status}`
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error)
+    }
+
+    const durationMs = Date.now() - startedAt
+    const now = DateTime.now()
+    const attempt: WebhookAttempt = {
+      attempt: delivery.attempts + 1,
+      at: now.toISO()!,
+      response_status: responseStatus,
+      duration_ms: durationMs,
+      error: errorMessage,
+    }
+
+    delivery.attempts += 1
+    delivery.last_attempt_at = now
+    delivery.response_status = responseStatus
+    delivery.response_body = responseBody?.slice(0, RESPONSE_BODY_MAX_LENGTH) ?? null
+    delivery.error_message = errorMessage
+    delivery.duration_ms = durationMs
+    delivery.attempt_history = [...delivery.attempt_history, attempt]
+
+    if (!errorMessage) {
+      delivery.status = WebhookDeliveryStatus.SUCCEEDED
+      delivery.delivered_at = now
+      delivery.next_attempt_at = null
+      endpoint.consecutive_failures = 0
+      endpoint.last_success_at = now
+    } else if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = WebhookDeliveryStatus.FAILED
+      delivery.next_attempt_at = null
+      endpoint.consecutive_failures += 1
+      endpoint.last_failure_at = now
+      logger.warn(
+        { deliveryId: delivery.id, endpointId: endpoint.id, attempts: delivery.attempts },
+        'Livraison webhook abandonnée après épuisement des tentatives'
+      )
+    } else {
+      delivery.status = WebhookDeliveryStatus.PENDING
+      delivery.next_attempt_at = now.plus({ seconds: this.retryDelaySeconds(delivery.attempts) })
+      endpoint.last_failure_at = now
+    }
+
+    await delivery.save()
+    await endpoint.save()
+    return delivery
+  }
+
+  /**
+   * Renvoie une livraison existante : nouvelle livraison (nouvel id) avec les mêmes données.
+   */
+  async replay(original: WebhookDelivery): Promise<WebhookDelivery> {
+    const id = cuid()
+    return WebhookDelivery.create({
+      id,
+      webhook_endpoint_id: original.webhook_endpoint_id,
+      company_id: original.company_id,
+      event: original.event,
+      order_id: original.order_id,
+      idempotency_key: `replay:${original.id}:${id}`,
+      payload: { ...original.payload, id, created_at: DateTime.now().toISO()! },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      next_attempt_at: DateTime.now(),
+      attempt_history: [],
+      replay_of_id: original.id,
+    })
+  }
+
+  /**
+   * Envoie immédiatement un événement de test à l'endpoint (journalisé comme une livraison).
+   */
+  async sendTest(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+    const id = cuid()
+    const delivery = await WebhookDelivery.create({
+      id,
+      webhook_endpoint_id: endpoint.id,
+      company_id: endpoint.company_id,
+      event: 'webhook.test',
+      order_id: null,
+      idempotency_key: `test:${id}`,
+      payload: {
+        id,
+        event: 'webhook.test',
+        created_at: DateTime.now().toISO()!,
+        data: { message: 'Événement de test.', webhook_endpoint_id: endpoint.id },
+      },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      next_attempt_at: DateTime.now(),
+      attempt_history: [],
+    })
+
+    const result = await this.attemptDelivery(delivery)
+    // Un test en échec n'est pas retenté par le worker
+    if (result.status === WebhookDeliveryStatus.PENDING) {
+      result.status = WebhookDeliveryStatus.FAILED
+      result.next_attempt_at = null
+      await result.save()
+    }
+    return result
+  }
+
+  /**
+   * Signature : HMAC-SHA256 de "<timestamp>.<corps>" avec le secret de l'endpoint.
+   * Format de l'en-tête : t=<timestamp>,v1=<signature hex>.
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+    return `t=${timestamp},v1=${signature}`
+  }
+
+  /**
+   * Délai avant la tentative suivante : backoff exponentiel depuis la base, plafonné à 6 h.
+   */
+  retryDelaySeconds(attempts: number): number {
+    const base = env.get('WEBHOOK_RETRY_BASE_SECONDS', DEFAULT_RETRY_BASE_SECONDS)
+    const delay = Math.min(base * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS)
+    // Jitter de ±10% pour étaler les reprises
+    return Math.round(delay * (0.9 + Math.random() * 0.2))
+  }
+
+  private isPrivateIp(ip: string): boolean {
+    return BLOCKED_ADDRESSES.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4')
+  }
+
+  /**
+   * Résolution DNS des agents de livraison : refuse la connexion si une adresse est privée.
+   */
+  private publicLookup(
+    hostname: string,
+    options: LookupOptions,
+    callback: (
+      error: NodeJS.ErrnoException | null,
+      address: string | LookupAddress[],
+      family?: number
+    ) => void
+  ): void {
+    this.resolveHost(hostname)
+      .then((addresses) => {
+        const blocked = addresses.find(({ address }) => this.isPrivateIp(address))
+        if (blocked) {
+          callback(new Error(`Adresse ${blocked.address} refusée : réseau privé ou local.`), '')
+        } else if (options.all) {
+          callback(null, addresses)
+        } else {
+          callback(null, addresses[0].address, addresses[0].family)
+        }
+      })
+      .catch((error: NodeJS.ErrnoException) => callback(error, ''))
+  }
+}
+
+export default new WebhookService()
@@ -1,11 +1,42 @@
 // app/services/ws_service.ts
-import { Server } from 'socket.io'
+import { Server, type Namespace, type Socket } from 'socket.io'
+import { Secret } from '@adonisjs/core/helpers'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
 // Pas besoin d'Ignitor ici, on va utiliser directement le type de serveur de Node.js
 import type { Server as HttpServer } from 'node:http'
+import User from '#models/user'
+import type {
+  AdminServerEvents,
+  ClientEvents,
+  CompanyServerEvents,
+  DriverServerEvents,
+  SocketData,
+  SocketNamespace,
+} from '../contracts/socket_events.js'
+
+// Canal Redis des émissions : workers et autres instances passent par lui pour atteindre les sockets
+const DISPATCH_CHANNEL = 'ws:dispatch'
+
+type DriverNamespace = Namespace<ClientEvents, DriverServerEvents, {}, SocketData>
+type CompanyNamespace = Namespace<ClientEvents, CompanyServerEvents, {}, SocketData>
+type AdminNamespace = Namespace<ClientEvents, AdminServerEvents, {}, SocketData>
+
+interface DispatchMessage {
+  namespace: SocketNamespace
+  room: string
+  event: string
+  payload: unknown
+}
 
 class WsService {
   public io!: Server
   private booted = false
+  private namespaces!: {
+    drivers: DriverNamespace
+    companies: CompanyNamespace
+    admins: AdminNamespace
+  }
 
   // CORRECTION : On type explicitement l'argument comme un serveur HTTP de Node.js
   public boot(server: HttpServer) {
@@ -21,24 +52,154 @@ class WsService {
       },
     })
 
-    this.io.on('connection', (socket) => {
-      console.log('✅ Company connecté au socket:', socket.id)
+    // Le namespace par défaut n'est plus utilisé : chaque rôle a son namespace authentifié
+    this.io.use((_socket, next) => {
+      next(new Error('Utilisez le namespace /drivers, /companies ou /admins.'))
+    })
+
+    const drivers: DriverNamespace = this.io.of('/drivers')
+    drivers.use(async (socket, next) => {
+      try {
+        const { user } = await this.authenticate(socket)
+        await user.load('driver')
+        if (!user.driver) return next(new Error('Profil livreur introuvable.'))
+        socket.data = { user_id: user.id, driver_id: user.driver.id }
+        next()
+      } catch (error) {
+        next(error as Error)
+      }
+    })
+    drivers.on('connection', (socket) => {
+      socket.join(`driver_${socket.data.driver_id}`)
+      this.logConnection('drivers', socket)
+    })
+
+    const companies: CompanyNamespace = this.io.of('/companies')
+    companies.use(async (socket, next) => {
+      try {
+        const { user } = await this.authenticate(socket)
+        await user.load('company')
+        if (!user.company) {
+          return next(new Error('Utilisateur non associé à un compte entreprise.'))
+        }
+        socket.data = { user_id: user.id, company_id: user.company.id }
+        next()
+      } catch (error) {
+        next(error as Error)
+      }
+    })
+    companies.on('connection', (socket) => {
+      socket.join(`company_${socket.data.company_id}`)
+      this.logConnection('companies', socket)
+    })
 
-      socket.on('authenticate', (data) => {
-        if (data && data.driverId) {
-          console.log(`🔒 Authentification du livreur ${data.driverId} sur le socket ${socket.id}`)
-          socket.join(`driver_${data.driverId}`)
-          socket.emit('authenticated', { message: 'Authentification réussie' })
-        } else {
-          socket.emit('authentication_error', { message: 'driverId manquant' })
+    const admins: AdminNamespace = this.io.of('/admins')
+    admins.use(async (socket, next) => {
+      try {
+        const { user } = await this.authenticate(socket)
+        // Même rôle que les routes /platform (accordé via la commande users:platform-admin)
+        if (!user.is_platform_admin) {
+          return next(new Error('Accès réservé aux administrateurs de la plateforme.'))
         }
-      })
+        socket.data = { user_id: user.id }
+        next()
+      } catch (error) {
+        next(error as Error)
+      }
+    })
+    admins.on('connection', (socket) => {
+      socket.join('admins')
+      this.logConnection('admins', socket)
+    })
+
+    this.namespaces = { drivers, companies, admins }
+
+    // Chaque instance relaie aux sockets qui lui sont connectés
+    redis.subscribe(DISPATCH_CHANNEL, (message: string) => {
+      try {
+        const { namespace, room, event, payload } = JSON.parse(message) as DispatchMessage
+        // Le nom d'événement a été typé à l'émission (toDriver / toCompany / toAdmins)
+        ;(this.namespaces[namespace] as Namespace).to(room).emit(event, payload)
+      } catch (error) {
+        logger.error({ err: error }, 'WS: Message de diffusion illisible')
+      }
+    })
+  }
+
+  /**
+   * Émet vers la room privée d'un livreur (namespace /drivers).
+   */
+  async toDriver<E extends keyof DriverServerEvents>(
+    driverId: string,
+    event: E,
+    payload: Parameters<DriverServerEvents[E]>[0]
+  ) {
+    await this.dispatch({ namespace: 'drivers', room: `driver_${driverId}`, event, payload })
+  }
+
+  /**
+   * Émet vers les dispatchers d'une entreprise (namespace /companies).
+   */
+  async toCompany<E extends keyof CompanyServerEvents>(
+    companyId: string,
+    event: E,
+    payload: Parameters<CompanyServerEvents[E]>[0]
+  ) {
+    await this.dispatch({ namespace: 'companies', room: `company_${companyId}`, event, payload })
+  }
+
+  /**
+   * Émet vers les admins de la plateforme (namespace /admins).
+   */
+  async toAdmins<E extends keyof AdminServerEvents>(
+    event: E,
+    payload: Parameters<AdminServerEvents[E]>[0]
+  ) {
+    await this.dispatch({ namespace: 'admins', room: 'admins', event, payload })
+  }
+
+  // Passe toujours par Redis, même depuis l'instance qui porte le serveur (un seul chemin de diffusion)
+  private async dispatch(message: DispatchMessage) {
+    try {
+      await redis.publish(DISPATCH_CHANNEL, JSON.stringify(message))
+    } catch (error) {
+      logger.error(
+        { err: error, namespace: message.namespace, event: message.event },
+        'WS: Échec de publication'
+      )
+    }
+  }
+
+  /**
+   * Vérifie le token d'accès du handshake (`auth.token` ou header Authorization: Bearer).
+   */
+  private async authenticate(socket: Socket) {
+    const header = socket.handshake.headers.authorization
+    const raw: unknown =
+      socket.handshake.auth?.token ??
+      (header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined)
+    if (typeof raw !== 'string' || !raw) throw new Error('Token manquant.')
+
+    const token = await User.accessTokens.verify(new Secret(raw))
+    if (!token) throw new Error('Token invalide ou expiré.')
+
+    const user = await User.find(token.tokenableId)
+    if (!user) throw new Error('Utilisateur introuvable.')
+    return { user }
+  }
 
-      socket.on('disconnect', (reason) => {
-        console.log(`❌ Company déconnecté du socket ${socket.id}: ${reason}`)
-      })
+  private logConnection(
+    namespace: SocketNamespace,
+    socket: Socket<ClientEvents, any, {}, SocketData>
+  ) {
+    logger.info(
+      { socketId: socket.id, userId: socket.data.user_id },
+      `WS: Connecté au namespace /${namespace}`
+    )
+    socket.on('disconnect', (reason) => {
+      logger.info({ socketId: socket.id, reason }, `WS: Déconnecté du namespace /${namespace}`)
     })
   }
 }
 
-export default new WsService()
\ No newline at end of file
+export default new WsService()
@@ -0,0 +1,55 @@
+// app/validators/order.ts
+import vine from '@vinejs/vine'
+import { PackageMentionWarning } from '#models/package'
+
+const packageDimensionsValidator = vine.object({
+  weight_g: vine.number().positive(),
+  depth_cm: vine.number().positive().optional(),
+  width_cm: vine.number().positive().optional(),
+  height_cm: vine.number().positive().optional(),
+})
+
+const packageInfoValidator = vine.object({
+  name: vine.string().trim().minLength(1),
+  description: vine.string().trim().optional(),
+  dimensions: packageDimensionsValidator.optional(),
+  mention_warning: vine.enum(PackageMentionWarning).optional(),
+  quantity: vine.number().min(1).positive(),
+  // image_urls: vine.array(vine.string().url()).optional(), // Si tu gères les images
+})
+
+// Waypoint individuel (repris par les modèles de commandes récurrentes)
+export const waypointValidator = vine.object({
+  address_text: vine.string().trim().minLength(5).maxLength(255),
+  type: vine.enum(['pickup', 'delivery'] as const), // Important le 'as const' pour typer correctement
+  // Les informations sur le colis ne sont requises que si type === 'pickup'
+  // On ne peut pas faire de requiredWhen direct ici, la validation se fera en partie dans le contrôleur
+  package_infos: vine.array(packageInfoValidator).optional(), // Rendre optionnel ici
+  contact_name: vine.string().trim().optional(),
+  contact_phone: vine.string().trim().optional(), // Ajouter validation de format si besoin
+  note: vine.string().trim().optional(), // Note spécifique au waypoint
+  // Créneau de passage (dates ISO 8601) : créneau de collecte pour un pickup, de livraison pour une livraison
+  time_window: vine
+    .object({
+      start: vine.string().trim(),
+      end: vine.string().trim(),
+    })
+    .optional(),
+  // Paiement à la livraison : montant à encaisser auprès du destinataire (livraisons uniquement)
+  cod_amount: vine.number().withoutDecimals().positive().optional(),
+})
+
+export const createOrderWithWaypointsValidator = vine.compile(
+  vine.object({
+    waypoints: vine
+      .array(waypointValidator)
+      .minLength(2) // Au moins un pickup et une livraison
+      .bail(false), // Continue la validation même si un waypoint est invalide pour voir toutes les erreurs
+    priority: vine.enum(['low', 'medium', 'high'] as const).optional(), // Utilise OrderPriority enum
+    global_order_note: vine.string().trim().optional(),
+    delivery_date_request: vine.string().trim().optional(), // Livraison programmée : date ISO 8601 souhaitée pour le dernier arrêt
+    quote_token: vine.string().trim().optional(), // Jeton signé de POST /orders/quote : garantit le prix affiché
+    // Tu pourrais ajouter ici d'autres champs globaux pour la commande
+    // ex: requested_delivery_time_slot, etc.
+  })
+)
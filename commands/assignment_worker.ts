@@ -2,12 +2,14 @@
 import { BaseCommand } from '@adonisjs/core/ace'
 import type { CommandOptions } from '@adonisjs/core/types/ace'
 import redis from '@adonisjs/redis/services/main'
+import emitter from '@adonisjs/core/services/emitter'
 import logger from '@adonisjs/core/services/logger'
 import { DateTime } from 'luxon'
 import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
 import Order from '#models/order'
 import Driver from '#models/driver'
-import { OrderStatus } from '#models/order' // Assurez-vous que OrderStatus est bien défini
+import { OrderStatus, OrderPriority } from '#models/order' // Assurez-vous que OrderStatus est bien défini
 import DriversStatus, { DriverStatus } from '#models/drivers_status'
 import { VehicleStatus } from '#models/driver_vehicle'
 
@@ -18,6 +20,7 @@ import redisHelper, {
   type OfferRefusedData,
   type OfferAcceptedData,
   type OfferExpiredData,
+  type OfferRetractedData,
   type MissionCompletedData,
   type MissionCancelledData,
   type MissionFailedData,
@@ -30,6 +33,12 @@ import env from '#start/env'
 import { cuid } from '@adonisjs/core/helpers'
 import OrderStatusLog from '#models/order_status_log'
 import redis_helper from '#services/redis_helper'
+import driverScoringService from '#services/driver_scoring_service'
+import Company from '#models/company'
+import orderBatchingService from '#services/order_batching_service'
+import orderSchedulingService from '#services/order_scheduling_service'
+import clientPaymentService from '#services/client_payment_service'
+import driverAvailabilityChecker from '#services/driver_availability_checker'
 
 // --- Configuration ---
 const ASSIGNMENT_EVENTS_STREAM_KEY = env.get(
@@ -42,6 +51,9 @@ const MAX_ASSIGNMENT_ATTEMPTS = env.get('MAX_ASSIGNMENT_ATTEMPTS')
 const OFFER_DURATION_SECONDS = env.get('DRIVER_OFFER_DURATION_SECONDS')
 const DRIVER_SEARCH_RADIUS_KM = env.get('DRIVER_SEARCH_RADIUS_KM')
 const MAX_EVENTS_PER_POLL = env.get('MAX_EVENTS_PER_POLL')
+// Mode broadcast : nombre de livreurs sollicités simultanément et priorités concernées
+const BROADCAST_OFFER_SIZE = env.get('ASSIGNMENT_BROADCAST_SIZE', 3)
+const BROADCAST_PRIORITIES: OrderPriority[] = [OrderPriority.HIGH]
 
 // Type pour les messages parsés du stream Redis
 // On s'attend à ce que les champs correspondent aux propriétés de nos interfaces MissionEventData
@@ -140,7 +152,7 @@ export default class AssignmentWorker extends BaseCommand {
     driverId: string,
     orderId: string, // Pour le contexte dans les logs/metadata
     reason: string,
-    trx?: any// Optionnel si l'appelant gère déjà une transaction
+    trx?: TransactionClientContract // Optionnel si l'appelant gère déjà une transaction
   ): Promise<boolean> {
     const currentDriverStatusRecord = await DriversStatus.query({ client: trx }) // Utiliser la transaction si fournie
       .where('driver_id', driverId)
@@ -236,6 +248,10 @@ export default class AssignmentWorker extends BaseCommand {
         await this.handleOfferAccepted(eventData as OfferAcceptedData)
         break
 
+      case MissionLifecycleEvent.OFFER_RETRACTED:
+        await this.handleOfferRetracted(eventData as OfferRetractedData)
+        break
+
       case MissionLifecycleEvent.MANUALLY_ASSIGNED:
         // Dans RedisHelper, MissionManuallyAssignedData n'était pas exportée explicitement.
         // On va la typer ici directement si besoin, ou s'assurer qu'elle est exportée.
@@ -263,6 +279,13 @@ export default class AssignmentWorker extends BaseCommand {
     const { orderId, driverId: refusingDriverId, reason } = event;
     logger.info(`Driver ${refusingDriverId} REFUSED Order ${orderId}. Reason: ${reason || 'N/A'}`);
 
+    // Refus d'une offre broadcast : les autres livreurs sollicités peuvent encore accepter
+    const orderCheck = await Order.find(orderId)
+    if (orderCheck?.broadcast_offer?.driver_ids.includes(refusingDriverId)) {
+      await this.handleBroadcastRefusal(orderId, refusingDriverId)
+      return
+    }
+
     const trx = await db.transaction(); // Démarrer une transaction pour les opérations atomiques
     try {
       const offerCleaned = await this.clearCurrentOffer(orderId, refusingDriverId, false, trx); // Passer la transaction
@@ -308,6 +331,121 @@ export default class AssignmentWorker extends BaseCommand {
     }
   }
 
+  /**
+   * Un livreur refuse une offre broadcast.
+   * On relance une recherche seulement quand TOUS les livreurs sollicités ont refusé.
+   */
+  private async handleBroadcastRefusal(orderId: string, refusingDriverId: string) {
+    const trx = await db.transaction()
+    let exhaustedDriverIds: string[] | null = null
+    try {
+      const order = await Order.query({ client: trx }).where('id', orderId).forUpdate().first()
+      const offer = order?.broadcast_offer
+      if (!order || !offer || !offer.driver_ids.includes(refusingDriverId)) {
+        logger.warn(
+          { orderId, refusingDriverId },
+          'Broadcast refusal received but broadcast offer is no longer active.'
+        )
+        await trx.rollback()
+        return
+      }
+
+      const refusedDriverIds = Array.from(new Set([...offer.refused_driver_ids, refusingDriverId]))
+      order.broadcast_offer = { ...offer, refused_driver_ids: refusedDriverIds }
+      if (refusedDriverIds.length >= offer.driver_ids.length) {
+        exhaustedDriverIds = await this.closeBroadcastOffer(
+          order,
+          'broadcast_offer_refused_by_all',
+          trx
+        )
+      } else {
+        await order.useTransaction(trx).save()
+      }
+      await this.revertDriverToActiveStatus(
+        refusingDriverId,
+        orderId,
+        'broadcast_offer_refused',
+        trx
+      )
+      await trx.commit()
+    } catch (error) {
+      if (!trx.isCompleted) await trx.rollback()
+      logger.error(
+        { err: error, orderId, refusingDriverId },
+        'Error in handleBroadcastRefusal transaction.'
+      )
+      return
+    }
+
+    if (exhaustedDriverIds) {
+      logger.info(
+        { orderId, excluded: exhaustedDriverIds },
+        `All broadcast drivers refused Order ${orderId}. Searching again.`
+      )
+      await this.findAndOfferNextDriver(orderId, exhaustedDriverIds)
+    }
+  }
+
+  /**
+   * Une offre broadcast a expiré sans acceptation : on clôt l'offre et on relance une recherche
+   * en excluant tous les livreurs déjà sollicités.
+   */
+  private async handleBroadcastExpired(orderId: string) {
+    const trx = await db.transaction()
+    let excludedDriverIds: string[] = []
+    let shouldReassign = false
+    try {
+      const order = await Order.query({ client: trx })
+        .where('id', orderId)
+        .forUpdate()
+        .preload('status_logs', (q) => q.orderBy('changed_at', 'desc').limit(1))
+        .first()
+      if (!order || !order.broadcast_offer) {
+        await trx.rollback()
+        return
+      }
+      shouldReassign = order.status_logs[0]?.status === OrderStatus.PENDING && !order.driver_id
+      excludedDriverIds = await this.closeBroadcastOffer(order, 'broadcast_offer_expired', trx)
+      await trx.commit()
+    } catch (error) {
+      if (!trx.isCompleted) await trx.rollback()
+      logger.error({ err: error, orderId }, 'Error in handleBroadcastExpired transaction.')
+      return
+    }
+
+    logger.warn(
+      { orderId, excluded: excludedDriverIds },
+      `Broadcast offer EXPIRED for Order ${orderId}.`
+    )
+    if (shouldReassign) {
+      await this.findAndOfferNextDriver(orderId, excludedDriverIds)
+    }
+  }
+
+  /**
+   * Un autre livreur a remporté l'offre broadcast : le perdant redevient disponible.
+   */
+  private async handleOfferRetracted(event: OfferRetractedData) {
+    const { orderId, driverId, acceptedByDriverId } = event
+    logger.info(
+      `Broadcast offer for Order ${orderId} RETRACTED for Driver ${driverId} (accepted by ${acceptedByDriverId}).`
+    )
+
+    const trx = await db.transaction()
+    try {
+      await this.revertDriverToActiveStatus(
+        driverId,
+        orderId,
+        `offer_retracted_accepted_by_${acceptedByDriverId}`,
+        trx
+      )
+      await trx.commit()
+    } catch (error) {
+      await trx.rollback()
+      logger.error({ err: error, orderId, driverId }, 'Error in handleOfferRetracted transaction.')
+    }
+  }
+
   private async handleNewOrderReady(event: NewOrderReadyForAssignmentData) {
     const { orderId, initialAssignmentDetails_parsed } = event; // Utiliser le champ parsé
     logger.info({ orderId, details: initialAssignmentDetails_parsed }, `New order ${orderId} is ready for assignment. Initiating driver search.`);
@@ -323,7 +461,7 @@ export default class AssignmentWorker extends BaseCommand {
       logger.warn({ orderId }, `Order ${orderId} for NEW_ORDER_READY event not found. Skipping assignment.`);
       return;
     }
-    if (order.driver_id || order.offered_driver_id) {
+    if (order.driver_id || order.offered_driver_id || order.broadcast_offer) {
       logger.warn({ orderId, driverId: order.driver_id, offeredDriverId: order.offered_driver_id },
         `Order ${orderId} for NEW_ORDER_READY event is already assigned or has an offer. Skipping initial assignment attempt from event.`
       );
@@ -337,6 +475,35 @@ export default class AssignmentWorker extends BaseCommand {
       return;
     }
 
+    // Livraison programmée : l'Order Scheduler republiera l'événement à l'heure de remise
+    if (orderSchedulingService.isAwaitingRelease(order)) {
+      logger.info(
+        { orderId, releaseAt: order.scheduled_release_at?.toISO() },
+        `Order ${orderId} is scheduled. Waiting for the order scheduler.`
+      )
+      return
+    }
+
+    // Commande impayée sans crédit suffisant : remise en assignation à la confirmation du paiement
+    if (!(await clientPaymentService.canAssign(order))) {
+      logger.info(
+        { orderId, paymentStatus: order.payment_status },
+        `Order ${orderId} is awaiting client payment. Skipping assignment.`
+      )
+      return
+    }
+
+    // Batching actif : la commande attend le Batching Worker, qui republiera l'événement
+    // (avec batch_id si elle a été regroupée, ou batching_checked sinon)
+    if (
+      orderBatchingService.enabled &&
+      !initialAssignmentDetails_parsed?.batch_id &&
+      !initialAssignmentDetails_parsed?.batching_checked &&
+      orderBatchingService.isEligible(order)
+    ) {
+      logger.info({ orderId }, `Order ${orderId} deferred to batching worker.`)
+      return
+    }
 
     // Lancer la première tentative de recherche de chauffeur.
     // Le '1' pour attemptCount est géré à l'intérieur de findAndOfferNextDriver maintenant
@@ -368,6 +535,13 @@ export default class AssignmentWorker extends BaseCommand {
         return
       }
 
+      // L'API a déjà assigné le driver et nettoyé l'offre (cas normal, et toujours le cas en mode broadcast)
+      if (order.driver_id === driverId && !order.offered_driver_id && !order.broadcast_offer) {
+        await trx.rollback()
+        logger.info(`Order ${orderId} already finalized for driver ${driverId}. Nothing to clean.`)
+        return
+      }
+
       // Vérifier si l'acceptation correspond à l'offre active
       if (order.offered_driver_id !== driverId) {
         logger.error(
@@ -442,13 +616,25 @@ export default class AssignmentWorker extends BaseCommand {
       const order = await Order.query({ client: trx }).where('id', orderId).first();
       let driverToRevert: string | null = null;
 
+      if (order && order.broadcast_offer) {
+        await this.closeBroadcastOffer(order, `order_terminal_state_${type}`, trx)
+      }
+
       if (order && order.offered_driver_id) {
         driverToRevert = order.offered_driver_id;
-        const { cleaned } = await this.clearCurrentOffer(orderId, driverToRevert, true, trx); // forceClear = true
+        // Tournée groupée : seule cette commande sort de l'offre, les autres restent proposées au livreur
+        const { cleaned } = await this.clearCurrentOffer(orderId, driverToRevert, true, trx, false) // forceClear = true
         if (!cleaned) {
           // Devrait être rare ici si on a trouvé un offered_driver_id
           logger.warn({ orderId, driverToRevert }, "Terminal state: Offer was present but clearCurrentOffer reported no change.");
         }
+        if (order.batch_id) {
+          const stillOffered = await Order.query({ client: trx })
+            .where('batch_id', order.batch_id)
+            .where('offered_driver_id', driverToRevert)
+            .first()
+          if (stillOffered) driverToRevert = null
+        }
       }
 
       if (driverToRevert) {
@@ -484,6 +670,7 @@ export default class AssignmentWorker extends BaseCommand {
         .preload('status_logs', (q) => q.orderBy('changed_at', 'desc').limit(1)) // Pour vérifier statut PENDING
         .limit(50) // Limite pour ne pas surcharger
 
+      const processedBatchIds = new Set<string>()
       for (const order of expiredOrders) {
         if (!this.isRunning) break
         processedCount++
@@ -497,11 +684,17 @@ export default class AssignmentWorker extends BaseCommand {
           // Nettoyer l'offre quand même si elle est expirée et que la commande n'est plus PENDING ?
           // Probablement une bonne idée pour la cohérence des données.
           if (order.offered_driver_id) {
-            await this.clearCurrentOffer(order.id, order.offered_driver_id, true); // forceClear = true
+            await this.clearCurrentOffer(order.id, order.offered_driver_id, true, undefined, false) // forceClear = true
           }
           continue
         }
 
+        // Tournée groupée : un seul événement d'expiration par batch (il nettoie toutes ses commandes)
+        if (order.batch_id) {
+          if (processedBatchIds.has(order.batch_id)) continue
+          processedBatchIds.add(order.batch_id)
+        }
+
         const expiredDriverId = order.offered_driver_id! // Not null car vérifié dans la query
         logger.warn(
           `DB Scan: Offer for Order ${order.id} to Driver ${expiredDriverId} has expired at ${order.offer_expires_at?.toFormat('HH:mm:ss')}.`
@@ -514,6 +707,20 @@ export default class AssignmentWorker extends BaseCommand {
         // La logique de nettoyage de l'offre et de recherche du prochain driver
         // sera gérée par handleOfferExpired.
       }
+      // Offres broadcast expirées (offered_driver_id est null dans ce mode)
+      const expiredBroadcasts = await Order.query()
+        .select('id')
+        .whereNotNull('broadcast_offer')
+        .whereNotNull('offer_expires_at')
+        .where('offer_expires_at', '<', now.toISO())
+        .limit(50)
+
+      for (const broadcastOrder of expiredBroadcasts) {
+        if (!this.isRunning) break
+        processedCount++
+        await this.handleBroadcastExpired(broadcastOrder.id)
+      }
+
       if (processedCount > 0) {
         logger.info(`DB Scan: Found and processed ${processedCount} expired offer(s) by publishing expiration events.`)
       } else {
@@ -573,7 +780,14 @@ export default class AssignmentWorker extends BaseCommand {
     // Mettre à jour le compteur de tentatives sur la commande
     // Envisager une transaction si plusieurs mises à jour simultanées sont possibles
     if (currentAttempt <= MAX_ASSIGNMENT_ATTEMPTS) {
-      await Order.query().where('id', orderId).update({ assignment_attempt_count: currentAttempt });
+      // Tournée groupée : le compteur est partagé par toutes les commandes du batch
+      await Order.query()
+        .if(
+          orderForAttempts.batch_id,
+          (q) => q.where('batch_id', orderForAttempts.batch_id!),
+          (q) => q.where('id', orderId)
+        )
+        .update({ assignment_attempt_count: currentAttempt })
     }
 
 
@@ -609,15 +823,42 @@ export default class AssignmentWorker extends BaseCommand {
         logger.warn(`Order ${orderId} already has an active offer to ${order.offered_driver_id}. Aborting offer.`)
         await trx.rollback(); return;
       }
+      if (order.broadcast_offer) {
+        logger.warn(
+          `Order ${orderId} already has an active broadcast offer to [${order.broadcast_offer.driver_ids.join(', ')}]. Aborting offer.`
+        )
+        await trx.rollback()
+        return
+      }
       if (!order.pickup_address) {
         logger.error(`Order ${orderId} missing pickup address. Cannot find drivers.`)
         await trx.rollback(); return;
       }
 
+      // Tournée groupée : l'offre porte sur toutes les commandes encore en attente du batch
+      let offeredOrders: Order[] = [order]
+      if (order.batch_id) {
+        offeredOrders = await orderBatchingService.loadPendingBatchOrders(order.batch_id, trx)
+        if (offeredOrders.some((o) => o.offered_driver_id || o.broadcast_offer)) {
+          logger.warn(
+            `Batch ${order.batch_id} of Order ${orderId} already has an active offer. Aborting offer.`
+          )
+          await trx.rollback()
+          return
+        }
+        if (offeredOrders.length === 0) {
+          logger.warn(
+            `Batch ${order.batch_id} of Order ${orderId} has no pending order left. Aborting offer.`
+          )
+          await trx.rollback()
+          return
+        }
+      }
+      const leadOrder = offeredOrders[0]
+
 
       // ... (logique de recherche de driver, similaire à avant) ...
-      const totalWeightG = order.packages.reduce((sum, pkg) => sum + (pkg.dimensions?.weight_g || 0) * (pkg.quantity || 1), 0)
-      const pickupPoint = order.pickup_address.coordinates.coordinates
+      const pickupPoint = leadOrder.pickup_address.coordinates.coordinates as [number, number]
       const searchRadiusMeters = DRIVER_SEARCH_RADIUS_KM
       const nowMinus5Minutes = DateTime.now().minus({ minutes: 15 }).toISO() //TODO a diminuer a  5 minutes
       const ASSIGNMENT_MAX_CANDIDATES = 500
@@ -625,7 +866,7 @@ export default class AssignmentWorker extends BaseCommand {
       // Stratégie d'assignation: privilégier les drivers de l'entreprise
       // 1. D'abord chercher parmi les drivers de l'entreprise
       // 2. Si aucun trouvé, élargir à tous les drivers disponibles
-      let availableDrivers = await Driver.query({ client: trx })
+      const companyDrivers = await Driver.query({ client: trx })
         .select('drivers.*')
         .where('latest_status', DriverStatus.ACTIVE)
         .preload('vehicles', (vQuery) => vQuery.where('status', VehicleStatus.ACTIVE))
@@ -634,11 +875,12 @@ export default class AssignmentWorker extends BaseCommand {
         .whereNotIn('drivers.id', excludeDriverIds)
         .limit(ASSIGNMENT_MAX_CANDIDATES)
         .exec()
+      let availableDrivers = await this.filterByScheduledWindow(order, companyDrivers)
 
       // Si aucun driver de l'entreprise trouvé, chercher parmi tous les drivers disponibles
       if (availableDrivers.length === 0) {
         logger.info({ orderId, companyId: order.company_id }, 'No drivers found for company, searching all available drivers')
-        availableDrivers = await Driver.query({ client: trx })
+        const allDrivers = await Driver.query({ client: trx })
           .select('drivers.*')
           .where('latest_status', DriverStatus.ACTIVE)
           .preload('vehicles', (vQuery) => vQuery.where('status', VehicleStatus.ACTIVE))
@@ -646,6 +888,7 @@ export default class AssignmentWorker extends BaseCommand {
           .whereNotIn('drivers.id', excludeDriverIds)
           .limit(ASSIGNMENT_MAX_CANDIDATES)
           .exec()
+        availableDrivers = await this.filterByScheduledWindow(order, allDrivers)
       }
       logger.info({ orderId, count: availableDrivers.length, searchRadiusMeters, nowMinus5Minutes },
         `Found ${availableDrivers.length} potentially available drivers within ${searchRadiusMeters}m with location updated after ${nowMinus5Minutes}.`
@@ -655,84 +898,112 @@ export default class AssignmentWorker extends BaseCommand {
         logger.warn({ orderId, searchRadiusMeters, nowMinus5Minutes }, "No drivers found matching initial criteria (status, location freshness, radius).");
       }
 
-      const suitableDriver = availableDrivers.find(driver =>
-        driver.vehicles.length > 0
-        // && driver.vehicles.some(v => v.max_weight_kg === null || v.max_weight_kg * 1000 >= totalWeightG) // Comparer en grammes ou kg consistent
-        // TODO: Ajouter filtrage véhicule plus complexe ici si nécessaire
+      // Classement multi-critères (ETA, note, taux d'acceptation, véhicule, charge) avec les poids de l'entreprise
+      const company = await Company.find(order.company_id, { client: trx })
+      const rankedCandidates = await driverScoringService.rankCandidates(
+        availableDrivers,
+        pickupPoint,
+        offeredOrders.flatMap((o) => o.packages),
+        company?.assignment_weights
       )
 
-      logger.info({ suitableDriver }, 'Suitable driver found for Order')
-
-      if (suitableDriver) {
-
-
-        const previousDriverStatus = await DriversStatus.query({ client: trx }) // Récupérer le dernier statut pour assignments_in_progress_count
-          .where('driver_id', suitableDriver.id)
-          .orderBy('changed_at', 'desc')
-          .first();
-
-
+      // Mode broadcast (priorité HIGH) : offre simultanée aux K meilleurs candidats, le premier qui accepte gagne
+      // Une tournée groupée est toujours proposée à un seul livreur
+      const isBroadcast = !order.batch_id && BROADCAST_PRIORITIES.includes(order.priority)
+      const selectedCandidates = rankedCandidates.slice(0, isBroadcast ? BROADCAST_OFFER_SIZE : 1)
+      const bestCandidate = selectedCandidates[0]
 
+      logger.info(
+        {
+          orderId,
+          mode: isBroadcast ? 'broadcast' : 'single',
+          driverIds: selectedCandidates.map((c) => c.driver.id),
+          score: bestCandidate?.breakdown,
+        },
+        'Suitable driver(s) found for Order'
+      )
 
-        // const selectedDriver = suitableDriver
+      if (bestCandidate) {
         const offerExpiresAt = DateTime.now().plus({ seconds: OFFER_DURATION_SECONDS })
 
-        order.offered_driver_id = suitableDriver.id
-        order.offer_expires_at = offerExpiresAt
-        // `assignment_attempt_count` a déjà été mis à jour avant la transaction
-        await order.useTransaction(trx).save() // Sauvegarde via trx
-
-        await OrderStatusLog.create(
-          {
-            id: cuid(),
-            order_id: orderId,
-            status: OrderStatus.PENDING, // Statut devient PENDING
-            changed_at: DateTime.now(),
-            // changed_by_user_id: adminUser.id, // L'admin initie ce statut
-            metadata: { reason: 'assigned_by_assignment_worker', waypoint_sequence: -1, waypoint_status: undefined, waypoint_type: undefined, }, // Metadata indiquant l'origine
-            current_location: order.pickup_address.coordinates,
-          },
-          { client: trx }
-        )
-        await DriversStatus.create(
-          {
-            id: cuid(),
-            driver_id: suitableDriver.id,
-            status: DriverStatus.OFFERING, // <--- Mettre à jour le statut
-            changed_at: DateTime.now(),
-            assignments_in_progress_count: previousDriverStatus?.assignments_in_progress_count || 0,
-            metadata: { reason: `offered_order_${orderId} attempt: ${currentAttempt}` },
-          },
-          { client: trx }
-        );
-        await Driver.query({ client: trx }).where('id', suitableDriver.id).update({ latest_status: DriverStatus.OFFERING });
-
-        logger.info(
-          { orderId: order.id, driverId: suitableDriver.id, attempt: currentAttempt, expiresAt: offerExpiresAt.toISO() },
-          `Offering Order to Driver (Attempt ${currentAttempt})`
-        )
-
-        if (suitableDriver.fcm_token) {
-          const notifTitle = `Nouvelle Mission Proposée (Tent. ${currentAttempt})`
-          const notifBody = `Course #${order.id.substring(0, 6)}... Rém: ${order.remuneration} EUR. Exp: ${offerExpiresAt.toFormat('HH:mm:ss')}`
-          const notifData = {
-            order_id: order.id,
-            type: NotificationType.NEW_MISSION_OFFER, // Assurez-vous que ce type est bien géré
+        // Chaque commande (une seule hors tournée) reçoit l'offre et son propre log PENDING
+        for (const offeredOrder of offeredOrders) {
+          if (isBroadcast) {
+            offeredOrder.broadcast_offer = {
+              driver_ids: selectedCandidates.map((c) => c.driver.id),
+              refused_driver_ids: [],
+            }
+          } else {
+            offeredOrder.offered_driver_id = bestCandidate.driver.id
           }
-          await redisHelper.enqueuePushNotification({
-            fcmToken: suitableDriver.fcm_token,
-            title: notifTitle,
-            body: notifBody,
-            data: notifData,
-          })
-        } else {
-          logger.warn(`Driver ${suitableDriver.id} has no FCM token. Offer made but not notified via push.`)
+          offeredOrder.offer_expires_at = offerExpiresAt
+          // `assignment_attempt_count` a déjà été mis à jour avant la transaction
+          await offeredOrder.useTransaction(trx).save() // Sauvegarde via trx
+
+          await OrderStatusLog.create(
+            {
+              id: cuid(),
+              order_id: offeredOrder.id,
+              status: OrderStatus.PENDING, // Statut devient PENDING
+              changed_at: DateTime.now(),
+              // changed_by_user_id: adminUser.id, // L'admin initie ce statut
+              metadata: {
+                reason: order.batch_id
+                  ? 'batch_offered_by_assignment_worker'
+                  : isBroadcast
+                    ? 'broadcast_by_assignment_worker'
+                    : 'assigned_by_assignment_worker',
+                waypoint_sequence: -1,
+                waypoint_status: undefined,
+                waypoint_type: undefined,
+                assignment_score: bestCandidate.breakdown,
+                broadcast_scores: isBroadcast
+                  ? selectedCandidates.map((c) => c.breakdown)
+                  : undefined,
+                batch_id: order.batch_id ?? undefined,
+              }, // Metadata indiquant l'origine + détail du score
+              current_location: offeredOrder.pickup_address.coordinates,
+            },
+            { client: trx }
+          )
+        }
+
+        const batchInfo = order.batch_id
+          ? {
+              id: order.batch_id,
+              ordersCount: offeredOrders.length,
+              remuneration: offeredOrders.reduce((sum, o) => sum + (o.remuneration || 0), 0),
+            }
+          : undefined
+        for (const candidate of selectedCandidates) {
+          await this.markDriverAsOffered(
+            candidate.driver,
+            leadOrder,
+            currentAttempt,
+            offerExpiresAt,
+            isBroadcast,
+            trx,
+            batchInfo
+          )
         }
         // L'événement RedisHelper.publishNewMissionOffer n'est plus appelé ici, car l'offre est gérée en DB
         // et la notification est envoyée directement. Si un autre système doit savoir qu'une offre est active,
         // alors cet événement serait pertinent. Pour l'instant, on se base sur les champs DB.
 
         await trx.commit()
+
+        // Offre temps réel (namespace Socket.IO /drivers), une fois l'offre enregistrée
+        for (const candidate of selectedCandidates) {
+          await emitter.emit('driver:mission_offered', {
+            order_id: leadOrder.id,
+            driver_id: candidate.driver.id,
+            batch_id: batchInfo?.id ?? null,
+            broadcast: isBroadcast,
+            attempt: currentAttempt,
+            remuneration: batchInfo?.remuneration ?? leadOrder.remuneration,
+            expires_at: offerExpiresAt.toISO()!,
+          })
+        }
       } else {
         logger.warn(`No suitable driver found for Order ${orderId} in attempt #${currentAttempt}.`)
         await trx.rollback() // Rien n'a été modifié dans la transaction
@@ -749,6 +1020,99 @@ export default class AssignmentWorker extends BaseCommand {
     }
   }
 
+  /**
+   * Passe un livreur en OFFERING pour une commande et lui envoie la notification d'offre.
+   * Utilisé pour l'offre unique comme pour chaque livreur d'une offre broadcast.
+   */
+  private async markDriverAsOffered(
+    driver: Driver,
+    order: Order,
+    attempt: number,
+    offerExpiresAt: DateTime,
+    isBroadcast: boolean,
+    trx: TransactionClientContract,
+    batch?: { id: string; ordersCount: number; remuneration: number }
+  ) {
+    const previousDriverStatus = await DriversStatus.query({ client: trx }) // Récupérer le dernier statut pour assignments_in_progress_count
+      .where('driver_id', driver.id)
+      .orderBy('changed_at', 'desc')
+      .first()
+
+    await DriversStatus.create(
+      {
+        id: cuid(),
+        driver_id: driver.id,
+        status: DriverStatus.OFFERING, // <--- Mettre à jour le statut
+        changed_at: DateTime.now(),
+        assignments_in_progress_count: previousDriverStatus?.assignments_in_progress_count || 0,
+        metadata: {
+          reason: batch
+            ? `offered_batch_${batch.id} attempt: ${attempt}`
+            : `${isBroadcast ? 'broadcast_' : ''}offered_order_${order.id} attempt: ${attempt}`,
+        },
+      },
+      { client: trx }
+    )
+    await Driver.query({ client: trx })
+      .where('id', driver.id)
+      .update({ latest_status: DriverStatus.OFFERING })
+
+    logger.info(
+      {
+        orderId: order.id,
+        driverId: driver.id,
+        attempt,
+        broadcast: isBroadcast,
+        expiresAt: offerExpiresAt.toISO(),
+      },
+      `Offering Order to Driver (Attempt ${attempt})`
+    )
+
+    if (driver.fcm_token) {
+      const notifTitle = isBroadcast
+        ? `Mission urgente : premier arrivé, premier servi`
+        : batch
+          ? `Nouvelle Tournée de ${batch.ordersCount} courses (Tent. ${attempt})`
+          : `Nouvelle Mission Proposée (Tent. ${attempt})`
+      const notifBody = `Course #${order.id.substring(0, 6)}... Rém: ${batch?.remuneration ?? order.remuneration} EUR. Exp: ${offerExpiresAt.toFormat('HH:mm:ss')}`
+      const notifData = {
+        order_id: order.id,
+        batch_id: batch?.id,
+        broadcast: isBroadcast,
+        type: NotificationType.NEW_MISSION_OFFER, // Assurez-vous que ce type est bien géré
+      }
+      await redisHelper.enqueuePushNotification({
+        fcmToken: driver.fcm_token,
+        title: notifTitle,
+        body: notifBody,
+        data: notifData,
+      })
+    } else {
+      logger.warn(`Driver ${driver.id} has no FCM token. Offer made but not notified via push.`)
+    }
+  }
+
+  /**
+   * Livraison programmée : ne garde que les livreurs dont les règles de disponibilité couvrent
+   * le créneau de la mission (du premier arrêt à la fin estimée). Sans programmation, la liste est inchangée.
+   */
+  private async filterByScheduledWindow(order: Order, drivers: Driver[]): Promise<Driver[]> {
+    if (!order.scheduled_pickup_at) return drivers
+    const windowStart = order.scheduled_pickup_at
+    const windowEnd = order.delivery_date_estimation ?? windowStart
+    const covered: Driver[] = []
+    for (const driver of drivers) {
+      if (await driverAvailabilityChecker.isAvailableForWindow(driver.id, windowStart, windowEnd)) {
+        covered.push(driver)
+      }
+    }
+    logger.info(
+      { orderId: order.id, candidates: drivers.length, covered: covered.length },
+      `Scheduled order: ${covered.length}/${drivers.length} drivers cover the mission window.`
+    )
+    return covered
+  }
+
   /**
    * Gère l'escalade pour une commande non assignable.
    */
@@ -793,25 +1157,35 @@ export default class AssignmentWorker extends BaseCommand {
 
   /**
    * Nettoie une offre active pour une commande, typiquement après refus, expiration, ou acceptation.
+   * Pour une tournée groupée, l'offre est nettoyée sur toutes les commandes du batch proposées au même livreur.
    * @param orderId L'ID de la commande.
    * @param expectedDriverId L'ID du chauffeur qui était censé avoir l'offre (pour sécurité).
    * @param forceClear Si true, nettoie l'offre même si `expectedDriverId` ne correspond pas (utile si la commande n'est plus PENDING).
-   * @param trx La transaction DB existante
+   * @param trx La transaction DB de l'appelant (il reste responsable du commit). Sans transaction, une transaction locale est utilisée.
+   * @param wholeBatch Si false, seule cette commande est nettoyée même si elle fait partie d'une tournée.
    * @returns True si l'offre a été nettoyée, false sinon.
    */
-  private async clearCurrentOffer(orderId: string, expectedDriverId: string, forceClear: boolean = false, trx?: any): Promise<{ cleaned: boolean; driverIdWhoseOfferWasCleaned?: string }> {
+  private async clearCurrentOffer(
+    orderId: string,
+    expectedDriverId: string,
+    forceClear: boolean = false,
+    trx?: TransactionClientContract,
+    wholeBatch: boolean = true
+  ): Promise<{ cleaned: boolean; driverIdWhoseOfferWasCleaned?: string }> {
+    const localTrx = trx ? null : await db.transaction()
+    const client = trx ?? localTrx ?? undefined
     try {
-      const order = await Order.query({ client: trx }).where('id', orderId).first()
+      const order = await Order.query({ client }).where('id', orderId).first()
 
       if (!order) {
         logger.warn(`Order ${orderId} not found for clearing offer.`)
-        await trx.rollback();
+        if (localTrx) await localTrx.rollback()
         return { cleaned: false };
       }
 
       if (order.offered_driver_id === null) {
         // logger.trace(`Order ${orderId} had no active offer. No clearing needed.`);
-        await trx.rollback();
+        if (localTrx) await localTrx.rollback()
         return { cleaned: false }; // Pas d'offre à nettoyer, mais ce n'est pas un échec de nettoyage.
         // Retourner false car rien n'a été "nettoyé".
       }
@@ -822,29 +1196,64 @@ export default class AssignmentWorker extends BaseCommand {
           { orderId, offered: order.offered_driver_id, expected: expectedDriverId },
           `Attempted to clear offer for driver ${expectedDriverId}, but current offer is for ${order.offered_driver_id}. No change made.`
         )
-        await trx.rollback();
+        if (localTrx) await localTrx.rollback()
         return { cleaned: false };
       }
 
       // Si on est ici, soit forceClear est true, soit expectedDriverId correspond.
       logger.info(
-        { orderId, driverId: order.offered_driver_id, reason: forceClear ? "forced" : `match_expected (${expectedDriverId})` },
+        {
+          orderId,
+          batchId: order.batch_id,
+          driverId: order.offered_driver_id,
+          reason: forceClear ? 'forced' : `match_expected (${expectedDriverId})`,
+        },
         `Clearing active offer for order.`
       )
-      order.offered_driver_id = null
-      order.offer_expires_at = null
-      await order.save()
-      await trx.commit()
+      await Order.query({ client })
+        .if(
+          wholeBatch && order.batch_id,
+          (q) => q.where('batch_id', order.batch_id!),
+          (q) => q.where('id', orderId)
+        )
+        .where('offered_driver_id', driverIdWhoseOfferWasCleaned)
+        .update({ offered_driver_id: null, offer_expires_at: null })
+      if (localTrx) await localTrx.commit()
       return { cleaned: true, driverIdWhoseOfferWasCleaned }
 
     } catch (error) {
-      await trx.rollback()
+      if (localTrx && !localTrx.isCompleted) await localTrx.rollback()
       logger.error({ err: error, orderId, expectedDriverId }, 'Error during clearCurrentOffer.')
+      if (trx) throw error // L'appelant annule sa propre transaction
       return { cleaned: false }
     }
   }
 
 
+  /**
+   * Clôt une offre broadcast : vide les champs d'offre et remet en ACTIVE les livreurs
+   * sollicités qui n'ont pas encore répondu.
+   * @returns Les IDs de tous les livreurs sollicités (à exclure d'une nouvelle recherche).
+   */
+  private async closeBroadcastOffer(
+    order: Order,
+    reason: string,
+    trx: TransactionClientContract
+  ): Promise<string[]> {
+    const offer = order.broadcast_offer
+    if (!offer) return []
+
+    order.broadcast_offer = null
+    order.offer_expires_at = null
+    await order.useTransaction(trx).save()
+
+    const pendingDriverIds = offer.driver_ids.filter((id) => !offer.refused_driver_ids.includes(id))
+    for (const pendingDriverId of pendingDriverIds) {
+      await this.revertDriverToActiveStatus(pendingDriverId, order.id, reason, trx)
+    }
+    return offer.driver_ids
+  }
+
   private async gracefulShutdown(signal: string) {
     if (!this.isRunning) return; // Déjà en cours d'arrêt
     logger.info(`Received ${signal}. Attempting graceful shutdown of Assignment Worker...`);
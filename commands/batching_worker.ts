@@ -0,0 +1,128 @@
+// app/commands/batching_worker.ts
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import Order from '#models/order'
+import redis_helper from '#services/redis_helper'
+import orderBatchingService from '#services/order_batching_service'
+
+const SCAN_INTERVAL_MS = env.get('BATCHING_SCAN_INTERVAL_MS', 15_000)
+// Évite de republier NEW_ORDER_READY pour une commande déjà relâchée vers l'assignation individuelle
+const RELEASED_KEY_PREFIX = 'batching:released:'
+const RELEASED_KEY_TTL_SECONDS = 3600
+
+export default class BatchingWorker extends BaseCommand {
+  public static commandName = 'batching:worker'
+  public static description =
+    'Groups nearby PENDING orders into batches offered to a single driver.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Batching Worker shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    if (!orderBatchingService.enabled) {
+      logger.warn('BATCHING_ENABLED est désactivé. Le Batching Worker ne fait rien.')
+      return
+    }
+    logger.info(
+      `🚀 Batching Worker démarré. Scan toutes les ${SCAN_INTERVAL_MS}ms, fenêtre de ${orderBatchingService.timeWindowSeconds}s.`
+    )
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        await this.scan()
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant le scan de regroupement.')
+      }
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, SCAN_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Batching Worker stopped.')
+  }
+
+  private async scan() {
+    const orders = await orderBatchingService.findBatchableOrders()
+    if (orders.length === 0) {
+      logger.trace('Batching scan: aucune commande candidate.')
+      return
+    }
+
+    const now = DateTime.now()
+    const groups = orderBatchingService.groupOrders(orders)
+    let batchesCreated = 0
+    let ordersReleased = 0
+
+    for (const group of groups) {
+      if (!this.isRunning) break
+      // On laisse à d'autres commandes proches le temps d'arriver
+      if (!orderBatchingService.isGroupReady(group, now)) continue
+
+      if (group.length >= 2) {
+        const batch = await orderBatchingService.createBatch(group)
+        if (batch) {
+          batchesCreated++
+          await this.publishReady(batch.orders[0], { batch_id: batch.id })
+          continue
+        }
+        // Échec du calcul d'itinéraire : les commandes repartent individuellement
+      }
+
+      for (const order of group) {
+        if (await this.markReleased(order.id)) {
+          ordersReleased++
+          await this.publishReady(order, { batching_checked: true })
+        }
+      }
+    }
+
+    if (batchesCreated > 0 || ordersReleased > 0) {
+      logger.info(
+        `Batching scan: ${batchesCreated} tournée(s) créée(s), ${ordersReleased} commande(s) relâchée(s).`
+      )
+    }
+  }
+
+  private async markReleased(orderId: string): Promise<boolean> {
+    const result = await redis.set(
+      `${RELEASED_KEY_PREFIX}${orderId}`,
+      '1',
+      'EX',
+      RELEASED_KEY_TTL_SECONDS,
+      'NX'
+    )
+    return result === 'OK'
+  }
+
+  private async publishReady(
+    order: Order,
+    details: { batch_id?: string; batching_checked?: boolean }
+  ) {
+    try {
+      await redis_helper.publishNewOrderReadyForAssignment(order.id, {
+        initialRemuneration: order.remuneration,
+        ...details,
+      })
+    } catch (error) {
+      logger.error(
+        { err: error, orderId: order.id },
+        'Failed to publish NEW_ORDER_READY_FOR_ASSIGNMENT from batching worker.'
+      )
+    }
+  }
+}
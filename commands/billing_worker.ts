@@ -7,13 +7,11 @@ import db from '@adonisjs/lucid/services/db'
 import env from '#start/env'
 import { MissionLifecycleEvent, type MissionCompletedData } from '#services/redis_helper'
 import Order from '#models/order'
-import Driver from '#models/driver' // Import Driver
 import OrderTransaction, {
     OrderTransactionStatus,
     OrderTransactionType,
-    PaymentMethod, // Importer si PaymentService en a besoin directement
 } from '#models/order_transaction'
-import payment_service from '#services/payment_service'
+import driverWalletService from '#services/driver_wallet_service'
 import { DateTime } from 'luxon'
 
 type RedisStreamMessage = [string, string[]] // [messageId, [field1, value1, ...]]
@@ -30,7 +28,7 @@ const MAX_EVENTS_PER_POLL = env.get('BILLING_WORKER_MAX_EVENTS', 10)
 
 export default class BillingWorker extends BaseCommand {
     public static commandName = 'billing:worker'
-    public static description = 'Processes completed missions for driver payments.'
+    public static description = 'Credits completed missions to the driver wallet ledger.'
 
     private consumerName: string = `${WORKER_NAME_PREFIX}_${process.pid}_${Date.now().toString(36)}`
     private isRunning = true
@@ -162,76 +160,32 @@ export default class BillingWorker extends BaseCommand {
                 return
             }
 
-            // Récupérer le driver pour ses infos de paiement (mobile_money)
-            const driver = await Driver.query({ client: trx }).where('id', driverId).first()
-            if (!driver || !driver.mobile_money || driver.mobile_money.length === 0) {
-                logger.error({ ...logContext, driverId }, `Driver or driver payment methods not found. Cannot process payment. ACKing.`)
-                await trx.commit()
-                await redis.xack(ASSIGNMENT_EVENTS_STREAM_KEY, CONSUMER_GROUP_NAME, messageId)
-                return
-            }
-
-            // Sélectionner une méthode de paiement active du chauffeur
-            const activePaymentMethod = driver.mobile_money.find(pm => pm.status === 'active')!
-            if (!activePaymentMethod) {
-                logger.error({ ...logContext, driverId }, `Driver has no active payment methods. Cannot process payment. ACKing.`)
-                await trx.commit()
-                await redis.xack(ASSIGNMENT_EVENTS_STREAM_KEY, CONSUMER_GROUP_NAME, messageId)
-                return
-            }
-
-
-            // 3. Créer l'enregistrement OrderTransaction avec statut PENDING
+            // 3. Créer l'OrderTransaction de rémunération (créditée au portefeuille, donc SUCCESS)
             // Le company_id de la transaction est celui de l'entreprise qui a passé la commande
-            // On suppose que order.company_id est l'ID de l'entreprise.
-            // Si order.company est un modèle Company qui a un user_id: const orderInitiatorCompanyId = order.company.user_id;
-            // Pour l'instant, on suppose que order.company_id est l'ID de l'entreprise.
-            const orderInitiatorCompanyId = order.company_id;
-
-
+            // Le versement au livreur se fait ensuite à sa demande (retrait du portefeuille)
             orderTransaction = await OrderTransaction.create(
                 {
                     driver_id: driverId,
                     order_id: orderId,
-                    currency: order.currency, // Ou une devise par défaut pour les paiements chauffeurs
-                    company_id: orderInitiatorCompanyId, // L'ID de l'entreprise qui a initié la commande
+                    currency: order.currency,
+                    company_id: order.company_id, // L'ID de l'entreprise qui a initié la commande
                     type: OrderTransactionType.DRIVER_PAYMENT,
-                    payment_method: activePaymentMethod.number as PaymentMethod, // Ex: 'mtn', 'orange'
-                    amount: parseFloat(finalRemuneration as any), // S'assurer que c'est un nombre
-                    status: OrderTransactionStatus.PENDING,
-                    history_status: [{ status: OrderTransactionStatus.PENDING, timestamp: DateTime.now().toISO() }],
-                    // transaction_reference sera mis à jour par PaymentService
+                    payment_method: null,
+                    amount: Math.round(Number.parseFloat(finalRemuneration as any)), // Montants entiers (pas de centimes en CFA)
+                    status: OrderTransactionStatus.SUCCESS,
+                    payment_date: DateTime.now(),
+                    history_status: [{ status: OrderTransactionStatus.SUCCESS, timestamp: DateTime.now().toISO() }],
                 },
                 { client: trx }
             )
 
-            logger.info(
-                { ...logContext, transactionId: orderTransaction.id },
-                `OrderTransaction record created with PENDING status.`
-            )
-
-            // Tout est bon pour la création de la transaction, on commit.
+            // 4. Écritures du grand livre : charge plateforme -> portefeuille du livreur (même transaction)
+            await driverWalletService.recordEarning(trx, orderTransaction)
             await trx.commit()
 
-            // 4. Appeler PaymentService pour initier le paiement réel (en dehors de la transaction DB initiale)
-            // On passe l'ID de la transaction que PaymentService mettra à jour.
-            // Cette opération est asynchrone et ne bloque pas l'ACK du message Redis.
-            // La mise à jour du statut de la transaction (SUCCESS/FAILED) sera gérée par PaymentService
-            // (potentiellement via des webhooks ou un autre worker qui vérifie les statuts).
-            //@ts-ignore
-            payment_service.initiateDriverPayout(orderTransaction.id, activePaymentMethod, parseFloat(finalRemuneration as any))
-                .then(() => {
-                    logger.info({ transactionId: orderTransaction!.id }, "PaymentService.initiateDriverPayout called successfully (async).")
-                })
-                .catch(payoutError => {
-                    logger.error({ err: payoutError, transactionId: orderTransaction!.id }, "Error calling PaymentService.initiateDriverPayout (async). Transaction remains PENDING.")
-                    // Ici, la transaction est PENDING. Un mécanisme de retry/vérification pour les transactions PENDING est nécessaire.
-                })
-
-            // 5. ACK le message Redis car la transaction PENDING a été créée.
-            // Le succès ou l'échec du paiement réel est un processus séparé.
+            // 5. ACK le message Redis : la rémunération est comptabilisée
             await redis.xack(ASSIGNMENT_EVENTS_STREAM_KEY, CONSUMER_GROUP_NAME, messageId)
-            logger.info({ ...logContext, transactionId: orderTransaction.id }, `Successfully processed completed mission event and initiated payment flow. Message ACKed.`)
+            logger.info({ ...logContext, transactionId: orderTransaction.id }, `Mission earning credited to driver wallet. Message ACKed.`)
 
         } catch (error) {
             if (!trx.isCompleted) {
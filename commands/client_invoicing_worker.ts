@@ -0,0 +1,83 @@
+// app/commands/client_invoicing_worker.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import clientPaymentService from '#services/client_payment_service'
+
+const RUN_INTERVAL_MS = env.get('CLIENT_INVOICING_INTERVAL_MS', 3_600_000)
+const INVOICING_LOCK_PREFIX = 'billing:invoices:'
+
+export default class ClientInvoicingWorker extends BaseCommand {
+  public static commandName = 'billing:invoices'
+  public static description =
+    'Issues the monthly invoices of postpaid companies for the previous month.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.string({
+    description: 'Issue the invoices of this month (YYYY-MM) and exit.',
+  })
+  declare period: string | undefined
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Client Invoicing Worker shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    if (this.period) {
+      const month = DateTime.fromFormat(this.period, 'yyyy-MM')
+      if (!month.isValid) {
+        logger.error(`Période invalide : ${this.period} (attendu YYYY-MM).`)
+        this.exitCode = 1
+        return
+      }
+      const issued = await clientPaymentService.issueInvoices(month)
+      logger.info(`Facturation ${this.period} : ${issued} facture(s) émise(s).`)
+      return
+    }
+
+    logger.info(
+      `🚀 Client Invoicing Worker démarré. Facturation du mois précédent vérifiée toutes les ${RUN_INTERVAL_MS}ms.`
+    )
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        await this.issueInvoicesIfDue()
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant la facturation mensuelle.')
+      }
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, RUN_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Client Invoicing Worker stopped.')
+  }
+
+  // Factures du mois précédent, une seule fois par mois même avec plusieurs instances
+  private async issueInvoicesIfDue() {
+    const month = DateTime.now().minus({ months: 1 }).startOf('month')
+    const claimed = await redis.set(
+      `${INVOICING_LOCK_PREFIX}${month.toFormat('yyyy-MM')}`,
+      '1',
+      'EX',
+      62 * 24 * 3600,
+      'NX'
+    )
+    if (!claimed) return
+
+    const issued = await clientPaymentService.issueInvoices(month)
+    logger.info(`Facturation ${month.toFormat('yyyy-MM')} : ${issued} facture(s) émise(s).`)
+  }
+}
@@ -0,0 +1,56 @@
+// app/commands/cod_cash_deposit.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import Driver from '#models/driver'
+import cashOnDeliveryService from '#services/cash_on_delivery_service'
+
+/**
+ * Dépôt des espèces encaissées à la livraison par un livreur (agence, point relais), saisi par
+ * l'exploitation : la dette du livreur est soldée immédiatement.
+ */
+export default class CodCashDeposit extends BaseCommand {
+  public static commandName = 'cod:deposit'
+  public static description =
+    'Records a cash deposit by a driver against the cash collected on delivery.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.string({ description: 'Driver ID.', required: true })
+  declare driver: string
+
+  @flags.number({ description: 'Amount deposited.', required: true })
+  declare amount: number
+
+  @flags.string({ description: 'Reference of the deposit (receipt number).', required: true })
+  declare reference: string
+
+  async run() {
+    const driver = await Driver.find(this.driver)
+    if (!driver) {
+      logger.error(`Livreur ${this.driver} introuvable.`)
+      this.exitCode = 1
+      return
+    }
+    if (!Number.isInteger(this.amount) || this.amount <= 0) {
+      logger.error(`Montant invalide : ${this.amount}.`)
+      this.exitCode = 1
+      return
+    }
+
+    const summary = await cashOnDeliveryService.getDriverSummary(driver.id)
+    if (this.amount > summary.cash_due) {
+      logger.warn(
+        `Dépôt (${this.amount}) supérieur aux espèces dues (${summary.cash_due}) : l'excédent reste au crédit du livreur.`
+      )
+    }
+
+    const deposit = await cashOnDeliveryService.recordCashDeposit(
+      driver,
+      this.amount,
+      this.reference,
+      'ace:cod:deposit'
+    )
+    logger.info(`Dépôt de ${this.amount} enregistré pour ${driver.id} (transaction ${deposit.id}).`)
+  }
+}
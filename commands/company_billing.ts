@@ -0,0 +1,84 @@
+// app/commands/company_billing.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import Company from '#models/company'
+import clientPaymentService from '#services/client_payment_service'
+
+/**
+ * Opérations de facturation réservées à l'exploitation : limite de crédit, rechargement constaté
+ * hors passerelle (virement) et règlement de facture hors mobile money.
+ */
+export default class CompanyBilling extends BaseCommand {
+  public static commandName = 'billing:company'
+  public static description =
+    'Sets the credit limit of a company, records a manual top-up or marks an invoice as paid.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.string({ description: 'Company ID.', required: true })
+  declare company: string
+
+  @flags.string({ description: 'Credit limit granted to the company ("none" to remove it).' })
+  declare creditLimit: string | undefined
+
+  @flags.number({ description: 'Amount credited to the prepaid balance (manual top-up).' })
+  declare topUp: number | undefined
+
+  @flags.string({ description: 'Reference of the manual top-up (bank transfer, receipt).' })
+  declare reference: string | undefined
+
+  @flags.string({ description: 'ID of an invoice settled outside mobile money.' })
+  declare invoicePaid: string | undefined
+
+  async run() {
+    const company = await Company.find(this.company)
+    if (!company) {
+      logger.error(`Entreprise ${this.company} introuvable.`)
+      this.exitCode = 1
+      return
+    }
+
+    if (this.creditLimit !== undefined) {
+      const limit = this.creditLimit === 'none' ? null : Number(this.creditLimit)
+      if (limit !== null && (!Number.isInteger(limit) || limit < 0)) {
+        logger.error(`Limite de crédit invalide : ${this.creditLimit}.`)
+        this.exitCode = 1
+        return
+      }
+      company.credit_limit = limit
+      await company.save()
+      logger.info(`Limite de crédit de ${company.id} : ${limit ?? 'aucune'}.`)
+    }
+
+    if (this.topUp !== undefined) {
+      if (!Number.isInteger(this.topUp) || this.topUp <= 0 || !this.reference) {
+        logger.error('Rechargement : montant entier positif et --reference requis.')
+        this.exitCode = 1
+        return
+      }
+      const transaction = await clientPaymentService.recordManualTopUp(
+        company,
+        this.topUp,
+        this.reference,
+        'ace:billing:company'
+      )
+      logger.info(
+        `Solde de ${company.id} crédité de ${this.topUp} (transaction ${transaction.id}).`
+      )
+    }
+
+    if (this.invoicePaid) {
+      const invoice = await clientPaymentService.markInvoicePaid(
+        this.invoicePaid,
+        'ace:billing:company'
+      )
+      if (!invoice || invoice.company_id !== company.id) {
+        logger.error(`Facture ${this.invoicePaid} introuvable pour ${company.id}.`)
+        this.exitCode = 1
+        return
+      }
+      logger.info(`Facture ${invoice.id} : ${invoice.status}.`)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// app/commands/location_retention.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import locationRetentionService from '#services/location_retention_service'
+
+const RUN_INTERVAL_MS = env.get('LOCATION_RETENTION_INTERVAL_MS', 6 * 60 * 60 * 1000)
+
+export default class LocationRetention extends BaseCommand {
+  public static commandName = 'location:retention'
+  public static description =
+    'Creates upcoming driver location partitions, downsamples old points and archives expired ones.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.boolean({
+    description: 'Run a single retention pass and exit (cron).',
+  })
+  declare once: boolean
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Location Retention shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    logger.info(
+      `🚀 Location Retention démarré. Sous-échantillonnage après ${locationRetentionService.downsampleAfterDays}j, archivage après ${locationRetentionService.retentionDays}j vers ${locationRetentionService.archiveDir}.`
+    )
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        const report = await locationRetentionService.run()
+        logger.info(
+          `Rétention: ${report.partitions_created.length} partition(s) créée(s), ${report.downsampled_points_deleted} point(s) sous-échantillonné(s) sur ${report.downsampled_days} jour(s), ${report.archived_points} point(s) archivé(s) dans ${report.archived_files.length} fichier(s), ${report.partitions_dropped.length} partition(s) supprimée(s).`
+        )
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant la rétention des positions livreurs.')
+        if (this.once) this.exitCode = 1
+      }
+      if (this.once) break
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, RUN_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Location Retention stopped.')
+  }
+}
@@ -0,0 +1,694 @@
+// app/commands/mock_payment_gateway.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import { cuid } from '@adonisjs/core/helpers'
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { createHmac, randomInt } from 'node:crypto'
+import env from '#start/env'
+import { PaymentMethod } from '#models/order_transaction'
+
+type MockStatus = 'PENDING' | 'SUCCESS' | 'FAILED'
+type MockKind = 'payout' | 'collection'
+
+interface MockOperation {
+  id: string // Identifiant côté passerelle
+  provider: PaymentMethod
+  kind: MockKind // Versement vers l'abonné ou collecte auprès de l'abonné
+  reference: string // Référence fournie par l'appelant (X-Reference-Id MTN, sinon notre ID)
+  externalId: string // Notre ID de transaction
+  amount: number
+  currency: string
+  msisdn: string
+  status: MockStatus
+  reason: string | null
+  callbackUrl: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface MockConfig {
+  delayMs: number // Latence ajoutée à chaque appel API
+  failureRate: number // Part des opérations refusées par l'opérateur ou le payeur (statut FAILED)
+  errorRate: number // Part des appels de paiement en 503, sans exécution
+  timeoutRate: number // Part des paiements exécutés mais sans réponse (délai dépassé côté client)
+  async: boolean // Réponse PENDING, statut final par callback après callbackDelayMs
+  callbackDelayMs: number
+  callbackUrl: string // Base de l'API qui reçoit les webhooks si la requête n'en fournit pas
+  callbacks: boolean
+  duplicateCallbacks: boolean // Chaque webhook envoyé deux fois (test du dédoublonnage)
+}
+
+const CALLBACK_ATTEMPTS = 3
+const CALLBACK_TIMEOUT_MS = 5000
+
+// Représentation du statut propre à chaque opérateur
+const STATUS_LABELS: Record<PaymentMethod, Record<MockStatus, string>> = {
+  [PaymentMethod.MTN]: { PENDING: 'PENDING', SUCCESS: 'SUCCESSFUL', FAILED: 'FAILED' },
+  [PaymentMethod.ORANGE]: { PENDING: 'PENDING', SUCCESS: 'SUCCESS', FAILED: 'FAILED' },
+  [PaymentMethod.WAVE]: { PENDING: 'processing', SUCCESS: 'succeeded', FAILED: 'failed' },
+  [PaymentMethod.MOOV]: { PENDING: 'PENDING', SUCCESS: 'SUCCESS', FAILED: 'FAILED' },
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+export default class MockPaymentGateway extends BaseCommand {
+  public static commandName = 'payments:mock-gateway'
+  public static description =
+    'Starts a local HTTP server mimicking the MTN, Orange, Wave and Moov payout and collection APIs (delays, failures, timeouts, webhooks).'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.number({ description: 'Listening port.', default: 4010 })
+  declare port: number
+
+  @flags.number({ description: 'Latency added to every API call (ms).', default: 300 })
+  declare delay: number
+
+  @flags.number({
+    description: 'Share of operations failed by the operator or payer (0-1).',
+    default: 0,
+  })
+  declare failureRate: number
+
+  @flags.number({
+    description: 'Share of operation calls answered 503 without execution (0-1).',
+    default: 0,
+  })
+  declare errorRate: number
+
+  @flags.number({
+    description: 'Share of operations executed but never answered (0-1).',
+    default: 0,
+  })
+  declare timeoutRate: number
+
+  @flags.boolean({ description: 'Answer PENDING and settle operations later through webhooks.' })
+  declare async: boolean
+
+  @flags.number({ description: 'Delay before settling and notifying (ms).', default: 3000 })
+  declare callbackDelay: number
+
+  @flags.string({
+    description: 'API base URL receiving webhooks when the request carries none.',
+    default: 'http://localhost:3333',
+  })
+  declare callbackUrl: string
+
+  @flags.boolean({
+    description: 'Send webhooks (--no-callbacks to rely on reconciliation only).',
+    default: true,
+    showNegatedVariantInHelp: true,
+  })
+  declare callbacks: boolean
+
+  @flags.boolean({ description: 'Send every webhook twice.' })
+  declare duplicateCallbacks: boolean
+
+  private config!: MockConfig
+  private operations = new Map<string, MockOperation>()
+  private timers = new Set<NodeJS.Timeout>()
+
+  async run() {
+    this.config = {
+      delayMs: this.delay,
+      failureRate: this.failureRate,
+      errorRate: this.errorRate,
+      timeoutRate: this.timeoutRate,
+      async: this.async ?? false,
+      callbackDelayMs: this.callbackDelay,
+      callbackUrl: this.callbackUrl,
+      callbacks: this.callbacks,
+      duplicateCallbacks: this.duplicateCallbacks ?? false,
+    }
+
+    for (const provider of Object.values(PaymentMethod)) {
+      if (!this.webhookSecret(provider)) {
+        logger.warn(
+          `Secret webhook ${provider} absent : ses notifications seront refusées par l'API.`
+        )
+      }
+    }
+
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        logger.error({ err: error }, '🚨 Erreur du serveur de simulation.')
+        if (!response.headersSent) this.json(response, 500, { message: 'Mock internal error' })
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(this.port, resolve))
+    logger.info(
+      { config: this.config },
+      `🚀 Passerelle de paiement simulée sur le port ${this.port}.`
+    )
+
+    await new Promise<void>((resolve) => {
+      const shutdown = (signal: string) => {
+        logger.info(`Received ${signal}. Mock payment gateway shutting down...`)
+        for (const timer of this.timers) clearTimeout(timer)
+        this.timers.clear()
+        server.closeAllConnections()
+        server.close(() => resolve())
+      }
+      process.once('SIGINT', () => shutdown('SIGINT'))
+      process.once('SIGTERM', () => shutdown('SIGTERM'))
+    })
+    logger.info('👋 Mock payment gateway stopped.')
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    const method = request.method ?? 'GET'
+    const rawBody = await this.readBody(request)
+    let body: Record<string, any> = {}
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {}
+    } catch {
+      return this.json(response, 400, { message: 'Invalid JSON' })
+    }
+
+    // Pilotage de la simulation
+    if (url.pathname.startsWith('/__mock/')) {
+      return this.handleControl(method, url, body, response)
+    }
+
+    const route = this.matchRoute(method, url.pathname)
+    if (!route) return this.json(response, 404, { message: 'Unknown endpoint' })
+
+    await this.sleep(this.config.delayMs)
+    try {
+      if (route.action === 'create') {
+        return await this.createOperation(route.provider, route.kind, request, body, response)
+      }
+      if (route.action === 'list') {
+        return this.json(response, 200, this.listOperations(route.provider, route.kind, url))
+      }
+      const operation = this.findOperation(route.provider, route.kind, route.reference!)
+      if (!operation) return this.json(response, 404, { message: 'Transaction not found' })
+      return this.json(response, 200, this.present(operation))
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return this.json(response, error.status, { message: error.message })
+      }
+      throw error
+    }
+  }
+
+  private matchRoute(
+    method: string,
+    pathname: string
+  ): {
+    provider: PaymentMethod
+    kind: MockKind
+    action: 'create' | 'show' | 'list'
+    reference?: string
+  } | null {
+    const routes: [PaymentMethod, MockKind, string][] = [
+      [PaymentMethod.MTN, 'payout', '/disbursement/v1_0/transfer'],
+      [PaymentMethod.MTN, 'collection', '/collection/v1_0/requesttopay'],
+      [PaymentMethod.ORANGE, 'payout', '/cashin'],
+      [PaymentMethod.ORANGE, 'collection', '/payment'],
+      [PaymentMethod.WAVE, 'payout', '/v1/payout'],
+      [PaymentMethod.WAVE, 'collection', '/v1/checkout/sessions'],
+      [PaymentMethod.MOOV, 'payout', '/api/v1/transfers'],
+      [PaymentMethod.MOOV, 'collection', '/api/v1/collections'],
+    ]
+    for (const [provider, kind, base] of routes) {
+      if (pathname === base) {
+        if (method === 'POST') return { provider, kind, action: 'create' }
+        if (method === 'GET' && provider === PaymentMethod.MOOV) {
+          return { provider, kind, action: 'list' }
+        }
+        return null
+      }
+      if (method === 'GET' && pathname.startsWith(`${base}/`)) {
+        return {
+          provider,
+          kind,
+          action: 'show',
+          reference: decodeURIComponent(pathname.slice(base.length + 1)),
+        }
+      }
+    }
+    return null
+  }
+
+  private async createOperation(
+    provider: PaymentMethod,
+    kind: MockKind,
+    request: IncomingMessage,
+    body: Record<string, any>,
+    response: ServerResponse
+  ) {
+    const input = this.readRequest(provider, kind, request, body)
+
+    // Idempotence : une même référence renvoie l'opération existante
+    const existing = this.findOperation(provider, kind, input.reference)
+    if (existing) {
+      if (provider === PaymentMethod.MTN) {
+        return this.json(response, 409, { code: 'RESOURCE_ALREADY_EXIST' })
+      }
+      return this.json(response, 200, this.present(existing))
+    }
+
+    if (Math.random() < this.config.errorRate) {
+      logger.warn({ provider, reference: input.reference }, 'Simulation : erreur 503.')
+      return this.json(response, 503, { code: 'SERVICE_UNAVAILABLE' })
+    }
+
+    const now = new Date()
+    const operation: MockOperation = {
+      id: this.gatewayId(provider),
+      provider,
+      kind,
+      ...input,
+      status: 'PENDING',
+      reason: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.operations.set(operation.id, operation)
+    const outcome: MockStatus = Math.random() < this.config.failureRate ? 'FAILED' : 'SUCCESS'
+    const timedOut = Math.random() < this.config.timeoutRate
+    logger.info(
+      { provider, kind, id: operation.id, reference: operation.reference, outcome, timedOut },
+      'Simulation : opération reçue.'
+    )
+
+    // MTN répond toujours 202 : le statut final est obtenu par callback ou consultation
+    if (this.config.async || timedOut || provider === PaymentMethod.MTN) {
+      this.schedule(this.config.callbackDelayMs, () => this.settle(operation, outcome))
+    } else {
+      // Réponse synchrone avec le statut final, webhook envoyé ensuite
+      this.settle(operation, outcome, undefined, this.config.callbackDelayMs)
+    }
+
+    if (timedOut) {
+      // Opération exécutée, réponse jamais envoyée : le client abandonne sur son délai
+      return
+    }
+    if (provider === PaymentMethod.MTN) {
+      response.writeHead(202).end()
+      return
+    }
+    return this.json(response, 201, this.present(operation))
+  }
+
+  // Lecture de la requête de versement ou de collecte au format de chaque opérateur
+  private readRequest(
+    provider: PaymentMethod,
+    kind: MockKind,
+    request: IncomingMessage,
+    body: Record<string, any>
+  ): Pick<
+    MockOperation,
+    'reference' | 'externalId' | 'amount' | 'currency' | 'msisdn' | 'callbackUrl'
+  > {
+    switch (provider) {
+      case PaymentMethod.MTN: {
+        const reference = this.header(request, 'x-reference-id')
+        const party = kind === 'collection' ? 'payer' : 'payee'
+        if (!reference || !body.externalId || !body[party]?.partyId) {
+          throw new HttpError(400, `X-Reference-Id, externalId and ${party}.partyId are required`)
+        }
+        return {
+          reference,
+          externalId: String(body.externalId),
+          amount: Number(body.amount),
+          currency: String(body.currency ?? 'XOF'),
+          msisdn: String(body[party].partyId),
+          callbackUrl: this.header(request, 'x-callback-url') ?? null,
+        }
+      }
+      case PaymentMethod.ORANGE:
+        if (!body.order_id || !body.msisdn)
+          throw new HttpError(400, 'order_id and msisdn are required')
+        return {
+          reference: String(body.order_id),
+          externalId: String(body.order_id),
+          amount: Number(body.amount),
+          currency: String(body.currency ?? 'XOF'),
+          msisdn: String(body.msisdn),
+          callbackUrl: body.notif_url ?? null,
+        }
+      case PaymentMethod.WAVE: {
+        const reference = body.client_reference ?? this.header(request, 'idempotency-key')
+        if (kind === 'collection') {
+          // Session de paiement : le numéro du payeur est facultatif chez Wave
+          if (!reference || !body.amount)
+            throw new HttpError(400, 'client_reference and amount are required')
+          return {
+            reference: String(reference),
+            externalId: String(reference),
+            amount: Number(body.amount),
+            currency: String(body.currency ?? 'XOF'),
+            msisdn: String(body.restrict_payer_mobile ?? ''),
+            callbackUrl: null,
+          }
+        }
+        if (!reference || !body.mobile)
+          throw new HttpError(400, 'client_reference and mobile are required')
+        return {
+          reference: String(reference),
+          externalId: String(reference),
+          amount: Number(body.receive_amount),
+          currency: String(body.currency ?? 'XOF'),
+          msisdn: String(body.mobile),
+          callbackUrl: null,
+        }
+      }
+      case PaymentMethod.MOOV:
+        if (!body.reference || !body.msisdn)
+          throw new HttpError(400, 'reference and msisdn are required')
+        return {
+          reference: String(body.reference),
+          externalId: String(body.reference),
+          amount: Number(body.amount),
+          currency: String(body.currency ?? 'XOF'),
+          msisdn: String(body.msisdn),
+          callbackUrl: body.callback_url ?? null,
+        }
+    }
+  }
+
+  private settle(operation: MockOperation, status: MockStatus, reason?: string, notifyDelayMs = 0) {
+    if (operation.status !== 'PENDING') return
+    operation.status = status
+    operation.reason = status === 'FAILED' ? (reason ?? 'Simulated operator failure') : null
+    operation.updatedAt = new Date()
+    logger.info(
+      { provider: operation.provider, kind: operation.kind, id: operation.id, status },
+      'Simulation : opération finalisée.'
+    )
+    if (this.config.callbacks) {
+      this.schedule(notifyDelayMs, () => this.notify(operation))
+    }
+  }
+
+  // Réponse de consultation, au format de chaque opérateur
+  private present(operation: MockOperation): Record<string, any> {
+    const status = STATUS_LABELS[operation.provider][operation.status]
+    switch (operation.provider) {
+      case PaymentMethod.MTN:
+        return {
+          amount: String(operation.amount),
+          currency: operation.currency,
+          financialTransactionId: operation.id,
+          externalId: operation.externalId,
+          [operation.kind === 'collection' ? 'payer' : 'payee']: {
+            partyIdType: 'MSISDN',
+            partyId: operation.msisdn,
+          },
+          status,
+          ...(operation.reason ? { reason: operation.reason } : {}),
+        }
+      case PaymentMethod.ORANGE:
+        return {
+          txnid: operation.id,
+          order_id: operation.externalId,
+          amount: operation.amount,
+          status,
+          message: operation.reason ?? status,
+        }
+      case PaymentMethod.WAVE:
+        if (operation.kind === 'collection') {
+          return {
+            id: operation.id,
+            client_reference: operation.externalId,
+            amount: String(operation.amount),
+            currency: operation.currency,
+            checkout_status: operation.status === 'PENDING' ? 'open' : 'complete',
+            payment_status: status,
+            wave_launch_url: `https://pay.wave.com/c/${operation.id}`,
+            when_created: operation.createdAt.toISOString(),
+          }
+        }
+        return {
+          id: operation.id,
+          client_reference: operation.externalId,
+          currency: operation.currency,
+          receive_amount: String(operation.amount),
+          mobile: operation.msisdn,
+          status,
+          ...(operation.reason ? { payout_error: { error_code: 'simulated-failure' } } : {}),
+          timestamp: operation.createdAt.toISOString(),
+        }
+      case PaymentMethod.MOOV:
+        return {
+          transaction_id: operation.id,
+          reference: operation.externalId,
+          amount: operation.amount,
+          currency: operation.currency,
+          msisdn: operation.msisdn,
+          status,
+          message: operation.reason ?? status,
+          created_at: operation.createdAt.toISOString(),
+        }
+    }
+  }
+
+  // Webhook signé comme le ferait l'opérateur (même secret que celui vérifié par l'API)
+  private async notify(operation: MockOperation) {
+    if (operation.status === 'PENDING') return
+    const status = STATUS_LABELS[operation.provider][operation.status]
+    const secret = this.webhookSecret(operation.provider) ?? ''
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    let payload: Record<string, any>
+
+    switch (operation.provider) {
+      case PaymentMethod.MTN:
+        payload = this.present(operation)
+        break
+      case PaymentMethod.ORANGE:
+        payload = { notif_token: cuid(), ...this.present(operation) }
+        break
+      case PaymentMethod.WAVE:
+        payload = {
+          id: `EV_${cuid()}`,
+          type:
+            operation.kind === 'collection'
+              ? operation.status === 'SUCCESS'
+                ? 'checkout.session.completed'
+                : 'checkout.session.payment_failed'
+              : operation.status === 'SUCCESS'
+                ? 'payout.succeeded'
+                : 'payout.failed',
+          data: { ...this.present(operation), amount: String(operation.amount) },
+        }
+        break
+      case PaymentMethod.MOOV:
+        payload = { event_id: cuid(), ...this.present(operation) }
+        break
+    }
+
+    const rawBody = JSON.stringify(payload)
+    const hmac = (data: string) => createHmac('sha256', secret).update(data).digest('hex')
+    switch (operation.provider) {
+      case PaymentMethod.MTN:
+        headers['X-Mtn-Signature'] = hmac(rawBody)
+        break
+      case PaymentMethod.ORANGE:
+        headers['X-Orange-Signature'] = hmac(rawBody)
+        break
+      case PaymentMethod.WAVE: {
+        const timestamp = String(Math.floor(Date.now() / 1000))
+        headers['Wave-Signature'] = `t=${timestamp},v1=${hmac(`${timestamp}${rawBody}`)}`
+        break
+      }
+      case PaymentMethod.MOOV:
+        headers['X-Moov-Signature'] = hmac(rawBody)
+        break
+    }
+
+    const url =
+      operation.callbackUrl ??
+      `${this.config.callbackUrl.replace(/\/+$/, '')}/payments/webhooks/${operation.provider}`
+    const deliveries = this.config.duplicateCallbacks ? 2 : 1
+    for (let delivery = 0; delivery < deliveries; delivery++) {
+      await this.deliver(url, headers, rawBody, operation, status)
+    }
+  }
+
+  // Comme les opérateurs : nouvel envoi tant que l'API ne répond pas 2xx
+  private async deliver(
+    url: string,
+    headers: Record<string, string>,
+    rawBody: string,
+    operation: MockOperation,
+    status: string
+  ) {
+    for (let attempt = 1; attempt <= CALLBACK_ATTEMPTS; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: rawBody,
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        })
+        logger.info(
+          {
+            provider: operation.provider,
+            id: operation.id,
+            status,
+            httpStatus: response.status,
+            attempt,
+          },
+          'Simulation : webhook envoyé.'
+        )
+        if (response.ok) return
+      } catch (error) {
+        logger.warn(
+          { err: error, provider: operation.provider, id: operation.id, attempt },
+          'Simulation : webhook non délivré.'
+        )
+      }
+      await this.sleep(1000 * attempt)
+    }
+  }
+
+  private listOperations(provider: PaymentMethod, kind: MockKind, url: URL) {
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+    const page = Math.max(1, Number(url.searchParams.get('page') ?? 1))
+    const perPage = Math.max(1, Number(url.searchParams.get('per_page') ?? 100))
+    const items = [...this.operations.values()].filter(
+      (operation) =>
+        operation.provider === provider &&
+        operation.kind === kind &&
+        (!from || operation.createdAt >= new Date(from)) &&
+        (!to || operation.createdAt <= new Date(to))
+    )
+    return {
+      data: items.slice((page - 1) * perPage, page * perPage).map((item) => this.present(item)),
+      has_more: page * perPage < items.length,
+    }
+  }
+
+  private handleControl(
+    method: string,
+    url: URL,
+    body: Record<string, any>,
+    response: ServerResponse
+  ) {
+    if (url.pathname === '/__mock/config') {
+      if (method === 'POST') {
+        // Seules les clés connues de la configuration sont reprises du corps
+        const update: Partial<MockConfig> = Object.fromEntries(
+          (Object.keys(this.config) as (keyof MockConfig)[])
+            .filter((key) => body[key] !== undefined)
+            .map((key) => [key, body[key]])
+        )
+        Object.assign(this.config, update)
+        logger.info({ config: this.config }, 'Simulation : configuration mise à jour.')
+      }
+      return this.json(response, 200, this.config)
+    }
+    if (url.pathname === '/__mock/operations' && method === 'GET') {
+      return this.json(response, 200, [...this.operations.values()])
+    }
+    if (url.pathname === '/__mock/reset' && method === 'POST') {
+      this.operations.clear()
+      return this.json(response, 200, { reset: true })
+    }
+    // Issue forcée d'une opération en attente : POST /__mock/operations/:id/settle { status, reason }
+    const settleMatch = url.pathname.match(/^\/__mock\/operations\/([^/]+)\/settle$/)
+    if (settleMatch && method === 'POST') {
+      const operation = [...this.operations.values()].find(
+        (item) => item.id === settleMatch[1] || item.reference === settleMatch[1]
+      )
+      if (!operation) return this.json(response, 404, { message: 'Operation not found' })
+      if (!['SUCCESS', 'FAILED'].includes(body.status)) {
+        return this.json(response, 400, { message: 'status must be SUCCESS or FAILED' })
+      }
+      this.settle(operation, body.status, body.reason)
+      return this.json(response, 200, operation)
+    }
+    return this.json(response, 404, { message: 'Unknown control endpoint' })
+  }
+
+  private findOperation(
+    provider: PaymentMethod,
+    kind: MockKind,
+    reference: string
+  ): MockOperation | undefined {
+    for (const operation of this.operations.values()) {
+      if (
+        operation.provider === provider &&
+        operation.kind === kind &&
+        (operation.id === reference ||
+          operation.reference === reference ||
+          operation.externalId === reference)
+      ) {
+        return operation
+      }
+    }
+    return undefined
+  }
+
+  private gatewayId(provider: PaymentMethod): string {
+    switch (provider) {
+      case PaymentMethod.MTN:
+        return `${Date.now()}${randomInt(1000, 9999)}`
+      case PaymentMethod.ORANGE:
+        return `MP${Date.now()}.${randomInt(1000, 9999)}`
+      case PaymentMethod.WAVE:
+        return `pt-${cuid()}`
+      case PaymentMethod.MOOV:
+        return `MOOV${Date.now()}${randomInt(100, 999)}`
+    }
+  }
+
+  private webhookSecret(provider: PaymentMethod): string | undefined {
+    switch (provider) {
+      case PaymentMethod.MTN:
+        return env.get('PAYMENT_WEBHOOK_SECRET_MTN')
+      case PaymentMethod.ORANGE:
+        return env.get('PAYMENT_WEBHOOK_SECRET_ORANGE')
+      case PaymentMethod.WAVE:
+        return env.get('PAYMENT_WEBHOOK_SECRET_WAVE')
+      case PaymentMethod.MOOV:
+        return env.get('PAYMENT_WEBHOOK_SECRET_MOOV')
+    }
+  }
+
+  private schedule(delayMs: number, task: () => void | Promise<void>) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer)
+      Promise.resolve(task()).catch((error) =>
+        logger.error({ err: error }, '🚨 Erreur tâche différée de la simulation.')
+      )
+    }, delayMs)
+    this.timers.add(timer)
+  }
+
+  private sleep(ms: number) {
+    return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve()
+  }
+
+  private header(request: IncomingMessage, name: string): string | undefined {
+    const value = request.headers[name]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  private readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      request.on('data', (chunk: Buffer) => chunks.push(chunk))
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+      request.on('error', reject)
+    })
+  }
+
+  private json(response: ServerResponse, status: number, payload: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(payload))
+  }
+}
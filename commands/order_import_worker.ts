@@ -0,0 +1,58 @@
+// app/commands/order_import_worker.ts
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import orderImportService from '#services/order_import_service'
+
+const POLL_INTERVAL_MS = env.get('ORDER_IMPORT_POLL_INTERVAL_MS', 5000)
+
+export default class OrderImportWorker extends BaseCommand {
+  public static commandName = 'orders:import-worker'
+  public static description =
+    'Validates uploaded CSV/XLSX order imports and creates the orders in transactional chunks.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Order Import Worker shutting down after current import...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    logger.info(`🚀 Order Import Worker démarré. Poll toutes les ${POLL_INTERVAL_MS}ms.`)
+    this.registerShutdownHandler()
+
+    try {
+      await orderImportService.recoverInterrupted()
+    } catch (error) {
+      logger.error({ err: error }, '🚨 Erreur lors de la reprise des imports interrompus.')
+    }
+
+    while (this.isRunning) {
+      let processed = false
+      try {
+        const orderImport = await orderImportService.claimNext()
+        if (orderImport) {
+          processed = true
+          logger.info({ importId: orderImport.id }, 'Traitement import de commandes...')
+          await orderImportService.process(orderImport)
+        }
+      } catch (error) {
+        logger.error({ err: error }, "🚨 Erreur pendant le traitement d'un import de commandes.")
+      }
+      // Enchaîne directement sur l'import suivant s'il y en avait un
+      if (this.isRunning && !processed) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Order Import Worker stopped.')
+  }
+}
@@ -0,0 +1,91 @@
+// app/commands/order_scheduler.ts
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import redis_helper from '#services/redis_helper'
+import orderSchedulingService from '#services/order_scheduling_service'
+
+const SCAN_INTERVAL_MS = env.get('SCHEDULER_SCAN_INTERVAL_MS', 30_000)
+
+export default class OrderScheduler extends BaseCommand {
+  public static commandName = 'orders:scheduler'
+  public static description =
+    'Releases scheduled orders for assignment at their lead time and alerts on missed time windows.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Order Scheduler shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    logger.info(`🚀 Order Scheduler démarré. Scan toutes les ${SCAN_INTERVAL_MS}ms.`)
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        await this.releaseDueOrders()
+      } catch (error) {
+        logger.error(
+          { err: error },
+          '🚨 Erreur pendant la remise en assignation des commandes programmées.'
+        )
+      }
+      try {
+        const alerts = await orderSchedulingService.alertMissedWindows()
+        if (alerts > 0) {
+          logger.warn(`Scheduler: ${alerts} créneau(x) manqué(s) signalé(s).`)
+        }
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant la détection des créneaux manqués.')
+      }
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, SCAN_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Order Scheduler stopped.')
+  }
+
+  private async releaseDueOrders() {
+    const orders = await orderSchedulingService.findDueOrders()
+    let released = 0
+
+    for (const order of orders) {
+      if (!this.isRunning) break
+      if (!(await orderSchedulingService.markReleased(order.id))) continue
+
+      const totalWeightG = order.packages.reduce(
+        (sum, pkg) => sum + (pkg.dimensions?.weight_g || 0) * (pkg.quantity || 1),
+        0
+      )
+      const messageId = await redis_helper.publishNewOrderReadyForAssignment(order.id, {
+        pickupCoordinates: order.pickup_address?.coordinates?.coordinates as [number, number],
+        totalWeightG,
+        initialRemuneration: order.remuneration,
+      })
+      if (messageId) {
+        released++
+      } else {
+        // Événement non publié : la commande sera reprise au prochain scan
+        logger.error(
+          { orderId: order.id },
+          'Failed to publish NEW_ORDER_READY_FOR_ASSIGNMENT from order scheduler.'
+        )
+        await orderSchedulingService.revertRelease(order.id)
+      }
+    }
+
+    if (released > 0) {
+      logger.info(`Scheduler: ${released} commande(s) programmée(s) remise(s) en assignation.`)
+    }
+  }
+}
@@ -0,0 +1,96 @@
+// app/commands/payment_reconciliation_worker.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import paymentReconciliationService from '#services/payment_reconciliation_service'
+
+const RUN_INTERVAL_MS = env.get('PAYMENT_RECONCILIATION_INTERVAL_MS', 60_000)
+const REPORT_HOUR = env.get('PAYMENT_RECONCILIATION_REPORT_HOUR', 2) // Rapport de la veille à partir de cette heure
+const REPORT_LOCK_PREFIX = 'payments:reconciliation:report:'
+
+export default class PaymentReconciliationWorker extends BaseCommand {
+  public static commandName = 'payments:reconcile'
+  public static description =
+    'Checks stale PENDING payment transactions with the gateways and builds the daily reconciliation report.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.string({
+    description: 'Build the reconciliation report for this day (YYYY-MM-DD) and exit.',
+  })
+  declare report: string | undefined
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Payment Reconciliation Worker shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    if (this.report) {
+      const day = DateTime.fromISO(this.report)
+      if (!day.isValid) {
+        logger.error(`Date de rapport invalide : ${this.report} (attendu YYYY-MM-DD).`)
+        this.exitCode = 1
+        return
+      }
+      const report = await paymentReconciliationService.generateDailyReport(day)
+      logger.info(
+        `Rapport de rapprochement du ${report.report_date.toISODate()} : ${report.transactions_checked} transaction(s), ${report.mismatch_count} écart(s).`
+      )
+      return
+    }
+
+    logger.info(
+      `🚀 Payment Reconciliation Worker démarré. Vérification toutes les ${RUN_INTERVAL_MS}ms des transactions PENDING depuis plus de ${paymentReconciliationService.pendingThresholdMinutes} min.`
+    )
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        const { checked, resolved } = await paymentReconciliationService.reconcilePending()
+        if (checked > 0) {
+          logger.info(
+            `Rapprochement: ${checked} transaction(s) vérifiée(s), ${resolved} finalisée(s).`
+          )
+        }
+        await this.generateReportIfDue()
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant le rapprochement des paiements.')
+      }
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, RUN_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Payment Reconciliation Worker stopped.')
+  }
+
+  // Rapport de la veille, une seule fois par jour même avec plusieurs instances
+  private async generateReportIfDue() {
+    const now = DateTime.now()
+    if (now.hour < REPORT_HOUR) return
+    const day = now.minus({ days: 1 }).startOf('day')
+    const claimed = await redis.set(
+      `${REPORT_LOCK_PREFIX}${day.toISODate()}`,
+      '1',
+      'EX',
+      2 * 24 * 3600,
+      'NX'
+    )
+    if (!claimed) return
+
+    const report = await paymentReconciliationService.generateDailyReport(day)
+    logger.info(
+      `Rapport de rapprochement du ${day.toISODate()} : ${report.transactions_checked} transaction(s), ${report.mismatch_count} écart(s).`
+    )
+  }
+}
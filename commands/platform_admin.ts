@@ -0,0 +1,37 @@
+// app/commands/platform_admin.ts
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import User from '#models/user'
+
+/**
+ * Accorde ou retire le rôle d'administrateur de la plateforme à un utilisateur.
+ * Aucun endpoint HTTP ne permet de le faire : le rôle reste sous le contrôle de l'exploitation.
+ */
+export default class PlatformAdmin extends BaseCommand {
+  public static commandName = 'users:platform-admin'
+  public static description = 'Grants (or revokes) the platform administrator role to a user.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  @flags.string({ description: 'Email of the user.', required: true })
+  declare email: string
+
+  @flags.boolean({ description: 'Revoke the role instead of granting it.' })
+  declare revoke: boolean
+
+  async run() {
+    const user = await User.findBy('email', this.email)
+    if (!user) {
+      logger.error(`Utilisateur ${this.email} introuvable.`)
+      this.exitCode = 1
+      return
+    }
+
+    user.is_platform_admin = !this.revoke
+    await user.save()
+    logger.info(
+      `${user.email} : administrateur de la plateforme ${user.is_platform_admin ? 'accordé' : 'retiré'}.`
+    )
+  }
+}
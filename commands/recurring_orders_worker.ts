@@ -0,0 +1,81 @@
+// app/commands/recurring_orders_worker.ts
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import recurringOrderService from '#services/recurring_order_service'
+
+const SCAN_INTERVAL_MS = env.get('RECURRING_ORDERS_SCAN_INTERVAL_MS', 60_000)
+
+export default class RecurringOrdersWorker extends BaseCommand {
+  public static commandName = 'recurring-orders:worker'
+  public static description =
+    'Generates orders from recurring order templates ahead of each occurrence.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Recurring Orders Worker shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    logger.info(
+      `🚀 Recurring Orders Worker démarré. Scan toutes les ${SCAN_INTERVAL_MS}ms, génération ${recurringOrderService.generationLeadSeconds}s avant chaque occurrence.`
+    )
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        await this.generateDueOrders()
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant la génération des commandes récurrentes.')
+      }
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, SCAN_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Recurring Orders Worker stopped.')
+  }
+
+  private async generateDueOrders() {
+    const templates = await recurringOrderService.findDueTemplates()
+    let generated = 0
+    let failed = 0
+
+    for (const dueTemplate of templates) {
+      if (!this.isRunning) break
+      try {
+        const claimed = await recurringOrderService.claimOccurrence(dueTemplate.id)
+        if (!claimed) continue
+
+        const order = await recurringOrderService.generateOrder(
+          claimed.template,
+          claimed.occurrenceAt
+        )
+        if (order) {
+          generated++
+        } else {
+          failed++
+        }
+      } catch (error) {
+        failed++
+        logger.error(
+          { err: error, templateId: dueTemplate.id },
+          'Erreur traitement modèle de commande récurrente.'
+        )
+      }
+    }
+
+    if (generated > 0 || failed > 0) {
+      logger.info(`Recurring orders: ${generated} commande(s) générée(s), ${failed} échec(s).`)
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// app/commands/surge_worker.ts
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import surgePricingService from '#services/surge_pricing_service'
+
+const COMPUTE_INTERVAL_MS = env.get('SURGE_COMPUTE_INTERVAL_MS', 60_000)
+
+export default class SurgeWorker extends BaseCommand {
+  public static commandName = 'surge:worker'
+  public static description =
+    'Computes the per-zone surge multipliers from pending orders and active drivers.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  private isRunning = true
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(`Received ${signal}. Surge Worker shutting down...`)
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    if (!surgePricingService.enabled) {
+      logger.warn('SURGE_ENABLED est désactivé. Le Surge Worker ne fait rien.')
+      return
+    }
+    logger.info(
+      `🚀 Surge Worker démarré. Calcul toutes les ${COMPUTE_INTERVAL_MS}ms, cellules de ${surgePricingService.zoneSizeDeg}°.`
+    )
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        const surgeMap = await surgePricingService.computeAndStore()
+        const surging = surgeMap.zones.filter((zone) => zone.multiplier > 1)
+        if (surging.length > 0) {
+          logger.info(
+            `Surge: ${surging.length} zone(s) majorée(s), max x${surging[0].multiplier} (${surging[0].zone}).`
+          )
+        } else {
+          logger.trace('Surge: aucune zone majorée.')
+        }
+      } catch (error) {
+        logger.error({ err: error }, '🚨 Erreur pendant le calcul des majorations.')
+      }
+      if (this.isRunning) {
+        await new Promise((resolve) => setTimeout(resolve, COMPUTE_INTERVAL_MS))
+      }
+    }
+    logger.info('👋 Surge Worker stopped.')
+  }
+}
@@ -0,0 +1,176 @@
+// app/commands/webhook_worker.ts
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import redis from '@adonisjs/redis/services/main'
+import logger from '@adonisjs/core/services/logger'
+import env from '#start/env'
+import { MissionLifecycleEvent } from '#services/redis_helper'
+import { OrderStatus } from '#models/order'
+import type { WebhookEvent } from '#models/webhook_endpoint'
+import webhookService from '#services/webhook_service'
+
+type RedisStreamMessage = [string, string[]] // [messageId, [field1, value1, ...]]
+type RedisStreamReadGroupResult = [string, RedisStreamMessage[]][] | null
+
+const ASSIGNMENT_EVENTS_STREAM_KEY = env.get(
+  'REDIS_ASSIGNMENT_LOGIC_STREAM',
+  'assignment_events_stream'
+)
+const CONSUMER_GROUP_NAME = env.get('REDIS_WEBHOOK_CONSUMER_GROUP', 'webhook_worker_group')
+const WORKER_NAME_PREFIX = 'webhook_worker'
+const POLL_INTERVAL_MS = env.get('WEBHOOK_WORKER_POLL_INTERVAL_MS', 2000)
+const BATCH_SIZE = env.get('WEBHOOK_WORKER_BATCH_SIZE', 20)
+
+// Événements terminaux du stream -> événement webhook (les autres types ne concernent pas ce worker)
+const LIFECYCLE_EVENTS: Partial<Record<string, { event: WebhookEvent; status: OrderStatus }>> = {
+  [MissionLifecycleEvent.COMPLETED]: { event: 'order.success', status: OrderStatus.SUCCESS },
+  [MissionLifecycleEvent.FAILED]: { event: 'order.failed', status: OrderStatus.FAILED },
+  [MissionLifecycleEvent.CANCELLED_BY_ADMIN]: {
+    event: 'order.cancelled',
+    status: OrderStatus.CANCELLED,
+  },
+  [MissionLifecycleEvent.CANCELLED_BY_SYSTEM]: {
+    event: 'order.cancelled',
+    status: OrderStatus.CANCELLED,
+  },
+}
+
+export default class WebhookWorker extends BaseCommand {
+  public static commandName = 'webhooks:worker'
+  public static description =
+    'Turns order lifecycle events into webhook deliveries and sends them with signed, retried HTTP calls.'
+
+  public static options: CommandOptions = { startApp: true }
+
+  private consumerName = `${WORKER_NAME_PREFIX}_${process.pid}_${Date.now().toString(36)}`
+  private isRunning = true
+
+  private async ensureConsumerGroupExists() {
+    try {
+      await redis.xgroup(
+        'CREATE',
+        ASSIGNMENT_EVENTS_STREAM_KEY,
+        CONSUMER_GROUP_NAME,
+        '$',
+        'MKSTREAM'
+      )
+      logger.info(
+        `Consumer group '${CONSUMER_GROUP_NAME}' created for stream '${ASSIGNMENT_EVENTS_STREAM_KEY}'.`
+      )
+    } catch (error: any) {
+      if (error.message && error.message.includes('BUSYGROUP')) {
+        logger.info(`Consumer group '${CONSUMER_GROUP_NAME}' already exists.`)
+      } else {
+        logger.error({ err: error }, 'Failed to create/ensure consumer group.')
+        throw error
+      }
+    }
+  }
+
+  private registerShutdownHandler() {
+    const handler = (signal: string) => {
+      if (!this.isRunning) return
+      logger.info(
+        `Received ${signal}. Webhook Worker (${this.consumerName}) shutting down after current batch...`
+      )
+      this.isRunning = false
+    }
+    process.on('SIGINT', () => handler('SIGINT'))
+    process.on('SIGTERM', () => handler('SIGTERM'))
+  }
+
+  async run() {
+    logger.info(
+      `🚀 Webhook Worker (${this.consumerName}) démarré. Stream: ${ASSIGNMENT_EVENTS_STREAM_KEY}, Group: ${CONSUMER_GROUP_NAME}`
+    )
+    try {
+      await this.ensureConsumerGroupExists()
+    } catch {
+      this.exitCode = 1
+      return
+    }
+    this.registerShutdownHandler()
+
+    while (this.isRunning) {
+      try {
+        // L'attente bloquante sur le stream sert aussi d'intervalle entre deux passes de livraison
+        await this.consumeLifecycleEvents()
+        await this.deliverDue()
+      } catch (error) {
+        logger.error(
+          { err: error, consumer: this.consumerName },
+          '🚨 Erreur dans la boucle du Webhook Worker. Reprise après pause...'
+        )
+        if (this.isRunning)
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS * 2))
+      }
+    }
+    logger.info(`👋 Webhook Worker (${this.consumerName}) stopped.`)
+  }
+
+  private async consumeLifecycleEvents() {
+    const streamsResult = (await redis.xreadgroup(
+      'GROUP',
+      CONSUMER_GROUP_NAME,
+      this.consumerName,
+      'COUNT',
+      BATCH_SIZE,
+      'BLOCK',
+      POLL_INTERVAL_MS,
+      'STREAMS',
+      ASSIGNMENT_EVENTS_STREAM_KEY,
+      '>'
+    )) as RedisStreamReadGroupResult
+
+    if (!streamsResult || streamsResult.length === 0) return
+
+    for (const [messageId, fieldsArray] of streamsResult[0][1]) {
+      const parsedMessage: { [key: string]: string } = {}
+      for (let i = 0; i < fieldsArray.length; i += 2) {
+        parsedMessage[fieldsArray[i]] = fieldsArray[i + 1]
+      }
+
+      const mapping = LIFECYCLE_EVENTS[parsedMessage.type]
+      if (mapping && parsedMessage.orderId) {
+        try {
+          // Même clé de dédoublonnage que l'événement émis par le log de statut
+          await webhookService.enqueueOrderEvent(
+            parsedMessage.orderId,
+            mapping.event,
+            {
+              status: mapping.status,
+              changed_at: parsedMessage.timestamp ?? null,
+              reason: parsedMessage.reasonCode ?? null,
+            },
+            messageId
+          )
+        } catch (error) {
+          // Non ACK : le message reste en attente (pending) dans le groupe pour analyse
+          logger.error(
+            { err: error, messageId, type: parsedMessage.type },
+            'Erreur enregistrement webhook depuis le stream'
+          )
+          continue
+        }
+      }
+      await redis.xack(ASSIGNMENT_EVENTS_STREAM_KEY, CONSUMER_GROUP_NAME, messageId)
+    }
+  }
+
+  private async deliverDue() {
+    const deliveries = await webhookService.claimDueDeliveries(BATCH_SIZE)
+    for (const delivery of deliveries) {
+      if (!this.isRunning) break
+      try {
+        const result = await webhookService.attemptDelivery(delivery)
+        logger.debug(
+          { deliveryId: result.id, status: result.status, attempts: result.attempts },
+          'Tentative de livraison webhook'
+        )
+      } catch (error) {
+        // La réservation expire : la livraison sera reprise à la prochaine passe
+        logger.error({ err: error, deliveryId: delivery.id }, '🚨 Erreur livraison webhook')
+      }
+    }
+  }
+}
@@ -1,16 +1,27 @@
 import { defineConfig } from '@adonisjs/auth'
 import { tokensGuard, tokensUserProvider } from '@adonisjs/auth/access_tokens'
 import type { InferAuthenticators, InferAuthEvents, Authenticators } from '@adonisjs/auth/types'
+import type { HttpContext } from '@adonisjs/core/http'
+
+// Partagé par les guards `api` et `api_key` (même type d'utilisateur authentifié)
+const userProvider = tokensUserProvider({
+  tokens: 'accessTokens',
+  model: () => import('#models/user'),
+})
 
 const authConfig = defineConfig({
   default: 'api',
   guards: {
     api: tokensGuard({
-      provider: tokensUserProvider({
-        tokens: 'accessTokens',
-        model: () => import('#models/user'),
-      }),
+      provider: userProvider,
     }),
+    // Clés API d'entreprise (backend des marchands), voir app/auth/api_key_guard.ts
+    api_key: {
+      resolver: async () => {
+        const { ApiKeyGuard } = await import('../app/auth/api_key_guard.js')
+        return (ctx: HttpContext) => new ApiKeyGuard(ctx, userProvider)
+      },
+    },
   },
 })
 
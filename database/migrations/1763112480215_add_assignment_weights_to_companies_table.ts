@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'companies'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Poids du scoring d'assignation des livreurs (eta, rating, acceptance_rate, vehicle_fit, workload)
+      table.jsonb('assignment_weights').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('assignment_weights')
+    })
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'orders'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Offre diffusée à plusieurs livreurs : { driver_ids: string[], refused_driver_ids: string[] }
+      table.jsonb('broadcast_offer').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('broadcast_offer')
+    })
+  }
+}
@@ -0,0 +1,39 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'order_batches'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id').primary()
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      table.string('status').notNullable().defaultTo('pending') // pending, accepted, completed, cancelled
+      // Résumé fusionné de la tournée (chaque waypoint référence sa commande d'origine)
+      table.jsonb('waypoints_summary').nullable()
+      table.integer('total_distance_meters').nullable()
+      table.integer('total_duration_seconds').nullable()
+      table.string('calculation_engine').nullable()
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['status'], 'order_batches_status_idx')
+    })
+
+    this.schema.alterTable('orders', (table) => {
+      table.foreign('batch_id').references('id').inTable(this.tableName).onDelete('SET NULL')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('orders', (table) => {
+      table.dropForeign(['batch_id'])
+    })
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,27 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'order_route_legs'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Les legs d'une tournée groupée appartiennent au batch, pas à une commande
+      table.string('order_id').nullable().alter()
+      table
+        .string('batch_id')
+        .nullable()
+        .references('id')
+        .inTable('order_batches')
+        .onDelete('CASCADE')
+      table.index(['batch_id', 'leg_sequence'], 'batch_leg_sequence_idx')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['batch_id', 'leg_sequence'], 'batch_leg_sequence_idx')
+      table.dropColumn('batch_id')
+      table.string('order_id').notNullable().alter()
+    })
+  }
+}
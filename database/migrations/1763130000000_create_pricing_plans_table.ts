@@ -0,0 +1,59 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'pricing_plans'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id').primary()
+      table.string('name').notNullable()
+      table.string('description').nullable()
+      // Portée du plan : une entreprise, un abonnement, ou aucun des deux (plan par défaut de la plateforme)
+      table
+        .string('company_id')
+        .nullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      table
+        .string('subscription_id')
+        .nullable()
+        .references('id')
+        .inTable('subscriptions')
+        .onDelete('CASCADE')
+      table.boolean('is_active').notNullable().defaultTo(true)
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['company_id', 'is_active'], 'pricing_plans_company_idx')
+      table.index(['subscription_id', 'is_active'], 'pricing_plans_subscription_idx')
+    })
+
+    this.schema.createTable('pricing_plan_versions', (table) => {
+      table.string('id').primary()
+      table
+        .string('pricing_plan_id')
+        .notNullable()
+        .references('id')
+        .inTable(this.tableName)
+        .onDelete('CASCADE')
+      table.integer('version').notNullable()
+      // Règles tarifaires figées de cette version (voir PricingRules)
+      table.jsonb('rules').notNullable()
+      table.timestamp('effective_from', { useTz: true }).notNullable()
+      table.timestamp('effective_to', { useTz: true }).nullable()
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.unique(['pricing_plan_id', 'version'])
+      table.index(['pricing_plan_id', 'effective_from'], 'pricing_plan_versions_effective_idx')
+    })
+  }
+
+  async down() {
+    this.schema.dropTable('pricing_plan_versions')
+    this.schema.dropTable(this.tableName)
+  }
+}
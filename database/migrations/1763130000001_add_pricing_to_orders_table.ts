@@ -0,0 +1,27 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'orders'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Version de plan tarifaire utilisée (null = tarif par défaut codé en dur)
+      table
+        .string('pricing_plan_version_id')
+        .nullable()
+        .references('id')
+        .inTable('pricing_plan_versions')
+        .onDelete('SET NULL')
+      // Détail ligne par ligne du prix client (voir FeeBreakdown)
+      table.jsonb('fee_breakdown').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropForeign(['pricing_plan_version_id'])
+      table.dropColumn('pricing_plan_version_id')
+      table.dropColumn('fee_breakdown')
+    })
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'orders'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Majoration offre/demande appliquée à la création (1 = aucune)
+      table.float('surge_multiplier').notNullable().defaultTo(1)
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('surge_multiplier')
+    })
+  }
+}
@@ -0,0 +1,34 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'orders'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Livraison programmée : heure visée au premier arrêt et fin de son créneau éventuel
+      table.timestamp('scheduled_pickup_at', { useTz: true }).nullable()
+      table.timestamp('pickup_window_end_at', { useTz: true }).nullable()
+      // Heure à laquelle le scheduler remet la commande en assignation, et heure effective de remise
+      table.timestamp('scheduled_release_at', { useTz: true }).nullable()
+      table.timestamp('released_for_assignment_at', { useTz: true }).nullable()
+
+      table.index(
+        ['scheduled_release_at', 'released_for_assignment_at'],
+        'orders_scheduled_release_idx'
+      )
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(
+        ['scheduled_release_at', 'released_for_assignment_at'],
+        'orders_scheduled_release_idx'
+      )
+      table.dropColumn('scheduled_pickup_at')
+      table.dropColumn('pickup_window_end_at')
+      table.dropColumn('scheduled_release_at')
+      table.dropColumn('released_for_assignment_at')
+    })
+  }
+}
@@ -0,0 +1,71 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'recurring_order_templates'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id').primary()
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      // Auteur du modèle : les commandes générées lui sont attribuées
+      table
+        .string('created_by_user_id')
+        .nullable()
+        .references('id')
+        .inTable('users')
+        .onDelete('SET NULL')
+      table.string('name').notNullable()
+      // Contenu des commandes générées (waypoints, colis, priorité, note), au format de POST /orders
+      table.jsonb('order_payload').notNullable()
+      // Règle de récurrence (voir RecurrenceRule) interprétée dans le fuseau `timezone`
+      table.jsonb('recurrence').notNullable()
+      table.string('timezone').notNullable().defaultTo('UTC')
+      table.date('starts_on').notNullable()
+      table.date('ends_on').nullable()
+      // Dates locales (YYYY-MM-DD) pour lesquelles aucune commande n'est générée
+      table.jsonb('skipped_dates').notNullable().defaultTo('[]')
+      table.boolean('is_paused').notNullable().defaultTo(false)
+      // false : modèle supprimé mais conservé pour le reporting de ses commandes
+      table.boolean('is_active').notNullable().defaultTo(true)
+      // Prochaine occurrence à générer (null : récurrence terminée)
+      table.timestamp('next_occurrence_at', { useTz: true }).nullable()
+      // Dernière occurrence réservée par le worker : jamais régénérée, même après modification
+      table.timestamp('last_occurrence_at', { useTz: true }).nullable()
+      table.timestamp('last_generated_at', { useTz: true }).nullable()
+      table.text('last_error').nullable()
+      table.timestamp('last_error_at', { useTz: true }).nullable()
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['company_id', 'is_active'], 'recurring_order_templates_company_idx')
+      table.index(
+        ['is_active', 'is_paused', 'next_occurrence_at'],
+        'recurring_order_templates_due_idx'
+      )
+    })
+
+    this.schema.alterTable('orders', (table) => {
+      table
+        .string('recurring_order_template_id')
+        .nullable()
+        .references('id')
+        .inTable(this.tableName)
+        .onDelete('SET NULL')
+      table.index(['recurring_order_template_id'], 'orders_recurring_order_template_idx')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('orders', (table) => {
+      table.dropIndex(['recurring_order_template_id'], 'orders_recurring_order_template_idx')
+      table.dropColumn('recurring_order_template_id')
+    })
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,48 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'order_imports'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id').primary()
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      table
+        .string('created_by_user_id')
+        .nullable()
+        .references('id')
+        .inTable('users')
+        .onDelete('SET NULL')
+      table.string('file_name').notNullable() // Nom du fichier envoyé
+      table.string('file_format').notNullable() // csv | xlsx
+      table.string('file_path').nullable() // Fichier stocké, supprimé après traitement
+      table.string('status').notNullable().defaultTo('pending')
+
+      table.integer('total_rows').notNullable().defaultTo(0)
+      table.integer('total_orders').notNullable().defaultTo(0)
+      table.integer('created_orders_count').notNullable().defaultTo(0)
+      table.integer('failed_orders_count').notNullable().defaultTo(0)
+      // Commandes créées ({ order_ref, order_id, rows }) et erreurs par ligne ({ row, order_ref, field, message })
+      table.jsonb('created_orders').notNullable().defaultTo('[]')
+      table.jsonb('row_errors').notNullable().defaultTo('[]')
+      table.text('error_message').nullable() // Erreur bloquante (fichier illisible, trop de lignes…)
+
+      table.timestamp('started_at', { useTz: true }).nullable()
+      table.timestamp('finished_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['company_id', 'created_at'], 'order_imports_company_idx')
+      table.index(['status', 'created_at'], 'order_imports_status_idx')
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,47 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'company_api_keys'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id').primary()
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      table
+        .string('created_by_user_id')
+        .nullable()
+        .references('id')
+        .inTable('users')
+        .onDelete('SET NULL')
+      table.string('name').notNullable()
+      table.string('prefix').notNullable() // Début de la clé, affiché pour l'identifier
+      table.string('token_hash').notNullable().unique() // SHA-256 de la clé, la clé en clair n'est jamais stockée
+      table.jsonb('scopes').notNullable().defaultTo('[]')
+      table.integer('rate_limit_per_minute').nullable() // Null : limite par défaut
+      table
+        .string('rotated_from_id')
+        .nullable()
+        .references('id')
+        .inTable(this.tableName)
+        .onDelete('SET NULL')
+
+      table.timestamp('last_used_at', { useTz: true }).nullable()
+      table.string('last_used_ip').nullable()
+      table.timestamp('expires_at', { useTz: true }).nullable() // Fin de la période de grâce après rotation
+      table.timestamp('revoked_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['company_id', 'created_at'], 'company_api_keys_company_idx')
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,79 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    this.schema.createTable('webhook_endpoints', (table) => {
+      table.string('id').primary()
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      table.string('url', 2048).notNullable()
+      table.string('description').nullable()
+      table.string('secret').notNullable() // Clé HMAC de signature (nécessaire en clair pour signer)
+      table.jsonb('events').notNullable().defaultTo('[]') // Événements souscrits
+      table.boolean('is_active').notNullable().defaultTo(true)
+      table.integer('consecutive_failures').notNullable().defaultTo(0) // Livraisons abandonnées d'affilée
+      table.timestamp('last_success_at', { useTz: true }).nullable()
+      table.timestamp('last_failure_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['company_id'], 'webhook_endpoints_company_idx')
+    })
+
+    this.schema.createTable('webhook_deliveries', (table) => {
+      table.string('id').primary()
+      table
+        .string('webhook_endpoint_id')
+        .notNullable()
+        .references('id')
+        .inTable('webhook_endpoints')
+        .onDelete('CASCADE')
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('CASCADE')
+      table.string('event').notNullable()
+      table.string('order_id').nullable().references('id').inTable('orders').onDelete('SET NULL')
+      // Dédoublonnage des sources (émetteur et stream Redis) pour un même endpoint
+      table.string('idempotency_key').notNullable()
+      table.jsonb('payload').notNullable() // Corps JSON envoyé tel quel à chaque tentative
+      table.string('status').notNullable().defaultTo('pending') // pending | succeeded | failed
+
+      table.integer('attempts').notNullable().defaultTo(0)
+      table.timestamp('next_attempt_at', { useTz: true }).nullable()
+      table.timestamp('last_attempt_at', { useTz: true }).nullable()
+      table.timestamp('delivered_at', { useTz: true }).nullable()
+      table.integer('response_status').nullable()
+      table.text('response_body').nullable() // Tronqué
+      table.text('error_message').nullable()
+      table.integer('duration_ms').nullable()
+      table.jsonb('attempt_history').notNullable().defaultTo('[]')
+      table
+        .string('replay_of_id')
+        .nullable()
+        .references('id')
+        .inTable('webhook_deliveries')
+        .onDelete('SET NULL')
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.unique(['webhook_endpoint_id', 'idempotency_key'], {
+        indexName: 'webhook_deliveries_idempotency_unique',
+      })
+      table.index(['status', 'next_attempt_at'], 'webhook_deliveries_due_idx')
+      table.index(['webhook_endpoint_id', 'created_at'], 'webhook_deliveries_endpoint_idx')
+    })
+  }
+
+  async down() {
+    this.schema.dropTable('webhook_deliveries')
+    this.schema.dropTable('webhook_endpoints')
+  }
+}
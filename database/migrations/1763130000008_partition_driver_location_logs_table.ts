@@ -0,0 +1,99 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+import { DateTime } from 'luxon'
+
+// Partitions mensuelles (UTC) : driver_location_logs_pYYYYMM, créées à l'avance par la commande location:retention
+const PARTITIONS_AHEAD_MONTHS = 2
+
+export default class extends BaseSchema {
+  protected tableName = 'driver_location_logs'
+
+  async up() {
+    // La table existante est conservée le temps de recopier les positions dans la table partitionnée
+    this.schema.raw(`ALTER TABLE ${this.tableName} RENAME TO ${this.tableName}_legacy`)
+    this.schema.raw(`ALTER INDEX ${this.tableName}_pkey RENAME TO ${this.tableName}_legacy_pkey`)
+
+    // La clé de partitionnement doit faire partie de la clé primaire
+    this.schema.raw(`
+      CREATE TABLE ${this.tableName} (
+        id varchar(255) NOT NULL,
+        driver_id varchar(255) NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+        location geometry(Point, 4326) NOT NULL,
+        accuracy real NULL,
+        speed real NULL,
+        heading real NULL,
+        battery_level real NULL,
+        is_moving boolean NULL,
+        timestamp timestamptz NOT NULL,
+        created_at timestamptz NULL,
+        PRIMARY KEY (id, timestamp)
+      ) PARTITION BY RANGE (timestamp)
+    `)
+    this.schema.raw(
+      `CREATE INDEX ${this.tableName}_driver_id_timestamp_index ON ${this.tableName} (driver_id, timestamp)`
+    )
+    // Filet de sécurité pour les horodatages hors partitions (horloge du téléphone erronée)
+    this.schema.raw(`CREATE TABLE ${this.tableName}_default PARTITION OF ${this.tableName} DEFAULT`)
+
+    this.defer(async (db) => {
+      const { rows } = await db.rawQuery(
+        `SELECT min(timestamp) AS oldest FROM ${this.tableName}_legacy`
+      )
+      const currentMonth = DateTime.utc().startOf('month')
+      const firstMonth = rows[0]?.oldest
+        ? DateTime.fromJSDate(new Date(rows[0].oldest)).toUTC().startOf('month')
+        : currentMonth
+      const lastMonth = currentMonth.plus({ months: PARTITIONS_AHEAD_MONTHS })
+
+      for (let month = firstMonth; month <= lastMonth; month = month.plus({ months: 1 })) {
+        await db.rawQuery(
+          `CREATE TABLE ${this.tableName}_p${month.toFormat('yyyyLL')} PARTITION OF ${this.tableName}
+             FOR VALUES FROM ('${month.toISO()}') TO ('${month.plus({ months: 1 }).toISO()}')`
+        )
+      }
+
+      await db.rawQuery(
+        `INSERT INTO ${this.tableName}
+           (id, driver_id, location, accuracy, speed, heading, battery_level, is_moving, timestamp, created_at)
+         SELECT id, driver_id, location, accuracy, speed, heading, battery_level, is_moving, timestamp, created_at
+           FROM ${this.tableName}_legacy`
+      )
+      await db.rawQuery(`DROP TABLE ${this.tableName}_legacy`)
+    })
+  }
+
+  async down() {
+    this.schema.raw(`ALTER TABLE ${this.tableName} RENAME TO ${this.tableName}_partitioned`)
+    this.schema.raw(
+      `ALTER INDEX ${this.tableName}_pkey RENAME TO ${this.tableName}_partitioned_pkey`
+    )
+
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id').primary()
+      table
+        .string('driver_id')
+        .references('id')
+        .inTable('drivers')
+        .onDelete('CASCADE')
+        .notNullable()
+      table.specificType('location', 'geometry(Point, 4326)').notNullable()
+      table.float('accuracy').nullable()
+      table.float('speed').nullable()
+      table.float('heading').nullable()
+      table.float('battery_level').nullable()
+      table.boolean('is_moving').nullable()
+      table.timestamp('timestamp', { useTz: true }).notNullable()
+      table.timestamp('created_at', { useTz: true })
+    })
+
+    this.defer(async (db) => {
+      await db.rawQuery(
+        `INSERT INTO ${this.tableName}
+           (id, driver_id, location, accuracy, speed, heading, battery_level, is_moving, timestamp, created_at)
+         SELECT id, driver_id, location, accuracy, speed, heading, battery_level, is_moving, timestamp, created_at
+           FROM ${this.tableName}_partitioned`
+      )
+      // Supprime aussi toutes les partitions
+      await db.rawQuery(`DROP TABLE ${this.tableName}_partitioned`)
+    })
+  }
+}
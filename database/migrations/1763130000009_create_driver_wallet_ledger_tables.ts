@@ -0,0 +1,82 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Gains, bonus, pénalités et retraits n'ont ni référence passerelle ni date de paiement à la création
+    this.schema.alterTable('order_transactions', (table) => {
+      table.string('transaction_reference').nullable().alter()
+      table.timestamp('payment_date').nullable().alter()
+    })
+
+    // Comptes du grand livre : un portefeuille par livreur et des comptes plateforme (contreparties)
+    this.schema.createTable('ledger_accounts', (table) => {
+      table.string('id').primary()
+      table.string('code').notNullable().unique() // driver_wallet:<driverId> | platform:<nom>
+      table.string('type').notNullable() // driver_wallet | platform
+      table
+        .string('driver_id')
+        .nullable()
+        .unique()
+        .references('id')
+        .inTable('drivers')
+        .onDelete('RESTRICT')
+      table.string('currency').notNullable().defaultTo('CFA')
+      table.bigInteger('balance').notNullable().defaultTo(0) // Somme des écritures, tenue à jour
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+    })
+
+    // Une opération comptable : ses écritures s'équilibrent (somme nulle)
+    this.schema.createTable('ledger_transactions', (table) => {
+      table.string('id').primary()
+      table.string('type').notNullable()
+      table.string('idempotency_key').notNullable().unique()
+      table.string('driver_id').nullable().references('id').inTable('drivers').onDelete('RESTRICT')
+      table.string('order_id').nullable().references('id').inTable('orders').onDelete('SET NULL')
+      table
+        .string('order_transaction_id')
+        .nullable()
+        .references('id')
+        .inTable('order_transactions')
+        .onDelete('RESTRICT')
+      table.string('description').nullable()
+      table.jsonb('metadata').notNullable().defaultTo('{}')
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['driver_id', 'created_at'], 'ledger_transactions_driver_idx')
+      table.index(['order_transaction_id'], 'ledger_transactions_order_transaction_idx')
+    })
+
+    this.schema.createTable('ledger_entries', (table) => {
+      table.string('id').primary()
+      table
+        .string('ledger_transaction_id')
+        .notNullable()
+        .references('id')
+        .inTable('ledger_transactions')
+        .onDelete('RESTRICT')
+      table
+        .string('ledger_account_id')
+        .notNullable()
+        .references('id')
+        .inTable('ledger_accounts')
+        .onDelete('RESTRICT')
+      table.bigInteger('amount').notNullable() // Positif : crédit du compte, négatif : débit
+      table.bigInteger('balance_after').notNullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['ledger_account_id', 'created_at'], 'ledger_entries_account_idx')
+      table.index(['ledger_transaction_id'], 'ledger_entries_transaction_idx')
+    })
+  }
+
+  async down() {
+    this.schema.dropTable('ledger_entries')
+    this.schema.dropTable('ledger_transactions')
+    this.schema.dropTable('ledger_accounts')
+    this.schema.alterTable('order_transactions', (table) => {
+      table.string('transaction_reference').notNullable().alter()
+      table.timestamp('payment_date').notNullable().alter()
+    })
+  }
+}
@@ -0,0 +1,53 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Webhooks entrants des passerelles : une ligne par événement, rejouer un événement est sans effet
+    this.schema.createTable('payment_webhook_events', (table) => {
+      table.string('id').primary()
+      table.string('provider').notNullable() // mtn | orange | moov | wave
+      table.string('event_id').notNullable() // Identifiant de l'événement côté passerelle
+      table
+        .string('order_transaction_id')
+        .nullable()
+        .references('id')
+        .inTable('order_transactions')
+        .onDelete('SET NULL')
+      table.string('gateway_transaction_id').nullable()
+      table.string('gateway_status').nullable()
+      table.jsonb('payload').notNullable()
+      table.string('status').notNullable().defaultTo('received') // received | processed | ignored | failed
+      table.text('error_message').nullable()
+      table.timestamp('received_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('processed_at', { useTz: true }).nullable()
+
+      table.unique(['provider', 'event_id'], { indexName: 'payment_webhook_events_event_unique' })
+      table.index(['order_transaction_id'], 'payment_webhook_events_transaction_idx')
+    })
+
+    // Rapport quotidien : écarts entre nos transactions, le grand livre et les passerelles
+    this.schema.createTable('payment_reconciliation_reports', (table) => {
+      table.string('id').primary()
+      table.date('report_date').notNullable().unique()
+      table.integer('transactions_checked').notNullable().defaultTo(0)
+      table.integer('mismatch_count').notNullable().defaultTo(0)
+      table.jsonb('providers').notNullable().defaultTo('{}') // Synthèse par passerelle
+      table.jsonb('mismatches').notNullable().defaultTo('[]')
+      table.timestamp('generated_at', { useTz: true }).notNullable().defaultTo(this.now())
+    })
+
+    this.schema.alterTable('order_transactions', (table) => {
+      table.index(['status', 'created_at'], 'order_transactions_status_created_idx')
+      table.index(['transaction_reference'], 'order_transactions_reference_idx')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('order_transactions', (table) => {
+      table.dropIndex(['status', 'created_at'], 'order_transactions_status_created_idx')
+      table.dropIndex(['transaction_reference'], 'order_transactions_reference_idx')
+    })
+    this.schema.dropTable('payment_reconciliation_reports')
+    this.schema.dropTable('payment_webhook_events')
+  }
+}
@@ -0,0 +1,105 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Facturation mensuelle des entreprises en postpayé : une facture par entreprise et par mois
+    this.schema.createTable('company_invoices', (table) => {
+      table.string('id').primary()
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('RESTRICT')
+      table.date('period_start').notNullable()
+      table.date('period_end').notNullable() // Exclu
+      table.integer('amount').notNullable()
+      table.integer('order_count').notNullable()
+      table.string('currency').notNullable().defaultTo('CFA')
+      table.string('status').notNullable().defaultTo('issued') // issued | paid | void
+      table.timestamp('issued_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('due_at', { useTz: true }).notNullable()
+      table.timestamp('paid_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.unique(['company_id', 'period_start'], { indexName: 'company_invoices_period_unique' })
+    })
+
+    // Mode de paiement client : null = paiement client non activé (commandes non facturées)
+    this.schema.alterTable('companies', (table) => {
+      table.string('payment_mode').nullable() // prepaid | mobile_money | postpaid
+      table.string('payment_timing').notNullable().defaultTo('on_creation') // on_creation | on_completion
+      table.integer('credit_limit').nullable() // Encours impayé autorisé ; null = aucune commande impayée assignée
+      table.jsonb('payment_mobile_money').nullable() // { provider, number } débité en mode mobile_money
+    })
+
+    this.schema.alterTable('orders', (table) => {
+      // Commandes existantes : rien à encaisser
+      table.string('payment_status').notNullable().defaultTo('waived')
+      table.string('payment_mode').nullable() // Mode de l'entreprise au moment de l'encaissement
+      table.integer('amount_due').nullable() // Montant facturé au client (client_fee, frais d'annulation)
+      table.integer('amount_paid').notNullable().defaultTo(0)
+      table.integer('amount_refunded').notNullable().defaultTo(0)
+      table
+        .string('invoice_id')
+        .nullable()
+        .references('id')
+        .inTable('company_invoices')
+        .onDelete('SET NULL')
+      table.timestamp('paid_at', { useTz: true }).nullable()
+
+      table.index(['company_id', 'payment_status'], 'orders_company_payment_status_idx')
+    })
+    this.schema.alterTable('orders', (table) => {
+      table.string('payment_status').notNullable().defaultTo('unpaid').alter()
+    })
+
+    // Solde prépayé d'une entreprise : compte du grand livre company_balance:<companyId>
+    this.schema.alterTable('ledger_accounts', (table) => {
+      table
+        .string('company_id')
+        .nullable()
+        .unique()
+        .references('id')
+        .inTable('companies')
+        .onDelete('RESTRICT')
+    })
+    this.schema.alterTable('ledger_transactions', (table) => {
+      table
+        .string('company_id')
+        .nullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('RESTRICT')
+      table.index(['company_id', 'created_at'], 'ledger_transactions_company_idx')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('ledger_transactions', (table) => {
+      table.dropIndex(['company_id', 'created_at'], 'ledger_transactions_company_idx')
+      table.dropColumn('company_id')
+    })
+    this.schema.alterTable('ledger_accounts', (table) => {
+      table.dropColumn('company_id')
+    })
+    this.schema.alterTable('orders', (table) => {
+      table.dropIndex(['company_id', 'payment_status'], 'orders_company_payment_status_idx')
+      table.dropColumn('payment_status')
+      table.dropColumn('payment_mode')
+      table.dropColumn('amount_due')
+      table.dropColumn('amount_paid')
+      table.dropColumn('amount_refunded')
+      table.dropColumn('invoice_id')
+      table.dropColumn('paid_at')
+    })
+    this.schema.alterTable('companies', (table) => {
+      table.dropColumn('payment_mode')
+      table.dropColumn('payment_timing')
+      table.dropColumn('credit_limit')
+      table.dropColumn('payment_mobile_money')
+    })
+    this.schema.dropTable('company_invoices')
+  }
+}
@@ -0,0 +1,54 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Paiement à la livraison : un encaissement (ou non-encaissement) par waypoint de livraison
+    this.schema.createTable('cod_collections', (table) => {
+      table.string('id').primary()
+      table.string('order_id').notNullable().references('id').inTable('orders').onDelete('RESTRICT')
+      table
+        .string('company_id')
+        .notNullable()
+        .references('id')
+        .inTable('companies')
+        .onDelete('RESTRICT')
+      table
+        .string('driver_id')
+        .notNullable()
+        .references('id')
+        .inTable('drivers')
+        .onDelete('RESTRICT')
+      table.integer('waypoint_sequence').notNullable() // Séquence dans le waypoints_summary de la commande
+      table.string('recipient_name').nullable()
+      table.integer('expected_amount').notNullable()
+      table.integer('collected_amount').notNullable()
+      table.string('currency').notNullable().defaultTo('CFA')
+      table.string('status').notNullable() // collected | not_collected
+      table.text('note').nullable() // Explication d'un écart ou d'un non-encaissement
+      table.timestamp('collected_at', { useTz: true }).notNullable()
+      table.timestamp('remitted_at', { useTz: true }).nullable() // Couvert par un reversement ou une compensation
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.unique(['order_id', 'waypoint_sequence'], {
+        indexName: 'cod_collections_waypoint_unique',
+      })
+      table.index(['company_id', 'collected_at'], 'cod_collections_company_idx')
+      table.index(['driver_id', 'remitted_at'], 'cod_collections_driver_idx')
+    })
+
+    // Un livreur a désormais deux comptes : portefeuille et espèces à reverser (driver_cash:<driverId>)
+    this.schema.alterTable('ledger_accounts', (table) => {
+      table.dropUnique(['driver_id'])
+      table.unique(['driver_id', 'type'], { indexName: 'ledger_accounts_driver_type_unique' })
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('ledger_accounts', (table) => {
+      table.dropUnique(['driver_id', 'type'], 'ledger_accounts_driver_type_unique')
+      table.unique(['driver_id'])
+    })
+    this.schema.dropTable('cod_collections')
+  }
+}
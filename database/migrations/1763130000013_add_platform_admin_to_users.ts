@@ -0,0 +1,16 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Administrateurs de la plateforme (exploitation) : plans tarifaires, carte de surge complète
+    this.schema.alterTable('users', (table) => {
+      table.boolean('is_platform_admin').notNullable().defaultTo(false)
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('users', (table) => {
+      table.dropColumn('is_platform_admin')
+    })
+  }
+}
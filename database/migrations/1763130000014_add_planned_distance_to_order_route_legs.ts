@@ -0,0 +1,20 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Distance prévue à la création du leg, conservée quand le leg est recalculé après un écart d'itinéraire
+    this.schema.alterTable('order_route_legs', (table) => {
+      table.integer('planned_distance_meters').nullable()
+    })
+
+    this.defer(async (db) => {
+      await db.rawQuery('UPDATE order_route_legs SET planned_distance_meters = distance_meters')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('order_route_legs', (table) => {
+      table.dropColumn('planned_distance_meters')
+    })
+  }
+}
@@ -0,0 +1,16 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Frais d'annulation fixés à la première application de la politique d'annulation
+    this.schema.alterTable('orders', (table) => {
+      table.integer('cancellation_fee').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('orders', (table) => {
+      table.dropColumn('cancellation_fee')
+    })
+  }
+}
@@ -60,6 +60,159 @@ module.exports = {
         TOTAL_WORKERS: `${TOTAL_AVAILABILITY_WORKERS}`,
       },
     },
+    {
+      name: 'batching-worker',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'batching:worker',   // La commande Ace pour le regroupement des commandes
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,              // Une seule instance : le regroupement ne doit pas être concurrent
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/batching-worker-out.log',
+      error_file: './logs/batching-worker-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'surge-worker',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'surge:worker',      // La commande Ace pour le calcul des majorations par zone
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,              // Une seule instance : le lissage lit la carte précédente
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/surge-worker-out.log',
+      error_file: './logs/surge-worker-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'order-scheduler',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'orders:scheduler',  // La commande Ace pour les livraisons programmées
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/order-scheduler-out.log',
+      error_file: './logs/order-scheduler-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'recurring-orders-worker',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'recurring-orders:worker', // La commande Ace pour les commandes récurrentes
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/recurring-orders-worker-out.log',
+      error_file: './logs/recurring-orders-worker-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'order-import-worker',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'orders:import-worker', // La commande Ace pour les imports CSV/XLSX de commandes
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/order-import-worker-out.log',
+      error_file: './logs/order-import-worker-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'webhook-worker',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'webhooks:worker',    // La commande Ace pour les webhooks sortants (signature + retries)
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/webhook-worker-out.log',
+      error_file: './logs/webhook-worker-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'location-retention',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'location:retention', // Partitions, sous-échantillonnage et archivage des positions livreurs
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,               // Une seule instance (opérations de maintenance sur la table)
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/location-retention-out.log',
+      error_file: './logs/location-retention-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'payment-reconciliation',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'payments:reconcile', // Vérification des paiements PENDING et rapport quotidien
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/payment-reconciliation-out.log',
+      error_file: './logs/payment-reconciliation-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
+    {
+      name: 'client-invoicing',
+      script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
+      args: 'billing:invoices',   // Factures mensuelles des entreprises en postpayé
+      interpreter: 'node',
+      exec_mode: 'fork',
+      instances: 1,
+      autorestart: true,
+      watch: false,
+      max_memory_restart: '256M',
+      log_date_format: 'YYYY-MM-DD HH:mm:ss.SSS Z',
+      out_file: './logs/client-invoicing-out.log',
+      error_file: './logs/client-invoicing-error.log',
+      env_production: {
+        NODE_ENV: 'production',
+      },
+    },
     {
       name: 'billing-worker',
       script: aceScript,          // Pointe vers le fichier ace.js ou bin/ace.js
@@ -55,6 +55,211 @@ export default await Env.create(new URL('../', import.meta.url), {
   ASSIGNMENT_STREAM_KEY: Env.schema.string(),
   WORKER_POLLING_INTERVAL_MS: Env.schema.number(),
   OFFER_EXPIRATION_SCAN_INTERVAL_MS: Env.schema.number(),
+  ASSIGNMENT_BROADCAST_SIZE: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring batching worker
+  |----------------------------------------------------------
+  */
+  BATCHING_ENABLED: Env.schema.boolean.optional(),
+  BATCHING_SCAN_INTERVAL_MS: Env.schema.number.optional(),
+  BATCHING_PICKUP_RADIUS_METERS: Env.schema.number.optional(),
+  BATCHING_TIME_WINDOW_SECONDS: Env.schema.number.optional(),
+  BATCHING_MAX_ORDERS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring order price quotes
+  |----------------------------------------------------------
+  */
+  ORDER_QUOTE_TTL_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring surge worker
+  |----------------------------------------------------------
+  */
+  SURGE_ENABLED: Env.schema.boolean.optional(),
+  SURGE_COMPUTE_INTERVAL_MS: Env.schema.number.optional(),
+  SURGE_ZONE_SIZE_DEG: Env.schema.number.optional(),
+  SURGE_RATIO_THRESHOLD: Env.schema.number.optional(),
+  SURGE_SENSITIVITY: Env.schema.number.optional(),
+  SURGE_MAX_MULTIPLIER: Env.schema.number.optional(),
+  SURGE_SMOOTHING_FACTOR: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring order scheduler
+  |----------------------------------------------------------
+  */
+  SCHEDULER_SCAN_INTERVAL_MS: Env.schema.number.optional(),
+  SCHEDULING_DRIVER_APPROACH_SECONDS: Env.schema.number.optional(),
+  SCHEDULING_ASSIGNMENT_LEAD_SECONDS: Env.schema.number.optional(),
+  SCHEDULING_STOP_SERVICE_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring recurring orders worker
+  |----------------------------------------------------------
+  */
+  RECURRING_ORDERS_SCAN_INTERVAL_MS: Env.schema.number.optional(),
+  RECURRING_ORDERS_LEAD_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring order import worker
+  |----------------------------------------------------------
+  */
+  ORDER_IMPORT_POLL_INTERVAL_MS: Env.schema.number.optional(),
+  ORDER_IMPORT_MAX_ROWS: Env.schema.number.optional(),
+  ORDER_IMPORT_CHUNK_SIZE: Env.schema.number.optional(),
+  GEOCODING_CACHE_TTL_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring company API keys
+  |----------------------------------------------------------
+  */
+  API_KEY_DEFAULT_RATE_LIMIT_PER_MINUTE: Env.schema.number.optional(),
+  API_KEY_MAX_ACTIVE_PER_COMPANY: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring webhook worker
+  |----------------------------------------------------------
+  */
+  REDIS_WEBHOOK_CONSUMER_GROUP: Env.schema.string.optional(),
+  WEBHOOK_WORKER_POLL_INTERVAL_MS: Env.schema.number.optional(),
+  WEBHOOK_WORKER_BATCH_SIZE: Env.schema.number.optional(),
+  WEBHOOK_MAX_ATTEMPTS: Env.schema.number.optional(),
+  WEBHOOK_RETRY_BASE_SECONDS: Env.schema.number.optional(),
+  WEBHOOK_TIMEOUT_MS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring live ETA
+  |----------------------------------------------------------
+  */
+  ETA_PROJECTION_MAX_DISTANCE_METERS: Env.schema.number.optional(),
+  ETA_VALHALLA_MIN_INTERVAL_SECONDS: Env.schema.number.optional(),
+  ETA_NOTIFY_THRESHOLD_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring off-route detection
+  |----------------------------------------------------------
+  */
+  ROUTE_DEVIATION_TOLERANCE_METERS: Env.schema.number.optional(),
+  ROUTE_DEVIATION_MIN_DURATION_SECONDS: Env.schema.number.optional(),
+  ROUTE_REROUTE_COOLDOWN_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring geofence arrival detection
+  |----------------------------------------------------------
+  */
+  GEOFENCE_RADIUS_METERS: Env.schema.number.optional(),
+  GEOFENCE_MAX_ACCURACY_METERS: Env.schema.number.optional(),
+  GEOFENCE_DWELL_SECONDS: Env.schema.number.optional(),
+  GEOFENCE_MAX_SPEED_MPS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring public tracking links
+  |----------------------------------------------------------
+  */
+  TRACKING_LINK_TTL_HOURS: Env.schema.number.optional(),
+  TRACKING_PUBLIC_BASE_URL: Env.schema.string.optional({ format: 'url', tld: false }),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring SSE tracking fan-out
+  |----------------------------------------------------------
+  */
+  SSE_MAX_CONNECTIONS_PER_ORDER: Env.schema.number.optional(),
+  SSE_REPLAY_BUFFER_SIZE: Env.schema.number.optional(),
+  SSE_REPLAY_TTL_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring driver location history
+  |----------------------------------------------------------
+  */
+  LOCATION_HISTORY_MAX_RANGE_HOURS: Env.schema.number.optional(),
+  LOCATION_STOP_RADIUS_METERS: Env.schema.number.optional(),
+  LOCATION_STOP_MIN_DURATION_SECONDS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring location log retention
+  |----------------------------------------------------------
+  */
+  LOCATION_DOWNSAMPLE_AFTER_DAYS: Env.schema.number.optional(),
+  LOCATION_RETENTION_DAYS: Env.schema.number.optional(),
+  LOCATION_PARTITION_MONTHS_AHEAD: Env.schema.number.optional(),
+  LOCATION_DOWNSAMPLE_STOP_SPEED_MPS: Env.schema.number.optional(),
+  LOCATION_DOWNSAMPLE_TURN_DEGREES: Env.schema.number.optional(),
+  LOCATION_ARCHIVE_DIR: Env.schema.string.optional(),
+  LOCATION_RETENTION_INTERVAL_MS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring driver wallet
+  |----------------------------------------------------------
+  */
+  WALLET_CURRENCY: Env.schema.string.optional(),
+  WALLET_MIN_WITHDRAWAL_AMOUNT: Env.schema.number.optional(),
+  WALLET_DAILY_WITHDRAWAL_LIMIT: Env.schema.number.optional(),
+  WALLET_DAILY_WITHDRAWAL_COUNT: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring payment webhooks and reconciliation
+  |----------------------------------------------------------
+  */
+  PAYMENT_WEBHOOK_SECRET_MTN: Env.schema.string.optional(),
+  PAYMENT_WEBHOOK_SECRET_ORANGE: Env.schema.string.optional(),
+  PAYMENT_WEBHOOK_SECRET_WAVE: Env.schema.string.optional(),
+  PAYMENT_WEBHOOK_SECRET_MOOV: Env.schema.string.optional(),
+  PAYMENT_RECONCILIATION_PENDING_MINUTES: Env.schema.number.optional(),
+  PAYMENT_RECONCILIATION_BATCH_SIZE: Env.schema.number.optional(),
+  PAYMENT_RECONCILIATION_INTERVAL_MS: Env.schema.number.optional(),
+  PAYMENT_RECONCILIATION_REPORT_HOUR: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring payment gateway APIs
+  |----------------------------------------------------------
+  */
+  PAYMENT_GATEWAY_TIMEOUT_MS: Env.schema.number.optional(),
+  PAYMENT_WEBHOOK_BASE_URL: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_URL_MTN: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_URL_ORANGE: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_URL_WAVE: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_URL_MOOV: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_API_KEY_MTN: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_API_KEY_ORANGE: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_API_KEY_WAVE: Env.schema.string.optional(),
+  PAYMENT_GATEWAY_API_KEY_MOOV: Env.schema.string.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring client payments and invoicing
+  |----------------------------------------------------------
+  */
+  CLIENT_CANCELLATION_FEE_PERCENT: Env.schema.number.optional(),
+  CLIENT_MIN_TOPUP_AMOUNT: Env.schema.number.optional(),
+  CLIENT_INVOICE_DUE_DAYS: Env.schema.number.optional(),
+  CLIENT_INVOICING_INTERVAL_MS: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring cash on delivery
+  |----------------------------------------------------------
+  */
+  COD_MAX_AMOUNT: Env.schema.number.optional(),
+  COD_MIN_REMITTANCE_AMOUNT: Env.schema.number.optional(),
 
   /*
   |----------------------------------------------------------
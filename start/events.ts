@@ -0,0 +1,41 @@
+/*
+|--------------------------------------------------------------------------
+| Event listeners
+|--------------------------------------------------------------------------
+|
+| Listeners applicatifs des événements déclarés dans app/contracts/events.ts
+|
+*/
+
+import emitter from '@adonisjs/core/services/emitter'
+
+const WebhookListener = () => import('#listeners/webhook_listener')
+
+// Webhooks sortants des entreprises
+emitter.on('order:status_updated', [WebhookListener, 'onOrderStatusUpdated'])
+emitter.on('order:waypoint_completed', [WebhookListener, 'onWaypointCompleted'])
+
+const TrackingFanoutListener = () => import('#listeners/tracking_fanout_listener')
+
+// Suivi SSE multi-instances (Redis pub/sub)
+emitter.on('order:status_updated', [TrackingFanoutListener, 'onStatusUpdated'])
+emitter.on('order:driver_location_updated', [TrackingFanoutListener, 'onDriverLocationUpdated'])
+emitter.on('order:eta_updated', [TrackingFanoutListener, 'onEtaUpdated'])
+emitter.on('order:route_updated', [TrackingFanoutListener, 'onRouteUpdated'])
+emitter.on('order:waypoint_completed', [TrackingFanoutListener, 'onWaypointCompleted'])
+
+const SocketListener = () => import('#listeners/socket_listener')
+
+// Namespaces Socket.IO (livreurs, entreprises, admins)
+emitter.on('order:status_updated', [SocketListener, 'onOrderStatusUpdated'])
+emitter.on('order:driver_location_updated', [SocketListener, 'onDriverLocationUpdated'])
+emitter.on('order:eta_updated', [SocketListener, 'onEtaUpdated'])
+emitter.on('order:route_updated', [SocketListener, 'onRouteUpdated'])
+emitter.on('driver:mission_offered', [SocketListener, 'onMissionOffered'])
+
+const PaymentListener = () => import('#listeners/payment_listener')
+
+// Grand livre : retraits versés ou contre-passés selon le statut passerelle ; paiements clients
+emitter.on('payment:transaction_updated', [PaymentListener, 'onTransactionUpdated'])
+// Paiement client : encaissement en fin de mission, remboursement des annulations
+emitter.on('order:status_updated', [PaymentListener, 'onOrderStatusUpdated'])
@@ -43,4 +43,6 @@ router.use([
  */
 export const middleware = router.named({
   auth: () => import('#middleware/auth_middleware'),
+  apiKey: () => import('#middleware/api_key_middleware'),
+  platformAdmin: () => import('#middleware/platform_admin_middleware'),
 })
@@ -1,18 +1,30 @@
 import router from '@adonisjs/core/services/router'
 import { middleware } from './kernel.js'
-import OrderController from '#controllers/orders_controller'
-// import DriverVehicleController from '#controllers/driver_vehicles_controller'
-import MissionController from '#controllers/missions_controller'
-import DriversController from '#controllers/drivers_controller'
-import VehiclesController from '#controllers/vehicles_controller'
-import AdminDriversController from '#controllers/admin_drivers_controller'
 
+const OrderController = () => import('#controllers/orders_controller')
+// const DriverVehicleController = () => import('#controllers/driver_vehicles_controller')
+const MissionController = () => import('#controllers/missions_controller')
+const DriversController = () => import('#controllers/drivers_controller')
+const VehiclesController = () => import('#controllers/vehicles_controller')
+const AdminDriversController = () => import('#controllers/admin_drivers_controller')
 const DriverStatusController = () => import('#controllers/driver_status_controller')
 const OrderTrackingController = () => import('#controllers/SSE/order_trackings_controller')
+const PublicTrackingController = () => import('#controllers/SSE/public_trackings_controller')
 const ProfileController = () => import('#controllers/profiles_controller')
 const DriverAvailabilityController = () => import('#controllers/driver_availability_controller')
 const AuthController = () => import('#controllers/auth_controller')
 const UserDocumentController = () => import('#controllers/driver_documents_controller')
+const DriverPaymentsController = () => import('#controllers/driver_payments_controller')
+const PaymentsController = () => import('#controllers/payments_controller')
+const CompanySettingsController = () => import('#controllers/company_settings_controller')
+const CompanyBillingController = () => import('#controllers/company_billing_controller')
+const PricingPlansController = () => import('#controllers/pricing_plans_controller')
+const SurgeMapController = () => import('#controllers/surge_map_controller')
+const OrderImportsController = () => import('#controllers/order_imports_controller')
+const ApiKeysController = () => import('#controllers/api_keys_controller')
+const WebhookEndpointsController = () => import('#controllers/webhook_endpoints_controller')
+const RecurringOrderTemplatesController = () =>
+  import('#controllers/recurring_order_templates_controller')
 
 // Auth routes
 router.post('/register_user', [AuthController, 'register_user'])
@@ -20,19 +32,19 @@ router.post('/register_driver', [AuthController, 'register_driver'])
 router.post('/login', [AuthController, 'login'])
 router.post('/auth_google', [AuthController, 'handle_google_sign_in'])
 
+router.group(() => {
+  router.patch('/profile', [ProfileController, 'update'])
+  router.post('/logout', [AuthController, 'logout'])
+  router.get('/profile', [ProfileController, 'me'])
+})
+//.use(middleware.auth({ guards: ['api'] }))
+
 router
   .group(() => {
-    router.patch('/profile', [ProfileController, 'update'])
-    router.post('/logout', [AuthController, 'logout'])
-    router.get('/profile', [ProfileController, 'me'])
+    router.get('makes', [VehiclesController, 'getMakes'])
+    router.get('models/:makeId', [VehiclesController, 'getModels'])
   })
-//.use(middleware.auth({ guards: ['api'] }))
-
-
-router.group(() => {
-  router.get('makes', [VehiclesController, 'getMakes'])
-  router.get('models/:makeId', [VehiclesController, 'getModels'])
-}).prefix('/api/vehicles')
+  .prefix('/api/vehicles')
 
 // Onboarding Route
 router.post('/driver/start_onboarding', [AuthController, 'start_driver_onboarding'])
@@ -50,16 +62,15 @@ router
     router.post('/documents', [UserDocumentController, 'uploadDocument'])
     router.get('/onboarding/status', [UserDocumentController, 'getStatus'])
     router.post('vehicle', [DriversController, 'registerVehicle'])
-
   })
   .prefix('/driver')
   .use(middleware.auth({ guards: ['api'] }))
 
-
-router.group(() => {
-  router.patch('/documents/:id/status', [UserDocumentController, 'admin_update_status'])
-  // router.patch('/vehicles/:id/status', [DriverVehicleController, 'admin_update_status'])
-})
+router
+  .group(() => {
+    router.patch('/documents/:id/status', [UserDocumentController, 'admin_update_status'])
+    // router.patch('/vehicles/:id/status', [DriverVehicleController, 'admin_update_status'])
+  })
   .use(middleware.auth({ guards: ['api'] }))
 
 router
@@ -82,10 +93,21 @@ router
   .prefix('/driver')
   .use(middleware.auth({ guards: ['api'] }))
 
-// Public SSE route for tracking
-router.get('/track-stream/:id', [OrderTrackingController, 'stream'])
+// Suivi public des destinataires (token signé et expirant, sans authentification)
+router.get('/public/tracking/:token', [PublicTrackingController, 'show'])
+router.get('/public/tracking/:token/stream', [PublicTrackingController, 'stream'])
+// Webhooks entrants des passerelles de paiement (authentifiés par signature)
+router.post('/payments/webhooks/:provider', [PaymentsController, 'webhook'])
 router.get('/missions/current', [MissionController, 'show'])
 
+router
+  .group(() => {
+    router.post('/:orderId/accept', [MissionController, 'accept'])
+    router.post('/:orderId/refuse', [MissionController, 'refuse'])
+  })
+  .prefix('/missions')
+  .use(middleware.auth({ guards: ['api'] }))
+
 router
   .group(() => {
     router.patch('/status', [DriverStatusController, 'update_status'])
@@ -93,27 +115,90 @@ router
     router.get('/status', [DriverStatusController, 'get_current_status'])
     router.post('vehicle/upload-photos', [DriversController, 'uploadVehiclePhotos'])
     router.post('/heartbeat', [DriversController, 'recordHeartbeat'])
+    router.get('/surge-map', [SurgeMapController, 'show'])
+
+    // Portefeuille : solde, relevé et retraits vers mobile money
+    router.get('/wallet', [DriverPaymentsController, 'balance'])
+    router.get('/wallet/statement', [DriverPaymentsController, 'statement'])
+    router.get('/wallet/withdrawals', [DriverPaymentsController, 'list_withdrawals'])
+    router.post('/wallet/withdrawals', [DriverPaymentsController, 'request_withdrawal'])
+    router.get('/wallet/withdrawals/:id', [DriverPaymentsController, 'show_withdrawal'])
+
+    // Paiement à la livraison : espèces à reverser et reversements
+    router.get('/cash', [DriverPaymentsController, 'cash_summary'])
+    router.get('/cash/remittances', [DriverPaymentsController, 'list_remittances'])
+    router.post('/cash/remittances', [DriverPaymentsController, 'request_remittance'])
   })
   .prefix('/driver')
   .use(middleware.auth({ guards: ['api'] }))
 
+router
+  .group(() => {
+    // Routes pour assigner un driver à une commande
+    router.post('/orders/:id/assign', [OrderController, 'admin_assign_driver'])
 
-router.group(() => {
-  // Routes pour assigner un driver à une commande
-  router.post('/orders/:id/assign', [OrderController, 'admin_assign_driver'])
-  
-  // Routes pour la gestion des livreurs par entreprise
-  router.get('/drivers', [AdminDriversController, 'index'])
-  router.get('/drivers/:id', [AdminDriversController, 'show'])
-  router.post('/drivers/assign', [AdminDriversController, 'assign'])
-  router.patch('/drivers/:id', [AdminDriversController, 'update'])
-  router.delete('/drivers/:id', [AdminDriversController, 'destroy'])
-  router.get('/drivers/:id/orders', [AdminDriversController, 'getDriverOrders'])
-  router.get('/drivers/:id/stats', [AdminDriversController, 'getDriverStats'])
-})
+    // Routes pour la gestion des livreurs par entreprise
+    router.get('/drivers', [AdminDriversController, 'index'])
+    router.get('/drivers/:id', [AdminDriversController, 'show'])
+    router.post('/drivers/assign', [AdminDriversController, 'assign'])
+    router.patch('/drivers/:id', [AdminDriversController, 'update'])
+    router.delete('/drivers/:id', [AdminDriversController, 'destroy'])
+    router.get('/drivers/:id/orders', [AdminDriversController, 'getDriverOrders'])
+    router.get('/drivers/:id/stats', [AdminDriversController, 'getDriverStats'])
+    router.get('/drivers/:id/locations', [AdminDriversController, 'getDriverLocations'])
+    router.get('/drivers/:id/wallet', [AdminDriversController, 'getDriverWallet'])
+    router.post('/drivers/:id/wallet/adjustments', [
+      AdminDriversController,
+      'createDriverWalletAdjustment',
+    ])
+
+    // Paramètres de l'entreprise
+    router.get('/settings/assignment-weights', [
+      CompanySettingsController,
+      'get_assignment_weights',
+    ])
+    router.put('/settings/assignment-weights', [
+      CompanySettingsController,
+      'update_assignment_weights',
+    ])
+
+    // Paiement des commandes (solde prépayé, mobile money, factures mensuelles)
+    router.get('/billing', [CompanyBillingController, 'summary'])
+    router.put('/billing/settings', [CompanyBillingController, 'update_settings'])
+    router.post('/billing/top-ups', [CompanyBillingController, 'top_up'])
+    router.get('/billing/invoices', [CompanyBillingController, 'list_invoices'])
+    router.get('/billing/invoices/:id', [CompanyBillingController, 'show_invoice'])
+    router.post('/billing/invoices/:id/pay', [CompanyBillingController, 'pay_invoice'])
+    router.post('/orders/:id/payment', [CompanyBillingController, 'retry_order_payment'])
+    router.get('/billing/cod-reports/:date', [CompanyBillingController, 'cod_report'])
+
+    // Plan tarifaire appliqué à l'entreprise (lecture seule, gestion réservée à la plateforme)
+    router.get('/pricing-plans/effective', [PricingPlansController, 'effective'])
+
+    // Majorations offre/demande par zone
+    router.get('/surge-map', [SurgeMapController, 'company_show'])
+  })
   .prefix('/admin')
   .use(middleware.auth({ guards: ['api'] }))
 
+// Administration de la plateforme (rôle accordé via la commande users:platform-admin)
+router
+  .group(() => {
+    // Plans tarifaires par entreprise, par abonnement ou par défaut
+    // (les règles sont versionnées, une version n'est jamais modifiée)
+    router.get('/pricing-plans', [PricingPlansController, 'index'])
+    router.get('/pricing-plans/:id', [PricingPlansController, 'show'])
+    router.post('/pricing-plans', [PricingPlansController, 'store'])
+    router.patch('/pricing-plans/:id', [PricingPlansController, 'update'])
+    router.delete('/pricing-plans/:id', [PricingPlansController, 'destroy'])
+    router.post('/pricing-plans/:id/versions', [PricingPlansController, 'create_version'])
+
+    // Carte complète des majorations (offre et demande par zone)
+    router.get('/surge-map', [SurgeMapController, 'platform_show'])
+  })
+  .prefix('/platform')
+  .use([middleware.auth({ guards: ['api'] }), middleware.platformAdmin()])
+
 router.get('/uploads/*', ({ request, response }) => {
   return response.download('.' + request.url())
 })
@@ -128,12 +213,91 @@ router
 
 router
   .group(() => {
-    router.get('/orders', [OrderController, 'index'])
-    router.get('/orders/:id', [OrderController, 'show'])
-    router.post('/orders', [OrderController, 'create_order'])
+    // Imports CSV/XLSX : déclarés avant /orders/:id
+    router.post('/orders/imports', [OrderImportsController, 'store'])
+    router.get('/orders/imports', [OrderImportsController, 'index'])
+    router.get('/orders/imports/:id', [OrderImportsController, 'show'])
+    router.get('/orders/imports/:id/errors.csv', [OrderImportsController, 'error_report'])
+    router.post('/orders/quote', [OrderController, 'quote'])
     router.get('orders/:order_id/legs/:legSequence/reroute', [OrderController, 'reroute_order_leg'])
     router.get('orders/:order_id/offer-details', [OrderController, 'get_offer_details'])
-    router.patch('/orders/:order_id/waypoints/:waypoint_sequence/status', [MissionController, 'update_waypoint_status'])
+    router.patch('/orders/:order_id/waypoints/:waypoint_sequence/status', [
+      MissionController,
+      'update_waypoint_status',
+    ])
+
+    // Commandes récurrentes (modèles générés par le Recurring Orders Worker)
+    router.get('/recurring-order-templates', [RecurringOrderTemplatesController, 'index'])
+    router.get('/recurring-order-templates/:id', [RecurringOrderTemplatesController, 'show'])
+    router.get('/recurring-order-templates/:id/orders', [
+      RecurringOrderTemplatesController,
+      'orders',
+    ])
+    router.post('/recurring-order-templates', [RecurringOrderTemplatesController, 'store'])
+    router.patch('/recurring-order-templates/:id', [RecurringOrderTemplatesController, 'update'])
+    router.delete('/recurring-order-templates/:id', [RecurringOrderTemplatesController, 'destroy'])
+    router.post('/recurring-order-templates/:id/pause', [
+      RecurringOrderTemplatesController,
+      'pause',
+    ])
+    router.post('/recurring-order-templates/:id/resume', [
+      RecurringOrderTemplatesController,
+      'resume',
+    ])
+    router.post('/recurring-order-templates/:id/skips', [
+      RecurringOrderTemplatesController,
+      'add_skip',
+    ])
+    router.delete('/recurring-order-templates/:id/skips/:date', [
+      RecurringOrderTemplatesController,
+      'remove_skip',
+    ])
+
+    // Clés API de l'entreprise (gestion réservée aux utilisateurs connectés)
+    router.get('/api-keys', [ApiKeysController, 'index'])
+    router.post('/api-keys', [ApiKeysController, 'store'])
+    router.patch('/api-keys/:id', [ApiKeysController, 'update'])
+    router.post('/api-keys/:id/rotate', [ApiKeysController, 'rotate'])
+    router.delete('/api-keys/:id', [ApiKeysController, 'destroy'])
+
+    // Webhooks sortants (événements de commande)
+    router.get('/webhooks', [WebhookEndpointsController, 'index'])
+    router.post('/webhooks', [WebhookEndpointsController, 'store'])
+    router.post('/webhooks/deliveries/:id/replay', [WebhookEndpointsController, 'replay'])
+    router.patch('/webhooks/:id', [WebhookEndpointsController, 'update'])
+    router.delete('/webhooks/:id', [WebhookEndpointsController, 'destroy'])
+    router.post('/webhooks/:id/rotate-secret', [WebhookEndpointsController, 'rotate_secret'])
+    router.post('/webhooks/:id/test', [WebhookEndpointsController, 'test'])
+    router.get('/webhooks/:id/deliveries', [WebhookEndpointsController, 'deliveries'])
   })
   .use(middleware.auth({ guards: ['api'] }))
 
+// API marchands : accessibles par token utilisateur ou par clé API (header X-Api-Key), avec scopes
+router
+  .group(() => {
+    router
+      .get('/orders', [OrderController, 'index'])
+      .use(middleware.apiKey({ scope: 'orders:read' }))
+    router
+      .get('/orders/:id', [OrderController, 'show'])
+      .use(middleware.apiKey({ scope: 'orders:read' }))
+    router
+      .post('/orders', [OrderController, 'create_order'])
+      .use(middleware.apiKey({ scope: 'orders:write' }))
+    router
+      .post('/orders/:id/cancel', [OrderController, 'cancel'])
+      .use(middleware.apiKey({ scope: 'orders:write' }))
+    router
+      .get('/orders/:id/track', [OrderController, 'track'])
+      .use(middleware.apiKey({ scope: 'tracking:read' }))
+    router
+      .get('/orders/:id/route-replay', [OrderController, 'route_replay'])
+      .use(middleware.apiKey({ scope: 'orders:read' }))
+    router
+      .get('/orders/:id/tracking-links', [OrderController, 'tracking_links'])
+      .use(middleware.apiKey({ scope: 'tracking:read' }))
+    router
+      .get('/track-stream/:id', [OrderTrackingController, 'stream'])
+      .use(middleware.apiKey({ scope: 'tracking:read' }))
+  })
+  .use(middleware.auth({ guards: ['api', 'api_key'] }))
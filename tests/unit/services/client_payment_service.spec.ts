@@ -0,0 +1,280 @@
+import { EventEmitter } from 'node:events'
+import { test } from '@japa/runner'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import type { LucidModel, LucidRow } from '@adonisjs/lucid/types/model'
+import Order, { CancellationReasonCode, OrderPaymentStatus } from '#models/order'
+import Company, { CompanyPaymentMode, CompanyPaymentTiming } from '#models/company'
+import LedgerAccount from '#models/ledger_account'
+import LedgerTransaction, { LedgerTransactionType } from '#models/ledger_transaction'
+import OrderTransaction, {
+  OrderTransactionStatus,
+  OrderTransactionType,
+  PaymentMethod,
+} from '#models/order_transaction'
+import clientPaymentService from '#services/client_payment_service'
+import driverWalletService, { type PostOptions } from '#services/driver_wallet_service'
+
+const CLIENT_FEE = 200
+const FEE = Math.round((CLIENT_FEE * clientPaymentService.cancellationFeePercent) / 100)
+const PAYER = { provider: PaymentMethod.WAVE, number: '771234567' }
+
+/**
+ * Requête en mémoire : filtre les lignes d'une table sur les colonnes demandées.
+ */
+class FakeQuery {
+  constructor(private rows: LucidRow[]) {}
+
+  where(column: string, value: unknown) {
+    this.rows = this.rows.filter((row) => row.$attributes[column] === value)
+    return this
+  }
+
+  forUpdate() {
+    return this
+  }
+
+  orderBy() {
+    return this
+  }
+
+  async first() {
+    return this.rows[0] ?? null
+  }
+
+  async firstOrFail() {
+    if (!this.rows[0]) throw new Error('Ligne introuvable')
+    return this.rows[0]
+  }
+}
+
+const originals = {
+  saveOrder: Order.prototype.save,
+  saveOrderTransaction: OrderTransaction.prototype.save,
+  post: driverWalletService.post,
+  lockAccount: driverWalletService.lockAccount,
+}
+
+function company(paymentMode: CompanyPaymentMode): Company {
+  const client = new Company()
+  client.id = 'cmp_1'
+  client.payment_mode = paymentMode
+  client.payment_timing = CompanyPaymentTiming.ON_COMPLETION
+  client.payment_mobile_money = PAYER
+  return client
+}
+
+function order(paymentMode: CompanyPaymentMode, paymentStatus: OrderPaymentStatus): Order {
+  const cancelled = new Order()
+  cancelled.id = 'ord_1'
+  cancelled.company_id = 'cmp_1'
+  cancelled.driver_id = 'drv_1'
+  cancelled.currency = 'CFA'
+  cancelled.client_fee = CLIENT_FEE
+  cancelled.cancellation_reason_code = CancellationReasonCode.CLIENT_REQUEST
+  cancelled.cancellation_fee = null
+  cancelled.payment_mode = paymentMode
+  cancelled.payment_status = paymentStatus
+  cancelled.amount_due = CLIENT_FEE
+  cancelled.amount_paid = paymentStatus === OrderPaymentStatus.PAID ? CLIENT_FEE : 0
+  cancelled.amount_refunded = 0
+  return cancelled
+}
+
+function payment(amount: number): OrderTransaction {
+  const transaction = new OrderTransaction()
+  transaction.id = 'ot_payment'
+  transaction.order_id = 'ord_1'
+  transaction.type = OrderTransactionType.CLIENT_PAYMENT
+  transaction.status = OrderTransactionStatus.SUCCESS
+  transaction.payment_method = PAYER.provider
+  transaction.currency = 'CFA'
+  transaction.amount = amount
+  transaction.metadata = { purpose: 'order', payer_number: PAYER.number }
+  return transaction
+}
+
+/**
+ * Base en mémoire pour la politique d'annulation : commande, entreprise et paiements servis par la
+ * transaction factice, écritures du grand livre et transactions créées enregistrées.
+ */
+function fakePayments(
+  cancelled: Order,
+  options: { balance?: number; payments?: OrderTransaction[] } = {}
+) {
+  const tables = new Map<LucidModel, LucidRow[]>([
+    [Order, [cancelled]],
+    [Company, [company(cancelled.payment_mode!)]],
+    [OrderTransaction, options.payments ?? []],
+  ])
+  const posted: PostOptions[] = []
+  const created: OrderTransaction[] = []
+
+  Order.prototype.save = async function () {
+    return this
+  }
+  OrderTransaction.prototype.save = async function () {
+    await OrderTransaction.assignCuid(this)
+    created.push(this)
+    return this
+  }
+  driverWalletService.post = async (_trx, postOptions) => {
+    posted.push(postOptions)
+    return new LedgerTransaction()
+  }
+  driverWalletService.lockAccount = async (_trx, code) => {
+    const account = new LedgerAccount()
+    account.code = code
+    account.balance = options.balance ?? 0
+    return account
+  }
+
+  // Transaction factice : les requêtes des modèles sont servies par FakeQuery
+  const trx = Object.assign(new EventEmitter(), {
+    isTransaction: true,
+    modelQuery: (model: LucidModel) => new FakeQuery(tables.get(model) ?? []),
+  }) as unknown as TransactionClientContract
+
+  return { trx, posted, created }
+}
+
+test.group('ClientPaymentService.applyCancellationPolicy', (group) => {
+  group.each.teardown(() => {
+    Order.prototype.save = originals.saveOrder
+    OrderTransaction.prototype.save = originals.saveOrderTransaction
+    driverWalletService.post = originals.post
+    driverWalletService.lockAccount = originals.lockAccount
+  })
+
+  test('prépayé payé : recrédite le solde, frais déduits', async ({ assert }) => {
+    const cancelled = order(CompanyPaymentMode.PREPAID, OrderPaymentStatus.PAID)
+    const { trx, posted } = fakePayments(cancelled)
+
+    const actions = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.deepEqual(actions, { refundId: null, collectionId: null })
+    assert.lengthOf(posted, 1)
+    assert.equal(posted[0].type, LedgerTransactionType.CLIENT_REFUND)
+    assert.deepEqual(
+      posted[0].lines.map((line) => line.amount),
+      [-(CLIENT_FEE - FEE), CLIENT_FEE - FEE]
+    )
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.PARTIALLY_REFUNDED)
+    assert.equal(cancelled.amount_refunded, CLIENT_FEE - FEE)
+    assert.equal(cancelled.amount_due, FEE)
+    assert.equal(cancelled.cancellation_fee, FEE)
+  })
+
+  test('mobile money payé : rembourse le payeur, frais déduits', async ({ assert }) => {
+    const cancelled = order(CompanyPaymentMode.MOBILE_MONEY, OrderPaymentStatus.PAID)
+    const { trx, created } = fakePayments(cancelled, { payments: [payment(CLIENT_FEE)] })
+
+    const actions = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.lengthOf(created, 1)
+    assert.equal(actions.refundId, created[0].id)
+    assert.equal(created[0].type, OrderTransactionType.CLIENT_REIMBURSEMENT)
+    assert.equal(created[0].amount, CLIENT_FEE - FEE)
+    assert.equal(created[0].metadata.recipient_number, PAYER.number)
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.PARTIALLY_REFUNDED)
+  })
+
+  test("remboursement intégral quand l'annulation ne vient pas du client", async ({ assert }) => {
+    const cancelled = order(CompanyPaymentMode.PREPAID, OrderPaymentStatus.PAID)
+    cancelled.cancellation_reason_code = CancellationReasonCode.DRIVER_CANCELLED
+    const { trx, posted } = fakePayments(cancelled)
+
+    await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.equal(posted[0].lines[1].amount, CLIENT_FEE)
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.REFUNDED)
+    assert.equal(cancelled.amount_due, 0)
+  })
+
+  test('prépayé différé : débite seulement les frais sur le solde', async ({ assert }) => {
+    const cancelled = order(CompanyPaymentMode.PREPAID, OrderPaymentStatus.DEFERRED)
+    const { trx, posted } = fakePayments(cancelled, { balance: 1000 })
+
+    const actions = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.deepEqual(actions, { refundId: null, collectionId: null })
+    assert.equal(posted[0].type, LedgerTransactionType.CLIENT_CHARGE)
+    assert.deepEqual(
+      posted[0].lines.map((line) => line.amount),
+      [-FEE, FEE]
+    )
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.PAID)
+    assert.equal(cancelled.amount_paid, FEE)
+  })
+
+  test('mobile money différé : collecte seulement les frais', async ({ assert }) => {
+    const cancelled = order(CompanyPaymentMode.MOBILE_MONEY, OrderPaymentStatus.DEFERRED)
+    const { trx, created } = fakePayments(cancelled)
+
+    const actions = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.equal(actions.collectionId, created[0].id)
+    assert.equal(created[0].type, OrderTransactionType.CLIENT_PAYMENT)
+    assert.equal(created[0].amount, FEE)
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.PENDING)
+    assert.equal(cancelled.amount_due, FEE)
+  })
+
+  test('la confirmation de la collecte des frais ne rembourse rien', async ({ assert }) => {
+    const cancelled = order(CompanyPaymentMode.MOBILE_MONEY, OrderPaymentStatus.DEFERRED)
+    const { trx, created } = fakePayments(cancelled)
+    await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    // Collecte des frais confirmée (applyOrderCollection), puis nouvel appel via handleTransactionUpdate
+    cancelled.amount_paid += created[0].amount
+    cancelled.payment_status = OrderPaymentStatus.PAID
+    const actions = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.deepEqual(actions, { refundId: null, collectionId: null })
+    assert.lengthOf(created, 1)
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.PAID)
+    assert.equal(cancelled.amount_paid, FEE)
+    assert.equal(cancelled.amount_refunded, 0)
+    assert.equal(cancelled.amount_due, FEE)
+  })
+
+  test('annulée pendant la collecte : rien avant la confirmation, puis frais retenus', async ({
+    assert,
+  }) => {
+    const cancelled = order(CompanyPaymentMode.MOBILE_MONEY, OrderPaymentStatus.PENDING)
+    const { trx, created } = fakePayments(cancelled, { payments: [payment(CLIENT_FEE)] })
+
+    const pending = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+    assert.deepEqual(pending, { refundId: null, collectionId: null })
+    assert.equal(cancelled.payment_status, OrderPaymentStatus.PENDING)
+
+    // Collecte de la commande confirmée après l'annulation
+    cancelled.amount_paid = CLIENT_FEE
+    cancelled.payment_status = OrderPaymentStatus.PAID
+    const actions = await clientPaymentService.applyCancellationPolicy(trx, cancelled.id)
+
+    assert.equal(actions.refundId, created[0].id)
+    assert.equal(created[0].amount, CLIENT_FEE - FEE)
+    assert.equal(cancelled.amount_due, FEE)
+  })
+
+  test('impayée : seuls les frais restent dus, rien sans livreur assigné', async ({ assert }) => {
+    for (const paymentMode of [CompanyPaymentMode.PREPAID, CompanyPaymentMode.MOBILE_MONEY]) {
+      const assigned = order(paymentMode, OrderPaymentStatus.UNPAID)
+      const { trx, posted, created } = fakePayments(assigned)
+      await clientPaymentService.applyCancellationPolicy(trx, assigned.id)
+
+      assert.equal(assigned.payment_status, OrderPaymentStatus.UNPAID, paymentMode)
+      assert.equal(assigned.amount_due, FEE, paymentMode)
+      assert.lengthOf(posted, 0)
+      assert.lengthOf(created, 0)
+
+      const unassigned = order(paymentMode, OrderPaymentStatus.UNPAID)
+      unassigned.driver_id = null
+      const empty = fakePayments(unassigned)
+      await clientPaymentService.applyCancellationPolicy(empty.trx, unassigned.id)
+
+      assert.equal(unassigned.payment_status, OrderPaymentStatus.WAIVED, paymentMode)
+      assert.equal(unassigned.amount_due, 0, paymentMode)
+    }
+  })
+})
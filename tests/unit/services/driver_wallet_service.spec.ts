@@ -0,0 +1,322 @@
+import { EventEmitter } from 'node:events'
+import { test } from '@japa/runner'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import Driver from '#models/driver'
+import LedgerAccount from '#models/ledger_account'
+import LedgerTransaction, { LedgerTransactionType } from '#models/ledger_transaction'
+import LedgerEntry from '#models/ledger_entry'
+import CodCollection from '#models/cod_collection'
+import { PaymentMethod } from '#models/order_transaction'
+import driverWalletService, { PLATFORM_ACCOUNTS } from '#services/driver_wallet_service'
+
+// Transaction factice : useTransaction() ne fait qu'y abonner le modèle (commit / rollback)
+const trx = new EventEmitter() as TransactionClientContract
+
+const originals = {
+  saveTransaction: LedgerTransaction.prototype.save,
+  saveEntry: LedgerEntry.prototype.save,
+  saveAccount: LedgerAccount.prototype.save,
+  findPosted: driverWalletService.findPosted,
+  lockAccount: driverWalletService.lockAccount,
+  post: driverWalletService.post,
+  coverCollections: driverWalletService.coverCollections,
+}
+
+function restore() {
+  LedgerTransaction.prototype.save = originals.saveTransaction
+  LedgerEntry.prototype.save = originals.saveEntry
+  LedgerAccount.prototype.save = originals.saveAccount
+  driverWalletService.findPosted = originals.findPosted
+  driverWalletService.lockAccount = originals.lockAccount
+  driverWalletService.post = originals.post
+  driverWalletService.coverCollections = originals.coverCollections
+}
+
+function account(code: string, balance = 0): LedgerAccount {
+  const ledgerAccount = new LedgerAccount()
+  ledgerAccount.id = `acc_${code}`
+  ledgerAccount.code = code
+  ledgerAccount.balance = balance
+  ledgerAccount.currency = driverWalletService.currency
+  return ledgerAccount
+}
+
+/**
+ * Grand livre en mémoire : les enregistrements des modèles sont interceptés et les comptes
+ * verrouillés sont servis depuis une Map.
+ */
+function fakeLedger(balances: Record<string, number> = {}) {
+  const transactions: LedgerTransaction[] = []
+  const entries: LedgerEntry[] = []
+  const accounts = new Map<string, LedgerAccount>()
+
+  LedgerTransaction.prototype.save = async function () {
+    LedgerTransaction.assignCuid(this)
+    transactions.push(this)
+    return this
+  }
+  LedgerEntry.prototype.save = async function () {
+    entries.push(this)
+    return this
+  }
+  LedgerAccount.prototype.save = async function () {
+    return this
+  }
+  driverWalletService.findPosted = async (_trx, idempotencyKey) =>
+    transactions.find((transaction) => transaction.idempotency_key === idempotencyKey) ?? null
+  driverWalletService.lockAccount = async (_trx, code) => {
+    if (!accounts.has(code)) accounts.set(code, account(code, balances[code] ?? 0))
+    return accounts.get(code)!
+  }
+
+  return { transactions, entries, accounts }
+}
+
+function collection(id: string, collectedAmount: number): CodCollection {
+  const codCollection = new CodCollection()
+  codCollection.id = id
+  codCollection.collected_amount = collectedAmount
+  return codCollection
+}
+
+test.group('DriverWalletService.post', (group) => {
+  group.each.teardown(restore)
+
+  test('passe des écritures équilibrées et met à jour les soldes', async ({ assert }) => {
+    const ledger = fakeLedger()
+    const walletCode = driverWalletService.walletCode('drv_1')
+
+    const transaction = await driverWalletService.post(trx, {
+      type: LedgerTransactionType.DRIVER_EARNING,
+      idempotencyKey: 'order_transaction:ot_1',
+      driverId: 'drv_1',
+      lines: [
+        { accountCode: PLATFORM_ACCOUNTS.DRIVER_EARNINGS, amount: -1500 },
+        { accountCode: walletCode, amount: 1500 },
+      ],
+    })
+
+    assert.equal(transaction.idempotency_key, 'order_transaction:ot_1')
+    assert.lengthOf(ledger.transactions, 1)
+    assert.deepEqual(
+      ledger.entries.map((entry) => [entry.ledger_transaction_id, entry.amount]),
+      [
+        [transaction.id, -1500],
+        [transaction.id, 1500],
+      ]
+    )
+    assert.equal(ledger.accounts.get(walletCode)!.balance, 1500)
+    assert.equal(ledger.accounts.get(PLATFORM_ACCOUNTS.DRIVER_EARNINGS)!.balance, -1500)
+    assert.deepEqual(
+      ledger.entries.map((entry) => entry.balance_after),
+      [-1500, 1500]
+    )
+  })
+
+  test('refuse des écritures déséquilibrées sans rien enregistrer', async ({ assert }) => {
+    const ledger = fakeLedger()
+
+    await assert.rejects(async () => {
+      await driverWalletService.post(trx, {
+        type: LedgerTransactionType.DRIVER_BONUS,
+        idempotencyKey: 'order_transaction:ot_2',
+        lines: [
+          { accountCode: PLATFORM_ACCOUNTS.DRIVER_BONUSES, amount: -1000 },
+          { accountCode: driverWalletService.walletCode('drv_1'), amount: 900 },
+        ],
+      })
+    }, /déséquilibrées/)
+    assert.lengthOf(ledger.transactions, 0)
+    assert.lengthOf(ledger.entries, 0)
+  })
+
+  test('refuse les montants non entiers', async ({ assert }) => {
+    fakeLedger()
+
+    await assert.rejects(async () => {
+      await driverWalletService.post(trx, {
+        type: LedgerTransactionType.DRIVER_BONUS,
+        idempotencyKey: 'order_transaction:ot_3',
+        lines: [
+          { accountCode: PLATFORM_ACCOUNTS.DRIVER_BONUSES, amount: -10.5 },
+          { accountCode: driverWalletService.walletCode('drv_1'), amount: 10.5 },
+        ],
+      })
+    }, /déséquilibrées/)
+  })
+
+  test("rejouer une clé d'idempotence renvoie l'opération existante sans nouvelle écriture", async ({
+    assert,
+  }) => {
+    const ledger = fakeLedger()
+    const options = {
+      type: LedgerTransactionType.DRIVER_EARNING,
+      idempotencyKey: 'order_transaction:ot_4',
+      lines: [
+        { accountCode: PLATFORM_ACCOUNTS.DRIVER_EARNINGS, amount: -700 },
+        { accountCode: driverWalletService.walletCode('drv_2'), amount: 700 },
+      ],
+    }
+
+    const first = await driverWalletService.post(trx, options)
+    const replay = await driverWalletService.post(trx, options)
+
+    assert.strictEqual(replay, first)
+    assert.lengthOf(ledger.transactions, 1)
+    assert.lengthOf(ledger.entries, 2)
+    assert.equal(ledger.accounts.get(driverWalletService.walletCode('drv_2'))!.balance, 700)
+  })
+})
+
+test.group('DriverWalletService.requestWithdrawal', () => {
+  function driverWithAccount(status: 'active' | 'inactive') {
+    const driver = new Driver()
+    driver.id = 'drv_1'
+    driver.mobile_money = [{ provider: PaymentMethod.WAVE, number: '771234567', status }]
+    return driver
+  }
+
+  test('refuse un montant inférieur au minimum', async ({ assert }) => {
+    const result = await driverWalletService.requestWithdrawal(driverWithAccount('active'), {
+      amount: driverWalletService.minWithdrawalAmount - 1,
+      provider: PaymentMethod.WAVE,
+      number: '771234567',
+    })
+
+    assert.deepEqual(result, {
+      error: `Le montant minimum de retrait est de ${driverWalletService.minWithdrawalAmount}.`,
+    })
+  })
+
+  test('refuse un compte mobile money inconnu ou inactif', async ({ assert }) => {
+    const request = {
+      amount: driverWalletService.minWithdrawalAmount,
+      provider: PaymentMethod.WAVE,
+      number: '771234567',
+    }
+
+    const inactive = await driverWalletService.requestWithdrawal(
+      driverWithAccount('inactive'),
+      request
+    )
+    const unknown = await driverWalletService.requestWithdrawal(driverWithAccount('active'), {
+      ...request,
+      number: '770000000',
+    })
+
+    assert.deepEqual(inactive, { error: 'Compte mobile money inconnu ou inactif.' })
+    assert.deepEqual(unknown, { error: 'Compte mobile money inconnu ou inactif.' })
+  })
+
+  test('refuse un retrait supérieur au solde', ({ assert }) => {
+    assert.equal(
+      driverWalletService.withdrawalLimitError(5000, 4999, { amount: 0, count: 0 }),
+      'Solde insuffisant.'
+    )
+  })
+
+  test('refuse un retrait au-delà du nombre de retraits du jour', ({ assert }) => {
+    const count = driverWalletService.dailyWithdrawalCount
+
+    assert.equal(
+      driverWalletService.withdrawalLimitError(1000, 50_000, { amount: 1000, count }),
+      `Nombre maximum de retraits par jour atteint (${count}).`
+    )
+  })
+
+  test('refuse un retrait au-delà du plafond journalier et indique le reste', ({ assert }) => {
+    const limit = driverWalletService.dailyWithdrawalLimit
+    const balance = limit * 2
+
+    assert.equal(
+      driverWalletService.withdrawalLimitError(2000, balance, { amount: limit - 1000, count: 1 }),
+      'Plafond journalier de retrait dépassé (reste 1000).'
+    )
+    assert.isNull(
+      driverWalletService.withdrawalLimitError(1000, balance, { amount: limit - 1000, count: 1 })
+    )
+  })
+})
+
+test.group('DriverWalletService.settleCashDue', (group) => {
+  group.each.teardown(restore)
+
+  function fakeSettlement(balances: Record<string, number>) {
+    const ledger = fakeLedger(balances)
+    const posted: Array<Parameters<typeof driverWalletService.post>[1]> = []
+    const covered: string[] = []
+    driverWalletService.post = async (_trx, options) => {
+      posted.push(options)
+      return new LedgerTransaction()
+    }
+    driverWalletService.coverCollections = async (_trx, driverId) => {
+      covered.push(driverId)
+    }
+    return { ledger, posted, covered }
+  }
+
+  test('compense les espèces dues dans la limite du portefeuille', async ({ assert }) => {
+    const walletCode = driverWalletService.walletCode('drv_1')
+    const cashCode = driverWalletService.cashDueCode('drv_1')
+    const { posted, covered } = fakeSettlement({ [walletCode]: 3000, [cashCode]: -5000 })
+
+    await driverWalletService.settleCashDue(trx, 'drv_1', 'order_transaction:ot_1')
+
+    assert.lengthOf(posted, 1)
+    assert.equal(posted[0].type, LedgerTransactionType.COD_SETTLED)
+    assert.equal(posted[0].idempotencyKey, 'cod_settlement:order_transaction:ot_1')
+    assert.deepEqual(posted[0].lines, [
+      { accountCode: walletCode, amount: -3000 },
+      { accountCode: cashCode, amount: 3000 },
+    ])
+    assert.deepEqual(covered, ['drv_1'])
+  })
+
+  test('ne compense que les espèces dues quand le portefeuille les couvre', async ({ assert }) => {
+    const walletCode = driverWalletService.walletCode('drv_1')
+    const cashCode = driverWalletService.cashDueCode('drv_1')
+    const { posted } = fakeSettlement({ [walletCode]: 8000, [cashCode]: -5000 })
+
+    await driverWalletService.settleCashDue(trx, 'drv_1', 'order_transaction:ot_2')
+
+    assert.deepEqual(posted[0].lines, [
+      { accountCode: walletCode, amount: -5000 },
+      { accountCode: cashCode, amount: 5000 },
+    ])
+  })
+
+  test('sans espèces dues ou sans solde, ne passe aucune écriture', async ({ assert }) => {
+    const cashCode = driverWalletService.cashDueCode('drv_1')
+    const walletCode = driverWalletService.walletCode('drv_2')
+    const { posted, covered } = fakeSettlement({
+      [driverWalletService.walletCode('drv_1')]: 4000,
+      [driverWalletService.cashDueCode('drv_2')]: -2000,
+      [walletCode]: -500,
+      [cashCode]: 0,
+    })
+
+    assert.isNull(await driverWalletService.settleCashDue(trx, 'drv_1', 'ref_1'))
+    assert.isNull(await driverWalletService.settleCashDue(trx, 'drv_2', 'ref_2'))
+    assert.lengthOf(posted, 0)
+    assert.lengthOf(covered, 0)
+  })
+})
+
+test.group('DriverWalletService.coveredCollectionIds', () => {
+  const open = [collection('cod_3', 2000), collection('cod_2', 1500), collection('cod_1', 1000)]
+
+  test('garde ouverts les encaissements les plus récents à hauteur des espèces dues', ({
+    assert,
+  }) => {
+    assert.deepEqual(driverWalletService.coveredCollectionIds(open, 2500), ['cod_1'])
+  })
+
+  test('tout est couvert quand plus rien n’est dû', ({ assert }) => {
+    assert.deepEqual(driverWalletService.coveredCollectionIds(open, 0), ['cod_3', 'cod_2', 'cod_1'])
+  })
+
+  test('rien n’est couvert tant que les espèces dues dépassent les encaissements', ({ assert }) => {
+    assert.deepEqual(driverWalletService.coveredCollectionIds(open, 4500), [])
+    assert.deepEqual(driverWalletService.coveredCollectionIds(open, 6000), [])
+  })
+})
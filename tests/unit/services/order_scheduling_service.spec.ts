@@ -0,0 +1,83 @@
+import { test } from '@japa/runner'
+import { DateTime } from 'luxon'
+import env from '#start/env'
+import orderSchedulingService from '#services/order_scheduling_service'
+
+const now = DateTime.fromISO('2026-01-05T08:00:00.000Z')
+const serviceSeconds = env.get('SCHEDULING_STOP_SERVICE_SECONDS', 300)
+
+test.group('OrderSchedulingService.computeSchedule', () => {
+  test('renvoie une commande immédiate sans créneau ni date souhaitée', ({ assert }) => {
+    const result = orderSchedulingService.computeSchedule([undefined, undefined], [1800], null, now)
+
+    assert.deepEqual(result, { schedule: null })
+  })
+
+  test('cale le premier arrêt sur le créneau le plus contraignant', ({ assert }) => {
+    const result = orderSchedulingService.computeSchedule(
+      [
+        { start: '2026-01-05T10:00:00.000Z', end: '2026-01-05T10:30:00.000Z' },
+        { start: '2026-01-05T11:00:00.000Z', end: '2026-01-05T12:00:00.000Z' },
+      ],
+      [1800],
+      null,
+      now
+    )
+
+    assert.notProperty(result, 'error')
+    const { schedule } = result as Exclude<typeof result, { error: string }>
+    // Arriver à 11:00 au second arrêt impose de partir du premier après 11:00 - (trajet + arrêt)
+    const expectedPickup = DateTime.fromISO('2026-01-05T11:00:00.000Z').minus({
+      seconds: 1800 + serviceSeconds,
+    })
+    assert.equal(schedule!.pickup_at.toMillis(), expectedPickup.toMillis())
+    assert.equal(
+      schedule!.pickup_window_end_at!.toMillis(),
+      DateTime.fromISO('2026-01-05T10:30:00.000Z').toMillis()
+    )
+    assert.equal(
+      schedule!.release_at.toMillis(),
+      expectedPickup
+        .minus({
+          seconds:
+            orderSchedulingService.driverApproachSeconds +
+            orderSchedulingService.assignmentLeadSeconds,
+        })
+        .toMillis()
+    )
+    assert.equal(
+      schedule!.completion_at.toMillis(),
+      DateTime.fromISO('2026-01-05T11:00:00.000Z').toMillis()
+    )
+  })
+
+  test('refuse des créneaux incompatibles avec le temps de trajet', ({ assert }) => {
+    const result = orderSchedulingService.computeSchedule(
+      [
+        { start: '2026-01-05T10:00:00.000Z', end: '2026-01-05T10:15:00.000Z' },
+        { start: '2026-01-05T10:20:00.000Z', end: '2026-01-05T10:30:00.000Z' },
+      ],
+      [1800],
+      null,
+      now
+    )
+
+    assert.deepEqual(result, {
+      error: 'Les créneaux horaires demandés sont incompatibles avec le temps de trajet estimé.',
+    })
+  })
+
+  test("refuse un créneau qui se termine avant l'arrivée possible d'un livreur", ({ assert }) => {
+    const windowEnd = now.plus({ seconds: orderSchedulingService.driverApproachSeconds - 60 })
+    const result = orderSchedulingService.computeSchedule(
+      [{ start: now.toISO()!, end: windowEnd.toISO()! }, undefined],
+      [1800],
+      null,
+      now
+    )
+
+    assert.deepEqual(result, {
+      error: 'Les créneaux horaires demandés ne peuvent plus être respectés.',
+    })
+  })
+})
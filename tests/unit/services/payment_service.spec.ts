@@ -0,0 +1,185 @@
+import { createHmac } from 'node:crypto'
+import { test } from '@japa/runner'
+import env from '#start/env'
+import PaymentWebhookEvent, { PaymentWebhookEventStatus } from '#models/payment_webhook_event'
+import { PaymentMethod } from '#models/order_transaction'
+import paymentService, {
+  verifyHmacSignature,
+  type GatewayWebhookEvent,
+} from '#services/payment_service'
+
+const SECRET = 'whsec_gateway_test'
+
+function hmac(payload: string, secret = SECRET): string {
+  return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+test.group('verifyHmacSignature', () => {
+  const payload = JSON.stringify({ financialTransactionId: 'mtn_1', status: 'SUCCESSFUL' })
+
+  test('accepte la signature HMAC-SHA256 du corps, avec ou sans préfixe sha256=', ({ assert }) => {
+    assert.isTrue(verifyHmacSignature(SECRET, payload, hmac(payload)))
+    assert.isTrue(verifyHmacSignature(SECRET, payload, `sha256=${hmac(payload)}`))
+  })
+
+  test('refuse une signature calculée sur un autre corps ou un autre secret', ({ assert }) => {
+    assert.isFalse(verifyHmacSignature(SECRET, payload, hmac(`${payload} `)))
+    assert.isFalse(verifyHmacSignature(SECRET, payload, hmac(payload, 'autre_secret')))
+    assert.isFalse(verifyHmacSignature(SECRET, payload, hmac(payload).slice(0, 32)))
+  })
+
+  test('refuse tout sans secret configuré ou sans signature', ({ assert }) => {
+    assert.isFalse(verifyHmacSignature(undefined, payload, hmac(payload)))
+    assert.isFalse(verifyHmacSignature('', payload, hmac(payload, '')))
+    assert.isFalse(verifyHmacSignature(SECRET, payload, undefined))
+  })
+})
+
+test.group('PaymentService.handleWebhook', (group) => {
+  const recordWebhookEvent = paymentService.recordWebhookEvent
+  const secrets = {
+    mtn: env.get('PAYMENT_WEBHOOK_SECRET_MTN'),
+    wave: env.get('PAYMENT_WEBHOOK_SECRET_WAVE'),
+  }
+  group.each.setup(() => {
+    env.set('PAYMENT_WEBHOOK_SECRET_MTN', SECRET)
+    env.set('PAYMENT_WEBHOOK_SECRET_WAVE', SECRET)
+  })
+  group.each.teardown(() => {
+    paymentService.recordWebhookEvent = recordWebhookEvent
+    env.set('PAYMENT_WEBHOOK_SECRET_MTN', secrets.mtn)
+    env.set('PAYMENT_WEBHOOK_SECRET_WAVE', secrets.wave)
+  })
+
+  /**
+   * Événements déjà reçus, par identifiant : un événement inconnu fait échouer le test, le
+   * traitement d'un nouvel événement nécessitant la base.
+   */
+  function fakeReceivedEvents(statuses: Record<string, PaymentWebhookEventStatus>) {
+    const recorded: GatewayWebhookEvent[] = []
+    paymentService.recordWebhookEvent = async (provider, event) => {
+      recorded.push(event)
+      if (!statuses[event.eventId]) throw new Error(`Événement inattendu ${event.eventId}`)
+      const webhookEvent = new PaymentWebhookEvent()
+      webhookEvent.id = `pwe_${event.eventId}`
+      webhookEvent.provider = provider
+      webhookEvent.event_id = event.eventId
+      webhookEvent.status = statuses[event.eventId]
+      return webhookEvent
+    }
+    return recorded
+  }
+
+  const mtnBody = { financialTransactionId: 'mtn_1', externalId: 'ot_1', status: 'successful' }
+  const mtnRawBody = JSON.stringify(mtnBody)
+
+  test('accepte une signature valide et dédoublonne sur l’identifiant d’événement', async ({
+    assert,
+  }) => {
+    const recorded = fakeReceivedEvents({ 'mtn_1:SUCCESSFUL': PaymentWebhookEventStatus.PROCESSED })
+
+    const result = await paymentService.handleWebhook(
+      PaymentMethod.MTN,
+      mtnRawBody,
+      { 'x-mtn-signature': hmac(mtnRawBody) },
+      mtnBody
+    )
+
+    assert.deepEqual(result, { outcome: 'duplicate', eventId: 'pwe_mtn_1:SUCCESSFUL' })
+    assert.lengthOf(recorded, 1)
+    assert.equal(recorded[0].transactionId, 'ot_1')
+    assert.equal(recorded[0].status, 'SUCCESSFUL')
+  })
+
+  test('un événement déjà ignoré est aussi traité comme un doublon', async ({ assert }) => {
+    fakeReceivedEvents({ 'mtn_1:SUCCESSFUL': PaymentWebhookEventStatus.IGNORED })
+
+    const result = await paymentService.handleWebhook(
+      PaymentMethod.MTN,
+      mtnRawBody,
+      { 'x-mtn-signature': hmac(mtnRawBody) },
+      mtnBody
+    )
+
+    assert.equal(result.outcome, 'duplicate')
+  })
+
+  test('refuse une signature invalide sans rien enregistrer', async ({ assert }) => {
+    const recorded = fakeReceivedEvents({})
+
+    const result = await paymentService.handleWebhook(
+      PaymentMethod.MTN,
+      mtnRawBody,
+      { 'x-mtn-signature': hmac(mtnRawBody, 'autre_secret') },
+      mtnBody
+    )
+    const unsigned = await paymentService.handleWebhook(PaymentMethod.MTN, mtnRawBody, {}, mtnBody)
+
+    assert.deepEqual(result, { outcome: 'invalid_signature' })
+    assert.deepEqual(unsigned, { outcome: 'invalid_signature' })
+    assert.lengthOf(recorded, 0)
+  })
+
+  test('refuse tout webhook quand le secret de la passerelle est absent', async ({ assert }) => {
+    const recorded = fakeReceivedEvents({})
+    env.set('PAYMENT_WEBHOOK_SECRET_MTN', undefined)
+
+    const result = await paymentService.handleWebhook(
+      PaymentMethod.MTN,
+      mtnRawBody,
+      { 'x-mtn-signature': hmac(mtnRawBody) },
+      mtnBody
+    )
+
+    assert.deepEqual(result, { outcome: 'invalid_signature' })
+    assert.lengthOf(recorded, 0)
+  })
+
+  test('refuse un corps signé mais incomplet', async ({ assert }) => {
+    const rawBody = JSON.stringify({ status: 'SUCCESSFUL' })
+
+    const result = await paymentService.handleWebhook(
+      PaymentMethod.MTN,
+      rawBody,
+      { 'x-mtn-signature': hmac(rawBody) },
+      { status: 'SUCCESSFUL' }
+    )
+
+    assert.deepEqual(result, { outcome: 'invalid_payload' })
+  })
+
+  test('Wave : vérifie l’en-tête t=<timestamp>,v1=<signature> sur timestamp + corps', async ({
+    assert,
+  }) => {
+    const body = {
+      id: 'evt_wave_1',
+      type: 'checkout.session.completed',
+      data: { id: 'cos_1', client_reference: 'ot_2', amount: '5000', payment_status: 'succeeded' },
+    }
+    const rawBody = JSON.stringify(body)
+    const recorded = fakeReceivedEvents({ evt_wave_1: PaymentWebhookEventStatus.PROCESSED })
+
+    const result = await paymentService.handleWebhook(
+      PaymentMethod.WAVE,
+      rawBody,
+      { 'wave-signature': `t=1767600000,v1=${hmac(`1767600000${rawBody}`)}` },
+      body
+    )
+    const otherTimestamp = await paymentService.handleWebhook(
+      PaymentMethod.WAVE,
+      rawBody,
+      { 'wave-signature': `t=1767600001,v1=${hmac(`1767600000${rawBody}`)}` },
+      body
+    )
+
+    assert.deepEqual(result, { outcome: 'duplicate', eventId: 'pwe_evt_wave_1' })
+    assert.deepEqual(recorded[0], {
+      eventId: 'evt_wave_1',
+      gatewayTransactionId: 'cos_1',
+      transactionId: 'ot_2',
+      status: 'SUCCESSFUL',
+      amount: 5000,
+    })
+    assert.deepEqual(otherTimestamp, { outcome: 'invalid_signature' })
+  })
+})
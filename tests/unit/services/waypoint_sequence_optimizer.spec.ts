@@ -0,0 +1,68 @@
+import { test } from '@japa/runner'
+import waypointSequenceOptimizer, {
+  type CostMatrix,
+  type PrecedenceConstraint,
+} from '#services/waypoint_sequence_optimizer'
+
+/**
+ * Matrice de coûts pour des waypoints alignés : durée = écart de position, distance = 10 × durée.
+ */
+function lineMatrix(positions: number[]): CostMatrix {
+  const durations = positions.map((from) => positions.map((to) => Math.abs(to - from)))
+  return { durations, distances: durations.map((row) => row.map((value) => value * 10)) }
+}
+
+test.group('WaypointSequenceOptimizer', () => {
+  test('réordonne les arrêts en gardant le premier waypoint comme départ', ({ assert }) => {
+    // Ordre du client : 0 -> 30 -> 10 -> 20 (aller-retour inutile)
+    const result = waypointSequenceOptimizer.optimize(lineMatrix([0, 30, 10, 20]), [])
+
+    assert.deepEqual(result.visit_order, [0, 2, 3, 1])
+    assert.isTrue(result.improved)
+    assert.deepEqual(result.original, { duration_seconds: 60, distance_meters: 600 })
+    assert.deepEqual(result.optimized, { duration_seconds: 30, distance_meters: 300 })
+  })
+
+  test('garde le départ fixé même quand un autre arrêt serait un meilleur point de départ', ({
+    assert,
+  }) => {
+    // Le départ est au milieu : commencer par une extrémité serait plus court
+    const result = waypointSequenceOptimizer.optimize(lineMatrix([50, 0, 100, 40, 60]), [])
+
+    assert.equal(result.visit_order[0], 0)
+    assert.sameMembers(result.visit_order, [0, 1, 2, 3, 4])
+  })
+
+  test('respecte les contraintes de précédence pickup -> livraison', ({ assert }) => {
+    // Pickup 1 (livré en 2) au bout de la ligne, pickup 3 (livré en 4) au milieu :
+    // l'ordre le plus court sans contrainte (0, 2, 3, 4, 1) livrerait 2 avant de collecter 1
+    const constraints: PrecedenceConstraint[] = [
+      { before: 1, after: 2 },
+      { before: 3, after: 4 },
+    ]
+    const result = waypointSequenceOptimizer.optimize(lineMatrix([0, 40, 10, 20, 30]), constraints)
+
+    const position = (index: number) => result.visit_order.indexOf(index)
+    assert.equal(result.visit_order[0], 0)
+    for (const constraint of constraints) {
+      assert.isBelow(position(constraint.before), position(constraint.after))
+    }
+    assert.isTrue(result.improved)
+    assert.deepEqual(result.visit_order, [0, 3, 4, 1, 2])
+  })
+
+  test("conserve l'ordre du client s'il n'est pas amélioré", ({ assert }) => {
+    const result = waypointSequenceOptimizer.optimize(lineMatrix([0, 10, 20, 30]), [])
+
+    assert.deepEqual(result.visit_order, [0, 1, 2, 3])
+    assert.isFalse(result.improved)
+    assert.deepEqual(result.optimized, result.original)
+  })
+
+  test('ne touche pas aux itinéraires de deux waypoints ou moins', ({ assert }) => {
+    const result = waypointSequenceOptimizer.optimize(lineMatrix([0, 10]), [])
+
+    assert.deepEqual(result.visit_order, [0, 1])
+    assert.isFalse(result.improved)
+  })
+})
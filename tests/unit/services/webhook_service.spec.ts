@@ -0,0 +1,163 @@
+import { createHmac } from 'node:crypto'
+import { test } from '@japa/runner'
+import env from '#start/env'
+import webhookService from '#services/webhook_service'
+
+const resolveHost = webhookService.resolveHost
+
+/**
+ * Résolution DNS factice : chaque nom renvoie les adresses données, les autres sont introuvables.
+ */
+function fakeDns(records: Record<string, string[]>) {
+  webhookService.resolveHost = async (hostname) => {
+    const addresses = records[hostname]
+    if (!addresses) throw new Error(`getaddrinfo ENOTFOUND ${hostname}`)
+    return addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 }))
+  }
+}
+
+test.group('WebhookService.validateUrl', (group) => {
+  group.each.teardown(() => {
+    webhookService.resolveHost = resolveHost
+  })
+
+  test('accepte une URL publique', async ({ assert }) => {
+    fakeDns({ 'hooks.example.com': ['93.184.216.34', '2606:2800:220:1::1'] })
+
+    assert.isNull(await webhookService.validateUrl('https://hooks.example.com/webhooks'))
+  })
+
+  test('refuse une URL mal formée ou un protocole autre que HTTP(S)', async ({ assert }) => {
+    assert.equal(await webhookService.validateUrl('pas une url'), 'URL invalide.')
+    assert.equal(
+      await webhookService.validateUrl('ftp://hooks.example.com/'),
+      "L'URL du webhook doit utiliser HTTPS."
+    )
+  })
+
+  test('refuse les hôtes locaux', async ({ assert }) => {
+    for (const url of ['https://localhost/', 'https://api.localhost/', 'https://nas.local/']) {
+      assert.equal(
+        await webhookService.validateUrl(url),
+        "L'URL du webhook ne peut pas pointer vers une adresse locale.",
+        url
+      )
+    }
+  })
+
+  test('refuse les IP privées, de lien local et CGNAT, y compris mappées en IPv6', async ({
+    assert,
+  }) => {
+    for (const url of [
+      'https://127.0.0.1/',
+      'https://10.1.2.3/',
+      'https://172.20.0.1/',
+      'https://192.168.1.10/',
+      'https://169.254.169.254/',
+      'https://100.64.0.1/',
+      'https://[::1]/',
+      'https://[fd00::1]/',
+      'https://[fe80::1]/',
+      'https://[::ffff:169.254.169.254]/',
+      'https://[::ffff:7f00:1]/',
+    ]) {
+      assert.equal(
+        await webhookService.validateUrl(url),
+        "L'URL du webhook ne peut pas pointer vers une adresse privée.",
+        url
+      )
+    }
+  })
+
+  test('refuse un nom de domaine qui se résout vers une adresse privée', async ({ assert }) => {
+    fakeDns({
+      '169.254.169.254.nip.io': ['169.254.169.254'],
+      'mixed.example.com': ['93.184.216.34', '::ffff:a00:1'],
+    })
+
+    assert.equal(
+      await webhookService.validateUrl('https://169.254.169.254.nip.io/'),
+      "L'URL du webhook ne peut pas pointer vers une adresse privée."
+    )
+    assert.equal(
+      await webhookService.validateUrl('https://mixed.example.com/'),
+      "L'URL du webhook ne peut pas pointer vers une adresse privée."
+    )
+  })
+
+  test('refuse un nom de domaine introuvable', async ({ assert }) => {
+    fakeDns({})
+
+    assert.equal(
+      await webhookService.validateUrl('https://unknown.example.com/'),
+      "Le nom d'hôte de l'URL du webhook est introuvable."
+    )
+  })
+})
+
+test.group('WebhookService.sign', () => {
+  test('signe "<timestamp>.<corps>" au format t=<timestamp>,v1=<hex>', ({ assert }) => {
+    const body = JSON.stringify({ id: 'evt_1', event: 'order.created' })
+    const expected = createHmac('sha256', 'whsec_test').update(`1767600000.${body}`).digest('hex')
+
+    assert.equal(webhookService.sign('whsec_test', 1767600000, body), `t=1767600000,v1=${expected}`)
+  })
+
+  test('la signature dépend du timestamp et du secret', ({ assert }) => {
+    const signature = webhookService.sign('whsec_test', 1767600000, '{}')
+
+    assert.notEqual(webhookService.sign('whsec_test', 1767600001, '{}'), signature)
+    assert.notEqual(webhookService.sign('whsec_other', 1767600000, '{}'), signature)
+  })
+})
+
+test.group('WebhookService.retryDelaySeconds', () => {
+  const base = env.get('WEBHOOK_RETRY_BASE_SECONDS', 30)
+
+  test('double le délai à chaque tentative, à ±10% près', ({ assert }) => {
+    for (const attempts of [1, 2, 3, 4]) {
+      const expected = base * 2 ** (attempts - 1)
+      const delay = webhookService.retryDelaySeconds(attempts)
+
+      assert.isAtLeast(delay, Math.floor(expected * 0.9), `tentative ${attempts}`)
+      assert.isAtMost(delay, Math.ceil(expected * 1.1), `tentative ${attempts}`)
+    }
+  })
+
+  test('plafonne le délai à 6 heures', ({ assert }) => {
+    assert.isAtMost(webhookService.retryDelaySeconds(30), Math.ceil(6 * 3600 * 1.1))
+    assert.isAtLeast(webhookService.retryDelaySeconds(30), Math.floor(6 * 3600 * 0.9))
+  })
+})
+
+test.group('WebhookService.orderEventKey', () => {
+  test('une seule clé par commande pour les événements uniques', ({ assert }) => {
+    for (const event of [
+      'order.created',
+      'order.success',
+      'order.failed',
+      'order.cancelled',
+    ] as const) {
+      assert.equal(webhookService.orderEventKey(event, 'ord_1', 'log_1'), `${event}:ord_1`)
+      assert.equal(
+        webhookService.orderEventKey(event, 'ord_1', 'log_2'),
+        webhookService.orderEventKey(event, 'ord_1', 'log_1')
+      )
+    }
+  })
+
+  test('distingue les occurrences des événements répétables', ({ assert }) => {
+    assert.equal(
+      webhookService.orderEventKey('order.accepted', 'ord_1', 'log_1'),
+      'order.accepted:ord_1:log_1'
+    )
+    assert.notEqual(
+      webhookService.orderEventKey('order.accepted', 'ord_1', 'log_2'),
+      webhookService.orderEventKey('order.accepted', 'ord_1', 'log_1')
+    )
+    assert.equal(
+      webhookService.orderEventKey('order.at_pickup', 'ord_1', 0),
+      'order.at_pickup:ord_1:0'
+    )
+  })
+})